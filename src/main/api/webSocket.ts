@@ -0,0 +1,249 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+/**
+ * Server side of RFC 6455, limited to what the local API stream needs: the
+ * opening handshake, unfragmented text frames out, and ping/pong/close
+ * handling in. Messages from clients are not delivered; the stream is
+ * one-way.
+ */
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_CLIENT_FRAME_BYTES = 64 * 1024;
+
+export const WEBSOCKET_OPCODE = {
+  text: 0x1,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+} as const;
+
+export type WebSocketFrame = {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+};
+
+export class WebSocketProtocolError extends Error { }
+
+export function computeWebSocketAccept(key: string): string {
+  return createHash('sha1').update(`${key}${WEBSOCKET_GUID}`).digest('base64');
+}
+
+/** Server frames are sent unmasked; clients must pass a 4-byte mask. */
+export function encodeWebSocketFrame(
+  opcode: number,
+  payload: string | Buffer,
+  mask?: Buffer,
+): Buffer {
+  const data = typeof payload === 'string' ? Buffer.from(payload) : payload;
+  const maskBit = mask ? 0x80 : 0;
+  let header: Buffer;
+
+  if (data.length < 126) {
+    header = Buffer.from([0x80 | opcode, maskBit | data.length]);
+  } else if (data.length <= 0xffff) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = maskBit | 126;
+    header.writeUInt16BE(data.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = maskBit | 127;
+    header.writeBigUInt64BE(BigInt(data.length), 2);
+  }
+
+  if (!mask) {
+    return Buffer.concat([header, data]);
+  }
+
+  const masked = Buffer.alloc(data.length);
+  for (let index = 0; index < data.length; index += 1) {
+    masked[index] = data[index] ^ mask[index % 4];
+  }
+  return Buffer.concat([header, mask, masked]);
+}
+
+/** Splits a byte stream into frames, unmasking client payloads. */
+export class WebSocketFrameReader {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  public push(chunk: Buffer): WebSocketFrame[] {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+    const frames: WebSocketFrame[] = [];
+
+    for (;;) {
+      if (this.buffer.length < 2) {
+        break;
+      }
+
+      const masked = (this.buffer[1] & 0x80) !== 0;
+      let payloadLength = this.buffer[1] & 0x7f;
+      let offset = 2;
+      if (payloadLength === 126) {
+        if (this.buffer.length < 4) {
+          break;
+        }
+        payloadLength = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (payloadLength === 127) {
+        if (this.buffer.length < 10) {
+          break;
+        }
+        const length = this.buffer.readBigUInt64BE(2);
+        if (length > BigInt(MAX_CLIENT_FRAME_BYTES)) {
+          throw new WebSocketProtocolError('WebSocket frame is too large');
+        }
+        payloadLength = Number(length);
+        offset = 10;
+      }
+
+      if (payloadLength > MAX_CLIENT_FRAME_BYTES) {
+        throw new WebSocketProtocolError('WebSocket frame is too large');
+      }
+
+      const maskOffset = offset;
+      if (masked) {
+        offset += 4;
+      }
+      if (this.buffer.length < offset + payloadLength) {
+        break;
+      }
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + payloadLength));
+      if (masked) {
+        for (let index = 0; index < payload.length; index += 1) {
+          payload[index] ^= this.buffer[maskOffset + (index % 4)];
+        }
+      }
+
+      frames.push({
+        fin: (this.buffer[0] & 0x80) !== 0,
+        opcode: this.buffer[0] & 0x0f,
+        payload,
+      });
+      this.buffer = this.buffer.subarray(offset + payloadLength);
+    }
+
+    return frames;
+  }
+}
+
+export class WebSocketConnection {
+  private readonly socket: Duplex;
+  private readonly reader = new WebSocketFrameReader();
+  private readonly closeListeners = new Set<() => void>();
+  private closing = false;
+
+  public constructor(socket: Duplex) {
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => {
+      let frames: WebSocketFrame[];
+      try {
+        frames = this.reader.push(chunk);
+      } catch {
+        this.close(1009);
+        return;
+      }
+
+      for (const frame of frames) {
+        this.handleFrame(frame);
+      }
+    });
+    socket.on('error', () => {
+      socket.destroy();
+    });
+    socket.on('close', () => {
+      for (const listener of this.closeListeners) {
+        listener();
+      }
+    });
+  }
+
+  public sendText(text: string): void {
+    if (!this.closing && !this.socket.destroyed) {
+      this.socket.write(encodeWebSocketFrame(WEBSOCKET_OPCODE.text, text));
+    }
+  }
+
+  public close(code = 1000): void {
+    if (this.closing) {
+      return;
+    }
+
+    this.closing = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    if (!this.socket.destroyed) {
+      this.socket.end(encodeWebSocketFrame(WEBSOCKET_OPCODE.close, payload));
+    }
+  }
+
+  /** Ends the connection without the closing handshake, for shutdown. */
+  public terminate(): void {
+    this.closing = true;
+    this.socket.destroy();
+  }
+
+  public onClose(listener: () => void): () => void {
+    this.closeListeners.add(listener);
+    return () => {
+      this.closeListeners.delete(listener);
+    };
+  }
+
+  private handleFrame(frame: WebSocketFrame): void {
+    switch (frame.opcode) {
+      case WEBSOCKET_OPCODE.ping:
+        if (!this.closing) {
+          this.socket.write(encodeWebSocketFrame(WEBSOCKET_OPCODE.pong, frame.payload));
+        }
+        return;
+      case WEBSOCKET_OPCODE.close:
+        this.close(frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : 1000);
+        return;
+      default:
+        return;
+    }
+  }
+}
+
+/**
+ * Completes the opening handshake on an `upgrade` socket. Returns null after
+ * answering 400 when the request is not a valid WebSocket upgrade.
+ */
+export function acceptWebSocketUpgrade(
+  request: IncomingMessage,
+  socket: Duplex,
+): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key'];
+  const upgrade = request.headers.upgrade;
+  if (
+    request.method !== 'GET' ||
+    typeof key !== 'string' ||
+    typeof upgrade !== 'string' ||
+    upgrade.toLowerCase() !== 'websocket' ||
+    request.headers['sec-websocket-version'] !== '13'
+  ) {
+    rejectUpgrade(socket, 400, 'Bad Request');
+    return null;
+  }
+
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${computeWebSocketAccept(key)}`,
+      '',
+      '',
+    ].join('\r\n'),
+  );
+  return new WebSocketConnection(socket);
+}
+
+export function rejectUpgrade(socket: Duplex, statusCode: number, statusText: string): void {
+  socket.end(`HTTP/1.1 ${statusCode} ${statusText}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
@@ -1,28 +1,53 @@
 import { RuntimeConfigCoordinator } from './runtimeConfigCoordinator';
 import { configStore } from '../config/configStore';
+import { BatteryHealthRepository } from '../db/batteryHealthRepository';
+import { DecisionLogRepository } from '../db/decisionLogRepository';
 import { DuckDbClient } from '../db/duckdbClient';
+import { EnergyRepository } from '../db/energyRepository';
+import { PowerEventRepository } from '../db/powerEventRepository';
 import { RetentionService } from '../db/retentionService';
 import { TelemetryRepository } from '../db/telemetryRepository';
 import { registerIpcHandlers } from '../ipc/ipcHandlers';
 import { NutPollingService } from '../nut/nutPollingService';
+import { UpsSessionRegistry } from '../nut/upsSessionRegistry';
 import { WizardProvisioningService } from '../nut/wizardProvisioningService';
+import { BatteryHealthService } from '../system/batteryHealthService';
 import { BatterySafetyService } from '../system/batterySafetyService';
 import { CriticalAlertWindow } from '../system/criticalAlertWindow';
+import { DemoUpsService } from '../system/demoUpsService';
+import { EnergyService } from '../system/energyService';
 import { LineAlertService } from '../system/lineAlertService';
+import { LocalApiService } from '../system/localApiService';
+import { MetricsExporterService } from '../system/metricsExporterService';
+import { MqttPublisherService } from '../system/mqttPublisherService';
+import { NutServerService } from '../system/nutServerService';
+import { PowerEventService } from '../system/powerEventService';
 import { applyStartWithWindowsSetting } from '../system/startupService';
 import { TrayService } from '../system/trayService';
 import { i18nService } from '../system/i18nService';
+import { PRIMARY_UPS_ID } from '../../shared/ups/upsTargets';
 
 export type MainProcessRuntime = {
   duckDbClient: DuckDbClient;
   telemetryRepository: TelemetryRepository;
+  decisionLogRepository: DecisionLogRepository;
+  powerEventRepository: PowerEventRepository;
   retentionService: RetentionService;
   nutPollingService: NutPollingService;
+  upsSessionRegistry: UpsSessionRegistry;
   wizardProvisioningService: WizardProvisioningService;
   trayService: TrayService;
   batterySafetyService: BatterySafetyService;
   criticalAlertWindow: CriticalAlertWindow;
   lineAlertService: LineAlertService;
+  powerEventService: PowerEventService;
+  batteryHealthService: BatteryHealthService;
+  energyService: EnergyService;
+  metricsExporterService: MetricsExporterService;
+  mqttPublisherService: MqttPublisherService;
+  localApiService: LocalApiService;
+  nutServerService: NutServerService;
+  demoUpsService: DemoUpsService;
   runtimeConfigCoordinator: RuntimeConfigCoordinator;
 };
 
@@ -30,11 +55,29 @@ type RuntimeCleanupState = {
   duckDbClient: DuckDbClient | null;
   retentionService: RetentionService | null;
   nutPollingService: NutPollingService | null;
+  upsSessionRegistry: UpsSessionRegistry | null;
   wizardProvisioningService: WizardProvisioningService | null;
   trayService: TrayService | null;
   batterySafetyService: BatterySafetyService | null;
+  energyService: EnergyService | null;
+  powerEventService: PowerEventService | null;
+  batteryHealthService: BatteryHealthService | null;
+  metricsExporterService: MetricsExporterService | null;
+  mqttPublisherService: MqttPublisherService | null;
+  localApiService: LocalApiService | null;
+  nutServerService: NutServerService | null;
+  demoUpsService: DemoUpsService | null;
   unsubscribeTelemetryListener: (() => void) | null;
   unsubscribeConnectionListener: (() => void) | null;
+  unsubscribeTrayTelemetryListener: (() => void) | null;
+  unsubscribeTrayConnectionListener: (() => void) | null;
+  unsubscribePowerEventListener: (() => void) | null;
+  unsubscribeBatteryHealthListener: (() => void) | null;
+  unsubscribeEnergyTotalsListener: (() => void) | null;
+  unsubscribeMetricsTelemetryListener: (() => void) | null;
+  unsubscribeMqttListeners: (() => void) | null;
+  unsubscribeLocalApiListeners: (() => void) | null;
+  unsubscribeNutServerListener: (() => void) | null;
 };
 
 let runtimePromise: Promise<MainProcessRuntime> | null = null;
@@ -43,11 +86,29 @@ const cleanupState: RuntimeCleanupState = {
   duckDbClient: null,
   retentionService: null,
   nutPollingService: null,
+  upsSessionRegistry: null,
   wizardProvisioningService: null,
   trayService: null,
   batterySafetyService: null,
+  energyService: null,
+  powerEventService: null,
+  batteryHealthService: null,
+  metricsExporterService: null,
+  mqttPublisherService: null,
+  localApiService: null,
+  nutServerService: null,
+  demoUpsService: null,
   unsubscribeTelemetryListener: null,
   unsubscribeConnectionListener: null,
+  unsubscribeTrayTelemetryListener: null,
+  unsubscribeTrayConnectionListener: null,
+  unsubscribePowerEventListener: null,
+  unsubscribeBatteryHealthListener: null,
+  unsubscribeEnergyTotalsListener: null,
+  unsubscribeMetricsTelemetryListener: null,
+  unsubscribeMqttListeners: null,
+  unsubscribeLocalApiListeners: null,
+  unsubscribeNutServerListener: null,
 };
 
 export function bootstrapMainProcess(): Promise<MainProcessRuntime> {
@@ -83,9 +144,15 @@ async function initializeRuntime(): Promise<MainProcessRuntime> {
     await duckDbClient.initialize();
 
     const telemetryRepository = new TelemetryRepository(duckDbClient);
+    const decisionLogRepository = new DecisionLogRepository(duckDbClient);
+    const powerEventRepository = new PowerEventRepository(duckDbClient);
+    const energyRepository = new EnergyRepository(duckDbClient);
     const retentionService = new RetentionService(
       telemetryRepository,
-      initialConfig.data.retentionDays,
+      initialConfig.data,
+      decisionLogRepository,
+      powerEventRepository,
+      energyRepository,
     );
     cleanupState.retentionService = retentionService;
 
@@ -96,9 +163,15 @@ async function initializeRuntime(): Promise<MainProcessRuntime> {
     const batterySafetyService = new BatterySafetyService(
       initialConfig,
       criticalAlertWindow,
+      decisionLogRepository,
     );
     cleanupState.batterySafetyService = batterySafetyService;
     const lineAlertService = new LineAlertService(initialConfig);
+    const powerEventService = new PowerEventService(powerEventRepository);
+    cleanupState.powerEventService = powerEventService;
+    await powerEventService.start();
+    const energyService = new EnergyService(energyRepository, initialConfig.energy);
+    cleanupState.energyService = energyService;
     const latestTelemetryPoint = await telemetryRepository.getLatestTelemetryPoint();
     if (latestTelemetryPoint) {
       trayService.handleTelemetry(latestTelemetryPoint.values);
@@ -106,6 +179,54 @@ async function initializeRuntime(): Promise<MainProcessRuntime> {
 
     const nutPollingService = new NutPollingService(configStore, telemetryRepository);
     cleanupState.nutPollingService = nutPollingService;
+    const upsSessionRegistry = new UpsSessionRegistry(
+      configStore,
+      telemetryRepository,
+      nutPollingService,
+    );
+    cleanupState.upsSessionRegistry = upsSessionRegistry;
+    const batteryHealthService = new BatteryHealthService(
+      new BatteryHealthRepository(duckDbClient),
+      (upsId) => upsSessionRegistry.get(upsId).getStaticSnapshot(),
+    );
+    cleanupState.batteryHealthService = batteryHealthService;
+
+    const metricsExporterService = new MetricsExporterService(
+      {
+        listDevices: () => upsSessionRegistry.listDevices(),
+        getPolicyStatus: () => batterySafetyService.getPolicyStatus(),
+      },
+      initialConfig.metrics,
+    );
+    cleanupState.metricsExporterService = metricsExporterService;
+    const mqttPublisherService = new MqttPublisherService(initialConfig, {
+      cancelCountdown: (reason) => batterySafetyService.cancelActiveCountdown(reason),
+    });
+    cleanupState.mqttPublisherService = mqttPublisherService;
+    const localApiService = new LocalApiService(
+      {
+        listDevices: () => upsSessionRegistry.listDevices(),
+        getNutState: (upsId) => upsSessionRegistry.get(upsId).getStateSnapshot(),
+        getLatestTelemetry: (upsId) => telemetryRepository.getLatestTelemetryPoint(upsId),
+        queryTelemetryRange: (payload) => telemetryRepository.queryRange(payload),
+        queryDecisionLog: (query) => decisionLogRepository.query(query),
+        cancelCountdown: (reason) => batterySafetyService.cancelActiveCountdown(reason),
+      },
+      initialConfig.localApi,
+    );
+    cleanupState.localApiService = localApiService;
+    const nutServerService = new NutServerService(
+      {
+        getPrimaryState: () => nutPollingService.getStateSnapshot(),
+        getPrimaryName: () =>
+          upsSessionRegistry.listDevices().find((device) => device.id === PRIMARY_UPS_ID)?.name
+            ?? configStore.get().nut.upsName,
+      },
+      initialConfig.nutServer,
+    );
+    cleanupState.nutServerService = nutServerService;
+    const demoUpsService = new DemoUpsService(initialConfig);
+    cleanupState.demoUpsService = demoUpsService;
 
     const wizardProvisioningService = new WizardProvisioningService(
       configStore,
@@ -115,15 +236,22 @@ async function initializeRuntime(): Promise<MainProcessRuntime> {
 
     const runtimeConfigCoordinator = new RuntimeConfigCoordinator({
       retentionService,
-      nutPollingService,
+      upsSessionRegistry,
       wizardProvisioningService,
       trayService,
       batterySafetyService,
       lineAlertService,
+      energyService,
+      metricsExporterService,
+      mqttPublisherService,
+      localApiService,
+      nutServerService,
+      demoUpsService,
     });
+    // Shutdown safety and line alerts follow the primary UPS only; the tray
+    // summarizes every configured device.
     const unsubscribeTelemetryListener = nutPollingService.onTelemetryUpdated(
       ({ values, rawUpsStatus }) => {
-        trayService.handleTelemetry(values);
         batterySafetyService.handleTelemetry(values, rawUpsStatus);
         lineAlertService.handleTelemetry(values);
       },
@@ -132,16 +260,99 @@ async function initializeRuntime(): Promise<MainProcessRuntime> {
 
     const unsubscribeConnectionListener = nutPollingService.onConnectionStateChanged(
       (state) => {
-        trayService.handleConnectionState(state);
         batterySafetyService.handleConnectionState(state);
       },
     );
     cleanupState.unsubscribeConnectionListener = unsubscribeConnectionListener;
 
+    cleanupState.unsubscribeTrayTelemetryListener = upsSessionRegistry.onTelemetryUpdated(
+      ({ upsId, values }) => {
+        trayService.handleTelemetry(values, upsId);
+      },
+    );
+    cleanupState.unsubscribeTrayConnectionListener =
+      upsSessionRegistry.onConnectionStateChanged((upsId, state) => {
+        trayService.handleConnectionState(state, upsId);
+      });
+    cleanupState.unsubscribePowerEventListener = upsSessionRegistry.onTelemetryUpdated(
+      (payload) => {
+        void powerEventService.handleTelemetry(payload);
+      },
+    );
+    // Battery health covers every UPS, but the shutdown policy only reads the
+    // primary one, like the rest of its context.
+    const unsubscribeBatteryHealthTelemetry = upsSessionRegistry.onTelemetryUpdated(
+      (payload) => {
+        batteryHealthService.handleTelemetry(payload);
+      },
+    );
+    const unsubscribeBatteryHealthReports = batteryHealthService.onReportUpdated(
+      (report) => {
+        if (report.upsId === PRIMARY_UPS_ID) {
+          batterySafetyService.handleBatteryHealth(report);
+        }
+      },
+    );
+    cleanupState.unsubscribeBatteryHealthListener = () => {
+      unsubscribeBatteryHealthTelemetry();
+      unsubscribeBatteryHealthReports();
+    };
+    cleanupState.unsubscribeEnergyTotalsListener = energyService.onTotalsUpdated(
+      (totals) => {
+        trayService.handleEnergyTotals(totals);
+      },
+    );
+    cleanupState.unsubscribeMetricsTelemetryListener = upsSessionRegistry.onTelemetryUpdated(
+      (payload) => {
+        metricsExporterService.handleTelemetry(payload);
+      },
+    );
+    // MQTT mirrors the primary UPS, whose countdown it can cancel.
+    const unsubscribeMqttTelemetry = nutPollingService.onTelemetryUpdated((payload) => {
+      mqttPublisherService.handleTelemetry(payload);
+    });
+    const unsubscribeMqttConnection = nutPollingService.onConnectionStateChanged((state) => {
+      mqttPublisherService.handleConnectionState(state);
+    });
+    const unsubscribeMqttCountdown = batterySafetyService.onCountdownEvent((event) => {
+      mqttPublisherService.handleCountdownEvent(event);
+    });
+    cleanupState.unsubscribeMqttListeners = () => {
+      unsubscribeMqttTelemetry();
+      unsubscribeMqttConnection();
+      unsubscribeMqttCountdown();
+    };
+    const unsubscribeLocalApiTelemetry = upsSessionRegistry.onTelemetryUpdated((payload) => {
+      localApiService.handleTelemetry(payload);
+    });
+    const unsubscribeLocalApiConnection = upsSessionRegistry.onConnectionStateChanged(
+      (upsId, state) => {
+        localApiService.handleConnectionState(upsId, state);
+      },
+    );
+    cleanupState.unsubscribeLocalApiListeners = () => {
+      unsubscribeLocalApiTelemetry();
+      unsubscribeLocalApiConnection();
+    };
+    // Secondaries see FSD on their next poll once our own shutdown is committed,
+    // and the shutdown command waits for them to log out.
+    cleanupState.unsubscribeNutServerListener = batterySafetyService.onShutdownCommitChanged(
+      (committed) => {
+        nutServerService.setForcedShutdown(committed);
+      },
+    );
+    batterySafetyService.setServedSecondaries(nutServerService);
+
     trayService.start(initialConfig);
     trayService.handleConnectionState(nutPollingService.getState());
     batterySafetyService.handleConnectionState(nutPollingService.getState());
     runtimeConfigCoordinator.initialize(initialConfig);
+    energyService.start();
+    void metricsExporterService.start();
+    mqttPublisherService.handleConnectionState(nutPollingService.getState());
+    void mqttPublisherService.start();
+    void localApiService.start();
+    void nutServerService.start();
 
     // Re-apply startup registration so the --autostart flag is present in the
     // registry entry.  This is a no-op when the setting is already correct and
@@ -150,32 +361,53 @@ async function initializeRuntime(): Promise<MainProcessRuntime> {
       applyStartWithWindowsSetting(true);
     }
 
+    // The simulated upsd has to listen before the first poll reaches it.
+    await demoUpsService.start();
+
     registerIpcHandlers({
       configStore,
       telemetryRepository,
+      decisionLogRepository,
+      powerEventRepository,
       nutPollingService,
+      upsSessionRegistry,
       wizardProvisioningService,
       runtimeConfigCoordinator,
       criticalAlertWindow,
       batterySafetyService,
+      batteryHealthService,
+      energyService,
+      demoUpsService,
     });
 
     retentionService.start();
 
     if (initialConfig.wizard.completed) {
       nutPollingService.start();
+      upsSessionRegistry.start();
     }
 
     return {
       duckDbClient,
       telemetryRepository,
+      decisionLogRepository,
+      powerEventRepository,
       retentionService,
       nutPollingService,
+      upsSessionRegistry,
       wizardProvisioningService,
       trayService,
       batterySafetyService,
       criticalAlertWindow,
       lineAlertService,
+      powerEventService,
+      batteryHealthService,
+      energyService,
+      metricsExporterService,
+      mqttPublisherService,
+      localApiService,
+      nutServerService,
+      demoUpsService,
       runtimeConfigCoordinator,
     };
   } catch (error) {
@@ -196,6 +428,36 @@ function performShutdown(): Promise<void> {
     cleanupState.unsubscribeConnectionListener?.();
     cleanupState.unsubscribeConnectionListener = null;
 
+    cleanupState.unsubscribeTrayTelemetryListener?.();
+    cleanupState.unsubscribeTrayTelemetryListener = null;
+
+    cleanupState.unsubscribeTrayConnectionListener?.();
+    cleanupState.unsubscribeTrayConnectionListener = null;
+
+    cleanupState.unsubscribePowerEventListener?.();
+    cleanupState.unsubscribePowerEventListener = null;
+
+    cleanupState.unsubscribeBatteryHealthListener?.();
+    cleanupState.unsubscribeBatteryHealthListener = null;
+
+    cleanupState.unsubscribeEnergyTotalsListener?.();
+    cleanupState.unsubscribeEnergyTotalsListener = null;
+
+    cleanupState.unsubscribeMetricsTelemetryListener?.();
+    cleanupState.unsubscribeMetricsTelemetryListener = null;
+
+    cleanupState.unsubscribeMqttListeners?.();
+    cleanupState.unsubscribeMqttListeners = null;
+
+    cleanupState.unsubscribeLocalApiListeners?.();
+    cleanupState.unsubscribeLocalApiListeners = null;
+
+    cleanupState.unsubscribeNutServerListener?.();
+    cleanupState.unsubscribeNutServerListener = null;
+
+    cleanupState.energyService?.stop();
+    cleanupState.energyService = null;
+
     cleanupState.trayService?.stop();
     cleanupState.trayService = null;
 
@@ -205,18 +467,49 @@ function performShutdown(): Promise<void> {
     cleanupState.retentionService?.stop();
     cleanupState.retentionService = null;
 
+    // Samples already queued are still written, so the database closes after them.
+    const powerEventService = cleanupState.powerEventService;
+    const batteryHealthService = cleanupState.batteryHealthService;
+    cleanupState.powerEventService = null;
+    cleanupState.batteryHealthService = null;
+    await Promise.all([powerEventService?.stop(), batteryHealthService?.stop()]);
+
     const nutPollingService = cleanupState.nutPollingService;
+    const upsSessionRegistry = cleanupState.upsSessionRegistry;
     const wizardProvisioningService = cleanupState.wizardProvisioningService;
     const duckDbClient = cleanupState.duckDbClient;
+    const metricsExporterService = cleanupState.metricsExporterService;
+    const mqttPublisherService = cleanupState.mqttPublisherService;
+    const localApiService = cleanupState.localApiService;
+    const nutServerService = cleanupState.nutServerService;
+    const demoUpsService = cleanupState.demoUpsService;
 
     cleanupState.nutPollingService = null;
+    cleanupState.upsSessionRegistry = null;
     cleanupState.wizardProvisioningService = null;
     cleanupState.duckDbClient = null;
-
-    const [nutStopResult, wizardStopResult, duckDbCloseResult] = await Promise.allSettled([
+    cleanupState.metricsExporterService = null;
+    cleanupState.mqttPublisherService = null;
+    cleanupState.localApiService = null;
+    cleanupState.nutServerService = null;
+    cleanupState.demoUpsService = null;
+
+    const [
+      nutStopResult,
+      registryStopResult,
+      wizardStopResult,
+      duckDbCloseResult,
+    ] = await Promise.allSettled([
       nutPollingService?.stop() ?? Promise.resolve(),
+      upsSessionRegistry?.dispose() ?? Promise.resolve(),
       wizardProvisioningService?.stop() ?? Promise.resolve(),
       duckDbClient?.close() ?? Promise.resolve(),
+      // Never reject: listener and broker failures are logged by the services.
+      metricsExporterService?.stop() ?? Promise.resolve(),
+      mqttPublisherService?.stop() ?? Promise.resolve(),
+      localApiService?.stop() ?? Promise.resolve(),
+      nutServerService?.stop() ?? Promise.resolve(),
+      demoUpsService?.stop() ?? Promise.resolve(),
     ]);
 
     if (nutStopResult.status === 'rejected') {
@@ -226,6 +519,13 @@ function performShutdown(): Promise<void> {
       );
     }
 
+    if (registryStopResult.status === 'rejected') {
+      console.error(
+        '[MainProcessBootstrap] Failed to stop additional UPS sessions during shutdown',
+        registryStopResult.reason,
+      );
+    }
+
     if (wizardStopResult.status === 'rejected') {
       console.error(
         '[MainProcessBootstrap] Failed to stop WizardProvisioningService during shutdown',
@@ -1,38 +1,63 @@
 import { nativeTheme } from 'electron';
 import type { AppConfig } from '../config/configSchema';
 import type { RetentionService } from '../db/retentionService';
-import type { NutPollingService } from '../nut/nutPollingService';
+import type { UpsSessionRegistry } from '../nut/upsSessionRegistry';
 import type { WizardProvisioningService } from '../nut/wizardProvisioningService';
 import type { BatterySafetyService } from '../system/batterySafetyService';
-import { i18nService } from '../system/i18nService';
+import type { DemoUpsService } from '../system/demoUpsService';
+import type { EnergyService } from '../system/energyService';
+import { i18nService, t } from '../system/i18nService';
 import type { LineAlertService } from '../system/lineAlertService';
+import type { LocalApiService } from '../system/localApiService';
+import type { MetricsExporterService } from '../system/metricsExporterService';
+import type { MqttPublisherService } from '../system/mqttPublisherService';
+import type { NutServerService } from '../system/nutServerService';
+import type { ServiceListener } from '../system/serviceListener';
 import { applyStartWithWindowsSetting } from '../system/startupService';
 import type { TrayService } from '../system/trayService';
 
 export type RuntimeConfigCoordinatorDependencies = {
   retentionService: RetentionService;
-  nutPollingService: NutPollingService;
+  upsSessionRegistry: UpsSessionRegistry;
   wizardProvisioningService: WizardProvisioningService;
   trayService: TrayService;
   batterySafetyService: BatterySafetyService;
   lineAlertService: LineAlertService;
+  energyService: EnergyService;
+  metricsExporterService: MetricsExporterService;
+  mqttPublisherService: MqttPublisherService;
+  localApiService: LocalApiService;
+  nutServerService: NutServerService;
+  demoUpsService: DemoUpsService;
 };
 
 export class RuntimeConfigCoordinator {
   private readonly retentionService: RetentionService;
-  private readonly nutPollingService: NutPollingService;
+  private readonly upsSessionRegistry: UpsSessionRegistry;
   private readonly wizardProvisioningService: WizardProvisioningService;
   private readonly trayService: TrayService;
   private readonly batterySafetyService: BatterySafetyService;
   private readonly lineAlertService: LineAlertService;
+  private readonly energyService: EnergyService;
+  private readonly metricsExporterService: MetricsExporterService;
+  private readonly mqttPublisherService: MqttPublisherService;
+  private readonly localApiService: LocalApiService;
+  private readonly nutServerService: NutServerService;
+  private readonly demoUpsService: DemoUpsService;
 
   public constructor(dependencies: RuntimeConfigCoordinatorDependencies) {
     this.retentionService = dependencies.retentionService;
-    this.nutPollingService = dependencies.nutPollingService;
+    this.upsSessionRegistry = dependencies.upsSessionRegistry;
     this.wizardProvisioningService = dependencies.wizardProvisioningService;
     this.trayService = dependencies.trayService;
     this.batterySafetyService = dependencies.batterySafetyService;
     this.lineAlertService = dependencies.lineAlertService;
+    this.energyService = dependencies.energyService;
+    this.metricsExporterService = dependencies.metricsExporterService;
+    this.mqttPublisherService = dependencies.mqttPublisherService;
+    this.localApiService = dependencies.localApiService;
+    this.nutServerService = dependencies.nutServerService;
+    this.demoUpsService = dependencies.demoUpsService;
   }
 
   public initialize(config: AppConfig): void {
@@ -42,6 +67,12 @@ export class RuntimeConfigCoordinator {
     this.trayService.handleConfigUpdated(config);
     this.batterySafetyService.handleConfigUpdated(config);
     this.lineAlertService.handleConfigUpdated(config);
+    this.energyService.handleConfigUpdated(config);
+    void this.metricsExporterService.handleConfigUpdated(config);
+    void this.mqttPublisherService.handleConfigUpdated(config);
+    void this.localApiService.handleConfigUpdated(config);
+    void this.nutServerService.handleConfigUpdated(config);
+    void this.demoUpsService.handleConfigUpdated(config);
   }
 
   public async applyUpdatedConfig(
@@ -59,7 +90,9 @@ export class RuntimeConfigCoordinator {
     nativeTheme.themeSource = nextConfig.theme?.mode ?? 'system';
     applyStartWithWindowsSetting(nextConfig.startup.startWithWindows);
     this.retentionService.handleConfigUpdated(nextConfig);
-    await this.nutPollingService.handleConfigUpdated(previousConfig, nextConfig);
+    // The simulated upsd must be listening before polling reconnects to it.
+    await this.demoUpsService.handleConfigUpdated(nextConfig);
+    await this.upsSessionRegistry.handleConfigUpdated(previousConfig, nextConfig);
 
     if (options?.runRetention) {
       await this.retentionService.runOnce();
@@ -69,5 +102,42 @@ export class RuntimeConfigCoordinator {
     this.trayService.handleConfigUpdated(nextConfig);
     this.batterySafetyService.handleConfigUpdated(nextConfig);
     this.lineAlertService.handleConfigUpdated(nextConfig);
+    this.energyService.handleConfigUpdated(nextConfig);
+    await this.metricsExporterService.handleConfigUpdated(nextConfig);
+    await this.localApiService.handleConfigUpdated(nextConfig);
+    await this.nutServerService.handleConfigUpdated(nextConfig);
+    // Not awaited: an unreachable broker would hold the save until the connect timeout.
+    void this.mqttPublisherService.handleConfigUpdated(nextConfig);
+  }
+
+  /**
+   * Enabled servers that could not listen after the last change, worded for
+   * the settings page, since the listeners themselves only log the error.
+   */
+  public getListenerErrors(): string[] {
+    const listeners: [ServiceListener, string, string][] = [
+      [
+        this.metricsExporterService.getListener(),
+        'settings.metricsListenFailed',
+        'The metrics exporter could not listen on {{address}}. Another program may be using the port.',
+      ],
+      [
+        this.localApiService.getListener(),
+        'settings.localApiListenFailed',
+        'The local API could not listen on {{address}}. Another program may be using the port.',
+      ],
+      [
+        this.nutServerService.getListener(),
+        'settings.nutServerListenFailed',
+        'The NUT server could not listen on {{address}}. Another program may be using the port.',
+      ],
+    ];
+
+    return listeners.flatMap(([listener, key, defaultValue]) => {
+      const address = listener.getFailedAddress();
+      return address
+        ? [t(key, { defaultValue, address: `${address.host}:${address.port}` })]
+        : [];
+    });
   }
 }
@@ -7,6 +7,7 @@ import {
   parseConfigPatch,
 } from './configSchema';
 import {
+  createBuiltInShutdownPolicyPreset,
   DEFAULT_BATTERY_SHUTDOWN_RULE_ID,
   DEFAULT_FSD_SHUTDOWN_RULE_ID,
 } from '../../shared/shutdownPolicy/defaultPolicies';
@@ -85,7 +86,7 @@ describe('FSD config schema', () => {
 
 describe('shutdown policy config schema', () => {
   it('defaults include generated simple shutdown policy rules', () => {
-    expect(defaultAppConfig.shutdownPolicy.version).toBe(1);
+    expect(defaultAppConfig.shutdownPolicy.version).toBe(2);
     expect(defaultAppConfig.shutdownPolicy.mode).toBe('simple');
     expect(defaultAppConfig.shutdownPolicy.safety).toEqual({
       requireHoldForShutdownSeconds: 5,
@@ -113,6 +114,24 @@ describe('shutdown policy config schema', () => {
     expect(result.shutdownPolicy).toEqual(defaultAppConfig.shutdownPolicy);
   });
 
+  it('migrates a policy and presets stored by an older version', () => {
+    const policy = createBuiltInShutdownPolicyPreset('runtimeBased');
+    const result = normalizeStoredConfig({
+      ...defaultAppConfig,
+      shutdownPolicy: { ...policy, version: 1 },
+      shutdownPolicyPresets: [{
+        id: 'office',
+        name: 'Office',
+        savedAtIso: '2026-10-01T08:00:00.000Z',
+        policy: { ...policy, version: 1 },
+      }],
+    });
+
+    expect(result.shutdownPolicy.rules).toEqual(policy.rules);
+    expect(result.shutdownPolicy.version).toBe(2);
+    expect(result.shutdownPolicyPresets.map((preset) => preset.policy.version)).toEqual([2]);
+  });
+
   it('applies a partial shutdown policy safety patch', () => {
     const patch = parseConfigPatch({
       shutdownPolicy: {
@@ -186,3 +205,139 @@ describe('shutdown policy config schema', () => {
     expect(fsdRule?.action).toEqual({ type: 'showCriticalAlert' });
   });
 });
+
+describe('UPS target config schema', () => {
+  const rackB = {
+    id: 'rack-b',
+    name: 'Rack B',
+    host: '10.0.0.5',
+    port: 3493,
+    upsName: 'ups2',
+  };
+
+  it('accepts additional named UPS targets', () => {
+    const result = applyConfigPatch(
+      defaultAppConfig,
+      parseConfigPatch({ nut: { displayName: 'Rack A', targets: [rackB] } }),
+    );
+
+    expect(result.nut.displayName).toBe('Rack A');
+    expect(result.nut.targets).toEqual([rackB]);
+  });
+
+  it('keeps the STARTTLS settings of each target', () => {
+    const tls = { mode: 'required' as const, pinnedFingerprint: 'AB'.repeat(32) };
+    const result = applyConfigPatch(
+      defaultAppConfig,
+      parseConfigPatch({ nut: { targets: [{ ...rackB, tls }] } }),
+    );
+
+    expect(result.nut.targets?.[0].tls).toEqual(tls);
+    expect(() => parseConfigPatch({
+      nut: { targets: [{ ...rackB, tls: { mode: 'always' } }] },
+    })).toThrow();
+  });
+
+  it('keeps targets when other connection fields are patched', () => {
+    const withTargets = applyConfigPatch(
+      defaultAppConfig,
+      parseConfigPatch({ nut: { targets: [rackB] } }),
+    );
+    const result = applyConfigPatch(
+      withTargets,
+      parseConfigPatch({ nut: { host: '192.168.1.10' } }),
+    );
+
+    expect(result.nut.host).toBe('192.168.1.10');
+    expect(result.nut.targets).toEqual([rackB]);
+  });
+
+  it('rejects duplicate and reserved target ids', () => {
+    expect(() =>
+      parseConfigPatch({ nut: { targets: [rackB, { ...rackB, name: 'Copy' }] } }),
+    ).toThrow(/Duplicate UPS target id/u);
+    expect(() =>
+      parseConfigPatch({ nut: { targets: [{ ...rackB, id: 'primary' }] } }),
+    ).toThrow(/reserved/u);
+    expect(() =>
+      parseConfigPatch({ nut: { targets: [{ ...rackB, id: 'Rack B' }] } }),
+    ).toThrow();
+  });
+});
+
+describe('nut TLS config', () => {
+  it('accepts a STARTTLS mode with a pinned fingerprint', () => {
+    const fingerprint = Array.from({ length: 32 }, () => 'a1').join(':');
+    const result = applyConfigPatch(
+      defaultAppConfig,
+      parseConfigPatch({ nut: { tls: { mode: 'required', pinnedFingerprint: fingerprint } } }),
+    );
+
+    expect(result.nut.tls).toEqual({ mode: 'required', pinnedFingerprint: fingerprint });
+  });
+
+  it('rejects unknown modes and malformed certificates', () => {
+    expect(() => parseConfigPatch({ nut: { tls: { mode: 'always' } } })).toThrow();
+    expect(() =>
+      parseConfigPatch({ nut: { tls: { mode: 'required', caCertificate: 'not a certificate' } } }),
+    ).toThrow(/PEM/u);
+    expect(() =>
+      parseConfigPatch({ nut: { tls: { mode: 'required', pinnedFingerprint: 'abcd' } } }),
+    ).toThrow(/SHA-256/u);
+  });
+});
+
+describe('demo config', () => {
+  it('is off by default and keeps the scenario when only enablement is patched', () => {
+    expect(defaultAppConfig.demo.enabled).toBe(false);
+
+    const chosen = applyConfigPatch(
+      defaultAppConfig,
+      parseConfigPatch({ demo: { enabled: true, scenario: 'flappingInput', speed: 10 } }),
+    );
+    const result = applyConfigPatch(chosen, parseConfigPatch({ demo: { enabled: false } }));
+
+    expect(result.demo).toEqual({ ...defaultAppConfig.demo, enabled: false, scenario: 'flappingInput', speed: 10 });
+  });
+
+  it('rejects unknown scenarios and out-of-range speeds', () => {
+    expect(() => parseConfigPatch({ demo: { scenario: 'earthquake' } })).toThrow();
+    expect(() => parseConfigPatch({ demo: { speed: 0 } })).toThrow();
+    expect(() => parseConfigPatch({ demo: { speed: 61 } })).toThrow();
+  });
+});
+
+describe('shutdown policy presets', () => {
+  const preset = {
+    id: 'office',
+    name: 'Office desktops',
+    savedAtIso: '2026-10-01T08:00:00.000Z',
+    policy: createBuiltInShutdownPolicyPreset('earlyShutdown'),
+  };
+
+  it('starts empty and replaces the whole list when patched', () => {
+    expect(defaultAppConfig.shutdownPolicyPresets).toEqual([]);
+
+    const saved = applyConfigPatch(
+      defaultAppConfig,
+      parseConfigPatch({ shutdownPolicyPresets: [preset] }),
+    );
+    const renamed = applyConfigPatch(
+      saved,
+      parseConfigPatch({ shutdownPolicyPresets: [{ ...preset, name: 'Lab' }] }),
+    );
+
+    expect(saved.shutdownPolicyPresets).toEqual([preset]);
+    expect(renamed.shutdownPolicyPresets.map((entry) => entry.name)).toEqual(['Lab']);
+    expect(applyConfigPatch(renamed, parseConfigPatch({ theme: { mode: 'dark' } }))
+      .shutdownPolicyPresets).toEqual(renamed.shutdownPolicyPresets);
+  });
+
+  it('rejects duplicate ids, blank names and invalid policies', () => {
+    expect(() => parseConfigPatch({ shutdownPolicyPresets: [preset, preset] })).toThrow();
+    expect(() => parseConfigPatch({ shutdownPolicyPresets: [{ ...preset, name: '  ' }] })).toThrow();
+    expect(() => parseConfigPatch({
+      shutdownPolicyPresets: [{ ...preset, policy: { ...preset.policy, version: 3 } }],
+    })).toThrow();
+  });
+});
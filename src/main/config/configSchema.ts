@@ -2,10 +2,25 @@ import { z } from 'zod';
 import {
   defaultShutdownPolicyConfig,
   shutdownPolicyPatchSchema,
+  shutdownPolicyPresetListSchema,
   shutdownPolicySchema,
 } from '../shutdown/schema/shutdownPolicySchema';
-import { migrateLegacyShutdownPolicyConfig } from '../shutdown/ShutdownPolicyMigration';
+import {
+  migrateLegacyShutdownPolicyConfig,
+  migrateShutdownPolicyVersion,
+} from '../shutdown/ShutdownPolicyMigration';
+import {
+  DEMO_SCENARIO_IDS,
+  MAX_DEMO_SPEED,
+  MIN_DEMO_SPEED,
+} from '../../shared/demo/constants';
+import {
+  ENERGY_TARIFF_MODES,
+  MAX_ENERGY_TARIFF_PERIODS,
+} from '../../shared/energy/constants';
+import { nutTlsConfigSchema } from '../../shared/nut/tlsSchema';
 import type { ShutdownPolicyConfig } from '../../shared/shutdownPolicy/types';
+import { PRIMARY_UPS_ID, UPS_TARGET_ID_PATTERN } from '../../shared/ups/upsTargets';
 
 const widgetConfigSchema = z
   .object({
@@ -17,6 +32,43 @@ const widgetConfigSchema = z
   })
   .strict();
 
+const nutTargetConfigSchema = z
+  .object({
+    id: z
+      .string()
+      .trim()
+      .regex(UPS_TARGET_ID_PATTERN)
+      .refine((id) => id !== PRIMARY_UPS_ID, {
+        message: `"${PRIMARY_UPS_ID}" is reserved for the main UPS`,
+      }),
+    name: z.string().trim().min(1).max(64),
+    host: z.string().trim().min(1),
+    port: z.number().int().min(1).max(65535),
+    username: z.string().trim().min(1).optional(),
+    password: z.string().trim().min(1).optional(),
+    upsName: z.string().trim().min(1),
+    mapping: z.record(z.string(), z.string()).optional(),
+    tls: nutTlsConfigSchema.optional(),
+  })
+  .strict();
+
+const nutTargetListSchema = z
+  .array(nutTargetConfigSchema)
+  .max(16)
+  .superRefine((targets, context) => {
+    const seen = new Set<string>();
+    targets.forEach((target, index) => {
+      if (seen.has(target.id)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate UPS target id "${target.id}"`,
+          path: [index, 'id'],
+        });
+      }
+      seen.add(target.id);
+    });
+  });
+
 const nutConfigSchema = z
   .object({
     host: z.string().trim().min(1),
@@ -27,6 +79,9 @@ const nutConfigSchema = z
     mapping: z.record(z.string(), z.string()).optional(),
     launchLocalComponents: z.boolean().optional(),
     localNutFolderPath: z.string().trim().min(1).optional(),
+    displayName: z.string().trim().min(1).max(64).optional(),
+    targets: nutTargetListSchema.optional(),
+    tls: nutTlsConfigSchema.optional(),
   })
   .strict();
 
@@ -36,9 +91,17 @@ const pollingConfigSchema = z
   })
   .strict();
 
+const retentionDaysSchema = z.number().int().min(1).max(3650);
+
 const dataConfigSchema = z
   .object({
-    retentionDays: z.number().int().min(1).max(3650),
+    // Decision log and power events.
+    retentionDays: retentionDaysSchema,
+    rawTelemetryRetentionDays: retentionDaysSchema,
+    minuteRollupRetentionDays: retentionDaysSchema,
+    // null keeps the tier forever.
+    hourRollupRetentionDays: retentionDaysSchema.nullable(),
+    dayRollupRetentionDays: retentionDaysSchema.nullable(),
   })
   .strict();
 
@@ -136,6 +199,103 @@ const lineConfigSchema = z
   })
   .strict();
 
+const energyRateSchema = z.number().min(0).max(1000);
+
+const energyTariffPeriodSchema = z
+  .object({
+    startHour: z.number().int().min(0).max(23),
+    endHour: z.number().int().min(1).max(24),
+    ratePerKwh: energyRateSchema,
+  })
+  .strict()
+  .refine((period) => period.startHour !== period.endHour, {
+    message: 'A tariff period must not start and end at the same hour',
+  });
+
+const energyConfigSchema = z
+  .object({
+    currency: z.string().trim().min(1).max(8),
+    tariffMode: z.enum(ENERGY_TARIFF_MODES),
+    // Also the rate outside every time-of-use period.
+    flatRatePerKwh: energyRateSchema,
+    timeOfUsePeriods: z.array(energyTariffPeriodSchema).max(MAX_ENERGY_TARIFF_PERIODS),
+  })
+  .strict();
+
+const metricsConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    bindAddress: z.string().trim().min(1).max(255),
+    port: z.number().int().min(1).max(65535),
+    // Empty means scrapes are not authenticated.
+    bearerToken: z.string().trim().max(256),
+  })
+  .strict();
+
+const localApiConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    port: z.number().int().min(1).max(65535),
+    // The API does not listen while this is empty.
+    token: z.string().trim().max(256),
+  })
+  .strict();
+
+// MQTT wildcards are not valid in topic names the app publishes to.
+const mqttTopicSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(128)
+  .refine((value) => !/[#+]/.test(value) && !value.startsWith('/') && !value.endsWith('/'), {
+    message: 'MQTT topic must not contain wildcards or leading/trailing slashes',
+  });
+
+const mqttConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    host: z.string().trim().min(1).max(255),
+    port: z.number().int().min(1).max(65535),
+    username: z.string().max(256),
+    password: z.string().max(256),
+    clientId: z.string().trim().min(1).max(64),
+    topicPrefix: mqttTopicSchema,
+    discoveryEnabled: z.boolean(),
+    discoveryPrefix: mqttTopicSchema,
+    // Retained state lets Home Assistant show values right after a restart.
+    retain: z.boolean(),
+  })
+  .strict();
+
+// NUT identifiers are single tokens: upsmon splits MONITOR lines on '@' and spaces.
+const nutServerIdentifierSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(64)
+  .regex(/^[A-Za-z0-9._-]+$/, 'Use letters, digits, dots, dashes and underscores only');
+
+const nutServerConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    bindAddress: z.string().trim().min(1).max(255),
+    port: z.number().int().min(1).max(65535),
+    upsName: nutServerIdentifierSchema,
+    username: nutServerIdentifierSchema,
+    // LOGIN is refused while this is empty, so secondaries cannot attach unauthenticated.
+    password: z.string().max(256),
+  })
+  .strict();
+
+const demoConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    scenario: z.enum(DEMO_SCENARIO_IDS),
+    port: z.number().int().min(1).max(65535),
+    speed: z.number().int().min(MIN_DEMO_SPEED).max(MAX_DEMO_SPEED),
+  })
+  .strict();
+
 export const appConfigSchema = z
   .object({
     nut: nutConfigSchema,
@@ -150,7 +310,14 @@ export const appConfigSchema = z
     wizard: wizardConfigSchema,
     line: lineConfigSchema,
     fsd: fsdConfigSchema,
+    energy: energyConfigSchema,
+    metrics: metricsConfigSchema,
+    mqtt: mqttConfigSchema,
+    localApi: localApiConfigSchema,
+    nutServer: nutServerConfigSchema,
+    demo: demoConfigSchema,
     shutdownPolicy: shutdownPolicySchema,
+    shutdownPolicyPresets: shutdownPolicyPresetListSchema,
   })
   .strict();
 
@@ -168,13 +335,22 @@ const appConfigPatchSchema = z
     wizard: wizardConfigSchema.partial().optional(),
     line: lineConfigSchema.partial().optional(),
     fsd: fsdConfigSchema.partial().optional(),
+    energy: energyConfigSchema.partial().optional(),
+    metrics: metricsConfigSchema.partial().optional(),
+    mqtt: mqttConfigSchema.partial().optional(),
+    localApi: localApiConfigSchema.partial().optional(),
+    nutServer: nutServerConfigSchema.partial().optional(),
+    demo: demoConfigSchema.partial().optional(),
     shutdownPolicy: shutdownPolicyPatchSchema.optional(),
+    shutdownPolicyPresets: shutdownPolicyPresetListSchema.optional(),
   })
   .strict();
 
 export type AppConfig = z.infer<typeof appConfigSchema>;
 export type AppConfigPatch = z.infer<typeof appConfigPatchSchema>;
 export type DebugLogLevel = z.infer<typeof debugLogLevelSchema>;
+export type NutTargetConfig = z.infer<typeof nutTargetConfigSchema>;
+export type NutTlsConfig = z.infer<typeof nutTlsConfigSchema>;
 
 const defaultBatteryConfig: AppConfig['battery'] = {
   warningPct: 40,
@@ -221,6 +397,10 @@ export const defaultAppConfig: AppConfig = {
   },
   data: {
     retentionDays: 30,
+    rawTelemetryRetentionDays: 7,
+    minuteRollupRetentionDays: 90,
+    hourRollupRetentionDays: null,
+    dayRollupRetentionDays: null,
   },
   battery: defaultBatteryConfig,
   debug: {
@@ -253,10 +433,56 @@ export const defaultAppConfig: AppConfig = {
     alertCooldownMinutes: 5,
   },
   fsd: defaultFsdConfig,
+  energy: {
+    currency: 'USD',
+    tariffMode: 'flat',
+    flatRatePerKwh: 0.15,
+    timeOfUsePeriods: [],
+  },
+  metrics: {
+    enabled: false,
+    bindAddress: '127.0.0.1',
+    port: 9464,
+    bearerToken: '',
+  },
+  mqtt: {
+    enabled: false,
+    host: 'localhost',
+    port: 1883,
+    username: '',
+    password: '',
+    clientId: 'easy-ups-client',
+    topicPrefix: 'easyups',
+    discoveryEnabled: true,
+    discoveryPrefix: 'homeassistant',
+    retain: true,
+  },
+  localApi: {
+    enabled: false,
+    port: 8765,
+    token: '',
+  },
+  nutServer: {
+    enabled: false,
+    bindAddress: '0.0.0.0',
+    // Not 3493, which a local upsd managed by the app may already hold.
+    port: 3494,
+    upsName: 'ups',
+    username: 'upsmon',
+    password: '',
+  },
+  demo: {
+    enabled: false,
+    scenario: 'mainsFailure',
+    // Next to the NUT server's 3494, clear of a local upsd on 3493.
+    port: 3495,
+    speed: 1,
+  },
   shutdownPolicy: migrateLegacyShutdownPolicyConfig({
     battery: defaultBatteryConfig,
     fsd: defaultFsdConfig,
   }, defaultShutdownPolicyConfig),
+  shutdownPolicyPresets: [],
 };
 
 export function parseConfigPatch(payload: unknown): AppConfigPatch {
@@ -299,6 +525,26 @@ export function applyConfigPatch(
       : current.wizard,
     line: patch.line ? { ...current.line, ...patch.line } : current.line,
     fsd: patch.fsd ? { ...current.fsd, ...patch.fsd } : current.fsd,
+    energy: patch.energy
+      ? {
+        ...current.energy,
+        ...patch.energy,
+        timeOfUsePeriods: patch.energy.timeOfUsePeriods
+          ? [...patch.energy.timeOfUsePeriods]
+          : current.energy.timeOfUsePeriods,
+      }
+      : current.energy,
+    metrics: patch.metrics
+      ? { ...current.metrics, ...patch.metrics }
+      : current.metrics,
+    mqtt: patch.mqtt ? { ...current.mqtt, ...patch.mqtt } : current.mqtt,
+    localApi: patch.localApi
+      ? { ...current.localApi, ...patch.localApi }
+      : current.localApi,
+    nutServer: patch.nutServer
+      ? { ...current.nutServer, ...patch.nutServer }
+      : current.nutServer,
+    demo: patch.demo ? { ...current.demo, ...patch.demo } : current.demo,
     shutdownPolicy: patch.shutdownPolicy
       ? {
         ...current.shutdownPolicy,
@@ -314,6 +560,9 @@ export function applyConfigPatch(
           : current.shutdownPolicy.rules,
       }
       : current.shutdownPolicy,
+    shutdownPolicyPresets: patch.shutdownPolicyPresets
+      ? [...patch.shutdownPolicyPresets]
+      : current.shutdownPolicyPresets,
   };
 
   if (
@@ -334,7 +583,7 @@ export function applyConfigPatch(
 }
 
 export function normalizeStoredConfig(payload: unknown): AppConfig {
-  const patchResult = appConfigPatchSchema.safeParse(payload);
+  const patchResult = appConfigPatchSchema.safeParse(migrateStoredShutdownPolicies(payload));
   if (!patchResult.success) {
     return defaultAppConfig;
   }
@@ -358,6 +607,32 @@ export function normalizeStoredConfig(payload: unknown): AppConfig {
   });
 }
 
+/** The policy and the saved presets may have been written by an older version. */
+function migrateStoredShutdownPolicies(payload: unknown): unknown {
+  if (payload === null || typeof payload !== 'object' || Array.isArray(payload)) {
+    return payload;
+  }
+
+  const stored = payload as Record<string, unknown>;
+  return {
+    ...stored,
+    ...(stored.shutdownPolicy === undefined
+      ? {}
+      : { shutdownPolicy: migrateShutdownPolicyVersion(stored.shutdownPolicy) }),
+    ...(Array.isArray(stored.shutdownPolicyPresets)
+      ? {
+        shutdownPolicyPresets: stored.shutdownPolicyPresets.map((preset: unknown) =>
+          preset !== null && typeof preset === 'object'
+            ? {
+              ...preset,
+              policy: migrateShutdownPolicyVersion((preset as { policy?: unknown }).policy),
+            }
+            : preset),
+      }
+      : {}),
+  };
+}
+
 function hasShutdownPolicy(payload: unknown): boolean {
   return (
     payload !== null &&
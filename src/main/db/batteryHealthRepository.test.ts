@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type BatteryDischarge,
+  BatteryHealthRepository,
+} from './batteryHealthRepository';
+import { DuckDbClient } from './duckdbClient';
+import { TelemetryRepository } from './telemetryRepository';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => '' },
+}));
+
+const START = Date.parse('2026-05-14T12:00:00.000Z');
+const MINUTE_MS = 60 * 1000;
+
+describe('BatteryHealthRepository', () => {
+  let db: DuckDbClient;
+  let telemetryRepository: TelemetryRepository;
+  let repository: BatteryHealthRepository;
+
+  beforeEach(async () => {
+    db = new DuckDbClient(':memory:');
+    await db.initialize();
+    telemetryRepository = new TelemetryRepository(db);
+    repository = new BatteryHealthRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  const insertStatuses = async (statuses: Array<number | null>, upsId = 'primary') => {
+    for (const [minute, status] of statuses.entries()) {
+      await telemetryRepository.insertTelemetryPoint(
+        new Date(START + minute * MINUTE_MS),
+        {
+          ups_status_num: status,
+          battery_charge_pct: 100 - minute,
+          ups_realpower_watts: 200,
+        },
+        upsId,
+      );
+    }
+  };
+
+  it('numbers each online-to-battery transition as a new period', async () => {
+    await insertStatuses([1, 0, 0, null, 0, 1, 0, 0, 1]);
+    await insertStatuses([0, 0], 'rack-2');
+
+    const samples = await repository.listOnBatterySamples('primary', null);
+
+    expect(samples.map((sample) => [sample.period, sample.chargePercent])).toEqual([
+      [1, 99],
+      [1, 98],
+      [1, 96],
+      [2, 94],
+      [2, 93],
+    ]);
+    expect(samples[0]).toMatchObject({
+      tsIso: '2026-05-14T12:01:00.000Z',
+      realPowerWatts: 200,
+      loadPercent: null,
+      temperatureC: null,
+    });
+  });
+
+  it('starts a period at the first sample when reading from the middle of an outage', async () => {
+    await insertStatuses([0, 0, 0, 1]);
+
+    const samples = await repository.listOnBatterySamples(
+      'primary',
+      new Date(START + MINUTE_MS),
+    );
+
+    expect(samples.map((sample) => sample.period)).toEqual([1, 1]);
+  });
+
+  it('replaces a discharge recorded again with the same start', async () => {
+    const discharge: BatteryDischarge = {
+      upsId: 'primary',
+      startedAtIso: '2026-05-14T12:00:00.000Z',
+      endedAtIso: '2026-05-14T12:05:00.000Z',
+      startChargePercent: 100,
+      endChargePercent: 95,
+      energyWattMinutes: 1000,
+      averageLoadPercent: null,
+      averageTemperatureC: null,
+    };
+
+    await repository.upsertDischarge(discharge);
+    await repository.upsertDischarge({
+      ...discharge,
+      endedAtIso: '2026-05-14T12:10:00.000Z',
+      endChargePercent: 90,
+      energyWattMinutes: null,
+      averageLoadPercent: 35,
+      averageTemperatureC: 24.5,
+    });
+
+    await expect(repository.listDischarges('primary')).resolves.toEqual([
+      {
+        ...discharge,
+        endedAtIso: '2026-05-14T12:10:00.000Z',
+        endChargePercent: 90,
+        energyWattMinutes: null,
+        averageLoadPercent: 35,
+        averageTemperatureC: 24.5,
+      },
+    ]);
+    await expect(repository.listDischarges('rack-2')).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  DuckDbClient,
+  UPS_BATTERY_DISCHARGE_TABLE,
+  UPS_TELEMETRY_TABLE,
+} from './duckdbClient';
+import type { BatteryDischarge } from '../../shared/batteryHealth/types';
+
+export type { BatteryDischarge } from '../../shared/batteryHealth/types';
+
+/** Raw on-battery telemetry row; `period` numbers the contiguous on-battery runs. */
+export type OnBatterySample = {
+  period: number;
+  tsIso: string;
+  chargePercent: number | null;
+  realPowerWatts: number | null;
+  loadPercent: number | null;
+  temperatureC: number | null;
+};
+
+type OnBatterySampleSqlRow = {
+  period: number | bigint;
+  ts: Date | string;
+  battery_charge_pct: number | null;
+  ups_realpower_watts: number | null;
+  ups_load_pct: number | null;
+  battery_temperature: number | null;
+};
+
+type DischargeSqlRow = {
+  ups_id: string;
+  started_at: Date | string;
+  ended_at: Date | string;
+  start_charge_pct: number;
+  end_charge_pct: number;
+  energy_wmin: number | null;
+  avg_load_pct: number | null;
+  avg_temperature_c: number | null;
+};
+
+export class BatteryHealthRepository {
+  private readonly db: DuckDbClient;
+
+  public constructor(dbClient: DuckDbClient) {
+    this.db = dbClient;
+  }
+
+  /**
+   * Returns the on-battery samples recorded since `since` (inclusive). A new
+   * period starts at every online-to-battery transition; samples with an
+   * unknown status neither start nor end a period.
+   */
+  public async listOnBatterySamples(
+    upsId: string,
+    since: Date | null,
+  ): Promise<OnBatterySample[]> {
+    const rows = await this.db.all<OnBatterySampleSqlRow>(
+      `
+      WITH ordered AS (
+        SELECT
+          ts,
+          ups_status_num,
+          battery_charge_pct,
+          ups_realpower_watts,
+          ups_load_pct,
+          battery_temperature,
+          LAG(ups_status_num) OVER (ORDER BY ts) AS previous_status
+        FROM ${UPS_TELEMETRY_TABLE}
+        WHERE ups_id = ? AND ts >= ? AND ups_status_num IS NOT NULL
+      ),
+      numbered AS (
+        SELECT
+          *,
+          SUM(
+            CASE
+              WHEN ups_status_num = 0 AND coalesce(previous_status, 1) <> 0 THEN 1
+              ELSE 0
+            END
+          ) OVER (ORDER BY ts ROWS UNBOUNDED PRECEDING) AS period
+        FROM ordered
+      )
+      SELECT
+        period,
+        ts,
+        battery_charge_pct,
+        ups_realpower_watts,
+        ups_load_pct,
+        battery_temperature
+      FROM numbered
+      WHERE ups_status_num = 0
+      ORDER BY ts ASC
+      `,
+      [upsId, since ?? new Date(0)],
+    );
+
+    return rows.map((row) => ({
+      period: Number(row.period),
+      tsIso: normalizeTimestamp(row.ts),
+      chargePercent: toNullableNumber(row.battery_charge_pct),
+      realPowerWatts: toNullableNumber(row.ups_realpower_watts),
+      loadPercent: toNullableNumber(row.ups_load_pct),
+      temperatureC: toNullableNumber(row.battery_temperature),
+    }));
+  }
+
+  public async upsertDischarge(discharge: BatteryDischarge): Promise<void> {
+    await this.db.run(
+      `
+      INSERT OR REPLACE INTO ${UPS_BATTERY_DISCHARGE_TABLE}
+        (ups_id, started_at, ended_at, start_charge_pct, end_charge_pct,
+         energy_wmin, avg_load_pct, avg_temperature_c)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      [
+        discharge.upsId,
+        new Date(discharge.startedAtIso),
+        new Date(discharge.endedAtIso),
+        discharge.startChargePercent,
+        discharge.endChargePercent,
+        discharge.energyWattMinutes,
+        discharge.averageLoadPercent,
+        discharge.averageTemperatureC,
+      ],
+    );
+  }
+
+  /** Every recorded discharge of one UPS, oldest first. */
+  public async listDischarges(upsId: string): Promise<BatteryDischarge[]> {
+    const rows = await this.db.all<DischargeSqlRow>(
+      `
+      SELECT *
+      FROM ${UPS_BATTERY_DISCHARGE_TABLE}
+      WHERE ups_id = ?
+      ORDER BY started_at ASC
+      `,
+      [upsId],
+    );
+
+    return rows.map((row) => ({
+      upsId: row.ups_id,
+      startedAtIso: normalizeTimestamp(row.started_at),
+      endedAtIso: normalizeTimestamp(row.ended_at),
+      startChargePercent: Number(row.start_charge_pct),
+      endChargePercent: Number(row.end_charge_pct),
+      energyWattMinutes: toNullableNumber(row.energy_wmin),
+      averageLoadPercent: toNullableNumber(row.avg_load_pct),
+      averageTemperatureC: toNullableNumber(row.avg_temperature_c),
+    }));
+  }
+}
+
+function normalizeTimestamp(value: Date | string): string {
+  return (value instanceof Date ? value : new Date(value)).toISOString();
+}
+
+function toNullableNumber(value: number | null | undefined): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ShutdownPolicyDecisionLogEntry } from '../../shared/shutdownPolicy/types';
+import { DecisionLogRepository } from './decisionLogRepository';
+import { DuckDbClient } from './duckdbClient';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => '' },
+}));
+
+function makeEntry(
+  overrides: Partial<ShutdownPolicyDecisionLogEntry> = {},
+): ShutdownPolicyDecisionLogEntry {
+  return {
+    id: 'entry-1',
+    timestampIso: '2026-05-14T12:00:00.000Z',
+    event: 'decision',
+    decision: { type: 'showWarning', ruleId: 'battery-warning' },
+    ruleId: 'battery-warning',
+    ruleName: 'Battery warning',
+    summary: 'Rule Battery warning matched and will show a warning.',
+    context: {
+      statusTokens: ['OB'],
+      batteryChargePercent: 35,
+      connectionState: 'connected',
+      secondsSinceLastSuccessfulPoll: 0,
+      secondsOnBattery: 60,
+    },
+    ...overrides,
+  };
+}
+
+describe('DecisionLogRepository', () => {
+  let db: DuckDbClient;
+  let repository: DecisionLogRepository;
+
+  beforeEach(async () => {
+    db = new DuckDbClient(':memory:');
+    await db.initialize();
+    repository = new DecisionLogRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('round-trips entries newest first and ignores duplicate ids', async () => {
+    const older = makeEntry({ id: 'older', timestampIso: '2026-05-14T11:00:00.000Z' });
+    const newer = makeEntry({
+      id: 'newer',
+      event: 'failure',
+      execution: {
+        method: 'shutdown',
+        platform: 'linux',
+        supported: true,
+        success: false,
+        errorMessage: 'exit 1',
+      },
+    });
+
+    await repository.insert(older);
+    await repository.insert(newer);
+    await repository.insert(newer);
+
+    const page = await repository.query();
+    expect(page.total).toBe(2);
+    expect(page.entries).toEqual([newer, older]);
+  });
+
+  it('filters by time range, event, rule and search text with pagination', async () => {
+    await repository.insert(makeEntry({ id: 'a', timestampIso: '2026-05-01T00:00:00.000Z' }));
+    await repository.insert(makeEntry({ id: 'b', timestampIso: '2026-05-10T00:00:00.000Z' }));
+    await repository.insert(makeEntry({
+      id: 'c',
+      timestampIso: '2026-05-11T00:00:00.000Z',
+      event: 'execution',
+      ruleId: 'fsd',
+      ruleName: 'FSD shutdown',
+      summary: 'Executed shutdown command: systemctl poweroff',
+    }));
+    await repository.insert(makeEntry({ id: 'd', timestampIso: '2026-05-12T00:00:00.000Z' }));
+
+    const recentWarnings = await repository.query({
+      startIso: '2026-05-05T00:00:00.000Z',
+      ruleId: 'battery-warning',
+      events: ['decision'],
+    });
+    expect(recentWarnings.entries.map((entry) => entry.id)).toEqual(['d', 'b']);
+
+    const searched = await repository.query({ search: 'POWEROFF' });
+    expect(searched.entries.map((entry) => entry.id)).toEqual(['c']);
+
+    const secondPage = await repository.query({ limit: 2, offset: 2 });
+    expect(secondPage.total).toBe(4);
+    expect(secondPage.entries.map((entry) => entry.id)).toEqual(['b', 'a']);
+  });
+
+  it('treats LIKE wildcards in search text literally', async () => {
+    await repository.insert(makeEntry({ id: 'plain' }));
+
+    expect((await repository.query({ search: '%' })).total).toBe(0);
+  });
+
+  it('deletes entries older than the retention cutoff', async () => {
+    await repository.insert(makeEntry({ id: 'old', timestampIso: '2026-01-01T00:00:00.000Z' }));
+    await repository.insert(makeEntry({ id: 'new' }));
+
+    const deleted = await repository.deleteOlderThan(new Date('2026-03-01T00:00:00.000Z'));
+
+    expect(deleted).toBe(1);
+    expect((await repository.query()).entries.map((entry) => entry.id)).toEqual(['new']);
+  });
+});
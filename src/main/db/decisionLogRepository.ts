@@ -0,0 +1,177 @@
+import {
+  type DuckDbParam,
+  DuckDbClient,
+  SHUTDOWN_POLICY_DECISION_TABLE,
+} from './duckdbClient';
+import type {
+  ShutdownPolicyDecisionLogPage,
+  ShutdownPolicyDecisionLogQuery,
+} from '../../shared/ipc/contracts';
+import {
+  DEFAULT_DECISION_LOG_PAGE_SIZE,
+  MAX_DECISION_LOG_PAGE_SIZE,
+} from '../../shared/shutdownPolicy/constants';
+import type { ShutdownPolicyDecisionLogEntry } from '../../shared/shutdownPolicy/types';
+
+export type {
+  ShutdownPolicyDecisionLogPage,
+  ShutdownPolicyDecisionLogQuery,
+} from '../../shared/ipc/contracts';
+
+type DecisionLogSqlRow = {
+  entry_json: string;
+};
+
+export class DecisionLogRepository {
+  private readonly db: DuckDbClient;
+
+  public constructor(dbClient: DuckDbClient) {
+    this.db = dbClient;
+  }
+
+  public async insert(entry: ShutdownPolicyDecisionLogEntry): Promise<void> {
+    await this.db.run(
+      `
+      INSERT INTO ${SHUTDOWN_POLICY_DECISION_TABLE}
+        (id, ts, event, rule_id, rule_name, summary, entry_json)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO NOTHING
+      `,
+      [
+        entry.id,
+        new Date(entry.timestampIso),
+        entry.event,
+        entry.ruleId ?? null,
+        entry.ruleName ?? null,
+        entry.summary,
+        JSON.stringify(entry),
+      ],
+    );
+  }
+
+  public async query(
+    query: ShutdownPolicyDecisionLogQuery = {},
+  ): Promise<ShutdownPolicyDecisionLogPage> {
+    const { whereSql, params } = buildWhereClause(query);
+    const limit = normalizeLimit(query.limit);
+    const offset = Math.max(0, Math.floor(query.offset ?? 0));
+
+    const countRows = await this.db.all<{ count: number | bigint }>(
+      `
+      SELECT COUNT(*) AS count
+      FROM ${SHUTDOWN_POLICY_DECISION_TABLE}
+      ${whereSql}
+      `,
+      params,
+    );
+    const total = Number(countRows[0]?.count ?? 0);
+    if (total === 0 || offset >= total) {
+      return { entries: [], total };
+    }
+
+    const rows = await this.db.all<DecisionLogSqlRow>(
+      `
+      SELECT entry_json
+      FROM ${SHUTDOWN_POLICY_DECISION_TABLE}
+      ${whereSql}
+      ORDER BY ts DESC, rowid DESC
+      LIMIT ? OFFSET ?
+      `,
+      [...params, limit, offset],
+    );
+
+    return {
+      entries: rows.map(
+        (row) => JSON.parse(row.entry_json) as ShutdownPolicyDecisionLogEntry,
+      ),
+      total,
+    };
+  }
+
+  public async deleteOlderThan(cutoffDate: Date): Promise<number> {
+    const countRows = await this.db.all<{ count: number }>(
+      `
+      SELECT COUNT(*) AS count
+      FROM ${SHUTDOWN_POLICY_DECISION_TABLE}
+      WHERE ts < ?
+      `,
+      [cutoffDate],
+    );
+
+    const count = Number(countRows[0]?.count ?? 0);
+    if (count <= 0) {
+      return 0;
+    }
+
+    await this.db.run(
+      `
+      DELETE FROM ${SHUTDOWN_POLICY_DECISION_TABLE}
+      WHERE ts < ?
+      `,
+      [cutoffDate],
+    );
+
+    return count;
+  }
+}
+
+function buildWhereClause(query: ShutdownPolicyDecisionLogQuery): {
+  whereSql: string;
+  params: DuckDbParam[];
+} {
+  const conditions: string[] = [];
+  const params: DuckDbParam[] = [];
+
+  if (query.startIso) {
+    conditions.push('ts >= ?');
+    params.push(parseTimestamp(query.startIso));
+  }
+
+  if (query.endIso) {
+    conditions.push('ts <= ?');
+    params.push(parseTimestamp(query.endIso));
+  }
+
+  if (query.events && query.events.length > 0) {
+    conditions.push(`event IN (${query.events.map(() => '?').join(', ')})`);
+    params.push(...query.events);
+  }
+
+  if (query.ruleId) {
+    conditions.push('rule_id = ?');
+    params.push(query.ruleId);
+  }
+
+  const search = query.search?.trim().toLowerCase();
+  if (search) {
+    // contains() avoids escaping LIKE wildcards typed by the user.
+    conditions.push(`(
+      contains(lower(summary), ?)
+      OR contains(lower(coalesce(rule_name, '')), ?)
+      OR contains(lower(coalesce(rule_id, '')), ?)
+    )`);
+    params.push(search, search, search);
+  }
+
+  return {
+    whereSql: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+function parseTimestamp(value: string): Date {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new Error('Invalid decision log timestamp');
+  }
+
+  return parsed;
+}
+
+function normalizeLimit(limit: number | undefined): number {
+  if (!limit || !Number.isFinite(limit)) {
+    return DEFAULT_DECISION_LOG_PAGE_SIZE;
+  }
+
+  return Math.min(Math.max(1, Math.floor(limit)), MAX_DECISION_LOG_PAGE_SIZE);
+}
@@ -7,8 +7,20 @@ import type {
 } from '@duckdb/node-api';
 import { DuckDBInstance } from '@duckdb/node-api';
 import { TELEMETRY_COLUMNS } from '../nut/nutValueMapper';
+import { TELEMETRY_ROLLUP_TIERS } from '../../shared/telemetry/constants';
+import type { TelemetryRollupTier } from '../../shared/telemetry/types';
+import { PRIMARY_UPS_ID } from '../../shared/ups/upsTargets';
 
 export const UPS_TELEMETRY_TABLE = 'ups_telemetry';
+export const SHUTDOWN_POLICY_DECISION_TABLE = 'shutdown_policy_decisions';
+export const UPS_POWER_EVENT_TABLE = 'ups_power_events';
+export const UPS_BATTERY_DISCHARGE_TABLE = 'ups_battery_discharges';
+export const UPS_ENERGY_HOURLY_TABLE = 'ups_energy_1h';
+export const UPS_TELEMETRY_ROLLUP_TABLES: Record<TelemetryRollupTier, string> = {
+  minute: 'ups_telemetry_1m',
+  hour: 'ups_telemetry_1h',
+  day: 'ups_telemetry_1d',
+};
 
 export type DuckDbParam = string | number | null | Date;
 
@@ -66,6 +78,38 @@ export class DuckDbClient {
     return reader.getRowObjectsJS() as T[];
   }
 
+  /**
+   * Like `all()`, but samples DuckDB's query progress while the statement
+   * runs. Operators that cannot estimate progress report nothing.
+   */
+  public async allWithProgress<T>(
+    sql: string,
+    params: DuckDbParam[],
+    onProgress: (percentage: number) => void,
+    intervalMs = 250,
+  ): Promise<T[]> {
+    const connection = this.requireConnection();
+    await connection.run(
+      'SET enable_progress_bar = true; SET enable_progress_bar_print = false; SET progress_bar_time = 0',
+    );
+
+    let lastPercentage = -1;
+    const timer = setInterval(() => {
+      const { percentage } = connection.progress;
+      if (percentage > lastPercentage) {
+        lastPercentage = percentage;
+        onProgress(Math.min(100, percentage));
+      }
+    }, intervalMs);
+
+    try {
+      return await this.all<T>(sql, params);
+    } finally {
+      clearInterval(timer);
+      await connection.run('SET enable_progress_bar = false');
+    }
+  }
+
   private requireConnection(): DuckDbConnectionType {
     if (!this.connection) {
       throw new Error('DuckDB connection has not been initialized');
@@ -75,14 +119,9 @@ export class DuckDbClient {
   }
 
   private async initializeSchema(): Promise<void> {
-    const columnDefinitions = TELEMETRY_COLUMNS.map(
-      (column) => `${column} DOUBLE`,
-    ).join(',\n      ');
-
     await this.run(`
       CREATE TABLE IF NOT EXISTS ${UPS_TELEMETRY_TABLE} (
-        ts TIMESTAMP PRIMARY KEY,
-        ${columnDefinitions}
+        ${buildTelemetryColumnDefinitions()}
       )
     `);
 
@@ -96,9 +135,167 @@ export class DuckDbClient {
         // Column already exists — ignore
       }
     }
+
+    await this.migrateTelemetryUpsIdColumn();
+
+    // One row per UPS and bucket with min/avg/max of every telemetry column;
+    // `ts` is the bucket start in UTC.
+    for (const tier of TELEMETRY_ROLLUP_TIERS) {
+      const table = UPS_TELEMETRY_ROLLUP_TABLES[tier];
+      await this.run(`
+        CREATE TABLE IF NOT EXISTS ${table} (
+          ${buildRollupColumnDefinitions()}
+        )
+      `);
+
+      for (const column of TELEMETRY_COLUMNS) {
+        for (const suffix of ROLLUP_COLUMN_SUFFIXES) {
+          await this.run(
+            `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS ${column}_${suffix} DOUBLE`,
+          );
+        }
+      }
+    }
+
+    // Filterable fields get their own columns; the full entry is kept as JSON
+    // so new log fields need no migration.
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS ${SHUTDOWN_POLICY_DECISION_TABLE} (
+        id VARCHAR PRIMARY KEY,
+        ts TIMESTAMP NOT NULL,
+        event VARCHAR NOT NULL,
+        rule_id VARCHAR,
+        rule_name VARCHAR,
+        summary VARCHAR NOT NULL,
+        entry_json VARCHAR NOT NULL
+      )
+    `);
+
+    // ended_at stays NULL while an event is in progress; last_sample_at lets a
+    // restarted app resume or close it.
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS ${UPS_POWER_EVENT_TABLE} (
+        id VARCHAR PRIMARY KEY,
+        ups_id VARCHAR NOT NULL,
+        kind VARCHAR NOT NULL,
+        started_at TIMESTAMP NOT NULL,
+        ended_at TIMESTAMP,
+        last_sample_at TIMESTAMP NOT NULL,
+        start_charge_pct DOUBLE,
+        min_charge_pct DOUBLE,
+        energy_wh DOUBLE
+      )
+    `);
+
+    // Raw telemetry is pruned after days, so each analysed discharge is kept
+    // to build the battery health trend over the life of the pack.
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS ${UPS_BATTERY_DISCHARGE_TABLE} (
+        ups_id VARCHAR NOT NULL,
+        started_at TIMESTAMP NOT NULL,
+        ended_at TIMESTAMP NOT NULL,
+        start_charge_pct DOUBLE NOT NULL,
+        end_charge_pct DOUBLE NOT NULL,
+        energy_wmin DOUBLE,
+        avg_load_pct DOUBLE,
+        avg_temperature_c DOUBLE,
+        PRIMARY KEY (ups_id, started_at)
+      )
+    `);
+    // Load-only UPSes record discharges without energy.
+    await this.run(
+      `ALTER TABLE ${UPS_BATTERY_DISCHARGE_TABLE} ALTER COLUMN energy_wmin DROP NOT NULL`,
+    );
+    await this.run(
+      `ALTER TABLE ${UPS_BATTERY_DISCHARGE_TABLE} ADD COLUMN IF NOT EXISTS avg_load_pct DOUBLE`,
+    );
+
+    // Energy integrated from `ups.realpower` per UTC hour. It is kept forever:
+    // a row per hour is small and month totals must outlive the raw samples.
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS ${UPS_ENERGY_HOURLY_TABLE} (
+        ups_id VARCHAR NOT NULL,
+        ts TIMESTAMP NOT NULL,
+        energy_wh DOUBLE NOT NULL,
+        battery_energy_wh DOUBLE NOT NULL,
+        covered_seconds DOUBLE NOT NULL,
+        PRIMARY KEY (ups_id, ts)
+      )
+    `);
+  }
+
+  /**
+   * Databases created before multi-UPS support key telemetry by `ts` alone.
+   * DuckDB cannot alter a primary key in place, so the table is rebuilt with
+   * a `(ups_id, ts)` key and existing rows are attributed to the primary UPS.
+   */
+  private async migrateTelemetryUpsIdColumn(): Promise<void> {
+    const rows = await this.all<{ count: number | bigint }>(
+      `
+      SELECT COUNT(*) AS count
+      FROM information_schema.columns
+      WHERE table_name = ? AND column_name = 'ups_id'
+      `,
+      [UPS_TELEMETRY_TABLE],
+    );
+    if (Number(rows[0]?.count ?? 0) > 0) {
+      return;
+    }
+
+    const legacyTable = `${UPS_TELEMETRY_TABLE}_legacy`;
+    const columnList = ['ts', ...TELEMETRY_COLUMNS].join(', ');
+
+    await this.run('BEGIN TRANSACTION');
+    try {
+      await this.run(`ALTER TABLE ${UPS_TELEMETRY_TABLE} RENAME TO ${legacyTable}`);
+      await this.run(`
+        CREATE TABLE ${UPS_TELEMETRY_TABLE} (
+          ${buildTelemetryColumnDefinitions()}
+        )
+      `);
+      await this.run(
+        `
+        INSERT INTO ${UPS_TELEMETRY_TABLE} (ups_id, ${columnList})
+        SELECT ?, ${columnList} FROM ${legacyTable}
+        `,
+        [PRIMARY_UPS_ID],
+      );
+      await this.run(`DROP TABLE ${legacyTable}`);
+      await this.run('COMMIT');
+    } catch (error) {
+      await this.run('ROLLBACK').catch(() => {
+        // Keep the original migration error.
+      });
+      throw error;
+    }
   }
 }
 
+function buildTelemetryColumnDefinitions(): string {
+  const columnDefinitions = TELEMETRY_COLUMNS.map(
+    (column) => `${column} DOUBLE`,
+  ).join(',\n        ');
+
+  return `ups_id VARCHAR NOT NULL DEFAULT '${PRIMARY_UPS_ID}',
+        ts TIMESTAMP NOT NULL,
+        ${columnDefinitions},
+        PRIMARY KEY (ups_id, ts)`;
+}
+
+const ROLLUP_COLUMN_SUFFIXES = ['min', 'avg', 'max'] as const;
+
+function buildRollupColumnDefinitions(): string {
+  const columnDefinitions = TELEMETRY_COLUMNS.flatMap((column) =>
+    ROLLUP_COLUMN_SUFFIXES.map((suffix) => `${column}_${suffix} DOUBLE`),
+  ).join(',\n          ');
+
+  return `ups_id VARCHAR NOT NULL,
+          ts TIMESTAMP NOT NULL,
+          sample_count BIGINT NOT NULL,
+          ${columnDefinitions},
+          PRIMARY KEY (ups_id, ts)`;
+}
+
 function toDuckDbParameterSql(sql: string): string {
   let parameterIndex = 0;
   return sql.replace(/\?/g, () => {
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DuckDbClient } from './duckdbClient';
+import { EnergyRepository } from './energyRepository';
+import { TelemetryRepository } from './telemetryRepository';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => '' },
+}));
+
+const START = Date.parse('2026-05-14T10:58:00.000Z');
+const MINUTE_MS = 60 * 1000;
+
+describe('EnergyRepository', () => {
+  let db: DuckDbClient;
+  let telemetryRepository: TelemetryRepository;
+  let repository: EnergyRepository;
+
+  beforeEach(async () => {
+    db = new DuckDbClient(':memory:');
+    await db.initialize();
+    telemetryRepository = new TelemetryRepository(db);
+    repository = new EnergyRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  const insert = (minute: number, watts: number | null, status = 1, upsId = 'primary') =>
+    telemetryRepository.insertTelemetryPoint(
+      new Date(START + minute * MINUTE_MS),
+      { ups_realpower_watts: watts, ups_status_num: status },
+      upsId,
+    );
+
+  const listAll = (upsId = 'primary') =>
+    repository.listHours(upsId, new Date(0), new Date(START + 24 * 60 * MINUTE_MS));
+
+  it('holds each sample until the next one and splits the energy by hour', async () => {
+    await insert(0, 120);
+    await insert(1, 120);
+    await insert(2, 60, 0);
+    await insert(3, 60, 0);
+    await insert(4, 60);
+    await insert(0, 600, 1, 'rack-2');
+
+    await repository.accumulate();
+
+    await expect(listAll()).resolves.toEqual([
+      { tsIso: '2026-05-14T10:00:00.000Z', energyWh: 4, batteryEnergyWh: 0 },
+      { tsIso: '2026-05-14T11:00:00.000Z', energyWh: 2, batteryEnergyWh: 2 },
+    ]);
+    await expect(listAll('rack-2')).resolves.toEqual([]);
+  });
+
+  it('completes the previous hour once the next sample arrives', async () => {
+    await insert(0, 120);
+    await insert(1, 120);
+    await repository.accumulate();
+    await insert(2, 120);
+    await insert(3, 120);
+    await repository.accumulate();
+    await repository.accumulate();
+
+    await expect(listAll()).resolves.toEqual([
+      { tsIso: '2026-05-14T10:00:00.000Z', energyWh: 4, batteryEnergyWh: 0 },
+      { tsIso: '2026-05-14T11:00:00.000Z', energyWh: 2, batteryEnergyWh: 0 },
+    ]);
+  });
+
+  it('skips polling gaps and samples without real power', async () => {
+    await insert(0, 120);
+    await insert(30, 120);
+    await insert(31, null);
+    await insert(32, 120);
+    await insert(33, 120);
+
+    await repository.accumulate();
+
+    await expect(listAll()).resolves.toEqual([
+      { tsIso: '2026-05-14T10:00:00.000Z', energyWh: 0, batteryEnergyWh: 0 },
+      { tsIso: '2026-05-14T11:00:00.000Z', energyWh: 4, batteryEnergyWh: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  DuckDbClient,
+  UPS_ENERGY_HOURLY_TABLE,
+  UPS_TELEMETRY_TABLE,
+} from './duckdbClient';
+
+/** Energy drawn during one UTC hour. */
+export type EnergyHour = {
+  tsIso: string;
+  energyWh: number;
+  batteryEnergyWh: number;
+};
+
+type EnergyHourSqlRow = {
+  ts: Date | string;
+  energy_wh: number;
+  battery_energy_wh: number;
+};
+
+/**
+ * Samples further apart than this are treated as a polling gap rather than a
+ * constant load, matching how power events integrate their energy.
+ */
+const ENERGY_MAX_SAMPLE_GAP_MS = 5 * 60 * 1000;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export class EnergyRepository {
+  private readonly db: DuckDbClient;
+
+  public constructor(dbClient: DuckDbClient) {
+    this.db = dbClient;
+  }
+
+  /**
+   * Integrates `ups.realpower` over the raw samples into hourly buckets. Each
+   * sample's power is held until the next one, so every pass rebuilds the
+   * newest bucket and the one before it: the last sample of an hour only
+   * counts once the first sample of the next hour exists.
+   */
+  public async accumulate(): Promise<void> {
+    await this.db.run(
+      `
+      INSERT OR REPLACE INTO ${UPS_ENERGY_HOURLY_TABLE}
+        (ups_id, ts, energy_wh, battery_energy_wh, covered_seconds)
+      WITH watermark AS (
+        SELECT ups_id, MAX(ts) AS last_ts
+        FROM ${UPS_ENERGY_HOURLY_TABLE}
+        GROUP BY ups_id
+      ),
+      samples AS (
+        SELECT
+          src.ups_id,
+          src.ts,
+          src.ups_realpower_watts AS watts,
+          src.ups_status_num AS status,
+          LEAD(src.ts) OVER (PARTITION BY src.ups_id ORDER BY src.ts) AS next_ts
+        FROM ${UPS_TELEMETRY_TABLE} AS src
+        LEFT JOIN watermark ON watermark.ups_id = src.ups_id
+        WHERE watermark.last_ts IS NULL OR src.ts >= watermark.last_ts - INTERVAL 1 HOUR
+      ),
+      intervals AS (
+        SELECT
+          ups_id,
+          time_bucket(INTERVAL 1 HOUR, ts) AS bucket,
+          watts,
+          status,
+          epoch_ms(next_ts) - epoch_ms(ts) AS elapsed_ms
+        FROM samples
+        WHERE next_ts IS NOT NULL AND watts IS NOT NULL
+      )
+      SELECT
+        ups_id,
+        bucket,
+        coalesce(SUM(watts * elapsed_ms) FILTER (WHERE elapsed_ms <= ?), 0) / ${MS_PER_HOUR},
+        coalesce(SUM(watts * elapsed_ms) FILTER (WHERE elapsed_ms <= ? AND status = 0), 0)
+          / ${MS_PER_HOUR},
+        coalesce(SUM(elapsed_ms) FILTER (WHERE elapsed_ms <= ?), 0) / 1000
+      FROM intervals
+      GROUP BY ups_id, bucket
+      `,
+      [ENERGY_MAX_SAMPLE_GAP_MS, ENERGY_MAX_SAMPLE_GAP_MS, ENERGY_MAX_SAMPLE_GAP_MS],
+    );
+  }
+
+  /** Hours starting in `[start, end)`, oldest first; hours without samples are absent. */
+  public async listHours(upsId: string, start: Date, end: Date): Promise<EnergyHour[]> {
+    const rows = await this.db.all<EnergyHourSqlRow>(
+      `
+      SELECT ts, energy_wh, battery_energy_wh
+      FROM ${UPS_ENERGY_HOURLY_TABLE}
+      WHERE ups_id = ? AND ts >= ? AND ts < ?
+      ORDER BY ts ASC
+      `,
+      [upsId, start, end],
+    );
+
+    return rows.map((row) => ({
+      tsIso: (row.ts instanceof Date ? row.ts : new Date(row.ts)).toISOString(),
+      energyWh: Number(row.energy_wh),
+      batteryEnergyWh: Number(row.battery_energy_wh),
+    }));
+  }
+}
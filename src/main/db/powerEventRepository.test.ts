@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DuckDbClient } from './duckdbClient';
+import { PowerEventRepository, type PowerEventRecord } from './powerEventRepository';
+
+vi.mock('electron', () => ({
+  app: { getPath: () => '' },
+}));
+
+function makeRecord(overrides: Partial<PowerEventRecord> = {}): PowerEventRecord {
+  return {
+    id: 'event-1',
+    upsId: 'primary',
+    kind: 'onBattery',
+    startedAtIso: '2026-05-14T12:00:00.000Z',
+    endedAtIso: '2026-05-14T12:10:00.000Z',
+    durationSeconds: 600,
+    batteryChargeAtStartPercent: 100,
+    minBatteryChargePercent: 62,
+    energyWh: 50,
+    lastSampleAtIso: '2026-05-14T12:10:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('PowerEventRepository', () => {
+  let db: DuckDbClient;
+  let repository: PowerEventRepository;
+
+  beforeEach(async () => {
+    db = new DuckDbClient(':memory:');
+    await db.initialize();
+    repository = new PowerEventRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('updates open events in place until they end', async () => {
+    const open = makeRecord({
+      endedAtIso: null,
+      lastSampleAtIso: '2026-05-14T12:05:00.000Z',
+      minBatteryChargePercent: 80,
+      energyWh: 25,
+    });
+    await repository.upsert(open);
+
+    expect(await repository.listOpen()).toEqual([{ ...open, durationSeconds: 300 }]);
+
+    await repository.upsert(makeRecord());
+
+    expect(await repository.listOpen()).toEqual([]);
+    expect((await repository.query()).events).toEqual([{
+      id: 'event-1',
+      upsId: 'primary',
+      kind: 'onBattery',
+      startedAtIso: '2026-05-14T12:00:00.000Z',
+      endedAtIso: '2026-05-14T12:10:00.000Z',
+      durationSeconds: 600,
+      batteryChargeAtStartPercent: 100,
+      minBatteryChargePercent: 62,
+      energyWh: 50,
+    }]);
+  });
+
+  it('filters by UPS, kind and start time and summarizes every match', async () => {
+    await repository.upsert(makeRecord({
+      id: 'a',
+      startedAtIso: '2026-04-30T23:00:00.000Z',
+      endedAtIso: '2026-04-30T23:01:00.000Z',
+    }));
+    await repository.upsert(makeRecord({ id: 'b' }));
+    await repository.upsert(makeRecord({
+      id: 'c',
+      startedAtIso: '2026-05-20T08:00:00.000Z',
+      endedAtIso: '2026-05-20T08:30:00.000Z',
+      minBatteryChargePercent: 35,
+      energyWh: 150,
+    }));
+    await repository.upsert(makeRecord({ id: 'd', kind: 'lowBattery' }));
+    await repository.upsert(makeRecord({ id: 'e', upsId: 'rack-2' }));
+
+    const page = await repository.query({
+      upsId: 'primary',
+      kinds: ['onBattery'],
+      startIso: '2026-05-01T00:00:00.000Z',
+      endIso: '2026-06-01T00:00:00.000Z',
+      limit: 1,
+    });
+
+    expect(page.total).toBe(2);
+    expect(page.events.map((event) => event.id)).toEqual(['c']);
+    expect(page.summary).toEqual({
+      count: 2,
+      totalDurationSeconds: 2400,
+      longestDurationSeconds: 1800,
+      totalEnergyWh: 200,
+      minBatteryChargePercent: 35,
+    });
+  });
+
+  it('deletes finished events older than the cutoff but keeps open ones', async () => {
+    await repository.upsert(makeRecord({
+      id: 'old',
+      startedAtIso: '2026-01-01T00:00:00.000Z',
+      endedAtIso: '2026-01-01T00:10:00.000Z',
+    }));
+    await repository.upsert(makeRecord({
+      id: 'open',
+      startedAtIso: '2026-01-01T00:00:00.000Z',
+      endedAtIso: null,
+    }));
+
+    const deleted = await repository.deleteOlderThan(new Date('2026-03-01T00:00:00.000Z'));
+
+    expect(deleted).toBe(1);
+    expect((await repository.listOpen()).map((event) => event.id)).toEqual(['open']);
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  type DuckDbParam,
+  DuckDbClient,
+  UPS_POWER_EVENT_TABLE,
+} from './duckdbClient';
+import {
+  DEFAULT_POWER_EVENT_PAGE_SIZE,
+  MAX_POWER_EVENT_PAGE_SIZE,
+} from '../../shared/powerEvents/constants';
+import type {
+  PowerEvent,
+  PowerEventKind,
+  PowerEventPage,
+  PowerEventQuery,
+} from '../../shared/powerEvents/types';
+
+export type {
+  PowerEvent,
+  PowerEventPage,
+  PowerEventQuery,
+} from '../../shared/powerEvents/types';
+
+/** Persisted event plus the bookkeeping needed to resume it after a restart. */
+export type PowerEventRecord = PowerEvent & {
+  lastSampleAtIso: string;
+};
+
+type PowerEventSqlRow = {
+  id: string;
+  ups_id: string;
+  kind: string;
+  started_at: Date | string;
+  ended_at: Date | string | null;
+  last_sample_at: Date | string;
+  start_charge_pct: number | null;
+  min_charge_pct: number | null;
+  energy_wh: number | null;
+};
+
+type PowerEventSummarySqlRow = {
+  count: number | bigint;
+  total_duration_ms: number | bigint | null;
+  longest_duration_ms: number | bigint | null;
+  total_energy_wh: number | null;
+  min_charge_pct: number | null;
+};
+
+const DURATION_MS_SQL =
+  "date_diff('millisecond', started_at, coalesce(ended_at, last_sample_at))";
+
+export class PowerEventRepository {
+  private readonly db: DuckDbClient;
+
+  public constructor(dbClient: DuckDbClient) {
+    this.db = dbClient;
+  }
+
+  public async upsert(record: PowerEventRecord): Promise<void> {
+    await this.db.run(
+      `
+      INSERT INTO ${UPS_POWER_EVENT_TABLE}
+        (id, ups_id, kind, started_at, ended_at, last_sample_at,
+         start_charge_pct, min_charge_pct, energy_wh)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        ended_at = excluded.ended_at,
+        last_sample_at = excluded.last_sample_at,
+        min_charge_pct = excluded.min_charge_pct,
+        energy_wh = excluded.energy_wh
+      `,
+      [
+        record.id,
+        record.upsId,
+        record.kind,
+        new Date(record.startedAtIso),
+        record.endedAtIso ? new Date(record.endedAtIso) : null,
+        new Date(record.lastSampleAtIso),
+        record.batteryChargeAtStartPercent,
+        record.minBatteryChargePercent,
+        record.energyWh,
+      ],
+    );
+  }
+
+  public async listOpen(): Promise<PowerEventRecord[]> {
+    const rows = await this.db.all<PowerEventSqlRow>(
+      `
+      SELECT *
+      FROM ${UPS_POWER_EVENT_TABLE}
+      WHERE ended_at IS NULL
+      ORDER BY started_at ASC
+      `,
+    );
+
+    return rows.map((row) => ({
+      ...mapEvent(row),
+      lastSampleAtIso: normalizeTimestamp(row.last_sample_at),
+    }));
+  }
+
+  public async query(query: PowerEventQuery = {}): Promise<PowerEventPage> {
+    const { whereSql, params } = buildWhereClause(query);
+    const limit = normalizeLimit(query.limit);
+    const offset = Math.max(0, Math.floor(query.offset ?? 0));
+
+    const summaryRows = await this.db.all<PowerEventSummarySqlRow>(
+      `
+      SELECT
+        COUNT(*) AS count,
+        SUM(${DURATION_MS_SQL}) AS total_duration_ms,
+        MAX(${DURATION_MS_SQL}) AS longest_duration_ms,
+        SUM(energy_wh) AS total_energy_wh,
+        MIN(min_charge_pct) AS min_charge_pct
+      FROM ${UPS_POWER_EVENT_TABLE}
+      ${whereSql}
+      `,
+      params,
+    );
+    const summaryRow = summaryRows[0];
+    const total = Number(summaryRow?.count ?? 0);
+    const summary = {
+      count: total,
+      totalDurationSeconds: Number(summaryRow?.total_duration_ms ?? 0) / 1000,
+      longestDurationSeconds: Number(summaryRow?.longest_duration_ms ?? 0) / 1000,
+      totalEnergyWh: toNullableNumber(summaryRow?.total_energy_wh),
+      minBatteryChargePercent: toNullableNumber(summaryRow?.min_charge_pct),
+    };
+    if (total === 0 || offset >= total) {
+      return { events: [], total, summary };
+    }
+
+    const rows = await this.db.all<PowerEventSqlRow>(
+      `
+      SELECT *
+      FROM ${UPS_POWER_EVENT_TABLE}
+      ${whereSql}
+      ORDER BY started_at DESC, id DESC
+      LIMIT ? OFFSET ?
+      `,
+      [...params, limit, offset],
+    );
+
+    return {
+      events: rows.map(mapEvent),
+      total,
+      summary,
+    };
+  }
+
+  /** Removes finished events; in-progress events are kept regardless of age. */
+  public async deleteOlderThan(cutoffDate: Date): Promise<number> {
+    const countRows = await this.db.all<{ count: number }>(
+      `
+      SELECT COUNT(*) AS count
+      FROM ${UPS_POWER_EVENT_TABLE}
+      WHERE ended_at < ?
+      `,
+      [cutoffDate],
+    );
+
+    const count = Number(countRows[0]?.count ?? 0);
+    if (count <= 0) {
+      return 0;
+    }
+
+    await this.db.run(
+      `
+      DELETE FROM ${UPS_POWER_EVENT_TABLE}
+      WHERE ended_at < ?
+      `,
+      [cutoffDate],
+    );
+
+    return count;
+  }
+}
+
+function buildWhereClause(query: PowerEventQuery): {
+  whereSql: string;
+  params: DuckDbParam[];
+} {
+  const conditions: string[] = [];
+  const params: DuckDbParam[] = [];
+
+  if (query.upsId) {
+    conditions.push('ups_id = ?');
+    params.push(query.upsId);
+  }
+
+  if (query.kinds && query.kinds.length > 0) {
+    conditions.push(`kind IN (${query.kinds.map(() => '?').join(', ')})`);
+    params.push(...query.kinds);
+  }
+
+  if (query.startIso) {
+    conditions.push('started_at >= ?');
+    params.push(parseTimestamp(query.startIso));
+  }
+
+  if (query.endIso) {
+    conditions.push('started_at <= ?');
+    params.push(parseTimestamp(query.endIso));
+  }
+
+  return {
+    whereSql: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+function mapEvent(row: PowerEventSqlRow): PowerEvent {
+  const startedAtIso = normalizeTimestamp(row.started_at);
+  const endedAtIso = row.ended_at === null ? null : normalizeTimestamp(row.ended_at);
+  const lastSampleAtIso = normalizeTimestamp(row.last_sample_at);
+
+  return {
+    id: row.id,
+    upsId: row.ups_id,
+    kind: row.kind as PowerEventKind,
+    startedAtIso,
+    endedAtIso,
+    durationSeconds:
+      (Date.parse(endedAtIso ?? lastSampleAtIso) - Date.parse(startedAtIso)) / 1000,
+    batteryChargeAtStartPercent: toNullableNumber(row.start_charge_pct),
+    minBatteryChargePercent: toNullableNumber(row.min_charge_pct),
+    energyWh: toNullableNumber(row.energy_wh),
+  };
+}
+
+function normalizeTimestamp(value: Date | string): string {
+  return (value instanceof Date ? value : new Date(value)).toISOString();
+}
+
+function toNullableNumber(value: number | null | undefined): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const numeric = Number(value);
+  return Number.isFinite(numeric) ? numeric : null;
+}
+
+function parseTimestamp(value: string): Date {
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new Error('Invalid power event timestamp');
+  }
+
+  return parsed;
+}
+
+function normalizeLimit(limit: number | undefined): number {
+  if (!limit || !Number.isFinite(limit)) {
+    return DEFAULT_POWER_EVENT_PAGE_SIZE;
+  }
+
+  return Math.min(Math.max(1, Math.floor(limit)), MAX_POWER_EVENT_PAGE_SIZE);
+}
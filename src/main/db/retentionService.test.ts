@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RetentionService } from './retentionService';
+import type { DecisionLogRepository } from './decisionLogRepository';
+import type { EnergyRepository } from './energyRepository';
+import type { PowerEventRepository } from './powerEventRepository';
+import type { TelemetryRepository } from './telemetryRepository';
+
+const NOW = Date.parse('2026-05-14T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysAgo(days: number): Date {
+  return new Date(NOW - days * DAY_MS);
+}
+
+function createRepositories() {
+  const calls: string[] = [];
+  const telemetryRepository = {
+    rollUp: vi.fn(async () => {
+      calls.push('rollUp');
+    }),
+    deleteOlderThan: vi.fn(async () => {
+      calls.push('deleteRaw');
+      return 1;
+    }),
+    deleteRollupsOlderThan: vi.fn(async () => 2),
+  };
+  const decisionLogRepository = { deleteOlderThan: vi.fn(async () => 3) };
+  const powerEventRepository = { deleteOlderThan: vi.fn(async () => 4) };
+  const energyRepository = {
+    accumulate: vi.fn(async () => {
+      calls.push('accumulateEnergy');
+    }),
+  };
+
+  return {
+    calls,
+    telemetryRepository,
+    decisionLogRepository,
+    powerEventRepository,
+    energyRepository,
+    service: new RetentionService(
+      telemetryRepository as unknown as TelemetryRepository,
+      {
+        retentionDays: 30,
+        rawTelemetryRetentionDays: 7,
+        minuteRollupRetentionDays: 90,
+        hourRollupRetentionDays: null,
+        dayRollupRetentionDays: 3650,
+      },
+      decisionLogRepository as unknown as DecisionLogRepository,
+      powerEventRepository as unknown as PowerEventRepository,
+      energyRepository as unknown as EnergyRepository,
+    ),
+  };
+}
+
+describe('RetentionService', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('rolls up before pruning each resolution with its own retention period', async () => {
+    vi.useFakeTimers({ now: NOW });
+    const repositories = createRepositories();
+
+    await expect(repositories.service.runOnce()).resolves.toBe(1 + 2 + 2 + 3 + 4);
+
+    expect(repositories.calls).toEqual(['rollUp', 'accumulateEnergy', 'deleteRaw']);
+    expect(repositories.telemetryRepository.deleteOlderThan).toHaveBeenCalledWith(daysAgo(7));
+    expect(repositories.telemetryRepository.deleteRollupsOlderThan.mock.calls).toEqual([
+      ['minute', daysAgo(90)],
+      ['day', daysAgo(3650)],
+    ]);
+    expect(repositories.decisionLogRepository.deleteOlderThan).toHaveBeenCalledWith(daysAgo(30));
+    expect(repositories.powerEventRepository.deleteOlderThan).toHaveBeenCalledWith(daysAgo(30));
+  });
+
+  it('shares a rollup pass that is already running', async () => {
+    const repositories = createRepositories();
+    let finish: () => void = () => undefined;
+    repositories.telemetryRepository.rollUp.mockImplementationOnce(
+      () => new Promise<void>((resolve) => {
+        finish = resolve;
+      }),
+    );
+
+    const first = repositories.service.rollUp();
+    const second = repositories.service.rollUp();
+    finish();
+    await Promise.all([first, second]);
+
+    expect(repositories.telemetryRepository.rollUp).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,16 +1,48 @@
 import type { AppConfig } from '../config/configSchema';
+import type { DecisionLogRepository } from './decisionLogRepository';
+import type { EnergyRepository } from './energyRepository';
+import type { PowerEventRepository } from './powerEventRepository';
 import type { TelemetryRepository } from './telemetryRepository';
+import { TELEMETRY_ROLLUP_TIERS } from '../../shared/telemetry/constants';
+import type { TelemetryRollupTier } from '../../shared/telemetry/types';
 
 const DAY_MS = 24 * 60 * 60 * 1000;
+/** Keeps the newest minute bucket close to live without rescanning much. */
+const ROLLUP_INTERVAL_MS = 60 * 1000;
+
+type DataRetentionConfig = AppConfig['data'];
+
+const ROLLUP_RETENTION_KEYS: Record<
+  TelemetryRollupTier,
+  'minuteRollupRetentionDays' | 'hourRollupRetentionDays' | 'dayRollupRetentionDays'
+> = {
+  minute: 'minuteRollupRetentionDays',
+  hour: 'hourRollupRetentionDays',
+  day: 'dayRollupRetentionDays',
+};
 
 export class RetentionService {
   private readonly telemetryRepository: TelemetryRepository;
-  private retentionDays: number;
+  private readonly decisionLogRepository: DecisionLogRepository | null;
+  private readonly powerEventRepository: PowerEventRepository | null;
+  private readonly energyRepository: EnergyRepository | null;
+  private retention: DataRetentionConfig;
   private timer: NodeJS.Timeout | null = null;
+  private rollupTimer: NodeJS.Timeout | null = null;
+  private rollupInFlight: Promise<void> | null = null;
 
-  public constructor(telemetryRepository: TelemetryRepository, retentionDays: number) {
+  public constructor(
+    telemetryRepository: TelemetryRepository,
+    retention: DataRetentionConfig,
+    decisionLogRepository: DecisionLogRepository | null = null,
+    powerEventRepository: PowerEventRepository | null = null,
+    energyRepository: EnergyRepository | null = null,
+  ) {
     this.telemetryRepository = telemetryRepository;
-    this.retentionDays = normalizeRetentionDays(retentionDays);
+    this.decisionLogRepository = decisionLogRepository;
+    this.powerEventRepository = powerEventRepository;
+    this.energyRepository = energyRepository;
+    this.retention = retention;
   }
 
   public start(): void {
@@ -22,6 +54,9 @@ export class RetentionService {
     this.timer = setInterval(() => {
       void this.runOnce();
     }, DAY_MS);
+    this.rollupTimer = setInterval(() => {
+      void this.rollUp();
+    }, ROLLUP_INTERVAL_MS);
   }
 
   public stop(): void {
@@ -31,19 +66,69 @@ export class RetentionService {
 
     clearInterval(this.timer);
     this.timer = null;
+    if (this.rollupTimer) {
+      clearInterval(this.rollupTimer);
+      this.rollupTimer = null;
+    }
   }
 
+  /**
+   * Brings the rollups up to date before pruning, so raw rows are always
+   * aggregated before they are deleted.
+   */
   public async runOnce(): Promise<number> {
-    const retentionDays = normalizeRetentionDays(this.retentionDays);
-    const cutoffDate = new Date(Date.now() - retentionDays * DAY_MS);
-    return this.telemetryRepository.deleteOlderThan(cutoffDate);
+    const now = Date.now();
+    await this.rollUp();
+
+    const rawCutoff = toCutoffDate(now, this.retention.rawTelemetryRetentionDays);
+    let deletedRows = await this.telemetryRepository.deleteOlderThan(rawCutoff);
+    for (const tier of TELEMETRY_ROLLUP_TIERS) {
+      const retentionDays = this.retention[ROLLUP_RETENTION_KEYS[tier]];
+      if (retentionDays === null) {
+        continue;
+      }
+
+      deletedRows += await this.telemetryRepository.deleteRollupsOlderThan(
+        tier,
+        toCutoffDate(now, retentionDays),
+      );
+    }
+
+    const historyCutoff = toCutoffDate(now, this.retention.retentionDays);
+    deletedRows += await this.decisionLogRepository?.deleteOlderThan(historyCutoff) ?? 0;
+    deletedRows += await this.powerEventRepository?.deleteOlderThan(historyCutoff) ?? 0;
+    return deletedRows;
+  }
+
+  /**
+   * Updates the telemetry rollups and the hourly energy totals, both of which
+   * read raw rows. Overlapping triggers share the pass that is already running.
+   */
+  public rollUp(): Promise<void> {
+    if (!this.rollupInFlight) {
+      this.rollupInFlight = this.telemetryRepository
+        .rollUp()
+        .then(() => this.energyRepository?.accumulate())
+        .catch((error: unknown) => {
+          console.error('[RetentionService] Failed to update telemetry rollups', error);
+        })
+        .finally(() => {
+          this.rollupInFlight = null;
+        });
+    }
+
+    return this.rollupInFlight;
   }
 
   public handleConfigUpdated(config: AppConfig): void {
-    this.retentionDays = normalizeRetentionDays(config.data.retentionDays);
+    this.retention = config.data;
   }
 }
 
+function toCutoffDate(now: number, retentionDays: number): Date {
+  return new Date(now - normalizeRetentionDays(retentionDays) * DAY_MS);
+}
+
 function normalizeRetentionDays(value: number): number {
   if (!Number.isFinite(value)) {
     return 30;
@@ -1,7 +1,14 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import { describe, expect, it, vi } from 'vitest';
-import type { DuckDbClient } from './duckdbClient';
+import { DuckDbClient } from './duckdbClient';
 import { TelemetryRepository } from './telemetryRepository';
 
+vi.mock('electron', () => ({
+  app: { getPath: () => '' },
+}));
+
 function createDbMock() {
   return {
     all: vi.fn(),
@@ -39,19 +46,65 @@ describe('TelemetryRepository', () => {
       },
     ]);
 
-    expect(db.all).toHaveBeenCalledTimes(1);
-    const [sql, params] = db.all.mock.calls[0];
+    // Five-minute chart buckets are served from the minute rollups, once a
+    // first query confirms they reach back to the start of the range.
+    expect(db.all).toHaveBeenCalledTimes(2);
+    const [sql, params] = db.all.mock.calls[1];
+    expect(sql).toContain('FROM ups_telemetry_1m');
     expect(sql).toContain('battery_voltage');
     expect(sql).not.toContain('input_voltage');
     expect(params).toEqual([
+      'primary',
       new Date('2026-03-06T00:00:00.000Z'),
       new Date('2026-03-06T01:00:00.000Z'),
       25,
-      25,
+      300_000,
       25,
     ]);
   });
 
+  it('averages long ranges into time buckets', async () => {
+    const db = new DuckDbClient(':memory:');
+    await db.initialize();
+
+    try {
+      const repository = new TelemetryRepository(db);
+      for (let minute = 0; minute < 60; minute += 1) {
+        await repository.insertTelemetryPoint(
+          new Date(Date.UTC(2026, 2, 6, 0, minute)),
+          { battery_charge_pct: 100 - minute, ups_status_num: minute === 7 ? 0 : 1 },
+        );
+      }
+
+      const range = {
+        startIso: '2026-03-06T00:00:00.000Z',
+        endIso: '2026-03-06T01:00:00.000Z',
+      };
+      const raw = await repository.queryRange({
+        ...range,
+        columns: ['battery_charge_pct', 'ups_status_num'],
+      });
+      expect(raw).toHaveLength(60);
+
+      const bucketed = await repository.queryRange({
+        ...range,
+        columns: ['battery_charge_pct', 'ups_status_num'],
+        maxPoints: 6,
+      });
+      expect(bucketed).toHaveLength(6);
+      expect(bucketed[0]).toEqual({
+        ts: '2026-03-06T00:00:00.000Z',
+        values: { battery_charge_pct: 95.5, ups_status_num: 0 },
+      });
+      expect(bucketed[1]).toEqual({
+        ts: '2026-03-06T00:10:00.000Z',
+        values: { battery_charge_pct: 85.5, ups_status_num: 1 },
+      });
+    } finally {
+      await db.close();
+    }
+  });
+
   it('limits min/max aggregation to the selected columns', async () => {
     const db = createDbMock();
     db.all.mockResolvedValue([
@@ -75,10 +128,250 @@ describe('TelemetryRepository', () => {
       },
     });
 
-    expect(db.all).toHaveBeenCalledTimes(1);
-    const [sql] = db.all.mock.calls[0];
+    expect(db.all).toHaveBeenCalledTimes(2);
+    const [sql] = db.all.mock.calls[1];
     expect(sql).toContain('MIN(input_voltage)');
     expect(sql).toContain('MAX(input_voltage)');
     expect(sql).not.toContain('MIN(output_voltage)');
   });
+
+  it('scopes reads and writes to the requested UPS', async () => {
+    const db = createDbMock();
+    db.all.mockResolvedValue([]);
+    db.run.mockResolvedValue(undefined);
+
+    const repository = new TelemetryRepository(db);
+    await repository.insertTelemetryPoint(
+      new Date('2026-03-06T00:00:00.000Z'),
+      { battery_charge_pct: 88 },
+      'rack-b',
+    );
+    await repository.getLatestTelemetryPoint('rack-b');
+    await repository.queryRange({
+      startIso: '2026-03-06T00:00:00.000Z',
+      endIso: '2026-03-06T01:00:00.000Z',
+      upsId: 'rack-b',
+    });
+
+    const [insertSql, insertParams] = db.run.mock.calls[0];
+    expect(insertSql).toContain('ON CONFLICT (ups_id, ts)');
+    expect(insertParams[0]).toBe('rack-b');
+
+    const [latestSql, latestParams] = db.all.mock.calls[0];
+    expect(latestSql).toContain('WHERE ups_id = ?');
+    expect(latestParams).toEqual(['rack-b']);
+    expect(db.all.mock.calls[1][1][0]).toBe('rack-b');
+  });
+
+  it('pages through raw rows in time order', async () => {
+    const db = createDbMock();
+    db.all
+      .mockResolvedValueOnce([
+        { ts: new Date('2026-03-06T00:00:00.000Z'), ups_status_num: 1 },
+        { ts: new Date('2026-03-06T00:00:02.000Z'), ups_status_num: 0 },
+      ])
+      .mockResolvedValueOnce([
+        { ts: new Date('2026-03-06T00:00:04.000Z'), ups_status_num: 0 },
+      ]);
+
+    const repository = new TelemetryRepository(db);
+    const points = [];
+    for await (const point of repository.iterateRawRange({
+      startIso: '2026-03-06T00:00:00.000Z',
+      endIso: '2026-03-06T01:00:00.000Z',
+      upsId: 'rack-b',
+    }, 2)) {
+      points.push(point);
+    }
+
+    expect(points.map((point) => [point.ts, point.values.ups_status_num])).toEqual([
+      ['2026-03-06T00:00:00.000Z', 1],
+      ['2026-03-06T00:00:02.000Z', 0],
+      ['2026-03-06T00:00:04.000Z', 0],
+    ]);
+    expect(db.all).toHaveBeenCalledTimes(2);
+    const [firstSql, firstParams] = db.all.mock.calls[0];
+    expect(firstSql).toContain('FROM ups_telemetry\n');
+    expect(firstSql).toContain('ts >= ?');
+    expect(firstParams).toEqual([
+      'rack-b',
+      new Date('2026-03-06T00:00:00.000Z'),
+      new Date('2026-03-06T01:00:00.000Z'),
+      2,
+    ]);
+    const [nextSql, nextParams] = db.all.mock.calls[1];
+    expect(nextSql).toContain('ts > ?');
+    expect(nextParams[1]).toEqual(new Date('2026-03-06T00:00:02.000Z'));
+  });
+
+  it('rolls telemetry up incrementally and reads the finest tier still covering the range', async () => {
+    const db = new DuckDbClient(':memory:');
+    await db.initialize();
+
+    try {
+      const repository = new TelemetryRepository(db);
+      const insertMinutes = async (from: number, to: number) => {
+        for (let minute = from; minute < to; minute += 1) {
+          await repository.insertTelemetryPoint(
+            new Date(Date.UTC(2026, 2, 6, 0, minute)),
+            { battery_charge_pct: minute, ups_status_num: minute === 70 ? 0 : 1 },
+          );
+        }
+      };
+      const range = {
+        startIso: '2026-03-06T00:00:00.000Z',
+        endIso: '2026-03-06T03:00:00.000Z',
+        columns: ['battery_charge_pct' as const, 'ups_status_num' as const],
+      };
+
+      await insertMinutes(0, 150);
+      await repository.rollUp();
+      await insertMinutes(150, 180);
+      await repository.rollUp();
+
+      const hourRows = await db.all<{ ts: Date; sample_count: bigint }>(
+        'SELECT ts, sample_count FROM ups_telemetry_1h ORDER BY ts',
+      );
+      expect(hourRows.map((row) => Number(row.sample_count))).toEqual([60, 60, 60]);
+      const dayRows = await db.all<{ sample_count: bigint; battery_charge_pct_avg: number }>(
+        'SELECT sample_count, battery_charge_pct_avg FROM ups_telemetry_1d',
+      );
+      expect(dayRows).toEqual([{ sample_count: 180n, battery_charge_pct_avg: 89.5 }]);
+
+      // Once raw rows are pruned the minute tier answers with the same shape.
+      await repository.deleteOlderThan(new Date('2026-03-07T00:00:00.000Z'));
+      const minutePoints = await repository.queryRange(range);
+      expect(minutePoints).toHaveLength(180);
+      expect(minutePoints[70]).toEqual({
+        ts: '2026-03-06T01:10:00.000Z',
+        values: { battery_charge_pct: 70, ups_status_num: 0 },
+      });
+
+      await repository.deleteRollupsOlderThan('minute', new Date('2026-03-07T00:00:00.000Z'));
+      const hourPoints = await repository.queryRange(range);
+      expect(hourPoints).toEqual([
+        {
+          ts: '2026-03-06T00:00:00.000Z',
+          values: { battery_charge_pct: 29.5, ups_status_num: 1 },
+        },
+        {
+          ts: '2026-03-06T01:00:00.000Z',
+          values: { battery_charge_pct: 89.5, ups_status_num: 0 },
+        },
+        {
+          ts: '2026-03-06T02:00:00.000Z',
+          values: { battery_charge_pct: 149.5, ups_status_num: 1 },
+        },
+      ]);
+      expect(await repository.getMinMaxForRange(range)).toEqual({
+        battery_charge_pct: { min: 0, max: 179 },
+        ups_status_num: { min: 0, max: 1 },
+      });
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('exports the selected range and columns with COPY', async () => {
+    const db = new DuckDbClient(':memory:');
+    await db.initialize();
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ups-export-'));
+
+    try {
+      const repository = new TelemetryRepository(db);
+      for (const [minute, charge] of [[0, 100], [1, 99], [2, 98]]) {
+        await repository.insertTelemetryPoint(
+          new Date(Date.UTC(2026, 2, 6, 0, minute)),
+          { battery_charge_pct: charge, input_voltage: 230 },
+        );
+      }
+      await repository.insertTelemetryPoint(
+        new Date(Date.UTC(2026, 2, 6, 0, 1)),
+        { battery_charge_pct: 50 },
+        'rack-b',
+      );
+
+      const payload = {
+        startIso: '2026-03-06T00:01:00.000Z',
+        endIso: '2026-03-06T00:02:00.000Z',
+        columns: ['battery_charge_pct' as const],
+      };
+      const csvPath = path.join(directory, "it's.csv");
+      const ndjsonPath = path.join(directory, 'export.ndjson');
+
+      expect(await repository.exportRange({ ...payload, format: 'csv' }, csvPath)).toEqual({
+        rowCount: 2,
+        rolledUpBeforeIso: null,
+      });
+      expect(await fs.promises.readFile(csvPath, 'utf8')).toBe(
+        'ts,battery_charge_pct\n' +
+          '2026-03-06T00:01:00.000Z,99.0\n' +
+          '2026-03-06T00:02:00.000Z,98.0\n',
+      );
+
+      await repository.exportRange({ ...payload, format: 'ndjson' }, ndjsonPath);
+      const lines = (await fs.promises.readFile(ndjsonPath, 'utf8')).trim().split('\n');
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        { ts: '2026-03-06T00:01:00.000Z', battery_charge_pct: 99 },
+        { ts: '2026-03-06T00:02:00.000Z', battery_charge_pct: 98 },
+      ]);
+
+      const parquetPath = path.join(directory, 'export.parquet');
+      await repository.exportRange({ ...payload, format: 'parquet', upsId: 'rack-b' }, parquetPath);
+      expect(await db.all(`SELECT battery_charge_pct FROM '${parquetPath}'`)).toEqual([
+        { battery_charge_pct: 50 },
+      ]);
+    } finally {
+      await db.close();
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('exports pruned parts of a range from the finest rollup that still holds them', async () => {
+    const db = new DuckDbClient(':memory:');
+    await db.initialize();
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ups-export-'));
+
+    try {
+      const repository = new TelemetryRepository(db);
+      for (let minute = 0; minute < 180; minute += 1) {
+        await repository.insertTelemetryPoint(
+          new Date(Date.UTC(2026, 2, 6, 0, minute)),
+          { battery_charge_pct: minute },
+        );
+      }
+      await repository.rollUp();
+      await repository.deleteOlderThan(new Date('2026-03-06T02:00:00.000Z'));
+      await repository.deleteRollupsOlderThan('minute', new Date('2026-03-06T01:00:00.000Z'));
+
+      const csvPath = path.join(directory, 'export.csv');
+      const summary = await repository.exportRange({
+        startIso: '2026-03-06T00:00:00.000Z',
+        endIso: '2026-03-06T03:00:00.000Z',
+        columns: ['battery_charge_pct'],
+        format: 'csv',
+      }, csvPath);
+
+      expect(summary).toEqual({
+        rowCount: 1 + 60 + 60,
+        rolledUpBeforeIso: '2026-03-06T02:00:00.000Z',
+      });
+      const lines = (await fs.promises.readFile(csvPath, 'utf8')).trim().split('\n');
+      expect(lines.slice(0, 3)).toEqual([
+        'ts,battery_charge_pct',
+        '2026-03-06T00:00:00.000Z,29.5',
+        '2026-03-06T01:00:00.000Z,60.0',
+      ]);
+      expect(lines.slice(61, 64)).toEqual([
+        '2026-03-06T01:59:00.000Z,119.0',
+        '2026-03-06T02:00:00.000Z,120.0',
+        '2026-03-06T02:01:00.000Z,121.0',
+      ]);
+      expect(await db.all("SELECT current_setting('enable_progress_bar') AS enabled"))
+        .toEqual([{ enabled: false }]);
+    } finally {
+      await db.close();
+      await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+  });
 });
@@ -1,4 +1,9 @@
-import { type DuckDbParam, DuckDbClient, UPS_TELEMETRY_TABLE } from './duckdbClient';
+import {
+  type DuckDbParam,
+  DuckDbClient,
+  UPS_TELEMETRY_ROLLUP_TABLES,
+  UPS_TELEMETRY_TABLE,
+} from './duckdbClient';
 import {
   mapNutSnapshotToTelemetryColumns,
   TELEMETRY_COLUMNS,
@@ -7,14 +12,27 @@ import {
 import type {
   QueryRangePayload,
   TelemetryDataPoint,
+  TelemetryExportFormat,
+  TelemetryExportPayload,
   TelemetryMinMaxRangePayload,
   TelemetryRangeLimits,
   TelemetryValues,
 } from '../../shared/ipc/contracts';
+import {
+  TELEMETRY_ROLLUP_BUCKET_MS,
+  TELEMETRY_ROLLUP_TIERS,
+} from '../../shared/telemetry/constants';
+import { selectTelemetryBucketMs } from '../../shared/telemetry/downsampling';
+import type {
+  TelemetryResolution,
+  TelemetryRollupTier,
+} from '../../shared/telemetry/types';
+import { PRIMARY_UPS_ID } from '../../shared/ups/upsTargets';
 
 export type {
   QueryRangePayload,
   TelemetryDataPoint,
+  TelemetryExportPayload,
   TelemetryMinMaxRangePayload,
   TelemetryRangeLimits,
   TelemetryValues,
@@ -24,6 +42,29 @@ type TelemetrySqlRow = {
   ts: Date | string;
 } & Partial<Record<TelemetryColumn, number | null>>;
 
+/** One table's share of an export; `to` is inclusive only for the newest one. */
+type TelemetryExportSegment = {
+  resolution: TelemetryResolution;
+  from: Date;
+  to: Date;
+  includesTo: boolean;
+};
+
+export type TelemetryExportSummary = {
+  rowCount: number;
+  /** Rows before this instant are rollup buckets rather than raw samples. */
+  rolledUpBeforeIso: string | null;
+};
+
+/** Finest first. */
+const TELEMETRY_RESOLUTIONS: TelemetryResolution[] = ['raw', ...TELEMETRY_ROLLUP_TIERS];
+const RESOLUTION_BUCKET_MS: Record<TelemetryResolution, number> = {
+  raw: 0,
+  ...TELEMETRY_ROLLUP_BUCKET_MS,
+};
+const DEFAULT_MAX_POINTS = 300;
+const RAW_RANGE_PAGE_SIZE = 5000;
+
 export class TelemetryRepository {
   private readonly db: DuckDbClient;
 
@@ -39,27 +80,30 @@ export class TelemetryRepository {
     timestamp: Date,
     snapshot: Record<string, string>,
     customMapping?: Record<string, string>,
+    upsId: string = PRIMARY_UPS_ID,
   ): Promise<TelemetryValues> {
     const values = mapNutSnapshotToTelemetryColumns(snapshot, customMapping);
     if (Object.keys(values).length === 0) {
       return values;
     }
 
-    await this.insertTelemetryPoint(timestamp, values);
+    await this.insertTelemetryPoint(timestamp, values, upsId);
     return values;
   }
 
   public async insertTelemetryPoint(
     timestamp: Date,
     values: TelemetryValues,
+    upsId: string = PRIMARY_UPS_ID,
   ): Promise<void> {
-    const columnsSql = ['ts', ...TELEMETRY_COLUMNS].join(', ');
-    const placeholdersSql = ['?', ...TELEMETRY_COLUMNS.map(() => '?')].join(', ');
+    const columnsSql = ['ups_id', 'ts', ...TELEMETRY_COLUMNS].join(', ');
+    const placeholdersSql = ['?', '?', ...TELEMETRY_COLUMNS.map(() => '?')].join(', ');
     const updateSql = TELEMETRY_COLUMNS.map(
       (column) => `${column}=excluded.${column}`,
     ).join(', ');
 
     const params: DuckDbParam[] = [
+      upsId,
       timestamp,
       ...TELEMETRY_COLUMNS.map((column) => {
         const value = values[column];
@@ -73,20 +117,24 @@ export class TelemetryRepository {
       `
       INSERT INTO ${UPS_TELEMETRY_TABLE} (${columnsSql})
       VALUES (${placeholdersSql})
-      ON CONFLICT (ts) DO UPDATE SET ${updateSql}
+      ON CONFLICT (ups_id, ts) DO UPDATE SET ${updateSql}
       `,
       params,
     );
   }
 
-  public async getLatestTelemetryPoint(): Promise<TelemetryDataPoint | null> {
+  public async getLatestTelemetryPoint(
+    upsId: string = PRIMARY_UPS_ID,
+  ): Promise<TelemetryDataPoint | null> {
     const rows = await this.db.all<TelemetrySqlRow>(
       `
       SELECT ts, ${TELEMETRY_COLUMNS.join(', ')}
       FROM ${UPS_TELEMETRY_TABLE}
+      WHERE ups_id = ?
       ORDER BY ts DESC
       LIMIT 1
       `,
+      [upsId],
     );
 
     if (rows.length === 0) {
@@ -107,10 +155,20 @@ export class TelemetryRepository {
     }
 
     const columns = normalizeColumns(payload.columns);
-    const selectParts = columns.map((col) => `MIN(${col}) as min_${col}, MAX(${col}) as max_${col}`);
-    const sql = `SELECT ${selectParts.join(', ')} FROM ${UPS_TELEMETRY_TABLE} WHERE ts >= ? AND ts <= ?`;
+    const upsId = payload.upsId ?? PRIMARY_UPS_ID;
+    const resolution = await this.selectResolution(upsId, start, end, DEFAULT_MAX_POINTS);
+    const selectParts = columns.map((col) =>
+      resolution === 'raw'
+        ? `MIN(${col}) as min_${col}, MAX(${col}) as max_${col}`
+        : `MIN(${col}_min) as min_${col}, MAX(${col}_max) as max_${col}`,
+    );
+    const sql = `SELECT ${selectParts.join(', ')} FROM ${getResolutionTable(resolution)} WHERE ups_id = ? AND ts >= ? AND ts <= ?`;
 
-    const rows = await this.db.all<Record<string, number | null>>(sql, [start, end]);
+    const rows = await this.db.all<Record<string, number | null>>(sql, [
+      upsId,
+      start,
+      end,
+    ]);
     const row = rows[0] || {};
 
     const limits: TelemetryRangeLimits = {};
@@ -144,20 +202,222 @@ export class TelemetryRepository {
     }
 
     const maxPoints = normalizeMaxPoints(payload.maxPoints);
+    const bucketMs = selectTelemetryBucketMs(end.getTime() - start.getTime(), maxPoints);
+    const upsId = payload.upsId ?? PRIMARY_UPS_ID;
+    const resolution = await this.selectResolution(upsId, start, end, maxPoints);
 
     const rows = await this.db.all<TelemetrySqlRow>(
-      buildRangeQuery(columns),
-      [start, end, maxPoints, maxPoints, maxPoints],
+      buildRangeQuery(columns, resolution),
+      [upsId, start, end, maxPoints, bucketMs, maxPoints],
     );
 
     return rows.map((row) => mapSqlRowToTelemetryDataPoint(row, columns));
   }
 
-  public async deleteOlderThan(cutoffDate: Date): Promise<number> {
+  /**
+   * Folds new rows into the minute, hour and day tables, each built from the
+   * tier below it. Every pass re-aggregates from the newest existing bucket
+   * onwards, so the bucket that was still filling up last time is completed
+   * and nothing older is rescanned.
+   */
+  public async rollUp(): Promise<void> {
+    let source: TelemetryResolution = 'raw';
+    for (const tier of TELEMETRY_ROLLUP_TIERS) {
+      await this.db.run(buildRollupQuery(source, tier));
+      source = tier;
+    }
+  }
+
+  /**
+   * Writes a range to `filePath` with DuckDB's `COPY ... TO`. Raw rows are
+   * only kept for a few days, so older parts of the range are written from
+   * the finest rollup table that still holds them, one averaged row per bucket.
+   */
+  public async exportRange(
+    payload: TelemetryExportPayload,
+    filePath: string,
+    onProgress: (percentage: number) => void = () => undefined,
+  ): Promise<TelemetryExportSummary> {
+    const start = new Date(payload.startIso);
+    const end = new Date(payload.endIso);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      throw new Error('Invalid export range timestamps');
+    }
+
+    if (start > end) {
+      throw new Error('Export range start must be before end');
+    }
+
+    const columns = normalizeColumns(payload.columns);
+    if (columns.length === 0) {
+      throw new Error('Select at least one telemetry column to export');
+    }
+
+    const upsId = payload.upsId ?? PRIMARY_UPS_ID;
+    const segments = await this.planExportSegments(upsId, start, end);
+    const rows = await this.db.allWithProgress<{ Count: number | bigint }>(
+      buildExportQuery(columns, payload.format, filePath, segments),
+      segments.flatMap(({ from, to }) => [upsId, from, to]),
+      onProgress,
+    );
+
+    const rawSegment = segments.find((segment) => segment.resolution === 'raw');
+    return {
+      rowCount: Number(rows[0]?.Count ?? 0),
+      rolledUpBeforeIso: segments.some((segment) => segment.resolution !== 'raw')
+        ? (rawSegment?.from ?? end).toISOString()
+        : null,
+    };
+  }
+
+  /**
+   * Yields every raw row of a range in time order, a page at a time, so
+   * replaying days of one-second samples never holds them all in memory.
+   */
+  public async *iterateRawRange(
+    payload: Pick<QueryRangePayload, 'upsId' | 'startIso' | 'endIso'>,
+    pageSize = RAW_RANGE_PAGE_SIZE,
+  ): AsyncGenerator<TelemetryDataPoint> {
+    const start = new Date(payload.startIso);
+    const end = new Date(payload.endIso);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      throw new Error('Invalid query range timestamps');
+    }
+
+    if (start > end) {
+      throw new Error('Query range start must be before end');
+    }
+
+    const columns = [...TELEMETRY_COLUMNS] as TelemetryColumn[];
+    const upsId = payload.upsId ?? PRIMARY_UPS_ID;
+    let after: Date | null = null;
+
+    for (;;) {
+      const rows: TelemetrySqlRow[] = await this.db.all<TelemetrySqlRow>(
+        `
+        SELECT ts, ${columns.join(', ')}
+        FROM ${UPS_TELEMETRY_TABLE}
+        WHERE ups_id = ? AND ${after ? 'ts > ?' : 'ts >= ?'} AND ts <= ?
+        ORDER BY ts ASC
+        LIMIT ?
+        `,
+        [upsId, after ?? start, end, pageSize],
+      );
+
+      for (const row of rows) {
+        yield mapSqlRowToTelemetryDataPoint(row, columns);
+      }
+
+      if (rows.length < pageSize) {
+        return;
+      }
+      after = new Date(normalizeTimestamp(rows[rows.length - 1].ts));
+    }
+  }
+
+  public deleteOlderThan(cutoffDate: Date): Promise<number> {
+    return this.deleteFromTableOlderThan(UPS_TELEMETRY_TABLE, cutoffDate);
+  }
+
+  public deleteRollupsOlderThan(
+    tier: TelemetryRollupTier,
+    cutoffDate: Date,
+  ): Promise<number> {
+    return this.deleteFromTableOlderThan(UPS_TELEMETRY_ROLLUP_TABLES[tier], cutoffDate);
+  }
+
+  /**
+   * Picks the coarsest table whose buckets are still no wider than the
+   * requested chart buckets. When that table has already been pruned back
+   * past `start`, a coarser tier that still covers it is used instead; raw
+   * rows are the fallback while the rollups have not caught up yet.
+   */
+  private async selectResolution(
+    upsId: string,
+    start: Date,
+    end: Date,
+    maxPoints: number,
+  ): Promise<TelemetryResolution> {
+    const bucketMs = selectTelemetryBucketMs(end.getTime() - start.getTime(), maxPoints);
+    const preferredIndex = TELEMETRY_RESOLUTIONS.findLastIndex(
+      (resolution) => RESOLUTION_BUCKET_MS[resolution] <= bucketMs,
+    );
+
+    for (let index = preferredIndex; index < TELEMETRY_RESOLUTIONS.length; index += 1) {
+      const resolution = TELEMETRY_RESOLUTIONS[index];
+      if (await this.hasRows(resolution, upsId, null, start)) {
+        return resolution;
+      }
+    }
+
+    const preferred = TELEMETRY_RESOLUTIONS[preferredIndex];
+    return (await this.hasRows(preferred, upsId, start, end)) ? preferred : 'raw';
+  }
+
+  /**
+   * Splits a range between the tables that still hold it, newest first: raw
+   * rows back to the oldest one kept, then each coarser tier back to where
+   * its own retention has pruned it.
+   */
+  private async planExportSegments(
+    upsId: string,
+    start: Date,
+    end: Date,
+  ): Promise<TelemetryExportSegment[]> {
+    const segments: TelemetryExportSegment[] = [];
+    let to = end;
+
+    for (const resolution of TELEMETRY_RESOLUTIONS) {
+      const rows = await this.db.all<{ ts: Date | string | null }>(
+        `SELECT MIN(ts) AS ts FROM ${getResolutionTable(resolution)} WHERE ups_id = ?`,
+        [upsId],
+      );
+      const earliestTs = rows[0]?.ts;
+      if (earliestTs === null || earliestTs === undefined) {
+        continue;
+      }
+
+      const earliest = new Date(normalizeTimestamp(earliestTs));
+      if (earliest > to) {
+        continue;
+      }
+
+      const from = earliest > start ? earliest : start;
+      segments.push({ resolution, from, to, includesTo: segments.length === 0 });
+      if (from <= start) {
+        break;
+      }
+      to = from;
+    }
+
+    return segments.length > 0
+      ? segments
+      : [{ resolution: 'raw', from: start, to: end, includesTo: true }];
+  }
+
+  private async hasRows(
+    resolution: TelemetryResolution,
+    upsId: string,
+    from: Date | null,
+    to: Date,
+  ): Promise<boolean> {
+    const rows = await this.db.all<{ found: number }>(
+      `
+      SELECT 1 AS found
+      FROM ${getResolutionTable(resolution)}
+      WHERE ups_id = ? AND ts <= ?${from ? ' AND ts >= ?' : ''}
+      LIMIT 1
+      `,
+      from ? [upsId, to, from] : [upsId, to],
+    );
+    return rows.length > 0;
+  }
+
+  private async deleteFromTableOlderThan(table: string, cutoffDate: Date): Promise<number> {
     const countRows = await this.db.all<{ count: number }>(
       `
       SELECT COUNT(*) AS count
-      FROM ${UPS_TELEMETRY_TABLE}
+      FROM ${table}
       WHERE ts < ?
       `,
       [cutoffDate],
@@ -170,7 +430,7 @@ export class TelemetryRepository {
 
     await this.db.run(
       `
-      DELETE FROM ${UPS_TELEMETRY_TABLE}
+      DELETE FROM ${table}
       WHERE ts < ?
       `,
       [cutoffDate],
@@ -218,7 +478,7 @@ function normalizeTimestamp(value: Date | string): string {
 
 function normalizeMaxPoints(maxPoints: number | undefined): number {
   if (!maxPoints || !Number.isFinite(maxPoints)) {
-    return 300;
+    return DEFAULT_MAX_POINTS;
   }
 
   const rounded = Math.floor(maxPoints);
@@ -241,25 +501,141 @@ function normalizeColumns(columns: TelemetryColumn[] | undefined): TelemetryColu
   return columns.filter((column) => TELEMETRY_COLUMNS.includes(column));
 }
 
-function buildRangeQuery(columns: TelemetryColumn[]): string {
-  const selectedColumns = columns.join(', ');
+const EXPORT_FORMAT_OPTIONS: Record<TelemetryExportFormat, string> = {
+  csv: 'FORMAT csv, HEADER true',
+  ndjson: 'FORMAT json',
+  parquet: 'FORMAT parquet, COMPRESSION zstd',
+};
+
+function buildExportQuery(
+  columns: TelemetryColumn[],
+  format: TelemetryExportFormat,
+  filePath: string,
+  segments: TelemetryExportSegment[],
+): string {
+  // Parquet keeps the native timestamp type; text formats get explicit UTC ISO
+  // strings because DuckDB would otherwise print a zone-less local-looking time.
+  const tsSql =
+    format === 'parquet'
+      ? 'ts'
+      : "strftime(ts, '%Y-%m-%dT%H:%M:%S.%gZ') AS ts";
+  // COPY cannot bind the target path as a parameter.
+  const targetSql = `'${filePath.replace(/'/g, "''")}'`;
+
+  const sources = segments.map(({ resolution, includesTo }) => {
+    const valueColumns = resolution === 'raw'
+      ? columns
+      : columns.map((column) => `${getRollupValueColumn(column)} AS ${column}`);
+    return `
+      SELECT ts, ${valueColumns.join(', ')}
+      FROM ${getResolutionTable(resolution)}
+      WHERE ups_id = ? AND ts >= ? AND ts ${includesTo ? '<=' : '<'} ?`;
+  });
+
+  return `
+    COPY (
+      SELECT ${tsSql}, ${columns.join(', ')}
+      FROM (${sources.join('\n      UNION ALL')}
+      )
+      ORDER BY ts ASC
+    ) TO ${targetSql} (${EXPORT_FORMAT_OPTIONS[format]})
+  `;
+}
+
+/** `ups_status_num` keeps the minimum so brief outages remain visible. */
+function getRollupValueColumn(column: TelemetryColumn): string {
+  return column === 'ups_status_num' ? `${column}_min` : `${column}_avg`;
+}
+
+function getResolutionTable(resolution: TelemetryResolution): string {
+  return resolution === 'raw' ? UPS_TELEMETRY_TABLE : UPS_TELEMETRY_ROLLUP_TABLES[resolution];
+}
+
+/** Averages rollup averages, weighting each bucket by the samples behind it. */
+function weightedAverageSql(avgColumn: string): string {
+  return `SUM(${avgColumn} * sample_count) / SUM(CASE WHEN ${avgColumn} IS NOT NULL THEN sample_count END)`;
+}
+
+function buildRollupQuery(source: TelemetryResolution, tier: TelemetryRollupTier): string {
+  const target = UPS_TELEMETRY_ROLLUP_TABLES[tier];
+  const targetColumns = TELEMETRY_COLUMNS.flatMap((column) => [
+    `${column}_min`,
+    `${column}_avg`,
+    `${column}_max`,
+  ]);
+  const aggregates = TELEMETRY_COLUMNS.flatMap((column) =>
+    source === 'raw'
+      ? [`MIN(${column})`, `AVG(${column})`, `MAX(${column})`]
+      : [`MIN(${column}_min)`, weightedAverageSql(`${column}_avg`), `MAX(${column}_max)`],
+  );
+
+  return `
+    INSERT OR REPLACE INTO ${target} (ups_id, ts, sample_count, ${targetColumns.join(', ')})
+    SELECT
+      src.ups_id,
+      time_bucket(to_milliseconds(${TELEMETRY_ROLLUP_BUCKET_MS[tier]}), src.ts) AS bucket,
+      ${source === 'raw' ? 'COUNT(*)' : 'SUM(sample_count)'},
+      ${aggregates.join(',\n      ')}
+    FROM ${getResolutionTable(source)} AS src
+    LEFT JOIN (
+      SELECT ups_id, MAX(ts) AS last_ts
+      FROM ${target}
+      GROUP BY ups_id
+    ) AS watermark ON watermark.ups_id = src.ups_id
+    WHERE watermark.last_ts IS NULL OR src.ts >= watermark.last_ts
+    GROUP BY src.ups_id, bucket
+  `;
+}
+
+/**
+ * Ranges with more rows than `maxPoints` are averaged into fixed time buckets
+ * so long windows stay cheap to ship and draw; shorter ones return the rows
+ * as stored. `ups_status_num` keeps the minimum so brief outages remain visible.
+ */
+function buildRangeQuery(columns: TelemetryColumn[], resolution: TelemetryResolution): string {
+  const keepsMinimum = (column: TelemetryColumn) => column === 'ups_status_num';
+  const sourceColumns =
+    resolution === 'raw'
+      ? columns
+      : [
+        'sample_count',
+        ...columns.map((column) => (keepsMinimum(column) ? `${column}_min` : `${column}_avg`)),
+      ];
+  const rowColumns = columns
+    .map((column) => {
+      if (resolution === 'raw') {
+        return column;
+      }
+      return keepsMinimum(column) ? `${column}_min AS ${column}` : `${column}_avg AS ${column}`;
+    })
+    .join(', ');
+  const aggregatedColumns = columns
+    .map((column) => {
+      if (resolution === 'raw') {
+        return keepsMinimum(column) ? `MIN(${column}) AS ${column}` : `AVG(${column}) AS ${column}`;
+      }
+      return keepsMinimum(column)
+        ? `MIN(${column}_min) AS ${column}`
+        : `${weightedAverageSql(`${column}_avg`)} AS ${column}`;
+    })
+    .join(', ');
   return `
     WITH filtered AS (
-      SELECT
-        ts,
-        ${selectedColumns},
-        ROW_NUMBER() OVER (ORDER BY ts ASC) AS row_num,
-        COUNT(*) OVER () AS total_rows
-      FROM ${UPS_TELEMETRY_TABLE}
-      WHERE ts >= ? AND ts <= ?
+      SELECT ts, ${sourceColumns.join(', ')}
+      FROM ${getResolutionTable(resolution)}
+      WHERE ups_id = ? AND ts >= ? AND ts <= ?
+    ),
+    total AS (
+      SELECT COUNT(*) AS total_rows FROM filtered
     )
-    SELECT ts, ${selectedColumns}
+    SELECT ts, ${rowColumns}
+    FROM filtered
+    WHERE (SELECT total_rows FROM total) <= ?
+    UNION ALL
+    SELECT time_bucket(to_milliseconds(?), ts) AS ts, ${aggregatedColumns}
     FROM filtered
-    WHERE total_rows <= ?
-      OR row_num = 1
-      OR row_num = total_rows
-      OR MOD(row_num - 1, CAST(CEIL(total_rows::DOUBLE / ?) AS BIGINT)) = 0
+    WHERE (SELECT total_rows FROM total) > ?
+    GROUP BY 1
     ORDER BY ts ASC
-    LIMIT ?
   `;
 }
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { DEMO_SCENARIOS } from './demoScenarios';
+import { DemoUpsSimulator } from './DemoUpsSimulator';
+
+const LINE = { nominalVoltage: 230, nominalFrequency: 50 };
+
+function simulate(scenario: keyof typeof DEMO_SCENARIOS) {
+  return new DemoUpsSimulator(DEMO_SCENARIOS[scenario], LINE);
+}
+
+function read(simulator: DemoUpsSimulator) {
+  const variables = simulator.getDynamicVariables();
+  return {
+    status: variables['ups.status'],
+    charge: Number(variables['battery.charge']),
+    runtime: Number(variables['battery.runtime']),
+    inputVoltage: Number(variables['input.voltage']),
+    outputVoltage: Number(variables['output.voltage']),
+    batteryVoltage: Number(variables['battery.voltage']),
+  };
+}
+
+describe('DemoUpsSimulator', () => {
+  it('runs the battery down after a mains failure and raises LB', () => {
+    const simulator = simulate('mainsFailure');
+
+    const online = read(simulator);
+    expect(online.status).toBe('OL');
+    expect(online.charge).toBe(100);
+    expect(online.inputVoltage).toBeCloseTo(230, -1);
+    expect(online.runtime).toBeGreaterThan(600);
+
+    simulator.advance(120);
+    const onBattery = read(simulator);
+    expect(onBattery.status).toBe('OB DISCHRG');
+    expect(onBattery.inputVoltage).toBe(0);
+    expect(onBattery.outputVoltage).toBeCloseTo(230, -1);
+    expect(onBattery.charge).toBeLessThan(100);
+    expect(onBattery.batteryVoltage).toBeLessThan(online.batteryVoltage);
+
+    // About ten minutes of runtime at 45% load.
+    simulator.advance(480);
+    const low = read(simulator);
+    expect(low.status).toBe('OB DISCHRG LB');
+    expect(low.runtime).toBeLessThanOrEqual(180);
+    expect(low.charge).toBeLessThan(onBattery.charge);
+  });
+
+  it('alternates between mains and battery when the input flaps', () => {
+    const simulator = simulate('flappingInput');
+    const statuses: string[] = [];
+    for (let second = 0; second < 120; second += 1) {
+      statuses.push(read(simulator).status.split(' ')[0]);
+      simulator.advance(1);
+    }
+
+    const transitions = statuses.filter((status, index) => index > 0 && status !== statuses[index - 1]);
+    expect(transitions).toEqual(['OB', 'OL', 'OB', 'OL', 'OB', 'OL']);
+
+    // The script repeats, and the battery recharges in between.
+    expect(read(simulator).status).toMatch(/^OL CHRG/);
+  });
+
+  it('boosts during a brownout and transfers to battery below the window', () => {
+    const simulator = simulate('brownout');
+
+    simulator.advance(100);
+    const boosted = read(simulator);
+    expect(boosted.status).toBe('OL BOOST');
+    expect(boosted.inputVoltage).toBeLessThan(200);
+    expect(boosted.outputVoltage).toBeGreaterThan(boosted.inputVoltage);
+
+    simulator.advance(60);
+    expect(read(simulator).status).toBe('OB DISCHRG');
+  });
+
+  it('reports OVER while the load exceeds the rating', () => {
+    const simulator = simulate('overload');
+
+    simulator.advance(90);
+    expect(read(simulator).status).toBe('OL OVER');
+    expect(Number(simulator.getDynamicVariables()['ups.load'])).toBeGreaterThan(100);
+  });
+
+  it('is reproducible for the same seed', () => {
+    const first = simulate('steady');
+    const second = simulate('steady');
+    first.advance(30);
+    second.advance(30);
+
+    expect(first.getDynamicVariables()).toEqual(second.getDynamicVariables());
+    expect(first.getStaticVariables()['input.voltage.nominal']).toBe('230');
+  });
+});
@@ -0,0 +1,229 @@
+import type { DemoScenario, DemoScenarioPhase } from './demoScenarios';
+
+export type DemoUpsSimulatorOptions = {
+  nominalVoltage: number;
+  nominalFrequency: number;
+  /** Seeds the measurement noise so runs are reproducible. */
+  seed?: number;
+};
+
+type DemoConditions = Required<Omit<DemoScenarioPhase, 'atSeconds'>>;
+
+const BATTERY_NOMINAL_VOLTAGE = 24;
+const NOMINAL_APPARENT_POWER_VA = 1000;
+const NOMINAL_REAL_POWER_W = 900;
+const LOW_CHARGE_PCT = 20;
+const LOW_RUNTIME_SECONDS = 180;
+// Runtime from a full battery at half load; other loads follow Peukert's law.
+const HALF_LOAD_RUNTIME_SECONDS = 600;
+const PEUKERT_EXPONENT = 1.25;
+const FULL_RECHARGE_SECONDS = 1800;
+// Line-interactive behaviour: boost or trim inside the window, battery outside it.
+const LOW_TRANSFER_RATIO = 0.78;
+const HIGH_TRANSFER_RATIO = 1.15;
+const BOOST_BELOW_RATIO = 0.87;
+const TRIM_ABOVE_RATIO = 1.08;
+const BOOST_FACTOR = 1.12;
+const TRIM_FACTOR = 0.9;
+
+const DEFAULT_CONDITIONS: DemoConditions = {
+  mains: true,
+  inputVoltageRatio: 1,
+  loadPct: 30,
+};
+
+/**
+ * A line-interactive UPS driven by a scenario script. Time only moves through
+ * `advance`, so the model is deterministic and can be fast-forwarded in tests.
+ */
+export class DemoUpsSimulator {
+  private readonly scenario: DemoScenario;
+  private readonly options: DemoUpsSimulatorOptions;
+  private readonly random: () => number;
+  private elapsedSeconds = 0;
+  private chargePct: number;
+
+  public constructor(scenario: DemoScenario, options: DemoUpsSimulatorOptions) {
+    this.scenario = scenario;
+    this.options = options;
+    this.random = createRandom(options.seed ?? 1);
+    this.chargePct = scenario.initialChargePct;
+  }
+
+  public getElapsedSeconds(): number {
+    return this.elapsedSeconds;
+  }
+
+  public advance(seconds: number): void {
+    // One-second steps keep phase changes and the LB edge where they belong
+    // when the demo runs faster than real time.
+    for (let remaining = seconds; remaining > 0; remaining -= 1) {
+      const step = Math.min(1, remaining);
+      this.integrate(step);
+      this.elapsedSeconds += step;
+    }
+  }
+
+  public getStaticVariables(): Record<string, string> {
+    const { nominalVoltage, nominalFrequency } = this.options;
+    return {
+      'device.mfr': 'Easy UPS',
+      'device.model': 'Demo UPS 1000',
+      'device.serial': 'DEMO-0001',
+      'device.type': 'ups',
+      'driver.name': 'demo',
+      'ups.mfr': 'Easy UPS',
+      'ups.model': 'Demo UPS 1000',
+      'battery.type': 'PbAc',
+      'battery.voltage.nominal': String(BATTERY_NOMINAL_VOLTAGE),
+      'battery.charge.low': String(LOW_CHARGE_PCT),
+      'battery.runtime.low': String(LOW_RUNTIME_SECONDS),
+      'input.voltage.nominal': String(nominalVoltage),
+      'input.frequency.nominal': String(nominalFrequency),
+      'input.transfer.low': String(Math.round(nominalVoltage * LOW_TRANSFER_RATIO)),
+      'input.transfer.high': String(Math.round(nominalVoltage * HIGH_TRANSFER_RATIO)),
+      'output.voltage.nominal': String(nominalVoltage),
+      'output.frequency.nominal': String(nominalFrequency),
+      'ups.power.nominal': String(NOMINAL_APPARENT_POWER_VA),
+      'ups.realpower.nominal': String(NOMINAL_REAL_POWER_W),
+    };
+  }
+
+  public getDynamicVariables(): Record<string, string> {
+    const { nominalVoltage, nominalFrequency } = this.options;
+    const conditions = this.getConditions();
+    const onLine = isOnLine(conditions);
+    const loadPct = Math.max(0, conditions.loadPct * (1 + this.noise(0.01)));
+    const runtimeSeconds = Math.round((this.chargePct / 100) * fullRuntimeSeconds(loadPct));
+    const outputLive = onLine || this.chargePct > 0;
+
+    const inputVoltage = conditions.mains
+      ? nominalVoltage * conditions.inputVoltageRatio * (1 + this.noise(0.005))
+      : 0;
+    const outputVoltage = !outputLive
+      ? 0
+      : onLine
+        ? inputVoltage * regulationFactor(conditions.inputVoltageRatio)
+        : nominalVoltage * (1 + this.noise(0.002));
+
+    const batteryVoltage = onLine
+      ? this.chargePct >= 99.5
+        ? 27.3
+        : 26 + 1.2 * (this.chargePct / 100)
+      : 21.6 + 3.6 * (this.chargePct / 100) - 0.8 * (loadPct / 100);
+
+    return {
+      'ups.status': this.getStatus(conditions, runtimeSeconds),
+      'ups.load': String(Math.round(outputLive ? loadPct : 0)),
+      'ups.power': String(Math.round((outputLive ? loadPct : 0) / 100 * NOMINAL_APPARENT_POWER_VA)),
+      'ups.power.percent': String(Math.round(outputLive ? loadPct : 0)),
+      'ups.realpower': String(Math.round((outputLive ? loadPct : 0) / 100 * NOMINAL_REAL_POWER_W)),
+      'ups.temperature': (28 + 0.08 * loadPct).toFixed(1),
+      'battery.charge': String(Math.round(this.chargePct)),
+      'battery.runtime': String(runtimeSeconds),
+      'battery.voltage': batteryVoltage.toFixed(2),
+      'input.voltage': inputVoltage.toFixed(1),
+      'input.frequency': conditions.mains
+        ? (nominalFrequency + this.noise(0.05)).toFixed(2)
+        : '0.00',
+      'output.voltage': outputVoltage.toFixed(1),
+      'output.frequency': outputLive
+        ? (nominalFrequency + (onLine ? this.noise(0.05) : 0)).toFixed(2)
+        : '0.00',
+    };
+  }
+
+  private integrate(seconds: number): void {
+    const conditions = this.getConditions();
+    if (isOnLine(conditions)) {
+      // Charging tapers off over the last tenth, as with a real float charger.
+      const rate = this.chargePct < 90 ? 100 / FULL_RECHARGE_SECONDS : 25 / FULL_RECHARGE_SECONDS;
+      this.chargePct = Math.min(100, this.chargePct + rate * seconds);
+      return;
+    }
+
+    this.chargePct = Math.max(
+      0,
+      this.chargePct - (100 / fullRuntimeSeconds(conditions.loadPct)) * seconds,
+    );
+  }
+
+  private getConditions(): DemoConditions {
+    const { phases, repeatEverySeconds } = this.scenario;
+    const scenarioSeconds = repeatEverySeconds
+      ? this.elapsedSeconds % repeatEverySeconds
+      : this.elapsedSeconds;
+
+    const conditions = { ...DEFAULT_CONDITIONS };
+    for (const phase of phases) {
+      if (phase.atSeconds > scenarioSeconds) {
+        break;
+      }
+      conditions.mains = phase.mains ?? conditions.mains;
+      conditions.inputVoltageRatio = phase.inputVoltageRatio ?? conditions.inputVoltageRatio;
+      conditions.loadPct = phase.loadPct ?? conditions.loadPct;
+    }
+
+    return conditions;
+  }
+
+  private getStatus(conditions: DemoConditions, runtimeSeconds: number): string {
+    const onLine = isOnLine(conditions);
+    const tokens = [onLine ? 'OL' : 'OB'];
+
+    if (onLine && conditions.inputVoltageRatio < BOOST_BELOW_RATIO) {
+      tokens.push('BOOST');
+    } else if (onLine && conditions.inputVoltageRatio > TRIM_ABOVE_RATIO) {
+      tokens.push('TRIM');
+    }
+    if (conditions.loadPct > 100) {
+      tokens.push('OVER');
+    }
+    if (onLine && this.chargePct < 99.5) {
+      tokens.push('CHRG');
+    }
+    if (!onLine) {
+      tokens.push('DISCHRG');
+      if (this.chargePct <= LOW_CHARGE_PCT || runtimeSeconds <= LOW_RUNTIME_SECONDS) {
+        tokens.push('LB');
+      }
+    }
+
+    return tokens.join(' ');
+  }
+
+  private noise(amplitude: number): number {
+    return (this.random() * 2 - 1) * amplitude;
+  }
+}
+
+function isOnLine(conditions: DemoConditions): boolean {
+  return (
+    conditions.mains &&
+    conditions.inputVoltageRatio >= LOW_TRANSFER_RATIO &&
+    conditions.inputVoltageRatio <= HIGH_TRANSFER_RATIO
+  );
+}
+
+function regulationFactor(inputVoltageRatio: number): number {
+  if (inputVoltageRatio < BOOST_BELOW_RATIO) {
+    return BOOST_FACTOR;
+  }
+  return inputVoltageRatio > TRIM_ABOVE_RATIO ? TRIM_FACTOR : 1;
+}
+
+function fullRuntimeSeconds(loadPct: number): number {
+  return HALF_LOAD_RUNTIME_SECONDS * (50 / Math.max(loadPct, 5)) ** PEUKERT_EXPONENT;
+}
+
+/** mulberry32: small, fast and good enough for measurement jitter. */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
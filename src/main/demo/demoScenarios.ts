@@ -0,0 +1,74 @@
+import type { DemoScenarioId } from '../../shared/demo/constants';
+
+/**
+ * From `atSeconds` on, the given conditions hold until a later phase changes
+ * them. Omitted fields keep the previous phase's value.
+ */
+export type DemoScenarioPhase = {
+  atSeconds: number;
+  /** Whether the utility supplies power at all. */
+  mains?: boolean;
+  /** Input voltage as a fraction of nominal while mains is present. */
+  inputVoltageRatio?: number;
+  loadPct?: number;
+};
+
+export type DemoScenario = {
+  /** Sorted by `atSeconds`; the first phase must start at 0. */
+  phases: DemoScenarioPhase[];
+  /** Restart the phases after this many seconds; the battery state carries over. */
+  repeatEverySeconds?: number;
+  initialChargePct: number;
+};
+
+export const DEMO_SCENARIOS: Record<DemoScenarioId, DemoScenario> = {
+  // About ten minutes of runtime at this load, so LB and the shutdown policy
+  // are reached without a long wait at moderate speeds.
+  mainsFailure: {
+    initialChargePct: 100,
+    phases: [
+      { atSeconds: 0, mains: true, inputVoltageRatio: 1, loadPct: 45 },
+      { atSeconds: 60, mains: false },
+    ],
+  },
+  flappingInput: {
+    initialChargePct: 100,
+    repeatEverySeconds: 120,
+    phases: [
+      { atSeconds: 0, mains: true, inputVoltageRatio: 1, loadPct: 30 },
+      { atSeconds: 30, mains: false },
+      { atSeconds: 38, mains: true },
+      { atSeconds: 50, mains: false },
+      { atSeconds: 53, mains: true },
+      { atSeconds: 70, mains: false },
+      { atSeconds: 95, mains: true },
+    ],
+  },
+  brownout: {
+    initialChargePct: 100,
+    repeatEverySeconds: 300,
+    phases: [
+      { atSeconds: 0, mains: true, inputVoltageRatio: 1, loadPct: 40 },
+      { atSeconds: 45, inputVoltageRatio: 0.9 },
+      { atSeconds: 90, inputVoltageRatio: 0.84 },
+      { atSeconds: 150, inputVoltageRatio: 0.76 },
+      { atSeconds: 200, inputVoltageRatio: 0.88 },
+      { atSeconds: 240, inputVoltageRatio: 1.02 },
+    ],
+  },
+  overload: {
+    initialChargePct: 100,
+    repeatEverySeconds: 200,
+    phases: [
+      { atSeconds: 0, mains: true, inputVoltageRatio: 1, loadPct: 50 },
+      { atSeconds: 40, loadPct: 85 },
+      { atSeconds: 80, loadPct: 108 },
+      { atSeconds: 110, mains: false },
+      { atSeconds: 130, mains: true, loadPct: 60 },
+    ],
+  },
+  steady: {
+    initialChargePct: 100,
+    phases: [{ atSeconds: 0, mains: true, inputVoltageRatio: 1, loadPct: 35 }],
+  },
+};
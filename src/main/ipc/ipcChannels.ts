@@ -1,15 +1,31 @@
 export {
   IPC_CHANNELS,
   IPC_EVENTS,
+  type BatteryHealthReport,
+  type BatteryHealthTrendPoint,
+  type BatteryReplaceReason,
   type ConnectionState,
+  type EnergyReport,
+  type EnergyReportQuery,
+  type EnergyTotals,
   type LocalDriverLaunchIssue,
   type LocalDriverLaunchIssueCode,
   type MainToRendererEventPayloads,
+  type NutInstantCommand,
   type NutRetryLocalDriverLaunchResult,
+  type NutRunCommandPayload,
+  type NutRunCommandResult,
+  type NutRunCommandStatus,
+  type NutSetVariablePayload,
+  type NutSetVariableResult,
+  type NutWritableVariable,
+  type NutWritableVariableKind,
   type NutSetupChooseFolderResult,
   type NutSetupListComPortsResult,
   type NutSetupListSerialDriversPayload,
   type NutSetupListSerialDriversResult,
+  type NutSetupPrepareDemoPayload,
+  type NutSetupPrepareDemoResult,
   type NutSetupPrepareLocalDriverErrorCode,
   type NutSetupPrepareLocalDriverPayload,
   type NutSetupPrepareLocalDriverResult,
@@ -21,15 +37,35 @@ export {
   type NutSetupValidateFolderPayload,
   type NutSetupValidateFolderResult,
   type NutStateSnapshot,
+  type PowerEvent,
+  type PowerEventKind,
+  type PowerEventPage,
+  type PowerEventQuery,
+  type PowerEventSummary,
   type QueryRangePayload,
   type RendererInvokeChannel,
   type RendererInvokeMap,
+  type ShutdownPolicyBacktestPayload,
+  type ShutdownPolicyBacktestResult,
   type ShutdownPolicyDecisionLogEntry,
+  type ShutdownPolicyDecisionLogPage,
+  type ShutdownPolicyDecisionLogQuery,
+  type ShutdownPolicyDryRunHooksPayload,
+  type ShutdownPolicyExportPayload,
+  type ShutdownPolicyExportResult,
+  type ShutdownPolicyImportResult,
+  type ShutdownPolicyOutageSimulationResult,
+  type ShutdownPolicySimulateOutagePayload,
   type SystemOpenExternalPayload,
   type TelemetryDataPoint,
+  type TelemetryExportFormat,
+  type TelemetryExportPayload,
+  type TelemetryExportResult,
   type TelemetryMinMaxRangePayload,
   type TelemetryRangeLimits,
   type TelemetryValues,
+  type UpsDeviceSummary,
+  type UpsSelectorPayload,
   type WizardCompletePayload,
   type WizardTestConnectionPayload,
   type WizardTestConnectionResult,
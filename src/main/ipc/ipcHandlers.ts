@@ -1,20 +1,39 @@
+import fs from 'node:fs/promises';
 import { ipcMain, nativeTheme, BrowserWindow, dialog, shell } from 'electron';
 import type { RuntimeConfigCoordinator } from '../bootstrap/runtimeConfigCoordinator';
 import type { ConfigStore } from '../config/configStore';
+import type { DecisionLogRepository } from '../db/decisionLogRepository';
+import type { PowerEventRepository } from '../db/powerEventRepository';
 import type {
-  QueryRangePayload,
-  TelemetryMinMaxRangePayload,
+  TelemetryExportPayload,
   TelemetryRepository,
 } from '../db/telemetryRepository';
-import { NutClient } from '../nut/nutClient';
+import { NutClient, NutTlsError } from '../nut/nutClient';
 import type { NutPollingService } from '../nut/nutPollingService';
+import type { UpsSessionRegistry } from '../nut/upsSessionRegistry';
 import type { WizardProvisioningService } from '../nut/wizardProvisioningService';
-import type { BatterySafetyService } from '../system/batterySafetyService';
+import { runShutdownPolicyBacktest } from '../shutdown/ShutdownPolicyBacktester';
 import {
-  TELEMETRY_COLUMNS,
-  type TelemetryColumn,
-} from '../nut/nutValueMapper';
+  parseShutdownPolicyFile,
+  serializeShutdownPolicyFile,
+  ShutdownPolicyFileError,
+} from '../shutdown/ShutdownPolicyFile';
+import { simulateShutdownPolicyOutage } from '../shutdown/ShutdownPolicyOutageSimulator';
+import type { BatteryHealthService } from '../system/batteryHealthService';
+import type { BatterySafetyService } from '../system/batterySafetyService';
+import type { DemoUpsService } from '../system/demoUpsService';
+import type { EnergyService } from '../system/energyService';
 import type { CriticalAlertWindow } from '../system/criticalAlertWindow';
+import {
+  MAX_SHUTDOWN_POLICY_FILE_BYTES,
+  SHUTDOWN_POLICY_FILE_EXTENSION,
+} from '../../shared/shutdownPolicy/constants';
+import type {
+  ShutdownPolicyConfig,
+  ShutdownPolicyOutageScenario,
+} from '../../shared/shutdownPolicy/types';
+import { TELEMETRY_EXPORT_FILE_EXTENSIONS } from '../../shared/telemetry/constants';
+import { PRIMARY_UPS_ID } from '../../shared/ups/upsTargets';
 import {
   listComPorts,
   listSerialDrivers,
@@ -32,6 +51,13 @@ import {
   normalizeNutSetupValidatePayload,
   normalizeSystemOpenExternalPayload,
 } from './normalizers/nutSetupNormalizers';
+import {
+  normalizeDecisionLogQueryPayload,
+  normalizeQueryRangePayload,
+  normalizeTelemetryExportPayload,
+  normalizeTelemetryMinMaxRangePayload,
+  normalizeUpsSelectorPayload,
+} from './normalizers/telemetryNormalizers';
 import {
   buildTechnicalDetails,
   classifySerialDriverFailure,
@@ -43,14 +69,25 @@ import {
 import {
   IPC_CHANNELS,
   IPC_EVENTS,
+  type NutSetupPrepareDemoPayload,
+  type NutSetupPrepareDemoResult,
   type NutSetupPrepareLocalDriverResult,
+  type ShutdownPolicyImportResult,
   type WizardTestConnectionPayload,
   type WizardTestConnectionResult,
   type WizardCompletePayload,
 } from './ipcChannels';
 import {
-  queryRangePayloadSchema,
-  telemetryMinMaxRangePayloadSchema,
+  nutGetWritableVariablePayloadSchema,
+  nutRunCommandPayloadSchema,
+  nutSetupPrepareDemoPayloadSchema,
+  energyReportQuerySchema,
+  nutSetVariablePayloadSchema,
+  powerEventQuerySchema,
+  shutdownPolicyBacktestPayloadSchema,
+  shutdownPolicySimulateOutagePayloadSchema,
+  shutdownPolicyDryRunHooksPayloadSchema,
+  shutdownPolicyExportPayloadSchema,
   wizardCompletePayloadSchema,
   wizardTestConnectionPayloadSchema,
 } from '../../shared/ipc/schemas';
@@ -61,11 +98,17 @@ let isRegistered = false;
 export type IpcHandlerDependencies = {
   configStore: ConfigStore;
   telemetryRepository: TelemetryRepository;
+  decisionLogRepository: DecisionLogRepository;
+  powerEventRepository: PowerEventRepository;
   nutPollingService: NutPollingService;
+  upsSessionRegistry: UpsSessionRegistry;
   wizardProvisioningService: WizardProvisioningService;
   runtimeConfigCoordinator: RuntimeConfigCoordinator;
   criticalAlertWindow: CriticalAlertWindow;
   batterySafetyService: BatterySafetyService;
+  batteryHealthService: BatteryHealthService;
+  energyService: EnergyService;
+  demoUpsService: DemoUpsService;
 };
 
 export function registerIpcHandlers(dependencies: IpcHandlerDependencies): void {
@@ -97,7 +140,10 @@ export function registerIpcHandlers(dependencies: IpcHandlerDependencies): void
         updatedConfig,
         { runRetention: true },
       );
-      return updatedConfig;
+      return {
+        config: updatedConfig,
+        listenerErrors: dependencies.runtimeConfigCoordinator.getListenerErrors(),
+      };
     },
   );
 
@@ -113,16 +159,117 @@ export function registerIpcHandlers(dependencies: IpcHandlerDependencies): void
     });
   });
 
-  ipcMain.handle(IPC_CHANNELS.shutdownPolicyGetDecisionLog, async () =>
-    dependencies.batterySafetyService.getDecisionLog(),
+  ipcMain.handle(
+    IPC_CHANNELS.shutdownPolicyGetDecisionLog,
+    async (_event, payload: unknown) =>
+      dependencies.decisionLogRepository.query(
+        normalizeDecisionLogQueryPayload(payload),
+      ),
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.powerEventsQuery,
+    async (_event, payload: unknown) =>
+      dependencies.powerEventRepository.query(
+        payload === undefined || payload === null
+          ? {}
+          : powerEventQuerySchema.parse(payload),
+      ),
+  );
+
+  ipcMain.handle(IPC_CHANNELS.batteryHealthGet, async (_event, payload: unknown) =>
+    dependencies.batteryHealthService.getReport(
+      normalizeUpsSelectorPayload(payload) ?? PRIMARY_UPS_ID,
+    ),
+  );
+
+  ipcMain.handle(IPC_CHANNELS.energyGetReport, async (_event, payload: unknown) =>
+    dependencies.energyService.getReport(energyReportQuerySchema.parse(payload)),
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.shutdownPolicyDryRunHooks,
+    async (_event, payload: unknown) => {
+      const { hooks } = shutdownPolicyDryRunHooksPayloadSchema.parse(payload);
+      return dependencies.batterySafetyService.dryRunPreShutdownHooks(hooks);
+    },
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.shutdownPolicyBacktest,
+    async (_event, payload: unknown) => {
+      const { policy, ...range } = shutdownPolicyBacktestPayloadSchema.parse(payload);
+      // Rules on battery health and estimated runtime read the current report.
+      const batteryHealth = await dependencies.batteryHealthService.getReport(
+        range.upsId ?? PRIMARY_UPS_ID,
+      );
+      return runShutdownPolicyBacktest(
+        policy as ShutdownPolicyConfig,
+        dependencies.telemetryRepository.iterateRawRange(range),
+        range,
+        batteryHealth,
+      );
+    },
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.shutdownPolicySimulateOutage,
+    async (_event, payload: unknown) => {
+      const { policy, scenario } = shutdownPolicySimulateOutagePayloadSchema.parse(payload);
+      // Estimated runtime comes from the discharges learned for the primary UPS,
+      // as it does for the live policy.
+      const batteryHealth = scenario.runtimeSource === 'estimated'
+        ? await dependencies.batteryHealthService.getReport(PRIMARY_UPS_ID)
+        : null;
+      return simulateShutdownPolicyOutage(
+        policy as ShutdownPolicyConfig,
+        scenario as ShutdownPolicyOutageScenario,
+        batteryHealth,
+      );
+    },
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.shutdownPolicyExport,
+    async (event, payload: unknown) => {
+      const { policy, name } = shutdownPolicyExportPayloadSchema.parse(payload);
+      const ownerWindow = BrowserWindow.fromWebContents(event.sender) ?? undefined;
+      const result = await dialog.showSaveDialog(ownerWindow, {
+        title: t('settings.policyExportDialogTitle', {
+          defaultValue: 'Export shutdown policy',
+        }),
+        defaultPath: `shutdown-policy.${SHUTDOWN_POLICY_FILE_EXTENSION}`,
+        filters: [{ name: 'JSON', extensions: [SHUTDOWN_POLICY_FILE_EXTENSION] }],
+      });
+
+      if (result.canceled || !result.filePath) {
+        return { cancelled: true };
+      }
+
+      await fs.writeFile(
+        result.filePath,
+        serializeShutdownPolicyFile(policy as ShutdownPolicyConfig, { name }),
+        'utf8',
+      );
+      return { cancelled: false, filePath: result.filePath };
+    },
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.shutdownPolicyImport,
+    async (event) => handleShutdownPolicyImport(
+      BrowserWindow.fromWebContents(event.sender) ?? undefined,
+    ),
   );
 
   ipcMain.handle(IPC_CHANNELS.telemetryGetAvailableColumns, async () =>
     dependencies.telemetryRepository.getAvailableColumns(),
   );
 
-  ipcMain.handle(IPC_CHANNELS.telemetryGetLatest, async () =>
-    dependencies.telemetryRepository.getLatestTelemetryPoint(),
+  ipcMain.handle(IPC_CHANNELS.telemetryGetLatest, async (_event, payload: unknown) =>
+    dependencies.telemetryRepository.getLatestTelemetryPoint(
+      normalizeUpsSelectorPayload(payload),
+    ),
   );
 
   ipcMain.handle(
@@ -141,18 +288,81 @@ export function registerIpcHandlers(dependencies: IpcHandlerDependencies): void
       ),
   );
 
-  ipcMain.handle(IPC_CHANNELS.nutGetState, async () => ({
-    state: dependencies.nutPollingService.getState(),
-    staticData: dependencies.nutPollingService.getStaticSnapshot(),
-    dynamicData: dependencies.nutPollingService.getDynamicSnapshot(),
-    localDriverLaunchIssue:
-      dependencies.nutPollingService.getLocalDriverLaunchIssue(),
-  }));
+  ipcMain.handle(
+    IPC_CHANNELS.telemetryExport,
+    async (event, payload: unknown) => {
+      const request = normalizeTelemetryExportPayload(payload);
+      const ownerWindow = BrowserWindow.fromWebContents(event.sender) ?? undefined;
+      const extension = TELEMETRY_EXPORT_FILE_EXTENSIONS[request.format];
+      const result = await dialog.showSaveDialog(ownerWindow, {
+        title: t('telemetry.exportDialogTitle', {
+          defaultValue: 'Export telemetry',
+        }),
+        defaultPath: buildTelemetryExportFileName(request),
+        filters: [{ name: request.format.toUpperCase(), extensions: [extension] }],
+      });
+
+      if (result.canceled || !result.filePath) {
+        return { cancelled: true };
+      }
+
+      const summary = await dependencies.telemetryRepository.exportRange(
+        request,
+        result.filePath,
+        (percentage) => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send(IPC_EVENTS.telemetryExportProgress, { percentage });
+          }
+        },
+      );
+
+      return { cancelled: false, filePath: result.filePath, ...summary };
+    },
+  );
+
+  ipcMain.handle(IPC_CHANNELS.nutGetState, async (_event, payload: unknown) =>
+    dependencies.upsSessionRegistry
+      .get(normalizeUpsSelectorPayload(payload))
+      .getStateSnapshot(),
+  );
+
+  ipcMain.handle(IPC_CHANNELS.nutListDevices, async () =>
+    dependencies.upsSessionRegistry.listDevices(),
+  );
 
   ipcMain.handle(IPC_CHANNELS.nutRetryLocalDriverLaunch, async () =>
     dependencies.nutPollingService.retryLocalDriverLaunchAfterIssue(),
   );
 
+  ipcMain.handle(IPC_CHANNELS.nutListCommands, async (_event, payload: unknown) =>
+    dependencies.upsSessionRegistry
+      .get(normalizeUpsSelectorPayload(payload))
+      .listInstantCommands(),
+  );
+
+  ipcMain.handle(IPC_CHANNELS.nutRunCommand, async (_event, payload: unknown) => {
+    const normalizedPayload = nutRunCommandPayloadSchema.parse(payload);
+    return dependencies.upsSessionRegistry.get(normalizedPayload.upsId).runInstantCommand(
+      normalizedPayload.command,
+      normalizedPayload.value,
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.nutGetWritableVariable, async (_event, payload: unknown) => {
+    const normalizedPayload = nutGetWritableVariablePayloadSchema.parse(payload);
+    return dependencies.upsSessionRegistry.get(normalizedPayload.upsId).getWritableVariable(
+      normalizedPayload.name,
+    );
+  });
+
+  ipcMain.handle(IPC_CHANNELS.nutSetVariable, async (_event, payload: unknown) => {
+    const normalizedPayload = nutSetVariablePayloadSchema.parse(payload);
+    return dependencies.upsSessionRegistry.get(normalizedPayload.upsId).setVariable(
+      normalizedPayload.name,
+      normalizedPayload.value,
+    );
+  });
+
   ipcMain.handle(
     IPC_CHANNELS.wizardTestConnection,
     async (_event, payload: unknown) =>
@@ -336,9 +546,50 @@ export function registerIpcHandlers(dependencies: IpcHandlerDependencies): void
     },
   );
 
+  ipcMain.handle(
+    IPC_CHANNELS.nutSetupPrepareDemo,
+    async (_event, payload: unknown) =>
+      handleNutSetupPrepareDemo(
+        nutSetupPrepareDemoPayloadSchema.parse(payload),
+        dependencies,
+      ),
+  );
+
   isRegistered = true;
 }
 
+// ---------------------------------------------------------------------------
+// Wizard: demo UPS
+// ---------------------------------------------------------------------------
+
+async function handleNutSetupPrepareDemo(
+  payload: NutSetupPrepareDemoPayload,
+  deps: IpcHandlerDependencies,
+): Promise<NutSetupPrepareDemoResult> {
+  // Persisted right away so the simulator survives a restart mid-wizard.
+  const updatedConfig = deps.configStore.update({
+    demo: {
+      enabled: true,
+      scenario: payload.scenario,
+      speed: payload.speed,
+    },
+  });
+  await deps.demoUpsService.handleConfigUpdated(updatedConfig);
+
+  const port = deps.demoUpsService.getListeningPort();
+  if (port === null) {
+    return {
+      success: false,
+      error: t('wizard.demoStartFailed', {
+        defaultValue: 'The simulated UPS could not listen on port {{port}}. Another program may be using it.',
+        port: updatedConfig.demo.port,
+      }),
+    };
+  }
+
+  return { success: true, port };
+}
+
 // ---------------------------------------------------------------------------
 // Wizard: test-connection
 // ---------------------------------------------------------------------------
@@ -356,6 +607,7 @@ async function handleWizardTestConnection(
       password: payload.password,
       upsName: payload.upsName,
       timeoutMs: 5000,
+      tls: payload.tls,
     });
 
     const variables = await testClient.listVariables(payload.upsName);
@@ -365,8 +617,23 @@ async function handleWizardTestConnection(
       variables['ups.mfr'] ||
       undefined;
 
-    return { success: true, upsDescription: description, variables };
+    return {
+      success: true,
+      upsDescription: description,
+      variables,
+      encrypted: testClient.isEncrypted(),
+      tlsFingerprint: testClient.getPeerFingerprint() ?? undefined,
+    };
   } catch (error) {
+    if (error instanceof NutTlsError) {
+      return {
+        success: false,
+        error: error.message,
+        tlsFailure: error.reason,
+        tlsFingerprint: error.peerFingerprint,
+      };
+    }
+
     const message =
       error instanceof Error
         ? error.message
@@ -431,8 +698,10 @@ async function handleWizardComplete(
       mapping: payload.mapping,
       launchLocalComponents: payload.launchLocalComponents,
       localNutFolderPath: payload.localNutFolderPath,
+      tls: payload.tls,
     },
     battery: usbHidBatteryDefaults,
+    demo: { enabled: payload.setupMode === 'demo' },
     wizard: { completed: true },
     line: payload.line,
   });
@@ -455,33 +724,54 @@ function normalizeWizardCompletePayload(
 }
 
 // ---------------------------------------------------------------------------
-// Telemetry query helpers
+// Shutdown policy import
 // ---------------------------------------------------------------------------
 
-function normalizeQueryRangePayload(payload: unknown): QueryRangePayload {
-  const candidate = queryRangePayloadSchema.parse(payload);
-  return {
-    startIso: candidate.startIso,
-    endIso: candidate.endIso,
-    maxPoints: candidate.maxPoints,
-    columns: candidate.columns?.filter(isTelemetryColumn),
-  };
-}
+async function handleShutdownPolicyImport(
+  ownerWindow: BrowserWindow | undefined,
+): Promise<ShutdownPolicyImportResult> {
+  const result = await dialog.showOpenDialog(ownerWindow, {
+    title: t('settings.policyImportDialogTitle', {
+      defaultValue: 'Import shutdown policy',
+    }),
+    filters: [{ name: 'JSON', extensions: [SHUTDOWN_POLICY_FILE_EXTENSION] }],
+    properties: ['openFile'],
+  });
 
-function normalizeTelemetryMinMaxRangePayload(
-  payload: unknown,
-): TelemetryMinMaxRangePayload {
-  const candidate = telemetryMinMaxRangePayloadSchema.parse(payload);
-  return {
-    startIso: candidate.startIso,
-    endIso: candidate.endIso,
-    columns: candidate.columns?.filter(isTelemetryColumn),
-  };
+  if (result.canceled || result.filePaths.length === 0) {
+    return { cancelled: true };
+  }
+
+  const filePath = result.filePaths[0];
+  try {
+    const { size } = await fs.stat(filePath);
+    if (size > MAX_SHUTDOWN_POLICY_FILE_BYTES) {
+      throw new ShutdownPolicyFileError('The file is too large to be a shutdown policy.');
+    }
+
+    const parsed = parseShutdownPolicyFile(await fs.readFile(filePath, 'utf8'));
+    return {
+      cancelled: false,
+      filePath,
+      policy: parsed.policy,
+      ...(parsed.name ? { name: parsed.name } : {}),
+      migrated: parsed.migratedFrom !== undefined,
+    };
+  } catch (error) {
+    return {
+      cancelled: false,
+      filePath,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
 }
 
-function isTelemetryColumn(value: unknown): value is TelemetryColumn {
-  return (
-    typeof value === 'string' &&
-    TELEMETRY_COLUMNS.includes(value as TelemetryColumn)
-  );
+// ---------------------------------------------------------------------------
+// Telemetry export helpers
+// ---------------------------------------------------------------------------
+
+function buildTelemetryExportFileName(payload: TelemetryExportPayload): string {
+  const upsId = payload.upsId ?? PRIMARY_UPS_ID;
+  const range = `${payload.startIso.slice(0, 10)}_${payload.endIso.slice(0, 10)}`;
+  return `ups-telemetry-${upsId}-${range}.${TELEMETRY_EXPORT_FILE_EXTENSIONS[payload.format]}`;
 }
@@ -0,0 +1,76 @@
+import type {
+  QueryRangePayload,
+  TelemetryExportPayload,
+  TelemetryMinMaxRangePayload,
+} from '../../db/telemetryRepository';
+import type { ShutdownPolicyDecisionLogQuery } from '../../db/decisionLogRepository';
+import {
+  TELEMETRY_COLUMNS,
+  type TelemetryColumn,
+} from '../../nut/nutValueMapper';
+import {
+  queryRangePayloadSchema,
+  shutdownPolicyDecisionLogQuerySchema,
+  telemetryExportPayloadSchema,
+  telemetryMinMaxRangePayloadSchema,
+  upsSelectorPayloadSchema,
+} from '../../../shared/ipc/schemas';
+
+export function normalizeQueryRangePayload(payload: unknown): QueryRangePayload {
+  const candidate = queryRangePayloadSchema.parse(payload);
+  return {
+    upsId: candidate.upsId,
+    startIso: candidate.startIso,
+    endIso: candidate.endIso,
+    maxPoints: candidate.maxPoints,
+    columns: candidate.columns?.filter(isTelemetryColumn),
+  };
+}
+
+export function normalizeTelemetryMinMaxRangePayload(
+  payload: unknown,
+): TelemetryMinMaxRangePayload {
+  const candidate = telemetryMinMaxRangePayloadSchema.parse(payload);
+  return {
+    upsId: candidate.upsId,
+    startIso: candidate.startIso,
+    endIso: candidate.endIso,
+    columns: candidate.columns?.filter(isTelemetryColumn),
+  };
+}
+
+export function normalizeTelemetryExportPayload(payload: unknown): TelemetryExportPayload {
+  const candidate = telemetryExportPayloadSchema.parse(payload);
+  return {
+    upsId: candidate.upsId,
+    startIso: candidate.startIso,
+    endIso: candidate.endIso,
+    columns: candidate.columns?.filter(isTelemetryColumn),
+    format: candidate.format,
+  };
+}
+
+export function normalizeUpsSelectorPayload(payload: unknown): string | undefined {
+  if (payload === undefined || payload === null) {
+    return undefined;
+  }
+
+  return upsSelectorPayloadSchema.parse(payload).upsId;
+}
+
+export function normalizeDecisionLogQueryPayload(
+  payload: unknown,
+): ShutdownPolicyDecisionLogQuery {
+  if (payload === undefined || payload === null) {
+    return {};
+  }
+
+  return shutdownPolicyDecisionLogQuerySchema.parse(payload);
+}
+
+function isTelemetryColumn(value: unknown): value is TelemetryColumn {
+  return (
+    typeof value === 'string' &&
+    TELEMETRY_COLUMNS.includes(value as TelemetryColumn)
+  );
+}
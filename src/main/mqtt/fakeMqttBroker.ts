@@ -0,0 +1,212 @@
+import net from 'node:net';
+import {
+  decodePublish,
+  encodePacket,
+  encodePublish,
+  MQTT_PACKET_TYPE,
+  MqttPacketReader,
+  type MqttPacket,
+  type MqttWill,
+} from './mqttPackets';
+
+export type FakeMqttConnect = {
+  clientId: string;
+  keepAliveSeconds: number;
+  username?: string;
+  password?: string;
+  will?: MqttWill;
+};
+
+export type FakeMqttMessage = {
+  topic: string;
+  payload: string;
+  retain: boolean;
+};
+
+export type FakeMqttBroker = {
+  port: number;
+  connects: FakeMqttConnect[];
+  /** Publishes from clients plus last wills sent on their behalf, in arrival order. */
+  messages: FakeMqttMessage[];
+  subscriptions: string[];
+  publish: (topic: string, payload: string) => void;
+  /** Writes bytes to every client as they are, for malformed packets. */
+  sendRaw: (bytes: Buffer) => void;
+  /** Drops every client connection as a network failure would, so wills fire. */
+  dropClients: () => void;
+  close: () => Promise<void>;
+};
+
+type FakeMqttBrokerOptions = {
+  connackCode?: number;
+};
+
+type FakeMqttSession = {
+  socket: net.Socket;
+  will?: MqttWill;
+  filters: string[];
+  disconnected: boolean;
+};
+
+/** In-process MQTT 3.1.1 broker for tests; QoS 0 only, no retained replay. */
+export async function startFakeMqttBroker(
+  options: FakeMqttBrokerOptions = {},
+): Promise<FakeMqttBroker> {
+  const connects: FakeMqttConnect[] = [];
+  const messages: FakeMqttMessage[] = [];
+  const subscriptions: string[] = [];
+  const sessions = new Set<FakeMqttSession>();
+
+  const route = (topic: string, payload: Buffer) => {
+    for (const session of sessions) {
+      if (session.filters.some((filter) => topicMatches(filter, topic))) {
+        session.socket.write(encodePublish(topic, payload, false));
+      }
+    }
+  };
+
+  const handlePacket = (session: FakeMqttSession, packet: MqttPacket) => {
+    switch (packet.type) {
+      case MQTT_PACKET_TYPE.connect: {
+        const connect = decodeConnect(packet.body);
+        connects.push(connect);
+        session.will = connect.will;
+        session.socket.write(
+          encodePacket(MQTT_PACKET_TYPE.connack, 0, [Buffer.from([0, options.connackCode ?? 0])]),
+        );
+        if (options.connackCode) {
+          session.socket.end();
+        }
+        return;
+      }
+      case MQTT_PACKET_TYPE.publish: {
+        const message = decodePublish(packet);
+        messages.push({
+          topic: message.topic,
+          payload: message.payload.toString('utf8'),
+          retain: message.retain,
+        });
+        route(message.topic, message.payload);
+        return;
+      }
+      case MQTT_PACKET_TYPE.subscribe: {
+        const filterLength = packet.body.readUInt16BE(2);
+        const filter = packet.body.toString('utf8', 4, 4 + filterLength);
+        subscriptions.push(filter);
+        session.filters.push(filter);
+        session.socket.write(
+          encodePacket(MQTT_PACKET_TYPE.suback, 0, [packet.body.subarray(0, 2), Buffer.from([0])]),
+        );
+        return;
+      }
+      case MQTT_PACKET_TYPE.pingreq:
+        session.socket.write(encodePacket(MQTT_PACKET_TYPE.pingresp, 0, []));
+        return;
+      case MQTT_PACKET_TYPE.disconnect:
+        session.disconnected = true;
+        session.socket.end();
+        return;
+      default:
+        return;
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    const session: FakeMqttSession = { socket, filters: [], disconnected: false };
+    const reader = new MqttPacketReader();
+    sessions.add(session);
+
+    socket.on('data', (chunk: Buffer) => {
+      for (const packet of reader.push(chunk)) {
+        handlePacket(session, packet);
+      }
+    });
+    socket.on('error', () => undefined);
+    socket.on('close', () => {
+      sessions.delete(session);
+      if (!session.disconnected && session.will) {
+        const payload = Buffer.from(session.will.payload);
+        messages.push({
+          topic: session.will.topic,
+          payload: session.will.payload,
+          retain: session.will.retain,
+        });
+        route(session.will.topic, payload);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address() as net.AddressInfo;
+
+  return {
+    port: address.port,
+    connects,
+    messages,
+    subscriptions,
+    publish: (topic, payload) => route(topic, Buffer.from(payload)),
+    sendRaw: (bytes) => {
+      for (const session of sessions) {
+        session.socket.write(bytes);
+      }
+    },
+    dropClients: () => {
+      for (const session of sessions) {
+        session.socket.destroy();
+      }
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const session of sessions) {
+          session.disconnected = true;
+          session.socket.destroy();
+        }
+        server.close(() => resolve());
+      }),
+  };
+}
+
+function decodeConnect(body: Buffer): FakeMqttConnect {
+  let offset = 0;
+  const readBinary = (): Buffer => {
+    const length = body.readUInt16BE(offset);
+    const value = body.subarray(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+    return value;
+  };
+
+  readBinary(); // protocol name
+  const flags = body[offset + 1];
+  offset += 2;
+  const keepAliveSeconds = body.readUInt16BE(offset);
+  offset += 2;
+
+  const connect: FakeMqttConnect = {
+    clientId: readBinary().toString('utf8'),
+    keepAliveSeconds,
+  };
+  if (flags & 0x04) {
+    connect.will = {
+      topic: readBinary().toString('utf8'),
+      payload: readBinary().toString('utf8'),
+      retain: (flags & 0x20) !== 0,
+    };
+  }
+  if (flags & 0x80) {
+    connect.username = readBinary().toString('utf8');
+  }
+  if (flags & 0x40) {
+    connect.password = readBinary().toString('utf8');
+  }
+  return connect;
+}
+
+function topicMatches(filter: string, topic: string): boolean {
+  if (filter === '#') {
+    return true;
+  }
+  if (filter.endsWith('/#')) {
+    return topic.startsWith(filter.slice(0, -1));
+  }
+  return filter === topic;
+}
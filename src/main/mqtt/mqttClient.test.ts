@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { startFakeMqttBroker, type FakeMqttBroker } from './fakeMqttBroker';
+import { MqttClient, MqttProtocolError } from './mqttClient';
+import { encodePacket, MQTT_PACKET_TYPE } from './mqttPackets';
+
+let broker: FakeMqttBroker | null = null;
+let client: MqttClient | null = null;
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt += 1) {
+    if (predicate()) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error('Condition was not met in time');
+}
+
+afterEach(async () => {
+  await client?.disconnect();
+  await broker?.close();
+  client = null;
+  broker = null;
+});
+
+describe('MqttClient', () => {
+  it('connects with credentials and a retained last will', async () => {
+    broker = await startFakeMqttBroker();
+    client = new MqttClient();
+
+    await client.connect({
+      host: '127.0.0.1',
+      port: broker.port,
+      clientId: 'test-client',
+      username: 'user',
+      password: 'secret',
+      keepAliveSeconds: 15,
+      will: { topic: 'easyups/availability', payload: 'offline', retain: true },
+      timeoutMs: 1000,
+    });
+
+    expect(client.isConnected()).toBe(true);
+    expect(broker.connects).toEqual([
+      {
+        clientId: 'test-client',
+        keepAliveSeconds: 15,
+        username: 'user',
+        password: 'secret',
+        will: { topic: 'easyups/availability', payload: 'offline', retain: true },
+      },
+    ]);
+  });
+
+  it('publishes, subscribes and receives messages', async () => {
+    broker = await startFakeMqttBroker();
+    client = new MqttClient();
+    await client.connect({ host: '127.0.0.1', port: broker.port, clientId: 'c', timeoutMs: 1000 });
+
+    const received: string[] = [];
+    client.onMessage((topic, payload) => received.push(`${topic}=${payload.toString('utf8')}`));
+    await client.subscribe('easyups/command');
+    client.publish('easyups/battery_charge_pct', '87', { retain: true });
+    broker.publish('easyups/command', 'cancel_countdown');
+
+    await waitFor(() => broker!.messages.length === 1 && received.length === 1);
+    expect(broker.subscriptions).toEqual(['easyups/command']);
+    expect(broker.messages).toEqual([
+      { topic: 'easyups/battery_charge_pct', payload: '87', retain: true },
+    ]);
+    expect(received).toEqual(['easyups/command=cancel_countdown']);
+  });
+
+  it('reports a refused connection with the broker reason', async () => {
+    broker = await startFakeMqttBroker({ connackCode: 4 });
+    client = new MqttClient();
+
+    const attempt = client.connect({ host: '127.0.0.1', port: broker.port, clientId: 'c', timeoutMs: 1000 });
+
+    await expect(attempt).rejects.toThrow(MqttProtocolError);
+    await expect(attempt).rejects.toThrow('bad user name or password');
+    expect(client.isConnected()).toBe(false);
+  });
+
+  it('notifies close listeners only when the connection drops unexpectedly', async () => {
+    broker = await startFakeMqttBroker();
+    client = new MqttClient();
+    const closes: Array<Error | null> = [];
+    client.onClose((error) => closes.push(error));
+
+    await client.connect({
+      host: '127.0.0.1',
+      port: broker.port,
+      clientId: 'c',
+      will: { topic: 'easyups/availability', payload: 'offline', retain: true },
+      timeoutMs: 1000,
+    });
+    broker.dropClients();
+    await waitFor(() => closes.length === 1);
+
+    expect(client.isConnected()).toBe(false);
+    expect(broker.messages).toEqual([
+      { topic: 'easyups/availability', payload: 'offline', retain: true },
+    ]);
+
+    await client.connect({ host: '127.0.0.1', port: broker.port, clientId: 'c', timeoutMs: 1000 });
+    await client.disconnect();
+    expect(closes).toHaveLength(1);
+  });
+
+  it('drops the connection when the broker sends a truncated packet', async () => {
+    broker = await startFakeMqttBroker();
+    client = new MqttClient();
+    const closes: Array<Error | null> = [];
+    client.onClose((error) => closes.push(error));
+    await client.connect({ host: '127.0.0.1', port: broker.port, clientId: 'c', timeoutMs: 1000 });
+
+    broker.sendRaw(encodePacket(MQTT_PACKET_TYPE.publish, 0, [Buffer.from([0])]));
+    await waitFor(() => closes.length === 1);
+
+    expect(closes[0]).toBeInstanceOf(MqttProtocolError);
+    expect(closes[0]?.message).toBe('Malformed MQTT PUBLISH packet');
+    expect(client.isConnected()).toBe(false);
+  });
+});
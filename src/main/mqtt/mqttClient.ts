@@ -0,0 +1,337 @@
+import { once } from 'node:events';
+import net from 'node:net';
+import {
+  decodePublish,
+  encodeConnect,
+  encodeDisconnect,
+  encodePingreq,
+  encodePuback,
+  encodePublish,
+  encodeSubscribe,
+  MQTT_PACKET_TYPE,
+  MqttPacketReader,
+  MqttProtocolError,
+  type MqttPacket,
+  type MqttWill,
+} from './mqttPackets';
+
+export { MqttProtocolError };
+
+export type MqttConnectionOptions = {
+  host: string;
+  port: number;
+  clientId: string;
+  username?: string;
+  password?: string;
+  keepAliveSeconds?: number;
+  will?: MqttWill;
+  timeoutMs?: number;
+};
+
+type MqttMessageListener = (topic: string, payload: Buffer) => void;
+type MqttCloseListener = (error: Error | null) => void;
+
+type PendingAck = {
+  resolve: (packet: MqttPacket) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+};
+
+const DEFAULT_KEEP_ALIVE_SECONDS = 30;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+const CONNACK_ERRORS: Record<number, string> = {
+  1: 'unacceptable protocol version',
+  2: 'client identifier rejected',
+  3: 'server unavailable',
+  4: 'bad user name or password',
+  5: 'not authorized',
+};
+
+/**
+ * Minimal MQTT 3.1.1 client over plain TCP. It only implements what the
+ * publisher uses, and reports an unexpected disconnect through onClose so the
+ * caller owns the reconnect policy, the same split as NutClient and
+ * NutPollingService.
+ */
+export class MqttClient {
+  private socket: net.Socket | null = null;
+  private reader = new MqttPacketReader();
+  private pendingConnack: PendingAck | null = null;
+  private readonly pendingSubacks = new Map<number, PendingAck>();
+  private readonly messageListeners = new Set<MqttMessageListener>();
+  private readonly closeListeners = new Set<MqttCloseListener>();
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+  private awaitingPingresp = false;
+  private nextPacketId = 1;
+  private timeoutMs = DEFAULT_TIMEOUT_MS;
+
+  public isConnected(): boolean {
+    return this.socket !== null && !this.socket.destroyed;
+  }
+
+  public async connect(options: MqttConnectionOptions): Promise<void> {
+    await this.disconnect();
+
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.reader = new MqttPacketReader();
+    const keepAliveSeconds = options.keepAliveSeconds ?? DEFAULT_KEEP_ALIVE_SECONDS;
+    const socket = net.createConnection({ host: options.host, port: options.port });
+
+    try {
+      await withTimeout(
+        once(socket, 'connect'),
+        this.timeoutMs,
+        `TCP connection to ${options.host}:${options.port} timed out after ${this.timeoutMs}ms`,
+      );
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this.socket = socket;
+    this.attachSocketHandlers(socket);
+
+    const connack = this.waitForConnack();
+    socket.write(
+      encodeConnect({
+        clientId: options.clientId,
+        keepAliveSeconds,
+        username: options.username,
+        password: options.password,
+        will: options.will,
+      }),
+    );
+
+    let packet: MqttPacket;
+    try {
+      packet = await connack;
+    } catch (error) {
+      this.destroySocket();
+      throw error;
+    }
+
+    const returnCode = packet.body[1];
+    if (returnCode !== 0) {
+      this.destroySocket();
+      throw new MqttProtocolError(
+        `MQTT broker refused the connection: ${CONNACK_ERRORS[returnCode] ?? `code ${returnCode}`}`,
+      );
+    }
+
+    this.startKeepAlive(keepAliveSeconds);
+  }
+
+  /** Sends a clean DISCONNECT, which tells the broker not to publish the last will. */
+  public async disconnect(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    this.socket = null;
+    this.stopKeepAlive();
+    this.failPending(new Error('MQTT connection closed'));
+
+    if (socket.destroyed) {
+      return;
+    }
+
+    socket.end(encodeDisconnect());
+    await withTimeout(once(socket, 'close'), 2000, 'MQTT socket close timed out').catch(() => {
+      socket.destroy();
+    });
+  }
+
+  public publish(topic: string, payload: string | Buffer, options: { retain?: boolean } = {}): void {
+    if (!this.socket || this.socket.destroyed) {
+      throw new Error('MQTT client is not connected');
+    }
+
+    this.socket.write(encodePublish(topic, payload, options.retain ?? false));
+  }
+
+  public async subscribe(topicFilter: string): Promise<void> {
+    const socket = this.socket;
+    if (!socket || socket.destroyed) {
+      throw new Error('MQTT client is not connected');
+    }
+
+    const packetId = this.allocatePacketId();
+    const suback = new Promise<MqttPacket>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingSubacks.delete(packetId);
+        reject(new Error(`MQTT subscription to ${topicFilter} timed out`));
+      }, this.timeoutMs);
+      this.pendingSubacks.set(packetId, { resolve, reject, timer });
+    });
+    socket.write(encodeSubscribe(packetId, topicFilter));
+
+    const packet = await suback;
+    if (packet.body[2] === 0x80) {
+      throw new MqttProtocolError(`MQTT broker rejected the subscription to ${topicFilter}`);
+    }
+  }
+
+  public onMessage(listener: MqttMessageListener): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  /** Called when the connection drops without disconnect() being called. */
+  public onClose(listener: MqttCloseListener): () => void {
+    this.closeListeners.add(listener);
+    return () => {
+      this.closeListeners.delete(listener);
+    };
+  }
+
+  private attachSocketHandlers(socket: net.Socket): void {
+    let socketError: Error | null = null;
+
+    socket.on('data', (chunk: Buffer) => {
+      // A packet that cannot be read or decoded ends the connection.
+      try {
+        for (const packet of this.reader.push(chunk)) {
+          this.handlePacket(packet);
+        }
+      } catch (error) {
+        socket.destroy(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+    socket.on('error', (error) => {
+      socketError = error;
+    });
+    socket.on('close', () => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.socket = null;
+      this.stopKeepAlive();
+      const error = socketError ?? new Error('MQTT connection closed by the broker');
+      this.failPending(error);
+      for (const listener of this.closeListeners) {
+        listener(error);
+      }
+    });
+  }
+
+  private handlePacket(packet: MqttPacket): void {
+    switch (packet.type) {
+      case MQTT_PACKET_TYPE.connack: {
+        const pending = this.pendingConnack;
+        this.pendingConnack = null;
+        if (pending) {
+          clearTimeout(pending.timer);
+          pending.resolve(packet);
+        }
+        return;
+      }
+      case MQTT_PACKET_TYPE.suback: {
+        if (packet.body.length < 3) {
+          throw new MqttProtocolError('Malformed MQTT SUBACK packet');
+        }
+        const packetId = packet.body.readUInt16BE(0);
+        const pending = this.pendingSubacks.get(packetId);
+        this.pendingSubacks.delete(packetId);
+        if (pending) {
+          clearTimeout(pending.timer);
+          pending.resolve(packet);
+        }
+        return;
+      }
+      case MQTT_PACKET_TYPE.publish: {
+        const message = decodePublish(packet);
+        if (message.qos === 1 && message.packetId !== undefined) {
+          this.socket?.write(encodePuback(message.packetId));
+        }
+        for (const listener of this.messageListeners) {
+          listener(message.topic, message.payload);
+        }
+        return;
+      }
+      case MQTT_PACKET_TYPE.pingresp:
+        this.awaitingPingresp = false;
+        return;
+      default:
+        return;
+    }
+  }
+
+  private waitForConnack(): Promise<MqttPacket> {
+    return new Promise<MqttPacket>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingConnack = null;
+        reject(new Error(`MQTT broker did not answer CONNECT within ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+      this.pendingConnack = { resolve, reject, timer };
+    });
+  }
+
+  private startKeepAlive(keepAliveSeconds: number): void {
+    this.stopKeepAlive();
+    if (keepAliveSeconds <= 0) {
+      return;
+    }
+
+    this.awaitingPingresp = false;
+    this.keepAliveTimer = setInterval(() => {
+      if (this.awaitingPingresp) {
+        this.socket?.destroy(new Error('MQTT broker stopped answering keep-alive pings'));
+        return;
+      }
+
+      this.awaitingPingresp = true;
+      this.socket?.write(encodePingreq());
+    }, keepAliveSeconds * 1000);
+  }
+
+  private stopKeepAlive(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+
+  private destroySocket(): void {
+    const socket = this.socket;
+    this.socket = null;
+    this.stopKeepAlive();
+    socket?.destroy();
+  }
+
+  private failPending(error: Error): void {
+    const pendingConnack = this.pendingConnack;
+    this.pendingConnack = null;
+    if (pendingConnack) {
+      clearTimeout(pendingConnack.timer);
+      pendingConnack.reject(error);
+    }
+
+    for (const pending of this.pendingSubacks.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pendingSubacks.clear();
+  }
+
+  private allocatePacketId(): number {
+    const packetId = this.nextPacketId;
+    this.nextPacketId = packetId >= 0xffff ? 1 : packetId + 1;
+    return packetId;
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => {
+    clearTimeout(timer);
+  });
+}
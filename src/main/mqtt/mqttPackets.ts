@@ -0,0 +1,230 @@
+/**
+ * Encoding and framing for the subset of MQTT 3.1.1 the publisher needs:
+ * CONNECT with a last will, QoS 0 publishes, QoS 0 subscriptions and
+ * keep-alive pings. Incoming QoS 1 publishes are acknowledged so brokers that
+ * upgrade a subscription still deliver commands.
+ */
+
+export const MQTT_PACKET_TYPE = {
+  connect: 1,
+  connack: 2,
+  publish: 3,
+  puback: 4,
+  subscribe: 8,
+  suback: 9,
+  pingreq: 12,
+  pingresp: 13,
+  disconnect: 14,
+} as const;
+
+const MQTT_PROTOCOL_LEVEL_3_1_1 = 4;
+const MAX_REMAINING_LENGTH = 268_435_455;
+
+export type MqttPacket = {
+  type: number;
+  flags: number;
+  body: Buffer;
+};
+
+export type MqttWill = {
+  topic: string;
+  payload: string;
+  retain: boolean;
+};
+
+export type MqttConnectPacketOptions = {
+  clientId: string;
+  keepAliveSeconds: number;
+  username?: string;
+  password?: string;
+  will?: MqttWill;
+};
+
+export type MqttPublishPacket = {
+  topic: string;
+  payload: Buffer;
+  qos: number;
+  retain: boolean;
+  packetId?: number;
+};
+
+export class MqttProtocolError extends Error { }
+
+export function encodeConnect(options: MqttConnectPacketOptions): Buffer {
+  let connectFlags = 0x02; // clean session
+  const payload = [encodeString(options.clientId)];
+
+  if (options.will) {
+    connectFlags |= 0x04;
+    if (options.will.retain) {
+      connectFlags |= 0x20;
+    }
+    payload.push(encodeString(options.will.topic), encodeBinary(Buffer.from(options.will.payload)));
+  }
+  if (options.username) {
+    connectFlags |= 0x80;
+    payload.push(encodeString(options.username));
+  }
+  if (options.password) {
+    connectFlags |= 0x40;
+    payload.push(encodeBinary(Buffer.from(options.password)));
+  }
+
+  const keepAlive = Buffer.alloc(2);
+  keepAlive.writeUInt16BE(options.keepAliveSeconds);
+
+  return encodePacket(MQTT_PACKET_TYPE.connect, 0, [
+    encodeString('MQTT'),
+    Buffer.from([MQTT_PROTOCOL_LEVEL_3_1_1, connectFlags]),
+    keepAlive,
+    ...payload,
+  ]);
+}
+
+export function encodePublish(topic: string, payload: string | Buffer, retain: boolean): Buffer {
+  return encodePacket(MQTT_PACKET_TYPE.publish, retain ? 0x01 : 0, [
+    encodeString(topic),
+    typeof payload === 'string' ? Buffer.from(payload) : payload,
+  ]);
+}
+
+export function encodePuback(packetId: number): Buffer {
+  return encodePacket(MQTT_PACKET_TYPE.puback, 0, [encodeUInt16(packetId)]);
+}
+
+export function encodeSubscribe(packetId: number, topicFilter: string): Buffer {
+  return encodePacket(MQTT_PACKET_TYPE.subscribe, 0x02, [
+    encodeUInt16(packetId),
+    encodeString(topicFilter),
+    Buffer.from([0]),
+  ]);
+}
+
+export function encodePingreq(): Buffer {
+  return encodePacket(MQTT_PACKET_TYPE.pingreq, 0, []);
+}
+
+export function encodeDisconnect(): Buffer {
+  return encodePacket(MQTT_PACKET_TYPE.disconnect, 0, []);
+}
+
+export function encodePacket(type: number, flags: number, parts: Buffer[]): Buffer {
+  const body = Buffer.concat(parts);
+  return Buffer.concat([
+    Buffer.from([(type << 4) | flags]),
+    encodeRemainingLength(body.length),
+    body,
+  ]);
+}
+
+export function decodePublish(packet: MqttPacket): MqttPublishPacket {
+  const qos = (packet.flags >> 1) & 0x03;
+  const topicLength = packet.body.length >= 2 ? packet.body.readUInt16BE(0) : -1;
+  if (topicLength < 0 || packet.body.length < 2 + topicLength + (qos > 0 ? 2 : 0)) {
+    throw new MqttProtocolError('Malformed MQTT PUBLISH packet');
+  }
+
+  const topic = packet.body.toString('utf8', 2, 2 + topicLength);
+  let offset = 2 + topicLength;
+  let packetId: number | undefined;
+  if (qos > 0) {
+    packetId = packet.body.readUInt16BE(offset);
+    offset += 2;
+  }
+
+  return {
+    topic,
+    payload: packet.body.subarray(offset),
+    qos,
+    retain: (packet.flags & 0x01) === 0x01,
+    packetId,
+  };
+}
+
+/** Splits a byte stream into packets; partial packets wait for the next chunk. */
+export class MqttPacketReader {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  public push(chunk: Buffer): MqttPacket[] {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+    const packets: MqttPacket[] = [];
+
+    for (;;) {
+      const header = readFixedHeader(this.buffer);
+      if (!header) {
+        break;
+      }
+
+      const end = header.headerLength + header.remainingLength;
+      packets.push({
+        type: this.buffer[0] >> 4,
+        flags: this.buffer[0] & 0x0f,
+        body: this.buffer.subarray(header.headerLength, end),
+      });
+      this.buffer = this.buffer.subarray(end);
+    }
+
+    return packets;
+  }
+}
+
+function readFixedHeader(
+  buffer: Buffer,
+): { headerLength: number; remainingLength: number } | null {
+  let remainingLength = 0;
+  let multiplier = 1;
+
+  for (let index = 1; index <= 4; index += 1) {
+    if (index >= buffer.length) {
+      return null;
+    }
+
+    const byte = buffer[index];
+    remainingLength += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      const headerLength = index + 1;
+      return buffer.length >= headerLength + remainingLength
+        ? { headerLength, remainingLength }
+        : null;
+    }
+    multiplier *= 128;
+  }
+
+  throw new MqttProtocolError('Malformed MQTT remaining length');
+}
+
+function encodeRemainingLength(length: number): Buffer {
+  if (length > MAX_REMAINING_LENGTH) {
+    throw new MqttProtocolError(`MQTT packet of ${length} bytes is too large`);
+  }
+
+  const bytes: number[] = [];
+  let remaining = length;
+  do {
+    let byte = remaining % 128;
+    remaining = Math.floor(remaining / 128);
+    if (remaining > 0) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (remaining > 0);
+
+  return Buffer.from(bytes);
+}
+
+function encodeString(value: string): Buffer {
+  return encodeBinary(Buffer.from(value, 'utf8'));
+}
+
+function encodeBinary(value: Buffer): Buffer {
+  if (value.length > 0xffff) {
+    throw new MqttProtocolError('MQTT strings are limited to 65535 bytes');
+  }
+  return Buffer.concat([encodeUInt16(value.length), value]);
+}
+
+function encodeUInt16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16BE(value);
+  return buffer;
+}
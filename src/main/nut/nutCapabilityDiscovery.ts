@@ -4,6 +4,7 @@ import type { NutClient } from './nutClient';
 export type NutFieldMetadata = {
   name: string;
   description?: string;
+  writable?: boolean;
 };
 
 export type NutCapabilityDiscoveryResult = {
@@ -11,6 +12,7 @@ export type NutCapabilityDiscoveryResult = {
   fieldMetadata: Map<string, NutFieldMetadata>;
   staticFields: Set<string>;
   dynamicFields: Set<string>;
+  writableFields: Set<string>;
   staticSnapshot: Record<string, string>;
   initialDynamicSnapshot: Record<string, string>;
 };
@@ -82,10 +84,14 @@ export async function discoverNutCapabilities(
     secondSnapshot,
     dynamicFields,
   );
+  const writableFields = await discoverWritableFields(client, upsName);
   const fieldMetadata = new Map<string, NutFieldMetadata>();
 
   for (const fieldName of availableFields) {
-    fieldMetadata.set(fieldName, { name: fieldName });
+    fieldMetadata.set(fieldName, {
+      name: fieldName,
+      writable: writableFields.has(fieldName),
+    });
   }
 
   return {
@@ -93,11 +99,24 @@ export async function discoverNutCapabilities(
     fieldMetadata,
     staticFields,
     dynamicFields,
+    writableFields,
     staticSnapshot,
     initialDynamicSnapshot,
   };
 }
 
+async function discoverWritableFields(
+  client: NutClient,
+  upsName: string,
+): Promise<Set<string>> {
+  try {
+    return new Set(Object.keys(await client.listWritableVariables(upsName)));
+  } catch {
+    // Very old upsd builds do not implement LIST RW; treat everything as read-only.
+    return new Set();
+  }
+}
+
 function pickSnapshotByFields(
   source: Record<string, string>,
   fields: Set<string>,
@@ -1,5 +1,11 @@
 import { once } from 'node:events';
 import net from 'node:net';
+import tls from 'node:tls';
+import {
+  normalizeTlsFingerprint,
+  type NutTlsFailureReason,
+  type NutTlsSettings,
+} from '../../shared/nut/tls';
 
 type PendingRead = {
   resolve: (line: string) => void;
@@ -14,26 +20,94 @@ export type NutConnectionOptions = {
   username?: string;
   password?: string;
   timeoutMs?: number;
+  tls?: NutTlsSettings;
 };
 
+export type NutTrackedCommandStatus =
+  | 'success'
+  | 'failed'
+  | 'pending'
+  | 'untracked';
+
+export type NutTrackedCommandResult = {
+  status: NutTrackedCommandStatus;
+  trackingId?: string;
+  error?: string;
+};
+
+export type NutTrackingOptions = {
+  trackingTimeoutMs?: number;
+  trackingPollIntervalMs?: number;
+};
+
+export type NutInstantCommandOptions = NutTrackingOptions & {
+  value?: string;
+};
+
+export type NutVariableType = {
+  writable: boolean;
+  kind: 'enum' | 'range' | 'string' | 'number' | 'unknown';
+  maxLength?: number;
+};
+
+export type NutValueRange = {
+  min: number;
+  max: number;
+};
+
+const DEFAULT_TRACKING_TIMEOUT_MS = 10000;
+const DEFAULT_TRACKING_POLL_INTERVAL_MS = 250;
+
 export class NutProtocolError extends Error { }
 
+export class NutTlsError extends Error {
+  public readonly reason: NutTlsFailureReason;
+  /** SHA-256 fingerprint of the certificate upsd presented, if any. */
+  public readonly peerFingerprint?: string;
+
+  public constructor(
+    reason: NutTlsFailureReason,
+    message: string,
+    peerFingerprint?: string,
+  ) {
+    super(message);
+    this.reason = reason;
+    this.peerFingerprint = peerFingerprint;
+  }
+}
+
 export class NutClient {
   private socket: net.Socket | null = null;
+  private detachSocketHandlers: (() => void) | null = null;
   private buffer = '';
   private queuedLines: string[] = [];
   private pendingReads: PendingRead[] = [];
   private commandChain: Promise<void> = Promise.resolve();
   private timeoutMs = 5000;
+  private trackingEnabled: boolean | null = null;
 
   public isConnected(): boolean {
     return this.socket !== null && !this.socket.destroyed;
   }
 
+  /** Whether the current session was upgraded with STARTTLS. */
+  public isEncrypted(): boolean {
+    return this.socket instanceof tls.TLSSocket;
+  }
+
+  public getPeerFingerprint(): string | null {
+    if (!(this.socket instanceof tls.TLSSocket)) {
+      return null;
+    }
+
+    return this.socket.getPeerCertificate().fingerprint256 ?? null;
+  }
+
   public async connect(options: NutConnectionOptions): Promise<void> {
     await this.close();
 
     this.timeoutMs = options.timeoutMs ?? 5000;
+    this.trackingEnabled = null;
     const connectTimeoutMs = this.timeoutMs;
 
     const socket = net.createConnection({
@@ -42,7 +116,7 @@ export class NutClient {
     });
 
     socket.setEncoding('utf8');
-    this.attachSocketHandlers(socket);
+    this.detachSocketHandlers = this.attachSocketHandlers(socket);
 
     // Apply a timeout on the TCP connection itself so we don't hang forever
     // when the target host is unreachable / firewalled.
@@ -58,6 +132,10 @@ export class NutClient {
 
     this.socket = socket;
 
+    if (options.tls && options.tls.mode !== 'off') {
+      await this.startTls(options.host, options.tls);
+    }
+
     if (options.username) {
       await this.executeSimpleCommand(
         `USERNAME ${formatCommandToken(options.username)}`,
@@ -80,8 +158,10 @@ export class NutClient {
   public async close(): Promise<void> {
     const socket = this.socket;
     this.socket = null;
+    this.detachSocketHandlers = null;
     this.buffer = '';
     this.queuedLines = [];
+    this.trackingEnabled = null;
     this.failPendingReads(new Error('NUT socket closed'));
 
     if (!socket || socket.destroyed) {
@@ -201,6 +281,466 @@ export class NutClient {
     });
   }
 
+  public async listCommands(upsName: string): Promise<string[]> {
+    return this.enqueue(async () => {
+      await this.writeLine(`LIST CMD ${formatCommandToken(upsName)}`);
+      const commands: string[] = [];
+
+      for (; ;) {
+        const line = await this.readLine(this.timeoutMs);
+        if (line.startsWith('ERR ')) {
+          throw new NutProtocolError(`LIST CMD failed: ${line}`);
+        }
+
+        if (line.startsWith('BEGIN LIST CMD')) {
+          continue;
+        }
+
+        if (line.startsWith('END LIST CMD')) {
+          break;
+        }
+
+        const match = line.match(/^CMD\s+(\S+)\s+(\S+)$/);
+        if (!match || match[1] !== upsName) {
+          continue;
+        }
+
+        commands.push(match[2]);
+      }
+
+      return commands;
+    });
+  }
+
+  public async getCommandDescription(
+    upsName: string,
+    commandName: string,
+  ): Promise<string> {
+    return this.enqueue(async () => {
+      await this.writeLine(
+        `GET CMDDESC ${formatCommandToken(upsName)} ${formatCommandToken(
+          commandName,
+        )}`,
+      );
+
+      const line = await this.readLine(this.timeoutMs);
+      if (line.startsWith('ERR ')) {
+        throw new NutProtocolError(
+          `GET CMDDESC ${commandName} failed with ${line}`,
+        );
+      }
+
+      const match = line.match(/^CMDDESC\s+(\S+)\s+(\S+)\s+"((?:[^"\\]|\\.)*)"$/);
+      if (!match || match[1] !== upsName) {
+        throw new NutProtocolError(`Unexpected GET CMDDESC response: ${line}`);
+      }
+
+      return unescapeNutValue(match[3]);
+    });
+  }
+
+  /**
+   * Run an instant command. When upsd supports command tracking the result
+   * reflects the driver's verdict; otherwise upsd only acknowledges that the
+   * command was queued and the result is reported as `untracked`.
+   */
+  public async runInstantCommand(
+    upsName: string,
+    commandName: string,
+    options: NutInstantCommandOptions = {},
+  ): Promise<NutTrackedCommandResult> {
+    const tokens = [
+      'INSTCMD',
+      formatCommandToken(upsName),
+      formatCommandToken(commandName),
+    ];
+    if (options.value !== undefined) {
+      tokens.push(formatCommandToken(options.value));
+    }
+
+    return this.executeTrackedCommand(tokens.join(' '), options);
+  }
+
+  public async listWritableVariables(
+    upsName: string,
+  ): Promise<Record<string, string>> {
+    return this.enqueue(async () => {
+      await this.writeLine(`LIST RW ${formatCommandToken(upsName)}`);
+      const variables: Record<string, string> = {};
+
+      for (; ;) {
+        const line = await this.readLine(this.timeoutMs);
+        if (line.startsWith('ERR ')) {
+          throw new NutProtocolError(`LIST RW failed: ${line}`);
+        }
+
+        if (line.startsWith('BEGIN LIST RW')) {
+          continue;
+        }
+
+        if (line.startsWith('END LIST RW')) {
+          break;
+        }
+
+        const parsed = parseVarLine(line, 'RW');
+        if (!parsed || parsed.upsName !== upsName) {
+          continue;
+        }
+
+        variables[parsed.variableName] = parsed.value;
+      }
+
+      return variables;
+    });
+  }
+
+  public async getVariableType(
+    upsName: string,
+    variableName: string,
+  ): Promise<NutVariableType> {
+    return this.enqueue(async () => {
+      await this.writeLine(
+        `GET TYPE ${formatCommandToken(upsName)} ${formatCommandToken(
+          variableName,
+        )}`,
+      );
+
+      const line = await this.readLine(this.timeoutMs);
+      if (line.startsWith('ERR ')) {
+        throw new NutProtocolError(
+          `GET TYPE ${variableName} failed with ${line}`,
+        );
+      }
+
+      const match = line.match(/^TYPE\s+(\S+)\s+(\S+)\s*(.*)$/);
+      if (!match || match[1] !== upsName) {
+        throw new NutProtocolError(`Unexpected GET TYPE response: ${line}`);
+      }
+
+      return parseVariableType(match[3]);
+    });
+  }
+
+  public async listEnum(
+    upsName: string,
+    variableName: string,
+  ): Promise<string[]> {
+    const lines = await this.listVariableDetail('ENUM', upsName, variableName);
+    const values: string[] = [];
+    for (const line of lines) {
+      const match = line.match(/^ENUM\s+(\S+)\s+(\S+)\s+"((?:[^"\\]|\\.)*)"$/);
+      if (match && match[1] === upsName && match[2] === variableName) {
+        values.push(unescapeNutValue(match[3]));
+      }
+    }
+    return values;
+  }
+
+  public async listRange(
+    upsName: string,
+    variableName: string,
+  ): Promise<NutValueRange[]> {
+    const lines = await this.listVariableDetail('RANGE', upsName, variableName);
+    const ranges: NutValueRange[] = [];
+    for (const line of lines) {
+      const match = line.match(
+        /^RANGE\s+(\S+)\s+(\S+)\s+"((?:[^"\\]|\\.)*)"\s+"((?:[^"\\]|\\.)*)"$/,
+      );
+      if (!match || match[1] !== upsName || match[2] !== variableName) {
+        continue;
+      }
+
+      const min = Number(unescapeNutValue(match[3]));
+      const max = Number(unescapeNutValue(match[4]));
+      if (Number.isFinite(min) && Number.isFinite(max)) {
+        ranges.push({ min, max });
+      }
+    }
+    return ranges;
+  }
+
+  public async setVariable(
+    upsName: string,
+    variableName: string,
+    value: string,
+    options: NutTrackingOptions = {},
+  ): Promise<NutTrackedCommandResult> {
+    // SET VAR always quotes the value so empty strings and spaces survive.
+    const escapedValue = value.replace(/(["\\])/g, '\\$1');
+    return this.executeTrackedCommand(
+      `SET VAR ${formatCommandToken(upsName)} ${formatCommandToken(
+        variableName,
+      )} "${escapedValue}"`,
+      options,
+    );
+  }
+
+  /**
+   * Claims upsmon primary rights after LOGIN, which upsd requires before FSD.
+   * Falls back to MASTER for upsd releases older than 2.8.
+   */
+  public async claimPrimary(upsName: string): Promise<void> {
+    try {
+      await this.executeSimpleCommand(`PRIMARY ${formatCommandToken(upsName)}`);
+    } catch (error) {
+      if (!(error instanceof NutProtocolError) || !error.message.includes('UNKNOWN-COMMAND')) {
+        throw error;
+      }
+      await this.executeSimpleCommand(`MASTER ${formatCommandToken(upsName)}`);
+    }
+  }
+
+  /** Sets the forced-shutdown flag, which every client of the UPS sees in ups.status. */
+  public async setForcedShutdown(upsName: string): Promise<void> {
+    await this.executeSimpleCommand(`FSD ${formatCommandToken(upsName)}`);
+  }
+
+  /** Addresses of the clients logged in to the UPS, this one included. */
+  public async listClients(upsName: string): Promise<string[]> {
+    return this.enqueue(async () => {
+      await this.writeLine(`LIST CLIENT ${formatCommandToken(upsName)}`);
+      const clients: string[] = [];
+
+      for (; ;) {
+        const line = await this.readLine(this.timeoutMs);
+        if (line.startsWith('ERR ')) {
+          throw new NutProtocolError(`LIST CLIENT failed: ${line}`);
+        }
+
+        if (line.startsWith('BEGIN LIST CLIENT')) {
+          continue;
+        }
+
+        if (line.startsWith('END LIST CLIENT')) {
+          break;
+        }
+
+        const match = line.match(/^CLIENT\s+(\S+)\s+(\S+)$/);
+        if (!match || match[1] !== upsName) {
+          continue;
+        }
+
+        clients.push(match[2]);
+      }
+
+      return clients;
+    });
+  }
+
+  public async getNumLogins(upsName: string): Promise<number> {
+    return this.enqueue(async () => {
+      await this.writeLine(`GET NUMLOGINS ${formatCommandToken(upsName)}`);
+      const line = await this.readLine(this.timeoutMs);
+      const match = line.match(/^NUMLOGINS\s+(\S+)\s+(\d+)$/);
+      if (!match || match[1] !== upsName) {
+        throw new NutProtocolError(`GET NUMLOGINS failed with ${line}`);
+      }
+
+      return Number(match[2]);
+    });
+  }
+
+  /** The address upsd sees for this connection, as it appears in LIST CLIENT. */
+  public getLocalAddress(): string | null {
+    return this.socket?.localAddress ?? null;
+  }
+
+  private async listVariableDetail(
+    kind: 'ENUM' | 'RANGE',
+    upsName: string,
+    variableName: string,
+  ): Promise<string[]> {
+    return this.enqueue(async () => {
+      await this.writeLine(
+        `LIST ${kind} ${formatCommandToken(upsName)} ${formatCommandToken(
+          variableName,
+        )}`,
+      );
+      const lines: string[] = [];
+
+      for (; ;) {
+        const line = await this.readLine(this.timeoutMs);
+        if (line.startsWith('ERR ')) {
+          throw new NutProtocolError(`LIST ${kind} ${variableName} failed: ${line}`);
+        }
+
+        if (line.startsWith(`BEGIN LIST ${kind}`)) {
+          continue;
+        }
+
+        if (line.startsWith(`END LIST ${kind}`)) {
+          break;
+        }
+
+        lines.push(line);
+      }
+
+      return lines;
+    });
+  }
+
+  private async executeTrackedCommand(
+    command: string,
+    options: NutTrackingOptions,
+  ): Promise<NutTrackedCommandResult> {
+    await this.ensureTrackingEnabled();
+
+    const reply = await this.enqueue(async () => {
+      await this.writeLine(command);
+      const line = await this.readLine(this.timeoutMs);
+      if (!line.startsWith('OK')) {
+        throw new NutProtocolError(`Command "${command}" failed with ${line}`);
+      }
+      return line;
+    });
+
+    const trackingMatch = reply.match(/^OK\s+TRACKING\s+(\S+)$/);
+    if (!trackingMatch) {
+      return { status: 'untracked' };
+    }
+
+    return this.waitForTrackingResult(
+      trackingMatch[1],
+      options.trackingTimeoutMs ?? DEFAULT_TRACKING_TIMEOUT_MS,
+      options.trackingPollIntervalMs ?? DEFAULT_TRACKING_POLL_INTERVAL_MS,
+    );
+  }
+
+  private async ensureTrackingEnabled(): Promise<boolean> {
+    if (this.trackingEnabled !== null) {
+      return this.trackingEnabled;
+    }
+
+    // Older upsd releases reject SET TRACKING; fall back to untracked commands.
+    const enabled = await this.enqueue(async () => {
+      await this.writeLine('SET TRACKING ON');
+      const line = await this.readLine(this.timeoutMs);
+      return line.startsWith('OK');
+    });
+    this.trackingEnabled = enabled;
+    return enabled;
+  }
+
+  private async waitForTrackingResult(
+    trackingId: string,
+    timeoutMs: number,
+    pollIntervalMs: number,
+  ): Promise<NutTrackedCommandResult> {
+    const deadline = Date.now() + timeoutMs;
+
+    for (; ;) {
+      const line = await this.enqueue(async () => {
+        await this.writeLine(`GET TRACKING ${formatCommandToken(trackingId)}`);
+        return this.readLine(this.timeoutMs);
+      });
+
+      if (line === 'SUCCESS') {
+        return { status: 'success', trackingId };
+      }
+
+      if (line.startsWith('ERR ')) {
+        return { status: 'failed', trackingId, error: line.slice(4) };
+      }
+
+      if (line !== 'PENDING') {
+        throw new NutProtocolError(`Unexpected GET TRACKING response: ${line}`);
+      }
+
+      if (Date.now() + pollIntervalMs > deadline) {
+        return { status: 'pending', trackingId };
+      }
+
+      await new Promise<void>((resolve) => {
+        setTimeout(resolve, pollIntervalMs);
+      });
+    }
+  }
+
+  /**
+   * Upgrades the plain session in place. Nothing else is sent until the
+   * handshake and certificate checks pass, so credentials never leave the
+   * machine over a connection that failed verification.
+   */
+  private async startTls(host: string, settings: NutTlsSettings): Promise<void> {
+    const reply = await this.enqueue(async () => {
+      await this.writeLine('STARTTLS');
+      return this.readLine(this.timeoutMs);
+    });
+
+    if (!reply.startsWith('OK')) {
+      if (settings.mode === 'required') {
+        throw new NutTlsError(
+          'unsupported',
+          `upsd at ${host} does not offer TLS (STARTTLS failed with ${reply})`,
+        );
+      }
+      return;
+    }
+
+    const plainSocket = this.socket!;
+    this.detachSocketHandlers?.();
+    this.socket = null;
+
+    const pinnedFingerprint = settings.pinnedFingerprint
+      ? normalizeTlsFingerprint(settings.pinnedFingerprint)
+      : null;
+    // Opportunistic mode without a CA or pin encrypts without authenticating
+    // upsd, like upsmon with CERTVERIFY 0.
+    const verifyChain =
+      pinnedFingerprint === null &&
+      (settings.mode === 'required' || settings.caCertificate !== undefined);
+
+    // Verification is done by hand after the handshake so failures can be
+    // told apart; rejectUnauthorized would report them all as socket errors.
+    const tlsSocket = tls.connect({
+      socket: plainSocket,
+      host,
+      servername: net.isIP(host) === 0 ? host : undefined,
+      ca: settings.caCertificate,
+      rejectUnauthorized: false,
+    });
+
+    try {
+      await this.withTimeout(
+        new Promise<void>((resolve, reject) => {
+          tlsSocket.once('secureConnect', resolve);
+          tlsSocket.once('error', reject);
+        }),
+        this.timeoutMs,
+        `TLS handshake timed out after ${this.timeoutMs}ms`,
+      );
+    } catch (error) {
+      tlsSocket.destroy();
+      throw new NutTlsError(
+        'handshake',
+        `TLS handshake with ${host} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const certificate = tlsSocket.getPeerCertificate();
+    const peerFingerprint = certificate.fingerprint256;
+    const verificationError = pinnedFingerprint !== null
+      ? peerFingerprint === pinnedFingerprint
+        ? null
+        : new NutTlsError(
+          'fingerprint',
+          `The certificate presented by ${host} does not match the pinned fingerprint`,
+          peerFingerprint,
+        )
+      : verifyChain
+        ? verifyPeerCertificate(tlsSocket, host, certificate)
+        : null;
+
+    if (verificationError) {
+      tlsSocket.destroy();
+      throw verificationError;
+    }
+
+    tlsSocket.setEncoding('utf8');
+    this.socket = tlsSocket;
+    this.detachSocketHandlers = this.attachSocketHandlers(tlsSocket);
+  }
+
   private async executeSimpleCommand(command: string): Promise<void> {
     await this.enqueue(async () => {
       await this.writeLine(command);
@@ -220,19 +760,27 @@ export class NutClient {
     return chained;
   }
 
-  private attachSocketHandlers(socket: net.Socket): void {
-    socket.on('data', (chunk: string | Buffer) => {
+  private attachSocketHandlers(socket: net.Socket): () => void {
+    const onData = (chunk: string | Buffer) => {
       this.buffer += String(chunk);
       this.drainBufferedLines();
-    });
-
-    socket.on('error', (error: Error) => {
+    };
+    const onError = (error: Error) => {
       this.failPendingReads(error);
-    });
-
-    socket.on('close', () => {
+    };
+    const onClose = () => {
       this.failPendingReads(new Error('NUT socket closed'));
-    });
+    };
+
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+
+    return () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    };
   }
 
   private drainBufferedLines(): void {
@@ -347,21 +895,70 @@ export class NutClient {
   }
 }
 
+function verifyPeerCertificate(
+  socket: tls.TLSSocket,
+  host: string,
+  certificate: tls.PeerCertificate,
+): NutTlsError | null {
+  const problem = socket.authorized
+    ? tls.checkServerIdentity(host, certificate)?.message
+    : String(socket.authorizationError);
+
+  if (!problem) {
+    return null;
+  }
+
+  return new NutTlsError(
+    'certificate',
+    `The certificate presented by ${host} could not be verified: ${problem}`,
+    certificate.fingerprint256,
+  );
+}
+
 function parseVarLine(
   line: string,
+  keyword: 'VAR' | 'RW' = 'VAR',
 ): { upsName: string; variableName: string; value: string } | null {
-  const match = line.match(/^VAR\s+(\S+)\s+(\S+)\s+"((?:[^"\\]|\\.)*)"$/);
-  if (!match) {
+  const match = line.match(/^(\S+)\s+(\S+)\s+(\S+)\s+"((?:[^"\\]|\\.)*)"$/);
+  if (!match || match[1] !== keyword) {
     return null;
   }
 
   return {
-    upsName: match[1],
-    variableName: match[2],
-    value: unescapeNutValue(match[3]),
+    upsName: match[2],
+    variableName: match[3],
+    value: unescapeNutValue(match[4]),
   };
 }
 
+function parseVariableType(rawFlags: string): NutVariableType {
+  const flags = rawFlags.split(/\s+/u).filter((flag) => flag.length > 0);
+  const type: NutVariableType = {
+    writable: flags.includes('RW'),
+    kind: 'unknown',
+  };
+
+  for (const flag of flags) {
+    if (flag === 'ENUM') {
+      type.kind = 'enum';
+    } else if (flag === 'RANGE') {
+      type.kind = 'range';
+    } else if (flag === 'NUMBER' && type.kind === 'unknown') {
+      type.kind = 'number';
+    } else if (flag.startsWith('STRING')) {
+      if (type.kind === 'unknown') {
+        type.kind = 'string';
+      }
+      const maxLength = Number(flag.split(':')[1]);
+      if (Number.isInteger(maxLength) && maxLength > 0) {
+        type.maxLength = maxLength;
+      }
+    }
+  }
+
+  return type;
+}
+
 function unescapeNutValue(value: string): string {
   return value.replace(/\\(.)/g, '$1');
 }
@@ -13,11 +13,26 @@ import type {
   TelemetryRepository,
   TelemetryValues,
 } from '../db/telemetryRepository';
-import { IPC_EVENTS, type LocalDriverLaunchIssue } from '../ipc/ipcChannels';
+import {
+  IPC_EVENTS,
+  type LocalDriverLaunchIssue,
+  type NutInstantCommand,
+  type NutRunCommandResult,
+  type NutSetVariableResult,
+  type NutStateSnapshot,
+  type NutWritableVariable,
+} from '../ipc/ipcChannels';
+import { validateWritableValue } from '../../shared/nut/writableVariables';
 import type { ConnectionState } from '../ipc/ipcEvents';
 import { hasNoMatchingUsbHidUpsSignal } from '../../shared/wizard/usbHidErrors';
+import {
+  findUpsTarget,
+  hasUpsTargetConnectionChanged,
+  PRIMARY_UPS_ID,
+  type UpsTarget,
+} from '../../shared/ups/upsTargets';
 import { discoverNutCapabilities } from './nutCapabilityDiscovery';
-import { NutClient } from './nutClient';
+import { NutClient, type NutVariableType } from './nutClient';
 
 const INITIAL_RECONNECT_DELAY_MS = 1000;
 const MAX_RECONNECT_DELAY_MS = 30000;
@@ -44,6 +59,7 @@ const LOG_LEVEL_PRIORITY: Record<DebugLogLevel, number> = {
 };
 
 export type NutTelemetryUpdatedPayload = {
+  upsId: string;
   ts: string;
   values: TelemetryValues;
   rawUpsStatus?: string;
@@ -73,6 +89,7 @@ type UpsConfDriverConfig = {
 export class NutPollingService {
   private readonly configStore: ConfigStore;
   private readonly telemetryRepository: TelemetryRepository;
+  private readonly upsId: string;
   private readonly nutClient: NutClient;
   private readonly telemetryUpdatedListeners = new Set<NutTelemetryUpdatedListener>();
   private readonly connectionStateListeners = new Set<(state: ConnectionState) => void>();
@@ -99,12 +116,18 @@ export class NutPollingService {
   private availableFields: Set<string> = new Set();
   private staticFields: Set<string> = new Set();
   private dynamicFields: Set<string> = new Set();
+  private writableFields: Set<string> = new Set();
   private staticSnapshot: Record<string, string> = {};
   private dynamicSnapshot: Record<string, string> = {};
 
-  public constructor(configStore: ConfigStore, telemetryRepository: TelemetryRepository) {
+  public constructor(
+    configStore: ConfigStore,
+    telemetryRepository: TelemetryRepository,
+    upsId: string = PRIMARY_UPS_ID,
+  ) {
     this.configStore = configStore;
     this.telemetryRepository = telemetryRepository;
+    this.upsId = upsId;
     this.nutClient = new NutClient();
     this.currentConfig = this.configStore.get();
     this.debugLogLevel = this.currentConfig.debug.level;
@@ -159,6 +182,10 @@ export class NutPollingService {
     await this.startLocalNutProcessesIfNeeded(wizardLocalConfig);
   }
 
+  public getUpsId(): string {
+    return this.upsId;
+  }
+
   public getState(): ConnectionState {
     return this.state;
   }
@@ -171,10 +198,24 @@ export class NutPollingService {
     return this.dynamicSnapshot;
   }
 
+  public getWritableFields(): string[] {
+    return [...this.writableFields];
+  }
+
   public getLocalDriverLaunchIssue(): LocalDriverLaunchIssue | null {
     return this.localDriverLaunchIssue;
   }
 
+  public getStateSnapshot(): NutStateSnapshot {
+    return {
+      state: this.getState(),
+      staticData: this.getStaticSnapshot(),
+      dynamicData: this.getDynamicSnapshot(),
+      writableFields: this.getWritableFields(),
+      localDriverLaunchIssue: this.getLocalDriverLaunchIssue(),
+    };
+  }
+
   public async retryLocalDriverLaunchAfterIssue(): Promise<{
     success: boolean;
     error?: string;
@@ -211,6 +252,117 @@ export class NutPollingService {
     };
   }
 
+  public async listInstantCommands(): Promise<NutInstantCommand[]> {
+    this.assertSessionReady();
+
+    const upsName = this.resolveTarget().upsName;
+    const commandNames = await this.nutClient.listCommands(upsName);
+    const commands: NutInstantCommand[] = [];
+    for (const name of [...commandNames].sort((left, right) => left.localeCompare(right))) {
+      try {
+        const description = await this.nutClient.getCommandDescription(upsName, name);
+        commands.push({ name, description: description || undefined });
+      } catch {
+        // Descriptions are optional; some drivers do not provide them.
+        commands.push({ name });
+      }
+    }
+
+    return commands;
+  }
+
+  public async runInstantCommand(
+    command: string,
+    value?: string,
+  ): Promise<NutRunCommandResult> {
+    try {
+      this.assertSessionReady();
+      const upsName = this.resolveTarget().upsName;
+      this.log('info', `Running instant command ${command}`, { upsName, value });
+      const result = await this.nutClient.runInstantCommand(upsName, command, {
+        value,
+      });
+      this.log('info', `Instant command ${command} finished`, result);
+
+      return {
+        success: result.status !== 'failed',
+        status: result.status,
+        error: result.error,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log('warn', `Instant command ${command} failed`, message);
+      return {
+        success: false,
+        error: message,
+      };
+    }
+  }
+
+  /** Null when upsd does not let the variable be written. */
+  public async getWritableVariable(name: string): Promise<NutWritableVariable | null> {
+    this.assertSessionReady();
+
+    const upsName = this.resolveTarget().upsName;
+    const type = await this.nutClient.getVariableType(upsName, name);
+    if (!type.writable) {
+      return null;
+    }
+
+    const value = await this.nutClient.getVariable(upsName, name);
+    return this.describeWritableVariable(upsName, name, value, type);
+  }
+
+  public async setVariable(
+    name: string,
+    value: string,
+  ): Promise<NutSetVariableResult> {
+    try {
+      this.assertSessionReady();
+      const upsName = this.resolveTarget().upsName;
+      const previousValue = await this.nutClient.getVariable(upsName, name);
+      const variable = await this.describeWritableVariable(
+        upsName,
+        name,
+        previousValue,
+      );
+      const issue = validateWritableValue(variable, value);
+      if (issue) {
+        return {
+          success: false,
+          previousValue,
+          error: `Value "${value}" rejected for ${name}: ${issue}`,
+        };
+      }
+
+      this.log('info', `Setting ${name}`, { upsName, previousValue, value });
+      const result = await this.nutClient.setVariable(upsName, name, value);
+      this.log('info', `Setting ${name} finished`, result);
+
+      const currentValue = await this.nutClient
+        .getVariable(upsName, name)
+        .catch((): undefined => undefined);
+      if (currentValue !== undefined) {
+        this.applyVariableValue(name, currentValue);
+      }
+
+      return {
+        success: result.status !== 'failed',
+        status: result.status,
+        error: result.error,
+        previousValue,
+        currentValue,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log('warn', `Setting ${name} failed`, message);
+      return {
+        success: false,
+        error: message,
+      };
+    }
+  }
+
   public onTelemetryUpdated(listener: NutTelemetryUpdatedListener): () => void {
     this.telemetryUpdatedListeners.add(listener);
     return () => {
@@ -247,9 +399,9 @@ export class NutPollingService {
         return;
       }
 
-      const reconnectRequired = hasNutConnectionConfigChanged(
-        previousConfig,
-        nextConfig,
+      const reconnectRequired = hasUpsTargetConnectionChanged(
+        findUpsTarget(previousConfig, this.upsId),
+        findUpsTarget(nextConfig, this.upsId),
       );
       const pollingIntervalChanged =
         previousConfig.polling.intervalMs !== nextConfig.polling.intervalMs;
@@ -265,6 +417,61 @@ export class NutPollingService {
     });
   }
 
+  private resolveTarget(config: AppConfig = this.currentConfig): UpsTarget {
+    const target = findUpsTarget(config, this.upsId);
+    if (!target) {
+      throw new Error(`UPS target "${this.upsId}" is not configured`);
+    }
+
+    return target;
+  }
+
+  private async describeWritableVariable(
+    upsName: string,
+    name: string,
+    value: string,
+    knownType?: NutVariableType,
+  ): Promise<NutWritableVariable> {
+    const type = knownType ?? await this.nutClient.getVariableType(upsName, name);
+    const variable: NutWritableVariable = {
+      name,
+      value,
+      kind: type.kind,
+      maxLength: type.maxLength,
+    };
+
+    if (type.kind === 'enum') {
+      variable.enumValues = await this.nutClient.listEnum(upsName, name);
+    } else if (type.kind === 'range') {
+      variable.ranges = await this.nutClient.listRange(upsName, name);
+    }
+
+    return variable;
+  }
+
+  private applyVariableValue(name: string, value: string): void {
+    if (this.staticFields.has(name)) {
+      this.staticSnapshot = { ...this.staticSnapshot, [name]: value };
+      this.emitStaticSnapshot();
+      return;
+    }
+
+    if (this.dynamicFields.has(name)) {
+      this.dynamicSnapshot = { ...this.dynamicSnapshot, [name]: value };
+      this.emitCurrentNutSnapshot();
+    }
+  }
+
+  private assertSessionReady(): void {
+    if (
+      !this.started ||
+      (this.state !== 'ready' && this.state !== 'degraded') ||
+      !this.nutClient.isConnected()
+    ) {
+      throw new Error('NUT connection is not ready');
+    }
+  }
+
   private async reconnectNow(): Promise<void> {
     this.requiresManualDriverRetry = false;
     this.clearPollTimer();
@@ -283,27 +490,32 @@ export class NutPollingService {
 
     try {
       const config = this.currentConfig;
+      const target = this.resolveTarget(config);
       this.debugLogLevel = config.debug.level;
       this.setState('connecting');
-      await this.startLocalNutProcessesIfNeeded(config);
+      if (this.upsId === PRIMARY_UPS_ID) {
+        await this.startLocalNutProcessesIfNeeded(config);
+      }
 
       await this.nutClient.connect({
-        host: config.nut.host,
-        port: config.nut.port,
-        upsName: config.nut.upsName,
-        username: config.nut.username,
-        password: config.nut.password,
+        host: target.host,
+        port: target.port,
+        upsName: target.upsName,
+        username: target.username,
+        password: target.password,
+        tls: target.tls,
       });
 
       this.setState('initializing');
       const discoveryResult = await discoverNutCapabilities(
         this.nutClient,
-        config.nut.upsName,
+        target.upsName,
       );
 
       this.availableFields = discoveryResult.availableFields;
       this.staticFields = discoveryResult.staticFields;
       this.dynamicFields = discoveryResult.dynamicFields;
+      this.writableFields = discoveryResult.writableFields;
       this.staticSnapshot = discoveryResult.staticSnapshot;
       this.dynamicSnapshot = discoveryResult.initialDynamicSnapshot;
       this.log('debug', 'Capability discovery completed', {
@@ -312,9 +524,9 @@ export class NutPollingService {
         dynamicFieldCount: this.dynamicFields.size,
       });
 
-      if (config.nut.launchLocalComponents) {
+      if (target.launchLocalComponents) {
         try {
-          await this.waitForDriverStateQuiet(config.nut.upsName);
+          await this.waitForDriverStateQuiet(target.upsName);
         } catch (error) {
           const technicalDetails = summarizeUnknownError(error);
           const capturedOutput = this.localDriverProcess
@@ -765,7 +977,8 @@ export class NutPollingService {
     try {
       const config = this.currentConfig;
       this.debugLogLevel = config.debug.level;
-      const dynamicSnapshot = await this.nutClient.getVariables(config.nut.upsName, [
+      const upsName = this.resolveTarget(config).upsName;
+      const dynamicSnapshot = await this.nutClient.getVariables(upsName, [
         ...this.dynamicFields,
       ]);
       this.logPolledSnapshot(dynamicSnapshot);
@@ -782,12 +995,13 @@ export class NutPollingService {
   private async persistAndBroadcastTelemetry(
     dynamicSnapshot: Record<string, string>,
   ): Promise<void> {
-    const config = this.currentConfig;
+    const target = this.resolveTarget();
     const timestamp = new Date();
     const values = await this.telemetryRepository.insertFromNutSnapshot(
       timestamp,
       dynamicSnapshot,
-      config.nut.mapping,
+      target.mapping,
+      this.upsId,
     );
     if (Object.keys(values).length === 0) {
       return;
@@ -796,6 +1010,7 @@ export class NutPollingService {
     this.logMappedTelemetry(values);
 
     const payload: NutTelemetryUpdatedPayload = {
+      upsId: this.upsId,
       ts: timestamp.toISOString(),
       values,
       rawUpsStatus: dynamicSnapshot['ups.status'] ?? undefined,
@@ -882,6 +1097,7 @@ export class NutPollingService {
 
     this.state = nextState;
     this.emitToRenderers(IPC_EVENTS.connectionStateChanged, {
+      upsId: this.upsId,
       state: nextState,
     });
 
@@ -902,17 +1118,20 @@ export class NutPollingService {
 
   private emitCurrentNutSnapshot(): void {
     this.emitToRenderers(IPC_EVENTS.upsDynamicData, {
+      upsId: this.upsId,
       values: this.dynamicSnapshot,
     });
   }
 
   private emitStaticSnapshot(): void {
     this.emitToRenderers(IPC_EVENTS.upsStaticData, {
+      upsId: this.upsId,
       values: this.staticSnapshot,
       fields: {
         available: [...this.availableFields],
         static: [...this.staticFields],
         dynamic: [...this.dynamicFields],
+        writable: [...this.writableFields],
       },
     });
   }
@@ -1008,7 +1227,10 @@ export class NutPollingService {
       return;
     }
 
-    const prefix = '[NutPollingService]';
+    const prefix =
+      this.upsId === PRIMARY_UPS_ID
+        ? '[NutPollingService]'
+        : `[NutPollingService:${this.upsId}]`;
     if (level === 'error') {
       if (payload === undefined) {
         console.error(prefix, message);
@@ -1507,22 +1729,6 @@ function clampPollingIntervalMs(value: number): number {
   return rounded;
 }
 
-function hasNutConnectionConfigChanged(
-  previousConfig: AppConfig,
-  nextConfig: AppConfig,
-): boolean {
-  return (
-    previousConfig.nut.host !== nextConfig.nut.host ||
-    previousConfig.nut.port !== nextConfig.nut.port ||
-    previousConfig.nut.upsName !== nextConfig.nut.upsName ||
-    previousConfig.nut.username !== nextConfig.nut.username ||
-    previousConfig.nut.password !== nextConfig.nut.password ||
-    previousConfig.nut.launchLocalComponents !==
-    nextConfig.nut.launchLocalComponents ||
-    previousConfig.nut.localNutFolderPath !== nextConfig.nut.localNutFolderPath
-  );
-}
-
 async function terminateChildProcess(processRef: ChildProcess | null): Promise<void> {
   if (!processRef || processRef.killed || processRef.exitCode !== null) {
     return;
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  NutServerSession,
+  quoteNutValue,
+  tokenizeNutCommand,
+  type NutServedUps,
+} from './nutServerProtocol';
+
+function makeSession(ups: Partial<NutServedUps> = {}, password = 'secret'): NutServerSession {
+  return new NutServerSession('192.0.2.10', {
+    getUps: () => ({
+      name: 'ups',
+      description: 'Rack "A" UPS',
+      variables: { 'ups.status': 'OL', 'battery.charge': '100' },
+      ...ups,
+    }),
+    getCredentials: () => ({ username: 'upsmon', password }),
+    listLoginAddresses: () => ['192.0.2.10'],
+  });
+}
+
+function send(session: NutServerSession, line: string): string[] {
+  return session.handleLine(line).lines;
+}
+
+describe('tokenizeNutCommand', () => {
+  it('splits on whitespace and honours quotes and escapes', () => {
+    expect(tokenizeNutCommand('GET VAR ups ups.status')).toEqual(['GET', 'VAR', 'ups', 'ups.status']);
+    expect(tokenizeNutCommand('PASSWORD "a b\\"c\\\\"')).toEqual(['PASSWORD', 'a b"c\\']);
+    expect(tokenizeNutCommand('PASSWORD ""')).toEqual(['PASSWORD', '']);
+    expect(tokenizeNutCommand('PASSWORD "open')).toBeNull();
+  });
+
+  it('round-trips quoted values', () => {
+    expect(tokenizeNutCommand(`X ${quoteNutValue('say "hi" \\o/')}`)).toEqual(['X', 'say "hi" \\o/']);
+  });
+});
+
+describe('NutServerSession', () => {
+  it('lists and reads variables', () => {
+    const session = makeSession();
+
+    expect(send(session, 'LIST UPS')).toEqual([
+      'BEGIN LIST UPS',
+      'UPS ups "Rack \\"A\\" UPS"',
+      'END LIST UPS',
+    ]);
+    expect(send(session, 'LIST VAR ups')).toEqual([
+      'BEGIN LIST VAR ups',
+      'VAR ups battery.charge "100"',
+      'VAR ups ups.status "OL"',
+      'END LIST VAR ups',
+    ]);
+    expect(send(session, 'GET VAR ups ups.status')).toEqual(['VAR ups ups.status "OL"']);
+    expect(send(session, 'GET VAR ups input.voltage')).toEqual(['ERR VAR-NOT-SUPPORTED']);
+    expect(send(session, 'GET VAR other ups.status')).toEqual(['ERR UNKNOWN-UPS']);
+    expect(send(session, 'LIST VAR')).toEqual(['ERR INVALID-ARGUMENT']);
+  });
+
+  it('reports stale data instead of old values', () => {
+    const session = makeSession({ variables: null });
+
+    expect(send(session, 'LIST VAR ups')).toEqual(['ERR DATA-STALE']);
+    expect(send(session, 'GET VAR ups ups.status')).toEqual(['ERR DATA-STALE']);
+  });
+
+  it('walks the upsmon login handshake', () => {
+    const session = makeSession();
+
+    expect(send(session, 'LOGIN ups')).toEqual(['ERR USERNAME-REQUIRED']);
+    expect(send(session, 'USERNAME upsmon')).toEqual(['OK']);
+    expect(send(session, 'USERNAME again')).toEqual(['ERR ALREADY-SET-USERNAME']);
+    expect(send(session, 'LOGIN ups')).toEqual(['ERR PASSWORD-REQUIRED']);
+    expect(send(session, 'PASSWORD secret')).toEqual(['OK']);
+    expect(send(session, 'LOGIN other')).toEqual(['ERR UNKNOWN-UPS']);
+    expect(send(session, 'LOGIN ups')).toEqual(['OK']);
+    expect(session.getLoginUps()).toBe('ups');
+    expect(send(session, 'LOGIN ups')).toEqual(['ERR ALREADY-LOGGED-IN']);
+    expect(session.handleLine('LOGOUT')).toEqual({ lines: ['OK Goodbye'], close: true });
+  });
+
+  it('denies wrong credentials and every login while no password is configured', () => {
+    const wrong = makeSession();
+    send(wrong, 'USERNAME upsmon');
+    send(wrong, 'PASSWORD guess');
+    expect(send(wrong, 'LOGIN ups')).toEqual(['ERR ACCESS-DENIED']);
+
+    const unconfigured = makeSession({}, '');
+    send(unconfigured, 'USERNAME upsmon');
+    send(unconfigured, 'PASSWORD ""');
+    expect(send(unconfigured, 'LOGIN ups')).toEqual(['ERR ACCESS-DENIED']);
+  });
+
+  it('refuses commands that would control the UPS', () => {
+    const session = makeSession();
+
+    expect(send(session, 'PRIMARY ups')).toEqual(['ERR ACCESS-DENIED']);
+    expect(send(session, 'FSD ups')).toEqual(['ERR ACCESS-DENIED']);
+    expect(send(session, 'INSTCMD ups beeper.disable')).toEqual(['ERR ACCESS-DENIED']);
+    expect(send(session, 'STARTTLS')).toEqual(['ERR FEATURE-NOT-CONFIGURED']);
+    expect(send(session, 'FROB')).toEqual(['ERR UNKNOWN-COMMAND']);
+    expect(send(session, 'GET NUMLOGINS ups')).toEqual(['NUMLOGINS ups 1']);
+    expect(send(session, 'LIST CLIENT ups')).toEqual([
+      'BEGIN LIST CLIENT ups',
+      'CLIENT ups 192.0.2.10',
+      'END LIST CLIENT ups',
+    ]);
+  });
+});
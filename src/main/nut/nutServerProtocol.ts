@@ -0,0 +1,318 @@
+import { timingSafeEqual } from 'node:crypto';
+
+/**
+ * Server side of the NUT network protocol, limited to what monitoring clients
+ * need: reading variables, the login handshake upsmon performs as a
+ * secondary, and LIST CLIENT / NUMLOGINS for a primary watching it. Anything
+ * that writes to the UPS is refused; this machine owns it.
+ */
+
+export const NUT_SERVER_PROTOCOL_VERSION = '1.3';
+const NUT_SERVER_VERSION = 'Easy UPS Client NUT server';
+
+export type NutServedUps = {
+  name: string;
+  description: string;
+  /** Null while the data is stale, e.g. between reconnects to the UPS. */
+  variables: Record<string, string> | null;
+};
+
+export type NutServerSessionContext = {
+  getUps: () => NutServedUps;
+  getCredentials: () => { username: string; password: string };
+  /** Addresses of every session logged in to the served UPS. */
+  listLoginAddresses: () => string[];
+};
+
+export type NutServerReply = {
+  lines: string[];
+  /** Close the connection after writing the lines. */
+  close: boolean;
+};
+
+type NutServerError =
+  | 'ACCESS-DENIED'
+  | 'ALREADY-LOGGED-IN'
+  | 'ALREADY-SET-PASSWORD'
+  | 'ALREADY-SET-USERNAME'
+  | 'DATA-STALE'
+  | 'FEATURE-NOT-CONFIGURED'
+  | 'INVALID-ARGUMENT'
+  | 'PASSWORD-REQUIRED'
+  | 'UNKNOWN-COMMAND'
+  | 'UNKNOWN-UPS'
+  | 'USERNAME-REQUIRED'
+  | 'VAR-NOT-SUPPORTED';
+
+/** Commands that change the UPS or claim primary rights over it. */
+const REFUSED_COMMANDS = new Set(['FSD', 'INSTCMD', 'MASTER', 'PRIMARY', 'SET']);
+
+export class NutServerSession {
+  private readonly remoteAddress: string;
+  private readonly context: NutServerSessionContext;
+  private username: string | null = null;
+  private password: string | null = null;
+  private loginUps: string | null = null;
+
+  public constructor(remoteAddress: string, context: NutServerSessionContext) {
+    this.remoteAddress = remoteAddress;
+    this.context = context;
+  }
+
+  public getRemoteAddress(): string {
+    return this.remoteAddress;
+  }
+
+  /** The UPS this session logged in to, or null before LOGIN. */
+  public getLoginUps(): string | null {
+    return this.loginUps;
+  }
+
+  public handleLine(line: string): NutServerReply {
+    const tokens = tokenizeNutCommand(line);
+    if (tokens === null) {
+      return reply(errorLine('INVALID-ARGUMENT'));
+    }
+    if (tokens.length === 0) {
+      return reply();
+    }
+
+    const [command, ...args] = tokens;
+    switch (command.toUpperCase()) {
+      case 'VER':
+        return reply(NUT_SERVER_VERSION);
+      case 'NETVER':
+        return reply(NUT_SERVER_PROTOCOL_VERSION);
+      case 'HELP':
+        return reply('Commands: HELP VER NETVER GET LIST USERNAME PASSWORD LOGIN LOGOUT');
+      case 'STARTTLS':
+        return reply(errorLine('FEATURE-NOT-CONFIGURED'));
+      case 'LIST':
+        return this.handleList(args);
+      case 'GET':
+        return this.handleGet(args);
+      case 'USERNAME':
+        return this.handleUsername(args);
+      case 'PASSWORD':
+        return this.handlePassword(args);
+      case 'LOGIN':
+        return this.handleLogin(args);
+      case 'LOGOUT':
+        return { lines: ['OK Goodbye'], close: true };
+      default:
+        return reply(errorLine(
+          REFUSED_COMMANDS.has(command.toUpperCase()) ? 'ACCESS-DENIED' : 'UNKNOWN-COMMAND',
+        ));
+    }
+  }
+
+  private handleList(args: string[]): NutServerReply {
+    const [subject, upsName] = args;
+    switch (subject?.toUpperCase()) {
+      case 'UPS': {
+        const ups = this.context.getUps();
+        return reply(
+          'BEGIN LIST UPS',
+          `UPS ${ups.name} ${quoteNutValue(ups.description)}`,
+          'END LIST UPS',
+        );
+      }
+      case 'VAR': {
+        const variables = this.resolveVariables(args.length === 2 ? upsName : undefined);
+        if (typeof variables === 'string') {
+          return reply(variables);
+        }
+        return reply(
+          `BEGIN LIST VAR ${upsName}`,
+          ...Object.keys(variables)
+            .sort()
+            .map((name) => `VAR ${upsName} ${name} ${quoteNutValue(variables[name])}`),
+          `END LIST VAR ${upsName}`,
+        );
+      }
+      case 'CLIENT': {
+        const error = this.checkUpsName(args.length === 2 ? upsName : undefined);
+        if (error) {
+          return reply(error);
+        }
+        return reply(
+          `BEGIN LIST CLIENT ${upsName}`,
+          ...this.context.listLoginAddresses().map((address) => `CLIENT ${upsName} ${address}`),
+          `END LIST CLIENT ${upsName}`,
+        );
+      }
+      case 'RW':
+      case 'CMD': {
+        const error = this.checkUpsName(args.length === 2 ? upsName : undefined);
+        if (error) {
+          return reply(error);
+        }
+        // Nothing is writable or callable through this server.
+        const kind = subject.toUpperCase();
+        return reply(`BEGIN LIST ${kind} ${upsName}`, `END LIST ${kind} ${upsName}`);
+      }
+      default:
+        return reply(errorLine('INVALID-ARGUMENT'));
+    }
+  }
+
+  private handleGet(args: string[]): NutServerReply {
+    const [subject, upsName, variableName] = args;
+    switch (subject?.toUpperCase()) {
+      case 'VAR': {
+        const variables = this.resolveVariables(args.length === 3 ? upsName : undefined);
+        if (typeof variables === 'string') {
+          return reply(variables);
+        }
+        const value = variables[variableName];
+        return reply(
+          value === undefined
+            ? errorLine('VAR-NOT-SUPPORTED')
+            : `VAR ${upsName} ${variableName} ${quoteNutValue(value)}`,
+        );
+      }
+      case 'NUMLOGINS': {
+        const error = this.checkUpsName(args.length === 2 ? upsName : undefined);
+        return reply(
+          error ?? `NUMLOGINS ${upsName} ${this.context.listLoginAddresses().length}`,
+        );
+      }
+      case 'UPSDESC': {
+        const error = this.checkUpsName(args.length === 2 ? upsName : undefined);
+        return reply(
+          error ?? `UPSDESC ${upsName} ${quoteNutValue(this.context.getUps().description)}`,
+        );
+      }
+      default:
+        return reply(errorLine('INVALID-ARGUMENT'));
+    }
+  }
+
+  private handleUsername(args: string[]): NutServerReply {
+    if (args.length !== 1) {
+      return reply(errorLine('INVALID-ARGUMENT'));
+    }
+    if (this.username !== null) {
+      return reply(errorLine('ALREADY-SET-USERNAME'));
+    }
+
+    this.username = args[0];
+    return reply('OK');
+  }
+
+  private handlePassword(args: string[]): NutServerReply {
+    if (args.length !== 1) {
+      return reply(errorLine('INVALID-ARGUMENT'));
+    }
+    if (this.password !== null) {
+      return reply(errorLine('ALREADY-SET-PASSWORD'));
+    }
+
+    this.password = args[0];
+    return reply('OK');
+  }
+
+  private handleLogin(args: string[]): NutServerReply {
+    if (args.length !== 1) {
+      return reply(errorLine('INVALID-ARGUMENT'));
+    }
+    if (this.loginUps !== null) {
+      return reply(errorLine('ALREADY-LOGGED-IN'));
+    }
+    if (this.username === null) {
+      return reply(errorLine('USERNAME-REQUIRED'));
+    }
+    if (this.password === null) {
+      return reply(errorLine('PASSWORD-REQUIRED'));
+    }
+
+    const credentials = this.context.getCredentials();
+    // An empty configured password disables logins rather than accepting any.
+    if (
+      !credentials.password ||
+      !secretsMatch(this.username, credentials.username) ||
+      !secretsMatch(this.password, credentials.password)
+    ) {
+      return reply(errorLine('ACCESS-DENIED'));
+    }
+
+    const error = this.checkUpsName(args[0]);
+    if (error) {
+      return reply(error);
+    }
+
+    this.loginUps = args[0];
+    return reply('OK');
+  }
+
+  private resolveVariables(upsName: string | undefined): Record<string, string> | string {
+    const error = this.checkUpsName(upsName);
+    if (error) {
+      return error;
+    }
+
+    return this.context.getUps().variables ?? errorLine('DATA-STALE');
+  }
+
+  private checkUpsName(upsName: string | undefined): string | null {
+    if (upsName === undefined) {
+      return errorLine('INVALID-ARGUMENT');
+    }
+    return upsName === this.context.getUps().name ? null : errorLine('UNKNOWN-UPS');
+  }
+}
+
+/**
+ * Splits a command line into words, honouring double quotes and backslash
+ * escapes. Returns null for an unterminated quote.
+ */
+export function tokenizeNutCommand(line: string): string[] | null {
+  const tokens: string[] = [];
+  let current: string | null = null;
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === '\\' && index + 1 < line.length) {
+      current = (current ?? '') + line[index + 1];
+      index += 1;
+    } else if (char === '"') {
+      quoted = !quoted;
+      current ??= '';
+    } else if (!quoted && (char === ' ' || char === '\t')) {
+      if (current !== null) {
+        tokens.push(current);
+        current = null;
+      }
+    } else {
+      current = (current ?? '') + char;
+    }
+  }
+
+  if (quoted) {
+    return null;
+  }
+  if (current !== null) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+export function quoteNutValue(value: string): string {
+  return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+function reply(...lines: string[]): NutServerReply {
+  return { lines, close: false };
+}
+
+function errorLine(error: NutServerError): string {
+  return `ERR ${error}`;
+}
+
+function secretsMatch(received: string, expected: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+  return expectedBuffer.length === receivedBuffer.length &&
+    timingSafeEqual(expectedBuffer, receivedBuffer);
+}
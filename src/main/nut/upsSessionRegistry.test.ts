@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from 'vitest';
+import { defaultAppConfig, type AppConfig } from '../config/configSchema';
+import type { ConfigStore } from '../config/configStore';
+import type { TelemetryRepository } from '../db/telemetryRepository';
+import type { ConnectionState } from '../ipc/ipcEvents';
+import type { NutPollingService, NutTelemetryUpdatedPayload } from './nutPollingService';
+import { UpsSessionRegistry } from './upsSessionRegistry';
+
+vi.mock('./nutPollingService', () => ({
+  NutPollingService: class {},
+}));
+
+type FakeSession = {
+  state: ConnectionState;
+  start: ReturnType<typeof vi.fn>;
+  stop: ReturnType<typeof vi.fn>;
+  handleConfigUpdated: ReturnType<typeof vi.fn>;
+  emitTelemetry: (payload: NutTelemetryUpdatedPayload) => void;
+  emitState: (state: ConnectionState) => void;
+};
+
+function createFakeSession(upsId: string): FakeSession {
+  const telemetryListeners = new Set<(payload: NutTelemetryUpdatedPayload) => void>();
+  const stateListeners = new Set<(state: ConnectionState) => void>();
+  const session = {
+    state: 'idle' as ConnectionState,
+    start: vi.fn(),
+    stop: vi.fn().mockResolvedValue(undefined),
+    handleConfigUpdated: vi.fn().mockResolvedValue(undefined),
+    getUpsId: () => upsId,
+    getState: () => session.state,
+    onTelemetryUpdated: (listener: (payload: NutTelemetryUpdatedPayload) => void) => {
+      telemetryListeners.add(listener);
+      return () => telemetryListeners.delete(listener);
+    },
+    onConnectionStateChanged: (listener: (state: ConnectionState) => void) => {
+      stateListeners.add(listener);
+      return () => stateListeners.delete(listener);
+    },
+    emitTelemetry: (payload: NutTelemetryUpdatedPayload) => {
+      telemetryListeners.forEach((listener) => listener(payload));
+    },
+    emitState: (state: ConnectionState) => {
+      session.state = state;
+      stateListeners.forEach((listener) => listener(state));
+    },
+  };
+
+  return session as FakeSession;
+}
+
+function configWithTargets(ids: string[]): AppConfig {
+  return {
+    ...defaultAppConfig,
+    wizard: { completed: true },
+    nut: {
+      ...defaultAppConfig.nut,
+      targets: ids.map((id) => ({
+        id,
+        name: id.toUpperCase(),
+        host: '127.0.0.1',
+        port: 3493,
+        upsName: id,
+      })),
+    },
+  };
+}
+
+function createRegistry(initialConfig: AppConfig) {
+  const sessions = new Map<string, FakeSession>();
+  const primary = createFakeSession('primary');
+  const registry = new UpsSessionRegistry(
+    { get: () => initialConfig } as unknown as ConfigStore,
+    {} as TelemetryRepository,
+    primary as unknown as NutPollingService,
+    (upsId) => {
+      const session = createFakeSession(upsId);
+      sessions.set(upsId, session);
+      return session as unknown as NutPollingService;
+    },
+  );
+
+  return { registry, primary, sessions };
+}
+
+describe('UpsSessionRegistry', () => {
+  it('starts one session per additional target and lists every device', () => {
+    const { registry, sessions } = createRegistry(configWithTargets(['rack-b']));
+
+    registry.start();
+    sessions.get('rack-b')?.emitState('ready');
+
+    expect(sessions.get('rack-b')?.start).toHaveBeenCalledTimes(1);
+    expect(registry.listDevices()).toEqual([
+      expect.objectContaining({ id: 'primary', name: 'snmpups', state: 'idle' }),
+      expect.objectContaining({ id: 'rack-b', name: 'RACK-B', state: 'ready' }),
+    ]);
+    expect(registry.get('rack-b')).toBe(sessions.get('rack-b'));
+    expect(() => registry.get('missing')).toThrow(/Unknown UPS target/u);
+  });
+
+  it('adds and removes sessions when targets change', async () => {
+    const initial = configWithTargets(['rack-b']);
+    const next = configWithTargets(['rack-c']);
+    const { registry, primary, sessions } = createRegistry(initial);
+    registry.start();
+    const rackB = sessions.get('rack-b');
+
+    await registry.handleConfigUpdated(initial, next);
+
+    expect(primary.handleConfigUpdated).toHaveBeenCalledWith(initial, next);
+    expect(rackB?.stop).toHaveBeenCalledTimes(1);
+    expect(rackB?.handleConfigUpdated).not.toHaveBeenCalled();
+    expect(sessions.get('rack-c')?.start).toHaveBeenCalledTimes(1);
+    expect(sessions.get('rack-c')?.handleConfigUpdated).not.toHaveBeenCalled();
+    expect(() => registry.get('rack-b')).toThrow();
+  });
+
+  it('forwards telemetry and state changes from every session', () => {
+    const { registry, primary, sessions } = createRegistry(configWithTargets(['rack-b']));
+    const telemetry = vi.fn();
+    const states = vi.fn();
+    registry.onTelemetryUpdated(telemetry);
+    registry.onConnectionStateChanged(states);
+    registry.start();
+
+    primary.emitState('ready');
+    sessions.get('rack-b')?.emitTelemetry({
+      upsId: 'rack-b',
+      ts: '2026-03-06T00:00:00.000Z',
+      values: { battery_charge_pct: 90 },
+    });
+
+    expect(states).toHaveBeenCalledWith('primary', 'ready');
+    expect(telemetry).toHaveBeenCalledWith(
+      expect.objectContaining({ upsId: 'rack-b' }),
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import type { AppConfig } from '../config/configSchema';
+import type { ConfigStore } from '../config/configStore';
+import type { TelemetryRepository } from '../db/telemetryRepository';
+import type { ConnectionState } from '../ipc/ipcEvents';
+import type { UpsDeviceSummary } from '../ipc/ipcChannels';
+import {
+  listUpsTargets,
+  PRIMARY_UPS_ID,
+} from '../../shared/ups/upsTargets';
+import {
+  NutPollingService,
+  type NutTelemetryUpdatedPayload,
+} from './nutPollingService';
+
+type UpsSessionTelemetryListener = (payload: NutTelemetryUpdatedPayload) => void;
+type UpsSessionStateListener = (upsId: string, state: ConnectionState) => void;
+
+type SessionFactory = (upsId: string) => NutPollingService;
+
+type SessionEntry = {
+  session: NutPollingService;
+  unsubscribe: () => void;
+};
+
+/**
+ * Owns one polling session per configured UPS target. The primary session is
+ * created by the bootstrap because the wizard and the shutdown policy talk to
+ * it directly; additional targets are started and stopped here as the config
+ * changes.
+ */
+export class UpsSessionRegistry {
+  private readonly primary: NutPollingService;
+  private readonly createSession: SessionFactory;
+  private readonly additionalSessions = new Map<string, SessionEntry>();
+  private readonly telemetryListeners = new Set<UpsSessionTelemetryListener>();
+  private readonly stateListeners = new Set<UpsSessionStateListener>();
+  private readonly unsubscribePrimary: () => void;
+  private currentConfig: AppConfig;
+  private started = false;
+
+  public constructor(
+    configStore: ConfigStore,
+    telemetryRepository: TelemetryRepository,
+    primary: NutPollingService,
+    createSession: SessionFactory = (upsId) =>
+      new NutPollingService(configStore, telemetryRepository, upsId),
+  ) {
+    this.primary = primary;
+    this.createSession = createSession;
+    this.currentConfig = configStore.get();
+    this.unsubscribePrimary = this.subscribe(primary);
+  }
+
+  public getPrimary(): NutPollingService {
+    return this.primary;
+  }
+
+  public get(upsId: string = PRIMARY_UPS_ID): NutPollingService {
+    if (upsId === PRIMARY_UPS_ID) {
+      return this.primary;
+    }
+
+    const entry = this.additionalSessions.get(upsId);
+    if (!entry) {
+      throw new Error(`Unknown UPS target "${upsId}"`);
+    }
+
+    return entry.session;
+  }
+
+  public listDevices(): UpsDeviceSummary[] {
+    return listUpsTargets(this.currentConfig).map((target) => ({
+      id: target.id,
+      name: target.name,
+      upsName: target.upsName,
+      host: target.host,
+      port: target.port,
+      state:
+        target.id === PRIMARY_UPS_ID
+          ? this.primary.getState()
+          : (this.additionalSessions.get(target.id)?.session.getState() ?? 'idle'),
+    }));
+  }
+
+  /** Starts polling for the additional targets. */
+  public start(): void {
+    if (this.started) {
+      return;
+    }
+
+    this.started = true;
+    this.syncAdditionalSessions(this.currentConfig);
+  }
+
+  public async stop(): Promise<void> {
+    this.started = false;
+    const entries = [...this.additionalSessions.values()];
+    this.additionalSessions.clear();
+
+    await Promise.all(entries.map((entry) => this.disposeEntry(entry)));
+  }
+
+  public async dispose(): Promise<void> {
+    await this.stop();
+    this.unsubscribePrimary();
+    this.telemetryListeners.clear();
+    this.stateListeners.clear();
+  }
+
+  public async handleConfigUpdated(
+    previousConfig: AppConfig,
+    nextConfig: AppConfig,
+  ): Promise<void> {
+    this.currentConfig = nextConfig;
+    await this.primary.handleConfigUpdated(previousConfig, nextConfig);
+
+    if (!this.started && !previousConfig.wizard.completed && nextConfig.wizard.completed) {
+      this.started = true;
+    }
+
+    if (!this.started) {
+      return;
+    }
+
+    const existing = [...this.additionalSessions.values()];
+    const removed = this.syncAdditionalSessions(nextConfig);
+    await Promise.all([
+      ...removed.map((entry) => this.disposeEntry(entry)),
+      ...existing
+        .filter((entry) => !removed.includes(entry))
+        .map((entry) => entry.session.handleConfigUpdated(previousConfig, nextConfig)),
+    ]);
+  }
+
+  public onTelemetryUpdated(listener: UpsSessionTelemetryListener): () => void {
+    this.telemetryListeners.add(listener);
+    return () => {
+      this.telemetryListeners.delete(listener);
+    };
+  }
+
+  public onConnectionStateChanged(listener: UpsSessionStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Creates sessions for newly configured targets and detaches the ones that
+   * were removed. Returns the detached entries so the caller can stop them.
+   */
+  private syncAdditionalSessions(config: AppConfig): SessionEntry[] {
+    const targetIds = new Set(
+      listUpsTargets(config)
+        .map((target) => target.id)
+        .filter((id) => id !== PRIMARY_UPS_ID),
+    );
+
+    const removed: SessionEntry[] = [];
+    for (const [upsId, entry] of this.additionalSessions) {
+      if (!targetIds.has(upsId)) {
+        this.additionalSessions.delete(upsId);
+        removed.push(entry);
+      }
+    }
+
+    for (const upsId of targetIds) {
+      if (this.additionalSessions.has(upsId)) {
+        continue;
+      }
+
+      const session = this.createSession(upsId);
+      this.additionalSessions.set(upsId, {
+        session,
+        unsubscribe: this.subscribe(session),
+      });
+      session.start();
+    }
+
+    return removed;
+  }
+
+  private subscribe(session: NutPollingService): () => void {
+    const upsId = session.getUpsId();
+    const unsubscribeTelemetry = session.onTelemetryUpdated((payload) => {
+      for (const listener of this.telemetryListeners) {
+        try {
+          listener(payload);
+        } catch (error) {
+          console.error('[UpsSessionRegistry] telemetry listener failed', error);
+        }
+      }
+    });
+    const unsubscribeState = session.onConnectionStateChanged((state) => {
+      for (const listener of this.stateListeners) {
+        try {
+          listener(upsId, state);
+        } catch (error) {
+          console.error('[UpsSessionRegistry] connection state listener failed', error);
+        }
+      }
+    });
+
+    return () => {
+      unsubscribeTelemetry();
+      unsubscribeState();
+    };
+  }
+
+  private async disposeEntry(entry: SessionEntry): Promise<void> {
+    entry.unsubscribe();
+    await entry.session.stop().catch((error: unknown) => {
+      console.error(
+        `[UpsSessionRegistry] Failed to stop session ${entry.session.getUpsId()}`,
+        error,
+      );
+    });
+  }
+}
@@ -0,0 +1,166 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, expect, it, vi } from 'vitest';
+import type { ShutdownPolicyContext } from '../../shared/shutdownPolicy/types';
+import {
+  PolicyActionRunner,
+  buildPolicyActionEnvironment,
+  type PolicyWebhookPayload,
+  type WebhookPoster,
+} from './PolicyActionRunner';
+import type { HookProcessRunner } from './PreShutdownHookRunner';
+
+function makeContext(): ShutdownPolicyContext {
+  return {
+    now: Date.parse('2026-05-14T00:00:00.000Z'),
+    ups: {
+      online: false,
+      onBattery: true,
+      lowBattery: true,
+      fsd: false,
+      statusTokens: ['OB', 'LB'],
+    },
+    battery: {
+      chargePercent: 18,
+      runtimeSeconds: 240,
+    },
+    connection: {
+      state: 'connected',
+      secondsSinceLastSuccessfulPoll: 1.6,
+    },
+    state: {
+      secondsOnBattery: 120.4,
+      secondsOnline: 0,
+      secondsLowBattery: 10,
+      secondsInFsd: 0,
+    },
+  };
+}
+
+describe('buildPolicyActionEnvironment()', () => {
+  it('exposes the decision context as UPS_* variables', () => {
+    const env = buildPolicyActionEnvironment(
+      { type: 'runCommand', ruleId: 'script', command: 'notify', args: [], timeoutSeconds: 5 },
+      makeContext(),
+    );
+
+    expect(env).toEqual({
+      UPS_POLICY_RULE_ID: 'script',
+      UPS_POLICY_RULE_NAME: 'script',
+      UPS_POLICY_TIMESTAMP: '2026-05-14T00:00:00.000Z',
+      UPS_STATUS: 'OB LB',
+      UPS_ONLINE: '0',
+      UPS_ON_BATTERY: '1',
+      UPS_LOW_BATTERY: '1',
+      UPS_FSD: '0',
+      UPS_CONNECTION_STATE: 'connected',
+      UPS_SECONDS_SINCE_LAST_POLL: '1',
+      UPS_SECONDS_ON_BATTERY: '120',
+      UPS_BATTERY_CHARGE: '18',
+      UPS_BATTERY_RUNTIME: '240',
+    });
+  });
+});
+
+describe('PolicyActionRunner.execute()', () => {
+  it('runs commands with the context environment and records their output', async () => {
+    const runProcess = vi.fn<HookProcessRunner>(async () => ({
+      exitCode: 0,
+      timedOut: false,
+      stdout: 'sent',
+      stderr: '',
+    }));
+    const runner = new PolicyActionRunner(runProcess);
+
+    const result = await runner.execute(
+      { type: 'runCommand', ruleId: 'script', command: 'notify', args: ['--all'], timeoutSeconds: 5 },
+      makeContext(),
+    );
+
+    expect(runProcess).toHaveBeenCalledWith(
+      'notify',
+      ['--all'],
+      5_000,
+      expect.objectContaining({ UPS_STATUS: 'OB LB', UPS_BATTERY_CHARGE: '18' }),
+    );
+    expect(result).toMatchObject({
+      type: 'runCommand',
+      target: 'notify --all',
+      success: true,
+      exitCode: 0,
+      stdout: 'sent',
+    });
+  });
+
+  it('passes the environment to real processes', async () => {
+    const runner = new PolicyActionRunner();
+
+    const result = await runner.execute(
+      {
+        type: 'runCommand',
+        ruleId: 'script',
+        command: process.execPath,
+        args: ['-e', 'process.stdout.write(process.env.UPS_STATUS); process.exit(4)'],
+        timeoutSeconds: 10,
+      },
+      makeContext(),
+    );
+
+    expect(result).toMatchObject({ success: false, exitCode: 4, stdout: 'OB LB' });
+  });
+
+  it('treats non-2xx webhook responses as failures', async () => {
+    const postWebhook = vi.fn<WebhookPoster>(async () => ({ statusCode: 503, timedOut: false }));
+    const runner = new PolicyActionRunner(undefined, postWebhook);
+
+    const result = await runner.execute(
+      { type: 'sendWebhook', ruleId: 'hook', url: 'https://hooks.example.com/ups', timeoutSeconds: 3 },
+      makeContext(),
+    );
+
+    expect(postWebhook).toHaveBeenCalledWith('https://hooks.example.com/ups', expect.any(String), 3_000);
+    expect(result).toMatchObject({
+      type: 'sendWebhook',
+      success: false,
+      statusCode: 503,
+      errorMessage: 'Webhook responded with HTTP 503',
+    });
+  });
+
+  it('posts the decision and context as JSON', async () => {
+    let received: { contentType?: string; body: string } | null = null;
+    const server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk: Buffer) => {
+        body += chunk.toString('utf8');
+      });
+      request.on('end', () => {
+        received = { contentType: request.headers['content-type'], body };
+        response.writeHead(204).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const runner = new PolicyActionRunner();
+      const result = await runner.execute(
+        { type: 'sendWebhook', ruleId: 'hook', url: `http://127.0.0.1:${port}/ups`, timeoutSeconds: 5 },
+        makeContext(),
+      );
+
+      expect(result).toMatchObject({ success: true, statusCode: 204 });
+      expect(received).not.toBeNull();
+      const payload = JSON.parse(received!.body) as PolicyWebhookPayload;
+      expect(received!.contentType).toBe('application/json');
+      expect(payload).toMatchObject({
+        event: 'shutdownPolicyDecision',
+        ruleId: 'hook',
+        decision: { type: 'sendWebhook' },
+        context: { ups: { statusTokens: ['OB', 'LB'] }, battery: { chargePercent: 18 } },
+      });
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
@@ -0,0 +1,203 @@
+import { formatCommandLine } from '../../shared/shutdownPolicy/explain';
+import type {
+  PolicyActionExecutionResult,
+  ShutdownPolicyContext,
+  ShutdownPolicyDecision,
+  ShutdownPolicyRule,
+} from '../../shared/shutdownPolicy/types';
+import {
+  runHookProcess,
+  truncateOutput,
+  type HookProcessRunner,
+} from './PreShutdownHookRunner';
+
+export type PolicyActionDecision = Extract<
+  ShutdownPolicyDecision,
+  { type: 'runCommand' } | { type: 'sendWebhook' }
+>;
+
+export type WebhookResponse = {
+  statusCode?: number;
+  timedOut: boolean;
+  errorMessage?: string;
+};
+
+/** Posts one JSON body. Must resolve, never reject, so every webhook leaves a log record. */
+export type WebhookPoster = (
+  url: string,
+  body: string,
+  timeoutMs: number,
+) => Promise<WebhookResponse>;
+
+export type PolicyWebhookPayload = {
+  event: 'shutdownPolicyDecision';
+  timestampIso: string;
+  ruleId: string;
+  ruleName?: string;
+  decision: PolicyActionDecision;
+  context: ShutdownPolicyContext;
+};
+
+export class PolicyActionRunner {
+  private readonly runProcess: HookProcessRunner;
+  private readonly postWebhook: WebhookPoster;
+
+  public constructor(
+    runProcess: HookProcessRunner = runHookProcess,
+    postWebhook: WebhookPoster = postJsonWebhook,
+  ) {
+    this.runProcess = runProcess;
+    this.postWebhook = postWebhook;
+  }
+
+  public execute(
+    decision: PolicyActionDecision,
+    context: ShutdownPolicyContext,
+    rule?: ShutdownPolicyRule,
+  ): Promise<PolicyActionExecutionResult> {
+    return decision.type === 'runCommand'
+      ? this.runCommand(decision, context, rule)
+      : this.sendWebhook(decision, context, rule);
+  }
+
+  private async runCommand(
+    decision: Extract<PolicyActionDecision, { type: 'runCommand' }>,
+    context: ShutdownPolicyContext,
+    rule?: ShutdownPolicyRule,
+  ): Promise<PolicyActionExecutionResult> {
+    const startedAt = Date.now();
+    const output = await this.runProcess(
+      decision.command,
+      decision.args,
+      decision.timeoutSeconds * 1000,
+      {
+        ...process.env,
+        ...buildPolicyActionEnvironment(decision, context, rule),
+      },
+    );
+
+    return {
+      type: 'runCommand',
+      target: formatCommandLine(decision.command, decision.args),
+      success: output.exitCode === 0 && !output.timedOut && !output.errorMessage,
+      durationMs: Date.now() - startedAt,
+      timedOut: output.timedOut,
+      exitCode: output.exitCode,
+      stdout: truncateOutput(output.stdout),
+      stderr: truncateOutput(output.stderr),
+      errorMessage: output.errorMessage,
+    };
+  }
+
+  private async sendWebhook(
+    decision: Extract<PolicyActionDecision, { type: 'sendWebhook' }>,
+    context: ShutdownPolicyContext,
+    rule?: ShutdownPolicyRule,
+  ): Promise<PolicyActionExecutionResult> {
+    const payload: PolicyWebhookPayload = {
+      event: 'shutdownPolicyDecision',
+      timestampIso: new Date(context.now).toISOString(),
+      ruleId: decision.ruleId,
+      ruleName: rule?.name,
+      decision,
+      context,
+    };
+
+    const startedAt = Date.now();
+    const response = await this.postWebhook(
+      decision.url,
+      JSON.stringify(payload),
+      decision.timeoutSeconds * 1000,
+    );
+    const statusOk = response.statusCode !== undefined &&
+      response.statusCode >= 200 &&
+      response.statusCode < 300;
+
+    return {
+      type: 'sendWebhook',
+      target: decision.url,
+      success: statusOk && !response.timedOut && !response.errorMessage,
+      durationMs: Date.now() - startedAt,
+      timedOut: response.timedOut,
+      statusCode: response.statusCode,
+      errorMessage: response.errorMessage ??
+        (statusOk ? undefined : `Webhook responded with HTTP ${response.statusCode}`),
+    };
+  }
+}
+
+/**
+ * Context exposed to `runCommand` scripts. Booleans are `1`/`0`; readings the
+ * UPS does not report are left unset rather than empty.
+ */
+export function buildPolicyActionEnvironment(
+  decision: PolicyActionDecision,
+  context: ShutdownPolicyContext,
+  rule?: ShutdownPolicyRule,
+): Record<string, string> {
+  const env: Record<string, string> = {
+    UPS_POLICY_RULE_ID: decision.ruleId,
+    UPS_POLICY_RULE_NAME: rule?.name ?? decision.ruleId,
+    UPS_POLICY_TIMESTAMP: new Date(context.now).toISOString(),
+    UPS_STATUS: context.ups.statusTokens.join(' '),
+    UPS_ONLINE: formatFlag(context.ups.online),
+    UPS_ON_BATTERY: formatFlag(context.ups.onBattery),
+    UPS_LOW_BATTERY: formatFlag(context.ups.lowBattery),
+    UPS_FSD: formatFlag(context.ups.fsd),
+    UPS_CONNECTION_STATE: context.connection.state,
+    UPS_SECONDS_SINCE_LAST_POLL: String(
+      Math.floor(context.connection.secondsSinceLastSuccessfulPoll),
+    ),
+    UPS_SECONDS_ON_BATTERY: String(Math.floor(context.state.secondsOnBattery)),
+  };
+
+  if (context.battery.chargePercent !== undefined) {
+    env.UPS_BATTERY_CHARGE = String(context.battery.chargePercent);
+  }
+  if (context.battery.runtimeSeconds !== undefined) {
+    env.UPS_BATTERY_RUNTIME = String(context.battery.runtimeSeconds);
+  }
+  if (context.battery.runtimeEstimated !== undefined) {
+    env.UPS_BATTERY_RUNTIME_ESTIMATED = formatFlag(context.battery.runtimeEstimated);
+  }
+  if (context.battery.voltage !== undefined) {
+    env.UPS_BATTERY_VOLTAGE = String(context.battery.voltage);
+  }
+
+  return env;
+}
+
+function formatFlag(value: boolean): string {
+  return value ? '1' : '0';
+}
+
+async function postJsonWebhook(
+  url: string,
+  body: string,
+  timeoutMs: number,
+): Promise<WebhookResponse> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      signal: controller.signal,
+    });
+    // Only the status matters; release the connection instead of reading the body.
+    await response.body?.cancel();
+    return { statusCode: response.status, timedOut: false };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return { timedOut: true, errorMessage: `Timed out after ${timeoutMs} ms` };
+    }
+    return {
+      timedOut: false,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PreShutdownHook } from '../../shared/shutdownPolicy/types';
+import {
+  PreShutdownHookRunner,
+  type HookProcessOutput,
+  type HookProcessRunner,
+} from './PreShutdownHookRunner';
+
+function makeHook(overrides: Partial<PreShutdownHook> = {}): PreShutdownHook {
+  return {
+    id: 'hook',
+    name: 'Hook',
+    enabled: true,
+    command: 'hook-command',
+    args: [],
+    timeoutSeconds: 5,
+    onFailure: 'continue',
+    ...overrides,
+  };
+}
+
+function output(overrides: Partial<HookProcessOutput> = {}): HookProcessOutput {
+  return {
+    exitCode: 0,
+    timedOut: false,
+    stdout: '',
+    stderr: '',
+    ...overrides,
+  };
+}
+
+describe('PreShutdownHookRunner.run()', () => {
+  it('runs enabled hooks in order and records their output', async () => {
+    const runProcess = vi.fn<HookProcessRunner>(async (command) =>
+      output({ stdout: `${command} done\n` }));
+    const runner = new PreShutdownHookRunner(runProcess);
+
+    const summary = await runner.run([
+      makeHook({ id: 'vms', command: 'stop-vms', args: ['--all'], timeoutSeconds: 60 }),
+      makeHook({ id: 'skipped', enabled: false }),
+      makeHook({ id: 'db', command: 'flush-db' }),
+    ]);
+
+    expect(runProcess.mock.calls).toEqual([
+      ['stop-vms', ['--all'], 60_000],
+      ['flush-db', [], 5_000],
+    ]);
+    expect(summary.abortedBy).toBeUndefined();
+    expect(summary.results.map((result) => [result.hookId, result.success, result.stdout]))
+      .toEqual([
+        ['vms', true, 'stop-vms done\n'],
+        ['db', true, 'flush-db done\n'],
+      ]);
+  });
+
+  it('continues past failing continue hooks and stops at failing abort hooks', async () => {
+    const runProcess = vi.fn<HookProcessRunner>(async (command) => {
+      if (command === 'flaky') {
+        return output({ exitCode: 2, stderr: 'not mounted' });
+      }
+      if (command === 'critical') {
+        return output({ exitCode: null, timedOut: true, errorMessage: 'Timed out after 5000 ms' });
+      }
+      return output();
+    });
+    const runner = new PreShutdownHookRunner(runProcess);
+
+    const summary = await runner.run([
+      makeHook({ id: 'flaky', command: 'flaky' }),
+      makeHook({ id: 'critical', command: 'critical', onFailure: 'abort' }),
+      makeHook({ id: 'never', command: 'never' }),
+    ]);
+
+    expect(runProcess).toHaveBeenCalledTimes(2);
+    expect(summary.results[0]).toMatchObject({ success: false, exitCode: 2, stderr: 'not mounted' });
+    expect(summary.abortedBy).toMatchObject({ hookId: 'critical', timedOut: true });
+  });
+
+  it('runs no further hooks once cancelled', async () => {
+    let cancelled = false;
+    const runProcess = vi.fn<HookProcessRunner>(async () => {
+      cancelled = true;
+      return output();
+    });
+    const runner = new PreShutdownHookRunner(runProcess);
+
+    const summary = await runner.run(
+      [makeHook({ id: 'first' }), makeHook({ id: 'second' })],
+      () => cancelled,
+    );
+
+    expect(runProcess).toHaveBeenCalledTimes(1);
+    expect(summary).toMatchObject({ cancelled: true });
+    expect(summary.results.map((result) => result.hookId)).toEqual(['first']);
+  });
+
+  it('keeps the tail of long output', async () => {
+    const runner = new PreShutdownHookRunner(async () =>
+      output({ stdout: `${'x'.repeat(5000)}END` }));
+
+    const { results } = await runner.run([makeHook()]);
+
+    expect(results[0].stdout.length).toBeLessThan(4100);
+    expect(results[0].stdout.endsWith('END')).toBe(true);
+  });
+
+  it('executes real processes and captures exit codes', async () => {
+    const runner = new PreShutdownHookRunner();
+
+    const { results } = await runner.run([
+      makeHook({
+        command: process.execPath,
+        args: ['-e', 'process.stdout.write("flushed"); process.stderr.write("warn"); process.exit(3)'],
+      }),
+    ]);
+
+    expect(results[0]).toMatchObject({
+      success: false,
+      exitCode: 3,
+      stdout: 'flushed',
+      stderr: 'warn',
+      timedOut: false,
+    });
+  });
+});
+
+describe('PreShutdownHookRunner.dryRun()', () => {
+  it('resolves commands without running them', async () => {
+    const runProcess = vi.fn<HookProcessRunner>();
+    const runner = new PreShutdownHookRunner(runProcess, async (command) =>
+      command === 'stop-vms' ? '/usr/local/bin/stop-vms' : null);
+
+    const results = await runner.dryRun([
+      makeHook({ id: 'vms', command: 'stop-vms' }),
+      makeHook({ id: 'missing', command: 'missing-tool' }),
+      makeHook({ id: 'off', enabled: false }),
+    ]);
+
+    expect(runProcess).not.toHaveBeenCalled();
+    expect(results).toEqual([
+      expect.objectContaining({
+        hookId: 'vms',
+        success: true,
+        dryRun: true,
+        resolvedPath: '/usr/local/bin/stop-vms',
+      }),
+      expect.objectContaining({
+        hookId: 'missing',
+        success: false,
+        errorMessage: 'Command not found: missing-tool',
+      }),
+    ]);
+  });
+
+  it('finds executables by absolute path with the default resolver', async () => {
+    const runner = new PreShutdownHookRunner();
+
+    const [result] = await runner.dryRun([makeHook({ command: process.execPath })]);
+
+    expect(result.success).toBe(true);
+    expect(result.resolvedPath).toBe(process.execPath);
+  });
+});
@@ -0,0 +1,210 @@
+import { execFile } from 'node:child_process';
+import { access, constants as fsConstants } from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  PreShutdownHook,
+  PreShutdownHookResult,
+} from '../../shared/shutdownPolicy/types';
+
+const MAX_HOOK_OUTPUT_CHARS = 4000;
+const MAX_HOOK_BUFFER_BYTES = 1024 * 1024;
+
+export type HookProcessOutput = {
+  exitCode: number | null;
+  signal?: string;
+  timedOut: boolean;
+  stdout: string;
+  stderr: string;
+  errorMessage?: string;
+};
+
+/** Spawns one hook process. Must resolve, never reject, so every hook leaves a log record. */
+export type HookProcessRunner = (
+  command: string,
+  args: string[],
+  timeoutMs: number,
+  env?: NodeJS.ProcessEnv,
+) => Promise<HookProcessOutput>;
+
+/** Returns the absolute path that would be executed, or null when it cannot be found. */
+export type HookCommandResolver = (command: string) => Promise<string | null>;
+
+export type PreShutdownHookRunSummary = {
+  results: PreShutdownHookResult[];
+  /** Set when a failing hook with `onFailure: 'abort'` stopped the shutdown. */
+  abortedBy?: PreShutdownHookResult;
+  /** Set when the shutdown was cancelled before the remaining hooks ran. */
+  cancelled?: boolean;
+};
+
+export class PreShutdownHookRunner {
+  private readonly runProcess: HookProcessRunner;
+  private readonly resolveCommand: HookCommandResolver;
+
+  public constructor(
+    runProcess: HookProcessRunner = runHookProcess,
+    resolveCommand: HookCommandResolver = resolveHookCommand,
+  ) {
+    this.runProcess = runProcess;
+    this.resolveCommand = resolveCommand;
+  }
+
+  /**
+   * Runs enabled hooks one after another, stopping at the first failing abort
+   * hook, or before the next hook once `isCancelled` turns true.
+   */
+  public async run(
+    hooks: PreShutdownHook[],
+    isCancelled: () => boolean = () => false,
+  ): Promise<PreShutdownHookRunSummary> {
+    const results: PreShutdownHookResult[] = [];
+
+    for (const hook of hooks) {
+      if (!hook.enabled) {
+        continue;
+      }
+      if (isCancelled()) {
+        return { results, cancelled: true };
+      }
+
+      const startedAt = Date.now();
+      const output = await this.runProcess(
+        hook.command,
+        hook.args,
+        hook.timeoutSeconds * 1000,
+      );
+      const result: PreShutdownHookResult = {
+        hookId: hook.id,
+        name: hook.name,
+        command: hook.command,
+        args: [...hook.args],
+        success: output.exitCode === 0 && !output.timedOut && !output.errorMessage,
+        exitCode: output.exitCode,
+        signal: output.signal,
+        timedOut: output.timedOut,
+        durationMs: Date.now() - startedAt,
+        stdout: truncateOutput(output.stdout),
+        stderr: truncateOutput(output.stderr),
+        errorMessage: output.errorMessage,
+      };
+      results.push(result);
+
+      if (!result.success && hook.onFailure === 'abort') {
+        return { results, abortedBy: result };
+      }
+    }
+
+    return { results };
+  }
+
+  /**
+   * Checks that every enabled hook's executable can be found without running
+   * anything, because real hooks stop VMs and unmount shares.
+   */
+  public async dryRun(hooks: PreShutdownHook[]): Promise<PreShutdownHookResult[]> {
+    const results: PreShutdownHookResult[] = [];
+
+    for (const hook of hooks) {
+      if (!hook.enabled) {
+        continue;
+      }
+
+      const resolvedPath = await this.resolveCommand(hook.command);
+      results.push({
+        hookId: hook.id,
+        name: hook.name,
+        command: hook.command,
+        args: [...hook.args],
+        success: resolvedPath !== null,
+        dryRun: true,
+        exitCode: null,
+        timedOut: false,
+        durationMs: 0,
+        stdout: '',
+        stderr: '',
+        ...(resolvedPath
+          ? { resolvedPath }
+          : { errorMessage: `Command not found: ${hook.command}` }),
+      });
+    }
+
+    return results;
+  }
+}
+
+export function truncateOutput(output: string): string {
+  if (output.length <= MAX_HOOK_OUTPUT_CHARS) {
+    return output;
+  }
+
+  // The end of a script's output usually explains why it failed.
+  return `...${output.slice(output.length - MAX_HOOK_OUTPUT_CHARS)}`;
+}
+
+export function runHookProcess(
+  command: string,
+  args: string[],
+  timeoutMs: number,
+  env?: NodeJS.ProcessEnv,
+): Promise<HookProcessOutput> {
+  return new Promise((resolve) => {
+    execFile(
+      command,
+      args,
+      {
+        timeout: timeoutMs,
+        env,
+        maxBuffer: MAX_HOOK_BUFFER_BYTES,
+        windowsHide: true,
+      },
+      (error, stdout, stderr) => {
+        if (!error) {
+          resolve({ exitCode: 0, timedOut: false, stdout, stderr });
+          return;
+        }
+
+        const exitCode = typeof error.code === 'number' ? error.code : null;
+        const timedOut = error.killed === true && exitCode === null;
+        resolve({
+          exitCode,
+          signal: error.signal ?? undefined,
+          timedOut,
+          stdout: String(stdout ?? ''),
+          stderr: String(stderr ?? ''),
+          // A non-zero exit is reported through exitCode; anything else
+          // (ENOENT, timeout, buffer overflow) needs an explicit message.
+          errorMessage: exitCode === null
+            ? (timedOut ? `Timed out after ${timeoutMs} ms` : error.message)
+            : undefined,
+        });
+      },
+    );
+  });
+}
+
+async function resolveHookCommand(command: string): Promise<string | null> {
+  const mode = process.platform === 'win32' ? fsConstants.F_OK : fsConstants.X_OK;
+  const extensions = process.platform === 'win32'
+    ? ['', ...(process.env.PATHEXT ?? '.EXE;.CMD;.BAT;.COM').split(';')]
+    : [''];
+
+  const candidates = command.includes('/') || command.includes('\\')
+    ? [path.resolve(command)]
+    : (process.env.PATH ?? '')
+      .split(path.delimiter)
+      .filter(Boolean)
+      .map((directory) => path.join(directory, command));
+
+  for (const candidate of candidates) {
+    for (const extension of extensions) {
+      try {
+        await access(`${candidate}${extension}`, mode);
+        return `${candidate}${extension}`;
+      } catch {
+        // try the next candidate
+      }
+    }
+  }
+
+  return null;
+}
@@ -6,7 +6,19 @@ vi.mock('node:child_process', () => ({
 }));
 
 import { exec } from 'node:child_process';
-import { ShutdownExecutor } from './ShutdownExecutor';
+import type {
+  PreShutdownHook,
+  PreShutdownHookResult,
+} from '../../shared/shutdownPolicy/types';
+import {
+  PreShutdownHookRunner,
+  type HookProcessOutput,
+} from './PreShutdownHookRunner';
+import {
+  getCancelCommand,
+  getShutdownCommands,
+  ShutdownExecutor,
+} from './ShutdownExecutor';
 
 const execMock = vi.mocked(exec);
 
@@ -16,6 +28,7 @@ function setPlatform(platform: string): void {
 
 beforeEach(() => {
   setPlatform('win32');
+  execMock.mockClear();
   execMock.mockImplementation((_cmd, cb) => {
     (cb as (err: Error | null) => void)(null);
     return {} as ReturnType<typeof exec>;
@@ -23,8 +36,8 @@ beforeEach(() => {
 });
 
 describe('ShutdownExecutor.execute()', () => {
-  it('returns unsupported when platform is not win32', async () => {
-    setPlatform('linux');
+  it('returns unsupported on platforms without a shutdown command', async () => {
+    setPlatform('freebsd');
     const executor = new ShutdownExecutor();
     const result = await executor.execute('shutdown');
     expect(result.supported).toBe(false);
@@ -136,3 +149,328 @@ describe('ShutdownExecutor.cancelPending()', () => {
     expect(executor.getActiveMethod()).toBeNull();
   });
 });
+
+describe('ShutdownExecutor on Linux and macOS', () => {
+  function createRecordingExecutor(failingCommands: string[] = []) {
+    const commands: string[] = [];
+    const executor = new ShutdownExecutor(async (command) => {
+      commands.push(command);
+      if (failingCommands.includes(command)) {
+        throw new Error(`${command} failed`);
+      }
+    });
+    return { executor, commands };
+  }
+
+  it('powers off and suspends through systemctl on linux', async () => {
+    setPlatform('linux');
+    const shutdown = createRecordingExecutor();
+    const sleep = createRecordingExecutor();
+
+    await expect(shutdown.executor.execute('shutdown')).resolves.toMatchObject({
+      success: true,
+      command: 'systemctl poweroff',
+    });
+    await expect(sleep.executor.execute('sleep')).resolves.toMatchObject({
+      success: true,
+      command: 'systemctl suspend',
+    });
+    expect(shutdown.commands).toEqual(['systemctl poweroff']);
+    expect(sleep.commands).toEqual(['systemctl suspend']);
+    expect(execMock).not.toHaveBeenCalled();
+  });
+
+  it('falls back to shutdown -h when systemctl is unavailable', async () => {
+    setPlatform('linux');
+    const { executor, commands } = createRecordingExecutor(['systemctl poweroff']);
+
+    const result = await executor.execute('shutdown');
+
+    expect(commands).toEqual(['systemctl poweroff', 'shutdown -h now']);
+    expect(result.success).toBe(true);
+    expect(result.command).toBe('shutdown -h now');
+    expect(result.message).toContain('systemctl poweroff failed');
+  });
+
+  it('reports every attempt when all linux commands fail', async () => {
+    setPlatform('linux');
+    const { executor } = createRecordingExecutor(['systemctl poweroff', 'shutdown -h now']);
+
+    const result = await executor.execute('shutdown');
+
+    expect(result.success).toBe(false);
+    expect(result.errorMessage).toBe(
+      'systemctl poweroff: systemctl poweroff failed; shutdown -h now: shutdown -h now failed',
+    );
+    expect(executor.isShutdownScheduled()).toBe(false);
+  });
+
+  it('cancels a pending linux shutdown with shutdown -c', async () => {
+    setPlatform('linux');
+    const { executor, commands } = createRecordingExecutor();
+    await executor.execute('shutdown');
+
+    const result = await executor.cancelPending();
+
+    expect(result).toMatchObject({ success: true, command: 'shutdown -c' });
+    expect(commands).toEqual(['systemctl poweroff', 'shutdown -c']);
+  });
+
+  it('uses pmset and shutdown on macOS', async () => {
+    setPlatform('darwin');
+    const shutdown = createRecordingExecutor();
+    const sleep = createRecordingExecutor();
+
+    await shutdown.executor.execute('shutdown');
+    await shutdown.executor.cancelPending();
+    await sleep.executor.execute('sleep');
+
+    expect(shutdown.commands).toEqual(['shutdown -h now', 'killall shutdown']);
+    expect(sleep.commands).toEqual(['pmset sleepnow']);
+  });
+});
+
+describe('ShutdownExecutor pre-shutdown hooks', () => {
+  function createHookRunner(abort: boolean) {
+    const run = vi.fn(async () => {
+      const result: PreShutdownHookResult = {
+        hookId: 'stop-vms',
+        name: 'Stop VMs',
+        command: 'stop-vms',
+        args: [],
+        success: !abort,
+        exitCode: abort ? 1 : 0,
+        timedOut: false,
+        durationMs: 10,
+        stdout: 'stopping',
+        stderr: abort ? 'vm busy' : '',
+      };
+      return abort ? { results: [result], abortedBy: result } : { results: [result] };
+    });
+    return { run, runner: { run } as unknown as PreShutdownHookRunner };
+  }
+
+  const hook: PreShutdownHook = {
+    id: 'stop-vms',
+    name: 'Stop VMs',
+    enabled: true,
+    command: 'stop-vms',
+    args: [],
+    timeoutSeconds: 30,
+    onFailure: 'abort',
+  };
+
+  it('runs hooks before the shutdown command and returns their results', async () => {
+    setPlatform('linux');
+    const commands: string[] = [];
+    const { run, runner } = createHookRunner(false);
+    const executor = new ShutdownExecutor(async (command) => {
+      expect(run).toHaveBeenCalledOnce();
+      commands.push(command);
+    }, runner);
+
+    const result = await executor.execute('shutdown', [hook]);
+
+    expect(run).toHaveBeenCalledWith([hook], expect.any(Function));
+    expect(commands).toEqual(['systemctl poweroff']);
+    expect(result.success).toBe(true);
+    expect(result.hooks?.[0]).toMatchObject({ hookId: 'stop-vms', stdout: 'stopping' });
+  });
+
+  it('skips the shutdown command when an abort hook fails', async () => {
+    setPlatform('linux');
+    const commands: string[] = [];
+    const { runner } = createHookRunner(true);
+    const executor = new ShutdownExecutor(async (command) => {
+      commands.push(command);
+    }, runner);
+
+    const result = await executor.execute('shutdown', [hook]);
+
+    expect(commands).toEqual([]);
+    expect(result.success).toBe(false);
+    expect(result.command).toBeUndefined();
+    expect(result.message).toContain('Stop VMs');
+    expect(result.errorMessage).toBe('Exited with code 1');
+    expect(result.hooks).toHaveLength(1);
+    expect(executor.isShutdownScheduled()).toBe(false);
+  });
+
+  it('stops a run whose hooks are still running when it is cancelled', async () => {
+    setPlatform('linux');
+    const commands: string[] = [];
+    const { run, runner } = createHookRunner(false);
+    let finishHooks: () => void = () => undefined;
+    run.mockImplementation(() => new Promise((resolve) => {
+      finishHooks = () => resolve({ results: [] });
+    }));
+    const executor = new ShutdownExecutor(async (command) => {
+      commands.push(command);
+    }, runner);
+
+    const execution = executor.execute('shutdown', [hook]);
+    expect(executor.canCancelPending()).toBe(true);
+    const cancellation = await executor.cancelPending();
+    finishHooks();
+    const result = await execution;
+
+    expect(cancellation).toMatchObject({ success: true });
+    expect(cancellation.command).toBeUndefined();
+    expect(result).toMatchObject({ success: false, cancelled: true });
+    expect(commands).toEqual([]);
+    expect(executor.isShutdownScheduled()).toBe(false);
+  });
+
+  it('runs no further hooks once the shutdown is cancelled', async () => {
+    setPlatform('linux');
+    const commands: string[] = [];
+    let finishFirstHook: () => void = () => undefined;
+    const runProcess = vi.fn((command: string) => new Promise<HookProcessOutput>((resolve) => {
+      if (command === 'stop-vms') {
+        finishFirstHook = () => resolve({ exitCode: 0, timedOut: false, stdout: '', stderr: '' });
+      }
+    }));
+    const executor = new ShutdownExecutor(async (command) => {
+      commands.push(command);
+    }, new PreShutdownHookRunner(runProcess));
+
+    const execution = executor.execute('shutdown', [
+      hook,
+      { ...hook, id: 'unmount-shares', name: 'Unmount shares', command: 'unmount-shares' },
+    ]);
+    await vi.waitFor(() => expect(runProcess).toHaveBeenCalledOnce());
+    const cancellation = await executor.cancelPending();
+    finishFirstHook();
+    const result = await execution;
+
+    expect(cancellation).toMatchObject({ success: true });
+    expect(runProcess).toHaveBeenCalledTimes(1);
+    expect(runProcess).not.toHaveBeenCalledWith('unmount-shares', [], 30000);
+    expect(result).toMatchObject({ success: false, cancelled: true });
+    expect(result.hooks?.map((entry) => entry.hookId)).toEqual(['stop-vms']);
+    expect(commands).toEqual([]);
+  });
+
+  it('starts the hooks of a new run only after the cancelled run\'s hook ends', async () => {
+    setPlatform('linux');
+    const finishers: Array<() => void> = [];
+    const runProcess = vi.fn(() => new Promise<HookProcessOutput>((resolve) => {
+      finishers.push(() => resolve({ exitCode: 0, timedOut: false, stdout: '', stderr: '' }));
+    }));
+    const executor = new ShutdownExecutor(async () => undefined, new PreShutdownHookRunner(runProcess));
+
+    const first = executor.execute('shutdown', [hook]);
+    await vi.waitFor(() => expect(runProcess).toHaveBeenCalledOnce());
+    await executor.cancelPending();
+    const second = executor.execute('shutdown', [hook]);
+    await Promise.resolve();
+
+    expect(runProcess).toHaveBeenCalledTimes(1);
+    finishers[0]();
+    await expect(first).resolves.toMatchObject({ cancelled: true });
+    await vi.waitFor(() => expect(runProcess).toHaveBeenCalledTimes(2));
+    finishers[1]();
+    await expect(second).resolves.toMatchObject({ success: true });
+  });
+
+  it('coordinates with upsd after the hooks and before the shutdown command', async () => {
+    setPlatform('linux');
+    const order: string[] = [];
+    const { run, runner } = createHookRunner(false);
+    run.mockImplementation(async () => {
+      order.push('hooks');
+      return { results: [] };
+    });
+    const executor = new ShutdownExecutor(async (command) => {
+      order.push(command);
+    }, runner);
+
+    const result = await executor.execute('shutdown', [hook], async () => {
+      order.push('coordinate');
+      return [{ step: 'fsd', success: true, durationMs: 5, message: 'Raised FSD on ups.' }];
+    });
+
+    expect(order).toEqual(['hooks', 'coordinate', 'systemctl poweroff']);
+    expect(result.coordination).toEqual([
+      { step: 'fsd', success: true, durationMs: 5, message: 'Raised FSD on ups.' },
+    ]);
+  });
+
+  it('refuses to cancel once the coordination has raised FSD', async () => {
+    setPlatform('linux');
+    const commands: string[] = [];
+    const { runner } = createHookRunner(false);
+    let finishCoordination: () => void = () => undefined;
+    let fsdRaised: () => void = () => undefined;
+    const raised = new Promise<void>((resolve) => {
+      fsdRaised = resolve;
+    });
+    const executor = new ShutdownExecutor(async (command) => {
+      commands.push(command);
+    }, runner);
+
+    const execution = executor.execute('shutdown', [hook], (control) => {
+      control.markIrrevocable();
+      fsdRaised();
+      return new Promise((resolve) => {
+        finishCoordination = () => resolve([
+          { step: 'fsd', success: true, durationMs: 5, message: 'Raised FSD on ups.' },
+        ]);
+      });
+    });
+    await raised;
+    expect(executor.canCancelPending()).toBe(false);
+    const cancellation = await executor.cancelPending();
+    finishCoordination();
+    const result = await execution;
+
+    expect(cancellation).toMatchObject({ success: false, irrevocable: true });
+    expect(result.success).toBe(true);
+    expect(commands).toEqual(['systemctl poweroff']);
+  });
+
+  it('lets the coordination see a cancellation made before FSD', async () => {
+    setPlatform('linux');
+    const commands: string[] = [];
+    const { runner } = createHookRunner(false);
+    let finishLogin: () => void = () => undefined;
+    let loggingIn: () => void = () => undefined;
+    const started = new Promise<void>((resolve) => {
+      loggingIn = resolve;
+    });
+    const executor = new ShutdownExecutor(async (command) => {
+      commands.push(command);
+    }, runner);
+
+    const execution = executor.execute('shutdown', [hook], async (control) => {
+      loggingIn();
+      await new Promise<void>((resolve) => {
+        finishLogin = resolve;
+      });
+      return [{
+        step: 'fsd',
+        success: !control.isCancelled(),
+        durationMs: 0,
+        message: control.isCancelled() ? 'Cancelled.' : 'Raised FSD on ups.',
+      }];
+    });
+    await started;
+    const cancellation = await executor.cancelPending();
+    finishLogin();
+    const result = await execution;
+
+    expect(cancellation.success).toBe(true);
+    expect(result).toMatchObject({ success: false, cancelled: true });
+    expect(result.coordination?.[0]).toMatchObject({ step: 'fsd', success: false });
+    expect(commands).toEqual([]);
+  });
+});
+
+describe('shutdown command tables', () => {
+  it('has no cancel command for sleep or unsupported platforms', () => {
+    expect(getCancelCommand('linux', 'sleep')).toBeNull();
+    expect(getCancelCommand('freebsd', 'shutdown')).toBeNull();
+    expect(getShutdownCommands('freebsd', 'shutdown')).toBeNull();
+    expect(getShutdownCommands('win32', 'shutdown')).toEqual(['shutdown.exe /s /f /t 0']);
+  });
+});
@@ -1,8 +1,12 @@
 import { exec } from 'node:child_process';
 import type {
+  PreShutdownHook,
+  PreShutdownHookResult,
   ShutdownMethod,
   ShutdownPolicyPlatform,
+  UpsdCoordinationStep,
 } from '../../shared/shutdownPolicy/types';
+import { PreShutdownHookRunner } from './PreShutdownHookRunner';
 
 export type ShutdownExecutionResult = {
   method: ShutdownMethod;
@@ -12,11 +16,45 @@ export type ShutdownExecutionResult = {
   command?: string;
   message?: string;
   errorMessage?: string;
+  /** Set when `cancelPending` stopped the run before any shutdown command ran. */
+  cancelled?: boolean;
+  /** Set when `cancelPending` was refused because FSD had already been raised on upsd. */
+  irrevocable?: boolean;
+  hooks?: PreShutdownHookResult[];
+  coordination?: UpsdCoordinationStep[];
 };
 
+/**
+ * Lets the upsd coordination see a cancellation before it raises FSD, and
+ * tell the executor once it has, since FSD cannot be taken back.
+ */
+export type UpsdCoordinationControl = {
+  isCancelled: () => boolean;
+  markIrrevocable: () => void;
+};
+
+/** Runs one shell command and rejects when it cannot be started or exits non-zero. */
+export type ShutdownCommandRunner = (command: string) => Promise<void>;
+
 export class ShutdownExecutor {
+  private readonly runCommand: ShutdownCommandRunner;
+  private readonly hookRunner: PreShutdownHookRunner;
   private shutdownScheduled = false;
   private activeMethod: ShutdownMethod | null = null;
+  /** Bumped by each run and each cancellation, so a cancelled run can tell it was. */
+  private runGeneration = 0;
+  private commandIssued = false;
+  private irrevocable = false;
+  /** The hooks of the latest run, which a run started after a cancel waits for. */
+  private hookRunInFlight: Promise<unknown> = Promise.resolve();
+
+  public constructor(
+    runCommand: ShutdownCommandRunner = execCommand,
+    hookRunner: PreShutdownHookRunner = new PreShutdownHookRunner(),
+  ) {
+    this.runCommand = runCommand;
+    this.hookRunner = hookRunner;
+  }
 
   public isShutdownScheduled(): boolean {
     return this.shutdownScheduled;
@@ -26,11 +64,28 @@ export class ShutdownExecutor {
     return this.activeMethod;
   }
 
-  public async execute(method: ShutdownMethod): Promise<ShutdownExecutionResult> {
+  /**
+   * False once the current run has raised FSD on upsd, and once it has issued
+   * a shutdown command.
+   */
+  public canCancelPending(): boolean {
+    return !this.shutdownScheduled || (!this.commandIssued && !this.irrevocable);
+  }
+
+  /**
+   * Runs the pre-shutdown hooks in order, then the upsd coordination when
+   * given, then the platform shutdown command. Coordination must not reject.
+   */
+  public async execute(
+    method: ShutdownMethod,
+    preShutdownHooks: PreShutdownHook[] = [],
+    coordinate?: (control: UpsdCoordinationControl) => Promise<UpsdCoordinationStep[]>,
+  ): Promise<ShutdownExecutionResult> {
     const platform = process.platform as ShutdownPolicyPlatform;
-    const command = getShutdownCommand(platform, method);
+    const commands = getShutdownCommands(platform, method);
+    const command = commands?.[0];
 
-    if (!command) {
+    if (!commands || !command) {
       return {
         method,
         platform,
@@ -63,17 +118,32 @@ export class ShutdownExecutor {
 
     this.shutdownScheduled = true;
     this.activeMethod = method;
+    this.commandIssued = false;
+    this.irrevocable = false;
+    this.runGeneration += 1;
+    const generation = this.runGeneration;
+    const cancelled = (extra: Partial<ShutdownExecutionResult> = {}): ShutdownExecutionResult => ({
+      method,
+      platform,
+      supported: true,
+      success: false,
+      cancelled: true,
+      message: 'The shutdown was cancelled before the shutdown command ran.',
+      ...extra,
+    });
 
-    try {
-      await execCommand(command);
-      return {
-        method,
-        platform,
-        supported: true,
-        success: true,
-        command,
-      };
-    } catch (error) {
+    // A cancelled run stops before its next hook, but the hook it is in still
+    // finishes; the new run must not start its hooks alongside it.
+    await this.hookRunInFlight;
+    const isCancelled = () => generation !== this.runGeneration;
+    const hookRunning = this.hookRunner.run(preShutdownHooks, isCancelled);
+    this.hookRunInFlight = hookRunning.catch((): undefined => undefined);
+    const hookRun = await hookRunning;
+    const hooks = hookRun.results.length > 0 ? { hooks: hookRun.results } : {};
+    if (isCancelled()) {
+      return cancelled(hooks);
+    }
+    if (hookRun.abortedBy) {
       this.shutdownScheduled = false;
       this.activeMethod = null;
       return {
@@ -81,10 +151,66 @@ export class ShutdownExecutor {
         platform,
         supported: true,
         success: false,
-        command,
-        errorMessage: error instanceof Error ? error.message : String(error),
+        message: `Pre-shutdown hook "${hookRun.abortedBy.name}" failed; shutdown aborted.`,
+        errorMessage: formatHookFailure(hookRun.abortedBy),
+        ...hooks,
       };
     }
+
+    const control: UpsdCoordinationControl = {
+      isCancelled,
+      markIrrevocable: () => {
+        if (generation === this.runGeneration) {
+          this.irrevocable = true;
+        }
+      },
+    };
+    const coordination = coordinate ? { coordination: await coordinate(control) } : {};
+
+    const failures: Array<{ command: string; message: string }> = [];
+    for (const candidate of commands) {
+      if (generation !== this.runGeneration) {
+        return cancelled({ ...hooks, ...coordination });
+      }
+      try {
+        this.commandIssued = true;
+        await this.runCommand(candidate);
+        return {
+          method,
+          platform,
+          supported: true,
+          success: true,
+          command: candidate,
+          ...(failures.length > 0
+            ? { message: `Fell back to "${candidate}" after: ${formatFailures(failures)}` }
+            : {}),
+          ...hooks,
+          ...coordination,
+        };
+      } catch (error) {
+        failures.push({
+          command: candidate,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.shutdownScheduled = false;
+    this.activeMethod = null;
+    this.commandIssued = false;
+    this.irrevocable = false;
+    return {
+      method,
+      platform,
+      supported: true,
+      success: false,
+      command: commands[commands.length - 1],
+      errorMessage: failures.length === 1
+        ? failures[0].message
+        : formatFailures(failures),
+      ...hooks,
+      ...coordination,
+    };
   }
 
   public async cancelPending(): Promise<ShutdownExecutionResult> {
@@ -101,10 +227,38 @@ export class ShutdownExecutor {
       };
     }
 
+    if (this.irrevocable) {
+      return {
+        method,
+        platform,
+        supported: true,
+        success: false,
+        irrevocable: true,
+        message: 'FSD has been raised on upsd, so the shutdown can no longer be cancelled.',
+      };
+    }
+
+    if (!this.commandIssued) {
+      // The run is still in its hooks or coordination; it sees the new
+      // generation and stops.
+      this.runGeneration += 1;
+      this.shutdownScheduled = false;
+      this.activeMethod = null;
+      return {
+        method,
+        platform,
+        supported: true,
+        success: true,
+        message: 'The shutdown was cancelled before the shutdown command ran.',
+      };
+    }
+
     const command = getCancelCommand(platform, this.activeMethod);
     if (!command) {
       this.shutdownScheduled = false;
       this.activeMethod = null;
+      this.commandIssued = false;
+      this.irrevocable = false;
       return {
         method,
         platform,
@@ -115,7 +269,7 @@ export class ShutdownExecutor {
     }
 
     try {
-      await execCommand(command);
+      await this.runCommand(command);
       return {
         method,
         platform,
@@ -135,32 +289,70 @@ export class ShutdownExecutor {
     } finally {
       this.shutdownScheduled = false;
       this.activeMethod = null;
+      this.commandIssued = false;
+      this.irrevocable = false;
     }
   }
 }
 
-function getShutdownCommand(
+/**
+ * Commands that carry out a shutdown method on the given platform, in the order
+ * they should be tried. Later entries are fallbacks for hosts where the first
+ * command is unavailable, e.g. Linux machines without systemd.
+ */
+export function getShutdownCommands(
   platform: ShutdownPolicyPlatform,
   method: ShutdownMethod,
-): string | null {
-  if (platform !== 'win32') {
-    return null;
+): string[] | null {
+  switch (platform) {
+    case 'win32':
+      return method === 'sleep'
+        ? ['rundll32.exe powrprof.dll,SetSuspendState 0,1,0']
+        : ['shutdown.exe /s /f /t 0'];
+    case 'linux':
+      return method === 'sleep'
+        ? ['systemctl suspend']
+        : ['systemctl poweroff', 'shutdown -h now'];
+    case 'darwin':
+      return method === 'sleep' ? ['pmset sleepnow'] : ['shutdown -h now'];
+    default:
+      return null;
   }
-
-  return method === 'sleep'
-    ? 'rundll32.exe powrprof.dll,SetSuspendState 0,1,0'
-    : 'shutdown.exe /s /f /t 0';
 }
 
-function getCancelCommand(
+export function getCancelCommand(
   platform: ShutdownPolicyPlatform,
   method: ShutdownMethod | null,
 ): string | null {
-  if (platform === 'win32' && method === 'shutdown') {
-    return 'shutdown.exe /a';
+  if (method !== 'shutdown') {
+    return null;
   }
 
-  return null;
+  switch (platform) {
+    case 'win32':
+      return 'shutdown.exe /a';
+    case 'linux':
+      return 'shutdown -c';
+    case 'darwin':
+      // macOS has no "shutdown -c"; stopping the pending shutdown process cancels it.
+      return 'killall shutdown';
+    default:
+      return null;
+  }
+}
+
+function formatHookFailure(result: PreShutdownHookResult): string {
+  if (result.errorMessage) {
+    return result.errorMessage;
+  }
+
+  return result.signal
+    ? `Exited with signal ${result.signal}`
+    : `Exited with code ${result.exitCode}`;
+}
+
+function formatFailures(failures: Array<{ command: string; message: string }>): string {
+  return failures.map((failure) => `${failure.command}: ${failure.message}`).join('; ');
 }
 
 function execCommand(command: string): Promise<void> {
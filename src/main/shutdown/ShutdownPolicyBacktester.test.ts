@@ -0,0 +1,202 @@
+import { describe, expect, it } from 'vitest';
+import type { TelemetryDataPoint } from '../../shared/ipc/contracts';
+import type {
+  ShutdownPolicyConfig,
+  ShutdownPolicyRule,
+} from '../../shared/shutdownPolicy/types';
+import { defaultShutdownPolicyConfig } from './schema/shutdownPolicySchema';
+import {
+  ShutdownPolicyBacktester,
+  runShutdownPolicyBacktest,
+} from './ShutdownPolicyBacktester';
+
+const START_MS = Date.parse('2026-10-13T09:00:00.000Z');
+const RANGE = {
+  startIso: '2026-10-13T09:00:00.000Z',
+  endIso: '2026-10-13T12:00:00.000Z',
+};
+
+describe('ShutdownPolicyBacktester', () => {
+  it('waits out hold timers and warns once per outage', () => {
+    const result = replay(
+      makeConfig([makeRule({ id: 'on-battery', holdForSeconds: 30 })]),
+      samplesEvery(10, ['OL', 'OB', 'OB', 'OB', 'OB', 'OB', 'OB', 'OL']),
+    );
+
+    expect(summarize(result.events)).toEqual([
+      ['09:00:40', 'warning', 'on-battery'],
+    ]);
+    expect(result.sampleCount).toBe(8);
+    expect(result.shutdownAtIso).toBeUndefined();
+  });
+
+  it('keeps a rule quiet during its cooldown when the input flaps', () => {
+    const result = replay(
+      makeConfig([makeRule({ id: 'on-battery', cooldownSeconds: 60 })]),
+      samplesEvery(10, ['OB', 'OL', 'OB', 'OL', 'OB', 'OL', 'OL', 'OB']),
+    );
+
+    expect(summarize(result.events)).toEqual([
+      ['09:00:00', 'warning', 'on-battery'],
+      ['09:01:10', 'warning', 'on-battery'],
+    ]);
+  });
+
+  it('cancels the countdown when power returns before it runs out', () => {
+    const result = replay(
+      makeConfig([makeCountdownRule()]),
+      samplesEvery(10, ['OB', 'OB', 'OB', 'OB', 'OB', 'OB', 'OB', 'OB', 'OB', 'OL']),
+    );
+
+    expect(summarize(result.events)).toEqual([
+      ['09:01:00', 'countdownStarted', 'countdown'],
+      ['09:01:30', 'countdownCancelled', 'countdown'],
+    ]);
+    expect(result.events[1].conditionExplanation?.[0]).toMatch(/^PASS/);
+    expect(result.shutdownAtIso).toBeUndefined();
+  });
+
+  it('shuts down when the countdown runs out and ignores later samples', () => {
+    const samples = samplesEvery(30, Array.from({ length: 12 }, () => 'OB'));
+    const result = replay(makeConfig([makeCountdownRule()]), samples);
+
+    expect(summarize(result.events)).toEqual([
+      ['09:01:00', 'countdownStarted', 'countdown'],
+      ['09:03:00', 'shutdown', 'countdown'],
+    ]);
+    expect(result.events[1].summary).toContain('would have run shutdown');
+    expect(result.events[1].context?.statusTokens).toEqual(['OB']);
+    expect(result.shutdownAtIso).toBe('2026-10-13T09:03:00.000Z');
+    expect(result.sampleCount).toBe(6);
+  });
+
+  it('lets a countdown elapse after the last sample only inside the range', () => {
+    const config = makeConfig([makeCountdownRule()]);
+    const samples = samplesEvery(30, ['OB', 'OB', 'OB']);
+
+    expect(replay(config, samples).shutdownAtIso).toBe('2026-10-13T09:03:00.000Z');
+    expect(replay(config, samples, {
+      startIso: RANGE.startIso,
+      endIso: '2026-10-13T09:02:00.000Z',
+    }).shutdownAtIso).toBeUndefined();
+  });
+
+  it('flags gaps in the recording', () => {
+    const result = replay(makeConfig([]), [
+      sampleAt(0, 'OL'),
+      sampleAt(10, 'OL'),
+      sampleAt(610, 'OL'),
+    ]);
+
+    expect(result.events).toEqual([
+      {
+        timestampIso: '2026-10-13T09:00:10.000Z',
+        kind: 'dataGap',
+        summary: 'No telemetry was recorded for 600s.',
+      },
+    ]);
+  });
+
+  it('stops reading telemetry once the policy has shut down', async () => {
+    let read = 0;
+    async function* telemetry(): AsyncGenerator<TelemetryDataPoint> {
+      for (let second = 0; second < 3600; second += 30) {
+        read += 1;
+        yield sampleAt(second, 'OB');
+      }
+    }
+
+    const result = await runShutdownPolicyBacktest(
+      makeConfig([makeCountdownRule()]),
+      telemetry(),
+      RANGE,
+    );
+
+    expect(result.shutdownAtIso).toBe('2026-10-13T09:03:00.000Z');
+    expect(read).toBe(7);
+  });
+
+  it('evaluates battery health rules against the report it is given', async () => {
+    const config = makeConfig([makeRule({
+      trigger: { field: 'battery.replaceSoon', op: 'eq', value: true },
+    })]);
+    async function* telemetry(): AsyncGenerator<TelemetryDataPoint> {
+      yield sampleAt(0, 'OL');
+    }
+
+    const withoutHealth = await runShutdownPolicyBacktest(config, telemetry(), RANGE);
+    const withHealth = await runShutdownPolicyBacktest(config, telemetry(), RANGE, {
+      capacityPercent: 62,
+      replaceSoon: true,
+      runtimeModel: [],
+    });
+
+    expect(withoutHealth.events).toEqual([]);
+    expect(summarize(withHealth.events)).toEqual([['09:00:00', 'warning', 'rule']]);
+  });
+});
+
+function replay(
+  config: ShutdownPolicyConfig,
+  samples: TelemetryDataPoint[],
+  range = RANGE,
+) {
+  const backtester = new ShutdownPolicyBacktester(config);
+  samples.forEach((sample) => backtester.replay(sample));
+  return backtester.finish(range);
+}
+
+function summarize(events: { timestampIso: string; kind: string; ruleId?: string }[]) {
+  return events.map((event) => [event.timestampIso.slice(11, 19), event.kind, event.ruleId]);
+}
+
+function samplesEvery(seconds: number, statuses: string[]): TelemetryDataPoint[] {
+  return statuses.map((status, index) => sampleAt(index * seconds, status));
+}
+
+function sampleAt(second: number, status: string): TelemetryDataPoint {
+  return {
+    ts: new Date(START_MS + second * 1000).toISOString(),
+    values: {
+      ups_status_num: status === 'OL' ? 1 : 0,
+      battery_charge_pct: 90,
+      battery_runtime_sec: 1200,
+    },
+  };
+}
+
+function makeConfig(rules: ShutdownPolicyRule[]): ShutdownPolicyConfig {
+  return {
+    ...defaultShutdownPolicyConfig,
+    rules,
+  };
+}
+
+function makeRule(overrides: Partial<ShutdownPolicyRule> = {}): ShutdownPolicyRule {
+  return {
+    id: 'rule',
+    name: 'Rule',
+    enabled: true,
+    priority: 100,
+    severity: 'warning',
+    trigger: { field: 'ups.onBattery', op: 'eq', value: true },
+    action: { type: 'showWarning' },
+    createdBy: 'user',
+    ...overrides,
+  };
+}
+
+function makeCountdownRule(): ShutdownPolicyRule {
+  return makeRule({
+    id: 'countdown',
+    name: 'Long outage',
+    severity: 'critical',
+    trigger: { field: 'state.secondsOnBattery', op: 'gte', value: 60 },
+    action: {
+      type: 'startShutdownCountdown',
+      countdownSeconds: 120,
+      method: 'shutdown',
+    },
+    cancelWhen: { field: 'ups.online', op: 'eq', value: true },
+  });
+}
@@ -0,0 +1,317 @@
+import type { TelemetryDataPoint } from '../../shared/ipc/contracts';
+import { BACKTEST_DATA_GAP_SECONDS } from '../../shared/shutdownPolicy/constants';
+import { evaluatePolicyCondition } from '../../shared/shutdownPolicy/evaluation';
+import {
+  explainDecision,
+  flattenConditionExplanation,
+} from '../../shared/shutdownPolicy/explain';
+import type {
+  ShutdownPolicyBacktestEvent,
+  ShutdownPolicyBacktestEventKind,
+  ShutdownPolicyBacktestResult,
+  ShutdownPolicyConfig,
+  ShutdownPolicyContext,
+  ShutdownPolicyDecision,
+  ShutdownPolicyDecisionLogContext,
+  ShutdownPolicyRule,
+} from '../../shared/shutdownPolicy/types';
+import {
+  ShutdownPolicyContextBuilder,
+  type ShutdownPolicyContextBuilderInput,
+} from './ShutdownPolicyContextBuilder';
+import { ShutdownPolicyEngine } from './ShutdownPolicyEngine';
+
+export type ShutdownPolicyBacktestStepInput = Omit<
+  ShutdownPolicyContextBuilderInput,
+  'now' | 'activeCountdownRuleId'
+> & {
+  now: number;
+};
+
+export type ShutdownPolicyBacktestRange = {
+  startIso: string;
+  endIso: string;
+};
+
+type ActionDecision = Exclude<ShutdownPolicyDecision, { type: 'none' }>;
+type CountdownDecision = Extract<ShutdownPolicyDecision, { type: 'startShutdownCountdown' }>;
+
+type PendingCountdown = {
+  decision: CountdownDecision;
+  deadlineMs: number;
+};
+
+const DECISION_EVENT_KINDS: Record<ActionDecision['type'], ShutdownPolicyBacktestEventKind> = {
+  showWarning: 'warning',
+  showCriticalAlert: 'criticalAlert',
+  notifyOnly: 'notification',
+  runCommand: 'runCommand',
+  sendWebhook: 'sendWebhook',
+  startShutdownCountdown: 'countdownStarted',
+  cancelShutdownCountdown: 'countdownCancelled',
+  shutdownNow: 'shutdown',
+};
+
+/**
+ * Replays recorded telemetry through the same context builder and engine the
+ * battery safety service runs, with its once-per-episode handling of repeated
+ * decisions, so hold timers, cooldowns and countdowns play out as they would
+ * have live. Sample timestamps stand in for the clock. Only OL and OB are
+ * recorded, so rules on LB, FSD or the connection never match in a replay;
+ * synthetic inputs passed to `step` can carry any status and connection state.
+ */
+export class ShutdownPolicyBacktester {
+  private readonly policy: ShutdownPolicyConfig;
+  private readonly contextBuilder = new ShutdownPolicyContextBuilder();
+  private readonly engine: ShutdownPolicyEngine;
+  private readonly appliedRuleIds = new Set<string>();
+  private readonly events: ShutdownPolicyBacktestEvent[] = [];
+  private countdown: PendingCountdown | null = null;
+  private latestContext: ShutdownPolicyContext | null = null;
+  private lastSampleAt: number | null = null;
+  private sampleCount = 0;
+  private shutdownAt: number | null = null;
+
+  public constructor(policy: ShutdownPolicyConfig) {
+    this.policy = policy;
+    this.engine = new ShutdownPolicyEngine(policy);
+  }
+
+  /** Once the replayed policy has shut the computer down, later samples are ignored. */
+  public hasShutDown(): boolean {
+    return this.shutdownAt !== null;
+  }
+
+  /**
+   * Battery health is not recorded per sample, so the caller passes the
+   * current report, as the live service would have read it.
+   */
+  public replay(
+    sample: TelemetryDataPoint,
+    batteryHealth: ShutdownPolicyContextBuilderInput['batteryHealth'] = null,
+  ): void {
+    const sampleAt = Date.parse(sample.ts);
+    if (Number.isNaN(sampleAt)) {
+      return;
+    }
+
+    this.step({
+      values: sample.values,
+      rawUpsStatus: toRawUpsStatus(sample.values.ups_status_num),
+      connectionState: 'connected',
+      now: sampleAt,
+      batteryHealth,
+    });
+  }
+
+  /**
+   * Evaluates the policy once at `input.now`, as one poll of the live service
+   * would. Returns the context it built, or null once the policy has shut down.
+   */
+  public step(input: ShutdownPolicyBacktestStepInput): ShutdownPolicyContext | null {
+    const { now } = input;
+    if (this.shutdownAt !== null) {
+      return null;
+    }
+
+    this.finishCountdownBefore(now);
+    if (this.shutdownAt !== null) {
+      return null;
+    }
+
+    if (
+      this.lastSampleAt !== null &&
+      now - this.lastSampleAt > BACKTEST_DATA_GAP_SECONDS * 1000
+    ) {
+      const gapSeconds = Math.round((now - this.lastSampleAt) / 1000);
+      this.events.push({
+        timestampIso: new Date(this.lastSampleAt).toISOString(),
+        kind: 'dataGap',
+        summary: `No telemetry was recorded for ${gapSeconds}s.`,
+      });
+    }
+    this.lastSampleAt = now;
+    this.sampleCount += 1;
+
+    const context = this.contextBuilder.build({
+      ...input,
+      activeCountdownRuleId: this.countdown?.decision.ruleId,
+    });
+    this.latestContext = context;
+
+    this.resetAppliedRuleState(context);
+    this.applyDecision(this.engine.evaluate(context), context);
+    return context;
+  }
+
+  /** Lets a countdown still running at the end of the range elapse if it would have in time. */
+  public finish(range: ShutdownPolicyBacktestRange): ShutdownPolicyBacktestResult {
+    const endMs = Date.parse(range.endIso);
+    if (!Number.isNaN(endMs)) {
+      this.finishCountdownBefore(endMs);
+    }
+
+    return {
+      startIso: range.startIso,
+      endIso: range.endIso,
+      sampleCount: this.sampleCount,
+      events: [...this.events],
+      ...(this.shutdownAt === null
+        ? {}
+        : { shutdownAtIso: new Date(this.shutdownAt).toISOString() }),
+    };
+  }
+
+  private applyDecision(
+    decision: ShutdownPolicyDecision,
+    context: ShutdownPolicyContext,
+  ): void {
+    if (decision.type === 'none') {
+      return;
+    }
+
+    if (decision.type === 'cancelShutdownCountdown') {
+      this.appliedRuleIds.delete(decision.ruleId);
+      if (this.countdown) {
+        this.countdown = null;
+        this.pushDecisionEvent(decision, context);
+      }
+      return;
+    }
+
+    if (this.appliedRuleIds.has(decision.ruleId)) {
+      return;
+    }
+    this.appliedRuleIds.add(decision.ruleId);
+    this.pushDecisionEvent(decision, context);
+
+    if (decision.type === 'startShutdownCountdown') {
+      this.countdown = {
+        decision,
+        deadlineMs: context.now + decision.countdownSeconds * 1000,
+      };
+    } else if (decision.type === 'shutdownNow') {
+      this.countdown = null;
+      this.shutdownAt = context.now;
+    }
+  }
+
+  private finishCountdownBefore(timeMs: number): void {
+    if (!this.countdown || this.countdown.deadlineMs > timeMs) {
+      return;
+    }
+
+    const { decision, deadlineMs } = this.countdown;
+    const rule = this.findPolicyRule(decision.ruleId);
+    this.countdown = null;
+    this.shutdownAt = deadlineMs;
+    this.events.push({
+      timestampIso: new Date(deadlineMs).toISOString(),
+      kind: 'shutdown',
+      ruleId: decision.ruleId,
+      ruleName: rule?.name,
+      summary:
+        `The ${decision.countdownSeconds}s countdown from rule ${formatRuleLabel(decision.ruleId, rule)} ran out and would have run ${decision.method}.`,
+      ...(this.latestContext ? { context: summarizeContext(this.latestContext) } : {}),
+    });
+  }
+
+  /** Mirrors BatterySafetyService: a rule acts again only after its trigger lets go. */
+  private resetAppliedRuleState(context: ShutdownPolicyContext): void {
+    for (const ruleId of [...this.appliedRuleIds]) {
+      if (ruleId === this.countdown?.decision.ruleId) {
+        continue;
+      }
+
+      const rule = this.findPolicyRule(ruleId);
+      if (!rule) {
+        this.appliedRuleIds.delete(ruleId);
+        continue;
+      }
+
+      const triggerResult = evaluatePolicyCondition(rule.trigger, context);
+      const cancelResult = rule.cancelWhen
+        ? evaluatePolicyCondition(rule.cancelWhen, context)
+        : null;
+
+      if (!triggerResult.matched || cancelResult?.matched) {
+        this.appliedRuleIds.delete(ruleId);
+      }
+    }
+  }
+
+  private pushDecisionEvent(
+    decision: ActionDecision,
+    context: ShutdownPolicyContext,
+  ): void {
+    const rule = this.findPolicyRule(decision.ruleId);
+    const condition =
+      decision.type === 'cancelShutdownCountdown' && rule?.cancelWhen
+        ? rule.cancelWhen
+        : rule?.trigger;
+
+    this.events.push({
+      timestampIso: new Date(context.now).toISOString(),
+      kind: DECISION_EVENT_KINDS[decision.type],
+      ruleId: decision.ruleId,
+      ruleName: rule?.name,
+      summary: explainDecision(decision, rule),
+      ...(condition
+        ? {
+          conditionExplanation: flattenConditionExplanation(
+            evaluatePolicyCondition(condition, context),
+          ),
+        }
+        : {}),
+      context: summarizeContext(context),
+    });
+  }
+
+  private findPolicyRule(ruleId: string): ShutdownPolicyRule | undefined {
+    return this.policy.rules.find((rule) => rule.id === ruleId);
+  }
+}
+
+export async function runShutdownPolicyBacktest(
+  policy: ShutdownPolicyConfig,
+  samples: AsyncIterable<TelemetryDataPoint>,
+  range: ShutdownPolicyBacktestRange,
+  batteryHealth: ShutdownPolicyContextBuilderInput['batteryHealth'] = null,
+): Promise<ShutdownPolicyBacktestResult> {
+  const backtester = new ShutdownPolicyBacktester(policy);
+  for await (const sample of samples) {
+    backtester.replay(sample, batteryHealth);
+    if (backtester.hasShutDown()) {
+      break;
+    }
+  }
+  return backtester.finish(range);
+}
+
+/** `ups_status_num` keeps only the OL/OB distinction; anything else reads as no status. */
+function toRawUpsStatus(statusNum: number | null | undefined): string | undefined {
+  if (statusNum === 1) {
+    return 'OL';
+  }
+  if (statusNum === 0) {
+    return 'OB';
+  }
+  return undefined;
+}
+
+function formatRuleLabel(ruleId: string, rule: ShutdownPolicyRule | undefined): string {
+  return rule ? `${rule.name} (${rule.id})` : ruleId;
+}
+
+function summarizeContext(context: ShutdownPolicyContext): ShutdownPolicyDecisionLogContext {
+  return {
+    statusTokens: [...context.ups.statusTokens],
+    batteryChargePercent: context.battery.chargePercent,
+    runtimeSeconds: context.battery.runtimeSeconds,
+    connectionState: context.connection.state,
+    secondsSinceLastSuccessfulPoll:
+      Math.floor(context.connection.secondsSinceLastSuccessfulPoll),
+    secondsOnBattery: Math.floor(context.state.secondsOnBattery),
+    activeCountdownRuleId: context.state.activeCountdownRuleId,
+  };
+}
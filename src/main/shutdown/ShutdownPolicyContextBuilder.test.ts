@@ -33,6 +33,52 @@ describe('ShutdownPolicyContextBuilder', () => {
     expect(context.connection.state).toBe('connected');
   });
 
+  it('exposes the battery health estimate when one is available', () => {
+    const builder = new ShutdownPolicyContextBuilder();
+
+    expect(builder.build({ rawUpsStatus: 'OL', now: 0 }).battery).toEqual({});
+    expect(builder.build({
+      rawUpsStatus: 'OL',
+      now: 1000,
+      batteryHealth: { capacityPercent: null, replaceSoon: true, runtimeModel: [] },
+    }).battery).toEqual({ replaceSoon: true });
+    expect(builder.build({
+      rawUpsStatus: 'OL',
+      now: 2000,
+      batteryHealth: { capacityPercent: 72.5, replaceSoon: true, runtimeModel: [] },
+    }).battery).toEqual({ healthPercent: 72.5, replaceSoon: true });
+  });
+
+  it('estimates runtime from learned discharges only when the UPS does not report it', () => {
+    const builder = new ShutdownPolicyContextBuilder();
+    const batteryHealth = {
+      capacityPercent: 100,
+      replaceSoon: false,
+      runtimeModel: [
+        { drainPercentPerMinute: 2, averagePowerWatts: 200, averageLoadPercent: 40 },
+      ],
+    };
+
+    expect(builder.build({
+      rawUpsStatus: 'OB',
+      values: { battery_charge_pct: 50, ups_realpower_watts: 200 },
+      now: 0,
+      batteryHealth,
+    }).battery).toMatchObject({ runtimeSeconds: 1500, runtimeEstimated: true });
+    expect(builder.build({
+      rawUpsStatus: 'OB',
+      values: { battery_charge_pct: 50, ups_load_pct: 40, battery_runtime_sec: 900 },
+      now: 1000,
+      batteryHealth,
+    }).battery).toMatchObject({ runtimeSeconds: 900, runtimeEstimated: false });
+    expect(builder.build({
+      rawUpsStatus: 'OB',
+      values: { battery_charge_pct: 50 },
+      now: 2000,
+      batteryHealth,
+    }).battery).not.toHaveProperty('runtimeSeconds');
+  });
+
   it('preserves the last known on-battery state during the stale-status grace period', () => {
     const builder = new ShutdownPolicyContextBuilder({
       statusStaleGraceSeconds: 5,
@@ -2,10 +2,13 @@ import type {
   ConnectionState,
   TelemetryValues,
 } from '../../shared/ipc/contracts';
+import { estimateRuntimeSeconds } from '../../shared/batteryHealth/runtimeEstimate';
+import type { BatteryHealthReport } from '../../shared/batteryHealth/types';
 import type {
   ShutdownPolicyConnectionState,
   ShutdownPolicyContext,
 } from '../../shared/shutdownPolicy/types';
+import { getPolicyWallClock } from '../../shared/shutdownPolicy/time';
 import {
   DEFAULT_STATUS_STALE_GRACE_SECONDS,
   parseUpsStatusTokens,
@@ -24,6 +27,10 @@ export type ShutdownPolicyContextBuilderInput = {
   pollSucceeded?: boolean;
   now?: number;
   activeCountdownRuleId?: string;
+  batteryHealth?: Pick<
+    BatteryHealthReport,
+    'capacityPercent' | 'replaceSoon' | 'runtimeModel'
+  > | null;
 };
 
 export class ShutdownPolicyContextBuilder {
@@ -140,16 +147,35 @@ export class ShutdownPolicyContextBuilder {
     const battery: ShutdownPolicyContext['battery'] = {};
     const chargePercent = normalizePercent(values.battery_charge_pct);
     const runtimeSeconds = normalizeSeconds(values.battery_runtime_sec);
+    // Units without `battery.runtime` get the estimate learned from earlier
+    // discharges, flagged so rules can tell it apart.
+    const estimatedRuntimeSeconds = runtimeSeconds === undefined && input.batteryHealth
+      ? estimateRuntimeSeconds(input.batteryHealth.runtimeModel, {
+        chargePercent: values.battery_charge_pct,
+        realPowerWatts: values.ups_realpower_watts,
+        loadPercent: values.ups_load_pct,
+      })
+      : null;
     const voltage = normalizeFiniteNumber(values.battery_voltage);
     if (chargePercent !== undefined) {
       battery.chargePercent = chargePercent;
     }
     if (runtimeSeconds !== undefined) {
       battery.runtimeSeconds = runtimeSeconds;
+      battery.runtimeEstimated = false;
+    } else if (estimatedRuntimeSeconds !== null) {
+      battery.runtimeSeconds = estimatedRuntimeSeconds;
+      battery.runtimeEstimated = true;
     }
     if (voltage !== undefined) {
       battery.voltage = voltage;
     }
+    if (input.batteryHealth) {
+      if (input.batteryHealth.capacityPercent !== null) {
+        battery.healthPercent = input.batteryHealth.capacityPercent;
+      }
+      battery.replaceSoon = input.batteryHealth.replaceSoon;
+    }
 
     const state: ShutdownPolicyContext['state'] = {
       secondsOnBattery: this.secondsOnBattery,
@@ -172,6 +198,7 @@ export class ShutdownPolicyContextBuilder {
           : secondsBetween(this.lastSuccessfulPollAt, now),
       },
       state,
+      time: getPolicyWallClock(now),
     };
   }
 }
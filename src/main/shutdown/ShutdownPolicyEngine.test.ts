@@ -40,6 +40,31 @@ describe('ShutdownPolicyEngine', () => {
     expect(engine.evaluate(makeContext({ now: 11000 })).type).toBe('showWarning');
   });
 
+  it('counts trigger matches and decisions per rule', () => {
+    const engine = new ShutdownPolicyEngine(makeConfig([
+      makeRule({
+        id: 'counted-warning',
+        action: { type: 'showWarning' },
+        cooldownSeconds: 10,
+      }),
+      makeRule({
+        id: 'disabled-warning',
+        enabled: false,
+        action: { type: 'showWarning' },
+      }),
+    ]));
+
+    engine.evaluate(makeContext({ now: 0 }));
+    engine.evaluate(makeContext({ now: 5000 }));
+    engine.reset();
+    engine.evaluate(makeContext({ now: 6000 }));
+
+    expect(engine.getRuleCounters()).toEqual([
+      { ruleId: 'counted-warning', matches: 3, decisions: 2 },
+      { ruleId: 'disabled-warning', matches: 0, decisions: 0 },
+    ]);
+  });
+
   it('resolves matching rules by priority, severity, then stable order', () => {
     const engine = new ShutdownPolicyEngine(makeConfig([
       makeRule({
@@ -466,6 +491,38 @@ describe('ShutdownPolicyEngine', () => {
       battery: { chargePercent: 10 },
     })).type).toBe('startShutdownCountdown');
   });
+
+  it('holds a rule cancelled from outside until its trigger clears', () => {
+    const engine = new ShutdownPolicyEngine(makeConfig([
+      makeRule({
+        id: 'battery-countdown',
+        severity: 'critical',
+        action: {
+          type: 'startShutdownCountdown',
+          countdownSeconds: 60,
+          method: 'shutdown',
+        },
+      }),
+    ]));
+
+    expect(engine.cancelActiveCountdown(0)).toBeNull();
+    expect(engine.evaluate(makeContext({ now: 0 })).type).toBe('startShutdownCountdown');
+    expect(engine.cancelActiveCountdown(1000)).toBe('battery-countdown');
+    expect(engine.evaluate(makeContext({ now: 2000 }))).toEqual({ type: 'none' });
+
+    engine.evaluate(makeContext({
+      now: 3000,
+      ups: {
+        online: true,
+        onBattery: false,
+        lowBattery: false,
+        fsd: false,
+        statusTokens: ['OL'],
+      },
+    }));
+
+    expect(engine.evaluate(makeContext({ now: 4000 })).type).toBe('startShutdownCountdown');
+  });
 });
 
 function makeConfig(rules: ShutdownPolicyRule[]): ShutdownPolicyConfig {
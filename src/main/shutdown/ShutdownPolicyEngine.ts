@@ -18,10 +18,20 @@ import {
   type ActiveShutdownCountdown,
 } from './ShutdownPolicyRuntimeState';
 
+/** How often a rule's trigger matched and how often it produced a decision. */
+export type ShutdownPolicyRuleCounters = {
+  ruleId: string;
+  matches: number;
+  decisions: number;
+};
+
 export class ShutdownPolicyEngine {
   private readonly config: ShutdownPolicyConfig;
   private readonly evaluator: ShutdownPolicyEvaluator;
   private readonly runtimeState: ShutdownPolicyRuntimeState;
+  // Kept outside the runtime state so reset() after a dismissed FSD does not
+  // zero them; they restart only with a new engine, i.e. a new policy.
+  private readonly ruleCounters = new Map<string, ShutdownPolicyRuleCounters>();
 
   public constructor(
     config: ShutdownPolicyConfig,
@@ -79,6 +89,29 @@ export class ShutdownPolicyEngine {
     this.runtimeState.reset();
   }
 
+  /** Counters for every configured rule, in policy order. */
+  public getRuleCounters(): ShutdownPolicyRuleCounters[] {
+    return this.config.rules.map((rule) => ({
+      ...this.getRuleCounter(rule.id),
+    }));
+  }
+
+  /**
+   * Ends the running countdown on request from outside the policy. The rule
+   * goes into its cooldown and stays quiet until its trigger stops matching.
+   */
+  public cancelActiveCountdown(now: number): string | null {
+    const activeCountdown = this.runtimeState.getActiveCountdown();
+    if (!activeCountdown) {
+      return null;
+    }
+
+    this.markCancelledRuleDecision(activeCountdown.ruleId, now);
+    this.runtimeState.holdRuleUntilUnmatched(activeCountdown.ruleId);
+    this.runtimeState.clearActiveCountdown();
+    return activeCountdown.ruleId;
+  }
+
   public releaseFailedDecision(ruleId: string): void {
     this.runtimeState.clearRuleDecision(ruleId);
     this.runtimeState.clearActiveCountdown(ruleId);
@@ -101,13 +134,17 @@ export class ShutdownPolicyEngine {
         return;
       }
 
+      this.getRuleCounter(rule.id).matches += 1;
       const matchedSeconds = this.runtimeState.markRuleMatched(rule.id, context.now);
       const requiredHoldSeconds = rule.holdForSeconds ?? 0;
       if (matchedSeconds < requiredHoldSeconds) {
         return;
       }
 
-      if (this.runtimeState.isRuleCoolingDown(rule.id, context.now)) {
+      if (
+        this.runtimeState.isRuleCoolingDown(rule.id, context.now) ||
+        this.runtimeState.isRuleHeld(rule.id)
+      ) {
         return;
       }
 
@@ -150,10 +187,22 @@ export class ShutdownPolicyEngine {
     this.runtimeState.markRuleDecision(rule.id, now, rule.cooldownSeconds);
   }
 
+  private getRuleCounter(ruleId: string): ShutdownPolicyRuleCounters {
+    const existing = this.ruleCounters.get(ruleId);
+    if (existing) {
+      return existing;
+    }
+
+    const created: ShutdownPolicyRuleCounters = { ruleId, matches: 0, decisions: 0 };
+    this.ruleCounters.set(ruleId, created);
+    return created;
+  }
+
   private markSelectedDecision(
     selected: ShutdownPolicyDecisionCandidate,
     now: number,
   ): void {
+    this.getRuleCounter(selected.rule.id).decisions += 1;
     this.runtimeState.markRuleDecision(
       selected.rule.id,
       now,
@@ -216,6 +265,27 @@ function createDecision(rule: ShutdownPolicyRule): ShutdownPolicyDecision {
         ruleId: rule.id,
         reason: 'Rule action requested countdown cancellation',
       };
+    case 'runCommand':
+      return {
+        type: 'runCommand',
+        ruleId: rule.id,
+        command: action.command,
+        args: [...action.args],
+        timeoutSeconds: action.timeoutSeconds,
+      };
+    case 'sendWebhook':
+      return {
+        type: 'sendWebhook',
+        ruleId: rule.id,
+        url: action.url,
+        timeoutSeconds: action.timeoutSeconds,
+      };
+    case 'notifyOnly':
+      return {
+        type: 'notifyOnly',
+        ruleId: rule.id,
+        message: action.message,
+      };
     default:
       return assertNever(action);
   }
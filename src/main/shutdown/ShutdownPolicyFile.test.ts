@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createBuiltInShutdownPolicyPreset,
+  DEFAULT_BATTERY_SHUTDOWN_RULE_ID,
+} from '../../shared/shutdownPolicy/defaultPolicies';
+import {
+  parseShutdownPolicyFile,
+  serializeShutdownPolicyFile,
+  ShutdownPolicyFileError,
+} from './ShutdownPolicyFile';
+
+describe('ShutdownPolicyFile', () => {
+  it('round-trips a policy through a versioned file', () => {
+    const policy = createBuiltInShutdownPolicyPreset('runtimeBased');
+    const content = serializeShutdownPolicyFile(policy, {
+      name: 'Office desktops',
+      now: new Date('2026-10-01T08:00:00.000Z'),
+    });
+
+    expect(JSON.parse(content)).toMatchObject({
+      format: 'ups-shutdown-policy',
+      version: 2,
+      exportedAtIso: '2026-10-01T08:00:00.000Z',
+      name: 'Office desktops',
+    });
+    expect(parseShutdownPolicyFile(content)).toEqual({
+      policy: {
+        ...policy,
+        preShutdownHooks: [],
+        primaryMode: { enabled: false, secondaryTimeoutSeconds: 60 },
+      },
+      name: 'Office desktops',
+    });
+  });
+
+  it('rejects files that are not valid policy files', () => {
+    expect(() => parseShutdownPolicyFile('{ nope')).toThrow(ShutdownPolicyFileError);
+    expect(() => parseShutdownPolicyFile('[]')).toThrow('Not a shutdown policy file.');
+    expect(() => parseShutdownPolicyFile(JSON.stringify({ format: 'other', version: 1 })))
+      .toThrow('Unknown file format: other');
+    expect(() => parseShutdownPolicyFile(JSON.stringify({
+      format: 'ups-shutdown-policy',
+      version: 2,
+      policy: { version: 2, mode: 'advanced', rules: 'all of them' },
+    }))).toThrow(/^Invalid shutdown policy/);
+  });
+
+  it('imports files written by an older version', () => {
+    const policy = createBuiltInShutdownPolicyPreset('standard');
+    const content = JSON.stringify({
+      format: 'ups-shutdown-policy',
+      version: 1,
+      policy: { ...policy, version: 1 },
+    });
+
+    expect(parseShutdownPolicyFile(content).policy.version).toBe(2);
+  });
+
+  it('refuses files written by a newer version', () => {
+    const content = JSON.stringify({
+      format: 'ups-shutdown-policy',
+      version: 3,
+      policy: {},
+    });
+
+    expect(() => parseShutdownPolicyFile(content)).toThrow(/written by a newer version/);
+  });
+
+  it('rejects a policy that breaks the safety rules', () => {
+    const policy = createBuiltInShutdownPolicyPreset('standard');
+    const content = JSON.stringify({
+      format: 'ups-shutdown-policy',
+      version: 2,
+      policy: {
+        ...policy,
+        safety: { ...policy.safety, maxCountdownSeconds: 10 },
+      },
+    });
+
+    expect(() => parseShutdownPolicyFile(content)).toThrow(/Invalid shutdown policy/);
+  });
+
+  it('migrates the battery and FSD settings of an older config file', () => {
+    const result = parseShutdownPolicyFile(JSON.stringify({
+      battery: { shutdownEnabled: true, shutdownPct: 15, shutdownMethod: 'shutdown' },
+      fsd: { shutdownEnabled: false },
+      theme: { mode: 'dark' },
+    }));
+    const batteryRule = result.policy.rules.find((rule) =>
+      rule.id === DEFAULT_BATTERY_SHUTDOWN_RULE_ID,
+    );
+
+    expect(result.migratedFrom).toBe('legacyConfig');
+    expect(result.policy.mode).toBe('simple');
+    expect(batteryRule?.enabled).toBe(true);
+    expect(JSON.stringify(batteryRule?.trigger)).toContain(
+      '{"field":"battery.chargePercent","op":"lte","value":15}',
+    );
+    expect(batteryRule?.action).toMatchObject({ method: 'shutdown' });
+    expect(result.policy.preShutdownHooks).toEqual([]);
+  });
+
+  it('keeps an advanced policy stored in an older config file', () => {
+    const policy = createBuiltInShutdownPolicyPreset('earlyShutdown');
+    const result = parseShutdownPolicyFile(JSON.stringify({
+      battery: { shutdownPct: 30 },
+      shutdownPolicy: policy,
+    }));
+
+    expect(result.policy.rules).toEqual(policy.rules);
+  });
+});
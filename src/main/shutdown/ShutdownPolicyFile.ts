@@ -0,0 +1,129 @@
+import {
+  applyConfigPatch,
+  defaultAppConfig,
+  parseConfigPatch,
+} from '../config/configSchema';
+import {
+  SHUTDOWN_POLICY_FILE_FORMAT,
+  SHUTDOWN_POLICY_VERSION,
+} from '../../shared/shutdownPolicy/constants';
+import { completeShutdownPolicyConfig } from '../../shared/shutdownPolicy/defaultPolicies';
+import type {
+  ShutdownPolicyConfig,
+  ShutdownPolicyFile,
+} from '../../shared/shutdownPolicy/types';
+import { shutdownPolicyPresetNameSchema, shutdownPolicySchema } from './schema/shutdownPolicySchema';
+import {
+  migrateLegacyShutdownPolicyConfig,
+  migrateShutdownPolicyVersion,
+} from './ShutdownPolicyMigration';
+
+export class ShutdownPolicyFileError extends Error { }
+
+export type ParsedShutdownPolicyFile = {
+  policy: ShutdownPolicyConfig;
+  name?: string;
+  /** Set when the file predates the versioned format and was migrated. */
+  migratedFrom?: 'legacyConfig';
+};
+
+export function serializeShutdownPolicyFile(
+  policy: ShutdownPolicyConfig,
+  options: { name?: string; now?: Date } = {},
+): string {
+  const file: ShutdownPolicyFile = {
+    format: SHUTDOWN_POLICY_FILE_FORMAT,
+    version: SHUTDOWN_POLICY_VERSION,
+    exportedAtIso: (options.now ?? new Date()).toISOString(),
+    ...(options.name ? { name: options.name } : {}),
+    policy: completeShutdownPolicyConfig(validatePolicy(policy)),
+  };
+
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+/**
+ * Reads a policy file written by {@link serializeShutdownPolicyFile}. A
+ * config.json from an older install, which only has `battery` and `fsd`
+ * settings or an unversioned `shutdownPolicy`, is migrated the same way the
+ * config store migrates it on startup.
+ */
+export function parseShutdownPolicyFile(content: string): ParsedShutdownPolicyFile {
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch (error) {
+    throw new ShutdownPolicyFileError(
+      `Not a JSON file: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (!isRecord(document)) {
+    throw new ShutdownPolicyFileError('Not a shutdown policy file.');
+  }
+
+  if (document.format === undefined) {
+    if ('shutdownPolicy' in document || 'battery' in document || 'fsd' in document) {
+      return { policy: migrateLegacyConfigDocument(document), migratedFrom: 'legacyConfig' };
+    }
+    throw new ShutdownPolicyFileError('Not a shutdown policy file.');
+  }
+
+  if (document.format !== SHUTDOWN_POLICY_FILE_FORMAT) {
+    throw new ShutdownPolicyFileError(`Unknown file format: ${String(document.format)}`);
+  }
+  if (typeof document.version !== 'number' || !Number.isInteger(document.version)) {
+    throw new ShutdownPolicyFileError('The policy file has no version.');
+  }
+  if (document.version > SHUTDOWN_POLICY_VERSION) {
+    throw new ShutdownPolicyFileError(
+      `The policy file was written by a newer version of the app (policy version ${document.version}). Update the app to import it.`,
+    );
+  }
+
+  const name = document.name === undefined
+    ? undefined
+    : shutdownPolicyPresetNameSchema.safeParse(document.name);
+  return {
+    policy: completeShutdownPolicyConfig(
+      validatePolicy(migrateShutdownPolicyVersion(document.policy)),
+    ),
+    ...(name?.success ? { name: name.data } : {}),
+  };
+}
+
+function migrateLegacyConfigDocument(document: Record<string, unknown>): ShutdownPolicyConfig {
+  let legacy: Pick<typeof defaultAppConfig, 'battery' | 'fsd'>;
+  try {
+    legacy = applyConfigPatch(defaultAppConfig, parseConfigPatch({
+      ...(document.battery === undefined ? {} : { battery: document.battery }),
+      ...(document.fsd === undefined ? {} : { fsd: document.fsd }),
+    }));
+  } catch (error) {
+    throw new ShutdownPolicyFileError(
+      `The battery or FSD settings in this file are invalid: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const existing = document.shutdownPolicy === undefined
+    ? undefined
+    : validatePolicy(migrateShutdownPolicyVersion(document.shutdownPolicy));
+  return completeShutdownPolicyConfig(
+    validatePolicy(migrateLegacyShutdownPolicyConfig(
+      { battery: legacy.battery, fsd: legacy.fsd },
+      existing,
+    )),
+  );
+}
+
+function validatePolicy(policy: unknown): ShutdownPolicyConfig {
+  const result = shutdownPolicySchema.safeParse(policy);
+  if (!result.success) {
+    throw new ShutdownPolicyFileError(`Invalid shutdown policy: ${result.error.message}`);
+  }
+  return result.data as ShutdownPolicyConfig;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -4,7 +4,10 @@ import {
   DEFAULT_FSD_SHUTDOWN_RULE_ID,
 } from '../../shared/shutdownPolicy/defaultPolicies';
 import type { ShutdownPolicyConfig } from '../../shared/shutdownPolicy/types';
-import { migrateLegacyShutdownPolicyConfig } from './ShutdownPolicyMigration';
+import {
+  migrateLegacyShutdownPolicyConfig,
+  migrateShutdownPolicyVersion,
+} from './ShutdownPolicyMigration';
 
 describe('migrateLegacyShutdownPolicyConfig', () => {
   it('generates equivalent simple policy rules from legacy settings', () => {
@@ -162,7 +165,7 @@ describe('migrateLegacyShutdownPolicyConfig', () => {
           },
         },
         {
-          version: 1,
+          version: 2,
           mode: 'advanced',
           safety: {
             requireHoldForShutdownSeconds: 0,
@@ -210,7 +213,7 @@ describe('migrateLegacyShutdownPolicyConfig', () => {
 
   it('does not overwrite existing advanced policies', () => {
     const advancedPolicy: ShutdownPolicyConfig = {
-      version: 1,
+      version: 2,
       mode: 'advanced',
       safety: {
         requireHoldForShutdownSeconds: 0,
@@ -257,3 +260,20 @@ describe('migrateLegacyShutdownPolicyConfig', () => {
     expect(migrated).toBe(advancedPolicy);
   });
 });
+
+describe('migrateShutdownPolicyVersion', () => {
+  it('brings policies written by an older version up to the current one', () => {
+    expect(migrateShutdownPolicyVersion({ version: 1, mode: 'simple', rules: [] }))
+      .toEqual({ version: 2, mode: 'simple', rules: [] });
+  });
+
+  it('leaves current, newer and unversioned policies alone', () => {
+    const current: Record<string, unknown> = { version: 2, mode: 'simple', rules: [] };
+    const newer: Record<string, unknown> = { version: 3, mode: 'simple', rules: [] };
+
+    expect(migrateShutdownPolicyVersion(current)).toBe(current);
+    expect(migrateShutdownPolicyVersion(newer)).toBe(newer);
+    expect(migrateShutdownPolicyVersion({ mode: 'simple' })).toEqual({ mode: 'simple' });
+    expect(migrateShutdownPolicyVersion(undefined)).toBeUndefined();
+  });
+});
@@ -2,9 +2,22 @@ import {
   createSimpleShutdownPolicyConfig,
   type LegacyShutdownPolicyInput,
 } from '../../shared/shutdownPolicy/defaultPolicies';
+import { SHUTDOWN_POLICY_VERSION } from '../../shared/shutdownPolicy/constants';
 import type { ShutdownPolicyConfig } from '../../shared/shutdownPolicy/types';
 import { shutdownPolicySchema } from './schema/shutdownPolicySchema';
 
+type VersionedPolicy = Record<string, unknown> & { version: number };
+
+/**
+ * Upgrades a policy from the version it is keyed by to the next one. Add an
+ * entry whenever SHUTDOWN_POLICY_VERSION is bumped.
+ */
+const SHUTDOWN_POLICY_VERSION_MIGRATIONS: Record<number, (policy: VersionedPolicy) => VersionedPolicy> = {
+  // Version 2 added the time.* fields and timeWindow conditions. Older
+  // policies use neither, so they carry over unchanged.
+  1: (policy) => ({ ...policy, version: 2 }),
+};
+
 export function migrateLegacyShutdownPolicyConfig(
   legacyConfig: LegacyShutdownPolicyInput,
   existingPolicy?: ShutdownPolicyConfig,
@@ -29,3 +42,33 @@ export function migrateLegacyShutdownPolicyConfig(
     existingPolicy,
   );
 }
+
+/**
+ * Brings a stored or imported policy written by an older version up to
+ * SHUTDOWN_POLICY_VERSION. Anything else, including policies from a newer
+ * version, is returned as is for the schema to judge.
+ */
+export function migrateShutdownPolicyVersion(policy: unknown): unknown {
+  if (!isVersionedPolicy(policy)) {
+    return policy;
+  }
+
+  let migrated = policy;
+  while (migrated.version < SHUTDOWN_POLICY_VERSION) {
+    const migrate = SHUTDOWN_POLICY_VERSION_MIGRATIONS[migrated.version];
+    if (!migrate) {
+      break;
+    }
+    migrated = migrate(migrated);
+  }
+  return migrated;
+}
+
+function isVersionedPolicy(value: unknown): value is VersionedPolicy {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    typeof (value as { version?: unknown }).version === 'number'
+  );
+}
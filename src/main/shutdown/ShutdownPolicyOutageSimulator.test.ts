@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { createCommunicationLossPolicy } from '../../shared/shutdownPolicy/defaultPolicies';
+import type {
+  ShutdownPolicyConfig,
+  ShutdownPolicyOutageScenario,
+  ShutdownPolicyRule,
+} from '../../shared/shutdownPolicy/types';
+import { defaultShutdownPolicyConfig } from './schema/shutdownPolicySchema';
+import { simulateShutdownPolicyOutage } from './ShutdownPolicyOutageSimulator';
+
+const SCENARIO: ShutdownPolicyOutageScenario = {
+  startChargePercent: 100,
+  loadPercent: 40,
+  dischargePercentPerMinute: 5,
+  runtimeSource: 'reported',
+  restoreAfterSeconds: null,
+  communicationDrops: [],
+};
+
+describe('simulateShutdownPolicyOutage', () => {
+  it('starts the hold timer when the trigger matches and acts once it has held', () => {
+    const result = simulateShutdownPolicyOutage(
+      makeConfig([makeRule({ id: 'on-battery', holdForSeconds: 30 })]),
+      { ...SCENARIO, restoreAfterSeconds: 90 },
+    );
+
+    expect(summarize(result.events)).toEqual([
+      [0, 'holdStarted', 'on-battery'],
+      [30, 'warning', 'on-battery'],
+    ]);
+    expect(result.lanes).toEqual([
+      {
+        ruleId: 'on-battery',
+        ruleName: 'Rule',
+        holdForSeconds: 30,
+        matched: [{ startSecond: 0, endSecond: 90 }],
+      },
+    ]);
+    expect(result.durationSeconds).toBe(150);
+    expect(result.restoredAtSecond).toBe(90);
+    expect(result.shutdownAtSecond).toBeUndefined();
+  });
+
+  it('shows cancelWhen firing when mains returns during the countdown', () => {
+    const result = simulateShutdownPolicyOutage(
+      makeConfig([makeCountdownRule()]),
+      { ...SCENARIO, restoreAfterSeconds: 100 },
+    );
+
+    expect(summarize(result.events)).toEqual([
+      [60, 'countdownStarted', 'countdown'],
+      [100, 'countdownCancelled', 'countdown'],
+    ]);
+    expect(result.events[1].conditionExplanation?.[0]).toMatch(/^PASS/);
+  });
+
+  it('shuts down when the countdown runs out', () => {
+    const result = simulateShutdownPolicyOutage(
+      makeConfig([makeCountdownRule()]),
+      SCENARIO,
+    );
+
+    expect(summarize(result.events)).toEqual([
+      [60, 'countdownStarted', 'countdown'],
+      [180, 'shutdown', 'countdown'],
+    ]);
+    expect(result.shutdownAtSecond).toBe(180);
+    expect(result.durationSeconds).toBe(180);
+    expect(result.samples.at(-1)?.second).toBe(179);
+  });
+
+  it('triggers the communication-loss rule during a long drop', () => {
+    const result = simulateShutdownPolicyOutage(
+      makeConfig([createCommunicationLossPolicy({ enabled: true })]),
+      {
+        ...SCENARIO,
+        dischargePercentPerMinute: 1,
+        communicationDrops: [{ startSecond: 30, durationSeconds: 600 }],
+      },
+    );
+
+    // The last good poll was at 29s, so 300s without one is reached at 329s.
+    expect(summarize(result.events)).toEqual([
+      [329, 'holdStarted', 'default-comms-lost-on-battery'],
+      [334, 'countdownStarted', 'default-comms-lost-on-battery'],
+      [394, 'shutdown', 'default-comms-lost-on-battery'],
+    ]);
+    expect(result.communicationDrops).toEqual([{ startSecond: 30, endSecond: 394 }]);
+    expect(result.samples.find((sample) => sample.second === 100)).toMatchObject({
+      connected: false,
+      onBattery: true,
+    });
+  });
+
+  it('stops when the battery runs empty first', () => {
+    const result = simulateShutdownPolicyOutage(
+      makeConfig([makeRule({ id: 'never', trigger: { field: 'ups.fsd', op: 'eq', value: true } })]),
+      { ...SCENARIO, startChargePercent: 10, dischargePercentPerMinute: 10 },
+    );
+
+    expect(summarize(result.events)).toEqual([[60, 'batteryDepleted', undefined]]);
+    expect(result.batteryDepletedAtSecond).toBe(60);
+    expect(result.samples.at(-1)).toMatchObject({ second: 60, chargePercent: 0 });
+  });
+
+  it('thins long outages to a bounded number of chart samples', () => {
+    const result = simulateShutdownPolicyOutage(makeConfig([]), {
+      ...SCENARIO,
+      dischargePercentPerMinute: 1,
+    });
+
+    expect(result.batteryDepletedAtSecond).toBe(6000);
+    expect(result.samples.length).toBeLessThanOrEqual(601);
+    expect(result.samples[0].second).toBe(0);
+    expect(result.samples.at(-1)?.second).toBe(6000);
+  });
+
+  it('reads time-of-day conditions from the clock the outage starts at', () => {
+    const result = simulateShutdownPolicyOutage(
+      makeConfig([makeRule({
+        id: 'after-midnight',
+        trigger: {
+          all: [
+            { field: 'ups.onBattery', op: 'eq', value: true },
+            { timeWindow: { start: '00:00', end: '06:00', timeZone: 'UTC' } },
+          ],
+        },
+      })]),
+      { ...SCENARIO, restoreAfterSeconds: 120, startAtIso: '2026-10-19T23:59:00.000Z' },
+    );
+
+    expect(summarize(result.events)).toEqual([[60, 'warning', 'after-midnight']]);
+    expect(result.lanes[0].matched).toEqual([{ startSecond: 60, endSecond: 120 }]);
+  });
+});
+
+function summarize(events: { second: number; kind: string; ruleId?: string }[]) {
+  return events.map((event) => [event.second, event.kind, event.ruleId]);
+}
+
+function makeConfig(rules: ShutdownPolicyRule[]): ShutdownPolicyConfig {
+  return {
+    ...defaultShutdownPolicyConfig,
+    rules,
+  };
+}
+
+function makeRule(overrides: Partial<ShutdownPolicyRule> = {}): ShutdownPolicyRule {
+  return {
+    id: 'rule',
+    name: 'Rule',
+    enabled: true,
+    priority: 100,
+    severity: 'warning',
+    trigger: { field: 'ups.onBattery', op: 'eq', value: true },
+    action: { type: 'showWarning' },
+    createdBy: 'user',
+    ...overrides,
+  };
+}
+
+function makeCountdownRule(): ShutdownPolicyRule {
+  return makeRule({
+    id: 'countdown',
+    name: 'Long outage',
+    severity: 'critical',
+    trigger: { field: 'state.secondsOnBattery', op: 'gte', value: 60 },
+    action: {
+      type: 'startShutdownCountdown',
+      countdownSeconds: 120,
+      method: 'shutdown',
+    },
+    cancelWhen: { field: 'ups.online', op: 'eq', value: true },
+  });
+}
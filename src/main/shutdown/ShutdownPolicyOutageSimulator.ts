@@ -0,0 +1,254 @@
+import type { TelemetryValues } from '../../shared/ipc/contracts';
+import {
+  MAX_OUTAGE_SIMULATION_SAMPLES,
+  MAX_OUTAGE_SIMULATION_SECONDS,
+} from '../../shared/shutdownPolicy/constants';
+import { evaluatePolicyCondition } from '../../shared/shutdownPolicy/evaluation';
+import type {
+  ShutdownPolicyConfig,
+  ShutdownPolicyContext,
+  ShutdownPolicyOutageEvent,
+  ShutdownPolicyOutageRuleLane,
+  ShutdownPolicyOutageSample,
+  ShutdownPolicyOutageScenario,
+  ShutdownPolicyOutageSimulationResult,
+} from '../../shared/shutdownPolicy/types';
+import { ShutdownPolicyBacktester } from './ShutdownPolicyBacktester';
+import type { ShutdownPolicyContextBuilderInput } from './ShutdownPolicyContextBuilder';
+
+/** How long the simulation keeps running after mains returns, so cancellations show. */
+const RESTORED_TAIL_SECONDS = 60;
+const LOW_BATTERY_CHARGE_PERCENT = 20;
+
+type LaneState = {
+  lane: ShutdownPolicyOutageRuleLane;
+  matchedSince: number | null;
+};
+
+/**
+ * Plays a synthetic outage through the policy one second at a time, using the
+ * backtester and therefore the live context builder, engine and once-per-episode
+ * handling. Mains fails at second 0, which is `scenario.startAtIso` on the
+ * wall clock that time-of-day conditions read. While a communication drop lasts, polls fail
+ * and carry no values, as they do when upsd stops answering.
+ */
+export function simulateShutdownPolicyOutage(
+  policy: ShutdownPolicyConfig,
+  scenario: ShutdownPolicyOutageScenario,
+  batteryHealth: ShutdownPolicyContextBuilderInput['batteryHealth'] = null,
+): ShutdownPolicyOutageSimulationResult {
+  const backtester = new ShutdownPolicyBacktester(policy);
+  const lanes: LaneState[] = policy.rules
+    .filter((rule) => rule.enabled)
+    .map((rule): LaneState => ({
+      lane: {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        holdForSeconds: rule.holdForSeconds ?? 0,
+        matched: [],
+      },
+      matchedSince: null,
+    }));
+  const samples: ShutdownPolicyOutageSample[] = [];
+  const simulatorEvents: ShutdownPolicyOutageEvent[] = [];
+  let batteryDepletedAtSecond: number | undefined;
+  let lastSecond = 0;
+  const startMs = scenario.startAtIso === undefined ? 0 : Date.parse(scenario.startAtIso);
+
+  for (let second = 0; second <= MAX_OUTAGE_SIMULATION_SECONDS; second += 1) {
+    const onBattery = scenario.restoreAfterSeconds === null ||
+      second < scenario.restoreAfterSeconds;
+    const chargePercent = Math.round(chargeAt(scenario, second) * 10) / 10;
+    const connected = !scenario.communicationDrops.some(
+      (drop) => second >= drop.startSecond && second < drop.startSecond + drop.durationSeconds,
+    );
+
+    const context = backtester.step(connected
+      ? {
+        values: buildValues(scenario, chargePercent),
+        rawUpsStatus: buildStatus(onBattery, chargePercent),
+        connectionState: 'connected',
+        pollSucceeded: true,
+        batteryHealth,
+        now: startMs + second * 1000,
+      }
+      : {
+        connectionState: 'reconnecting',
+        pollSucceeded: false,
+        batteryHealth,
+        now: startMs + second * 1000,
+      });
+    if (!context) {
+      break;
+    }
+    lastSecond = second;
+
+    trackLanes(policy, lanes, context, second, simulatorEvents);
+    samples.push({
+      second,
+      chargePercent,
+      ...(context.battery.runtimeSeconds === undefined
+        ? {}
+        : { runtimeSeconds: context.battery.runtimeSeconds }),
+      onBattery,
+      connected,
+    });
+
+    if (backtester.hasShutDown()) {
+      break;
+    }
+    if (onBattery && chargeAt(scenario, second) <= 0) {
+      batteryDepletedAtSecond = second;
+      simulatorEvents.push({
+        second,
+        kind: 'batteryDepleted',
+        summary: 'The battery ran empty and the UPS would have cut power to the computer.',
+      });
+      break;
+    }
+    if (
+      scenario.restoreAfterSeconds !== null &&
+      second >= scenario.restoreAfterSeconds + RESTORED_TAIL_SECONDS
+    ) {
+      break;
+    }
+  }
+
+  const backtest = backtester.finish({
+    startIso: new Date(startMs).toISOString(),
+    endIso: new Date(startMs + lastSecond * 1000).toISOString(),
+  });
+  const shutdownAtSecond = backtest.shutdownAtIso === undefined
+    ? undefined
+    : (Date.parse(backtest.shutdownAtIso) - startMs) / 1000;
+  const durationSeconds = shutdownAtSecond ?? lastSecond;
+
+  for (const { lane, matchedSince } of lanes) {
+    if (matchedSince !== null) {
+      lane.matched.push({ startSecond: matchedSince, endSecond: durationSeconds });
+    }
+  }
+
+  const decisionEvents: ShutdownPolicyOutageEvent[] = [];
+  for (const event of backtest.events) {
+    if (event.kind === 'dataGap') {
+      continue;
+    }
+    decisionEvents.push({
+      second: (Date.parse(event.timestampIso) - startMs) / 1000,
+      kind: event.kind,
+      ...(event.ruleId === undefined ? {} : { ruleId: event.ruleId }),
+      ...(event.ruleName === undefined ? {} : { ruleName: event.ruleName }),
+      summary: event.summary,
+      ...(event.conditionExplanation === undefined
+        ? {}
+        : { conditionExplanation: event.conditionExplanation }),
+    });
+  }
+
+  const communicationDrops = scenario.communicationDrops
+    .filter((drop) => drop.startSecond < durationSeconds)
+    .map((drop) => ({
+      startSecond: drop.startSecond,
+      endSecond: Math.min(drop.startSecond + drop.durationSeconds, durationSeconds),
+    }))
+    .sort((a, b) => a.startSecond - b.startSecond);
+  const restoredAtSecond = scenario.restoreAfterSeconds !== null &&
+    scenario.restoreAfterSeconds <= durationSeconds
+    ? scenario.restoreAfterSeconds
+    : undefined;
+
+  return {
+    durationSeconds,
+    samples: downsample(samples),
+    communicationDrops,
+    ...(restoredAtSecond === undefined ? {} : { restoredAtSecond }),
+    lanes: lanes.map(({ lane }) => lane),
+    // A stable sort keeps a hold start ahead of the decision it led to.
+    events: [...simulatorEvents, ...decisionEvents].sort((a, b) => a.second - b.second),
+    ...(shutdownAtSecond === undefined ? {} : { shutdownAtSecond }),
+    ...(batteryDepletedAtSecond === undefined ? {} : { batteryDepletedAtSecond }),
+  };
+}
+
+/** Charge falls linearly while on battery and holds once mains returns. */
+function chargeAt(scenario: ShutdownPolicyOutageScenario, second: number): number {
+  const dischargeSeconds = scenario.restoreAfterSeconds === null
+    ? second
+    : Math.min(second, scenario.restoreAfterSeconds);
+  const charge = scenario.startChargePercent -
+    (scenario.dischargePercentPerMinute * dischargeSeconds) / 60;
+  return Math.max(0, charge);
+}
+
+function buildValues(
+  scenario: ShutdownPolicyOutageScenario,
+  chargePercent: number,
+): TelemetryValues {
+  return {
+    battery_charge_pct: chargePercent,
+    ups_load_pct: scenario.loadPercent,
+    ...(scenario.runtimeSource === 'reported'
+      ? {
+        battery_runtime_sec: Math.round(
+          (chargePercent / scenario.dischargePercentPerMinute) * 60,
+        ),
+      }
+      : {}),
+  };
+}
+
+function buildStatus(onBattery: boolean, chargePercent: number): string {
+  if (!onBattery) {
+    return 'OL';
+  }
+  return chargePercent <= LOW_BATTERY_CHARGE_PERCENT ? 'OB DISCHRG LB' : 'OB DISCHRG';
+}
+
+function trackLanes(
+  policy: ShutdownPolicyConfig,
+  lanes: LaneState[],
+  context: ShutdownPolicyContext,
+  second: number,
+  events: ShutdownPolicyOutageEvent[],
+): void {
+  for (const state of lanes) {
+    const rule = policy.rules.find((candidate) => candidate.id === state.lane.ruleId);
+    if (!rule) {
+      continue;
+    }
+
+    const matched = evaluatePolicyCondition(rule.trigger, context).matched;
+    if (matched && state.matchedSince === null) {
+      state.matchedSince = second;
+      if (state.lane.holdForSeconds > 0) {
+        events.push({
+          second,
+          kind: 'holdStarted',
+          ruleId: rule.id,
+          ruleName: rule.name,
+          summary:
+            `The trigger of ${rule.name} (${rule.id}) matched; it has to hold for ${state.lane.holdForSeconds}s before the rule acts.`,
+        });
+      }
+    } else if (!matched && state.matchedSince !== null) {
+      state.lane.matched.push({ startSecond: state.matchedSince, endSecond: second });
+      state.matchedSince = null;
+    }
+  }
+}
+
+/** Thins the per-second samples for the chart, keeping the first and last. */
+function downsample(samples: ShutdownPolicyOutageSample[]): ShutdownPolicyOutageSample[] {
+  if (samples.length <= MAX_OUTAGE_SIMULATION_SAMPLES) {
+    return samples;
+  }
+
+  const stride = Math.ceil(samples.length / MAX_OUTAGE_SIMULATION_SAMPLES);
+  const thinned = samples.filter((_, index) => index % stride === 0);
+  const last = samples[samples.length - 1];
+  if (thinned[thinned.length - 1] !== last) {
+    thinned.push(last);
+  }
+  return thinned;
+}
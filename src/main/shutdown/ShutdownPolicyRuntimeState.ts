@@ -7,6 +7,8 @@ export type ShutdownPolicyRuleRuntimeState = {
   firstMatchedAt?: number;
   cooldownUntil?: number;
   lastDecisionAt?: number;
+  /** Set when a countdown is cancelled from outside; cleared once the trigger stops matching. */
+  heldUntilUnmatched?: boolean;
 };
 
 export type ActiveShutdownCountdown = {
@@ -40,6 +42,15 @@ export class ShutdownPolicyRuntimeState {
       return;
     }
     state.firstMatchedAt = undefined;
+    state.heldUntilUnmatched = undefined;
+  }
+
+  public holdRuleUntilUnmatched(ruleId: string): void {
+    this.getRuleState(ruleId).heldUntilUnmatched = true;
+  }
+
+  public isRuleHeld(ruleId: string): boolean {
+    return this.ruleStates.get(ruleId)?.heldUntilUnmatched === true;
   }
 
   public isRuleCoolingDown(ruleId: string, now: number): boolean {
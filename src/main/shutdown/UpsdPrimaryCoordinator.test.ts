@@ -0,0 +1,232 @@
+import net from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { UpsdCoordinationControl } from './ShutdownExecutor';
+import { UpsdPrimaryCoordinator, type UpsdPrimaryCoordinationOptions } from './UpsdPrimaryCoordinator';
+
+type FakeUpsdOptions = {
+  /** Other logged-in clients, as LIST CLIENT reports them. */
+  secondaries: string[];
+  /** LIST CLIENT polls after FSD before the secondaries log out; never when null. */
+  secondariesLeaveAfterPolls: number | null;
+  legacyPrimaryCommand?: boolean;
+  denyFsd?: boolean;
+};
+
+type FakeUpsd = {
+  port: number;
+  received: string[];
+  close: () => Promise<void>;
+};
+
+/** A stateful stand-in for upsd covering the commands upsmon uses as primary. */
+async function startFakeUpsd(options: FakeUpsdOptions): Promise<FakeUpsd> {
+  const received: string[] = [];
+  const sockets = new Set<net.Socket>();
+  let secondaries = [...options.secondaries];
+  let fsdSet = false;
+  let pollsAfterFsd = 0;
+
+  const handle = (line: string, socket: net.Socket): string[] => {
+    const [command, ...args] = line.split(' ');
+    switch (command) {
+      case 'USERNAME':
+      case 'PASSWORD':
+        return ['OK'];
+      case 'LOGIN':
+        return args[0] === 'ups' ? ['OK'] : ['ERR UNKNOWN-UPS'];
+      case 'PRIMARY':
+        return options.legacyPrimaryCommand ? ['ERR UNKNOWN-COMMAND'] : ['OK PRIMARY-GRANTED'];
+      case 'MASTER':
+        return ['OK MASTER-GRANTED'];
+      case 'FSD':
+        if (options.denyFsd) {
+          return ['ERR ACCESS-DENIED'];
+        }
+        fsdSet = true;
+        return ['OK FSD-SET'];
+      case 'GET':
+        return [`NUMLOGINS ups ${secondaries.length + 1}`];
+      case 'LIST': {
+        if (fsdSet) {
+          pollsAfterFsd += 1;
+          if (
+            options.secondariesLeaveAfterPolls !== null &&
+            pollsAfterFsd > options.secondariesLeaveAfterPolls
+          ) {
+            secondaries = [];
+          }
+        }
+        return [
+          'BEGIN LIST CLIENT ups',
+          `CLIENT ups ${socket.remoteAddress}`,
+          ...secondaries.map((address) => `CLIENT ups ${address}`),
+          'END LIST CLIENT ups',
+        ];
+      }
+      default:
+        return ['ERR UNKNOWN-COMMAND'];
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.setEncoding('utf8');
+    let buffer = '';
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      for (let index = buffer.indexOf('\n'); index >= 0; index = buffer.indexOf('\n')) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 1);
+        received.push(line);
+        for (const reply of handle(line, socket)) {
+          socket.write(`${reply}\n`);
+        }
+      }
+    });
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address() as net.AddressInfo;
+
+  return {
+    port: address.port,
+    received,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) {
+          socket.destroy();
+        }
+        server.close(() => resolve());
+      }),
+  };
+}
+
+let upsd: FakeUpsd | null = null;
+
+async function coordinate(
+  fakeOptions: FakeUpsdOptions,
+  overrides: Partial<UpsdPrimaryCoordinationOptions> = {},
+  control?: UpsdCoordinationControl,
+) {
+  upsd = await startFakeUpsd(fakeOptions);
+  const coordinator = new UpsdPrimaryCoordinator(undefined, 10);
+  return coordinator.run({
+    host: '127.0.0.1',
+    port: upsd.port,
+    upsName: 'ups',
+    username: 'monuser',
+    password: 'secret',
+    secondaryTimeoutSeconds: 5,
+    ...overrides,
+  }, control);
+}
+
+afterEach(async () => {
+  await upsd?.close();
+  upsd = null;
+});
+
+describe('UpsdPrimaryCoordinator', () => {
+  it('raises FSD and waits for the secondaries to log out', async () => {
+    const steps = await coordinate({
+      secondaries: ['192.0.2.20', '192.0.2.21'],
+      secondariesLeaveAfterPolls: 2,
+    });
+
+    expect(steps.map(({ step, success }) => ({ step, success }))).toEqual([
+      { step: 'login', success: true },
+      { step: 'primary', success: true },
+      { step: 'fsd', success: true },
+      { step: 'waitForSecondaries', success: true },
+    ]);
+    expect(steps[2].message).toBe('Raised FSD on ups with 3 client(s) logged in.');
+    expect(steps[3].message).toMatch(/^All secondaries logged out after/);
+    expect(upsd!.received).toEqual(expect.arrayContaining([
+      'USERNAME monuser',
+      'PASSWORD secret',
+      'LOGIN ups',
+      'PRIMARY ups',
+      'FSD ups',
+      'GET NUMLOGINS ups',
+      'LIST CLIENT ups',
+    ]));
+    expect(upsd!.received.filter((line) => line === 'LIST CLIENT ups')).toHaveLength(3);
+  });
+
+  it('gives up waiting after the timeout and names the remaining secondaries', async () => {
+    const steps = await coordinate(
+      { secondaries: ['192.0.2.20'], secondariesLeaveAfterPolls: null },
+      { secondaryTimeoutSeconds: 0.05 },
+    );
+
+    expect(steps.at(-1)).toMatchObject({
+      step: 'waitForSecondaries',
+      success: false,
+      message: 'Timed out after 0.05s; still logged in: 192.0.2.20.',
+    });
+  });
+
+  it('falls back to MASTER on upsd releases without PRIMARY', async () => {
+    const steps = await coordinate({
+      secondaries: [],
+      secondariesLeaveAfterPolls: 0,
+      legacyPrimaryCommand: true,
+    });
+
+    expect(steps.every((step) => step.success)).toBe(true);
+    expect(upsd!.received).toContain('MASTER ups');
+  });
+
+  it('stops at the first failed step', async () => {
+    const steps = await coordinate({
+      secondaries: ['192.0.2.20'],
+      secondariesLeaveAfterPolls: 0,
+      denyFsd: true,
+    });
+
+    expect(steps.map((step) => step.step)).toEqual(['login', 'primary', 'fsd']);
+    expect(steps[2]).toMatchObject({ success: false });
+    expect(steps[2].message).toContain('ERR ACCESS-DENIED');
+    expect(upsd!.received).not.toContain('LIST CLIENT ups');
+  });
+
+  it('does not raise FSD once the shutdown was cancelled', async () => {
+    const markIrrevocable = vi.fn();
+    const steps = await coordinate(
+      { secondaries: [], secondariesLeaveAfterPolls: 0 },
+      {},
+      { isCancelled: () => true, markIrrevocable },
+    );
+
+    expect(steps.at(-1)).toEqual(expect.objectContaining({
+      step: 'fsd',
+      success: false,
+      message: 'The shutdown was cancelled; FSD was not raised.',
+    }));
+    expect(markIrrevocable).not.toHaveBeenCalled();
+    expect(upsd!.received).not.toContain('FSD ups');
+  });
+
+  it('becomes irrevocable when it raises FSD', async () => {
+    const markIrrevocable = vi.fn();
+    await coordinate(
+      { secondaries: [], secondariesLeaveAfterPolls: 0 },
+      {},
+      { isCancelled: () => false, markIrrevocable },
+    );
+
+    expect(markIrrevocable).toHaveBeenCalledOnce();
+    expect(upsd!.received).toContain('FSD ups');
+  });
+
+  it('needs credentials before it contacts upsd', async () => {
+    const steps = await coordinate(
+      { secondaries: [], secondariesLeaveAfterPolls: 0 },
+      { username: undefined },
+    );
+
+    expect(steps).toEqual([expect.objectContaining({ step: 'login', success: false })]);
+    expect(upsd!.received).toEqual([]);
+  });
+});
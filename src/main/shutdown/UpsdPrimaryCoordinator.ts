@@ -0,0 +1,157 @@
+import { NutClient } from '../nut/nutClient';
+import type { NutTlsSettings } from '../../shared/nut/tls';
+import type {
+  UpsdCoordinationStep,
+  UpsdCoordinationStepName,
+} from '../../shared/shutdownPolicy/types';
+import type { UpsdCoordinationControl } from './ShutdownExecutor';
+
+export type UpsdPrimaryCoordinationOptions = {
+  host: string;
+  port: number;
+  upsName: string;
+  username?: string;
+  password?: string;
+  tls?: NutTlsSettings;
+  secondaryTimeoutSeconds: number;
+};
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const CONNECT_TIMEOUT_MS = 5000;
+
+/**
+ * Does what upsmon does as the primary before powering off: log in to upsd,
+ * claim primary rights, raise FSD and wait for the secondaries to log out.
+ * Failures end the sequence but never reject; the local shutdown still runs.
+ * A cancellation seen before FSD is raised ends the sequence too.
+ */
+export class UpsdPrimaryCoordinator {
+  private readonly createClient: () => NutClient;
+  private readonly pollIntervalMs: number;
+
+  public constructor(
+    createClient: () => NutClient = () => new NutClient(),
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+  ) {
+    this.createClient = createClient;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  public async run(
+    options: UpsdPrimaryCoordinationOptions,
+    control?: UpsdCoordinationControl,
+  ): Promise<UpsdCoordinationStep[]> {
+    const steps: UpsdCoordinationStep[] = [];
+    const { upsName } = options;
+
+    if (!options.username || !options.password) {
+      steps.push({
+        step: 'login',
+        success: false,
+        durationMs: 0,
+        message: 'Primary mode needs a NUT username and password with upsmon primary rights.',
+      });
+      return steps;
+    }
+
+    const client = this.createClient();
+    try {
+      const completed =
+        await runStep(steps, 'login', async () => {
+          await client.connect({
+            host: options.host,
+            port: options.port,
+            upsName,
+            username: options.username,
+            password: options.password,
+            tls: options.tls,
+            timeoutMs: CONNECT_TIMEOUT_MS,
+          });
+          return `Logged in to ${upsName}@${options.host}:${options.port} as ${options.username}.`;
+        }) &&
+        await runStep(steps, 'primary', async () => {
+          await client.claimPrimary(upsName);
+          return `Claimed primary rights on ${upsName}.`;
+        }) &&
+        await runStep(steps, 'fsd', async () => {
+          if (control?.isCancelled()) {
+            throw new Error('The shutdown was cancelled; FSD was not raised.');
+          }
+          // upsd may apply FSD even when its reply is lost, so the shutdown
+          // stops being cancellable as soon as the command is sent.
+          control?.markIrrevocable();
+          await client.setForcedShutdown(upsName);
+          const logins = await client.getNumLogins(upsName);
+          return `Raised FSD on ${upsName} with ${logins} client(s) logged in.`;
+        });
+
+      if (completed) {
+        await runStep(steps, 'waitForSecondaries', () =>
+          this.waitForSecondaries(client, upsName, options.secondaryTimeoutSeconds));
+      }
+    } finally {
+      await client.close();
+    }
+
+    return steps;
+  }
+
+  /**
+   * Clients at our own address are this app's sessions, so they are not
+   * waited for.
+   */
+  private async waitForSecondaries(
+    client: NutClient,
+    upsName: string,
+    timeoutSeconds: number,
+  ): Promise<string> {
+    const ownAddress = normalizeAddress(client.getLocalAddress() ?? '');
+    const startedAt = Date.now();
+    const deadline = startedAt + timeoutSeconds * 1000;
+
+    for (; ;) {
+      const secondaries = (await client.listClients(upsName))
+        .filter((address) => normalizeAddress(address) !== ownAddress);
+      const elapsedSeconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+
+      if (secondaries.length === 0) {
+        return `All secondaries logged out after ${elapsedSeconds}s.`;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Timed out after ${timeoutSeconds}s; still logged in: ${secondaries.join(', ')}.`,
+        );
+      }
+
+      await new Promise<void>((resolve) => {
+        setTimeout(resolve, this.pollIntervalMs);
+      });
+    }
+  }
+}
+
+async function runStep(
+  steps: UpsdCoordinationStep[],
+  step: UpsdCoordinationStepName,
+  operation: () => Promise<string>,
+): Promise<boolean> {
+  const startedAt = Date.now();
+  try {
+    const message = await operation();
+    steps.push({ step, success: true, durationMs: Date.now() - startedAt, message });
+    return true;
+  } catch (error) {
+    steps.push({
+      step,
+      success: false,
+      durationMs: Date.now() - startedAt,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/** upsd may list IPv4 peers in their IPv6-mapped form. */
+function normalizeAddress(address: string): string {
+  return address.replace(/^::ffff:/i, '');
+}
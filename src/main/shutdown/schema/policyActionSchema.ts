@@ -1,12 +1,30 @@
 import { z } from 'zod';
 import {
+  MAX_POLICY_ACTION_ARGS,
+  MAX_POLICY_ACTION_TIMEOUT_SECONDS,
   MAX_POLICY_COUNTDOWN_SECONDS,
+  MIN_POLICY_ACTION_TIMEOUT_SECONDS,
   MIN_POLICY_COUNTDOWN_SECONDS,
   SHUTDOWN_METHODS,
 } from '../../../shared/shutdownPolicy/constants';
 
 const optionalMessageSchema = z.string().trim().min(1).max(500).optional();
 
+const actionTimeoutSecondsSchema = z
+  .number()
+  .int()
+  .min(MIN_POLICY_ACTION_TIMEOUT_SECONDS)
+  .max(MAX_POLICY_ACTION_TIMEOUT_SECONDS);
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .max(2000)
+  .url()
+  .refine((value) => /^https?:$/i.test(new URL(value).protocol), {
+    message: 'Webhook URL must use http or https',
+  });
+
 export const policyActionSchema = z.discriminatedUnion('type', [
   z
     .object({
@@ -42,4 +60,25 @@ export const policyActionSchema = z.discriminatedUnion('type', [
       type: z.literal('cancelShutdownCountdown'),
     })
     .strict(),
+  z
+    .object({
+      type: z.literal('runCommand'),
+      command: z.string().trim().min(1).max(1000),
+      args: z.array(z.string().max(1000)).max(MAX_POLICY_ACTION_ARGS),
+      timeoutSeconds: actionTimeoutSecondsSchema,
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('sendWebhook'),
+      url: webhookUrlSchema,
+      timeoutSeconds: actionTimeoutSecondsSchema,
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('notifyOnly'),
+      message: optionalMessageSchema,
+    })
+    .strict(),
 ]);
@@ -4,12 +4,15 @@ import {
   MAX_POLICY_CONDITIONS_PER_GROUP,
   POLICY_FIELDS,
   POLICY_OPERATORS,
+  POLICY_TIME_OF_DAY_PATTERN,
 } from '../../../shared/shutdownPolicy/constants';
 import { POLICY_FIELD_METADATA } from '../../../shared/shutdownPolicy/fieldMetadata';
+import { isValidTimeZone } from '../../../shared/shutdownPolicy/time';
 import type {
   PolicyCondition,
   PolicyField,
   PolicyOperator,
+  PolicyTimeWindow,
 } from '../../../shared/shutdownPolicy/types';
 
 type IssuePath = Array<string | number>;
@@ -28,6 +31,19 @@ const policyConditionLeafSchema = z
   })
   .strict();
 
+const timeOfDaySchema = z
+  .string()
+  .regex(POLICY_TIME_OF_DAY_PATTERN, 'Expected a 24-hour time like 22:30');
+
+const policyTimeWindowSchema = z
+  .object({
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+    days: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(),
+    timeZone: z.string().min(1).max(64).optional(),
+  })
+  .strict();
+
 const policyConditionBaseSchema: z.ZodType<PolicyCondition> = z.lazy(() =>
   z.union([
     z
@@ -51,6 +67,11 @@ const policyConditionBaseSchema: z.ZodType<PolicyCondition> = z.lazy(() =>
         not: policyConditionBaseSchema,
       })
       .strict(),
+    z
+      .object({
+        timeWindow: policyTimeWindowSchema,
+      })
+      .strict(),
     policyConditionLeafSchema,
   ]),
 );
@@ -103,6 +124,11 @@ function validateCondition(
     return;
   }
 
+  if ('timeWindow' in condition) {
+    validateTimeWindow(condition.timeWindow, addIssue, [...path, 'timeWindow']);
+    return;
+  }
+
   validateConditionLeaf(condition.field, condition.op, condition.value, addIssue, path);
 }
 
@@ -124,6 +150,20 @@ function validateConditionGroup(
   });
 }
 
+function validateTimeWindow(
+  window: PolicyTimeWindow,
+  addIssue: (issuePath: IssuePath, message: string) => void,
+  path: IssuePath,
+): void {
+  if (window.days && new Set(window.days).size !== window.days.length) {
+    addIssue([...path, 'days'], 'Time window days must be unique');
+  }
+
+  if (window.timeZone !== undefined && !isValidTimeZone(window.timeZone)) {
+    addIssue([...path, 'timeZone'], `Unknown time zone ${window.timeZone}`);
+  }
+}
+
 function validateConditionLeaf(
   field: PolicyField,
   operator: PolicyOperator,
@@ -161,6 +201,20 @@ function validateConditionLeaf(
     return;
   }
 
+  if (
+    metadata.integerRange &&
+    typeof value === 'number' &&
+    (!Number.isInteger(value) ||
+      value < metadata.integerRange.min ||
+      value > metadata.integerRange.max)
+  ) {
+    addIssue(
+      [...path, 'value'],
+      `Field ${field} requires a whole number from ${metadata.integerRange.min} to ${metadata.integerRange.max}`,
+    );
+    return;
+  }
+
   if (metadata.valueType === 'boolean' && typeof value !== 'boolean') {
     addIssue([...path, 'value'], `Field ${field} requires a boolean value`);
     return;
@@ -189,6 +243,10 @@ export function conditionContainsFsdTrigger(condition: PolicyCondition): boolean
     return conditionContainsFsdReference(condition.not);
   }
 
+  if ('timeWindow' in condition) {
+    return false;
+  }
+
   return condition.field === 'ups.fsd' && condition.op === 'eq' && condition.value === true;
 }
 
@@ -245,7 +303,7 @@ function conditionHasPositiveLeaf(
     );
   }
 
-  if ('not' in condition) {
+  if ('not' in condition || 'timeWindow' in condition) {
     return false;
   }
 
@@ -265,5 +323,9 @@ function conditionContainsFsdReference(condition: PolicyCondition): boolean {
     return conditionContainsFsdReference(condition.not);
   }
 
+  if ('timeWindow' in condition) {
+    return false;
+  }
+
   return condition.field === 'ups.fsd';
 }
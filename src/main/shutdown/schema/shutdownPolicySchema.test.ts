@@ -1,12 +1,16 @@
 import { describe, expect, it } from 'vitest';
 import {
+  MAX_POLICY_ACTION_TIMEOUT_SECONDS,
   MAX_POLICY_CONDITIONS_PER_GROUP,
   MAX_POLICY_HOLD_SECONDS,
+  MAX_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS,
+  MAX_PRIMARY_MODE_TIMEOUT_SECONDS,
   MAX_SHUTDOWN_POLICY_RULES,
   MIN_POLICY_HOLD_SECONDS,
 } from '../../../shared/shutdownPolicy/constants';
 import type {
   PolicyCondition,
+  PreShutdownHook,
   ShutdownPolicyConfig,
   ShutdownPolicyRule,
 } from '../../../shared/shutdownPolicy/types';
@@ -373,8 +377,196 @@ describe('shutdownPolicySchema', () => {
     const result = shutdownPolicySchema.safeParse(config);
     expect(result.success).toBe(true);
   });
+
+  it('accepts ordered pre-shutdown hooks', () => {
+    const config = makeConfig([], {
+      preShutdownHooks: [
+        makeHook({ id: 'stop-vms', onFailure: 'abort' }),
+        makeHook({ id: 'unmount-nas', args: ['-a', '-t', 'nfs'] }),
+      ],
+    });
+
+    expect(shutdownPolicySchema.safeParse(config).success).toBe(true);
+  });
+
+  it('rejects duplicate hook ids and out-of-range hook timeouts', () => {
+    const duplicate = makeConfig([], {
+      preShutdownHooks: [makeHook({ id: 'same' }), makeHook({ id: 'same' })],
+    });
+    const slow = makeConfig([], {
+      preShutdownHooks: [
+        makeHook({ timeoutSeconds: MAX_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS + 1 }),
+      ],
+    });
+    const blank = makeConfig([], {
+      preShutdownHooks: [makeHook({ command: '  ' })],
+    });
+
+    expect(shutdownPolicySchema.safeParse(duplicate).success).toBe(false);
+    expect(shutdownPolicySchema.safeParse(slow).success).toBe(false);
+    expect(shutdownPolicySchema.safeParse(blank).success).toBe(false);
+  });
+
+  it('bounds the primary mode wait for secondaries', () => {
+    const valid = makeConfig([], {
+      primaryMode: { enabled: true, secondaryTimeoutSeconds: 60 },
+    });
+    const tooLong = makeConfig([], {
+      primaryMode: {
+        enabled: true,
+        secondaryTimeoutSeconds: MAX_PRIMARY_MODE_TIMEOUT_SECONDS + 1,
+      },
+    });
+
+    expect(shutdownPolicySchema.safeParse(valid).success).toBe(true);
+    expect(shutdownPolicySchema.safeParse(tooLong).success).toBe(false);
+  });
+
+  it('accepts runCommand, sendWebhook and notifyOnly actions without shutdown safety checks', () => {
+    const config = makeConfig([
+      makeRule({
+        id: 'script',
+        holdForSeconds: 0,
+        action: {
+          type: 'runCommand',
+          command: '/usr/local/bin/on-battery',
+          args: ['--notify'],
+          timeoutSeconds: 15,
+        },
+      }),
+      makeRule({
+        id: 'webhook',
+        trigger: { field: 'battery.chargePercent', op: 'lte', value: 50 },
+        action: {
+          type: 'sendWebhook',
+          url: 'https://hooks.example.com/ups',
+          timeoutSeconds: 10,
+        },
+      }),
+      makeRule({
+        id: 'toast',
+        action: { type: 'notifyOnly', message: 'Running on battery' },
+      }),
+    ]);
+
+    expect(shutdownPolicySchema.safeParse(config).success).toBe(true);
+  });
+
+  it('rejects non-http webhook URLs and out-of-range action timeouts', () => {
+    const fileUrl = makeConfig([
+      makeRule({
+        action: { type: 'sendWebhook', url: 'file:///etc/passwd', timeoutSeconds: 10 },
+      }),
+    ]);
+    const slow = makeConfig([
+      makeRule({
+        action: {
+          type: 'runCommand',
+          command: 'notify',
+          args: [],
+          timeoutSeconds: MAX_POLICY_ACTION_TIMEOUT_SECONDS + 1,
+        },
+      }),
+    ]);
+    const blank = makeConfig([
+      makeRule({
+        action: { type: 'runCommand', command: ' ', args: [], timeoutSeconds: 10 },
+      }),
+    ]);
+
+    expect(shutdownPolicySchema.safeParse(fileUrl).success).toBe(false);
+    expect(shutdownPolicySchema.safeParse(slow).success).toBe(false);
+    expect(shutdownPolicySchema.safeParse(blank).success).toBe(false);
+  });
+
+  it('accepts time-of-day rules next to a safe trigger', () => {
+    const config = makeConfig([
+      makeRule({
+        id: 'night',
+        trigger: {
+          all: [
+            { field: 'ups.onBattery', op: 'eq', value: true },
+            { field: 'state.secondsOnBattery', op: 'gte', value: 120 },
+            { timeWindow: { start: '18:00', end: '09:00' } },
+          ],
+        },
+      }),
+      makeRule({
+        id: 'office-hours',
+        trigger: {
+          all: [
+            { field: 'ups.onBattery', op: 'eq', value: true },
+            { field: 'battery.chargePercent', op: 'lte', value: 20 },
+            {
+              timeWindow: {
+                start: '09:00',
+                end: '18:00',
+                days: [1, 2, 3, 4, 5],
+                timeZone: 'Europe/Berlin',
+              },
+            },
+          ],
+        },
+      }),
+      makeRule({
+        id: 'weekend',
+        action: { type: 'showWarning' },
+        trigger: { field: 'time.dayOfWeek', op: 'eq', value: 6 },
+      }),
+    ]);
+
+    expect(shutdownPolicySchema.safeParse(config).success).toBe(true);
+  });
+
+  it('does not count a time window as a safe shutdown trigger', () => {
+    const config = makeConfig([
+      makeRule({
+        trigger: {
+          all: [
+            { field: 'battery.chargePercent', op: 'lte', value: 20 },
+            { timeWindow: { start: '22:00', end: '06:00' } },
+          ],
+        },
+      }),
+    ]);
+
+    expect(shutdownPolicySchema.safeParse(config).success).toBe(false);
+  });
+
+  it('rejects malformed time windows and out-of-range time values', () => {
+    const withTrigger = (trigger: PolicyCondition) => makeConfig([
+      makeRule({ action: { type: 'showWarning' }, trigger }),
+    ]);
+    const invalid: PolicyCondition[] = [
+      { timeWindow: { start: '24:00', end: '06:00' } },
+      { timeWindow: { start: '9:00', end: '17:00' } },
+      { timeWindow: { start: '09:00', end: '17:00', days: [] } },
+      { timeWindow: { start: '09:00', end: '17:00', days: [1, 1] } },
+      { timeWindow: { start: '09:00', end: '17:00', days: [7] } },
+      { timeWindow: { start: '09:00', end: '17:00', timeZone: 'Mars/Olympus_Mons' } },
+      { field: 'time.hourOfDay', op: 'gte', value: 24 },
+      { field: 'time.dayOfWeek', op: 'eq', value: 1.5 },
+    ];
+
+    for (const trigger of invalid) {
+      expect(shutdownPolicySchema.safeParse(withTrigger(trigger)).success).toBe(false);
+    }
+  });
 });
 
+function makeHook(overrides: Partial<PreShutdownHook> = {}): PreShutdownHook {
+  return {
+    id: 'hook-1',
+    name: 'Hook',
+    enabled: true,
+    command: '/usr/local/bin/flush-db',
+    args: [],
+    timeoutSeconds: 30,
+    onFailure: 'continue',
+    ...overrides,
+  };
+}
+
 function makeConfig(
   rules: ShutdownPolicyRule[],
   overrides: Partial<ShutdownPolicyConfig> = {},
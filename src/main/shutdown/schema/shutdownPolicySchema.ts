@@ -5,13 +5,18 @@ import {
   MAX_POLICY_COOLDOWN_SECONDS,
   MAX_POLICY_COUNTDOWN_SECONDS,
   MAX_POLICY_HOLD_SECONDS,
+  MAX_PRIMARY_MODE_TIMEOUT_SECONDS,
+  MAX_SHUTDOWN_POLICY_PRESET_NAME_LENGTH,
+  MAX_SHUTDOWN_POLICY_PRESETS,
   MAX_SHUTDOWN_POLICY_RULES,
   MIN_POLICY_HOLD_SECONDS,
+  MIN_PRIMARY_MODE_TIMEOUT_SECONDS,
   SHUTDOWN_POLICY_CREATORS,
   SHUTDOWN_POLICY_MODES,
   SHUTDOWN_POLICY_SEVERITIES,
   SHUTDOWN_POLICY_VERSION,
 } from '../../../shared/shutdownPolicy/constants';
+import { preShutdownHookListSchema } from '../../../shared/shutdownPolicy/preShutdownHookSchema';
 import type {
   ShutdownPolicyAction,
   ShutdownPolicyConfig,
@@ -70,6 +75,17 @@ const shutdownPolicyRuleBaseSchema = z
   })
   .strict();
 
+const primaryModeSchema = z
+  .object({
+    enabled: z.boolean(),
+    secondaryTimeoutSeconds: z
+      .number()
+      .int()
+      .min(MIN_PRIMARY_MODE_TIMEOUT_SECONDS)
+      .max(MAX_PRIMARY_MODE_TIMEOUT_SECONDS),
+  })
+  .strict();
+
 export const shutdownPolicySchema = z
   .object({
     version: z.literal(SHUTDOWN_POLICY_VERSION),
@@ -78,6 +94,8 @@ export const shutdownPolicySchema = z
       .array(shutdownPolicyRuleBaseSchema)
       .max(MAX_SHUTDOWN_POLICY_RULES),
     safety: shutdownPolicySafetySchema,
+    preShutdownHooks: preShutdownHookListSchema.optional(),
+    primaryMode: primaryModeSchema.optional(),
   })
   .strict()
   .superRefine((config, context) => {
@@ -111,9 +129,43 @@ export const shutdownPolicyPatchSchema = z
       .max(MAX_SHUTDOWN_POLICY_RULES)
       .optional(),
     safety: shutdownPolicySafetySchema.partial().optional(),
+    preShutdownHooks: preShutdownHookListSchema.optional(),
+    primaryMode: primaryModeSchema.optional(),
   })
   .strict();
 
+export const shutdownPolicyPresetNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(MAX_SHUTDOWN_POLICY_PRESET_NAME_LENGTH);
+
+const shutdownPolicyPresetSchema = z
+  .object({
+    id: z.string().min(1).max(128),
+    name: shutdownPolicyPresetNameSchema,
+    savedAtIso: z.string().min(1).max(64),
+    policy: shutdownPolicySchema,
+  })
+  .strict();
+
+export const shutdownPolicyPresetListSchema = z
+  .array(shutdownPolicyPresetSchema)
+  .max(MAX_SHUTDOWN_POLICY_PRESETS)
+  .superRefine((presets, context) => {
+    const seenIds = new Set<string>();
+    presets.forEach((preset, index) => {
+      if (seenIds.has(preset.id)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'id'],
+          message: `Duplicate shutdown policy preset id: ${preset.id}`,
+        });
+      }
+      seenIds.add(preset.id);
+    });
+  });
+
 export const defaultShutdownPolicyConfig: ShutdownPolicyConfig = {
   ...DEFAULT_SHUTDOWN_POLICY_CONFIG,
   safety: {
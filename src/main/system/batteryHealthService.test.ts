@@ -0,0 +1,327 @@
+import { describe, expect, it, vi } from 'vitest';
+import type {
+  BatteryDischarge,
+  BatteryHealthRepository,
+  OnBatterySample,
+} from '../db/batteryHealthRepository';
+import {
+  BatteryHealthService,
+  buildBatteryHealthReport,
+  parseBatteryManufactureDate,
+  summarizeDischarges,
+} from './batteryHealthService';
+
+const NOW = Date.parse('2026-05-14T12:00:00.000Z');
+const MINUTE_MS = 60 * 1000;
+
+function sample(
+  minute: number,
+  overrides: Partial<OnBatterySample> = {},
+): OnBatterySample {
+  return {
+    period: 1,
+    tsIso: new Date(NOW + minute * MINUTE_MS).toISOString(),
+    chargePercent: 100 - minute,
+    realPowerWatts: 100,
+    loadPercent: null,
+    temperatureC: null,
+    ...overrides,
+  };
+}
+
+function discharge(
+  day: number,
+  chargeDrop: number,
+  overrides: Partial<BatteryDischarge> = {},
+): BatteryDischarge {
+  const startedAt = NOW + day * 24 * 60 * MINUTE_MS;
+  return {
+    upsId: 'primary',
+    startedAtIso: new Date(startedAt).toISOString(),
+    endedAtIso: new Date(startedAt + 10 * MINUTE_MS).toISOString(),
+    startChargePercent: 100,
+    endChargePercent: 100 - chargeDrop,
+    energyWattMinutes: 1000,
+    averageLoadPercent: null,
+    averageTemperatureC: null,
+    ...overrides,
+  };
+}
+
+class FakeBatteryHealthRepository {
+  public readonly discharges: BatteryDischarge[] = [];
+  public samples: OnBatterySample[] = [];
+  public readonly sinceValues: Array<Date | null> = [];
+
+  public async listOnBatterySamples(
+    _upsId: string,
+    since: Date | null,
+  ): Promise<OnBatterySample[]> {
+    this.sinceValues.push(since);
+    return this.samples;
+  }
+
+  public async upsertDischarge(next: BatteryDischarge): Promise<void> {
+    const index = this.discharges.findIndex(
+      (existing) => existing.startedAtIso === next.startedAtIso,
+    );
+    if (index >= 0) {
+      this.discharges[index] = next;
+    } else {
+      this.discharges.push(next);
+    }
+  }
+
+  public async listDischarges(): Promise<BatteryDischarge[]> {
+    return [...this.discharges];
+  }
+}
+
+describe('summarizeDischarges()', () => {
+  it('integrates energy per period and splits runs across polling gaps', () => {
+    const discharges = summarizeDischarges(
+      'primary',
+      [
+        sample(0, { temperatureC: 24 }),
+        sample(1, { temperatureC: 26 }),
+        sample(2),
+        sample(20),
+        sample(21),
+        sample(30, { period: 2 }),
+      ],
+      null,
+    );
+
+    expect(discharges).toEqual([
+      {
+        upsId: 'primary',
+        startedAtIso: '2026-05-14T12:00:00.000Z',
+        endedAtIso: '2026-05-14T12:02:00.000Z',
+        startChargePercent: 100,
+        endChargePercent: 98,
+        energyWattMinutes: 200,
+        averageLoadPercent: null,
+        averageTemperatureC: 25,
+      },
+      expect.objectContaining({
+        startedAtIso: '2026-05-14T12:20:00.000Z',
+        endChargePercent: 79,
+        energyWattMinutes: 100,
+      }),
+    ]);
+  });
+
+  it('derives real power from the load and nominal power when it is not reported', () => {
+    const [result] = summarizeDischarges(
+      'primary',
+      [
+        sample(0, { realPowerWatts: null, loadPercent: 50 }),
+        sample(2, { realPowerWatts: null, loadPercent: 50 }),
+      ],
+      600,
+    );
+
+    expect(result.energyWattMinutes).toBe(600);
+    expect(result.averageLoadPercent).toBe(50);
+    expect(summarizeDischarges(
+      'primary',
+      [sample(0, { realPowerWatts: null }), sample(2, { realPowerWatts: null })],
+      null,
+    )).toEqual([]);
+  });
+
+  it('keeps load-only discharges for the runtime model', () => {
+    const [result] = summarizeDischarges(
+      'primary',
+      [
+        sample(0, { realPowerWatts: null, loadPercent: 30 }),
+        sample(2, { realPowerWatts: null, loadPercent: 40 }),
+      ],
+      null,
+    );
+
+    expect(result).toMatchObject({ energyWattMinutes: null, averageLoadPercent: 35 });
+  });
+});
+
+describe('buildBatteryHealthReport()', () => {
+  it('compares recent discharges against the first ones', () => {
+    const report = buildBatteryHealthReport(
+      'primary',
+      [
+        discharge(0, 10),
+        discharge(10, 10),
+        discharge(20, 2),
+        discharge(30, 10),
+        discharge(40, 12.5),
+        discharge(50, 12.5),
+      ],
+      null,
+      NOW,
+    );
+
+    expect(report.trend.map((point) => point.capacityPercent)).toEqual([100, 100, 100, 80, 80]);
+    expect(report.trend[3].chargeDropPerWattMinute).toBeCloseTo(0.0125);
+    expect(report.capacityPercent).toBe(80);
+    expect(report.replaceSoon).toBe(false);
+  });
+
+  it('does not mistake a cold battery for a worn one', () => {
+    const report = buildBatteryHealthReport(
+      'primary',
+      [
+        discharge(0, 10, { averageTemperatureC: 25 }),
+        // 10 °C colder delivers about 6 % less, which is corrected away.
+        discharge(10, 10 / 0.94, { averageTemperatureC: 15 }),
+      ],
+      null,
+      NOW,
+    );
+
+    expect(report.trend[1].capacityPercent).toBe(100);
+  });
+
+  it('flags low capacity and old packs for replacement', () => {
+    const report = buildBatteryHealthReport(
+      'primary',
+      [0, 10, 20, 30, 40, 50].map((day) => discharge(day, day < 30 ? 10 : 20)),
+      new Date('2021-05-01T00:00:00.000Z'),
+      NOW,
+    );
+
+    expect(report).toMatchObject({
+      capacityPercent: 50,
+      manufacturedAtIso: '2021-05-01T00:00:00.000Z',
+      ageYears: 5,
+      replaceSoon: true,
+      replaceReasons: ['lowCapacity', 'age'],
+    });
+  });
+
+  it('learns drain rates from the latest discharges, including load-only ones', () => {
+    const report = buildBatteryHealthReport(
+      'primary',
+      [
+        ...[0, 1, 2, 3, 4].map((day) => discharge(day, 10)),
+        discharge(5, 20, { energyWattMinutes: null, averageLoadPercent: 40 }),
+      ],
+      null,
+      NOW,
+    );
+
+    expect(report.trend).toHaveLength(5);
+    expect(report.runtimeModel).toHaveLength(5);
+    expect(report.runtimeModel[0]).toEqual({
+      drainPercentPerMinute: 1,
+      averagePowerWatts: 100,
+      averageLoadPercent: null,
+    });
+    expect(report.runtimeModel[4]).toEqual({
+      drainPercentPerMinute: 2,
+      averagePowerWatts: null,
+      averageLoadPercent: 40,
+    });
+  });
+
+  it('reports no estimate before a usable discharge', () => {
+    expect(buildBatteryHealthReport('primary', [], null, NOW)).toMatchObject({
+      capacityPercent: null,
+      trend: [],
+      ageYears: null,
+      replaceSoon: false,
+      replaceReasons: [],
+      runtimeModel: [],
+    });
+  });
+});
+
+describe('parseBatteryManufactureDate()', () => {
+  it.each([
+    ['2024/03/15', '2024-03-15T00:00:00.000Z'],
+    ['2024-3-5', '2024-03-05T00:00:00.000Z'],
+    ['03/15/24', '2024-03-15T00:00:00.000Z'],
+    ['03/15/2024', '2024-03-15T00:00:00.000Z'],
+  ])('parses %s', (raw, expected) => {
+    expect(parseBatteryManufactureDate(raw)?.toISOString()).toBe(expected);
+  });
+
+  it.each([undefined, '', 'unknown', '2024/13/01', '02/30/2024'])(
+    'rejects %s',
+    (raw) => {
+      expect(parseBatteryManufactureDate(raw)).toBeNull();
+    },
+  );
+});
+
+describe('BatteryHealthService', () => {
+  it('re-reads the latest discharge and reports every recorded one', async () => {
+    const repository = new FakeBatteryHealthRepository();
+    repository.discharges.push(discharge(-20, 10), discharge(-10, 5));
+    repository.samples = [sample(0), sample(5), sample(10)];
+    const service = new BatteryHealthService(
+      repository as unknown as BatteryHealthRepository,
+      () => ({ 'battery.mfr.date': '2025/05/14' }),
+    );
+    const listener = vi.fn();
+    service.onReportUpdated(listener);
+
+    const report = await service.refresh('primary', NOW);
+
+    expect(repository.sinceValues).toEqual([new Date(discharge(-10, 5).startedAtIso)]);
+    expect(repository.discharges).toHaveLength(3);
+    expect(report.trend.map((point) => point.startedAtIso)).toEqual([
+      discharge(-20, 10).startedAtIso,
+      discharge(-10, 5).startedAtIso,
+      '2026-05-14T12:00:00.000Z',
+    ]);
+    expect(report.ageYears).toBe(1);
+    expect(listener).toHaveBeenCalledWith(report);
+    await expect(service.getReport('primary', NOW + MINUTE_MS)).resolves.toBe(report);
+  });
+
+  it('refreshes once after startup and again when the UPS returns from battery', async () => {
+    const repository = new FakeBatteryHealthRepository();
+    const service = new BatteryHealthService(
+      repository as unknown as BatteryHealthRepository,
+      () => ({}),
+    );
+    const listener = vi.fn();
+    service.onReportUpdated(listener);
+    const telemetry = (minute: number, rawUpsStatus: string) => ({
+      upsId: 'primary',
+      ts: new Date(NOW + minute * MINUTE_MS).toISOString(),
+      values: {},
+      rawUpsStatus,
+    });
+
+    service.handleTelemetry(telemetry(0, 'OL'));
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1));
+    service.handleTelemetry(telemetry(1, 'OB DISCHRG'));
+    service.handleTelemetry(telemetry(2, 'OB DISCHRG'));
+    service.handleTelemetry(telemetry(3, 'OL CHRG'));
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(2));
+  });
+
+  it('finishes the running pass on stop and ignores later telemetry', async () => {
+    const repository = new FakeBatteryHealthRepository();
+    const service = new BatteryHealthService(
+      repository as unknown as BatteryHealthRepository,
+      () => ({}),
+    );
+    const listener = vi.fn();
+    service.onReportUpdated(listener);
+    const refreshing = service.refresh('primary', NOW);
+
+    await service.stop();
+    service.handleTelemetry({
+      upsId: 'primary',
+      ts: new Date(NOW).toISOString(),
+      values: {},
+      rawUpsStatus: 'OL',
+    });
+
+    await expect(refreshing).resolves.toMatchObject({ upsId: 'primary' });
+    expect(listener).not.toHaveBeenCalled();
+    expect(repository.sinceValues).toHaveLength(1);
+  });
+});
@@ -0,0 +1,415 @@
+import type {
+  BatteryHealthRepository,
+  OnBatterySample,
+} from '../db/batteryHealthRepository';
+import type { NutTelemetryUpdatedPayload } from '../nut/nutPollingService';
+import { POWER_EVENT_MAX_SAMPLE_GAP_MS } from './powerEventService';
+import {
+  BATTERY_REPLACE_AGE_YEARS,
+  BATTERY_REPLACE_CAPACITY_PERCENT,
+} from '../../shared/batteryHealth/constants';
+import type {
+  BatteryDischarge,
+  BatteryHealthReport,
+  BatteryHealthTrendPoint,
+  BatteryReplaceReason,
+  RuntimeModelPoint,
+} from '../../shared/batteryHealth/types';
+import { parseUpsStatusTokens } from '../../shared/upsStatus/statusModel';
+
+/** Smaller drops are dominated by the 1 % resolution of `battery.charge`. */
+const MIN_USABLE_CHARGE_DROP_PERCENT = 5;
+/** Median of the first discharges is the 100 % reference. */
+const BASELINE_DISCHARGE_COUNT = 3;
+/** Median of the latest discharges is reported as the current capacity. */
+const CURRENT_ESTIMATE_DISCHARGE_COUNT = 3;
+/** Recent discharges reflect the current state of the pack best. */
+const RUNTIME_MODEL_DISCHARGE_COUNT = 5;
+/**
+ * Lead-acid capacity changes by roughly 0.6 % per °C around 25 °C; the
+ * correction is clamped so a faulty sensor cannot dominate the estimate.
+ */
+const REFERENCE_TEMPERATURE_C = 25;
+const CAPACITY_CHANGE_PER_DEGREE = 0.006;
+const MIN_TEMPERATURE_FACTOR = 0.7;
+const MAX_TEMPERATURE_FACTOR = 1.15;
+/** Age is the only input that changes without a discharge. */
+const REPORT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+type BatteryHealthListener = (report: BatteryHealthReport) => void;
+
+/**
+ * Estimates battery capacity from how much charge each on-battery period
+ * consumed per watt-minute delivered, compared against the first recorded
+ * discharges, and flags packs that should be replaced. The same discharges
+ * provide the drain rates used to estimate runtime.
+ */
+export class BatteryHealthService {
+  private readonly repository: BatteryHealthRepository;
+  private readonly getStaticData: (upsId: string) => Record<string, string>;
+  private readonly reports = new Map<string, BatteryHealthReport>();
+  private readonly onBattery = new Map<string, boolean>();
+  private readonly refreshing = new Set<string>();
+  private readonly listeners = new Set<BatteryHealthListener>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private stopped = false;
+
+  public constructor(
+    repository: BatteryHealthRepository,
+    getStaticData: (upsId: string) => Record<string, string>,
+  ) {
+    this.repository = repository;
+    this.getStaticData = getStaticData;
+  }
+
+  /**
+   * Re-analyses a UPS when it returns from battery, and on the first sample
+   * after startup once its static data (`battery.mfr.date`) is known.
+   */
+  public handleTelemetry(
+    { upsId, ts, rawUpsStatus }: NutTelemetryUpdatedPayload,
+  ): void {
+    if (this.stopped) {
+      return;
+    }
+
+    const wasOnBattery = this.onBattery.get(upsId) ?? false;
+    const isOnBattery = rawUpsStatus === undefined
+      ? wasOnBattery
+      : parseUpsStatusTokens(rawUpsStatus).includes('OB');
+    this.onBattery.set(upsId, isOnBattery);
+
+    const report = this.reports.get(upsId);
+    const sampledAt = Date.parse(ts);
+    const stale =
+      !report || sampledAt - Date.parse(report.generatedAtIso) > REPORT_MAX_AGE_MS;
+    if ((wasOnBattery && !isOnBattery) || (stale && !this.refreshing.has(upsId))) {
+      this.refresh(upsId).catch((error: unknown) => {
+        console.error('[BatteryHealthService] Failed to update battery health', error);
+      });
+    }
+  }
+
+  public async getReport(upsId: string, now = Date.now()): Promise<BatteryHealthReport> {
+    const report = this.reports.get(upsId);
+    if (report && now - Date.parse(report.generatedAtIso) <= REPORT_MAX_AGE_MS) {
+      return report;
+    }
+
+    return this.refresh(upsId, now);
+  }
+
+  /** Records discharges that are new since the last pass and rebuilds the report. */
+  public refresh(upsId: string, now = Date.now()): Promise<BatteryHealthReport> {
+    this.refreshing.add(upsId);
+    return this.enqueue(async () => {
+      try {
+        const recorded = await this.repository.listDischarges(upsId);
+        // The latest discharge is re-read in case it was still in progress; a
+        // re-read summary replaces the stored one with the same start.
+        const since = recorded.at(-1)?.startedAtIso;
+        const staticData = this.getStaticData(upsId);
+        const samples = await this.repository.listOnBatterySamples(
+          upsId,
+          since ? new Date(since) : null,
+        );
+        const discharges = summarizeDischarges(
+          upsId,
+          samples,
+          parseOptionalNumber(staticData['ups.realpower.nominal']),
+        );
+        for (const discharge of discharges) {
+          await this.repository.upsertDischarge(discharge);
+        }
+
+        const byStart = new Map(
+          [...recorded, ...discharges].map((discharge) => [discharge.startedAtIso, discharge]),
+        );
+        const report = buildBatteryHealthReport(
+          upsId,
+          [...byStart.values()],
+          parseBatteryManufactureDate(staticData['battery.mfr.date']),
+          now,
+        );
+        this.reports.set(upsId, report);
+        this.listeners.forEach((listener) => listener(report));
+        return report;
+      } finally {
+        this.refreshing.delete(upsId);
+      }
+    });
+  }
+
+  public onReportUpdated(listener: BatteryHealthListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Ignores further telemetry and resolves once the running pass is done. */
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    this.listeners.clear();
+    await this.queue;
+  }
+
+  // Telemetry and IPC requests may refresh the same UPS concurrently; running
+  // one pass at a time keeps the discharge table consistent.
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task);
+    this.queue = next.catch((): void => undefined);
+    return next;
+  }
+}
+
+/**
+ * Turns on-battery samples into discharges. Runs are also split where polling
+ * stopped for longer than a power event may span. Real power falls back to
+ * `ups.load` times the nominal real power when the UPS does not report it.
+ */
+export function summarizeDischarges(
+  upsId: string,
+  samples: OnBatterySample[],
+  realPowerNominalWatts: number | null,
+): BatteryDischarge[] {
+  const runs: OnBatterySample[][] = [];
+  let current: OnBatterySample[] = [];
+  for (const sample of samples) {
+    const previous = current.at(-1);
+    if (
+      previous &&
+      (previous.period !== sample.period ||
+        Date.parse(sample.tsIso) - Date.parse(previous.tsIso) > POWER_EVENT_MAX_SAMPLE_GAP_MS)
+    ) {
+      runs.push(current);
+      current = [];
+    }
+    current.push(sample);
+  }
+  if (current.length > 0) {
+    runs.push(current);
+  }
+
+  return runs
+    .map((run) => summarizeRun(upsId, run, realPowerNominalWatts))
+    .filter((discharge): discharge is BatteryDischarge => discharge !== null);
+}
+
+function summarizeRun(
+  upsId: string,
+  run: OnBatterySample[],
+  realPowerNominalWatts: number | null,
+): BatteryDischarge | null {
+  const charges = run
+    .map((sample) => sample.chargePercent)
+    .filter((charge): charge is number => charge !== null);
+  const temperatures = run
+    .map((sample) => sample.temperatureC)
+    .filter((temperature): temperature is number => temperature !== null);
+  const loads = run
+    .map((sample) => sample.loadPercent)
+    .filter((load): load is number => load !== null);
+
+  // Same integration as power events: the power at one sample is held until the next.
+  let energyWattMinutes: number | null = null;
+  for (let index = 1; index < run.length; index += 1) {
+    const watts = resolveWatts(run[index - 1], realPowerNominalWatts);
+    if (watts === null) {
+      continue;
+    }
+
+    const elapsedMs = Date.parse(run[index].tsIso) - Date.parse(run[index - 1].tsIso);
+    energyWattMinutes = (energyWattMinutes ?? 0) + (watts * elapsedMs) / MS_PER_MINUTE;
+  }
+
+  // Without power or load readings the run says nothing about health or runtime.
+  if (
+    charges.length === 0 ||
+    run.length < 2 ||
+    (energyWattMinutes === null && loads.length === 0)
+  ) {
+    return null;
+  }
+
+  return {
+    upsId,
+    startedAtIso: run[0].tsIso,
+    endedAtIso: run[run.length - 1].tsIso,
+    startChargePercent: charges[0],
+    endChargePercent: charges[charges.length - 1],
+    energyWattMinutes,
+    averageLoadPercent: average(loads),
+    averageTemperatureC: average(temperatures),
+  };
+}
+
+function resolveWatts(
+  sample: OnBatterySample,
+  realPowerNominalWatts: number | null,
+): number | null {
+  if (sample.realPowerWatts !== null) {
+    return sample.realPowerWatts;
+  }
+
+  if (sample.loadPercent !== null && realPowerNominalWatts !== null) {
+    return (sample.loadPercent * realPowerNominalWatts) / 100;
+  }
+
+  return null;
+}
+
+/**
+ * A worn pack loses more charge for the same energy, so capacity is the
+ * baseline charge drop per watt-minute divided by the current one. Both are
+ * corrected to 25 °C first so a cold room is not mistaken for wear.
+ */
+export function buildBatteryHealthReport(
+  upsId: string,
+  discharges: BatteryDischarge[],
+  manufacturedAt: Date | null,
+  now: number,
+): BatteryHealthReport {
+  const sorted = discharges
+    .filter(
+      (discharge) =>
+        discharge.startChargePercent - discharge.endChargePercent >=
+        MIN_USABLE_CHARGE_DROP_PERCENT,
+    )
+    .sort((left, right) => Date.parse(left.startedAtIso) - Date.parse(right.startedAtIso));
+  const usable = sorted.filter(hasEnergy);
+  const normalizedDrops = usable.map(
+    (discharge) =>
+      toChargeDropPerWattMinute(discharge) *
+      getTemperatureFactor(discharge.averageTemperatureC),
+  );
+  const baseline = median(normalizedDrops.slice(0, BASELINE_DISCHARGE_COUNT));
+
+  const trend: BatteryHealthTrendPoint[] = usable.map((discharge, index) => ({
+    startedAtIso: discharge.startedAtIso,
+    chargeDropPerWattMinute: toChargeDropPerWattMinute(discharge),
+    averageTemperatureC: discharge.averageTemperatureC,
+    capacityPercent: roundToTenth(((baseline ?? 0) / normalizedDrops[index]) * 100),
+  }));
+  const latestCapacity = median(
+    trend.slice(-CURRENT_ESTIMATE_DISCHARGE_COUNT).map((point) => point.capacityPercent),
+  );
+  const capacityPercent = latestCapacity === null ? null : Math.min(100, latestCapacity);
+  const ageYears = manufacturedAt === null
+    ? null
+    : roundToTenth(Math.max(0, now - manufacturedAt.getTime()) / MS_PER_YEAR);
+
+  const replaceReasons: BatteryReplaceReason[] = [];
+  if (capacityPercent !== null && capacityPercent < BATTERY_REPLACE_CAPACITY_PERCENT) {
+    replaceReasons.push('lowCapacity');
+  }
+  if (ageYears !== null && ageYears >= BATTERY_REPLACE_AGE_YEARS) {
+    replaceReasons.push('age');
+  }
+
+  return {
+    upsId,
+    generatedAtIso: new Date(now).toISOString(),
+    capacityPercent,
+    trend,
+    manufacturedAtIso: manufacturedAt?.toISOString() ?? null,
+    ageYears,
+    replaceSoon: replaceReasons.length > 0,
+    replaceReasons,
+    runtimeModel: sorted.slice(-RUNTIME_MODEL_DISCHARGE_COUNT).map(toRuntimeModelPoint),
+  };
+}
+
+function toRuntimeModelPoint(discharge: BatteryDischarge): RuntimeModelPoint {
+  const minutes =
+    (Date.parse(discharge.endedAtIso) - Date.parse(discharge.startedAtIso)) / MS_PER_MINUTE;
+  return {
+    drainPercentPerMinute:
+      (discharge.startChargePercent - discharge.endChargePercent) / minutes,
+    averagePowerWatts:
+      discharge.energyWattMinutes === null ? null : discharge.energyWattMinutes / minutes,
+    averageLoadPercent: discharge.averageLoadPercent,
+  };
+}
+
+/**
+ * `battery.mfr.date` is free-form; drivers report `YYYY/MM/DD`, `YYYY-MM-DD`
+ * or the US `MM/DD/YY(YY)` order.
+ */
+export function parseBatteryManufactureDate(raw: string | undefined): Date | null {
+  const value = raw?.trim() ?? '';
+  const isoOrder = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  const usOrder = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})$/);
+  let parts: [number, number, number] | null = null;
+  if (isoOrder) {
+    parts = [Number(isoOrder[1]), Number(isoOrder[2]), Number(isoOrder[3])];
+  } else if (usOrder) {
+    const year = Number(usOrder[3]);
+    parts = [year < 100 ? 2000 + year : year, Number(usOrder[1]), Number(usOrder[2])];
+  }
+
+  if (!parts) {
+    return null;
+  }
+
+  const [year, month, day] = parts;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+function hasEnergy(
+  discharge: BatteryDischarge,
+): discharge is BatteryDischarge & { energyWattMinutes: number } {
+  return discharge.energyWattMinutes !== null && discharge.energyWattMinutes > 0;
+}
+
+function toChargeDropPerWattMinute(
+  discharge: BatteryDischarge & { energyWattMinutes: number },
+): number {
+  return (discharge.startChargePercent - discharge.endChargePercent) /
+    discharge.energyWattMinutes;
+}
+
+/** Available capacity at `temperatureC` relative to the 25 °C rating. */
+function getTemperatureFactor(temperatureC: number | null): number {
+  if (temperatureC === null) {
+    return 1;
+  }
+
+  const factor =
+    1 + CAPACITY_CHANGE_PER_DEGREE * (temperatureC - REFERENCE_TEMPERATURE_C);
+  return Math.min(MAX_TEMPERATURE_FACTOR, Math.max(MIN_TEMPERATURE_FACTOR, factor));
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((left, right) => left - right);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+function average(values: number[]): number | null {
+  return values.length === 0
+    ? null
+    : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function roundToTenth(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function parseOptionalNumber(value: string | undefined): number | null {
+  if (value === undefined) {
+    return null;
+  }
+
+  const numeric = Number.parseFloat(value);
+  return Number.isFinite(numeric) && numeric > 0 ? numeric : null;
+}
@@ -196,7 +196,7 @@ describe('BatterySafetyService — FSD shutdown is irrevocable', () => {
 
   function makeFsdCountdownPolicy(): ShutdownPolicyConfig {
     return {
-      version: 1,
+      version: 2,
       mode: 'advanced',
       safety: {
         requireHoldForShutdownSeconds: 0,
@@ -579,7 +579,7 @@ describe('BatterySafetyService — policy-driven action application', () => {
 
   function makePolicy(rule: Record<string, unknown>) {
     return {
-      version: 1,
+      version: 2,
       mode: 'advanced',
       safety: {
         requireHoldForShutdownSeconds: 0,
@@ -670,6 +670,79 @@ describe('BatterySafetyService — policy-driven action application', () => {
     expect(alert.dismiss).toHaveBeenCalled();
   });
 
+  it('cancels a countdown on request and keeps the rule quiet until its trigger clears', async () => {
+    const { BatterySafetyService } = await import('./batterySafetyService');
+    const alert = makeMockCriticalAlert();
+    const svc = new BatterySafetyService(
+      makeConfig(makePolicy({
+        action: {
+          type: 'startShutdownCountdown',
+          countdownSeconds: 30,
+          method: 'shutdown',
+        },
+        cancelWhen: null,
+      })) as never,
+      alert as never,
+    );
+    const events: string[] = [];
+    svc.onCountdownEvent((event) => events.push(`${event.type}:${event.ruleId}`));
+
+    expect(svc.cancelActiveCountdown('MQTT command')).toBe(false);
+    svc.handleTelemetry({ battery_charge_pct: 80 } as never, 'OB');
+    expect(svc.getPolicyStatus().countdownRuleId).toBe('advanced-rule');
+
+    expect(svc.cancelActiveCountdown('MQTT command')).toBe(true);
+    svc.handleTelemetry({ battery_charge_pct: 79 } as never, 'OB');
+    await flushAsyncShutdownWork();
+
+    expect(events).toEqual(['started:advanced-rule', 'cancelled:advanced-rule']);
+    expect(alert.show).toHaveBeenCalledTimes(1);
+    expect(svc.getPolicyStatus().countdownRuleId).toBeNull();
+    expect(svc.getDecisionLog().some((entry) =>
+      entry.event === 'cancellation' &&
+      entry.decision.type === 'cancelShutdownCountdown' &&
+      entry.decision.reason === 'MQTT command',
+    )).toBe(true);
+
+    svc.handleTelemetry({ battery_charge_pct: 80 } as never, 'OL');
+    svc.handleTelemetry({ battery_charge_pct: 78 } as never, 'OB');
+
+    expect(alert.show).toHaveBeenCalledTimes(2);
+  });
+
+  it('refuses a countdown cancel once the countdown has elapsed', async () => {
+    const { BatterySafetyService } = await import('./batterySafetyService');
+    const alert = makeMockCriticalAlert();
+    const svc = new BatterySafetyService(
+      makeConfig(makePolicy({
+        action: {
+          type: 'startShutdownCountdown',
+          countdownSeconds: 30,
+          method: 'shutdown',
+        },
+        cancelWhen: null,
+      })) as never,
+      alert as never,
+    );
+    const execute = vi.fn(() => new Promise(() => undefined));
+    const cancelPending = vi.fn();
+    const internals = svc as unknown as {
+      shutdownExecutor: { execute: typeof execute; cancelPending: typeof cancelPending };
+    };
+    internals.shutdownExecutor.execute = execute;
+    internals.shutdownExecutor.cancelPending = cancelPending;
+    const events: string[] = [];
+    svc.onCountdownEvent((event) => events.push(event.type));
+
+    svc.handleTelemetry({ battery_charge_pct: 80 } as never, 'OB');
+    (alert.show.mock.calls[0][1] as () => void)();
+
+    expect(execute).toHaveBeenCalledOnce();
+    expect(svc.cancelActiveCountdown('MQTT command')).toBe(false);
+    expect(cancelPending).not.toHaveBeenCalled();
+    expect(events).toEqual(['started', 'elapsed']);
+  });
+
   it('applies runtime remaining shutdown only while UPS is on battery', async () => {
     const { BatterySafetyService } = await import('./batterySafetyService');
     const alert = makeMockCriticalAlert();
@@ -791,7 +864,9 @@ describe('BatterySafetyService — policy-driven action application', () => {
     expect(executionEntry?.decision.type).toBe('shutdownNow');
     expect(executionEntry?.ruleId).toBe('advanced-rule');
     expect(executionEntry?.execution?.method).toBe('shutdown');
-    expect(executionEntry?.execution?.supported).toBe(process.platform === 'win32');
+    expect(executionEntry?.execution?.supported).toBe(
+      ['win32', 'linux', 'darwin'].includes(process.platform),
+    );
   });
 
   it('releases a failed shutdown command so the same rule can re-fire on the next telemetry tick', async () => {
@@ -839,6 +914,245 @@ describe('BatterySafetyService — policy-driven action application', () => {
 
     expect(alert.show).toHaveBeenCalledTimes(1);
   });
+
+  it('signals a shutdown commit when the action runs and withdraws it when the action fails', async () => {
+    const { BatterySafetyService } = await import('./batterySafetyService');
+    const alert = makeMockCriticalAlert();
+    const svc = new BatterySafetyService(
+      makeConfig(makePolicy({
+        action: {
+          type: 'shutdownNow',
+          method: 'shutdown',
+        },
+        cancelWhen: null,
+      })) as never,
+      alert as never,
+    );
+    const execute = vi.fn().mockRejectedValue(new Error('fake failure'));
+    (svc as unknown as {
+      shutdownExecutor: { execute: typeof execute };
+    }).shutdownExecutor.execute = execute;
+    const commits: boolean[] = [];
+    svc.onShutdownCommitChanged((committed) => commits.push(committed));
+
+    svc.handleTelemetry({ battery_charge_pct: 80 } as never, 'OB');
+    expect(commits).toEqual([true]);
+
+    await flushAsyncShutdownWork();
+
+    expect(commits).toEqual([true, false]);
+  });
+
+  it('runs the upsd primary coordination before shutting down when primary mode is on', async () => {
+    const { BatterySafetyService } = await import('./batterySafetyService');
+    const config = makeConfig({
+      ...makePolicy({
+        action: {
+          type: 'shutdownNow',
+          method: 'shutdown',
+        },
+        cancelWhen: null,
+      }),
+      primaryMode: { enabled: true, secondaryTimeoutSeconds: 30 },
+    });
+    const svc = new BatterySafetyService(
+      {
+        ...config,
+        nut: { host: 'nas', port: 3493, upsName: 'ups', username: 'monuser', password: 'secret' },
+      } as never,
+      makeMockCriticalAlert() as never,
+    );
+    const steps = [{ step: 'fsd', success: true, durationMs: 1, message: 'Raised FSD on ups.' }];
+    const control = { isCancelled: () => false, markIrrevocable: (): void => undefined };
+    const run = vi.fn().mockResolvedValue(steps);
+    const execute = vi.fn(async (
+      _method: string,
+      _hooks: unknown[],
+      coordinate?: (control: unknown) => Promise<unknown>,
+    ) => ({
+      method: 'shutdown',
+      platform: 'linux',
+      supported: true,
+      success: true,
+      command: 'systemctl poweroff',
+      coordination: await coordinate?.(control),
+    }));
+    const internals = svc as unknown as {
+      shutdownExecutor: { execute: typeof execute };
+      upsdPrimaryCoordinator: { run: typeof run };
+    };
+    internals.shutdownExecutor.execute = execute;
+    internals.upsdPrimaryCoordinator.run = run;
+
+    svc.handleTelemetry({ battery_charge_pct: 80 } as never, 'OB');
+    await flushAsyncShutdownWork();
+
+    expect(run).toHaveBeenCalledWith({
+      host: 'nas',
+      port: 3493,
+      upsName: 'ups',
+      username: 'monuser',
+      password: 'secret',
+      secondaryTimeoutSeconds: 30,
+    }, control);
+    expect(svc.getDecisionLog().find((entry) => entry.event === 'execution')
+      ?.execution?.coordination).toEqual(steps);
+  });
+
+  it('waits for the secondaries of its own NUT server before shutting down', async () => {
+    const { BatterySafetyService } = await import('./batterySafetyService');
+    const svc = new BatterySafetyService(
+      makeConfig(makePolicy({
+        action: {
+          type: 'shutdownNow',
+          method: 'shutdown',
+        },
+        cancelWhen: null,
+      })) as never,
+      makeMockCriticalAlert() as never,
+    );
+    const order: string[] = [];
+    const served = {
+      listLoggedInClients: vi.fn(() => ['192.0.2.30']),
+      waitForClientsToLogOut: vi.fn(async () => {
+        order.push('wait');
+        return 'All secondaries of the NUT server logged out after 2.0s.';
+      }),
+    };
+    svc.setServedSecondaries(served);
+    svc.onShutdownCommitChanged((committed) => order.push(`committed:${committed}`));
+    const execute = vi.fn(async (
+      _method: string,
+      _hooks: unknown[],
+      coordinate?: (control: unknown) => Promise<unknown>,
+    ) => {
+      const coordination = await coordinate?.({ isCancelled: () => false });
+      order.push('poweroff');
+      return {
+        method: 'shutdown',
+        platform: 'linux',
+        supported: true,
+        success: true,
+        command: 'systemctl poweroff',
+        coordination,
+      };
+    });
+    (svc as unknown as { shutdownExecutor: { execute: typeof execute } })
+      .shutdownExecutor.execute = execute;
+
+    svc.handleTelemetry({ battery_charge_pct: 80 } as never, 'OB');
+    await flushAsyncShutdownWork();
+
+    expect(order).toEqual(['committed:true', 'wait', 'poweroff']);
+    expect(served.waitForClientsToLogOut).toHaveBeenCalledWith(60, expect.any(Function));
+    expect(svc.getDecisionLog().find((entry) => entry.event === 'execution')
+      ?.execution?.coordination).toEqual([expect.objectContaining({
+      step: 'waitForServedSecondaries',
+      success: true,
+    })]);
+  });
+
+  it('records a simulated shutdown without committing it in demo mode', async () => {
+    const { BatterySafetyService } = await import('./batterySafetyService');
+    const svc = new BatterySafetyService(
+      {
+        ...makeConfig(makePolicy({
+          action: {
+            type: 'shutdownNow',
+            method: 'shutdown',
+          },
+          cancelWhen: null,
+        })),
+        demo: { enabled: true, scenario: 'mainsFailure', port: 3495, speed: 1 },
+      } as never,
+      makeMockCriticalAlert() as never,
+    );
+    const execute = vi.fn();
+    (svc as unknown as {
+      shutdownExecutor: { execute: typeof execute };
+    }).shutdownExecutor.execute = execute;
+    const commits: boolean[] = [];
+    svc.onShutdownCommitChanged((committed) => commits.push(committed));
+
+    svc.handleTelemetry({ battery_charge_pct: 80 } as never, 'OB');
+    await flushAsyncShutdownWork();
+
+    expect(execute).not.toHaveBeenCalled();
+    // The NUT server must not raise FSD to real secondaries for a demo.
+    expect(commits).toEqual([]);
+    const executionEntry = svc.getDecisionLog().find((entry) => entry.event === 'execution');
+    expect(executionEntry?.execution?.success).toBe(true);
+    expect(executionEntry?.execution?.message).toMatch(/^Demo mode/);
+  });
+
+  it('shows notifyOnly rules as a toast once without opening the alert window', async () => {
+    const { BatterySafetyService } = await import('./batterySafetyService');
+    const alert = makeMockCriticalAlert();
+    const svc = new BatterySafetyService(
+      makeConfig(makePolicy({
+        action: { type: 'notifyOnly', message: 'Running on battery' },
+      })) as never,
+      alert as never,
+    );
+
+    svc.handleTelemetry({ battery_charge_pct: 80 } as never, 'OB');
+    svc.handleTelemetry({ battery_charge_pct: 79 } as never, 'OB');
+
+    expect(alert.show).not.toHaveBeenCalled();
+    expect(svc.getDecisionLog().filter((entry) =>
+      entry.decision.type === 'notifyOnly',
+    )).toHaveLength(1);
+  });
+
+  it('persists decision log entries when a repository is provided', async () => {
+    const { BatterySafetyService } = await import('./batterySafetyService');
+    const repository = { insert: vi.fn().mockResolvedValue(undefined) };
+    const svc = new BatterySafetyService(
+      makeConfig(makePolicy({
+        action: { type: 'notifyOnly' },
+      })) as never,
+      makeMockCriticalAlert() as never,
+      repository as never,
+    );
+
+    svc.handleTelemetry({ battery_charge_pct: 80 } as never, 'OB');
+
+    expect(repository.insert).toHaveBeenCalledTimes(1);
+    expect(repository.insert).toHaveBeenCalledWith(svc.getDecisionLog()[0]);
+  });
+
+  it('sends a webhook once per trigger and logs the response', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 202 }));
+    vi.stubGlobal('fetch', fetchMock);
+    try {
+      const { BatterySafetyService } = await import('./batterySafetyService');
+      const svc = new BatterySafetyService(
+        makeConfig(makePolicy({
+          action: {
+            type: 'sendWebhook',
+            url: 'https://hooks.example.com/ups',
+            timeoutSeconds: 5,
+          },
+        })) as never,
+        makeMockCriticalAlert() as never,
+      );
+
+      svc.handleTelemetry({ battery_charge_pct: 80 } as never, 'OB');
+      svc.handleTelemetry({ battery_charge_pct: 79 } as never, 'OB');
+      await vi.waitFor(() => {
+        expect(svc.getDecisionLog()[0]?.event).toBe('execution');
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(svc.getDecisionLog()[0]).toMatchObject({
+        ruleId: 'advanced-rule',
+        summary: 'Webhook https://hooks.example.com/ups responded with HTTP 202.',
+        actionResult: { type: 'sendWebhook', success: true, statusCode: 202 },
+      });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
 });
 
 describe('BatterySafetyService — LB fallback without battery.charge', () => {
@@ -1033,7 +1347,7 @@ describe('BatterySafetyService — Phase 0 safety hotfixes', () => {
   // trigger is plain ups.online==true. Pre-fix this rule defeated FSD.
   function makePolicyWithUserCancelRule(): ShutdownPolicyConfig {
     return {
-      version: 1,
+      version: 2,
       mode: 'advanced',
       safety: {
         requireHoldForShutdownSeconds: 0,
@@ -1188,7 +1502,7 @@ describe('BatterySafetyService — communication-loss timer and failure handling
       const alert = makeMockCriticalAlert();
       const service = new BatterySafetyService(
         makeConfig({
-          version: 1,
+          version: 2,
           mode: 'advanced',
           safety: {
             requireHoldForShutdownSeconds: 0,
@@ -1255,7 +1569,7 @@ describe('BatterySafetyService — communication-loss timer and failure handling
       const alert = makeMockCriticalAlert();
       const service = new BatterySafetyService(
         makeConfig({
-          version: 1,
+          version: 2,
           mode: 'advanced',
           safety: {
             requireHoldForShutdownSeconds: 0,
@@ -1324,6 +1638,79 @@ describe('BatterySafetyService — communication-loss timer and failure handling
       warnSpy.mockRestore();
     }
   });
+
+  it('logs a refused cancellation once FSD has been raised, without a failure alert', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    try {
+      const { BatterySafetyService } = await import('./batterySafetyService');
+      const alert = makeMockCriticalAlert();
+      const service = new BatterySafetyService(
+        makeConfig({
+          version: 2,
+          mode: 'advanced',
+          safety: {
+            requireHoldForShutdownSeconds: 0,
+            maxCountdownSeconds: 300,
+            allowImmediateShutdown: false,
+            allowFsdAutoCancel: false,
+          },
+          rules: [
+            {
+              id: 'countdown-rule',
+              name: 'Countdown rule',
+              enabled: true,
+              priority: 100,
+              severity: 'critical',
+              trigger: { field: 'ups.onBattery', op: 'eq', value: true },
+              action: {
+                type: 'startShutdownCountdown',
+                countdownSeconds: 30,
+                method: 'shutdown',
+              },
+              cancelWhen: { field: 'ups.online', op: 'eq', value: true },
+              createdBy: 'user',
+            },
+          ],
+        }) as never,
+        alert as never,
+      );
+
+      (
+        service as unknown as {
+          shutdownExecutor: {
+            cancelPending: ReturnType<typeof vi.fn>;
+          };
+        }
+      ).shutdownExecutor.cancelPending = vi.fn().mockResolvedValue({
+        method: 'shutdown',
+        platform: process.platform,
+        supported: true,
+        success: false,
+        irrevocable: true,
+        message: 'FSD has been raised on upsd, so the shutdown can no longer be cancelled.',
+      });
+
+      service.handleTelemetry({ battery_charge_pct: 80 } as never, 'OB');
+      alert.show.mockClear();
+
+      service.handleTelemetry({ battery_charge_pct: 80 } as never, 'OL');
+      await flushAsyncShutdownWork();
+
+      expect(alert.show).not.toHaveBeenCalled();
+      expect(
+        service.getDecisionLog().some((entry) =>
+          entry.event === 'cancellation' &&
+          entry.decision.type === 'cancelShutdownCountdown' &&
+          entry.execution?.success === false &&
+          entry.summary.startsWith('FSD has been raised'),
+        ),
+      ).toBe(true);
+      expect(warnSpy).toHaveBeenCalled();
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
 });
 
 async function flushAsyncShutdownWork(): Promise<void> {
@@ -1,30 +1,48 @@
 import { Notification } from 'electron';
 import type { AppConfig } from '../config/configSchema';
+import type { DecisionLogRepository } from '../db/decisionLogRepository';
 import type { TelemetryValues } from '../db/telemetryRepository';
+import type { BatteryHealthReport } from '../../shared/batteryHealth/types';
 import type { ConnectionState } from '../../shared/ipc/contracts';
 import { migrateLegacyShutdownPolicyConfig } from '../shutdown/ShutdownPolicyMigration';
 import { ShutdownPolicyContextBuilder } from '../shutdown/ShutdownPolicyContextBuilder';
-import { ShutdownPolicyEngine } from '../shutdown/ShutdownPolicyEngine';
+import {
+  ShutdownPolicyEngine,
+  type ShutdownPolicyRuleCounters,
+} from '../shutdown/ShutdownPolicyEngine';
 import {
   ShutdownExecutor,
   type ShutdownExecutionResult,
+  type UpsdCoordinationControl,
 } from '../shutdown/ShutdownExecutor';
+import { PreShutdownHookRunner } from '../shutdown/PreShutdownHookRunner';
+import {
+  PolicyActionRunner,
+  type PolicyActionDecision,
+} from '../shutdown/PolicyActionRunner';
+import { UpsdPrimaryCoordinator } from '../shutdown/UpsdPrimaryCoordinator';
 import {
   DEFAULT_BATTERY_SHUTDOWN_RULE_ID,
   DEFAULT_BATTERY_WARNING_RULE_ID,
   DEFAULT_FSD_SHUTDOWN_RULE_ID,
 } from '../../shared/shutdownPolicy/defaultPolicies';
+import { DEFAULT_PRIMARY_MODE_TIMEOUT_SECONDS } from '../../shared/shutdownPolicy/constants';
 import { evaluatePolicyCondition } from '../../shared/shutdownPolicy/evaluation';
 import {
   explainDecision,
   flattenConditionExplanation,
 } from '../../shared/shutdownPolicy/explain';
 import type {
+  PolicyActionExecutionResult,
+  PreShutdownHook,
+  PreShutdownHookResult,
   ShutdownPolicyConfig,
   ShutdownPolicyContext,
   ShutdownPolicyDecision,
   ShutdownPolicyDecisionLogEntry,
+  ShutdownCountdownEvent,
   ShutdownPolicyRule,
+  UpsdCoordinationStep,
 } from '../../shared/shutdownPolicy/types';
 import type { CriticalAlertWindow } from './criticalAlertWindow';
 import { t } from './i18nService';
@@ -33,35 +51,74 @@ const BATTERY_RECOVERY_HYSTERESIS_PCT = 5;
 const MAX_DECISION_LOG_ENTRIES = 100;
 const CONNECTION_LOSS_EVALUATION_INTERVAL_MS = 5000;
 
+type ShutdownCountdownListener = (event: ShutdownCountdownEvent) => void;
+type ShutdownCommitListener = (committed: boolean) => void;
+
+/** The app's own NUT server, whose secondaries see FSD once a shutdown commits. */
+export type ServedSecondaries = {
+  listLoggedInClients: () => string[];
+  waitForClientsToLogOut: (timeoutSeconds: number, isCancelled: () => boolean) => Promise<string>;
+};
+
 type CountdownDecision = Extract<
   ShutdownPolicyDecision,
   { type: 'startShutdownCountdown' }
 >;
 
+/** Point-in-time view of the policy for exporters; never drives decisions. */
+export type BatterySafetyPolicyStatus = {
+  countdownRuleId: string | null;
+  countdownSecondsRemaining: number | null;
+  fsdShutdownCommitted: boolean;
+  rules: Array<ShutdownPolicyRuleCounters & { ruleName: string; enabled: boolean }>;
+};
+
 export class BatterySafetyService {
   private readonly criticalAlert: CriticalAlertWindow;
+  private readonly decisionLogRepository: DecisionLogRepository | null;
   private readonly policyContextBuilder = new ShutdownPolicyContextBuilder();
-  private readonly shutdownExecutor = new ShutdownExecutor();
+  private readonly preShutdownHookRunner = new PreShutdownHookRunner();
+  private readonly shutdownExecutor = new ShutdownExecutor(
+    undefined,
+    this.preShutdownHookRunner,
+  );
+  private readonly policyActionRunner = new PolicyActionRunner();
+  private readonly upsdPrimaryCoordinator = new UpsdPrimaryCoordinator();
   private readonly appliedRuleIds = new Set<string>();
   private readonly decisionLog: ShutdownPolicyDecisionLogEntry[] = [];
+  private readonly countdownListeners = new Set<ShutdownCountdownListener>();
+  private readonly shutdownCommitListeners = new Set<ShutdownCommitListener>();
+  private servedSecondaries: ServedSecondaries | null = null;
+  private shutdownCommitted = false;
   private batteryConfig: AppConfig['battery'];
+  private nutConfig: AppConfig['nut'];
   private policyConfig: ShutdownPolicyConfig;
   private policyEngine: ShutdownPolicyEngine;
+  private demoMode: boolean;
   private fsdActive = false;
   private fsdShutdownCommitted = false;
   private activeCountdownRuleId: string | null = null;
+  private countdownDeadlineMs: number | null = null;
   private lastBatteryPercent: number | null = null;
   private lastOnBattery = false;
   private latestContext: ShutdownPolicyContext | null = null;
+  private batteryHealth: BatteryHealthReport | null = null;
   private connectionState: ConnectionState = 'idle';
   private decisionLogCounter = 0;
   private communicationLossEvaluationTimer: ReturnType<typeof setInterval> | null = null;
 
-  public constructor(config: AppConfig, criticalAlert: CriticalAlertWindow) {
+  public constructor(
+    config: AppConfig,
+    criticalAlert: CriticalAlertWindow,
+    decisionLogRepository: DecisionLogRepository | null = null,
+  ) {
     this.batteryConfig = config.battery;
+    this.nutConfig = config.nut;
     this.policyConfig = resolvePolicyConfig(config);
     this.policyEngine = new ShutdownPolicyEngine(this.policyConfig);
+    this.demoMode = config.demo?.enabled === true;
     this.criticalAlert = criticalAlert;
+    this.decisionLogRepository = decisionLogRepository;
   }
 
   public handleTelemetry(values: TelemetryValues, rawUpsStatus?: string): void {
@@ -70,6 +127,7 @@ export class BatterySafetyService {
       rawUpsStatus,
       connectionState: this.connectionState,
       activeCountdownRuleId: this.activeCountdownRuleId ?? undefined,
+      batteryHealth: this.batteryHealth,
     });
     this.latestContext = context;
 
@@ -98,6 +156,7 @@ export class BatterySafetyService {
       connectionState: state,
       pollSucceeded: false,
       activeCountdownRuleId: this.activeCountdownRuleId ?? undefined,
+      batteryHealth: this.batteryHealth,
     });
     this.latestContext = context;
 
@@ -110,10 +169,97 @@ export class BatterySafetyService {
     this.updateCommunicationLossEvaluationTimer();
   }
 
+  /** Exposed to rules from the next evaluation on; health never triggers one itself. */
+  public handleBatteryHealth(report: BatteryHealthReport): void {
+    this.batteryHealth = report;
+  }
+
+  /** Entries from this session only; the persisted history is queried through DecisionLogRepository. */
   public getDecisionLog(): ShutdownPolicyDecisionLogEntry[] {
     return [...this.decisionLog];
   }
 
+  /** Resolves the given hooks without running them, for the Settings dry-run button. */
+  public dryRunPreShutdownHooks(
+    hooks: PreShutdownHook[],
+  ): Promise<PreShutdownHookResult[]> {
+    return this.preShutdownHookRunner.dryRun(hooks);
+  }
+
+  public onCountdownEvent(listener: ShutdownCountdownListener): () => void {
+    this.countdownListeners.add(listener);
+    return () => {
+      this.countdownListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fires true when the shutdown action starts running and false when it fails
+   * or a pending OS shutdown is cancelled, so other machines can follow.
+   */
+  public onShutdownCommitChanged(listener: ShutdownCommitListener): () => void {
+    this.shutdownCommitListeners.add(listener);
+    return () => {
+      this.shutdownCommitListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Before the shutdown command runs, waits for the secondaries logged in to
+   * `served` to log out, for up to the primary mode's secondary wait.
+   */
+  public setServedSecondaries(served: ServedSecondaries | null): void {
+    this.servedSecondaries = served;
+  }
+
+  /**
+   * Cancels the running countdown on behalf of an integration. A committed FSD
+   * shutdown stays irrevocable, as does one whose countdown has elapsed; the
+   * cancelled rule re-arms only once its trigger has cleared, as after the
+   * user dismisses an alert.
+   */
+  public cancelActiveCountdown(reason: string): boolean {
+    const ruleId = this.activeCountdownRuleId;
+    if (ruleId === null || this.fsdShutdownCommitted || this.shutdownCommitted) {
+      return false;
+    }
+
+    const decision: ShutdownPolicyDecision = {
+      type: 'cancelShutdownCountdown',
+      ruleId,
+      reason,
+    };
+    const context = this.latestContext;
+    if (context) {
+      this.recordDecision(decision, context, 'cancellation');
+    }
+
+    this.policyEngine.cancelActiveCountdown(Date.now());
+    this.endCountdown(reason);
+    this.cancelPendingShutdown(context, decision);
+    this.criticalAlert.dismiss();
+    return true;
+  }
+
+  public getPolicyStatus(now: number = Date.now()): BatterySafetyPolicyStatus {
+    const countdownRuleId = this.activeCountdownRuleId;
+    const rulesById = new Map(this.policyConfig.rules.map((rule) => [rule.id, rule]));
+
+    return {
+      countdownRuleId,
+      countdownSecondsRemaining:
+        countdownRuleId !== null && this.countdownDeadlineMs !== null
+          ? Math.max(0, Math.ceil((this.countdownDeadlineMs - now) / 1000))
+          : null,
+      fsdShutdownCommitted: this.fsdShutdownCommitted,
+      rules: this.policyEngine.getRuleCounters().map((counters) => ({
+        ...counters,
+        ruleName: rulesById.get(counters.ruleId)?.name ?? counters.ruleId,
+        enabled: rulesById.get(counters.ruleId)?.enabled ?? false,
+      })),
+    };
+  }
+
   public stop(): void {
     this.stopCommunicationLossEvaluationTimer();
   }
@@ -130,11 +276,15 @@ export class BatterySafetyService {
         : null;
 
     this.batteryConfig = config.battery;
+    this.nutConfig = config.nut;
     this.policyConfig = resolvePolicyConfig(config);
     this.policyEngine = new ShutdownPolicyEngine(this.policyConfig);
+    this.demoMode = config.demo?.enabled === true;
     this.policyContextBuilder.reset();
     this.appliedRuleIds.clear();
-    this.activeCountdownRuleId = null;
+    if (fsdCountdownRuleId === null) {
+      this.endCountdown('The shutdown policy was updated');
+    }
     this.lastOnBattery = false;
 
     if (fsdCountdownRuleId !== null) {
@@ -142,7 +292,6 @@ export class BatterySafetyService {
       // overlay is still shown to the user. Re-link the service-level FSD state
       // so cancelPolicyCountdown's fsdShutdownCommitted guard still protects it
       // and applyDecision branches that key off DEFAULT_FSD_SHUTDOWN_RULE_ID work.
-      this.activeCountdownRuleId = fsdCountdownRuleId;
       this.appliedRuleIds.add(fsdCountdownRuleId);
     }
 
@@ -187,6 +336,13 @@ export class BatterySafetyService {
       case 'cancelShutdownCountdown':
         this.cancelPolicyCountdown(decision);
         return;
+      case 'runCommand':
+      case 'sendWebhook':
+        this.runPolicyAction(decision, context);
+        return;
+      case 'notifyOnly':
+        this.showPolicyNotification(decision, context);
+        return;
       default:
         assertNever(decision);
     }
@@ -205,7 +361,7 @@ export class BatterySafetyService {
     if (!this.fsdShutdownCommitted) {
       this.cancelPendingShutdown();
       this.criticalAlert.dismiss();
-      this.activeCountdownRuleId = null;
+      this.endCountdown('The battery recovered');
     }
   }
 
@@ -311,6 +467,53 @@ export class BatterySafetyService {
     });
   }
 
+  private showPolicyNotification(
+    decision: Extract<ShutdownPolicyDecision, { type: 'notifyOnly' }>,
+    context: ShutdownPolicyContext,
+  ): void {
+    if (this.appliedRuleIds.has(decision.ruleId)) {
+      return;
+    }
+
+    this.appliedRuleIds.add(decision.ruleId);
+    this.recordDecision(decision, context, 'decision');
+
+    const ruleName = this.findPolicyRule(decision.ruleId)?.name ?? decision.ruleId;
+    this.showNotification(
+      t('batterySafety.policyNotificationTitle', {
+        defaultValue: 'UPS policy notification',
+      }),
+      decision.message ?? t('batterySafety.policyWarningBody', {
+        defaultValue: 'Policy rule "{{rule}}" matched.',
+        rule: ruleName,
+      }),
+    );
+  }
+
+  private runPolicyAction(
+    decision: PolicyActionDecision,
+    context: ShutdownPolicyContext,
+  ): void {
+    if (this.appliedRuleIds.has(decision.ruleId)) {
+      return;
+    }
+
+    this.appliedRuleIds.add(decision.ruleId);
+    this.recordDecision(decision, context, 'decision');
+
+    void this.policyActionRunner
+      .execute(decision, context, this.findPolicyRule(decision.ruleId))
+      .then((result) => {
+        this.recordPolicyActionResult(decision, context, result);
+        if (!result.success) {
+          console.warn(
+            `[BatterySafetyService] Policy ${decision.type} action failed.`,
+            result.errorMessage ?? result.exitCode ?? result.statusCode,
+          );
+        }
+      });
+  }
+
   private startPolicyShutdownCountdown(
     decision: CountdownDecision,
     context: ShutdownPolicyContext,
@@ -320,7 +523,7 @@ export class BatterySafetyService {
     }
 
     this.appliedRuleIds.add(decision.ruleId);
-    this.activeCountdownRuleId = decision.ruleId;
+    this.beginCountdown(decision, true);
     this.criticalAlert.dismiss();
     this.recordDecision(decision, context, 'decision');
 
@@ -339,7 +542,7 @@ export class BatterySafetyService {
         showShutdown: true,
         shutdownCountdownSeconds: decision.countdownSeconds,
       },
-      () => this.executeShutdown(decision.method, context, decision),
+      () => this.finishCountdown(decision, context),
     );
   }
 
@@ -372,7 +575,7 @@ export class BatterySafetyService {
 
     this.fsdActive = true;
     this.fsdShutdownCommitted = true;
-    this.activeCountdownRuleId = decision.ruleId;
+    this.beginCountdown(decision, false);
     this.appliedRuleIds.add(decision.ruleId);
     this.criticalAlert.dismiss();
     this.recordDecision(decision, context, 'decision');
@@ -387,7 +590,7 @@ export class BatterySafetyService {
         showShutdown: true,
         shutdownCountdownSeconds: decision.countdownSeconds,
       },
-      () => this.executeShutdown(decision.method, context, decision),
+      () => this.finishCountdown(decision, context),
       () => this.handleFsdUserDismissed(),
     );
   }
@@ -406,12 +609,77 @@ export class BatterySafetyService {
       this.recordDecision(decision, context, 'cancellation');
     }
 
-    this.activeCountdownRuleId = null;
+    this.endCountdown(decision.reason);
     this.appliedRuleIds.delete(ruleId);
     this.cancelPendingShutdown(context, decision);
     this.criticalAlert.dismiss();
   }
 
+  private beginCountdown(decision: CountdownDecision, cancellable: boolean): void {
+    this.activeCountdownRuleId = decision.ruleId;
+    this.countdownDeadlineMs = Date.now() + decision.countdownSeconds * 1000;
+    this.emitCountdownEvent({
+      type: 'started',
+      timestampIso: new Date().toISOString(),
+      ruleId: decision.ruleId,
+      ruleName: this.findPolicyRule(decision.ruleId)?.name,
+      countdownSeconds: decision.countdownSeconds,
+      method: decision.method,
+      cancellable,
+    });
+  }
+
+  private finishCountdown(decision: CountdownDecision, context: ShutdownPolicyContext): void {
+    this.emitCountdownEvent({
+      type: 'elapsed',
+      timestampIso: new Date().toISOString(),
+      ruleId: decision.ruleId,
+      method: decision.method,
+    });
+    this.executeShutdown(decision.method, context, decision);
+  }
+
+  private endCountdown(reason: string): void {
+    const ruleId = this.activeCountdownRuleId;
+    this.activeCountdownRuleId = null;
+    this.countdownDeadlineMs = null;
+    if (ruleId === null) {
+      return;
+    }
+
+    this.emitCountdownEvent({
+      type: 'cancelled',
+      timestampIso: new Date().toISOString(),
+      ruleId,
+      reason,
+    });
+  }
+
+  private emitCountdownEvent(event: ShutdownCountdownEvent): void {
+    for (const listener of this.countdownListeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[BatterySafetyService] Countdown listener failed', error);
+      }
+    }
+  }
+
+  private setShutdownCommitted(committed: boolean): void {
+    if (this.shutdownCommitted === committed) {
+      return;
+    }
+
+    this.shutdownCommitted = committed;
+    for (const listener of this.shutdownCommitListeners) {
+      try {
+        listener(committed);
+      } catch (error) {
+        console.error('[BatterySafetyService] Shutdown commit listener failed', error);
+      }
+    }
+  }
+
   private resolveDisplayBatteryPercent(context: ShutdownPolicyContext): number {
     return context.battery.chargePercent
       ?? this.lastBatteryPercent
@@ -525,7 +793,7 @@ export class BatterySafetyService {
   private handleFsdUserDismissed(): void {
     this.fsdActive = false;
     this.fsdShutdownCommitted = false;
-    this.activeCountdownRuleId = null;
+    this.endCountdown('Dismissed by the user');
     this.appliedRuleIds.delete(DEFAULT_FSD_SHUTDOWN_RULE_ID);
     this.policyEngine.reset();
     this.cancelPendingShutdown();
@@ -586,6 +854,7 @@ export class BatterySafetyService {
       connectionState: this.connectionState,
       pollSucceeded: false,
       activeCountdownRuleId: this.activeCountdownRuleId ?? undefined,
+      batteryHealth: this.batteryHealth,
     });
     this.latestContext = context;
 
@@ -630,7 +899,9 @@ export class BatterySafetyService {
     this.pushDecisionLogEntry({
       id: this.createDecisionLogId(),
       timestampIso: new Date().toISOString(),
-      event: result.success ? 'execution' : 'failure',
+      event: result.success
+        ? 'execution'
+        : result.cancelled || result.irrevocable ? 'cancellation' : 'failure',
       decision,
       ruleId,
       ruleName: rule?.name,
@@ -644,11 +915,34 @@ export class BatterySafetyService {
         command: result.command,
         message: result.message,
         errorMessage: result.errorMessage,
+        hooks: result.hooks,
+        coordination: result.coordination,
       },
     });
   }
 
+  private recordPolicyActionResult(
+    decision: PolicyActionDecision,
+    context: ShutdownPolicyContext,
+    result: PolicyActionExecutionResult,
+  ): void {
+    const rule = this.findPolicyRule(decision.ruleId);
+
+    this.pushDecisionLogEntry({
+      id: this.createDecisionLogId(),
+      timestampIso: new Date().toISOString(),
+      event: result.success ? 'execution' : 'failure',
+      decision,
+      ruleId: decision.ruleId,
+      ruleName: rule?.name,
+      summary: formatPolicyActionSummary(result),
+      context: this.summarizeContext(context),
+      actionResult: result,
+    });
+  }
+
   private releaseFailedShutdownDecision(decision: ShutdownPolicyDecision): void {
+    this.setShutdownCommitted(false);
     const ruleId = getDecisionRuleId(decision);
     if (!ruleId) {
       return;
@@ -656,7 +950,7 @@ export class BatterySafetyService {
 
     this.appliedRuleIds.delete(ruleId);
     if (this.activeCountdownRuleId === ruleId) {
-      this.activeCountdownRuleId = null;
+      this.endCountdown('The shutdown action failed');
     }
     if (ruleId === DEFAULT_FSD_SHUTDOWN_RULE_ID) {
       this.fsdActive = false;
@@ -672,7 +966,8 @@ export class BatterySafetyService {
   ): void {
     this.recordExecutionResult(decision, context, result);
 
-    if (result.success) {
+    // A cancelled run was already settled by the cancellation that stopped it.
+    if (result.success || result.cancelled) {
       return;
     }
 
@@ -722,6 +1017,13 @@ export class BatterySafetyService {
     if (this.decisionLog.length > MAX_DECISION_LOG_ENTRIES) {
       this.decisionLog.length = MAX_DECISION_LOG_ENTRIES;
     }
+
+    this.decisionLogRepository?.insert(entry).catch((error: unknown) => {
+      console.warn(
+        '[BatterySafetyService] Failed to persist decision log entry.',
+        error,
+      );
+    });
   }
 
   private createDecisionLogId(): string {
@@ -738,7 +1040,26 @@ export class BatterySafetyService {
     context: ShutdownPolicyContext,
     decision: ShutdownPolicyDecision,
   ): void {
-    void this.shutdownExecutor.execute(method)
+    if (this.demoMode) {
+      // The simulated UPS must never power off the machine running the demo,
+      // nor run hooks or raise FSD on a real upsd or on our own NUT server's
+      // secondaries, so the commit is not announced either.
+      this.handleShutdownExecutionResult(decision, context, {
+        method,
+        platform: process.platform,
+        supported: true,
+        success: true,
+        message: 'Demo mode: the shutdown command was not run.',
+      });
+      return;
+    }
+
+    this.setShutdownCommitted(true);
+    void this.shutdownExecutor.execute(
+      method,
+      this.policyConfig.preShutdownHooks ?? [],
+      this.createShutdownCoordination(),
+    )
       .then((result) => {
         this.handleShutdownExecutionResult(decision, context, result);
       })
@@ -751,15 +1072,61 @@ export class BatterySafetyService {
       });
   }
 
+  /**
+   * Primary mode raises FSD on the primary UPS's upsd, with its credentials.
+   * Secondaries of our own NUT server already see FSD, so they are only
+   * waited for.
+   */
+  private createShutdownCoordination():
+    | ((control: UpsdCoordinationControl) => Promise<UpsdCoordinationStep[]>)
+    | undefined {
+    const primaryMode = this.policyConfig.primaryMode;
+    const served = this.servedSecondaries;
+    if (!primaryMode?.enabled && !served) {
+      return undefined;
+    }
+
+    const { host, port, upsName, username, password, tls } = this.nutConfig;
+    const timeoutSeconds =
+      primaryMode?.secondaryTimeoutSeconds ?? DEFAULT_PRIMARY_MODE_TIMEOUT_SECONDS;
+    return async (control) => {
+      const steps = primaryMode?.enabled
+        ? await this.upsdPrimaryCoordinator.run({
+          host,
+          port,
+          upsName,
+          username,
+          password,
+          tls,
+          secondaryTimeoutSeconds: timeoutSeconds,
+        }, control)
+        : [];
+      if (!served || served.listLoggedInClients().length === 0) {
+        return steps;
+      }
+      return [...steps, await waitForServedSecondaries(served, timeoutSeconds, control)];
+    };
+  }
+
   private cancelPendingShutdown(
     context: ShutdownPolicyContext | null = this.latestContext,
     decision?: ShutdownPolicyDecision,
   ): void {
     void this.shutdownExecutor.cancelPending().then((result) => {
+      if (result.success) {
+        this.setShutdownCommitted(false);
+      }
+
       if (context && decision && (result.command || !result.success)) {
         this.recordExecutionResult(decision, context, result);
       }
 
+      if (result.irrevocable) {
+        // The shutdown goes ahead; this is not a failure of the shutdown action.
+        console.warn('[BatterySafetyService] Pending shutdown was not cancelled.', result.message);
+        return;
+      }
+
       if (!result.success) {
         console.warn(
           '[BatterySafetyService] Failed to cancel pending shutdown action.',
@@ -813,6 +1180,30 @@ function createUnexpectedShutdownExecutionResult(
   };
 }
 
+async function waitForServedSecondaries(
+  served: ServedSecondaries,
+  timeoutSeconds: number,
+  control: UpsdCoordinationControl,
+): Promise<UpsdCoordinationStep> {
+  const startedAt = Date.now();
+  try {
+    const message = await served.waitForClientsToLogOut(timeoutSeconds, control.isCancelled);
+    return {
+      step: 'waitForServedSecondaries',
+      success: true,
+      durationMs: Date.now() - startedAt,
+      message,
+    };
+  } catch (error) {
+    return {
+      step: 'waitForServedSecondaries',
+      success: false,
+      durationMs: Date.now() - startedAt,
+      message: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
 function formatExecutionSummary(result: ShutdownExecutionResult): string {
   if (!result.supported) {
     return result.message ?? `Shutdown is not supported on ${result.platform}.`;
@@ -824,11 +1215,33 @@ function formatExecutionSummary(result: ShutdownExecutionResult): string {
       : result.message ?? 'Shutdown command completed.';
   }
 
+  if (!result.command && result.message && result.errorMessage) {
+    // Aborted by a pre-shutdown hook before any shutdown command ran.
+    return `${result.message} ${result.errorMessage}`;
+  }
+
   return result.errorMessage
     ? `Shutdown command failed: ${result.errorMessage}`
     : result.message ?? 'Shutdown command failed.';
 }
 
+function formatPolicyActionSummary(result: PolicyActionExecutionResult): string {
+  const label = result.type === 'runCommand'
+    ? `Command ${result.target}`
+    : `Webhook ${result.target}`;
+
+  if (result.success) {
+    return result.type === 'runCommand'
+      ? `${label} completed.`
+      : `${label} responded with HTTP ${result.statusCode}.`;
+  }
+
+  if (result.errorMessage) {
+    return `${label} failed: ${result.errorMessage}`;
+  }
+
+  return `${label} exited with code ${result.exitCode}.`;
+}
 
 function resolvePolicyConfig(config: AppConfig): ShutdownPolicyConfig {
   const maybeConfig = config as Partial<AppConfig>;
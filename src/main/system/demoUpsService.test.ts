@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { defaultAppConfig, type AppConfig } from '../config/configSchema';
+import { NutClient } from '../nut/nutClient';
+import { DemoUpsService } from './demoUpsService';
+
+const CONFIG: AppConfig = {
+  ...defaultAppConfig,
+  demo: { enabled: true, scenario: 'mainsFailure', port: 0, speed: 10 },
+};
+
+let service: DemoUpsService | null = null;
+let client: NutClient | null = null;
+let nowMs = 0;
+
+async function startDemo(config: AppConfig = CONFIG): Promise<NutClient> {
+  nowMs = 1_000_000;
+  service = new DemoUpsService(config, () => nowMs);
+  await service.start();
+
+  client = new NutClient();
+  await client.connect({
+    host: '127.0.0.1',
+    port: service.getListeningPort() ?? 0,
+    upsName: 'demo',
+    timeoutMs: 1000,
+  });
+  return client;
+}
+
+afterEach(async () => {
+  await client?.close();
+  await service?.stop();
+  client = null;
+  service = null;
+});
+
+describe('DemoUpsService', () => {
+  it('serves the simulated UPS and advances it at the configured speed', async () => {
+    const nut = await startDemo();
+
+    const initial = await nut.listVariables('demo');
+    expect(initial['ups.status']).toBe('OL');
+    expect(initial['device.model']).toBe('Demo UPS 1000');
+    expect(initial['input.voltage.nominal']).toBe('220');
+
+    // 12 real seconds at 10x pass the mains failure at 60 simulated seconds.
+    nowMs += 12_000;
+    expect(await nut.getVariable('demo', 'ups.status')).toBe('OB DISCHRG');
+  });
+
+  it('restarts the scenario when another one is chosen', async () => {
+    const nut = await startDemo();
+    nowMs += 12_000;
+    expect(await nut.getVariable('demo', 'ups.status')).toBe('OB DISCHRG');
+
+    await service!.handleConfigUpdated({
+      ...CONFIG,
+      demo: { ...CONFIG.demo, scenario: 'steady' },
+    });
+
+    // A fresh scenario starts from a full battery on mains.
+    expect(await nut.getVariable('demo', 'ups.status')).toBe('OL');
+    expect(await nut.getVariable('demo', 'battery.charge')).toBe('100');
+    expect(service!.getListeningPort()).not.toBeNull();
+  });
+
+  it('stops listening when demo mode is turned off', async () => {
+    await startDemo();
+
+    await service!.handleConfigUpdated({
+      ...CONFIG,
+      demo: { ...CONFIG.demo, enabled: false },
+    });
+
+    expect(service!.getListeningPort()).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import type { AppConfig } from '../config/configSchema';
+import { DEMO_SCENARIOS } from '../demo/demoScenarios';
+import { DemoUpsSimulator } from '../demo/DemoUpsSimulator';
+import { DEMO_UPS_NAME } from '../../shared/demo/constants';
+import { NutServerService, type NutServerConfig } from './nutServerService';
+
+type DemoConfig = AppConfig['demo'];
+
+// A suspended laptop should not replay hours of simulation on the next poll.
+const MAX_CATCH_UP_SECONDS = 3600;
+
+/**
+ * Runs the simulated UPS behind an in-process NUT server on loopback, so the
+ * polling service, shutdown policy and alerts see it like any other upsd.
+ * The simulation advances lazily, by the time that passed since the last
+ * read multiplied by the configured speed.
+ */
+export class DemoUpsService {
+  private readonly server: NutServerService;
+  private readonly now: () => number;
+  private config: DemoConfig;
+  private line: AppConfig['line'];
+  private simulator: DemoUpsSimulator;
+  private lastReadAt: number;
+
+  public constructor(config: AppConfig, now: () => number = Date.now) {
+    this.now = now;
+    this.config = config.demo;
+    this.line = config.line;
+    this.simulator = this.createSimulator();
+    this.lastReadAt = now();
+    this.server = new NutServerService(
+      {
+        getPrimaryState: () => {
+          const variables = this.readVariables();
+          return {
+            state: 'ready',
+            staticData: variables.staticData,
+            dynamicData: variables.dynamicData,
+            writableFields: [],
+            localDriverLaunchIssue: null,
+          };
+        },
+        getPrimaryName: () => 'Demo UPS',
+      },
+      toServerConfig(config.demo),
+    );
+  }
+
+  /** A new scenario, line rating or a restart of the demo begins from the top. */
+  public handleConfigUpdated(config: AppConfig): Promise<void> {
+    const previous = this.config;
+    const previousLine = this.line;
+    this.config = config.demo;
+    this.line = config.line;
+
+    if (
+      previous.scenario !== config.demo.scenario ||
+      (!previous.enabled && config.demo.enabled) ||
+      previousLine.nominalVoltage !== config.line.nominalVoltage ||
+      previousLine.nominalFrequency !== config.line.nominalFrequency
+    ) {
+      this.simulator = this.createSimulator();
+      this.lastReadAt = this.now();
+    }
+
+    return this.server.applyConfig(toServerConfig(config.demo));
+  }
+
+  public start(): Promise<void> {
+    this.lastReadAt = this.now();
+    return this.server.start();
+  }
+
+  public stop(): Promise<void> {
+    return this.server.stop();
+  }
+
+  public getListeningPort(): number | null {
+    return this.server.getListener().getListeningPort();
+  }
+
+  private createSimulator(): DemoUpsSimulator {
+    return new DemoUpsSimulator(DEMO_SCENARIOS[this.config.scenario], {
+      nominalVoltage: this.line.nominalVoltage,
+      nominalFrequency: this.line.nominalFrequency,
+    });
+  }
+
+  private readVariables(): {
+    staticData: Record<string, string>;
+    dynamicData: Record<string, string>;
+  } {
+    const now = this.now();
+    const elapsedSeconds = Math.max(0, (now - this.lastReadAt) / 1000);
+    this.lastReadAt = now;
+    this.simulator.advance(Math.min(elapsedSeconds * this.config.speed, MAX_CATCH_UP_SECONDS));
+
+    return {
+      staticData: this.simulator.getStaticVariables(),
+      dynamicData: this.simulator.getDynamicVariables(),
+    };
+  }
+}
+
+/** Loopback only and read-only: nothing logs in to the demo UPS. */
+function toServerConfig(demo: DemoConfig): NutServerConfig {
+  return {
+    enabled: demo.enabled,
+    bindAddress: '127.0.0.1',
+    port: demo.port,
+    upsName: DEMO_UPS_NAME,
+    username: 'demo',
+    password: '',
+  };
+}
@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { AppConfig } from '../config/configSchema';
+import type { EnergyHour, EnergyRepository } from '../db/energyRepository';
+import {
+  buildEnergyReport,
+  EnergyService,
+  resolveTariffRate,
+} from './energyService';
+
+const FLAT: AppConfig['energy'] = {
+  currency: 'EUR',
+  tariffMode: 'flat',
+  flatRatePerKwh: 0.2,
+  timeOfUsePeriods: [],
+};
+
+const TIME_OF_USE: AppConfig['energy'] = {
+  ...FLAT,
+  tariffMode: 'timeOfUse',
+  timeOfUsePeriods: [
+    { startHour: 22, endHour: 6, ratePerKwh: 0.1 },
+    { startHour: 17, endHour: 20, ratePerKwh: 0.4 },
+  ],
+};
+
+function hour(tsIso: string, energyWh: number, batteryEnergyWh = 0): EnergyHour {
+  return { tsIso, energyWh, batteryEnergyWh };
+}
+
+describe('energy accounting', () => {
+  const originalTimeZone = process.env.TZ;
+
+  // Daylight saving time ends in Berlin on 2026-10-25 at 03:00 CEST, so that
+  // local day has 25 hours and 02:00 occurs twice.
+  beforeAll(() => {
+    process.env.TZ = 'Europe/Berlin';
+  });
+
+  afterAll(() => {
+    process.env.TZ = originalTimeZone;
+  });
+
+  describe('resolveTariffRate()', () => {
+    it('uses the first time-of-use period containing the local hour', () => {
+      expect(resolveTariffRate(TIME_OF_USE, new Date(2026, 9, 20, 23, 30))).toBe(0.1);
+      expect(resolveTariffRate(TIME_OF_USE, new Date(2026, 9, 20, 5, 59))).toBe(0.1);
+      expect(resolveTariffRate(TIME_OF_USE, new Date(2026, 9, 20, 17))).toBe(0.4);
+      expect(resolveTariffRate(TIME_OF_USE, new Date(2026, 9, 20, 20))).toBe(0.2);
+      expect(resolveTariffRate(FLAT, new Date(2026, 9, 20, 23))).toBe(0.2);
+    });
+  });
+
+  describe('buildEnergyReport()', () => {
+    it('gives the repeated hour at the end of daylight saving time its own bucket', () => {
+      const report = buildEnergyReport(
+        'primary',
+        'hour',
+        new Date(2026, 9, 25),
+        new Date(2026, 9, 26),
+        [
+          hour('2026-10-25T00:00:00.000Z', 100),
+          hour('2026-10-25T01:00:00.000Z', 300, 300),
+        ],
+        TIME_OF_USE,
+      );
+
+      expect(report.buckets).toHaveLength(25);
+      expect(report.buckets.slice(2, 4)).toEqual([
+        {
+          startIso: '2026-10-25T00:00:00.000Z',
+          energyKwh: 0.1,
+          batteryEnergyKwh: 0,
+          cost: 0.1 * 0.1,
+        },
+        {
+          startIso: '2026-10-25T01:00:00.000Z',
+          energyKwh: 0.3,
+          batteryEnergyKwh: 0.3,
+          cost: 0.3 * 0.1,
+        },
+      ]);
+      expect(report.totalKwh).toBeCloseTo(0.4);
+      expect(report.totalBatteryKwh).toBeCloseTo(0.3);
+    });
+
+    it('groups hours into local days and prices each hour at its own rate', () => {
+      const report = buildEnergyReport(
+        'primary',
+        'day',
+        new Date(2026, 9, 1),
+        new Date(2026, 10, 1),
+        [
+          // 23:00 and 00:00 local on the night of Oct 24 to 25.
+          hour('2026-10-24T21:00:00.000Z', 1000),
+          hour('2026-10-24T22:00:00.000Z', 1000),
+          // 18:00 local on Oct 25, after the switch to CET.
+          hour('2026-10-25T17:00:00.000Z', 1000),
+        ],
+        TIME_OF_USE,
+      );
+
+      expect(report.buckets).toHaveLength(31);
+      expect(report.buckets[23]).toMatchObject({ startIso: '2026-10-23T22:00:00.000Z', energyKwh: 1 });
+      expect(report.buckets[24]).toMatchObject({ startIso: '2026-10-24T22:00:00.000Z', energyKwh: 2 });
+      expect(report.buckets[24].cost).toBeCloseTo(0.1 + 0.4);
+      expect(report.buckets[25].startIso).toBe('2026-10-25T23:00:00.000Z');
+      expect(report.totalCost).toBeCloseTo(0.6);
+      expect(report.currency).toBe('EUR');
+    });
+
+    it('reports every month of a year, including empty ones', () => {
+      const report = buildEnergyReport(
+        'primary',
+        'month',
+        new Date(2026, 0, 1),
+        new Date(2027, 0, 1),
+        [hour('2026-03-31T22:00:00.000Z', 2000)],
+        FLAT,
+      );
+
+      expect(report.buckets.map((bucket) => bucket.energyKwh)).toEqual([
+        0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0,
+      ]);
+      expect(report.totalCost).toBeCloseTo(0.4);
+    });
+  });
+
+  describe('EnergyService', () => {
+    it('totals today and the current month in local time', async () => {
+      const requests: Array<[Date, Date]> = [];
+      const repository = {
+        listHours: async (_upsId: string, start: Date, end: Date) => {
+          requests.push([start, end]);
+          return [
+            hour('2026-10-01T08:00:00.000Z', 1500),
+            hour('2026-10-24T22:00:00.000Z', 500),
+            hour('2026-10-25T10:00:00.000Z', 250),
+          ];
+        },
+      };
+      const service = new EnergyService(repository as unknown as EnergyRepository, FLAT);
+
+      const totals = await service.getTotals('primary', new Date(2026, 9, 25, 12));
+
+      expect(requests).toEqual([[new Date(2026, 9, 1), new Date(2026, 10, 1)]]);
+      expect(totals).toMatchObject({ upsId: 'primary', currency: 'EUR' });
+      expect(totals.todayKwh).toBeCloseTo(0.75);
+      expect(totals.todayCost).toBeCloseTo(0.15);
+      expect(totals.monthKwh).toBeCloseTo(2.25);
+      expect(totals.monthCost).toBeCloseTo(0.45);
+    });
+  });
+});
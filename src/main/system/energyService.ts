@@ -0,0 +1,239 @@
+import type { AppConfig } from '../config/configSchema';
+import type { EnergyHour, EnergyRepository } from '../db/energyRepository';
+import type {
+  EnergyBucket,
+  EnergyGranularity,
+  EnergyReport,
+  EnergyReportQuery,
+  EnergyTotals,
+} from '../../shared/energy/types';
+import { PRIMARY_UPS_ID } from '../../shared/ups/upsTargets';
+
+type EnergyConfig = AppConfig['energy'];
+type EnergyTotalsListener = (totals: EnergyTotals) => void;
+
+const HOUR_MS = 60 * 60 * 1000;
+/** The rollup pass adds new hours every minute; the tray follows at the same pace. */
+const TOTALS_REFRESH_INTERVAL_MS = 60 * 1000;
+/** A year of hours, the widest range the Energy page asks for. */
+const MAX_REPORT_BUCKETS = 24 * 366;
+
+/**
+ * Turns the hourly energy totals into per-hour, per-day and per-month reports
+ * priced with the configured tariff. Days, months and tariff hours follow the
+ * local time zone, including daylight-saving changes; the stored hours are UTC
+ * hours, so zones with a half-hour offset attribute each hour by its start.
+ */
+export class EnergyService {
+  private readonly repository: EnergyRepository;
+  private config: EnergyConfig;
+  private readonly listeners = new Set<EnergyTotalsListener>();
+  private timer: NodeJS.Timeout | null = null;
+
+  public constructor(repository: EnergyRepository, config: EnergyConfig) {
+    this.repository = repository;
+    this.config = config;
+  }
+
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    void this.publishTotals();
+    this.timer = setInterval(() => {
+      void this.publishTotals();
+    }, TOTALS_REFRESH_INTERVAL_MS);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  public handleConfigUpdated(config: AppConfig): void {
+    this.config = config.energy;
+    void this.publishTotals();
+  }
+
+  public onTotalsUpdated(listener: EnergyTotalsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public async getReport(query: EnergyReportQuery): Promise<EnergyReport> {
+    const upsId = query.upsId ?? PRIMARY_UPS_ID;
+    const start = startOfBucket(new Date(query.startIso), query.granularity);
+    const end = new Date(query.endIso);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || end <= start) {
+      throw new Error('Invalid energy report range');
+    }
+
+    const hours = await this.repository.listHours(upsId, start, end);
+    return buildEnergyReport(upsId, query.granularity, start, end, hours, this.config);
+  }
+
+  /** Energy and cost so far today and this month, in local time. */
+  public async getTotals(upsId: string, now: Date = new Date()): Promise<EnergyTotals> {
+    const monthStart = startOfBucket(now, 'month');
+    const todayStart = startOfBucket(now, 'day');
+    const hours = await this.repository.listHours(
+      upsId,
+      monthStart,
+      nextBucketStart(monthStart, 'month'),
+    );
+    const month = sumHours(hours, this.config);
+    const today = sumHours(
+      hours.filter((hour) => Date.parse(hour.tsIso) >= todayStart.getTime()),
+      this.config,
+    );
+
+    return {
+      upsId,
+      currency: this.config.currency,
+      todayKwh: today.energyKwh,
+      todayCost: today.cost,
+      monthKwh: month.energyKwh,
+      monthCost: month.cost,
+    };
+  }
+
+  private async publishTotals(): Promise<void> {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    try {
+      const totals = await this.getTotals(PRIMARY_UPS_ID);
+      for (const listener of this.listeners) {
+        listener(totals);
+      }
+    } catch (error) {
+      console.error('[EnergyService] Failed to compute energy totals', error);
+    }
+  }
+}
+
+/**
+ * Price per kWh at a local time. Time-of-use periods are checked in order and
+ * the first one containing the hour wins; hours outside every period, and
+ * every hour of a flat tariff, use the flat rate.
+ */
+export function resolveTariffRate(config: EnergyConfig, at: Date): number {
+  if (config.tariffMode === 'timeOfUse') {
+    const hour = at.getHours();
+    const period = config.timeOfUsePeriods.find((candidate) =>
+      candidate.startHour < candidate.endHour
+        ? hour >= candidate.startHour && hour < candidate.endHour
+        : hour >= candidate.startHour || hour < candidate.endHour,
+    );
+    if (period) {
+      return period.ratePerKwh;
+    }
+  }
+
+  return config.flatRatePerKwh;
+}
+
+export function buildEnergyReport(
+  upsId: string,
+  granularity: EnergyGranularity,
+  start: Date,
+  end: Date,
+  hours: EnergyHour[],
+  config: EnergyConfig,
+): EnergyReport {
+  const buckets: EnergyBucket[] = [];
+  const bucketIndex = new Map<number, number>();
+  for (
+    let bucketStart = startOfBucket(start, granularity);
+    bucketStart < end;
+    bucketStart = nextBucketStart(bucketStart, granularity)
+  ) {
+    if (buckets.length >= MAX_REPORT_BUCKETS) {
+      throw new Error(`Energy reports are limited to ${MAX_REPORT_BUCKETS} buckets`);
+    }
+
+    bucketIndex.set(bucketStart.getTime(), buckets.length);
+    buckets.push({
+      startIso: bucketStart.toISOString(),
+      energyKwh: 0,
+      batteryEnergyKwh: 0,
+      cost: 0,
+    });
+  }
+
+  for (const hour of hours) {
+    const hourStart = new Date(hour.tsIso);
+    const index = bucketIndex.get(startOfBucket(hourStart, granularity).getTime());
+    if (index === undefined) {
+      continue;
+    }
+
+    const bucket = buckets[index];
+    bucket.energyKwh += hour.energyWh / 1000;
+    bucket.batteryEnergyKwh += hour.batteryEnergyWh / 1000;
+    bucket.cost += (hour.energyWh / 1000) * resolveTariffRate(config, hourStart);
+  }
+
+  return {
+    upsId,
+    granularity,
+    currency: config.currency,
+    buckets,
+    totalKwh: sumBy(buckets, (bucket) => bucket.energyKwh),
+    totalBatteryKwh: sumBy(buckets, (bucket) => bucket.batteryEnergyKwh),
+    totalCost: sumBy(buckets, (bucket) => bucket.cost),
+  };
+}
+
+function sumHours(hours: EnergyHour[], config: EnergyConfig) {
+  return {
+    energyKwh: sumBy(hours, (hour) => hour.energyWh / 1000),
+    cost: sumBy(
+      hours,
+      (hour) => (hour.energyWh / 1000) * resolveTariffRate(config, new Date(hour.tsIso)),
+    ),
+  };
+}
+
+function sumBy<T>(items: T[], select: (item: T) => number): number {
+  return items.reduce((total, item) => total + select(item), 0);
+}
+
+function startOfBucket(date: Date, granularity: EnergyGranularity): Date {
+  switch (granularity) {
+    case 'hour':
+      // Subtracting the elapsed part of the hour keeps both occurrences of the
+      // hour repeated when daylight saving time ends apart.
+      return new Date(
+        date.getTime() -
+          date.getMinutes() * 60 * 1000 -
+          date.getSeconds() * 1000 -
+          date.getMilliseconds(),
+      );
+    case 'day':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+}
+
+function nextBucketStart(bucketStart: Date, granularity: EnergyGranularity): Date {
+  switch (granularity) {
+    case 'hour':
+      return new Date(bucketStart.getTime() + HOUR_MS);
+    case 'day':
+      return new Date(
+        bucketStart.getFullYear(),
+        bucketStart.getMonth(),
+        bucketStart.getDate() + 1,
+      );
+    case 'month':
+      return new Date(bucketStart.getFullYear(), bucketStart.getMonth() + 1, 1);
+  }
+}
@@ -0,0 +1,250 @@
+import { randomBytes } from 'node:crypto';
+import { request as httpRequest } from 'node:http';
+import type { Socket } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  encodeWebSocketFrame,
+  WEBSOCKET_OPCODE,
+  WebSocketFrameReader,
+  type WebSocketFrame,
+} from '../api/webSocket';
+import type { UpsDeviceSummary } from '../ipc/ipcChannels';
+import { LocalApiService, type LocalApiSources } from './localApiService';
+
+const TOKEN = 'local-api-test-token';
+
+const PRIMARY_DEVICE: UpsDeviceSummary = {
+  id: 'primary',
+  name: 'Rack UPS',
+  upsName: 'ups',
+  host: '127.0.0.1',
+  port: 3493,
+  state: 'ready',
+};
+
+let service: LocalApiService | null = null;
+
+function makeSources(overrides: Partial<LocalApiSources> = {}): LocalApiSources {
+  return {
+    listDevices: () => [PRIMARY_DEVICE],
+    getNutState: vi.fn(() => ({
+      state: 'ready' as const,
+      staticData: { 'device.model': 'Smart-UPS' },
+      dynamicData: { 'ups.status': 'OL' },
+      writableFields: [],
+      localDriverLaunchIssue: null,
+    })),
+    getLatestTelemetry: vi.fn(async () => ({
+      ts: '2026-05-14T10:00:00.000Z',
+      values: { battery_charge_pct: 87 },
+    })),
+    queryTelemetryRange: vi.fn(async () => []),
+    queryDecisionLog: vi.fn(async () => ({ entries: [], total: 0 })),
+    cancelCountdown: vi.fn(() => true),
+    ...overrides,
+  };
+}
+
+async function startService(sources: LocalApiSources): Promise<number> {
+  service = new LocalApiService(sources, { enabled: true, port: 0, token: TOKEN });
+  await service.start();
+  return service.getListener().getListeningPort() ?? 0;
+}
+
+async function call(
+  port: number,
+  path: string,
+  options: { method?: string; token?: string | null; body?: unknown } = {},
+): Promise<{ status: number; body: unknown }> {
+  const headers: Record<string, string> = {};
+  const token = options.token === undefined ? TOKEN : options.token;
+  if (token !== null) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+    method: options.method ?? 'GET',
+    headers,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+function openStream(
+  port: number,
+  path: string,
+): Promise<{ status: number; socket: Socket | null; head: Buffer }> {
+  return new Promise((resolve, reject) => {
+    const request = httpRequest({
+      host: '127.0.0.1',
+      port,
+      path,
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': randomBytes(16).toString('base64'),
+        'Sec-WebSocket-Version': '13',
+      },
+    });
+    request.on('upgrade', (response, socket, head) => {
+      resolve({ status: response.statusCode ?? 0, socket, head });
+    });
+    request.on('response', (response) => {
+      response.resume();
+      resolve({ status: response.statusCode ?? 0, socket: null, head: Buffer.alloc(0) });
+    });
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+function collectFrames(socket: Socket, head: Buffer): WebSocketFrame[] {
+  const reader = new WebSocketFrameReader();
+  const frames: WebSocketFrame[] = reader.push(head);
+  socket.on('data', (chunk: Buffer) => {
+    frames.push(...reader.push(chunk));
+  });
+  return frames;
+}
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt += 1) {
+    if (predicate()) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error('Condition was not met in time');
+}
+
+afterEach(async () => {
+  await service?.stop();
+  service = null;
+});
+
+describe('LocalApiService', () => {
+  it('requires the bearer token on every request', async () => {
+    const port = await startService(makeSources());
+
+    expect((await call(port, '/api/v1/state', { token: null })).status).toBe(401);
+    expect((await call(port, '/api/v1/state', { token: 'wrong' })).status).toBe(401);
+    expect((await call(port, '/api/v1/state')).status).toBe(200);
+  });
+
+  it('does not listen while the token is empty', async () => {
+    service = new LocalApiService(makeSources(), { enabled: true, port: 0, token: '' });
+    await service.start();
+
+    expect(service.getListener().getListeningPort()).toBeNull();
+  });
+
+  it('serves state, latest telemetry and cancellation', async () => {
+    const sources = makeSources();
+    const port = await startService(sources);
+
+    const state = await call(port, '/api/v1/state?upsId=primary');
+    expect(state.body).toMatchObject({ state: 'ready', dynamicData: { 'ups.status': 'OL' } });
+    expect(sources.getNutState).toHaveBeenCalledWith('primary');
+
+    const latest = await call(port, '/api/v1/telemetry/latest');
+    expect(latest.body).toEqual({
+      ts: '2026-05-14T10:00:00.000Z',
+      values: { battery_charge_pct: 87 },
+    });
+
+    const cancel = await call(port, '/api/v1/countdown/cancel', { method: 'POST' });
+    expect(cancel.body).toEqual({ cancelled: true });
+    expect(sources.cancelCountdown).toHaveBeenCalledWith('Cancelled through the local API');
+
+    vi.mocked(sources.cancelCountdown).mockReturnValue(false);
+    const refused = await call(port, '/api/v1/countdown/cancel', { method: 'POST' });
+    expect(refused.status).toBe(409);
+    expect(refused.body).toEqual({ error: 'No cancellable shutdown countdown is active' });
+  });
+
+  it('validates payloads with the IPC schemas', async () => {
+    const sources = makeSources();
+    const port = await startService(sources);
+
+    const range = await call(port, '/api/v1/telemetry/range', {
+      method: 'POST',
+      body: {
+        startIso: '2026-05-14T00:00:00.000Z',
+        endIso: '2026-05-14T12:00:00.000Z',
+        columns: ['battery_charge_pct', 'not_a_column'],
+      },
+    });
+    expect(range.status).toBe(200);
+    expect(sources.queryTelemetryRange).toHaveBeenCalledWith({
+      upsId: undefined,
+      startIso: '2026-05-14T00:00:00.000Z',
+      endIso: '2026-05-14T12:00:00.000Z',
+      maxPoints: undefined,
+      columns: ['battery_charge_pct'],
+    });
+
+    const invalidRange = await call(port, '/api/v1/telemetry/range', {
+      method: 'POST',
+      body: { startIso: '' },
+    });
+    expect(invalidRange.status).toBe(400);
+    expect(invalidRange.body).toMatchObject({ error: 'Invalid request' });
+
+    const log = await call(port, '/api/v1/shutdown-policy/decision-log', {
+      method: 'POST',
+      body: { limit: 5, events: ['cancellation'] },
+    });
+    expect(log.status).toBe(200);
+    expect(sources.queryDecisionLog).toHaveBeenCalledWith({ limit: 5, events: ['cancellation'] });
+
+    expect((await call(port, '/api/v1/shutdown-policy/decision-log', {
+      method: 'POST',
+      body: { limit: 0 },
+    })).status).toBe(400);
+    expect((await call(port, '/api/v1/state?upsId=rack-9')).status).toBe(404);
+    expect((await call(port, '/api/v1/state?extra=1')).status).toBe(400);
+    expect((await call(port, '/api/v1/telemetry/range')).status).toBe(405);
+    expect((await call(port, '/api/v1/nope')).status).toBe(404);
+  });
+
+  it('streams connection state and telemetry events over a WebSocket', async () => {
+    const port = await startService(makeSources());
+
+    expect((await openStream(port, '/api/v1/stream')).status).toBe(401);
+
+    const { status, socket, head } = await openStream(port, `/api/v1/stream?token=${TOKEN}`);
+    expect(status).toBe(101);
+    const frames = collectFrames(socket!, head);
+    await waitFor(() => frames.length === 1);
+
+    service!.handleTelemetry({
+      upsId: 'primary',
+      ts: '2026-05-14T10:00:00.000Z',
+      values: { battery_charge_pct: 86 },
+      rawUpsStatus: 'OB',
+    });
+    service!.handleConnectionState('primary', 'degraded');
+    await waitFor(() => frames.length === 3);
+
+    expect(frames.map((frame) => JSON.parse(frame.payload.toString('utf8')))).toEqual([
+      { event: 'connection:state-changed', payload: { upsId: 'primary', state: 'ready' } },
+      {
+        event: 'ups:telemetry-updated',
+        payload: {
+          upsId: 'primary',
+          ts: '2026-05-14T10:00:00.000Z',
+          values: { battery_charge_pct: 86 },
+          rawUpsStatus: 'OB',
+        },
+      },
+      { event: 'connection:state-changed', payload: { upsId: 'primary', state: 'degraded' } },
+    ]);
+
+    socket!.write(encodeWebSocketFrame(WEBSOCKET_OPCODE.close, Buffer.from([0x03, 0xe8]), randomBytes(4)));
+    await waitFor(() => frames.some((frame) => frame.opcode === WEBSOCKET_OPCODE.close));
+    socket!.destroy();
+  });
+});
@@ -0,0 +1,349 @@
+import { timingSafeEqual } from 'node:crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { Duplex } from 'node:stream';
+import { ZodError } from 'zod';
+import {
+  acceptWebSocketUpgrade,
+  rejectUpgrade,
+  type WebSocketConnection,
+} from '../api/webSocket';
+import type { AppConfig } from '../config/configSchema';
+import type {
+  ShutdownPolicyDecisionLogPage,
+  ShutdownPolicyDecisionLogQuery,
+} from '../db/decisionLogRepository';
+import type { QueryRangePayload, TelemetryDataPoint } from '../db/telemetryRepository';
+import {
+  IPC_EVENTS,
+  type NutStateSnapshot,
+  type UpsDeviceSummary,
+} from '../ipc/ipcChannels';
+import type { ConnectionState } from '../ipc/ipcEvents';
+import {
+  normalizeDecisionLogQueryPayload,
+  normalizeQueryRangePayload,
+  normalizeUpsSelectorPayload,
+} from '../ipc/normalizers/telemetryNormalizers';
+import type { NutTelemetryUpdatedPayload } from '../nut/nutPollingService';
+import { PRIMARY_UPS_ID } from '../../shared/ups/upsTargets';
+import { ServiceListener, type ListenAddress } from './serviceListener';
+
+type LocalApiConfig = AppConfig['localApi'];
+
+export type LocalApiSources = {
+  listDevices: () => UpsDeviceSummary[];
+  getNutState: (upsId: string) => NutStateSnapshot;
+  getLatestTelemetry: (upsId: string) => Promise<TelemetryDataPoint | null>;
+  queryTelemetryRange: (payload: QueryRangePayload) => Promise<TelemetryDataPoint[]>;
+  queryDecisionLog: (
+    query: ShutdownPolicyDecisionLogQuery,
+  ) => Promise<ShutdownPolicyDecisionLogPage>;
+  /** Returns false when there was no countdown to cancel or it is irrevocable. */
+  cancelCountdown: (reason: string) => boolean;
+};
+
+type RouteHandler = (request: ApiRequest) => Promise<unknown>;
+
+type ApiRequest = {
+  query: Record<string, string> | undefined;
+  body: unknown;
+};
+
+type Route = {
+  method: 'GET' | 'POST';
+  handler: RouteHandler;
+};
+
+/** Loopback only: the API exposes shutdown control and is not meant for the network. */
+const LOCAL_API_BIND_ADDRESS = '127.0.0.1';
+const API_PREFIX = '/api/v1';
+const STREAM_PATH = `${API_PREFIX}/stream`;
+const MAX_REQUEST_BODY_BYTES = 64 * 1024;
+const JSON_CONTENT_TYPE = 'application/json; charset=utf-8';
+
+class LocalApiError extends Error {
+  public readonly statusCode: number;
+
+  public constructor(statusCode: number, message: string) {
+    super(message);
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Serves the read-only IPC surface (state, latest telemetry, telemetry range,
+ * decision log) plus countdown cancellation as JSON over HTTP on localhost,
+ * and mirrors the telemetry and connection-state IPC events over a WebSocket
+ * stream. Every request needs the configured bearer token; payloads are
+ * validated with the same zod schemas as IPC.
+ */
+export class LocalApiService {
+  private readonly sources: LocalApiSources;
+  private readonly routes: Map<string, Route>;
+  private readonly streams = new Set<WebSocketConnection>();
+  private config: LocalApiConfig;
+  private readonly listener: ServiceListener;
+
+  public constructor(sources: LocalApiSources, config: LocalApiConfig) {
+    this.sources = sources;
+    this.config = config;
+    this.listener = new ServiceListener(
+      'LocalApiService',
+      () => this.createServer(),
+      () => this.closeStreams(),
+    );
+    this.routes = new Map<string, Route>([
+      [`${API_PREFIX}/devices`, {
+        method: 'GET',
+        handler: async () => this.sources.listDevices(),
+      }],
+      [`${API_PREFIX}/state`, {
+        method: 'GET',
+        handler: async ({ query }) =>
+          this.sources.getNutState(this.resolveUpsId(normalizeUpsSelectorPayload(query))),
+      }],
+      [`${API_PREFIX}/telemetry/latest`, {
+        method: 'GET',
+        handler: ({ query }) =>
+          this.sources.getLatestTelemetry(
+            this.resolveUpsId(normalizeUpsSelectorPayload(query)),
+          ),
+      }],
+      [`${API_PREFIX}/telemetry/range`, {
+        method: 'POST',
+        handler: ({ body }) => {
+          const payload = normalizeQueryRangePayload(body);
+          this.resolveUpsId(payload.upsId);
+          return this.sources.queryTelemetryRange(payload);
+        },
+      }],
+      [`${API_PREFIX}/shutdown-policy/decision-log`, {
+        method: 'POST',
+        handler: ({ body }) =>
+          this.sources.queryDecisionLog(normalizeDecisionLogQueryPayload(body)),
+      }],
+      [`${API_PREFIX}/countdown/cancel`, {
+        method: 'POST',
+        handler: async () => {
+          // A countdown that has elapsed or was committed by FSD is not cancelled.
+          if (!this.sources.cancelCountdown('Cancelled through the local API')) {
+            throw new LocalApiError(409, 'No cancellable shutdown countdown is active');
+          }
+          return { cancelled: true };
+        },
+      }],
+    ]);
+  }
+
+  public handleTelemetry(payload: NutTelemetryUpdatedPayload): void {
+    this.broadcast(IPC_EVENTS.upsTelemetryUpdated, payload);
+  }
+
+  public handleConnectionState(upsId: string, state: ConnectionState): void {
+    this.broadcast(IPC_EVENTS.connectionStateChanged, { upsId, state });
+  }
+
+  /** A new token closes open streams, since they were authorized with the old one. */
+  public handleConfigUpdated(config: AppConfig): Promise<void> {
+    const previous = this.config;
+    this.config = config.localApi;
+
+    if (previous.token !== config.localApi.token) {
+      this.closeStreams();
+    }
+
+    const shouldListen = isListenable(config.localApi);
+    if (
+      previous.port === config.localApi.port &&
+      this.listener.isListening() === shouldListen
+    ) {
+      return this.listener.settled();
+    }
+
+    return this.listener.restart(() => this.getListenAddress());
+  }
+
+  public start(): Promise<void> {
+    return this.listener.start(() => this.getListenAddress());
+  }
+
+  public stop(): Promise<void> {
+    return this.listener.stop();
+  }
+
+  public getListener(): ServiceListener {
+    return this.listener;
+  }
+
+  private getListenAddress(): ListenAddress | null {
+    return isListenable(this.config)
+      ? { host: LOCAL_API_BIND_ADDRESS, port: this.config.port }
+      : null;
+  }
+
+  private createServer(): Server {
+    const server = createServer((request, response) => {
+      void this.handleRequest(request, response);
+    });
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex) => {
+      this.handleUpgrade(request, socket);
+    });
+    return server;
+  }
+
+  private closeStreams(): void {
+    for (const stream of this.streams) {
+      stream.terminate();
+    }
+    this.streams.clear();
+  }
+
+  private broadcast(event: string, payload: unknown): void {
+    if (this.streams.size === 0) {
+      return;
+    }
+
+    const message = JSON.stringify({ event, payload });
+    for (const stream of this.streams) {
+      stream.sendText(message);
+    }
+  }
+
+  private handleUpgrade(request: IncomingMessage, socket: Duplex): void {
+    const url = parseRequestUrl(request);
+    if (url.pathname !== STREAM_PATH) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    // Browsers cannot set headers on a WebSocket, so the token may also come as ?token=.
+    const token = readBearerToken(request.headers.authorization) ?? url.searchParams.get('token');
+    if (!tokenMatches(token, this.config.token)) {
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    const stream = acceptWebSocketUpgrade(request, socket);
+    if (!stream) {
+      return;
+    }
+
+    this.streams.add(stream);
+    stream.onClose(() => {
+      this.streams.delete(stream);
+    });
+    for (const device of this.sources.listDevices()) {
+      stream.sendText(JSON.stringify({
+        event: IPC_EVENTS.connectionStateChanged,
+        payload: { upsId: device.id, state: device.state },
+      }));
+    }
+  }
+
+  private async handleRequest(
+    request: IncomingMessage,
+    response: ServerResponse,
+  ): Promise<void> {
+    try {
+      if (!tokenMatches(readBearerToken(request.headers.authorization), this.config.token)) {
+        response.setHeader('WWW-Authenticate', 'Bearer');
+        throw new LocalApiError(401, 'Unauthorized');
+      }
+
+      const url = parseRequestUrl(request);
+      const route = this.routes.get(url.pathname);
+      if (!route) {
+        throw new LocalApiError(404, 'Not found');
+      }
+      if (request.method !== route.method) {
+        response.setHeader('Allow', route.method);
+        throw new LocalApiError(405, 'Method not allowed');
+      }
+
+      const result = await route.handler({
+        query: url.searchParams.size > 0 ? Object.fromEntries(url.searchParams) : undefined,
+        body: route.method === 'POST' ? await readJsonBody(request) : undefined,
+      });
+      sendJson(response, 200, result);
+    } catch (error) {
+      if (error instanceof LocalApiError) {
+        sendJson(response, error.statusCode, { error: error.message });
+        return;
+      }
+      if (error instanceof ZodError) {
+        sendJson(response, 400, { error: 'Invalid request', issues: error.issues });
+        return;
+      }
+
+      console.error('[LocalApiService] Request failed', error);
+      sendJson(response, 500, {
+        error: error instanceof Error ? error.message : 'Internal error',
+      });
+    }
+  }
+
+  private resolveUpsId(upsId: string | undefined): string {
+    const resolved = upsId ?? PRIMARY_UPS_ID;
+    if (!this.sources.listDevices().some((device) => device.id === resolved)) {
+      throw new LocalApiError(404, `Unknown UPS "${resolved}"`);
+    }
+    return resolved;
+  }
+}
+
+/** Without a token the API stays closed rather than open to every local process. */
+function isListenable(config: LocalApiConfig): boolean {
+  return config.enabled && config.token.length > 0;
+}
+
+function parseRequestUrl(request: IncomingMessage): URL {
+  return new URL(request.url ?? '/', 'http://localhost');
+}
+
+function readBearerToken(header: string | undefined): string | null {
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  return match ? match[1].trim() : null;
+}
+
+function tokenMatches(received: string | null, token: string): boolean {
+  if (!token || received === null) {
+    return false;
+  }
+
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(received);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_REQUEST_BODY_BYTES) {
+      throw new LocalApiError(413, 'Request body is too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8').trim();
+  if (!text) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new LocalApiError(400, 'Request body is not valid JSON');
+  }
+}
+
+function sendJson(response: ServerResponse, statusCode: number, body: unknown): void {
+  response.writeHead(statusCode, { 'Content-Type': JSON_CONTENT_TYPE });
+  response.end(JSON.stringify(body ?? null));
+}
@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { defaultAppConfig, type AppConfig } from '../config/configSchema';
+import type { UpsDeviceSummary } from '../ipc/ipcChannels';
+import type { BatterySafetyPolicyStatus } from './batterySafetyService';
+import {
+  MetricsExporterService,
+  renderPrometheusMetrics,
+} from './metricsExporterService';
+
+const PRIMARY_DEVICE: UpsDeviceSummary = {
+  id: 'primary',
+  name: 'Rack "A"',
+  upsName: 'ups',
+  host: '127.0.0.1',
+  port: 3493,
+  state: 'ready',
+};
+
+const IDLE_POLICY: BatterySafetyPolicyStatus = {
+  countdownRuleId: null,
+  countdownSecondsRemaining: null,
+  fsdShutdownCommitted: false,
+  rules: [],
+};
+
+function withMetrics(metrics: Partial<AppConfig['metrics']>): AppConfig {
+  return {
+    ...defaultAppConfig,
+    metrics: { ...defaultAppConfig.metrics, ...metrics },
+  };
+}
+
+describe('renderPrometheusMetrics()', () => {
+  it('formats telemetry, status flags, countdown state and rule counters', () => {
+    const text = renderPrometheusMetrics({
+      devices: [
+        {
+          device: PRIMARY_DEVICE,
+          telemetry: {
+            upsId: 'primary',
+            ts: '2026-05-14T10:00:00.000Z',
+            values: { battery_charge_pct: 87, ups_load_pct: null },
+            rawUpsStatus: 'OB DISCHRG ECO',
+          },
+        },
+        {
+          device: { ...PRIMARY_DEVICE, id: 'rack-2', name: 'Rack 2', state: 'reconnecting' },
+          telemetry: null,
+        },
+      ],
+      policy: {
+        countdownRuleId: 'battery-low',
+        countdownSecondsRemaining: 30,
+        fsdShutdownCommitted: false,
+        rules: [
+          {
+            ruleId: 'battery-low',
+            ruleName: 'Battery low',
+            enabled: true,
+            matches: 4,
+            decisions: 1,
+          },
+        ],
+      },
+    });
+
+    const lines = text.split('\n');
+    expect(lines).toContain('# TYPE easyups_battery_charge_pct gauge');
+    expect(lines).toContain('# HELP easyups_battery_charge_pct Latest battery.charge reading.');
+    expect(lines).toContain('easyups_battery_charge_pct{ups_id="primary",ups_name="Rack \\"A\\""} 87');
+    expect(text).not.toContain('easyups_ups_load_pct');
+    expect(lines).toContain(
+      'easyups_telemetry_timestamp_seconds{ups_id="primary",ups_name="Rack \\"A\\""} 1778752800',
+    );
+    expect(lines).toContain(
+      'easyups_connection_state{ups_id="rack-2",ups_name="Rack 2",state="reconnecting"} 1',
+    );
+    expect(lines).toContain(
+      'easyups_connection_state{ups_id="rack-2",ups_name="Rack 2",state="ready"} 0',
+    );
+    expect(lines).toContain('easyups_status{ups_id="primary",ups_name="Rack \\"A\\"",flag="OB"} 1');
+    expect(lines).toContain('easyups_status{ups_id="primary",ups_name="Rack \\"A\\"",flag="OL"} 0');
+    expect(lines).toContain('easyups_status{ups_id="primary",ups_name="Rack \\"A\\"",flag="ECO"} 1');
+    expect(text).not.toContain('ups_id="rack-2",ups_name="Rack 2",flag=');
+    expect(lines).toContain('easyups_policy_countdown_active 1');
+    expect(lines).toContain('easyups_policy_countdown_seconds_remaining{rule_id="battery-low"} 30');
+    expect(lines).toContain('easyups_policy_fsd_committed 0');
+    expect(lines).toContain('# TYPE easyups_policy_rule_matches_total counter');
+    expect(lines).toContain(
+      'easyups_policy_rule_matches_total{rule_id="battery-low",rule_name="Battery low"} 4',
+    );
+    expect(lines).toContain(
+      'easyups_policy_rule_decisions_total{rule_id="battery-low",rule_name="Battery low"} 1',
+    );
+    expect(text.endsWith('\n')).toBe(true);
+  });
+});
+
+describe('MetricsExporterService', () => {
+  let service: MetricsExporterService | null = null;
+
+  afterEach(async () => {
+    await service?.stop();
+    service = null;
+  });
+
+  const startService = async (metrics: Partial<AppConfig['metrics']>) => {
+    const config = withMetrics({ enabled: true, port: 0, ...metrics });
+    service = new MetricsExporterService(
+      {
+        listDevices: () => [PRIMARY_DEVICE],
+        getPolicyStatus: () => IDLE_POLICY,
+      },
+      config.metrics,
+    );
+    service.handleTelemetry({
+      upsId: 'primary',
+      ts: '2026-05-14T10:00:00.000Z',
+      values: { ups_realpower_watts: 240 },
+      rawUpsStatus: 'OL',
+    });
+    await service.start();
+    return `http://127.0.0.1:${service.getListener().getListeningPort()}`;
+  };
+
+  it('serves the latest telemetry on /metrics', async () => {
+    const baseUrl = await startService({});
+
+    const response = await fetch(`${baseUrl}/metrics`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+    await expect(response.text()).resolves.toContain(
+      'easyups_ups_realpower_watts{ups_id="primary",ups_name="Rack \\"A\\""} 240',
+    );
+    expect((await fetch(`${baseUrl}/other`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/metrics`, { method: 'POST' })).status).toBe(405);
+  });
+
+  it('requires the bearer token when one is configured', async () => {
+    const baseUrl = await startService({ bearerToken: 's3cret' });
+
+    const anonymous = await fetch(`${baseUrl}/metrics`);
+    const wrong = await fetch(`${baseUrl}/metrics`, {
+      headers: { Authorization: 'Bearer nope' },
+    });
+    const authorized = await fetch(`${baseUrl}/metrics`, {
+      headers: { Authorization: 'Bearer s3cret' },
+    });
+
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(authorized.status).toBe(200);
+  });
+
+  it('stops listening when the exporter is disabled', async () => {
+    await startService({});
+    expect(service?.getListener().getListeningPort()).not.toBeNull();
+
+    await service?.handleConfigUpdated(withMetrics({ enabled: false, port: 0 }));
+
+    expect(service?.getListener().getListeningPort()).toBeNull();
+  });
+});
@@ -0,0 +1,372 @@
+import { timingSafeEqual } from 'node:crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import type { AppConfig } from '../config/configSchema';
+import type { UpsDeviceSummary } from '../ipc/ipcChannels';
+import type { ConnectionState } from '../ipc/ipcEvents';
+import {
+  NUT_FIELD_TO_COLUMN,
+  TELEMETRY_COLUMNS,
+  type TelemetryColumn,
+} from '../nut/nutValueMapper';
+import type { NutTelemetryUpdatedPayload } from '../nut/nutPollingService';
+import { parseUpsStatusTokens } from '../../shared/upsStatus/statusModel';
+import type { BatterySafetyPolicyStatus } from './batterySafetyService';
+import { ServiceListener, type ListenAddress } from './serviceListener';
+
+type MetricsConfig = AppConfig['metrics'];
+
+export type MetricsExporterSources = {
+  listDevices: () => UpsDeviceSummary[];
+  getPolicyStatus: () => BatterySafetyPolicyStatus;
+};
+
+export type MetricsSnapshot = {
+  devices: Array<{
+    device: UpsDeviceSummary;
+    telemetry: NutTelemetryUpdatedPayload | null;
+  }>;
+  policy: BatterySafetyPolicyStatus;
+};
+
+const METRIC_PREFIX = 'easyups';
+const METRICS_PATH = '/metrics';
+const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const CONNECTION_STATES: readonly ConnectionState[] = [
+  'idle',
+  'connecting',
+  'initializing',
+  'ready',
+  'degraded',
+  'reconnecting',
+];
+
+/**
+ * Flags from the NUT `ups.status` vocabulary that are always exported, so a
+ * flag that clears reads 0 instead of disappearing. Vendor-specific flags are
+ * exported only while present.
+ */
+const KNOWN_STATUS_TOKENS = [
+  'OL',
+  'OB',
+  'LB',
+  'HB',
+  'RB',
+  'CHRG',
+  'DISCHRG',
+  'BYPASS',
+  'CAL',
+  'OFF',
+  'OVER',
+  'TRIM',
+  'BOOST',
+  'FSD',
+] as const;
+
+const COLUMN_TO_NUT_FIELD = new Map<TelemetryColumn, string>();
+for (const [nutField, column] of Object.entries(NUT_FIELD_TO_COLUMN)) {
+  if (!COLUMN_TO_NUT_FIELD.has(column)) {
+    COLUMN_TO_NUT_FIELD.set(column, nutField);
+  }
+}
+
+/**
+ * Serves the latest telemetry, connection state, status flags, countdown
+ * state and rule counters in the Prometheus text exposition format. Nothing is
+ * read from DuckDB: a scrape only formats what the polling sessions last
+ * reported, so it stays cheap at any scrape interval.
+ */
+export class MetricsExporterService {
+  private readonly sources: MetricsExporterSources;
+  private readonly latestTelemetry = new Map<string, NutTelemetryUpdatedPayload>();
+  private config: MetricsConfig;
+  private readonly listener: ServiceListener;
+
+  public constructor(sources: MetricsExporterSources, config: MetricsConfig) {
+    this.sources = sources;
+    this.config = config;
+    this.listener = new ServiceListener('MetricsExporterService', () =>
+      createServer((request, response) => {
+        this.handleRequest(request, response);
+      }));
+  }
+
+  public handleTelemetry(payload: NutTelemetryUpdatedPayload): void {
+    this.latestTelemetry.set(payload.upsId, payload);
+  }
+
+  /** Restarts the listener only when it must move; a new token applies to the next scrape. */
+  public handleConfigUpdated(config: AppConfig): Promise<void> {
+    const previous = this.config;
+    this.config = config.metrics;
+    const listenerChanged =
+      previous.enabled !== config.metrics.enabled ||
+      previous.bindAddress !== config.metrics.bindAddress ||
+      previous.port !== config.metrics.port;
+
+    if (!listenerChanged && this.listener.isListening() === config.metrics.enabled) {
+      return this.listener.settled();
+    }
+
+    return this.listener.restart(() => this.getListenAddress());
+  }
+
+  public start(): Promise<void> {
+    return this.listener.start(() => this.getListenAddress());
+  }
+
+  public stop(): Promise<void> {
+    return this.listener.stop();
+  }
+
+  public getListener(): ServiceListener {
+    return this.listener;
+  }
+
+  public buildSnapshot(): MetricsSnapshot {
+    return {
+      devices: this.sources.listDevices().map((device) => ({
+        device,
+        telemetry: this.latestTelemetry.get(device.id) ?? null,
+      })),
+      policy: this.sources.getPolicyStatus(),
+    };
+  }
+
+  private getListenAddress(): ListenAddress | null {
+    return this.config.enabled
+      ? { host: this.config.bindAddress, port: this.config.port }
+      : null;
+  }
+
+  private handleRequest(request: IncomingMessage, response: ServerResponse): void {
+    const path = (request.url ?? '').split('?')[0];
+    if (path !== METRICS_PATH) {
+      response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      response.end('Not found\n');
+      return;
+    }
+
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.writeHead(405, { Allow: 'GET, HEAD' });
+      response.end();
+      return;
+    }
+
+    if (!isAuthorized(request.headers.authorization, this.config.bearerToken)) {
+      response.writeHead(401, {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'WWW-Authenticate': 'Bearer',
+      });
+      response.end('Unauthorized\n');
+      return;
+    }
+
+    let body: string;
+    try {
+      body = renderPrometheusMetrics(this.buildSnapshot());
+    } catch (error) {
+      console.error('[MetricsExporterService] Failed to render metrics', error);
+      response.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+      response.end('Failed to render metrics\n');
+      return;
+    }
+
+    response.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+    response.end(request.method === 'HEAD' ? undefined : body);
+  }
+}
+
+function isAuthorized(header: string | undefined, bearerToken: string): boolean {
+  if (!bearerToken) {
+    return true;
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  if (!match) {
+    return false;
+  }
+
+  const expected = Buffer.from(bearerToken);
+  const received = Buffer.from(match[1].trim());
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+type MetricSample = {
+  labels: Record<string, string>;
+  value: number;
+};
+
+class MetricFamilyWriter {
+  private readonly lines: string[] = [];
+
+  public family(
+    name: string,
+    type: 'gauge' | 'counter',
+    help: string,
+    samples: MetricSample[],
+  ): void {
+    if (samples.length === 0) {
+      return;
+    }
+
+    const metricName = `${METRIC_PREFIX}_${name}`;
+    this.lines.push(`# HELP ${metricName} ${escapeHelp(help)}`);
+    this.lines.push(`# TYPE ${metricName} ${type}`);
+    for (const sample of samples) {
+      this.lines.push(`${metricName}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+
+  public toString(): string {
+    return this.lines.length > 0 ? `${this.lines.join('\n')}\n` : '';
+  }
+}
+
+export function renderPrometheusMetrics(snapshot: MetricsSnapshot): string {
+  const writer = new MetricFamilyWriter();
+  const deviceLabels = snapshot.devices.map(({ device, telemetry }) => ({
+    telemetry,
+    labels: { ups_id: device.id, ups_name: device.name },
+    state: device.state,
+  }));
+
+  writer.family(
+    'connection_state',
+    'gauge',
+    'Connection state of the NUT session; 1 for the current state.',
+    deviceLabels.flatMap(({ labels, state }) =>
+      CONNECTION_STATES.map((candidate) => ({
+        labels: { ...labels, state: candidate },
+        value: candidate === state ? 1 : 0,
+      })),
+    ),
+  );
+
+  writer.family(
+    'telemetry_timestamp_seconds',
+    'gauge',
+    'Unix time of the latest telemetry sample.',
+    deviceLabels.flatMap(({ labels, telemetry }) =>
+      telemetry ? [{ labels, value: Date.parse(telemetry.ts) / 1000 }] : [],
+    ),
+  );
+
+  for (const column of TELEMETRY_COLUMNS) {
+    writer.family(
+      column,
+      'gauge',
+      `Latest ${COLUMN_TO_NUT_FIELD.get(column) ?? column} reading.`,
+      deviceLabels.flatMap(({ labels, telemetry }) => {
+        const value = telemetry?.values[column];
+        return typeof value === 'number' && Number.isFinite(value)
+          ? [{ labels, value }]
+          : [];
+      }),
+    );
+  }
+
+  writer.family(
+    'status',
+    'gauge',
+    'ups.status flags from the latest sample; 1 while the flag is set.',
+    deviceLabels.flatMap(({ labels, telemetry }) => {
+      if (!telemetry) {
+        return [];
+      }
+
+      const tokens = parseUpsStatusTokens(telemetry.rawUpsStatus);
+      const exported = [
+        ...KNOWN_STATUS_TOKENS,
+        ...tokens.filter((token) => !(KNOWN_STATUS_TOKENS as readonly string[]).includes(token)),
+      ];
+      return exported.map((token) => ({
+        labels: { ...labels, flag: token },
+        value: tokens.includes(token) ? 1 : 0,
+      }));
+    }),
+  );
+
+  const { policy } = snapshot;
+  writer.family(
+    'policy_countdown_active',
+    'gauge',
+    '1 while a shutdown countdown is running.',
+    [{ labels: {}, value: policy.countdownRuleId !== null ? 1 : 0 }],
+  );
+  writer.family(
+    'policy_countdown_seconds_remaining',
+    'gauge',
+    'Seconds left on the running shutdown countdown.',
+    policy.countdownRuleId !== null && policy.countdownSecondsRemaining !== null
+      ? [
+        {
+          labels: { rule_id: policy.countdownRuleId },
+          value: policy.countdownSecondsRemaining,
+        },
+      ]
+      : [],
+  );
+  writer.family(
+    'policy_fsd_committed',
+    'gauge',
+    '1 once a forced shutdown from the UPS can no longer be cancelled.',
+    [{ labels: {}, value: policy.fsdShutdownCommitted ? 1 : 0 }],
+  );
+
+  const ruleLabels = policy.rules.map((rule) => ({
+    rule,
+    labels: { rule_id: rule.ruleId, rule_name: rule.ruleName },
+  }));
+  writer.family(
+    'policy_rule_enabled',
+    'gauge',
+    '1 when the shutdown policy rule is enabled.',
+    ruleLabels.map(({ rule, labels }) => ({ labels, value: rule.enabled ? 1 : 0 })),
+  );
+  writer.family(
+    'policy_rule_matches_total',
+    'counter',
+    'Evaluations in which the rule trigger matched since the policy was loaded.',
+    ruleLabels.map(({ rule, labels }) => ({ labels, value: rule.matches })),
+  );
+  writer.family(
+    'policy_rule_decisions_total',
+    'counter',
+    'Decisions the rule produced since the policy was loaded.',
+    ruleLabels.map(({ rule, labels }) => ({ labels, value: rule.decisions })),
+  );
+
+  return writer.toString();
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { defaultAppConfig, type AppConfig } from '../config/configSchema';
+import { startFakeMqttBroker, type FakeMqttBroker } from '../mqtt/fakeMqttBroker';
+import { MqttPublisherService } from './mqttPublisherService';
+
+let broker: FakeMqttBroker | null = null;
+let service: MqttPublisherService | null = null;
+
+function withMqtt(port: number, mqtt: Partial<AppConfig['mqtt']> = {}): AppConfig {
+  return {
+    ...defaultAppConfig,
+    nut: { ...defaultAppConfig.nut, displayName: 'Rack UPS' },
+    mqtt: {
+      ...defaultAppConfig.mqtt,
+      enabled: true,
+      host: '127.0.0.1',
+      port,
+      ...mqtt,
+    },
+  };
+}
+
+async function waitFor(predicate: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt += 1) {
+    if (predicate()) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error('Condition was not met in time');
+}
+
+function lastPayload(topic: string): string | undefined {
+  return broker?.messages.filter((message) => message.topic === topic).at(-1)?.payload;
+}
+
+afterEach(async () => {
+  await service?.stop();
+  await broker?.close();
+  service = null;
+  broker = null;
+});
+
+describe('MqttPublisherService', () => {
+  it('announces availability with a retained offline will and publishes state topics', async () => {
+    broker = await startFakeMqttBroker();
+    service = new MqttPublisherService(withMqtt(broker.port), { cancelCountdown: vi.fn() });
+    service.handleConnectionState('ready');
+    service.handleTelemetry({
+      upsId: 'primary',
+      ts: '2026-05-14T10:00:00.000Z',
+      values: { battery_charge_pct: 87, ups_load_pct: null },
+      rawUpsStatus: 'OL CHRG',
+    });
+
+    await service.start();
+    await waitFor(() => lastPayload('easyups/ups_status') === 'OL CHRG');
+
+    expect(broker.connects[0]).toMatchObject({
+      clientId: 'easy-ups-client',
+      will: { topic: 'easyups/availability', payload: 'offline', retain: true },
+    });
+    expect(broker.subscriptions).toEqual(['easyups/command']);
+    expect(broker.messages).toContainEqual({ topic: 'easyups/availability', payload: 'online', retain: true });
+    expect(broker.messages).toContainEqual({ topic: 'easyups/battery_charge_pct', payload: '87', retain: true });
+    expect(lastPayload('easyups/connection_state')).toBe('ready');
+    expect(lastPayload('easyups/countdown/state')).toBe('idle');
+    expect(broker.messages.some((message) => message.topic === 'easyups/ups_load_pct')).toBe(false);
+
+    await service.stop();
+    expect(lastPayload('easyups/availability')).toBe('offline');
+  });
+
+  it('publishes Home Assistant discovery for seen columns and the cancel button', async () => {
+    broker = await startFakeMqttBroker();
+    service = new MqttPublisherService(withMqtt(broker.port), { cancelCountdown: vi.fn() });
+    await service.start();
+
+    service.handleTelemetry({
+      upsId: 'primary',
+      ts: '2026-05-14T10:00:00.000Z',
+      values: { battery_charge_pct: 87 },
+    });
+    service.handleTelemetry({
+      upsId: 'primary',
+      ts: '2026-05-14T10:00:01.000Z',
+      values: { battery_charge_pct: 86 },
+    });
+    await waitFor(() => lastPayload('easyups/battery_charge_pct') === '86');
+
+    const chargeConfigs = broker.messages.filter(
+      (message) => message.topic === 'homeassistant/sensor/easyups/battery_charge_pct/config',
+    );
+    expect(chargeConfigs).toHaveLength(1);
+    expect(chargeConfigs[0].retain).toBe(true);
+    expect(JSON.parse(chargeConfigs[0].payload)).toEqual({
+      name: 'Battery charge',
+      state_topic: 'easyups/battery_charge_pct',
+      unit_of_measurement: '%',
+      device_class: 'battery',
+      state_class: 'measurement',
+      unique_id: 'easyups_battery_charge_pct',
+      availability_topic: 'easyups/availability',
+      device: {
+        identifiers: ['easyups'],
+        name: 'Rack UPS',
+        manufacturer: 'Easy UPS Client',
+      },
+    });
+    expect(JSON.parse(lastPayload('homeassistant/button/easyups/cancel_countdown/config') ?? '{}')).toMatchObject({
+      command_topic: 'easyups/command',
+      payload_press: 'cancel_countdown',
+    });
+    expect(lastPayload('homeassistant/sensor/easyups/input_voltage/config')).toBeUndefined();
+  });
+
+  it('publishes countdown events and cancels the countdown from the command topic', async () => {
+    broker = await startFakeMqttBroker();
+    const cancelCountdown = vi.fn(() => true);
+    service = new MqttPublisherService(
+      withMqtt(broker.port, { topicPrefix: 'home/ups', discoveryEnabled: false }),
+      { cancelCountdown },
+    );
+    await service.start();
+
+    service.handleCountdownEvent({
+      type: 'started',
+      timestampIso: '2026-05-14T10:00:00.000Z',
+      ruleId: 'battery-low',
+      ruleName: 'Battery low',
+      countdownSeconds: 60,
+      method: 'shutdown',
+      cancellable: true,
+    });
+    broker.publish('home/ups/command', 'reboot');
+    broker.publish('home/ups/command', 'cancel_countdown');
+    await waitFor(() => cancelCountdown.mock.calls.length === 1);
+
+    expect(cancelCountdown).toHaveBeenCalledWith('Cancelled over MQTT');
+    const event = broker.messages.find((message) => message.topic === 'home/ups/countdown');
+    expect(event?.retain).toBe(false);
+    expect(JSON.parse(event?.payload ?? '{}')).toMatchObject({ type: 'started', ruleId: 'battery-low' });
+    expect(lastPayload('home/ups/countdown/state')).toBe('active');
+    expect(broker.messages.some((message) => message.topic.startsWith('homeassistant/'))).toBe(false);
+  });
+
+  it('leaves the broker to publish the will when the connection is lost', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    broker = await startFakeMqttBroker();
+    service = new MqttPublisherService(withMqtt(broker.port), { cancelCountdown: vi.fn() });
+    await service.start();
+    await waitFor(() => lastPayload('easyups/availability') === 'online');
+
+    broker.dropClients();
+    await waitFor(() => lastPayload('easyups/availability') === 'offline');
+
+    expect(broker.messages.filter((message) => message.topic === 'easyups/availability')).toEqual([
+      { topic: 'easyups/availability', payload: 'online', retain: true },
+      { topic: 'easyups/availability', payload: 'offline', retain: true },
+    ]);
+  });
+});
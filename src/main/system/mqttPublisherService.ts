@@ -0,0 +1,360 @@
+import type { AppConfig } from '../config/configSchema';
+import type { ConnectionState } from '../ipc/ipcEvents';
+import { MqttClient } from '../mqtt/mqttClient';
+import { TELEMETRY_COLUMNS, type TelemetryColumn } from '../nut/nutValueMapper';
+import type { NutTelemetryUpdatedPayload } from '../nut/nutPollingService';
+import type { ShutdownCountdownEvent } from '../../shared/shutdownPolicy/types';
+
+type MqttConfig = AppConfig['mqtt'];
+
+export type MqttPublisherCommands = {
+  /** Returns false when there was no countdown to cancel or it is irrevocable. */
+  cancelCountdown: (reason: string) => boolean;
+};
+
+type SensorMetadata = {
+  name: string;
+  unit?: string;
+  deviceClass?: string;
+};
+
+const CANCEL_COUNTDOWN_COMMAND = 'cancel_countdown';
+const INITIAL_RECONNECT_DELAY_MS = 5000;
+const MAX_RECONNECT_DELAY_MS = 60_000;
+
+/** Home Assistant sensor metadata for each telemetry column. */
+const COLUMN_SENSORS: Record<TelemetryColumn, SensorMetadata> = {
+  battery_voltage: { name: 'Battery voltage', unit: 'V', deviceClass: 'voltage' },
+  battery_charge_pct: { name: 'Battery charge', unit: '%', deviceClass: 'battery' },
+  battery_current: { name: 'Battery current', unit: 'A', deviceClass: 'current' },
+  battery_temperature: { name: 'Battery temperature', unit: '°C', deviceClass: 'temperature' },
+  battery_runtime_sec: { name: 'Battery runtime', unit: 's', deviceClass: 'duration' },
+  input_voltage: { name: 'Input voltage', unit: 'V', deviceClass: 'voltage' },
+  input_frequency_hz: { name: 'Input frequency', unit: 'Hz', deviceClass: 'frequency' },
+  input_current: { name: 'Input current', unit: 'A', deviceClass: 'current' },
+  output_voltage: { name: 'Output voltage', unit: 'V', deviceClass: 'voltage' },
+  output_frequency_hz: { name: 'Output frequency', unit: 'Hz', deviceClass: 'frequency' },
+  output_current: { name: 'Output current', unit: 'A', deviceClass: 'current' },
+  ups_apparent_power_pct: { name: 'Apparent power', unit: '%' },
+  ups_apparent_power_va: { name: 'Apparent power', unit: 'VA', deviceClass: 'apparent_power' },
+  ups_realpower_watts: { name: 'Real power', unit: 'W', deviceClass: 'power' },
+  ups_load_pct: { name: 'Load', unit: '%' },
+  ups_temperature: { name: 'UPS temperature', unit: '°C', deviceClass: 'temperature' },
+  ups_status_num: { name: 'Status code' },
+};
+
+/**
+ * Mirrors the primary UPS onto an MQTT broker: one topic per telemetry
+ * column, the raw `ups.status`, the connection state and countdown events,
+ * with Home Assistant discovery so the entities appear without YAML. The
+ * broker publishes the retained "offline" will if the app dies, and
+ * `<prefix>/command` accepts `cancel_countdown`.
+ */
+export class MqttPublisherService {
+  private readonly commands: MqttPublisherCommands;
+  private config: MqttConfig;
+  private deviceName: string;
+  private client: MqttClient | null = null;
+  private latestTelemetry: NutTelemetryUpdatedPayload | null = null;
+  private connectionState: ConnectionState | null = null;
+  private countdownActive = false;
+  private readonly announcedColumns = new Set<TelemetryColumn>();
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectDelayMs = INITIAL_RECONNECT_DELAY_MS;
+  private connectionQueue: Promise<void> = Promise.resolve();
+
+  public constructor(config: AppConfig, commands: MqttPublisherCommands) {
+    this.config = config.mqtt;
+    this.deviceName = resolveDeviceName(config);
+    this.commands = commands;
+  }
+
+  public handleTelemetry(payload: NutTelemetryUpdatedPayload): void {
+    this.latestTelemetry = payload;
+    this.publishTelemetry();
+  }
+
+  public handleConnectionState(state: ConnectionState): void {
+    this.connectionState = state;
+    this.publishConnectionState();
+  }
+
+  public handleCountdownEvent(event: ShutdownCountdownEvent): void {
+    this.countdownActive = event.type === 'started';
+    const client = this.getConnectedClient();
+    if (!client) {
+      return;
+    }
+
+    // Events are transient; only the derived state is retained.
+    client.publish(this.topic('countdown'), JSON.stringify(event));
+    this.publishCountdownState();
+  }
+
+  /** Reconnects only when a broker or topic setting changed. */
+  public handleConfigUpdated(config: AppConfig): Promise<void> {
+    const previous = this.config;
+    const previousDeviceName = this.deviceName;
+    this.config = config.mqtt;
+    this.deviceName = resolveDeviceName(config);
+
+    if (
+      JSON.stringify(previous) === JSON.stringify(config.mqtt) &&
+      previousDeviceName === this.deviceName
+    ) {
+      return this.connectionQueue;
+    }
+
+    return this.enqueue(async () => {
+      await this.closeClient(previous);
+      this.reconnectDelayMs = INITIAL_RECONNECT_DELAY_MS;
+      if (this.config.enabled) {
+        await this.openClient();
+      }
+    });
+  }
+
+  public start(): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.client === null && this.config.enabled) {
+        await this.openClient();
+      }
+    });
+  }
+
+  public stop(): Promise<void> {
+    return this.enqueue(() => this.closeClient(this.config));
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.connectionQueue = this.connectionQueue.then(task).catch((error: unknown) => {
+      console.error('[MqttPublisherService] Failed to update the MQTT connection', error);
+    });
+    return this.connectionQueue;
+  }
+
+  private async openClient(): Promise<void> {
+    this.clearReconnectTimer();
+    const config = this.config;
+    const client = new MqttClient();
+    this.client = client;
+
+    client.onMessage((topic, payload) => {
+      this.handleMessage(topic, payload.toString('utf8'));
+    });
+    client.onClose((error) => {
+      if (this.client !== client) {
+        return;
+      }
+      console.error('[MqttPublisherService] MQTT connection lost', error);
+      this.scheduleReconnect();
+    });
+
+    try {
+      await client.connect({
+        host: config.host,
+        port: config.port,
+        clientId: config.clientId,
+        username: config.username || undefined,
+        password: config.password || undefined,
+        will: { topic: this.topic('availability'), payload: 'offline', retain: true },
+      });
+      await client.subscribe(this.topic('command'));
+    } catch (error) {
+      console.error(
+        `[MqttPublisherService] Cannot connect to MQTT broker ${config.host}:${config.port}`,
+        error,
+      );
+      await client.disconnect();
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.reconnectDelayMs = INITIAL_RECONNECT_DELAY_MS;
+    this.announcedColumns.clear();
+    client.publish(this.topic('availability'), 'online', { retain: true });
+    this.publishStaticDiscovery();
+    this.publishConnectionState();
+    this.publishCountdownState();
+    this.publishTelemetry();
+  }
+
+  private async closeClient(config: MqttConfig): Promise<void> {
+    this.clearReconnectTimer();
+    const client = this.client;
+    this.client = null;
+    if (!client) {
+      return;
+    }
+
+    if (client.isConnected()) {
+      // A clean DISCONNECT suppresses the will, so announce it ourselves.
+      client.publish(`${config.topicPrefix}/availability`, 'offline', { retain: true });
+    }
+    await client.disconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || !this.config.enabled) {
+      return;
+    }
+
+    const delayMs = this.reconnectDelayMs;
+    this.reconnectDelayMs = Math.min(delayMs * 2, MAX_RECONNECT_DELAY_MS);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.enqueue(async () => {
+        if (this.client && !this.client.isConnected()) {
+          this.client = null;
+        }
+        if (this.client === null && this.config.enabled) {
+          await this.openClient();
+        }
+      });
+    }, delayMs);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private handleMessage(topic: string, payload: string): void {
+    if (topic !== this.topic('command')) {
+      return;
+    }
+
+    const command = payload.trim();
+    if (command !== CANCEL_COUNTDOWN_COMMAND) {
+      console.warn(`[MqttPublisherService] Ignoring unknown MQTT command: ${command}`);
+      return;
+    }
+
+    if (!this.commands.cancelCountdown('Cancelled over MQTT')) {
+      console.warn('[MqttPublisherService] No cancellable shutdown countdown is active');
+    }
+  }
+
+  private publishTelemetry(): void {
+    const client = this.getConnectedClient();
+    const payload = this.latestTelemetry;
+    if (!client || !payload) {
+      return;
+    }
+
+    const retain = this.config.retain;
+    for (const column of TELEMETRY_COLUMNS) {
+      const value = payload.values[column];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        continue;
+      }
+
+      if (this.config.discoveryEnabled && !this.announcedColumns.has(column)) {
+        this.announcedColumns.add(column);
+        const sensor = COLUMN_SENSORS[column];
+        this.publishDiscovery('sensor', column, {
+          name: sensor.name,
+          state_topic: this.topic(column),
+          unit_of_measurement: sensor.unit,
+          device_class: sensor.deviceClass,
+          state_class: 'measurement',
+        });
+      }
+      client.publish(this.topic(column), String(value), { retain });
+    }
+
+    if (payload.rawUpsStatus !== undefined) {
+      client.publish(this.topic('ups_status'), payload.rawUpsStatus, { retain });
+    }
+  }
+
+  private publishConnectionState(): void {
+    const client = this.getConnectedClient();
+    if (client && this.connectionState) {
+      client.publish(this.topic('connection_state'), this.connectionState, {
+        retain: this.config.retain,
+      });
+    }
+  }
+
+  private publishCountdownState(): void {
+    this.getConnectedClient()?.publish(
+      this.topic('countdown/state'),
+      this.countdownActive ? 'active' : 'idle',
+      { retain: this.config.retain },
+    );
+  }
+
+  private publishStaticDiscovery(): void {
+    if (!this.config.discoveryEnabled) {
+      return;
+    }
+
+    this.publishDiscovery('sensor', 'ups_status', {
+      name: 'Status',
+      state_topic: this.topic('ups_status'),
+      icon: 'mdi:power-plug-battery',
+    });
+    this.publishDiscovery('sensor', 'connection_state', {
+      name: 'Connection',
+      state_topic: this.topic('connection_state'),
+      entity_category: 'diagnostic',
+    });
+    this.publishDiscovery('binary_sensor', 'countdown', {
+      name: 'Shutdown countdown',
+      state_topic: this.topic('countdown/state'),
+      payload_on: 'active',
+      payload_off: 'idle',
+    });
+    this.publishDiscovery('button', CANCEL_COUNTDOWN_COMMAND, {
+      name: 'Cancel shutdown countdown',
+      command_topic: this.topic('command'),
+      payload_press: CANCEL_COUNTDOWN_COMMAND,
+      icon: 'mdi:cancel',
+    });
+  }
+
+  private publishDiscovery(
+    component: 'sensor' | 'binary_sensor' | 'button',
+    objectId: string,
+    entity: Record<string, string | undefined>,
+  ): void {
+    const nodeId = toNodeId(this.config.topicPrefix);
+    const payload = {
+      ...entity,
+      unique_id: `${nodeId}_${objectId}`,
+      availability_topic: this.topic('availability'),
+      device: {
+        identifiers: [nodeId],
+        name: this.deviceName,
+        manufacturer: 'Easy UPS Client',
+      },
+    };
+
+    // Discovery configs are always retained so Home Assistant finds them after its own restart.
+    this.getConnectedClient()?.publish(
+      `${this.config.discoveryPrefix}/${component}/${nodeId}/${objectId}/config`,
+      JSON.stringify(payload),
+      { retain: true },
+    );
+  }
+
+  private getConnectedClient(): MqttClient | null {
+    return this.client?.isConnected() ? this.client : null;
+  }
+
+  private topic(suffix: string): string {
+    return `${this.config.topicPrefix}/${suffix}`;
+  }
+}
+
+function resolveDeviceName(config: AppConfig): string {
+  return config.nut.displayName ?? config.nut.upsName;
+}
+
+/** Home Assistant node ids only allow letters, digits, underscores and hyphens. */
+function toNodeId(topicPrefix: string): string {
+  return topicPrefix.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { defaultAppConfig } from '../config/configSchema';
+import type { NutStateSnapshot } from '../ipc/ipcChannels';
+import { NutClient, NutProtocolError } from '../nut/nutClient';
+import { NutServerService, type NutServerSources } from './nutServerService';
+
+const CONFIG = {
+  enabled: true,
+  bindAddress: '127.0.0.1',
+  port: 0,
+  upsName: 'ups',
+  username: 'upsmon',
+  password: 'secret',
+};
+
+let service: NutServerService | null = null;
+const clients: NutClient[] = [];
+
+function makeState(overrides: Partial<NutStateSnapshot> = {}): NutStateSnapshot {
+  return {
+    state: 'ready',
+    staticData: { 'device.model': 'Smart-UPS' },
+    dynamicData: { 'ups.status': 'OB DISCHRG', 'battery.charge': '42' },
+    writableFields: [],
+    localDriverLaunchIssue: null,
+    ...overrides,
+  };
+}
+
+async function startService(sources: Partial<NutServerSources> = {}): Promise<number> {
+  service = new NutServerService({
+    getPrimaryState: () => makeState(),
+    getPrimaryName: () => 'Rack UPS',
+    ...sources,
+  }, CONFIG, 10);
+  await service.start();
+  return service.getListener().getListeningPort() ?? 0;
+}
+
+async function connect(port: number, login = true): Promise<NutClient> {
+  const client = new NutClient();
+  clients.push(client);
+  await client.connect({
+    host: '127.0.0.1',
+    port,
+    upsName: 'ups',
+    username: login ? CONFIG.username : undefined,
+    password: login ? CONFIG.password : undefined,
+    timeoutMs: 1000,
+  });
+  return client;
+}
+
+afterEach(async () => {
+  await Promise.all(clients.splice(0).map((client) => client.close()));
+  await service?.stop();
+  service = null;
+});
+
+describe('NutServerService', () => {
+  it('serves the primary snapshot to NUT clients', async () => {
+    const port = await startService();
+    const client = await connect(port, false);
+
+    expect(await client.listVariables('ups')).toEqual({
+      'battery.charge': '42',
+      'device.model': 'Smart-UPS',
+      'ups.status': 'OB DISCHRG',
+    });
+    expect(await client.getVariable('ups', 'battery.charge')).toBe('42');
+    await expect(client.getVariable('ups', 'input.voltage')).rejects.toThrow(NutProtocolError);
+  });
+
+  it('reports stale data while the UPS connection is down', async () => {
+    const port = await startService({
+      getPrimaryState: () => makeState({ state: 'reconnecting' }),
+    });
+    const client = await connect(port, false);
+
+    await expect(client.getVariable('ups', 'ups.status')).rejects.toThrow(/DATA-STALE/);
+  });
+
+  it('tracks logged-in secondaries and raises FSD while the shutdown is committed', async () => {
+    const port = await startService();
+    await connect(port);
+    await expect(connect(port, false).then((client) =>
+      client.getVariable('ups', 'ups.status'))).resolves.toBe('OB DISCHRG');
+
+    expect(service!.listLoggedInClients()).toEqual(['127.0.0.1']);
+
+    service!.setForcedShutdown(true);
+    const secondary = await connect(port);
+    expect(await secondary.getVariable('ups', 'ups.status')).toBe('FSD OB DISCHRG');
+    expect(service!.listLoggedInClients()).toHaveLength(2);
+
+    service!.setForcedShutdown(false);
+    expect(await secondary.getVariable('ups', 'ups.status')).toBe('OB DISCHRG');
+  });
+
+  it('waits for logged-in secondaries to log out', async () => {
+    const port = await startService();
+    const secondary = await connect(port);
+    service!.setForcedShutdown(true);
+
+    await expect(service!.waitForClientsToLogOut(0.05)).rejects.toThrow(
+      'Timed out after 0.05s; still logged in: 127.0.0.1.',
+    );
+    await expect(service!.waitForClientsToLogOut(5, () => true)).rejects.toThrow(/cancelled/);
+
+    const waiting = service!.waitForClientsToLogOut(5);
+    await secondary.close();
+    await expect(waiting).resolves.toMatch(/^All secondaries of the NUT server logged out after/);
+  });
+
+  it('rejects wrong credentials and drops clients when the credentials change', async () => {
+    const port = await startService();
+    const wrong = new NutClient();
+    clients.push(wrong);
+    await expect(wrong.connect({
+      host: '127.0.0.1',
+      port,
+      upsName: 'ups',
+      username: 'upsmon',
+      password: 'guess',
+      timeoutMs: 1000,
+    })).rejects.toThrow(/ACCESS-DENIED/);
+
+    const secondary = await connect(port);
+    expect(service!.listLoggedInClients()).toHaveLength(1);
+
+    await service!.handleConfigUpdated({
+      ...defaultAppConfig,
+      nutServer: { ...CONFIG, password: 'rotated' },
+    });
+
+    await expect(secondary.getVariable('ups', 'ups.status')).rejects.toThrow();
+    expect(service!.listLoggedInClients()).toEqual([]);
+    expect(service!.getListener().getListeningPort()).toBe(port);
+  });
+});
@@ -0,0 +1,228 @@
+import { createServer, type Socket } from 'node:net';
+import type { AppConfig } from '../config/configSchema';
+import type { NutStateSnapshot } from '../ipc/ipcChannels';
+import type { ConnectionState } from '../ipc/ipcEvents';
+import {
+  NutServerSession,
+  type NutServedUps,
+} from '../nut/nutServerProtocol';
+import { parseUpsStatusTokens } from '../../shared/upsStatus/statusModel';
+import { ServiceListener, type ListenAddress } from './serviceListener';
+
+export type NutServerConfig = AppConfig['nutServer'];
+
+export type NutServerSources = {
+  getPrimaryState: () => NutStateSnapshot;
+  /** Shown to clients as the UPS description. */
+  getPrimaryName: () => string;
+};
+
+type ClientConnection = {
+  socket: Socket;
+  session: NutServerSession;
+};
+
+// upsd drops clients that send longer lines; legitimate commands are far shorter.
+const MAX_LINE_LENGTH = 1024;
+const DEFAULT_LOGOUT_POLL_INTERVAL_MS = 1000;
+const FRESH_STATES: readonly ConnectionState[] = ['ready', 'degraded'];
+
+/**
+ * Serves the primary UPS over the NUT network protocol so stock upsmon
+ * secondaries and other copies of the app can monitor this machine. While
+ * our own shutdown is committed, `ups.status` carries FSD, which makes every
+ * logged-in secondary shut down on its next poll.
+ */
+export class NutServerService {
+  private readonly sources: NutServerSources;
+  private readonly pollIntervalMs: number;
+  private readonly clients = new Set<ClientConnection>();
+  private config: NutServerConfig;
+  private readonly listener: ServiceListener;
+  private forcedShutdown = false;
+
+  public constructor(
+    sources: NutServerSources,
+    config: NutServerConfig,
+    pollIntervalMs = DEFAULT_LOGOUT_POLL_INTERVAL_MS,
+  ) {
+    this.sources = sources;
+    this.config = config;
+    this.pollIntervalMs = pollIntervalMs;
+    this.listener = new ServiceListener(
+      'NutServerService',
+      () => createServer((socket) => {
+        this.handleConnection(socket);
+      }),
+      () => this.dropClients(),
+    );
+  }
+
+  public setForcedShutdown(active: boolean): void {
+    this.forcedShutdown = active;
+  }
+
+  public handleConfigUpdated(config: AppConfig): Promise<void> {
+    return this.applyConfig(config.nutServer);
+  }
+
+  /**
+   * Changed credentials or UPS name drop clients that logged in under the old
+   * ones. Public for services that serve a UPS of their own, like the demo UPS.
+   */
+  public applyConfig(config: NutServerConfig): Promise<void> {
+    const previous = this.config;
+    this.config = config;
+
+    if (
+      previous.upsName !== config.upsName ||
+      previous.username !== config.username ||
+      previous.password !== config.password
+    ) {
+      this.dropClients();
+    }
+
+    const listenerChanged =
+      previous.bindAddress !== config.bindAddress ||
+      previous.port !== config.port;
+    if (!listenerChanged && this.listener.isListening() === config.enabled) {
+      return this.listener.settled();
+    }
+
+    return this.listener.restart(() => this.getListenAddress());
+  }
+
+  public start(): Promise<void> {
+    return this.listener.start(() => this.getListenAddress());
+  }
+
+  public stop(): Promise<void> {
+    return this.listener.stop();
+  }
+
+  public getListener(): ServiceListener {
+    return this.listener;
+  }
+
+  /** Addresses of the clients currently logged in to the served UPS. */
+  public listLoggedInClients(): string[] {
+    return [...this.clients]
+      .filter(({ session }) => session.getLoginUps() === this.config.upsName)
+      .map(({ session }) => session.getRemoteAddress());
+  }
+
+  /**
+   * Waits for the logged-in secondaries to log out, as upsmon secondaries do
+   * once they see FSD. Rejects with the remaining addresses on timeout, and
+   * stops early when `isCancelled` turns true.
+   */
+  public async waitForClientsToLogOut(
+    timeoutSeconds: number,
+    isCancelled: () => boolean = () => false,
+  ): Promise<string> {
+    const startedAt = Date.now();
+    const deadline = startedAt + timeoutSeconds * 1000;
+
+    for (; ;) {
+      const secondaries = this.listLoggedInClients();
+      const elapsedSeconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+
+      if (secondaries.length === 0) {
+        return `All secondaries of the NUT server logged out after ${elapsedSeconds}s.`;
+      }
+      if (isCancelled()) {
+        throw new Error('The shutdown was cancelled while waiting for secondaries.');
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Timed out after ${timeoutSeconds}s; still logged in: ${secondaries.join(', ')}.`,
+        );
+      }
+
+      await new Promise<void>((resolve) => {
+        setTimeout(resolve, this.pollIntervalMs);
+      });
+    }
+  }
+
+  private getListenAddress(): ListenAddress | null {
+    return this.config.enabled
+      ? { host: this.config.bindAddress, port: this.config.port }
+      : null;
+  }
+
+  private dropClients(): void {
+    for (const { socket } of this.clients) {
+      socket.destroy();
+    }
+    this.clients.clear();
+  }
+
+  private handleConnection(socket: Socket): void {
+    const session = new NutServerSession(socket.remoteAddress ?? 'unknown', {
+      getUps: () => this.getServedUps(),
+      getCredentials: () => ({
+        username: this.config.username,
+        password: this.config.password,
+      }),
+      listLoginAddresses: () => this.listLoggedInClients(),
+    });
+    const client: ClientConnection = { socket, session };
+    this.clients.add(client);
+
+    let buffer = '';
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex !== -1) {
+        const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+
+        const reply = session.handleLine(line);
+        if (reply.lines.length > 0) {
+          socket.write(`${reply.lines.join('\n')}\n`);
+        }
+        if (reply.close) {
+          socket.end();
+          return;
+        }
+        newlineIndex = buffer.indexOf('\n');
+      }
+
+      if (buffer.length > MAX_LINE_LENGTH) {
+        socket.destroy();
+      }
+    });
+    socket.on('error', () => {
+      socket.destroy();
+    });
+    socket.on('close', () => {
+      this.clients.delete(client);
+    });
+  }
+
+  private getServedUps(): NutServedUps {
+    const snapshot = this.sources.getPrimaryState();
+    const base: NutServedUps = {
+      name: this.config.upsName,
+      description: this.sources.getPrimaryName(),
+      variables: null,
+    };
+    const variables = { ...snapshot.staticData, ...snapshot.dynamicData };
+
+    // FSD is served even from stale data: secondaries must not miss our shutdown.
+    if (this.forcedShutdown) {
+      const tokens = parseUpsStatusTokens(variables['ups.status']);
+      variables['ups.status'] = tokens.includes('FSD')
+        ? tokens.join(' ')
+        : ['FSD', ...tokens].join(' ');
+      return { ...base, variables };
+    }
+
+    if (!FRESH_STATES.includes(snapshot.state) || Object.keys(variables).length === 0) {
+      return base;
+    }
+    return { ...base, variables };
+  }
+}
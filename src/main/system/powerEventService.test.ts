@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  PowerEventRecord,
+  PowerEventRepository,
+} from '../db/powerEventRepository';
+import type { NutTelemetryUpdatedPayload } from '../nut/nutPollingService';
+import { PowerEventService } from './powerEventService';
+
+class FakePowerEventRepository {
+  public readonly records = new Map<string, PowerEventRecord>();
+
+  public async upsert(record: PowerEventRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  public async listOpen(): Promise<PowerEventRecord[]> {
+    return [...this.records.values()].filter((record) => record.endedAtIso === null);
+  }
+}
+
+function createService(repository = new FakePowerEventRepository()) {
+  let nextId = 0;
+  const service = new PowerEventService(
+    repository as unknown as PowerEventRepository,
+    () => `event-${++nextId}`,
+  );
+  return { service, repository };
+}
+
+function sample(
+  ts: string,
+  rawUpsStatus: string,
+  values: NutTelemetryUpdatedPayload['values'] = {},
+  upsId = 'primary',
+): NutTelemetryUpdatedPayload {
+  return { upsId, ts, values, rawUpsStatus };
+}
+
+describe('PowerEventService', () => {
+  it('records an outage with its duration, lowest charge and energy', async () => {
+    const { service, repository } = createService();
+
+    await service.handleTelemetry(sample('2026-05-14T12:00:00.000Z', 'OL CHRG', {
+      battery_charge_pct: 100,
+    }));
+    await service.handleTelemetry(sample('2026-05-14T12:01:00.000Z', 'OB DISCHRG', {
+      battery_charge_pct: 98,
+      ups_realpower_watts: 300,
+    }));
+    await service.handleTelemetry(sample('2026-05-14T12:03:00.000Z', 'OB LB', {
+      battery_charge_pct: 40,
+      ups_realpower_watts: 240,
+    }));
+    await service.handleTelemetry(sample('2026-05-14T12:05:00.000Z', 'OL CHRG', {
+      battery_charge_pct: 38,
+      ups_realpower_watts: 20,
+    }));
+
+    const outage = [...repository.records.values()].find((record) => record.kind === 'onBattery');
+    expect(outage).toMatchObject({
+      startedAtIso: '2026-05-14T12:01:00.000Z',
+      endedAtIso: '2026-05-14T12:05:00.000Z',
+      durationSeconds: 240,
+      batteryChargeAtStartPercent: 98,
+      minBatteryChargePercent: 38,
+      // 300 W for two minutes, then 240 W for two minutes.
+      energyWh: 18,
+    });
+
+    const kinds = [...repository.records.values()].map((record) => [
+      record.kind,
+      record.endedAtIso,
+    ]);
+    expect(kinds).toEqual([
+      ['charging', '2026-05-14T12:01:00.000Z'],
+      ['onBattery', '2026-05-14T12:05:00.000Z'],
+      ['discharging', '2026-05-14T12:03:00.000Z'],
+      ['lowBattery', '2026-05-14T12:05:00.000Z'],
+      ['charging', null],
+    ]);
+  });
+
+  it('tracks each UPS separately and leaves energy unknown without real power', async () => {
+    const { service, repository } = createService();
+
+    await service.handleTelemetry(sample('2026-05-14T12:00:00.000Z', 'OB', {}, 'primary'));
+    await service.handleTelemetry(sample('2026-05-14T12:00:00.000Z', 'OL', {}, 'rack-2'));
+    await service.handleTelemetry(sample('2026-05-14T12:00:30.000Z', 'OB', {}, 'primary'));
+
+    expect([...repository.records.values()]).toEqual([
+      expect.objectContaining({
+        upsId: 'primary',
+        kind: 'onBattery',
+        endedAtIso: null,
+        durationSeconds: 30,
+        energyWh: null,
+      }),
+    ]);
+  });
+
+  it('closes events at the last sample when polling stopped for too long', async () => {
+    const { service, repository } = createService();
+
+    await service.handleTelemetry(sample('2026-05-14T12:00:00.000Z', 'OB'));
+    await service.handleTelemetry(sample('2026-05-14T12:01:00.000Z', 'OB'));
+    await service.handleTelemetry(sample('2026-05-14T13:00:00.000Z', 'OB'));
+
+    expect([...repository.records.values()]).toEqual([
+      expect.objectContaining({
+        id: 'event-1',
+        endedAtIso: '2026-05-14T12:01:00.000Z',
+        durationSeconds: 60,
+      }),
+      expect.objectContaining({
+        id: 'event-2',
+        startedAtIso: '2026-05-14T13:00:00.000Z',
+        endedAtIso: null,
+      }),
+    ]);
+  });
+
+  it('resumes recent open events on start and closes stale ones', async () => {
+    const repository = new FakePowerEventRepository();
+    const base: Omit<PowerEventRecord, 'id' | 'kind' | 'startedAtIso' | 'lastSampleAtIso'> = {
+      upsId: 'primary',
+      endedAtIso: null,
+      durationSeconds: 60,
+      batteryChargeAtStartPercent: 90,
+      minBatteryChargePercent: 80,
+      energyWh: null,
+    };
+    await repository.upsert({
+      ...base,
+      id: 'recent',
+      kind: 'onBattery',
+      startedAtIso: '2026-05-14T11:59:00.000Z',
+      lastSampleAtIso: '2026-05-14T12:00:00.000Z',
+    });
+    await repository.upsert({
+      ...base,
+      id: 'stale',
+      kind: 'bypass',
+      startedAtIso: '2026-05-13T11:59:00.000Z',
+      lastSampleAtIso: '2026-05-13T12:00:00.000Z',
+    });
+    const { service } = createService(repository);
+
+    await service.start(Date.parse('2026-05-14T12:01:00.000Z'));
+    await service.handleTelemetry(sample('2026-05-14T12:02:00.000Z', 'OL', {
+      battery_charge_pct: 75,
+    }));
+
+    expect(repository.records.get('stale')?.endedAtIso).toBe('2026-05-13T12:00:00.000Z');
+    expect(repository.records.get('recent')).toMatchObject({
+      endedAtIso: '2026-05-14T12:02:00.000Z',
+      durationSeconds: 180,
+      minBatteryChargePercent: 75,
+    });
+    expect(repository.records.size).toBe(2);
+  });
+
+  it('writes the queued samples on stop and ignores later ones', async () => {
+    const { service, repository } = createService();
+
+    void service.handleTelemetry(sample('2026-05-14T12:00:00.000Z', 'OB'));
+    await service.stop();
+    await service.handleTelemetry(sample('2026-05-14T12:01:00.000Z', 'OL'));
+
+    expect([...repository.records.values()]).toEqual([
+      expect.objectContaining({ kind: 'onBattery', endedAtIso: null }),
+    ]);
+  });
+});
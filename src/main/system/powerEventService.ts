@@ -0,0 +1,206 @@
+import { randomUUID } from 'node:crypto';
+import type { NutTelemetryUpdatedPayload } from '../nut/nutPollingService';
+import type {
+  PowerEventRecord,
+  PowerEventRepository,
+} from '../db/powerEventRepository';
+import {
+  POWER_EVENT_KINDS,
+  POWER_EVENT_STATUS_TOKENS,
+} from '../../shared/powerEvents/constants';
+import type { PowerEventKind } from '../../shared/powerEvents/types';
+import { parseUpsStatusTokens } from '../../shared/upsStatus/statusModel';
+
+/**
+ * An event whose UPS has not been polled for this long is closed at its last
+ * sample instead of being stretched across the gap (app stopped, UPS removed).
+ * Comfortably above the maximum polling interval of one minute.
+ */
+export const POWER_EVENT_MAX_SAMPLE_GAP_MS = 5 * 60 * 1000;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+type OpenPowerEvent = {
+  record: PowerEventRecord;
+  /** Real power at the previous sample, used to integrate energy until the next one. */
+  lastWatts: number | null;
+};
+
+/**
+ * Turns the `ups.status` token stream of every monitored UPS into persisted
+ * power events (outages, low battery, FSD, bypass, ...), tracking their
+ * duration, the lowest battery charge reached and the energy drawn.
+ */
+export class PowerEventService {
+  private readonly repository: PowerEventRepository;
+  private readonly createId: () => string;
+  private readonly openEvents = new Map<string, Map<PowerEventKind, OpenPowerEvent>>();
+  private queue: Promise<void> = Promise.resolve();
+  private stopped = false;
+
+  public constructor(
+    repository: PowerEventRepository,
+    createId: () => string = randomUUID,
+  ) {
+    this.repository = repository;
+    this.createId = createId;
+  }
+
+  /**
+   * Resumes events left open by the previous run. Stale ones are closed at
+   * their last sample since nobody observed when they actually ended.
+   */
+  public start(now = Date.now()): Promise<void> {
+    return this.enqueue(async () => {
+      for (const record of await this.repository.listOpen()) {
+        if (now - Date.parse(record.lastSampleAtIso) > POWER_EVENT_MAX_SAMPLE_GAP_MS) {
+          await this.repository.upsert(closeRecord(record, record.lastSampleAtIso));
+          continue;
+        }
+
+        this.getOpenEvents(record.upsId).set(record.kind, { record, lastWatts: null });
+      }
+    });
+  }
+
+  public handleTelemetry(payload: NutTelemetryUpdatedPayload): Promise<void> {
+    return this.enqueue(() => this.processTelemetry(payload));
+  }
+
+  /** Ignores further samples and resolves once the pending writes are done. */
+  public stop(): Promise<void> {
+    this.stopped = true;
+    return this.queue;
+  }
+
+  private async processTelemetry({
+    upsId,
+    ts,
+    values,
+    rawUpsStatus,
+  }: NutTelemetryUpdatedPayload): Promise<void> {
+    // Without a status string there is nothing to compare against.
+    if (rawUpsStatus === undefined) {
+      return;
+    }
+
+    const sampledAt = Date.parse(ts);
+    if (!Number.isFinite(sampledAt)) {
+      return;
+    }
+
+    const tokens = new Set(parseUpsStatusTokens(rawUpsStatus));
+    const charge = toFiniteNumber(values.battery_charge_pct);
+    const watts = toFiniteNumber(values.ups_realpower_watts);
+    const openEvents = this.getOpenEvents(upsId);
+
+    for (const kind of POWER_EVENT_KINDS) {
+      const active = tokens.has(POWER_EVENT_STATUS_TOKENS[kind]);
+      let current = openEvents.get(kind);
+
+      if (
+        current &&
+        sampledAt - Date.parse(current.record.lastSampleAtIso) > POWER_EVENT_MAX_SAMPLE_GAP_MS
+      ) {
+        await this.repository.upsert(
+          closeRecord(current.record, current.record.lastSampleAtIso),
+        );
+        openEvents.delete(kind);
+        current = undefined;
+      }
+
+      if (current) {
+        const record = advanceRecord(current, sampledAt, charge);
+        if (active) {
+          openEvents.set(kind, { record, lastWatts: watts });
+          await this.repository.upsert(record);
+        } else {
+          openEvents.delete(kind);
+          await this.repository.upsert(closeRecord(record, record.lastSampleAtIso));
+        }
+        continue;
+      }
+
+      if (!active) {
+        continue;
+      }
+
+      const startedAtIso = new Date(sampledAt).toISOString();
+      const record: PowerEventRecord = {
+        id: this.createId(),
+        upsId,
+        kind,
+        startedAtIso,
+        endedAtIso: null,
+        durationSeconds: 0,
+        batteryChargeAtStartPercent: charge,
+        minBatteryChargePercent: charge,
+        energyWh: watts === null ? null : 0,
+        lastSampleAtIso: startedAtIso,
+      };
+      openEvents.set(kind, { record, lastWatts: watts });
+      await this.repository.upsert(record);
+    }
+  }
+
+  private getOpenEvents(upsId: string): Map<PowerEventKind, OpenPowerEvent> {
+    let events = this.openEvents.get(upsId);
+    if (!events) {
+      events = new Map();
+      this.openEvents.set(upsId, events);
+    }
+
+    return events;
+  }
+
+  // Samples arrive from several polling sessions; applying them one at a time
+  // keeps open-event bookkeeping consistent with what has been persisted.
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    if (this.stopped) {
+      return this.queue;
+    }
+
+    const next = this.queue.then(task).catch((error: unknown) => {
+      console.error('[PowerEventService] Failed to record power event', error);
+    });
+    this.queue = next;
+    return next;
+  }
+}
+
+function advanceRecord(
+  { record, lastWatts }: OpenPowerEvent,
+  sampledAt: number,
+  charge: number | null,
+): PowerEventRecord {
+  const elapsedMs = Math.max(0, sampledAt - Date.parse(record.lastSampleAtIso));
+  const energyWh =
+    lastWatts === null
+      ? record.energyWh
+      : (record.energyWh ?? 0) + (lastWatts * elapsedMs) / MS_PER_HOUR;
+  const minBatteryChargePercent =
+    charge === null
+      ? record.minBatteryChargePercent
+      : Math.min(record.minBatteryChargePercent ?? charge, charge);
+  const lastSampleAtIso = new Date(sampledAt).toISOString();
+
+  return {
+    ...record,
+    lastSampleAtIso,
+    durationSeconds: (sampledAt - Date.parse(record.startedAtIso)) / 1000,
+    minBatteryChargePercent,
+    energyWh,
+  };
+}
+
+function closeRecord(record: PowerEventRecord, endedAtIso: string): PowerEventRecord {
+  return {
+    ...record,
+    endedAtIso,
+    durationSeconds: (Date.parse(endedAtIso) - Date.parse(record.startedAtIso)) / 1000,
+  };
+}
+
+function toFiniteNumber(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
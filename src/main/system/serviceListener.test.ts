@@ -0,0 +1,55 @@
+import { createServer } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ServiceListener } from './serviceListener';
+
+describe('ServiceListener', () => {
+  const listeners: ServiceListener[] = [];
+
+  function createListener(onClose?: () => void): ServiceListener {
+    const listener = new ServiceListener('TestService', () => createServer(), onClose);
+    listeners.push(listener);
+    return listener;
+  }
+
+  afterEach(async () => {
+    await Promise.all(listeners.splice(0).map((listener) => listener.stop()));
+    vi.restoreAllMocks();
+  });
+
+  it('listens, moves and stops in the order the changes were made', async () => {
+    const onClose = vi.fn();
+    const listener = createListener(onClose);
+
+    await listener.start(() => ({ host: '127.0.0.1', port: 0 }));
+    const firstPort = listener.getListeningPort();
+    expect(firstPort).not.toBeNull();
+
+    void listener.restart(() => ({ host: '127.0.0.1', port: 0 }));
+    await listener.stop();
+
+    expect(listener.isListening()).toBe(false);
+    expect(listener.getListeningPort()).toBeNull();
+    expect(onClose).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the address it could not listen on until the next change', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const taken = createListener();
+    await taken.start(() => ({ host: '127.0.0.1', port: 0 }));
+    const port = taken.getListeningPort();
+
+    const listener = createListener();
+    await listener.start(() => ({ host: '127.0.0.1', port }));
+
+    expect(listener.isListening()).toBe(false);
+    expect(listener.getFailedAddress()).toEqual({ host: '127.0.0.1', port });
+    expect(error).toHaveBeenCalledWith(
+      '[TestService] Failed to update the listener',
+      expect.objectContaining({ message: expect.stringContaining(`Cannot listen on 127.0.0.1:${port}`) }),
+    );
+
+    await listener.restart(() => ({ host: '127.0.0.1', port: 0 }));
+    expect(listener.getFailedAddress()).toBeNull();
+    expect(listener.getListeningPort()).not.toBeNull();
+  });
+});
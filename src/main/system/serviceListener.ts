@@ -0,0 +1,116 @@
+import { Server as HttpServer } from 'node:http';
+import type { AddressInfo, Server } from 'node:net';
+
+export type ListenAddress = {
+  host: string;
+  port: number;
+};
+
+/**
+ * The listening socket of a server the app exposes, like the metrics exporter
+ * or the local API. Changes run one after another, so a quick stop and start
+ * cannot race, and a failed listen is kept for the settings page to report.
+ */
+export class ServiceListener {
+  private readonly label: string;
+  private readonly createServer: () => Server;
+  private readonly onClose: () => void;
+  private server: Server | null = null;
+  private failedAddress: ListenAddress | null = null;
+  private queue: Promise<void> = Promise.resolve();
+
+  public constructor(label: string, createServer: () => Server, onClose: () => void = () => undefined) {
+    this.label = label;
+    this.createServer = createServer;
+    this.onClose = onClose;
+  }
+
+  public isListening(): boolean {
+    return this.server !== null;
+  }
+
+  /** The bound port, which differs from the configured one only when that was 0. */
+  public getListeningPort(): number | null {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? (address as AddressInfo).port : null;
+  }
+
+  /** The address the last attempt could not listen on, or null once listening or stopped. */
+  public getFailedAddress(): ListenAddress | null {
+    return this.failedAddress;
+  }
+
+  /** Resolves once the changes queued so far are applied. */
+  public settled(): Promise<void> {
+    return this.queue;
+  }
+
+  /** Closes the current socket, then listens on `address` unless it is null. */
+  public restart(address: () => ListenAddress | null): Promise<void> {
+    return this.enqueue(async () => {
+      await this.close();
+      const next = address();
+      if (next) {
+        await this.listen(next);
+      }
+    });
+  }
+
+  public start(address: () => ListenAddress | null): Promise<void> {
+    return this.enqueue(async () => {
+      const next = address();
+      if (this.server === null && next) {
+        await this.listen(next);
+      }
+    });
+  }
+
+  public stop(): Promise<void> {
+    return this.enqueue(() => this.close());
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task).catch((error: unknown) => {
+      console.error(`[${this.label}] Failed to update the listener`, error);
+    });
+    return this.queue;
+  }
+
+  private listen(address: ListenAddress): Promise<void> {
+    const { host, port } = address;
+    const server = this.createServer();
+
+    return new Promise<void>((resolve, reject) => {
+      const handleListenError = (error: Error) => {
+        this.failedAddress = address;
+        reject(new Error(`Cannot listen on ${host}:${port}: ${error.message}`));
+      };
+      server.once('error', handleListenError);
+      server.listen(port, host, () => {
+        server.off('error', handleListenError);
+        server.on('error', (error) => {
+          console.error(`[${this.label}] Server error`, error);
+        });
+        this.server = server;
+        resolve();
+      });
+    });
+  }
+
+  private close(): Promise<void> {
+    this.onClose();
+    this.failedAddress = null;
+    const server = this.server;
+    this.server = null;
+    if (!server) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      if (server instanceof HttpServer) {
+        server.closeAllConnections();
+      }
+    });
+  }
+}
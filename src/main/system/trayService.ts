@@ -11,6 +11,14 @@ import type { AppConfig } from '../config/configSchema';
 import type { TelemetryValues } from '../db/telemetryRepository';
 import type { ConnectionState } from '../ipc/ipcEvents';
 import { t, subscribeToLangChange } from './i18nService';
+import type { EnergyTotals } from '../../shared/energy/types';
+import { listUpsTargets, PRIMARY_UPS_ID } from '../../shared/ups/upsTargets';
+
+type TrayDeviceStatus = {
+  name: string;
+  batteryPercent: number | null;
+  connectionState: ConnectionState;
+};
 
 type BatteryIconBucket = 'empty' | 'low' | 'medium' | 'high' | 'full' | 'disconnected';
 
@@ -29,10 +37,13 @@ const warnedKeys = new Set<string>();
 export class TrayService {
   private tray: Tray | null = null;
   private readonly iconCache = new Map<string, NativeImage>();
-  private upsName = 'UPS';
-  private batteryPercent: number | null = null;
-  private connectionState: ConnectionState = 'idle';
+  /** Per-device status in config order; the primary UPS drives the icon. */
+  private devices = new Map<string, TrayDeviceStatus>([
+    [PRIMARY_UPS_ID, { name: 'UPS', batteryPercent: null, connectionState: 'idle' }],
+  ]);
   private unsubscribeLangChange: (() => void) | null = null;
+  /** Energy drawn through the primary UPS, shown below the device lines. */
+  private energyTotals: EnergyTotals | null = null;
 
   /** Tracks OS-level dark mode, independent of the app's themeSource setting. */
   private systemDark = nativeTheme.shouldUseDarkColors;
@@ -47,7 +58,7 @@ export class TrayService {
   };
 
   public start(config: AppConfig): void {
-    this.upsName = config.nut.upsName;
+    this.syncDevices(config);
 
     if (this.tray) {
       this.refreshTrayAppearance();
@@ -60,9 +71,10 @@ export class TrayService {
       this.refreshTrayAppearance();
     });
 
-    this.tray = new Tray(this.getIconForState(this.batteryPercent, this.connectionState));
+    const primary = this.getPrimaryStatus();
+    this.tray = new Tray(this.getIconForState(primary.batteryPercent, primary.connectionState));
     this.tray.setContextMenu(this.buildContextMenu());
-    this.tray.setToolTip(formatTrayTooltip(this.upsName, this.batteryPercent));
+    this.tray.setToolTip(this.buildTooltip());
     this.tray.on('double-click', () => {
       this.showMainWindow();
     });
@@ -83,11 +95,11 @@ export class TrayService {
   }
 
   public handleConfigUpdated(config: AppConfig): void {
-    this.upsName = config.nut.upsName;
+    this.syncDevices(config);
     this.refreshTrayAppearance();
   }
 
-  public handleTelemetry(values: TelemetryValues): void {
+  public handleTelemetry(values: TelemetryValues, upsId: string = PRIMARY_UPS_ID): void {
     const rawBatteryPercent = values.battery_charge_pct;
     if (rawBatteryPercent === undefined) {
       // Ignore partial telemetry payloads that omit battery charge.
@@ -95,7 +107,7 @@ export class TrayService {
     }
 
     if (rawBatteryPercent === null) {
-      this.updateBatteryPercent(null);
+      this.updateBatteryPercent(upsId, null);
       return;
     }
 
@@ -103,33 +115,78 @@ export class TrayService {
       typeof rawBatteryPercent !== 'number' ||
       !Number.isFinite(rawBatteryPercent)
     ) {
-      this.updateBatteryPercent(null);
+      this.updateBatteryPercent(upsId, null);
       return;
     }
 
-    this.updateBatteryPercent(rawBatteryPercent);
+    this.updateBatteryPercent(upsId, rawBatteryPercent);
+  }
+
+  public handleEnergyTotals(totals: EnergyTotals): void {
+    this.energyTotals = totals;
+    this.tray?.setToolTip(this.buildTooltip());
   }
 
-  public handleConnectionState(state: ConnectionState): void {
-    if (this.connectionState === state) {
+  public handleConnectionState(
+    state: ConnectionState,
+    upsId: string = PRIMARY_UPS_ID,
+  ): void {
+    const device = this.devices.get(upsId);
+    if (!device || device.connectionState === state) {
       return;
     }
 
-    this.connectionState = state;
+    device.connectionState = state;
     this.refreshTrayAppearance();
   }
 
-  private buildContextMenu(): Menu {
-    let batteryLabel = t('tray.battery', { percent: formatBatteryPercent(this.batteryPercent) });
-    if (this.connectionState !== 'ready') {
-      batteryLabel = t('tray.status', { state: this.connectionState });
+  private syncDevices(config: AppConfig): void {
+    const nextDevices = new Map<string, TrayDeviceStatus>();
+    for (const target of listUpsTargets(config)) {
+      const existing = this.devices.get(target.id);
+      nextDevices.set(target.id, {
+        name: target.name,
+        batteryPercent: existing?.batteryPercent ?? null,
+        connectionState: existing?.connectionState ?? 'idle',
+      });
     }
 
-    return Menu.buildFromTemplate([
-      {
-        label: batteryLabel,
+    this.devices = nextDevices;
+  }
+
+  private getPrimaryStatus(): TrayDeviceStatus {
+    return (
+      this.devices.get(PRIMARY_UPS_ID) ?? {
+        name: 'UPS',
+        batteryPercent: null,
+        connectionState: 'idle',
+      }
+    );
+  }
+
+  private buildTooltip(): string {
+    const lines = [...this.devices.values()].map((device) =>
+      formatTrayTooltip(device.name, device.batteryPercent, device.connectionState),
+    );
+    if (this.energyTotals) {
+      lines.push(formatEnergyTotals(this.energyTotals));
+    }
+
+    return lines.join('\n');
+  }
+
+  private buildContextMenu(): Menu {
+    const showDeviceNames = this.devices.size > 1;
+    const deviceItems = [...this.devices.values()].map((device) => {
+      const statusLabel = formatDeviceStatus(device);
+      return {
+        label: showDeviceNames ? `${device.name}: ${statusLabel}` : statusLabel,
         enabled: false,
-      },
+      };
+    });
+
+    return Menu.buildFromTemplate([
+      ...deviceItems,
       { type: 'separator' },
       {
         label: t('menu.open'),
@@ -168,13 +225,14 @@ export class TrayService {
     mainWindow.focus();
   }
 
-  private updateBatteryPercent(nextPercent: number | null): void {
+  private updateBatteryPercent(upsId: string, nextPercent: number | null): void {
+    const device = this.devices.get(upsId);
     const normalized = normalizeBatteryPercent(nextPercent);
-    if (this.batteryPercent === normalized) {
+    if (!device || device.batteryPercent === normalized) {
       return;
     }
 
-    this.batteryPercent = normalized;
+    device.batteryPercent = normalized;
     this.refreshTrayAppearance();
   }
 
@@ -183,8 +241,9 @@ export class TrayService {
       return;
     }
 
-    this.tray.setImage(this.getIconForState(this.batteryPercent, this.connectionState));
-    this.tray.setToolTip(formatTrayTooltip(this.upsName, this.batteryPercent, this.connectionState));
+    const primary = this.getPrimaryStatus();
+    this.tray.setImage(this.getIconForState(primary.batteryPercent, primary.connectionState));
+    this.tray.setToolTip(this.buildTooltip());
     this.tray.setContextMenu(this.buildContextMenu());
   }
 
@@ -243,6 +302,23 @@ function formatTrayTooltip(
   return `${upsName} | ${batteryDisplay}`;
 }
 
+function formatEnergyTotals(totals: EnergyTotals): string {
+  return t('tray.energy', {
+    today: totals.todayKwh.toFixed(2),
+    todayCost: `${totals.todayCost.toFixed(2)} ${totals.currency}`,
+    month: totals.monthKwh.toFixed(1),
+    monthCost: `${totals.monthCost.toFixed(2)} ${totals.currency}`,
+  });
+}
+
+function formatDeviceStatus(device: TrayDeviceStatus): string {
+  if (device.connectionState !== 'ready') {
+    return t('tray.status', { state: device.connectionState });
+  }
+
+  return t('tray.battery', { percent: formatBatteryPercent(device.batteryPercent) });
+}
+
 function formatBatteryPercent(percent: number | null): string {
   if (percent === null) {
     return '--%';
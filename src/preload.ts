@@ -4,12 +4,23 @@ import type { TelemetryColumn } from './shared/telemetry/types';
 import {
   IPC_CHANNELS,
   IPC_EVENTS,
+  type BatteryHealthReport,
+  type EnergyReport,
+  type EnergyReportQuery,
   type MainToRendererEventPayloads,
+  type NutGetWritableVariablePayload,
+  type NutInstantCommand,
   type NutRetryLocalDriverLaunchResult,
+  type NutRunCommandPayload,
+  type NutRunCommandResult,
+  type NutSetVariablePayload,
+  type NutSetVariableResult,
   type NutSetupChooseFolderResult,
   type NutSetupListComPortsResult,
   type NutSetupListSerialDriversPayload,
   type NutSetupListSerialDriversResult,
+  type NutSetupPrepareDemoPayload,
+  type NutSetupPrepareDemoResult,
   type NutSetupPrepareLocalDriverPayload,
   type NutSetupPrepareLocalDriverResult,
   type NutSetupPrepareLocalNutPayload,
@@ -19,12 +30,30 @@ import {
   type NutSetupValidateFolderPayload,
   type NutSetupValidateFolderResult,
   type NutStateSnapshot,
+  type NutWritableVariable,
+  type PowerEventPage,
+  type PowerEventQuery,
   type QueryRangePayload,
-  type ShutdownPolicyDecisionLogEntry,
+  type PreShutdownHookResult,
+  type ShutdownPolicyBacktestPayload,
+  type ShutdownPolicyBacktestResult,
+  type ShutdownPolicyDecisionLogPage,
+  type ShutdownPolicyDecisionLogQuery,
+  type ShutdownPolicyDryRunHooksPayload,
+  type ShutdownPolicyExportPayload,
+  type ShutdownPolicyExportResult,
+  type ShutdownPolicyImportResult,
+  type ShutdownPolicyOutageSimulationResult,
+  type SettingsUpdateResult,
+  type ShutdownPolicySimulateOutagePayload,
   type SystemOpenExternalPayload,
   type TelemetryDataPoint,
+  type TelemetryExportPayload,
+  type TelemetryExportResult,
   type TelemetryMinMaxRangePayload,
   type TelemetryRangeLimits,
+  type UpsDeviceSummary,
+  type UpsSelectorPayload,
   type WizardTestConnectionPayload,
   type WizardTestConnectionResult,
   type WizardCompletePayload,
@@ -33,18 +62,20 @@ import {
 const electronApi = {
   settings: {
     get: (): Promise<AppConfig> => ipcRenderer.invoke(IPC_CHANNELS.settingsGet),
-    update: (patch: AppConfigPatch): Promise<AppConfig> =>
+    update: (patch: AppConfigPatch): Promise<SettingsUpdateResult> =>
       ipcRenderer.invoke(IPC_CHANNELS.settingsUpdate, patch),
   },
   telemetry: {
     getAvailableColumns: (): Promise<TelemetryColumn[]> =>
       ipcRenderer.invoke(IPC_CHANNELS.telemetryGetAvailableColumns),
-    getLatest: (): Promise<TelemetryDataPoint | null> =>
-      ipcRenderer.invoke(IPC_CHANNELS.telemetryGetLatest),
+    getLatest: (payload?: UpsSelectorPayload): Promise<TelemetryDataPoint | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.telemetryGetLatest, payload),
     queryRange: (payload: QueryRangePayload): Promise<TelemetryDataPoint[]> =>
       ipcRenderer.invoke(IPC_CHANNELS.telemetryQueryRange, payload),
     getMinMaxForRange: (payload: TelemetryMinMaxRangePayload): Promise<TelemetryRangeLimits> =>
       ipcRenderer.invoke(IPC_CHANNELS.telemetryGetMinMaxForRange, payload),
+    export: (payload: TelemetryExportPayload): Promise<TelemetryExportResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.telemetryExport, payload),
   },
   wizard: {
     enter: (): Promise<void> => ipcRenderer.invoke(IPC_CHANNELS.wizardEnter),
@@ -80,20 +111,68 @@ const electronApi = {
       payload: NutSetupPrepareUsbHidPayload,
     ): Promise<NutSetupPrepareUsbHidResult> =>
       ipcRenderer.invoke(IPC_CHANNELS.nutSetupPrepareUsbHid, payload),
+    prepareDemo: (
+      payload: NutSetupPrepareDemoPayload,
+    ): Promise<NutSetupPrepareDemoResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.nutSetupPrepareDemo, payload),
   },
   nut: {
-    getState: (): Promise<NutStateSnapshot> =>
-      ipcRenderer.invoke(IPC_CHANNELS.nutGetState),
+    getState: (payload?: UpsSelectorPayload): Promise<NutStateSnapshot> =>
+      ipcRenderer.invoke(IPC_CHANNELS.nutGetState, payload),
+    listDevices: (): Promise<UpsDeviceSummary[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.nutListDevices),
     retryLocalDriverLaunch: (): Promise<NutRetryLocalDriverLaunchResult> =>
       ipcRenderer.invoke(IPC_CHANNELS.nutRetryLocalDriverLaunch),
+    listCommands: (payload?: UpsSelectorPayload): Promise<NutInstantCommand[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.nutListCommands, payload),
+    runCommand: (payload: NutRunCommandPayload): Promise<NutRunCommandResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.nutRunCommand, payload),
+    getWritableVariable: (
+      payload: NutGetWritableVariablePayload,
+    ): Promise<NutWritableVariable | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.nutGetWritableVariable, payload),
+    setVariable: (payload: NutSetVariablePayload): Promise<NutSetVariableResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.nutSetVariable, payload),
   },
   criticalAlert: {
     test: (): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.criticalAlertTest),
   },
   shutdownPolicy: {
-    getDecisionLog: (): Promise<ShutdownPolicyDecisionLogEntry[]> =>
-      ipcRenderer.invoke(IPC_CHANNELS.shutdownPolicyGetDecisionLog),
+    getDecisionLog: (
+      query?: ShutdownPolicyDecisionLogQuery,
+    ): Promise<ShutdownPolicyDecisionLogPage> =>
+      ipcRenderer.invoke(IPC_CHANNELS.shutdownPolicyGetDecisionLog, query),
+    dryRunHooks: (
+      payload: ShutdownPolicyDryRunHooksPayload,
+    ): Promise<PreShutdownHookResult[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.shutdownPolicyDryRunHooks, payload),
+    backtest: (
+      payload: ShutdownPolicyBacktestPayload,
+    ): Promise<ShutdownPolicyBacktestResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.shutdownPolicyBacktest, payload),
+    simulateOutage: (
+      payload: ShutdownPolicySimulateOutagePayload,
+    ): Promise<ShutdownPolicyOutageSimulationResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.shutdownPolicySimulateOutage, payload),
+    exportPolicy: (
+      payload: ShutdownPolicyExportPayload,
+    ): Promise<ShutdownPolicyExportResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.shutdownPolicyExport, payload),
+    importPolicy: (): Promise<ShutdownPolicyImportResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.shutdownPolicyImport),
+  },
+  powerEvents: {
+    query: (query?: PowerEventQuery): Promise<PowerEventPage> =>
+      ipcRenderer.invoke(IPC_CHANNELS.powerEventsQuery, query),
+  },
+  batteryHealth: {
+    get: (payload?: UpsSelectorPayload): Promise<BatteryHealthReport> =>
+      ipcRenderer.invoke(IPC_CHANNELS.batteryHealthGet, payload),
+  },
+  energy: {
+    getReport: (query: EnergyReportQuery): Promise<EnergyReport> =>
+      ipcRenderer.invoke(IPC_CHANNELS.energyGetReport, query),
   },
   system: {
     openExternal: (payload: SystemOpenExternalPayload): Promise<void> =>
@@ -134,6 +213,12 @@ const electronApi = {
       ) => void,
     ): (() => void) =>
       subscribeToMainEvent(IPC_EVENTS.localDriverLaunchIssueChanged, listener),
+    onTelemetryExportProgress: (
+      listener: (
+        payload: MainToRendererEventPayloads[typeof IPC_EVENTS.telemetryExportProgress],
+      ) => void,
+    ): (() => void) =>
+      subscribeToMainEvent(IPC_EVENTS.telemetryExportProgress, listener),
   },
 };
 
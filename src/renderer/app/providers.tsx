@@ -15,29 +15,70 @@ import type {
   LocalDriverLaunchIssue,
   MainToRendererEventPayloads,
   TelemetryValues,
+  UpsDeviceSummary,
 } from '../../shared/ipc/contracts';
+import { PRIMARY_UPS_ID } from '../../shared/ups/upsTargets';
 import i18n, { fallbackSystem } from '../i18n';
 
-type ConnectionContextValue = {
+type UpsSessionSnapshot = {
   state: ConnectionState;
   staticData: Record<string, string> | null;
   dynamicData: Record<string, string> | null;
+  writableFields: string[];
   lastTelemetry: { ts: string; values: TelemetryValues } | null;
+};
+
+type ConnectionContextValue = UpsSessionSnapshot & {
   localDriverLaunchIssue: LocalDriverLaunchIssue | null;
 };
 
+const EMPTY_SESSION: UpsSessionSnapshot = {
+  state: 'idle',
+  staticData: null,
+  dynamicData: null,
+  writableFields: [],
+  lastTelemetry: null,
+};
+
 const ConnectionContext = createContext<ConnectionContextValue>({
   state: 'idle',
   staticData: null,
   dynamicData: null,
+  writableFields: [],
   lastTelemetry: null,
   localDriverLaunchIssue: null,
 });
 
+/** Connection of the primary UPS, which drives app-wide status and recovery UI. */
 export function useConnection() {
   return useContext(ConnectionContext);
 }
 
+type UpsDeviceContextValue = {
+  devices: UpsDeviceSummary[];
+  selectedUpsId: string;
+  selectUps: (upsId: string) => void;
+  selected: ConnectionContextValue & { upsId: string };
+};
+
+const UpsDeviceContext = createContext<UpsDeviceContextValue>({
+  devices: [],
+  selectedUpsId: PRIMARY_UPS_ID,
+  selectUps: () => {
+    // noop default
+  },
+  selected: {
+    ...EMPTY_SESSION,
+    upsId: PRIMARY_UPS_ID,
+    localDriverLaunchIssue: null,
+  },
+});
+
+/** Device list plus the session of the UPS picked in the device switcher. */
+export function useUpsDevices() {
+  return useContext(UpsDeviceContext);
+}
+
 type ConfigContextValue = {
   config: AppConfig | null;
   refreshConfig: () => Promise<void>;
@@ -71,50 +112,67 @@ export function useTheme() {
 }
 
 export function AppProviders({ children }: { children: ReactNode }) {
-  const [connectionState, setConnectionState] = useState<ConnectionState>('idle');
-  const [staticData, setStaticData] = useState<Record<string, string> | null>(null);
-  const [dynamicData, setDynamicData] = useState<Record<string, string> | null>(null);
-  const [lastTelemetry, setLastTelemetry] = useState<{
-    ts: string;
-    values: TelemetryValues;
-  } | null>(null);
+  const [sessions, setSessions] = useState<Record<string, UpsSessionSnapshot>>({
+    [PRIMARY_UPS_ID]: EMPTY_SESSION,
+  });
   const [localDriverLaunchIssue, setLocalDriverLaunchIssue] =
     useState<LocalDriverLaunchIssue | null>(null);
+  const [devices, setDevices] = useState<UpsDeviceSummary[]>([]);
+  const [selectedUpsId, setSelectedUpsId] = useState(PRIMARY_UPS_ID);
+
+  const updateSession = useCallback(
+    (upsId: string | undefined, patch: Partial<UpsSessionSnapshot>) => {
+      const key = upsId ?? PRIMARY_UPS_ID;
+      setSessions((previous) => ({
+        ...previous,
+        [key]: { ...(previous[key] ?? EMPTY_SESSION), ...patch },
+      }));
+    },
+    [],
+  );
 
-  useEffect(() => {
-    const unsubs: Array<() => void> = [];
-
-    const bootstrapConnectionState = async () => {
-      try {
-        const [stateResult, latestTelemetryResult] = await Promise.all([
-          electronApi.nut.getState(),
-          electronApi.telemetry.getLatest(),
-        ]);
-
-        setConnectionState(stateResult.state);
-        setStaticData(stateResult.staticData);
-        setDynamicData(stateResult.dynamicData);
+  const bootstrapSession = useCallback(
+    async (upsId: string) => {
+      const [stateResult, latestTelemetryResult] = await Promise.all([
+        electronApi.nut.getState({ upsId }),
+        electronApi.telemetry.getLatest({ upsId }),
+      ]);
+
+      updateSession(upsId, {
+        state: stateResult.state,
+        staticData: stateResult.staticData,
+        dynamicData: stateResult.dynamicData,
+        writableFields: stateResult.writableFields ?? [],
+        ...(latestTelemetryResult
+          ? {
+            lastTelemetry: {
+              ts: latestTelemetryResult.ts,
+              values: latestTelemetryResult.values,
+            },
+          }
+          : {}),
+      });
+
+      if (upsId === PRIMARY_UPS_ID) {
         setLocalDriverLaunchIssue(stateResult.localDriverLaunchIssue ?? null);
-
-        if (latestTelemetryResult) {
-          setLastTelemetry({
-            ts: latestTelemetryResult.ts,
-            values: latestTelemetryResult.values,
-          });
-        }
-      } catch {
-        // ignore bootstrap error
       }
-    };
+    },
+    [updateSession],
+  );
+
+  useEffect(() => {
+    const unsubs: Array<() => void> = [];
 
-    void bootstrapConnectionState();
+    void bootstrapSession(PRIMARY_UPS_ID).catch(() => {
+      // ignore bootstrap error
+    });
 
     unsubs.push(
       electronApi.events.onConnectionStateChanged(
         (
           payload: MainToRendererEventPayloads['connection:state-changed'],
         ) => {
-          setConnectionState(payload.state);
+          updateSession(payload.upsId, { state: payload.state });
         },
       ),
     );
@@ -122,7 +180,10 @@ export function AppProviders({ children }: { children: ReactNode }) {
     unsubs.push(
       electronApi.events.onUpsStaticData(
         (payload: MainToRendererEventPayloads['ups:static-data']) => {
-          setStaticData(payload.values);
+          updateSession(payload.upsId, {
+            staticData: payload.values,
+            writableFields: payload.fields.writable ?? [],
+          });
         },
       ),
     );
@@ -130,7 +191,7 @@ export function AppProviders({ children }: { children: ReactNode }) {
     unsubs.push(
       electronApi.events.onUpsDynamicData(
         (payload: MainToRendererEventPayloads['ups:dynamic-data']) => {
-          setDynamicData(payload.values);
+          updateSession(payload.upsId, { dynamicData: payload.values });
         },
       ),
     );
@@ -138,7 +199,9 @@ export function AppProviders({ children }: { children: ReactNode }) {
     unsubs.push(
       electronApi.events.onUpsTelemetryUpdated(
         (payload: MainToRendererEventPayloads['ups:telemetry-updated']) => {
-          setLastTelemetry({ ts: payload.ts, values: payload.values });
+          updateSession(payload.upsId, {
+            lastTelemetry: { ts: payload.ts, values: payload.values },
+          });
         },
       ),
     );
@@ -156,17 +219,15 @@ export function AppProviders({ children }: { children: ReactNode }) {
     return () => {
       unsubs.forEach((fn) => fn());
     };
-  }, []);
+  }, [bootstrapSession, updateSession]);
 
+  const primarySession = sessions[PRIMARY_UPS_ID] ?? EMPTY_SESSION;
   const connectionValue = useMemo<ConnectionContextValue>(
     () => ({
-      state: connectionState,
-      staticData,
-      dynamicData,
-      lastTelemetry,
+      ...primarySession,
       localDriverLaunchIssue,
     }),
-    [connectionState, staticData, dynamicData, lastTelemetry, localDriverLaunchIssue],
+    [primarySession, localDriverLaunchIssue],
   );
 
   const [config, setConfig] = useState<AppConfig | null>(null);
@@ -189,6 +250,61 @@ export function AppProviders({ children }: { children: ReactNode }) {
     [config, refreshConfig],
   );
 
+  useEffect(() => {
+    if (!config) {
+      return undefined;
+    }
+
+    let mounted = true;
+    const loadDevices = async () => {
+      try {
+        const nextDevices = await electronApi.nut.listDevices();
+        if (!mounted) {
+          return;
+        }
+
+        setDevices(nextDevices);
+        for (const device of nextDevices) {
+          if (device.id !== PRIMARY_UPS_ID) {
+            void bootstrapSession(device.id).catch(() => {
+              // The session may not have started yet; events will fill it in.
+            });
+          }
+        }
+      } catch {
+        // ignore device list errors
+      }
+    };
+
+    void loadDevices();
+    return () => {
+      mounted = false;
+    };
+  }, [bootstrapSession, config]);
+
+  const activeUpsId = devices.some((device) => device.id === selectedUpsId)
+    ? selectedUpsId
+    : PRIMARY_UPS_ID;
+  const selectedSession = sessions[activeUpsId] ?? EMPTY_SESSION;
+
+  const deviceValue = useMemo<UpsDeviceContextValue>(
+    () => ({
+      devices: devices.map((device) => ({
+        ...device,
+        state: sessions[device.id]?.state ?? device.state,
+      })),
+      selectedUpsId: activeUpsId,
+      selectUps: setSelectedUpsId,
+      selected: {
+        ...selectedSession,
+        upsId: activeUpsId,
+        localDriverLaunchIssue:
+          activeUpsId === PRIMARY_UPS_ID ? localDriverLaunchIssue : null,
+      },
+    }),
+    [activeUpsId, devices, localDriverLaunchIssue, selectedSession, sessions],
+  );
+
   useEffect(() => {
     if (!config?.i18n?.locale) {
       return;
@@ -233,9 +349,11 @@ export function AppProviders({ children }: { children: ReactNode }) {
   return (
     <ConnectionContext.Provider value={connectionValue}>
       <ConfigContext.Provider value={configValue}>
-        <ThemeContext.Provider value={themeValue}>
-          <I18nextProvider i18n={i18n}>{children}</I18nextProvider>
-        </ThemeContext.Provider>
+        <UpsDeviceContext.Provider value={deviceValue}>
+          <ThemeContext.Provider value={themeValue}>
+            <I18nextProvider i18n={i18n}>{children}</I18nextProvider>
+          </ThemeContext.Provider>
+        </UpsDeviceContext.Provider>
       </ConfigContext.Provider>
     </ConnectionContext.Provider>
   );
@@ -10,6 +10,8 @@ import { AppShell } from '../components/AppShell';
 import { SetupWizardPage } from '../pages/SetupWizardPage';
 import { DashboardPage } from '../pages/DashboardPage';
 import { TelemetryPage } from '../pages/TelemetryPage';
+import { EventsPage } from '../pages/EventsPage';
+import { EnergyPage } from '../pages/EnergyPage';
 import { SettingsPage } from '../pages/SettingsPage';
 import { AboutPage } from '../pages/AboutPage';
 import { ReconnectOverlay } from '../components/ReconnectOverlay';
@@ -53,6 +55,8 @@ export function AppRoutes() {
                 <Route element={<WizardGuard />}>
                     <Route path="/dashboard" element={<DashboardPage />} />
                     <Route path="/telemetry" element={<TelemetryPage />} />
+                    <Route path="/events" element={<EventsPage />} />
+                    <Route path="/energy" element={<EnergyPage />} />
                     <Route path="/settings" element={<SettingsPage />} />
                     <Route path="/about" element={<AboutPage />} />
                 </Route>
@@ -6,6 +6,8 @@ import { useConnection } from '../app/providers';
 import {
     LayoutDashboard,
     Activity,
+    History,
+    Zap,
     Settings,
     CircleHelp,
     PanelLeftClose,
@@ -18,6 +20,8 @@ import { UiButton } from './ui';
 const MAIN_NAV_ITEMS = [
     { to: '/dashboard', labelKey: 'appShell.navDashboard', icon: <LayoutDashboard size={20} /> },
     { to: '/telemetry', labelKey: 'appShell.navTelemetry', icon: <Activity size={20} /> },
+    { to: '/events', labelKey: 'appShell.navEvents', icon: <History size={20} /> },
+    { to: '/energy', labelKey: 'appShell.navEnergy', icon: <Zap size={20} /> },
     { to: '/settings', labelKey: 'appShell.navSettings', icon: <Settings size={20} /> },
 ] as const;
 
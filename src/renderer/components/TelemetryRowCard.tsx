@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import ReactECharts from 'echarts-for-react';
 import { useTranslation } from 'react-i18next';
 import { useTheme } from '../app/providers';
@@ -16,6 +16,8 @@ export type TelemetryRowCardProps = {
     maxAggregate?: number;
     windowStart?: Date;
     windowEnd?: Date;
+    /** Enables drag-to-zoom; called with the time range selected on the chart. */
+    onRangeSelect?: (startMs: number, endMs: number) => void;
 };
 
 function calculateSMA(data: { ts: Date; value: number }[], windowSize: number): { ts: Date; value: number }[] {
@@ -151,10 +153,13 @@ export function TelemetryRowCard({
     minAggregate,
     maxAggregate,
     windowStart,
-    windowEnd
+    windowEnd,
+    onRangeSelect
 }: TelemetryRowCardProps) {
     const { t } = useTranslation();
     const { resolvedTheme } = useTheme();
+    const chartRef = useRef<ReactECharts>(null);
+    const canSelectRange = Boolean(onRangeSelect);
     const isDark = resolvedTheme === 'dark';
     const colorLine = isDark ? '#10a37f' : '#059669';
     const colorArea = isDark ? 'rgba(16, 163, 127, 0.15)' : 'rgba(16, 163, 127, 0.1)';
@@ -323,6 +328,20 @@ export function TelemetryRowCard({
                 min,
                 max,
             },
+            brush: canSelectRange
+                ? {
+                    xAxisIndex: 0,
+                    brushType: 'lineX',
+                    brushMode: 'single',
+                    transformable: false,
+                    outOfBrush: { colorAlpha: 1 },
+                    brushStyle: {
+                        color: isDark ? 'rgba(16, 163, 127, 0.2)' : 'rgba(5, 150, 105, 0.15)',
+                        borderColor: colorLine,
+                        borderWidth: 1,
+                    },
+                }
+                : undefined,
             series: [
                 {
                     data: renderData.map(d => [d.ts.getTime(), d.value]),
@@ -347,7 +366,32 @@ export function TelemetryRowCard({
                 }
             ]
         };
-    }, [data, metricType, colorLine, colorArea, isDark, axisLabelColor, unit, nominalValue, applyMovingAverage, windowStart, windowEnd]);
+    }, [data, metricType, colorLine, colorArea, isDark, axisLabelColor, unit, nominalValue, applyMovingAverage, windowStart, windowEnd, canSelectRange]);
+
+    // The brush only reacts to drags once it holds the global cursor; re-arm it
+    // after every option update so it survives refreshes.
+    useEffect(() => {
+        if (!canSelectRange) {
+            return;
+        }
+
+        chartRef.current?.getEchartsInstance().dispatchAction({
+            type: 'takeGlobalCursor',
+            key: 'brush',
+            brushOption: { brushType: 'lineX', brushMode: 'single' },
+        });
+    }, [canSelectRange, chartOptions]);
+
+    const chartEvents = useMemo(() => ({
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        brushEnd: (params: any) => {
+            const range = params?.areas?.[0]?.coordRange;
+            chartRef.current?.getEchartsInstance().dispatchAction({ type: 'brush', areas: [] });
+            if (Array.isArray(range) && range.length === 2 && range[0] !== range[1]) {
+                onRangeSelect?.(Number(range[0]), Number(range[1]));
+            }
+        },
+    }), [onRangeSelect]);
 
     return (
         <div className="telemetry-row-card">
@@ -369,7 +413,9 @@ export function TelemetryRowCard({
             </div>
             <div className="telemetry-row-chart">
                 <ReactECharts
+                    ref={chartRef}
                     option={chartOptions}
+                    onEvents={chartEvents}
                     style={{ height: '78px', width: '100%' }}
                     lazyUpdate={true}
                     replaceMerge={['series']}
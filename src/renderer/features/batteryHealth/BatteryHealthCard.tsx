@@ -0,0 +1,112 @@
+import { useMemo } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { HeartPulse, TriangleAlert } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import type { BatteryHealthReport } from '../../../shared/ipc/contracts';
+
+type BatteryHealthCardProps = {
+  report: BatteryHealthReport | null;
+  loadError: string | null;
+};
+
+const HEALTHY_COLOR = '#10a37f';
+const REPLACE_COLOR = '#ef4444';
+
+export function BatteryHealthCard({ report, loadError }: BatteryHealthCardProps) {
+  const { t } = useTranslation();
+
+  const color = report?.replaceSoon ? REPLACE_COLOR : HEALTHY_COLOR;
+  const chartOptions = useMemo(() => {
+    const trend = report?.trend ?? [];
+    return {
+      animation: false,
+      tooltip: {
+        show: true,
+        trigger: 'axis',
+        axisPointer: { type: 'none' },
+        backgroundColor: 'var(--color-bg-card)',
+        borderColor: 'var(--color-border)',
+        textStyle: { color: 'var(--color-text)', fontSize: 12 },
+        padding: [4, 8],
+      },
+      grid: { top: 5, bottom: 5, left: 5, right: 5, containLabel: false },
+      xAxis: {
+        type: 'category',
+        show: false,
+        boundaryGap: false,
+        data: trend.map((point) => new Date(point.startedAtIso).toLocaleDateString()),
+      },
+      yAxis: { type: 'value', show: false, min: 0, max: 120 },
+      series: [
+        {
+          type: 'line',
+          data: trend.map((point) => point.capacityPercent),
+          symbol: 'circle',
+          symbolSize: 4,
+          lineStyle: { color, width: 2 },
+          itemStyle: { color },
+          tooltip: { valueFormatter: (value: number) => `${value}%` },
+        },
+      ],
+    };
+  }, [color, report]);
+
+  const details: string[] = [];
+  if (report) {
+    details.push(
+      report.trend.length > 0
+        ? t('batteryHealth.discharges', { count: report.trend.length })
+        : t('batteryHealth.noDischarges'),
+    );
+    if (report.ageYears !== null) {
+      details.push(t('batteryHealth.age', { years: report.ageYears }));
+    }
+  }
+
+  return (
+    <div className="sparkline-card battery-health-card">
+      <div className="sparkline-header">
+        <span className="sparkline-title">{t('batteryHealth.title')}</span>
+      </div>
+      <div className="sparkline-body">
+        <div className="sparkline-metric">
+          <span className="sparkline-icon">
+            <HeartPulse size={16} />
+          </span>
+          <span className="sparkline-value">
+            {report === null || report.capacityPercent === null
+              ? '--'
+              : Math.round(report.capacityPercent)}
+          </span>
+          <span className="sparkline-unit">%</span>
+        </div>
+        {report && report.trend.length > 1 && (
+          <div className="sparkline-chart-container">
+            <ReactECharts
+              option={chartOptions}
+              style={{ height: '100%', width: '100%' }}
+              opts={{ renderer: 'svg' }}
+              notMerge
+            />
+          </div>
+        )}
+      </div>
+      {loadError && <p className="battery-health-detail">{loadError}</p>}
+      {details.length > 0 && (
+        <p className="battery-health-detail">{details.join(' · ')}</p>
+      )}
+      {report?.replaceSoon && (
+        <p className="battery-health-warning">
+          <TriangleAlert size={14} />
+          <span>
+            {t('batteryHealth.replaceSoon', {
+              reasons: report.replaceReasons
+                .map((reason) => t(`batteryHealth.reason.${reason}`))
+                .join(', '),
+            })}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { electronApi } from '../../app/electronApi';
+import type { BatteryHealthReport } from '../../../shared/ipc/contracts';
+
+/**
+ * Loads the battery health report of one UPS. A finished discharge changes the
+ * report, so it is reloaded on every on-battery transition.
+ */
+export function useBatteryHealthReport(upsId: string, onBattery: boolean) {
+  const [report, setReport] = useState<BatteryHealthReport | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    electronApi.batteryHealth
+      .get({ upsId })
+      .then((nextReport) => {
+        if (mounted) {
+          setReport(nextReport);
+          setLoadError(null);
+        }
+      })
+      .catch((error: unknown) => {
+        if (mounted) {
+          setLoadError(error instanceof Error ? error.message : String(error));
+        }
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [onBattery, upsId]);
+
+  return { report, loadError };
+}
@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2 } from 'lucide-react';
+import type { AppConfig, AppConfigPatch } from '../../../shared/config/types';
+import {
+  ENERGY_TARIFF_MODES,
+  MAX_ENERGY_TARIFF_PERIODS,
+} from '../../../shared/energy/constants';
+import type { EnergyTariffMode, EnergyTariffPeriod } from '../../../shared/energy/types';
+import { UiButton, UiInput, UiSelect } from '../../components/ui';
+
+type EnergyTariffSettingsSectionProps = {
+  config: AppConfig;
+  onSave: (energy: NonNullable<AppConfigPatch['energy']>) => Promise<void>;
+};
+
+const MAX_RATE_PER_KWH = 1000;
+
+function isValidRate(rate: number): boolean {
+  return Number.isFinite(rate) && rate >= 0 && rate <= MAX_RATE_PER_KWH;
+}
+
+export function EnergyTariffSettingsSection({
+  config,
+  onSave,
+}: EnergyTariffSettingsSectionProps) {
+  const { t } = useTranslation();
+  const [currency, setCurrency] = useState('');
+  const [tariffMode, setTariffMode] = useState<EnergyTariffMode>('flat');
+  const [flatRate, setFlatRate] = useState(0);
+  const [periods, setPeriods] = useState<EnergyTariffPeriod[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setCurrency(config.energy.currency);
+    setTariffMode(config.energy.tariffMode);
+    setFlatRate(config.energy.flatRatePerKwh);
+    setPeriods(config.energy.timeOfUsePeriods);
+  }, [config.energy]);
+
+  const validationError = useMemo(() => {
+    if (!currency.trim()) {
+      return t('settings.energyCurrencyRequired', 'Enter a currency.');
+    }
+    if (!isValidRate(flatRate)) {
+      return t('settings.energyRateInvalid', 'Rates must be between 0 and 1000 per kWh.');
+    }
+
+    for (const period of periods) {
+      if (!isValidRate(period.ratePerKwh)) {
+        return t('settings.energyRateInvalid', 'Rates must be between 0 and 1000 per kWh.');
+      }
+      if (
+        !Number.isInteger(period.startHour) ||
+        !Number.isInteger(period.endHour) ||
+        period.startHour < 0 ||
+        period.startHour > 23 ||
+        period.endHour < 1 ||
+        period.endHour > 24
+      ) {
+        return t('settings.energyPeriodHoursInvalid', 'Period hours must run from 0 to 24.');
+      }
+      if (period.startHour === period.endHour) {
+        return t(
+          'settings.energyPeriodEmpty',
+          'A time-of-use period must start and end at different hours.',
+        );
+      }
+    }
+
+    return null;
+  }, [currency, flatRate, periods, t]);
+
+  const updatePeriod = (index: number, patch: Partial<EnergyTariffPeriod>) => {
+    setPeriods((previous) =>
+      previous.map((period, periodIndex) =>
+        periodIndex === index ? { ...period, ...patch } : period,
+      ),
+    );
+  };
+
+  const handleSave = async () => {
+    if (validationError) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        currency: currency.trim(),
+        tariffMode,
+        flatRatePerKwh: flatRate,
+        timeOfUsePeriods: periods,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="settings-section">
+      <h2 className="settings-section-title">
+        {t('settings.energy', 'Electricity Tariff')}
+      </h2>
+      <div className="settings-section-body">
+        <p className="form-hint" style={{ marginBottom: '16px' }}>
+          {t(
+            'settings.energyDescription',
+            'Used to price the energy shown on the Energy page and in the tray tooltip.',
+          )}
+        </p>
+
+        <div className="form-row--two">
+          <div className="form-group">
+            <label className="form-label" htmlFor="energy-tariff-mode">
+              {t('settings.energyTariffMode', 'Tariff')}
+            </label>
+            <UiSelect
+              id="energy-tariff-mode"
+              className="form-input"
+              value={tariffMode}
+              onChange={(event) => setTariffMode(event.target.value as EnergyTariffMode)}
+            >
+              {ENERGY_TARIFF_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {t(`settings.energyTariffModes.${mode}`)}
+                </option>
+              ))}
+            </UiSelect>
+          </div>
+          <div className="form-group">
+            <label className="form-label" htmlFor="energy-currency">
+              {t('settings.energyCurrency', 'Currency')}
+            </label>
+            <UiInput
+              id="energy-currency"
+              className="form-input"
+              value={currency}
+              maxLength={8}
+              onChange={(event) => setCurrency(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label" htmlFor="energy-flat-rate">
+            {tariffMode === 'timeOfUse'
+              ? t('settings.energyDefaultRate', 'Rate outside the periods (per kWh)')
+              : t('settings.energyFlatRate', 'Rate (per kWh)')}
+          </label>
+          <UiInput
+            id="energy-flat-rate"
+            className="form-input"
+            type="number"
+            min={0}
+            max={MAX_RATE_PER_KWH}
+            step={0.01}
+            value={flatRate}
+            onChange={(event) => setFlatRate(Number(event.target.value))}
+          />
+        </div>
+
+        {tariffMode === 'timeOfUse' && (
+          <>
+            <p className="form-hint">
+              {t(
+                'settings.energyPeriodsHint',
+                'Hours are local time. A period that ends before it starts runs past midnight; the first matching period wins.',
+              )}
+            </p>
+            {periods.map((period, index) => (
+              <div key={index} className="energy-tariff-period">
+                <div className="form-group">
+                  <label className="form-label" htmlFor={`energy-period-${index}-start`}>
+                    {t('settings.energyPeriodStart', 'From hour')}
+                  </label>
+                  <UiInput
+                    id={`energy-period-${index}-start`}
+                    className="form-input"
+                    type="number"
+                    min={0}
+                    max={23}
+                    value={period.startHour}
+                    onChange={(event) =>
+                      updatePeriod(index, { startHour: Number(event.target.value) })
+                    }
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label" htmlFor={`energy-period-${index}-end`}>
+                    {t('settings.energyPeriodEnd', 'To hour')}
+                  </label>
+                  <UiInput
+                    id={`energy-period-${index}-end`}
+                    className="form-input"
+                    type="number"
+                    min={1}
+                    max={24}
+                    value={period.endHour}
+                    onChange={(event) =>
+                      updatePeriod(index, { endHour: Number(event.target.value) })
+                    }
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label" htmlFor={`energy-period-${index}-rate`}>
+                    {t('settings.energyPeriodRate', 'Rate (per kWh)')}
+                  </label>
+                  <UiInput
+                    id={`energy-period-${index}-rate`}
+                    className="form-input"
+                    type="number"
+                    min={0}
+                    max={MAX_RATE_PER_KWH}
+                    step={0.01}
+                    value={period.ratePerKwh}
+                    onChange={(event) =>
+                      updatePeriod(index, { ratePerKwh: Number(event.target.value) })
+                    }
+                  />
+                </div>
+                <UiButton
+                  type="button"
+                  className="policy-icon-btn"
+                  aria-label={t('settings.energyPeriodRemove', 'Remove period')}
+                  onClick={() =>
+                    setPeriods((previous) =>
+                      previous.filter((_, periodIndex) => periodIndex !== index),
+                    )
+                  }
+                >
+                  <Trash2 size={14} />
+                </UiButton>
+              </div>
+            ))}
+          </>
+        )}
+
+        {validationError && <p className="ups-target-error">{validationError}</p>}
+
+        <div className="policy-actions">
+          {tariffMode === 'timeOfUse' && (
+            <UiButton
+              type="button"
+              className="btn btn--secondary"
+              onClick={() =>
+                setPeriods((previous) => [
+                  ...previous,
+                  { startHour: 0, endHour: 24, ratePerKwh: flatRate },
+                ])
+              }
+              disabled={periods.length >= MAX_ENERGY_TARIFF_PERIODS}
+            >
+              <Plus size={16} />
+              {t('settings.energyPeriodAdd', 'Add period')}
+            </UiButton>
+          )}
+          <UiButton
+            type="button"
+            className="btn btn--primary"
+            onClick={() => {
+              void handleSave();
+            }}
+            disabled={saving || validationError !== null}
+          >
+            {t('settings.energySave', 'Save tariff')}
+          </UiButton>
+        </div>
+      </div>
+    </section>
+  );
+}
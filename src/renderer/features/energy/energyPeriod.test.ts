@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatEnergyBucketLabel,
+  getEnergyPeriodRange,
+  shiftEnergyPeriod,
+} from './energyPeriod';
+
+const ANCHOR = new Date(2026, 4, 14, 15, 30);
+
+describe('getEnergyPeriodRange()', () => {
+  it('covers the local day, month or year around the anchor', () => {
+    expect(getEnergyPeriodRange('hour', ANCHOR)).toEqual({
+      start: new Date(2026, 4, 14),
+      end: new Date(2026, 4, 15),
+    });
+    expect(getEnergyPeriodRange('day', ANCHOR)).toEqual({
+      start: new Date(2026, 4, 1),
+      end: new Date(2026, 5, 1),
+    });
+    expect(getEnergyPeriodRange('month', ANCHOR)).toEqual({
+      start: new Date(2026, 0, 1),
+      end: new Date(2027, 0, 1),
+    });
+  });
+});
+
+describe('shiftEnergyPeriod()', () => {
+  it('moves by whole periods across month and year boundaries', () => {
+    expect(shiftEnergyPeriod('hour', new Date(2026, 0, 31, 8), 1)).toEqual(new Date(2026, 1, 1));
+    expect(shiftEnergyPeriod('day', new Date(2026, 0, 31), -1)).toEqual(new Date(2025, 11, 1));
+    expect(shiftEnergyPeriod('month', ANCHOR, 1)).toEqual(new Date(2027, 0, 1));
+  });
+});
+
+describe('formatEnergyBucketLabel()', () => {
+  it('labels hours and days by their local start', () => {
+    expect(formatEnergyBucketLabel('hour', new Date(2026, 4, 14, 7).toISOString())).toBe('07:00');
+    expect(formatEnergyBucketLabel('day', new Date(2026, 4, 9).toISOString())).toBe('9');
+  });
+});
@@ -0,0 +1,76 @@
+import type { EnergyGranularity } from '../../../shared/energy/types';
+
+/**
+ * Each granularity shows one enclosing local calendar period: the hours of a
+ * day, the days of a month or the months of a year.
+ */
+export function getEnergyPeriodRange(
+  granularity: EnergyGranularity,
+  anchor: Date,
+): { start: Date; end: Date } {
+  const year = anchor.getFullYear();
+  const month = anchor.getMonth();
+  switch (granularity) {
+    case 'hour':
+      return {
+        start: new Date(year, month, anchor.getDate()),
+        end: new Date(year, month, anchor.getDate() + 1),
+      };
+    case 'day':
+      return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+    case 'month':
+      return { start: new Date(year, 0, 1), end: new Date(year + 1, 0, 1) };
+  }
+}
+
+/** Moves the anchor by whole periods; the result is always the start of a period. */
+export function shiftEnergyPeriod(
+  granularity: EnergyGranularity,
+  anchor: Date,
+  delta: number,
+): Date {
+  const { start } = getEnergyPeriodRange(granularity, anchor);
+  switch (granularity) {
+    case 'hour':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + delta);
+    case 'day':
+      return new Date(start.getFullYear(), start.getMonth() + delta, 1);
+    case 'month':
+      return new Date(start.getFullYear() + delta, 0, 1);
+  }
+}
+
+export function formatEnergyPeriodLabel(
+  granularity: EnergyGranularity,
+  anchor: Date,
+  locale?: string,
+): string {
+  switch (granularity) {
+    case 'hour':
+      return anchor.toLocaleDateString(locale, {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      });
+    case 'day':
+      return anchor.toLocaleDateString(locale, { year: 'numeric', month: 'long' });
+    case 'month':
+      return String(anchor.getFullYear());
+  }
+}
+
+export function formatEnergyBucketLabel(
+  granularity: EnergyGranularity,
+  startIso: string,
+  locale?: string,
+): string {
+  const start = new Date(startIso);
+  switch (granularity) {
+    case 'hour':
+      return `${String(start.getHours()).padStart(2, '0')}:00`;
+    case 'day':
+      return String(start.getDate());
+    case 'month':
+      return start.toLocaleDateString(locale, { month: 'short' });
+  }
+}
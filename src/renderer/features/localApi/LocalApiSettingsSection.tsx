@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { AppConfig, AppConfigPatch } from '../../../shared/config/types';
+import { UiButton, UiCheckbox, UiInput } from '../../components/ui';
+
+type LocalApiSettingsSectionProps = {
+  config: AppConfig;
+  onSave: (localApi: NonNullable<AppConfigPatch['localApi']>) => Promise<void>;
+};
+
+const MIN_TOKEN_LENGTH = 16;
+
+function generateToken(): string {
+  const bytes = new Uint8Array(24);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function LocalApiSettingsSection({ config, onSave }: LocalApiSettingsSectionProps) {
+  const { t } = useTranslation();
+  const [enabled, setEnabled] = useState(false);
+  const [port, setPort] = useState(0);
+  const [token, setToken] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEnabled(config.localApi.enabled);
+    setPort(config.localApi.port);
+    setToken(config.localApi.token);
+  }, [config.localApi]);
+
+  const validationError = useMemo(() => {
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      return t('settings.localApiPortInvalid', 'The port must be between 1 and 65535.');
+    }
+    if (enabled && token.trim().length < MIN_TOKEN_LENGTH) {
+      return t('settings.localApiTokenTooShort', {
+        defaultValue: 'The token must be at least {{count}} characters.',
+        count: MIN_TOKEN_LENGTH,
+      });
+    }
+
+    return null;
+  }, [enabled, port, t, token]);
+
+  const handleSave = async () => {
+    if (validationError) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({ enabled, port, token: token.trim() });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="settings-section">
+      <h2 className="settings-section-title">{t('settings.localApi', 'Local API')}</h2>
+      <div className="settings-section-body">
+        <p className="form-hint" style={{ marginBottom: '16px' }}>
+          {t(
+            'settings.localApiDescription',
+            'Serves UPS state, telemetry and the decision log as JSON on 127.0.0.1, with a WebSocket stream of live updates. Other programs on this computer can use it with the token.',
+          )}
+        </p>
+
+        <label className="form-toggle">
+          <UiCheckbox
+            checked={enabled}
+            onChange={(event) => setEnabled(event.target.checked)}
+          />
+          <span className="form-toggle-label">
+            {t('settings.localApiEnabled', 'Enable the local API')}
+          </span>
+        </label>
+
+        <div className="form-group form-group--port">
+          <label className="form-label" htmlFor="local-api-port">
+            {t('settings.localApiPort', 'Port')}
+          </label>
+          <UiInput
+            id="local-api-port"
+            className="form-input"
+            type="number"
+            min={1}
+            max={65535}
+            value={port}
+            onChange={(event) => setPort(Number(event.target.value))}
+          />
+        </div>
+
+        <div className="form-group">
+          <label className="form-label" htmlFor="local-api-token">
+            {t('settings.localApiToken', 'Access token')}
+          </label>
+          <div className="form-row">
+            <UiInput
+              id="local-api-token"
+              className="form-input"
+              style={{ flex: 1 }}
+              autoComplete="off"
+              maxLength={256}
+              value={token}
+              onChange={(event) => setToken(event.target.value)}
+            />
+            <UiButton
+              type="button"
+              className="btn btn--secondary"
+              onClick={() => setToken(generateToken())}
+            >
+              {t('settings.localApiGenerateToken', 'Generate')}
+            </UiButton>
+          </div>
+          <span className="form-hint">
+            {t('settings.localApiTokenHint', {
+              defaultValue:
+                'Send "Authorization: Bearer <token>", e.g. GET http://127.0.0.1:{{port}}/api/v1/state. The stream at /api/v1/stream also accepts ?token=.',
+              port,
+            })}
+          </span>
+        </div>
+
+        {validationError && <p className="ups-target-error">{validationError}</p>}
+
+        <div className="policy-actions">
+          <UiButton
+            type="button"
+            className="btn btn--primary"
+            onClick={() => {
+              void handleSave();
+            }}
+            disabled={saving || validationError !== null}
+          >
+            {t('settings.localApiSave', 'Save API')}
+          </UiButton>
+        </div>
+      </div>
+    </section>
+  );
+}
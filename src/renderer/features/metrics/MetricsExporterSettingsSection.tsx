@@ -0,0 +1,160 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { AppConfig, AppConfigPatch } from '../../../shared/config/types';
+import { UiButton, UiCheckbox, UiInput } from '../../components/ui';
+
+type MetricsExporterSettingsSectionProps = {
+  config: AppConfig;
+  onSave: (metrics: NonNullable<AppConfigPatch['metrics']>) => Promise<void>;
+};
+
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', 'localhost']);
+
+export function MetricsExporterSettingsSection({
+  config,
+  onSave,
+}: MetricsExporterSettingsSectionProps) {
+  const { t } = useTranslation();
+  const [enabled, setEnabled] = useState(false);
+  const [bindAddress, setBindAddress] = useState('');
+  const [port, setPort] = useState(0);
+  const [bearerToken, setBearerToken] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEnabled(config.metrics.enabled);
+    setBindAddress(config.metrics.bindAddress);
+    setPort(config.metrics.port);
+    setBearerToken(config.metrics.bearerToken);
+  }, [config.metrics]);
+
+  const validationError = useMemo(() => {
+    if (!bindAddress.trim()) {
+      return t('settings.metricsBindAddressRequired', 'Enter the address to listen on.');
+    }
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      return t('settings.metricsPortInvalid', 'The port must be between 1 and 65535.');
+    }
+
+    return null;
+  }, [bindAddress, port, t]);
+
+  const exposedWithoutToken =
+    enabled && !bearerToken.trim() && !LOOPBACK_ADDRESSES.has(bindAddress.trim());
+
+  const handleSave = async () => {
+    if (validationError) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        enabled,
+        bindAddress: bindAddress.trim(),
+        port,
+        bearerToken: bearerToken.trim(),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="settings-section">
+      <h2 className="settings-section-title">
+        {t('settings.metrics', 'Prometheus Exporter')}
+      </h2>
+      <div className="settings-section-body">
+        <p className="form-hint" style={{ marginBottom: '16px' }}>
+          {t(
+            'settings.metricsDescription',
+            'Serves the latest readings, status flags, countdown state and rule counters at /metrics for Prometheus to scrape.',
+          )}
+        </p>
+
+        <label className="form-toggle">
+          <UiCheckbox
+            checked={enabled}
+            onChange={(event) => setEnabled(event.target.checked)}
+          />
+          <span className="form-toggle-label">
+            {t('settings.metricsEnabled', 'Enable the /metrics endpoint')}
+          </span>
+        </label>
+
+        <div className="form-row">
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label" htmlFor="metrics-bind-address">
+              {t('settings.metricsBindAddress', 'Bind address')}
+            </label>
+            <UiInput
+              id="metrics-bind-address"
+              className="form-input"
+              value={bindAddress}
+              onChange={(event) => setBindAddress(event.target.value)}
+            />
+          </div>
+          <div className="form-group form-group--port">
+            <label className="form-label" htmlFor="metrics-port">
+              {t('settings.metricsPort', 'Port')}
+            </label>
+            <UiInput
+              id="metrics-port"
+              className="form-input"
+              type="number"
+              min={1}
+              max={65535}
+              value={port}
+              onChange={(event) => setPort(Number(event.target.value))}
+            />
+          </div>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label" htmlFor="metrics-bearer-token">
+            {t('settings.metricsBearerToken', 'Bearer token (optional)')}
+          </label>
+          <UiInput
+            id="metrics-bearer-token"
+            className="form-input"
+            type="password"
+            autoComplete="off"
+            maxLength={256}
+            value={bearerToken}
+            onChange={(event) => setBearerToken(event.target.value)}
+          />
+          <span className="form-hint">
+            {t(
+              'settings.metricsBearerTokenHint',
+              'When set, scrapes must send "Authorization: Bearer <token>".',
+            )}
+          </span>
+        </div>
+
+        {exposedWithoutToken && (
+          <p className="form-hint">
+            {t(
+              'settings.metricsExposedWarning',
+              'The endpoint will be reachable from other machines without a token.',
+            )}
+          </p>
+        )}
+        {validationError && <p className="ups-target-error">{validationError}</p>}
+
+        <div className="policy-actions">
+          <UiButton
+            type="button"
+            className="btn btn--primary"
+            onClick={() => {
+              void handleSave();
+            }}
+            disabled={saving || validationError !== null}
+          >
+            {t('settings.metricsSave', 'Save exporter')}
+          </UiButton>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { AppConfig, AppConfigPatch } from '../../../shared/config/types';
+import { UiButton, UiCheckbox, UiInput } from '../../components/ui';
+
+type MqttSettingsSectionProps = {
+  config: AppConfig;
+  onSave: (mqtt: NonNullable<AppConfigPatch['mqtt']>) => Promise<void>;
+};
+
+function isValidTopic(topic: string): boolean {
+  return topic.length > 0 && !/[#+]/.test(topic) && !topic.startsWith('/') && !topic.endsWith('/');
+}
+
+export function MqttSettingsSection({ config, onSave }: MqttSettingsSectionProps) {
+  const { t } = useTranslation();
+  const [enabled, setEnabled] = useState(false);
+  const [host, setHost] = useState('');
+  const [port, setPort] = useState(0);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [topicPrefix, setTopicPrefix] = useState('');
+  const [discoveryEnabled, setDiscoveryEnabled] = useState(false);
+  const [discoveryPrefix, setDiscoveryPrefix] = useState('');
+  const [retain, setRetain] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEnabled(config.mqtt.enabled);
+    setHost(config.mqtt.host);
+    setPort(config.mqtt.port);
+    setUsername(config.mqtt.username);
+    setPassword(config.mqtt.password);
+    setClientId(config.mqtt.clientId);
+    setTopicPrefix(config.mqtt.topicPrefix);
+    setDiscoveryEnabled(config.mqtt.discoveryEnabled);
+    setDiscoveryPrefix(config.mqtt.discoveryPrefix);
+    setRetain(config.mqtt.retain);
+  }, [config.mqtt]);
+
+  const validationError = useMemo(() => {
+    if (!host.trim()) {
+      return t('settings.mqttHostRequired', 'Enter the broker host.');
+    }
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      return t('settings.mqttPortInvalid', 'The port must be between 1 and 65535.');
+    }
+    if (!clientId.trim()) {
+      return t('settings.mqttClientIdRequired', 'Enter a client ID.');
+    }
+    if (!isValidTopic(topicPrefix.trim()) || !isValidTopic(discoveryPrefix.trim())) {
+      return t(
+        'settings.mqttTopicInvalid',
+        'Topics must not be empty, contain + or #, or start or end with /.',
+      );
+    }
+
+    return null;
+  }, [clientId, discoveryPrefix, host, port, t, topicPrefix]);
+
+  const handleSave = async () => {
+    if (validationError) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        enabled,
+        host: host.trim(),
+        port,
+        username,
+        password,
+        clientId: clientId.trim(),
+        topicPrefix: topicPrefix.trim(),
+        discoveryEnabled,
+        discoveryPrefix: discoveryPrefix.trim(),
+        retain,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const prefix = topicPrefix.trim() || 'easyups';
+
+  return (
+    <section className="settings-section">
+      <h2 className="settings-section-title">{t('settings.mqtt', 'MQTT')}</h2>
+      <div className="settings-section-body">
+        <p className="form-hint" style={{ marginBottom: '16px' }}>
+          {t(
+            'settings.mqttDescription',
+            'Publishes readings, the UPS status and shutdown countdown events to an MQTT broker, with Home Assistant discovery.',
+          )}
+        </p>
+
+        <label className="form-toggle">
+          <UiCheckbox
+            checked={enabled}
+            onChange={(event) => setEnabled(event.target.checked)}
+          />
+          <span className="form-toggle-label">
+            {t('settings.mqttEnabled', 'Publish to an MQTT broker')}
+          </span>
+        </label>
+
+        <div className="form-row">
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label" htmlFor="mqtt-host">
+              {t('settings.mqttHost', 'Broker host')}
+            </label>
+            <UiInput
+              id="mqtt-host"
+              className="form-input"
+              value={host}
+              onChange={(event) => setHost(event.target.value)}
+            />
+          </div>
+          <div className="form-group form-group--port">
+            <label className="form-label" htmlFor="mqtt-port">
+              {t('settings.mqttPort', 'Port')}
+            </label>
+            <UiInput
+              id="mqtt-port"
+              className="form-input"
+              type="number"
+              min={1}
+              max={65535}
+              value={port}
+              onChange={(event) => setPort(Number(event.target.value))}
+            />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label" htmlFor="mqtt-username">
+              {t('settings.mqttUsername', 'Username (optional)')}
+            </label>
+            <UiInput
+              id="mqtt-username"
+              className="form-input"
+              autoComplete="off"
+              maxLength={256}
+              value={username}
+              onChange={(event) => setUsername(event.target.value)}
+            />
+          </div>
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label" htmlFor="mqtt-password">
+              {t('settings.mqttPassword', 'Password (optional)')}
+            </label>
+            <UiInput
+              id="mqtt-password"
+              className="form-input"
+              type="password"
+              autoComplete="off"
+              maxLength={256}
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label" htmlFor="mqtt-client-id">
+              {t('settings.mqttClientId', 'Client ID')}
+            </label>
+            <UiInput
+              id="mqtt-client-id"
+              className="form-input"
+              maxLength={64}
+              value={clientId}
+              onChange={(event) => setClientId(event.target.value)}
+            />
+          </div>
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label" htmlFor="mqtt-topic-prefix">
+              {t('settings.mqttTopicPrefix', 'Topic prefix')}
+            </label>
+            <UiInput
+              id="mqtt-topic-prefix"
+              className="form-input"
+              maxLength={128}
+              value={topicPrefix}
+              onChange={(event) => setTopicPrefix(event.target.value)}
+            />
+          </div>
+        </div>
+        <p className="form-hint">
+          {t('settings.mqttTopicsHint', {
+            defaultValue:
+              'Readings go to {{prefix}}/<field>. Send "cancel_countdown" to {{prefix}}/command to cancel a shutdown countdown.',
+            prefix,
+          })}
+        </p>
+
+        <label className="form-toggle">
+          <UiCheckbox
+            checked={retain}
+            onChange={(event) => setRetain(event.target.checked)}
+          />
+          <span className="form-toggle-label">
+            {t('settings.mqttRetain', 'Retain state messages')}
+          </span>
+        </label>
+
+        <label className="form-toggle">
+          <UiCheckbox
+            checked={discoveryEnabled}
+            onChange={(event) => setDiscoveryEnabled(event.target.checked)}
+          />
+          <span className="form-toggle-label">
+            {t('settings.mqttDiscoveryEnabled', 'Home Assistant discovery')}
+          </span>
+        </label>
+
+        {discoveryEnabled && (
+          <div className="form-group">
+            <label className="form-label" htmlFor="mqtt-discovery-prefix">
+              {t('settings.mqttDiscoveryPrefix', 'Discovery prefix')}
+            </label>
+            <UiInput
+              id="mqtt-discovery-prefix"
+              className="form-input"
+              maxLength={128}
+              value={discoveryPrefix}
+              onChange={(event) => setDiscoveryPrefix(event.target.value)}
+            />
+          </div>
+        )}
+
+        {validationError && <p className="ups-target-error">{validationError}</p>}
+
+        <div className="policy-actions">
+          <UiButton
+            type="button"
+            className="btn btn--primary"
+            onClick={() => {
+              void handleSave();
+            }}
+            disabled={saving || validationError !== null}
+          >
+            {t('settings.mqttSave', 'Save MQTT')}
+          </UiButton>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { AppConfig, AppConfigPatch } from '../../../shared/config/types';
+import { UiButton, UiCheckbox, UiInput } from '../../components/ui';
+
+type NutServerSettingsSectionProps = {
+  config: AppConfig;
+  onSave: (nutServer: NonNullable<AppConfigPatch['nutServer']>) => Promise<void>;
+};
+
+function isValidIdentifier(value: string): boolean {
+  return /^[A-Za-z0-9._-]{1,64}$/.test(value);
+}
+
+export function NutServerSettingsSection({ config, onSave }: NutServerSettingsSectionProps) {
+  const { t } = useTranslation();
+  const [enabled, setEnabled] = useState(false);
+  const [bindAddress, setBindAddress] = useState('');
+  const [port, setPort] = useState(0);
+  const [upsName, setUpsName] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEnabled(config.nutServer.enabled);
+    setBindAddress(config.nutServer.bindAddress);
+    setPort(config.nutServer.port);
+    setUpsName(config.nutServer.upsName);
+    setUsername(config.nutServer.username);
+    setPassword(config.nutServer.password);
+  }, [config.nutServer]);
+
+  const validationError = useMemo(() => {
+    if (!bindAddress.trim()) {
+      return t('settings.nutServerBindAddressRequired', 'Enter the address to listen on.');
+    }
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      return t('settings.nutServerPortInvalid', 'The port must be between 1 and 65535.');
+    }
+    if (!isValidIdentifier(upsName.trim()) || !isValidIdentifier(username.trim())) {
+      return t(
+        'settings.nutServerIdentifierInvalid',
+        'The UPS name and username may only contain letters, digits, dots, dashes and underscores.',
+      );
+    }
+    if (enabled && !password) {
+      return t(
+        'settings.nutServerPasswordRequired',
+        'Set a password so secondaries can log in.',
+      );
+    }
+
+    return null;
+  }, [bindAddress, enabled, password, port, t, upsName, username]);
+
+  const handleSave = async () => {
+    if (validationError) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        enabled,
+        bindAddress: bindAddress.trim(),
+        port,
+        upsName: upsName.trim(),
+        username: username.trim(),
+        password,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="settings-section">
+      <h2 className="settings-section-title">{t('settings.nutServer', 'NUT Server')}</h2>
+      <div className="settings-section-body">
+        <p className="form-hint" style={{ marginBottom: '16px' }}>
+          {t(
+            'settings.nutServerDescription',
+            'Shares the primary UPS with other machines over the NUT protocol. When this computer commits to shutting down, logged-in secondaries see FSD and shut down too.',
+          )}
+        </p>
+
+        <label className="form-toggle">
+          <UiCheckbox
+            checked={enabled}
+            onChange={(event) => setEnabled(event.target.checked)}
+          />
+          <span className="form-toggle-label">
+            {t('settings.nutServerEnabled', 'Act as a NUT server')}
+          </span>
+        </label>
+
+        <div className="form-row">
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label" htmlFor="nut-server-bind-address">
+              {t('settings.nutServerBindAddress', 'Bind address')}
+            </label>
+            <UiInput
+              id="nut-server-bind-address"
+              className="form-input"
+              value={bindAddress}
+              onChange={(event) => setBindAddress(event.target.value)}
+            />
+          </div>
+          <div className="form-group form-group--port">
+            <label className="form-label" htmlFor="nut-server-port">
+              {t('settings.nutServerPort', 'Port')}
+            </label>
+            <UiInput
+              id="nut-server-port"
+              className="form-input"
+              type="number"
+              min={1}
+              max={65535}
+              value={port}
+              onChange={(event) => setPort(Number(event.target.value))}
+            />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label" htmlFor="nut-server-ups-name">
+              {t('settings.nutServerUpsName', 'Served UPS name')}
+            </label>
+            <UiInput
+              id="nut-server-ups-name"
+              className="form-input"
+              maxLength={64}
+              value={upsName}
+              onChange={(event) => setUpsName(event.target.value)}
+            />
+          </div>
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label" htmlFor="nut-server-username">
+              {t('settings.nutServerUsername', 'Username')}
+            </label>
+            <UiInput
+              id="nut-server-username"
+              className="form-input"
+              autoComplete="off"
+              maxLength={64}
+              value={username}
+              onChange={(event) => setUsername(event.target.value)}
+            />
+          </div>
+          <div className="form-group" style={{ flex: 1 }}>
+            <label className="form-label" htmlFor="nut-server-password">
+              {t('settings.nutServerPassword', 'Password')}
+            </label>
+            <UiInput
+              id="nut-server-password"
+              className="form-input"
+              type="password"
+              autoComplete="off"
+              maxLength={256}
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+            />
+          </div>
+        </div>
+        <p className="form-hint">
+          {t('settings.nutServerMonitorHint', {
+            defaultValue:
+              'On each secondary, add to upsmon.conf: MONITOR {{upsName}}@<this computer>:{{port}} 1 {{username}} <password> secondary',
+            upsName: upsName.trim() || 'ups',
+            port,
+            username: username.trim() || 'upsmon',
+          })}
+        </p>
+
+        {validationError && <p className="ups-target-error">{validationError}</p>}
+
+        <div className="policy-actions">
+          <UiButton
+            type="button"
+            className="btn btn--primary"
+            onClick={() => {
+              void handleSave();
+            }}
+            disabled={saving || validationError !== null}
+          >
+            {t('settings.nutServerSave', 'Save NUT server')}
+          </UiButton>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { TFunction } from 'i18next';
+import { useTranslation } from 'react-i18next';
+import { electronApi } from '../../app/electronApi';
+import type { NutWritableVariable } from '../../../shared/ipc/contracts';
+import {
+  validateWritableValue,
+  type NutWritableValueIssue,
+} from '../../../shared/nut/writableVariables';
+import {
+  UiButton,
+  UiDialog,
+  UiDialogPanel,
+  UiDialogTitle,
+  UiInput,
+  UiSelect,
+} from '../../components/ui';
+
+type NutVariableEditorDialogProps = {
+  fieldName: string | null;
+  upsId?: string;
+  onClose: () => void;
+};
+
+type SaveFeedback = {
+  type: 'success' | 'error' | 'info';
+  text: string;
+};
+
+export function NutVariableEditorDialog({
+  fieldName,
+  upsId,
+  onClose,
+}: NutVariableEditorDialogProps) {
+  const { t } = useTranslation();
+  const [variable, setVariable] = useState<NutWritableVariable | null>(null);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [feedback, setFeedback] = useState<SaveFeedback | null>(null);
+
+  useEffect(() => {
+    if (!fieldName) {
+      return undefined;
+    }
+
+    let mounted = true;
+    setVariable(null);
+    setDraft('');
+    setFeedback(null);
+    setLoadError(null);
+    setLoading(true);
+
+    const loadVariable = async () => {
+      try {
+        const match = await electronApi.nut.getWritableVariable({ upsId, name: fieldName });
+        if (!mounted) {
+          return;
+        }
+
+        if (!match) {
+          setLoadError(
+            t('dashboard.variableNotWritable', '{{name}} is not writable on this UPS.', {
+              name: fieldName,
+            }),
+          );
+          return;
+        }
+
+        setVariable(match);
+        setDraft(match.value);
+      } catch (error) {
+        if (mounted) {
+          setLoadError(error instanceof Error ? error.message : String(error));
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void loadVariable();
+    return () => {
+      mounted = false;
+    };
+  }, [fieldName, t, upsId]);
+
+  const issue = useMemo(
+    () => (variable ? validateWritableValue(variable, draft) : null),
+    [draft, variable],
+  );
+  const changed = variable !== null && draft !== variable.value;
+
+  const handleApply = async () => {
+    if (!variable || issue || !changed) {
+      return;
+    }
+
+    setSaving(true);
+    setFeedback(null);
+    try {
+      const result = await electronApi.nut.setVariable({
+        upsId,
+        name: variable.name,
+        value: draft,
+      });
+
+      if (!result.success) {
+        setFeedback({
+          type: 'error',
+          text: result.error
+            ? t('dashboard.variableSaveFailedWithReason', 'Update failed: {{reason}}', {
+              reason: result.error,
+            })
+            : t('dashboard.variableSaveFailed', 'Update failed.'),
+        });
+        return;
+      }
+
+      const nextValue = result.currentValue ?? draft;
+      setVariable({ ...variable, value: nextValue });
+      setDraft(nextValue);
+      setFeedback(
+        result.status === 'success'
+          ? {
+            type: 'success',
+            text: t('dashboard.variableSaved', 'Value updated.'),
+          }
+          : {
+            type: 'info',
+            text: t(
+              'dashboard.variableSaveSent',
+              'Update sent. The driver has not confirmed the new value yet.',
+            ),
+          },
+      );
+    } catch (error) {
+      setFeedback({
+        type: 'error',
+        text: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <UiDialog
+      as="div"
+      open={fieldName !== null}
+      onClose={onClose}
+      className="dashboard-dialog-layer"
+    >
+      <UiDialogPanel className="dashboard-dialog-card">
+        <UiDialogTitle as="h3" className="dashboard-dialog-title">
+          {t('dashboard.variableEditTitle', 'Edit {{name}}', { name: fieldName ?? '' })}
+        </UiDialogTitle>
+
+        {loading && (
+          <p className="dashboard-dialog-body">
+            {t('dashboard.variableLoading', 'Loading variable details...')}
+          </p>
+        )}
+
+        {loadError && (
+          <p className="ups-commands-feedback ups-commands-feedback--error" role="alert">
+            {loadError}
+          </p>
+        )}
+
+        {variable && (
+          <div className="nut-variable-editor">
+            <label className="form-label" htmlFor="nut-variable-editor-value">
+              {t('dashboard.variableNewValue', 'New value')}
+              {describeConstraint(variable, t) && (
+                <span className="form-hint"> ({describeConstraint(variable, t)})</span>
+              )}
+            </label>
+            {variable.kind === 'enum' && (variable.enumValues?.length ?? 0) > 0 ? (
+              <UiSelect
+                id="nut-variable-editor-value"
+                className="telemetry-select"
+                value={draft}
+                onChange={(event) => setDraft(event.target.value)}
+                disabled={saving}
+              >
+                {!variable.enumValues?.includes(variable.value) && (
+                  <option value={variable.value}>{variable.value}</option>
+                )}
+                {variable.enumValues?.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </UiSelect>
+            ) : (
+              <UiInput
+                id="nut-variable-editor-value"
+                className="form-input"
+                type={variable.kind === 'range' || variable.kind === 'number' ? 'number' : 'text'}
+                value={draft}
+                maxLength={variable.maxLength}
+                onChange={(event) => setDraft(event.target.value)}
+                disabled={saving}
+              />
+            )}
+
+            {issue && (
+              <span className="ups-commands-feedback ups-commands-feedback--error">
+                {describeIssue(issue, t)}
+              </span>
+            )}
+
+            {changed && (
+              <div className="nut-variable-diff">
+                <span className="nut-variable-diff-label">
+                  {t('dashboard.variableBefore', 'Before')}
+                </span>
+                <span className="nut-variable-diff-before">{variable.value || '""'}</span>
+                <span className="nut-variable-diff-label">
+                  {t('dashboard.variableAfter', 'After')}
+                </span>
+                <span className="nut-variable-diff-after">{draft || '""'}</span>
+              </div>
+            )}
+
+            {feedback && (
+              <span className={`ups-commands-feedback ups-commands-feedback--${feedback.type}`}>
+                {feedback.text}
+              </span>
+            )}
+          </div>
+        )}
+
+        <div className="dashboard-dialog-actions">
+          <UiButton type="button" className="btn btn--secondary" onClick={onClose}>
+            {t('dashboard.variableClose', 'Close')}
+          </UiButton>
+          <UiButton
+            type="button"
+            className="btn btn--primary"
+            onClick={() => {
+              void handleApply();
+            }}
+            disabled={!variable || !changed || issue !== null || saving}
+          >
+            {saving
+              ? t('dashboard.variableSaving', 'Applying...')
+              : t('dashboard.variableApply', 'Apply')}
+          </UiButton>
+        </div>
+      </UiDialogPanel>
+    </UiDialog>
+  );
+}
+
+function describeConstraint(variable: NutWritableVariable, t: TFunction): string | null {
+  if (variable.kind === 'range' && variable.ranges && variable.ranges.length > 0) {
+    return variable.ranges.map((range) => `${range.min}–${range.max}`).join(', ');
+  }
+
+  if (variable.kind === 'number') {
+    return t('dashboard.variableConstraintNumber', 'number');
+  }
+
+  if (variable.maxLength !== undefined) {
+    return t('dashboard.variableConstraintMaxLength', 'max {{count}} characters', {
+      count: variable.maxLength,
+    });
+  }
+
+  return null;
+}
+
+function describeIssue(issue: NutWritableValueIssue, t: TFunction): string {
+  if (issue === 'empty') return t('dashboard.variableIssueEmpty', 'A value is required.');
+  if (issue === 'notInEnum') {
+    return t('dashboard.variableIssueNotInEnum', 'Choose one of the values reported by the UPS.');
+  }
+  if (issue === 'notNumeric') return t('dashboard.variableIssueNotNumeric', 'Enter a number.');
+  if (issue === 'outOfRange') {
+    return t('dashboard.variableIssueOutOfRange', 'The value is outside the allowed range.');
+  }
+  return t('dashboard.variableIssueTooLong', 'The value is too long.');
+}
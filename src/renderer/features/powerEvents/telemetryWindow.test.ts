@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { PowerEvent } from '../../../shared/powerEvents/types';
+import {
+  buildTelemetryWindowLink,
+  formatEventDuration,
+  getMonthRange,
+  parseTelemetryWindowSearchParams,
+} from './telemetryWindow';
+
+const event: PowerEvent = {
+  id: 'event-1',
+  upsId: 'rack-2',
+  kind: 'onBattery',
+  startedAtIso: '2026-05-14T12:00:00.000Z',
+  endedAtIso: '2026-05-14T14:00:00.000Z',
+  durationSeconds: 7200,
+  batteryChargeAtStartPercent: 100,
+  minBatteryChargePercent: 40,
+  energyWh: 300,
+};
+
+describe('buildTelemetryWindowLink()', () => {
+  it('pads the event by a quarter of its duration and round-trips through the parser', () => {
+    const link = buildTelemetryWindowLink(event, Date.parse('2026-05-15T00:00:00.000Z'));
+    const params = new URLSearchParams(link.split('?')[1]);
+
+    expect(link.startsWith('/telemetry?')).toBe(true);
+    expect(parseTelemetryWindowSearchParams(params)).toEqual({
+      upsId: 'rack-2',
+      start: new Date('2026-05-14T11:30:00.000Z'),
+      end: new Date('2026-05-14T14:30:00.000Z'),
+    });
+  });
+
+  it('ends the window at the current time for ongoing events', () => {
+    const link = buildTelemetryWindowLink(
+      { ...event, endedAtIso: null },
+      Date.parse('2026-05-14T12:01:00.000Z'),
+    );
+
+    expect(parseTelemetryWindowSearchParams(new URLSearchParams(link.split('?')[1]))).toEqual({
+      upsId: 'rack-2',
+      start: new Date('2026-05-14T11:55:00.000Z'),
+      end: new Date('2026-05-14T12:01:00.000Z'),
+    });
+  });
+});
+
+describe('parseTelemetryWindowSearchParams()', () => {
+  it('rejects missing or inverted windows', () => {
+    expect(parseTelemetryWindowSearchParams(new URLSearchParams())).toBeNull();
+    expect(parseTelemetryWindowSearchParams(new URLSearchParams({
+      start: '2026-05-14T12:00:00.000Z',
+      end: '2026-05-14T11:00:00.000Z',
+    }))).toBeNull();
+  });
+});
+
+describe('getMonthRange()', () => {
+  it('covers the whole local month', () => {
+    const range = getMonthRange('2026-02');
+
+    expect(range).toEqual({
+      startIso: new Date(2026, 1, 1).toISOString(),
+      endIso: new Date(new Date(2026, 2, 1).getTime() - 1).toISOString(),
+    });
+    expect(getMonthRange('2026-13')).toBeNull();
+  });
+});
+
+describe('formatEventDuration()', () => {
+  it('uses the two most significant units', () => {
+    expect(formatEventDuration(42)).toBe('42s');
+    expect(formatEventDuration(185)).toBe('3m 05s');
+    expect(formatEventDuration(7260)).toBe('2h 01m');
+  });
+});
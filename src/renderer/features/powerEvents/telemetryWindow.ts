@@ -0,0 +1,98 @@
+import type { PowerEvent } from '../../../shared/powerEvents/types';
+
+const MIN_PADDING_MS = 5 * 60 * 1000;
+/** Share of the event duration shown before and after it. */
+const PADDING_RATIO = 0.25;
+
+export type TelemetryWindow = {
+  upsId?: string;
+  start: Date;
+  end: Date;
+};
+
+/** Window showing an event with some context on either side. */
+export function getPowerEventTelemetryWindow(
+  event: PowerEvent,
+  now = Date.now(),
+): TelemetryWindow {
+  const startedAt = Date.parse(event.startedAtIso);
+  const endedAt = event.endedAtIso ? Date.parse(event.endedAtIso) : now;
+  const padding = Math.max(MIN_PADDING_MS, (endedAt - startedAt) * PADDING_RATIO);
+  return {
+    upsId: event.upsId,
+    start: new Date(startedAt - padding),
+    end: new Date(Math.min(endedAt + padding, now)),
+  };
+}
+
+/** Telemetry page link showing an event with some context on either side. */
+export function buildTelemetryWindowLink(event: PowerEvent, now = Date.now()): string {
+  const params = toTelemetryWindowSearchParams(getPowerEventTelemetryWindow(event, now));
+  return `/telemetry?${params.toString()}`;
+}
+
+export function toTelemetryWindowSearchParams(window: TelemetryWindow): URLSearchParams {
+  const params = new URLSearchParams();
+  if (window.upsId) {
+    params.set('upsId', window.upsId);
+  }
+  params.set('start', window.start.toISOString());
+  params.set('end', window.end.toISOString());
+  return params;
+}
+
+export function parseTelemetryWindowSearchParams(
+  params: URLSearchParams,
+): TelemetryWindow | null {
+  const start = new Date(params.get('start') ?? '');
+  const end = new Date(params.get('end') ?? '');
+  if (
+    Number.isNaN(start.getTime()) ||
+    Number.isNaN(end.getTime()) ||
+    start.getTime() >= end.getTime()
+  ) {
+    return null;
+  }
+
+  return { upsId: params.get('upsId') ?? undefined, start, end };
+}
+
+/** Local calendar month as an ISO range; `month` uses the `<input type="month">` format. */
+export function getMonthRange(month: string): { startIso: string; endIso: string } | null {
+  const match = /^(\d{4})-(\d{2})$/u.exec(month);
+  if (!match) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  const monthIndex = Number(match[2]) - 1;
+  if (monthIndex < 0 || monthIndex > 11) {
+    return null;
+  }
+
+  return {
+    startIso: new Date(year, monthIndex, 1).toISOString(),
+    endIso: new Date(new Date(year, monthIndex + 1, 1).getTime() - 1).toISOString(),
+  };
+}
+
+export function formatMonthInputValue(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function formatEventDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainder = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  }
+
+  if (minutes > 0) {
+    return `${minutes}m ${String(remainder).padStart(2, '0')}s`;
+  }
+
+  return `${remainder}s`;
+}
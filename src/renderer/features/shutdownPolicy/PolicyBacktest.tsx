@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import type { TFunction } from 'i18next';
+import { useTranslation } from 'react-i18next';
+import { History, Play } from 'lucide-react';
+import { electronApi } from '../../app/electronApi';
+import type {
+  ShutdownPolicyBacktestEvent,
+  ShutdownPolicyBacktestResult,
+  ShutdownPolicyConfig,
+} from '../../../shared/shutdownPolicy/types';
+import { UiButton, UiInput } from '../../components/ui';
+import {
+  parseDateTimeInputValue,
+  toDateTimeInputValue,
+} from '../telemetry/dateTimeInput';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Replays recorded telemetry through the policy as it stands in the editor and
+ * lists what it would have done, for checking a change against a real outage.
+ */
+export function PolicyBacktest({ policy }: { policy: ShutdownPolicyConfig }) {
+  const { t } = useTranslation();
+  const [start, setStart] = useState(() => toDateTimeInputValue(new Date(Date.now() - DAY_MS)));
+  const [end, setEnd] = useState(() => toDateTimeInputValue(new Date()));
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<ShutdownPolicyBacktestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const startDate = parseDateTimeInputValue(start);
+  const endDate = parseDateTimeInputValue(end);
+  const rangeValid = startDate !== null && endDate !== null && startDate < endDate;
+
+  const runBacktest = async () => {
+    if (!startDate || !endDate) {
+      return;
+    }
+
+    setRunning(true);
+    setError(null);
+    try {
+      setResult(await electronApi.shutdownPolicy.backtest({
+        policy,
+        startIso: startDate.toISOString(),
+        endIso: endDate.toISOString(),
+      }));
+    } catch (backtestError) {
+      setResult(null);
+      setError(backtestError instanceof Error ? backtestError.message : String(backtestError));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="policy-tool-panel">
+      <div className="policy-editor-title">
+        <History size={16} />
+        <span>{t('settings.policyBacktest', 'Backtest against history')}</span>
+      </div>
+      <p className="form-hint">
+        {t(
+          'settings.policyBacktestHint',
+          'Replays recorded telemetry through the policy above, hold timers and cooldowns included. Only online and on-battery status is recorded, so rules on low battery, FSD or the connection never match. Start the range before the outage so on-battery time is counted from its beginning.',
+        )}
+      </p>
+
+      <div className="policy-backtest-range">
+        <label className="form-group">
+          <span className="form-label">{t('settings.policyBacktestStart', 'From')}</span>
+          <UiInput
+            className="form-input"
+            type="datetime-local"
+            value={start}
+            onChange={(event) => setStart(event.target.value)}
+            disabled={running}
+          />
+        </label>
+        <label className="form-group">
+          <span className="form-label">{t('settings.policyBacktestEnd', 'To')}</span>
+          <UiInput
+            className="form-input"
+            type="datetime-local"
+            value={end}
+            onChange={(event) => setEnd(event.target.value)}
+            disabled={running}
+          />
+        </label>
+        <UiButton
+          type="button"
+          className="btn btn--secondary"
+          disabled={!rangeValid || running}
+          onClick={() => {
+            void runBacktest();
+          }}
+        >
+          <Play size={14} />
+          {running
+            ? t('settings.policyBacktestRunning', 'Replaying...')
+            : t('settings.policyBacktestRun', 'Run backtest')}
+        </UiButton>
+      </div>
+
+      {error && (
+        <div className="policy-history-error">
+          {t('settings.policyBacktestFailed', 'Backtest failed: {{reason}}', { reason: error })}
+        </div>
+      )}
+
+      {result && (
+        <>
+          <div className="policy-simulator-result">
+            <div className="policy-result-summary">
+              {formatVerdict(result, t)}
+            </div>
+          </div>
+          {result.events.length > 0 && (
+            <div className="policy-history-list">
+              {result.events.map((event, index) => (
+                <BacktestEventEntry event={event} key={`${event.timestampIso}-${event.kind}-${index}`} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function BacktestEventEntry({ event }: { event: ShutdownPolicyBacktestEvent }) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="policy-history-entry">
+      <div className="policy-history-entry-main">
+        <span className="policy-history-entry-time">
+          {new Date(event.timestampIso).toLocaleString()}
+        </span>
+        <span className={`policy-history-entry-event policy-backtest-event--${event.kind}`}>
+          {t(`settings.policyBacktestEvents.${event.kind}`, event.kind)}
+        </span>
+      </div>
+      <div className="policy-history-entry-summary">{event.summary}</div>
+      {event.context && (
+        <div className="policy-history-entry-meta">
+          {formatBacktestContext(event.context)}
+        </div>
+      )}
+      {event.conditionExplanation && event.conditionExplanation.length > 0 && (
+        <details className="policy-history-entry-details">
+          <summary>{t('settings.policyDecisionHistoryConditions')}</summary>
+          <ul className="policy-explanation-lines">
+            {event.conditionExplanation.map((line, index) => (
+              <li
+                className={line.startsWith('PASS')
+                  ? 'policy-explanation-line--pass'
+                  : 'policy-explanation-line--fail'}
+                key={`${line}-${index}`}
+              >
+                {line}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+function formatVerdict(
+  result: ShutdownPolicyBacktestResult,
+  t: TFunction,
+): string {
+  if (result.sampleCount === 0) {
+    return t(
+      'settings.policyBacktestNoSamples',
+      'No raw telemetry was recorded in this range. Raw samples are kept for the number of days set under data retention.',
+    );
+  }
+
+  if (result.shutdownAtIso) {
+    return t('settings.policyBacktestWouldShutDown', 'This policy would have shut the computer down at {{time}}.', {
+      time: new Date(result.shutdownAtIso).toLocaleString(),
+    });
+  }
+
+  return t(
+    'settings.policyBacktestNoShutdown',
+    'This policy would not have shut the computer down. {{samples}} samples replayed, {{events}} events.',
+    { samples: result.sampleCount, events: result.events.length },
+  );
+}
+
+function formatBacktestContext(
+  context: NonNullable<ShutdownPolicyBacktestEvent['context']>,
+): string {
+  const tokens = context.statusTokens.length > 0
+    ? context.statusTokens.join(' ')
+    : 'no status';
+  const charge = context.batteryChargePercent === undefined
+    ? 'charge unknown'
+    : `${context.batteryChargePercent}%`;
+  return `${tokens}, ${charge}, ${context.secondsOnBattery}s on battery`;
+}
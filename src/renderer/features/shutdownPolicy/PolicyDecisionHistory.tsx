@@ -0,0 +1,376 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ChevronLeft,
+  ChevronRight,
+  ClipboardList,
+  Download,
+  RefreshCw,
+} from 'lucide-react';
+import { electronApi } from '../../app/electronApi';
+import type { ShutdownPolicyDecisionLogQuery } from '../../../shared/ipc/contracts';
+import {
+  DEFAULT_DECISION_LOG_PAGE_SIZE,
+  MAX_DECISION_LOG_PAGE_SIZE,
+  SHUTDOWN_POLICY_DECISION_LOG_EVENTS,
+} from '../../../shared/shutdownPolicy/constants';
+import { formatCommandLine } from '../../../shared/shutdownPolicy/explain';
+import type {
+  ShutdownPolicyDecision,
+  ShutdownPolicyDecisionLogEntry,
+  ShutdownPolicyDecisionLogEvent,
+  ShutdownPolicyRule,
+} from '../../../shared/shutdownPolicy/types';
+import { UiButton, UiInput, UiSelect } from '../../components/ui';
+import {
+  downloadDecisionLogExport,
+  type DecisionLogExportFormat,
+} from './decisionLogExport';
+import { PreShutdownHookResults } from './PreShutdownHooksEditor';
+import { UpsdCoordinationSteps } from './PrimaryModeEditor';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type DecisionLogTimeRange = '24h' | '7d' | '30d' | 'all';
+
+const TIME_RANGE_HOURS: Record<DecisionLogTimeRange, number | null> = {
+  '24h': 24,
+  '7d': 7 * 24,
+  '30d': 30 * 24,
+  all: null,
+};
+
+type DecisionLogFilters = {
+  search: string;
+  event: ShutdownPolicyDecisionLogEvent | 'all';
+  ruleId: string;
+  timeRange: DecisionLogTimeRange;
+};
+
+const INITIAL_FILTERS: DecisionLogFilters = {
+  search: '',
+  event: 'all',
+  ruleId: '',
+  timeRange: 'all',
+};
+
+/** Persisted shutdown policy decisions with filters, paging and export. */
+export function PolicyDecisionHistory({ rules }: { rules: ShutdownPolicyRule[] }) {
+  const { t } = useTranslation();
+  const [filters, setFilters] = useState<DecisionLogFilters>(INITIAL_FILTERS);
+  const [page, setPage] = useState(0);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [entries, setEntries] = useState<ShutdownPolicyDecisionLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const pageCount = Math.max(1, Math.ceil(total / DEFAULT_DECISION_LOG_PAGE_SIZE));
+
+  useEffect(() => {
+    let cancelled = false;
+    void electronApi.shutdownPolicy.getDecisionLog({
+      ...buildDecisionLogQuery(filters),
+      offset: page * DEFAULT_DECISION_LOG_PAGE_SIZE,
+      limit: DEFAULT_DECISION_LOG_PAGE_SIZE,
+    })
+      .then((result) => {
+        if (!cancelled) {
+          setEntries(result.entries);
+          setTotal(result.total);
+          setError(null);
+        }
+      })
+      .catch((loadError: unknown) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : String(loadError));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, page, refreshCount]);
+
+  const updateFilters = (patch: Partial<DecisionLogFilters>) => {
+    setFilters((previous) => ({ ...previous, ...patch }));
+    setPage(0);
+  };
+
+  const exportEntries = async (format: DecisionLogExportFormat) => {
+    setExporting(true);
+    try {
+      downloadDecisionLogExport(
+        await fetchAllDecisionLogEntries(buildDecisionLogQuery(filters)),
+        format,
+      );
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="policy-tool-panel">
+      <div className="policy-history-header">
+        <div className="policy-editor-title">
+          <ClipboardList size={16} />
+          <span>{t('settings.policyDecisionHistory')}</span>
+        </div>
+        <div className="policy-history-actions">
+          <UiButton
+            type="button"
+            className="policy-icon-btn"
+            title={t('settings.policyDecisionHistoryExportCsv', 'Export CSV')}
+            disabled={exporting || total === 0}
+            onClick={() => {
+              void exportEntries('csv');
+            }}
+          >
+            <Download size={16} />
+            CSV
+          </UiButton>
+          <UiButton
+            type="button"
+            className="policy-icon-btn"
+            title={t('settings.policyDecisionHistoryExportJson', 'Export JSON')}
+            disabled={exporting || total === 0}
+            onClick={() => {
+              void exportEntries('json');
+            }}
+          >
+            <Download size={16} />
+            JSON
+          </UiButton>
+          <UiButton
+            type="button"
+            className="policy-icon-btn"
+            title={t('settings.policyDecisionHistoryRefresh')}
+            onClick={() => setRefreshCount((count) => count + 1)}
+          >
+            <RefreshCw size={16} />
+          </UiButton>
+        </div>
+      </div>
+
+      <div className="policy-history-filters">
+        <UiInput
+          className="form-input"
+          type="search"
+          aria-label={t('settings.policyDecisionHistorySearch', 'Search decisions')}
+          placeholder={t('settings.policyDecisionHistorySearch', 'Search decisions')}
+          value={filters.search}
+          onChange={(event) => updateFilters({ search: event.target.value })}
+        />
+        <UiSelect
+          className="telemetry-select"
+          aria-label={t('settings.policyDecisionHistoryEvent', 'Event type')}
+          value={filters.event}
+          onChange={(event) =>
+            updateFilters({ event: event.target.value as DecisionLogFilters['event'] })}
+        >
+          <option value="all">
+            {t('settings.policyDecisionHistoryAllEvents', 'All events')}
+          </option>
+          {SHUTDOWN_POLICY_DECISION_LOG_EVENTS.map((event) => (
+            <option key={event} value={event}>{event}</option>
+          ))}
+        </UiSelect>
+        <UiSelect
+          className="telemetry-select"
+          aria-label={t('settings.policyDecisionHistoryRule', 'Rule')}
+          value={filters.ruleId}
+          onChange={(event) => updateFilters({ ruleId: event.target.value })}
+        >
+          <option value="">
+            {t('settings.policyDecisionHistoryAllRules', 'All rules')}
+          </option>
+          {rules.map((rule) => (
+            <option key={rule.id} value={rule.id}>{rule.name}</option>
+          ))}
+        </UiSelect>
+        <UiSelect
+          className="telemetry-select"
+          aria-label={t('settings.policyDecisionHistoryTimeRange', 'Time range')}
+          value={filters.timeRange}
+          onChange={(event) =>
+            updateFilters({ timeRange: event.target.value as DecisionLogTimeRange })}
+        >
+          <option value="24h">{t('settings.policyDecisionHistoryLast24h', 'Last 24 hours')}</option>
+          <option value="7d">{t('settings.policyDecisionHistoryLast7d', 'Last 7 days')}</option>
+          <option value="30d">{t('settings.policyDecisionHistoryLast30d', 'Last 30 days')}</option>
+          <option value="all">{t('settings.policyDecisionHistoryAllTime', 'All time')}</option>
+        </UiSelect>
+      </div>
+
+      {error && (
+        <div className="policy-history-error">
+          {t('settings.policyDecisionHistoryFailed', { reason: error })}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="policy-history-empty">
+          {t('settings.policyDecisionHistoryEmpty')}
+        </div>
+      ) : (
+        <div className="policy-history-list">
+          {entries.map((entry) => (
+            <div className="policy-history-entry" key={entry.id}>
+              <div className="policy-history-entry-main">
+                <span className="policy-history-entry-time">
+                  {new Date(entry.timestampIso).toLocaleString()}
+                </span>
+                <span className={`policy-history-entry-event policy-history-entry-event--${entry.event}`}>
+                  {entry.event}
+                </span>
+              </div>
+              <div className="policy-history-entry-summary">
+                {entry.summary}
+              </div>
+              <div className="policy-history-entry-meta">
+                {entry.ruleName ?? entry.ruleId ?? formatPolicyDecision(entry.decision)}
+                {' / '}
+                {formatLogContext(entry)}
+              </div>
+              {entry.execution?.errorMessage && (
+                <div className="policy-history-entry-error">
+                  {entry.execution.errorMessage}
+                </div>
+              )}
+              {entry.execution?.hooks && entry.execution.hooks.length > 0 && (
+                <PreShutdownHookResults results={entry.execution.hooks} />
+              )}
+              {entry.execution?.coordination && entry.execution.coordination.length > 0 && (
+                <UpsdCoordinationSteps steps={entry.execution.coordination} />
+              )}
+              {entry.actionResult?.stdout && (
+                <pre className="pre-shutdown-hook-output">{entry.actionResult.stdout}</pre>
+              )}
+              {entry.actionResult?.stderr && (
+                <pre className="pre-shutdown-hook-output pre-shutdown-hook-output--stderr">
+                  {entry.actionResult.stderr}
+                </pre>
+              )}
+              {entry.conditionExplanation && entry.conditionExplanation.length > 0 && (
+                <details className="policy-history-entry-details">
+                  <summary>{t('settings.policyDecisionHistoryConditions')}</summary>
+                  <ul className="policy-explanation-lines">
+                    {entry.conditionExplanation.map((line, index) => (
+                      <li
+                        className={line.startsWith('PASS')
+                          ? 'policy-explanation-line--pass'
+                          : 'policy-explanation-line--fail'}
+                        key={`${entry.id}-${line}-${index}`}
+                      >
+                        {line}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {total > DEFAULT_DECISION_LOG_PAGE_SIZE && (
+        <div className="policy-history-pager">
+          <UiButton
+            type="button"
+            className="policy-icon-btn"
+            title={t('settings.policyDecisionHistoryPrevious', 'Newer')}
+            disabled={page === 0}
+            onClick={() => setPage((current) => Math.max(0, current - 1))}
+          >
+            <ChevronLeft size={16} />
+          </UiButton>
+          <span>
+            {t('settings.policyDecisionHistoryPage', 'Page {{page}} of {{pages}} ({{total}} entries)', {
+              page: page + 1,
+              pages: pageCount,
+              total,
+            })}
+          </span>
+          <UiButton
+            type="button"
+            className="policy-icon-btn"
+            title={t('settings.policyDecisionHistoryNext', 'Older')}
+            disabled={page + 1 >= pageCount}
+            onClick={() => setPage((current) => current + 1)}
+          >
+            <ChevronRight size={16} />
+          </UiButton>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function buildDecisionLogQuery(
+  filters: DecisionLogFilters,
+  now = Date.now(),
+): ShutdownPolicyDecisionLogQuery {
+  const hours = TIME_RANGE_HOURS[filters.timeRange];
+  const search = filters.search.trim();
+
+  return {
+    ...(hours === null ? {} : { startIso: new Date(now - hours * HOUR_MS).toISOString() }),
+    ...(filters.event === 'all' ? {} : { events: [filters.event] }),
+    ...(filters.ruleId ? { ruleId: filters.ruleId } : {}),
+    ...(search ? { search } : {}),
+  };
+}
+
+async function fetchAllDecisionLogEntries(
+  query: ShutdownPolicyDecisionLogQuery,
+): Promise<ShutdownPolicyDecisionLogEntry[]> {
+  const entries: ShutdownPolicyDecisionLogEntry[] = [];
+
+  for (;;) {
+    const page = await electronApi.shutdownPolicy.getDecisionLog({
+      ...query,
+      offset: entries.length,
+      limit: MAX_DECISION_LOG_PAGE_SIZE,
+    });
+    entries.push(...page.entries);
+    if (page.entries.length === 0 || entries.length >= page.total) {
+      return entries;
+    }
+  }
+}
+
+function formatPolicyDecision(decision: ShutdownPolicyDecision): string {
+  switch (decision.type) {
+    case 'none':
+      return 'none';
+    case 'showWarning':
+    case 'showCriticalAlert':
+    case 'cancelShutdownCountdown':
+    case 'notifyOnly':
+      return decision.type;
+    case 'runCommand':
+      return `${decision.type} ${formatCommandLine(decision.command, decision.args)}`;
+    case 'sendWebhook':
+      return `${decision.type} ${decision.url}`;
+    case 'startShutdownCountdown':
+      return `${decision.type} ${decision.countdownSeconds}s`;
+    case 'shutdownNow':
+      return `${decision.type} ${decision.method}`;
+    default:
+      return assertNever(decision);
+  }
+}
+
+function formatLogContext(entry: ShutdownPolicyDecisionLogEntry): string {
+  const tokens = entry.context.statusTokens.length > 0
+    ? entry.context.statusTokens.join(' ')
+    : 'no status';
+  const charge = entry.context.batteryChargePercent === undefined
+    ? 'charge unknown'
+    : `${entry.context.batteryChargePercent}%`;
+  return `${tokens}, ${charge}, ${entry.context.connectionState}`;
+}
+
+function assertNever(value: never): never {
+  throw new Error(`Unhandled value: ${String(value)}`);
+}
@@ -0,0 +1,384 @@
+import { useMemo, useState } from 'react';
+import type { TFunction } from 'i18next';
+import ReactECharts from 'echarts-for-react';
+import { useTranslation } from 'react-i18next';
+import { Play, Plus, Timer, Trash2 } from 'lucide-react';
+import { electronApi } from '../../app/electronApi';
+import {
+  MAX_OUTAGE_COMMUNICATION_DROPS,
+  MAX_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE,
+  MAX_OUTAGE_SIMULATION_SECONDS,
+  MIN_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE,
+} from '../../../shared/shutdownPolicy/constants';
+import type {
+  ShutdownPolicyCommunicationDrop,
+  ShutdownPolicyConfig,
+  ShutdownPolicyOutageEvent,
+  ShutdownPolicyOutageScenario,
+  ShutdownPolicyOutageSimulationResult,
+  ShutdownPolicyRuntimeSource,
+} from '../../../shared/shutdownPolicy/types';
+import { UiButton, UiCheckbox, UiInput, UiSelect } from '../../components/ui';
+import { parseDateTimeLocalValue, toDateTimeLocalValue } from './localDateTime';
+import {
+  buildOutageTimelineOption,
+  formatOutageSecond,
+  outageTimelineHeight,
+} from './outageTimelineChart';
+
+/**
+ * Steps a synthetic outage through the policy one second at a time and charts
+ * when each rule's trigger holds, when countdowns start and when they cancel.
+ */
+export function PolicyOutageSimulator({ policy }: { policy: ShutdownPolicyConfig }) {
+  const { t } = useTranslation();
+  const [startChargePercent, setStartChargePercent] = useState(100);
+  const [loadPercent, setLoadPercent] = useState(40);
+  const [dischargePercentPerMinute, setDischargePercentPerMinute] = useState(5);
+  const [runtimeSource, setRuntimeSource] =
+    useState<ShutdownPolicyRuntimeSource>('reported');
+  const [restores, setRestores] = useState(true);
+  const [restoreAfterSeconds, setRestoreAfterSeconds] = useState(300);
+  const [drops, setDrops] = useState<ShutdownPolicyCommunicationDrop[]>([]);
+  const [startsAt, setStartsAt] = useState(() => toDateTimeLocalValue(Date.now()));
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<ShutdownPolicyOutageSimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const scenario: ShutdownPolicyOutageScenario = {
+    startChargePercent,
+    loadPercent,
+    dischargePercentPerMinute,
+    runtimeSource,
+    restoreAfterSeconds: restores ? restoreAfterSeconds : null,
+    communicationDrops: drops,
+  };
+  const startsAtMs = parseDateTimeLocalValue(startsAt);
+  if (startsAtMs !== null) {
+    scenario.startAtIso = new Date(startsAtMs).toISOString();
+  }
+  const scenarioValid = startsAtMs !== null && isValidScenario(scenario);
+
+  const chartOption = useMemo(
+    () => (result ? buildOutageTimelineOption(result, t) : null),
+    [result, t],
+  );
+
+  const updateDrop = (index: number, patch: Partial<ShutdownPolicyCommunicationDrop>) => {
+    setDrops((previous) =>
+      previous.map((drop, dropIndex) => (dropIndex === index ? { ...drop, ...patch } : drop)));
+  };
+
+  const runSimulation = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      setResult(await electronApi.shutdownPolicy.simulateOutage({ policy, scenario }));
+    } catch (simulationError) {
+      setResult(null);
+      setError(
+        simulationError instanceof Error ? simulationError.message : String(simulationError),
+      );
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="policy-outage-simulator">
+      <div className="policy-editor-title">
+        <Timer size={16} />
+        <span>{t('settings.policyOutage', 'Outage timeline')}</span>
+      </div>
+      <p className="form-hint">
+        {t(
+          'settings.policyOutageHint',
+          'Mains fails at 0:00 and the policy above is evaluated every second, hold timers, cooldowns and countdowns included. While communication is dropped, polls fail and report nothing.',
+        )}
+      </p>
+
+      <div className="policy-simulator-grid">
+        <div className="form-group">
+          <label className="form-label" htmlFor="policy-outage-charge">
+            {t('settings.policyOutageStartCharge', 'Starting charge (%)')}
+          </label>
+          <UiInput
+            id="policy-outage-charge"
+            className="form-input form-input--narrow"
+            type="number"
+            min={0}
+            max={100}
+            value={startChargePercent}
+            onChange={(event) => setStartChargePercent(Number(event.target.value))}
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label" htmlFor="policy-outage-load">
+            {t('settings.policyOutageLoad', 'Load (%)')}
+          </label>
+          <UiInput
+            id="policy-outage-load"
+            className="form-input form-input--narrow"
+            type="number"
+            min={0}
+            max={200}
+            value={loadPercent}
+            onChange={(event) => setLoadPercent(Number(event.target.value))}
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label" htmlFor="policy-outage-discharge">
+            {t('settings.policyOutageDischarge', 'Discharge rate (%/min)')}
+          </label>
+          <UiInput
+            id="policy-outage-discharge"
+            className="form-input form-input--narrow"
+            type="number"
+            min={MIN_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE}
+            max={MAX_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE}
+            step={0.1}
+            value={dischargePercentPerMinute}
+            onChange={(event) => setDischargePercentPerMinute(Number(event.target.value))}
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label" htmlFor="policy-outage-runtime-source">
+            {t('settings.policyOutageRuntimeSource', 'Runtime from')}
+          </label>
+          <UiSelect
+            id="policy-outage-runtime-source"
+            className="telemetry-select"
+            value={runtimeSource}
+            onChange={(event) =>
+              setRuntimeSource(event.target.value as ShutdownPolicyRuntimeSource)}
+          >
+            <option value="reported">
+              {t('settings.policySimulatorRuntimeReported')}
+            </option>
+            <option value="estimated">
+              {t('settings.policySimulatorRuntimeEstimated')}
+            </option>
+          </UiSelect>
+        </div>
+        <div className="form-group">
+          <label className="form-toggle">
+            <UiCheckbox
+              checked={restores}
+              onChange={(event) => setRestores(event.target.checked)}
+            />
+            <span className="form-toggle-label">
+              {t('settings.policyOutageRestores', 'Mains returns')}
+            </span>
+          </label>
+          <UiInput
+            id="policy-outage-restore"
+            aria-label={t('settings.policyOutageRestore', 'Mains returns after (s)')}
+            className="form-input form-input--narrow"
+            type="number"
+            min={1}
+            max={MAX_OUTAGE_SIMULATION_SECONDS}
+            value={restoreAfterSeconds}
+            disabled={!restores}
+            onChange={(event) => setRestoreAfterSeconds(Number(event.target.value))}
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label" htmlFor="policy-outage-starts-at">
+            {t('settings.policyOutageStartsAt', 'Mains fails at')}
+          </label>
+          <UiInput
+            id="policy-outage-starts-at"
+            className="form-input"
+            type="datetime-local"
+            value={startsAt}
+            onChange={(event) => setStartsAt(event.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="form-group">
+        <span className="form-label">
+          {t('settings.policyOutageDrops', 'Communication drops')}
+        </span>
+        {drops.map((drop, index) => (
+          <div className="policy-outage-drop" key={index}>
+            <UiInput
+              aria-label={t('settings.policyOutageDropStart', 'Starts at (s)')}
+              className="form-input form-input--narrow"
+              type="number"
+              min={0}
+              value={drop.startSecond}
+              onChange={(event) => updateDrop(index, { startSecond: Number(event.target.value) })}
+            />
+            <UiInput
+              aria-label={t('settings.policyOutageDropDuration', 'Lasts (s)')}
+              className="form-input form-input--narrow"
+              type="number"
+              min={1}
+              value={drop.durationSeconds}
+              onChange={(event) =>
+                updateDrop(index, { durationSeconds: Number(event.target.value) })}
+            />
+            <span className="form-hint">
+              {t('settings.policyOutageDropRange', '{{start}} to {{end}}', {
+                start: formatOutageSecond(drop.startSecond),
+                end: formatOutageSecond(drop.startSecond + drop.durationSeconds),
+              })}
+            </span>
+            <UiButton
+              type="button"
+              className="policy-icon-btn"
+              title={t('settings.policyDelete')}
+              onClick={() =>
+                setDrops((previous) => previous.filter((_, dropIndex) => dropIndex !== index))}
+            >
+              <Trash2 size={16} />
+            </UiButton>
+          </div>
+        ))}
+        <div className="policy-outage-actions">
+          <UiButton
+            type="button"
+            className="btn btn--secondary"
+            disabled={drops.length >= MAX_OUTAGE_COMMUNICATION_DROPS}
+            onClick={() => {
+              const previous = drops[drops.length - 1];
+              setDrops([
+                ...drops,
+                {
+                  startSecond: previous ? previous.startSecond + previous.durationSeconds + 60 : 60,
+                  durationSeconds: 30,
+                },
+              ]);
+            }}
+          >
+            <Plus size={14} />
+            {t('settings.policyOutageAddDrop', 'Add drop')}
+          </UiButton>
+          <UiButton
+            type="button"
+            className="btn btn--secondary"
+            disabled={!scenarioValid || running}
+            onClick={() => {
+              void runSimulation();
+            }}
+          >
+            <Play size={14} />
+            {running
+              ? t('settings.policyOutageRunning', 'Simulating...')
+              : t('settings.policyOutageRun', 'Simulate outage')}
+          </UiButton>
+        </div>
+      </div>
+
+      {error && (
+        <div className="policy-history-error">
+          {t('settings.policyOutageFailed', 'Simulation failed: {{reason}}', { reason: error })}
+        </div>
+      )}
+
+      {result && chartOption && (
+        <>
+          <div className="policy-simulator-result">
+            <div className="policy-result-summary">{formatVerdict(result, t)}</div>
+          </div>
+          <div className="policy-outage-chart">
+            <ReactECharts
+              option={chartOption}
+              style={{ height: outageTimelineHeight(result.lanes.length), width: '100%' }}
+              opts={{ renderer: 'svg' }}
+              notMerge
+            />
+          </div>
+          {result.events.length > 0 && (
+            <div className="policy-history-list">
+              {result.events.map((event, index) => (
+                <OutageEventEntry event={event} key={`${event.second}-${event.kind}-${index}`} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function OutageEventEntry({ event }: { event: ShutdownPolicyOutageEvent }) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="policy-history-entry">
+      <div className="policy-history-entry-main">
+        <span className="policy-history-entry-time">{formatOutageSecond(event.second)}</span>
+        <span className={`policy-history-entry-event policy-backtest-event--${event.kind}`}>
+          {t(`settings.policyOutageEvents.${event.kind}`, event.kind)}
+        </span>
+      </div>
+      <div className="policy-history-entry-summary">{event.summary}</div>
+      {event.conditionExplanation && event.conditionExplanation.length > 0 && (
+        <details className="policy-history-entry-details">
+          <summary>{t('settings.policyDecisionHistoryConditions')}</summary>
+          <ul className="policy-explanation-lines">
+            {event.conditionExplanation.map((line, index) => (
+              <li
+                className={line.startsWith('PASS')
+                  ? 'policy-explanation-line--pass'
+                  : 'policy-explanation-line--fail'}
+                key={`${line}-${index}`}
+              >
+                {line}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+function isValidScenario(scenario: ShutdownPolicyOutageScenario): boolean {
+  const isSecond = (value: number) =>
+    Number.isInteger(value) && value >= 0 && value <= MAX_OUTAGE_SIMULATION_SECONDS;
+
+  return (
+    Number.isFinite(scenario.startChargePercent) &&
+    scenario.startChargePercent >= 0 &&
+    scenario.startChargePercent <= 100 &&
+    Number.isFinite(scenario.loadPercent) &&
+    scenario.loadPercent >= 0 &&
+    scenario.loadPercent <= 200 &&
+    scenario.dischargePercentPerMinute >= MIN_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE &&
+    scenario.dischargePercentPerMinute <= MAX_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE &&
+    (scenario.restoreAfterSeconds === null || isSecond(scenario.restoreAfterSeconds)) &&
+    scenario.communicationDrops.every(
+      (drop) => isSecond(drop.startSecond) && isSecond(drop.durationSeconds) && drop.durationSeconds > 0,
+    )
+  );
+}
+
+function formatVerdict(
+  result: ShutdownPolicyOutageSimulationResult,
+  t: TFunction,
+): string {
+  if (result.shutdownAtSecond !== undefined) {
+    return t(
+      'settings.policyOutageWouldShutDown',
+      'The policy shuts the computer down {{time}} into the outage.',
+      { time: formatOutageSecond(result.shutdownAtSecond) },
+    );
+  }
+
+  if (result.batteryDepletedAtSecond !== undefined) {
+    return t(
+      'settings.policyOutageBatteryDepleted',
+      'The battery runs empty {{time}} into the outage before the policy shuts the computer down.',
+      { time: formatOutageSecond(result.batteryDepletedAtSecond) },
+    );
+  }
+
+  return t(
+    'settings.policyOutageNoShutdown',
+    'The policy does not shut the computer down in {{time}} simulated. {{events}} events.',
+    { time: formatOutageSecond(result.durationSeconds), events: result.events.length },
+  );
+}
@@ -0,0 +1,369 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download, LayoutGrid, Save, Trash2, Upload } from 'lucide-react';
+import { electronApi } from '../../app/electronApi';
+import {
+  BUILT_IN_SHUTDOWN_POLICY_PRESET_IDS,
+  MAX_SHUTDOWN_POLICY_PRESET_NAME_LENGTH,
+  MAX_SHUTDOWN_POLICY_PRESETS,
+} from '../../../shared/shutdownPolicy/constants';
+import {
+  completeShutdownPolicyConfig,
+  createBuiltInShutdownPolicyPreset,
+} from '../../../shared/shutdownPolicy/defaultPolicies';
+import { diffShutdownPolicies } from '../../../shared/shutdownPolicy/policyDiff';
+import type {
+  BuiltInShutdownPolicyPresetId,
+  ShutdownPolicyConfig,
+  ShutdownPolicyPreset,
+} from '../../../shared/shutdownPolicy/types';
+import { UiButton, UiInput } from '../../components/ui';
+
+type PolicyPresetGalleryProps = {
+  policy: ShutdownPolicyConfig;
+  presets: ShutdownPolicyPreset[];
+  onApply: (policy: ShutdownPolicyConfig) => Promise<void>;
+  onSavePresets: (presets: ShutdownPolicyPreset[]) => Promise<void>;
+};
+
+const BUILT_IN_PRESET_TEXT: Record<
+  BuiltInShutdownPolicyPresetId,
+  { name: string; description: string }
+> = {
+  standard: {
+    name: 'Standard',
+    description: 'Warn at 40%, shut down at 20% after a 60-second countdown, and follow FSD.',
+  },
+  earlyShutdown: {
+    name: 'Early shutdown',
+    description: 'Shut down at 50% after a 30-second countdown to leave room for other loads.',
+  },
+  runtimeBased: {
+    name: 'Runtime based',
+    description: 'Shut down when 5 minutes of runtime remain, with 10% charge as a backstop.',
+  },
+  followPrimary: {
+    name: 'Follow the primary',
+    description: 'Only shut down when the NUT primary raises FSD or communication is lost on battery.',
+  },
+};
+
+type PendingReplacement = {
+  source: string;
+  policy: ShutdownPolicyConfig;
+  migrated?: boolean;
+};
+
+/**
+ * Built-in and saved presets plus policy files. Nothing replaces the current
+ * policy until the diff against it has been reviewed and confirmed.
+ */
+export function PolicyPresetGallery({
+  policy,
+  presets,
+  onApply,
+  onSavePresets,
+}: PolicyPresetGalleryProps) {
+  const { t } = useTranslation();
+  const [pending, setPending] = useState<PendingReplacement | null>(null);
+  const [presetName, setPresetName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const diff = useMemo(
+    () => (pending ? diffShutdownPolicies(policy, pending.policy) : []),
+    [pending, policy],
+  );
+  const trimmedPresetName = presetName.trim();
+  const canSavePreset = trimmedPresetName.length > 0 &&
+    presets.length < MAX_SHUTDOWN_POLICY_PRESETS;
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await task();
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : String(taskError));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const presetLabel = (id: BuiltInShutdownPolicyPresetId) =>
+    t(`settings.policyPresetNames.${id}`, BUILT_IN_PRESET_TEXT[id].name);
+
+  const importPolicy = () => run(async () => {
+    const result = await electronApi.shutdownPolicy.importPolicy();
+    if (result.cancelled) {
+      return;
+    }
+    if (result.error || !result.policy) {
+      setError(t('settings.policyImportFailed', 'Could not import {{file}}: {{reason}}', {
+        file: result.filePath ?? '',
+        reason: result.error ?? '',
+      }));
+      return;
+    }
+    setPending({
+      source: result.name ?? result.filePath ?? '',
+      policy: result.policy,
+      migrated: result.migrated,
+    });
+  });
+
+  const exportPolicy = (exported: ShutdownPolicyConfig, name?: string) => run(async () => {
+    const result = await electronApi.shutdownPolicy.exportPolicy({
+      policy: exported,
+      ...(name ? { name } : {}),
+    });
+    if (!result.cancelled && result.filePath) {
+      setMessage(t('settings.policyExported', 'Saved the policy to {{file}}.', {
+        file: result.filePath,
+      }));
+    }
+  });
+
+  const savePreset = () => run(async () => {
+    const preset: ShutdownPolicyPreset = {
+      id: `preset-${Date.now()}`,
+      name: trimmedPresetName,
+      savedAtIso: new Date().toISOString(),
+      policy: completeShutdownPolicyConfig(policy),
+    };
+    await onSavePresets([...presets, preset]);
+    setPresetName('');
+  });
+
+  const deletePreset = (preset: ShutdownPolicyPreset) => {
+    if (!window.confirm(t('settings.policyPresetDeleteConfirm', 'Delete the preset "{{name}}"?', {
+      name: preset.name,
+    }))) {
+      return;
+    }
+    void run(() => onSavePresets(presets.filter((entry) => entry.id !== preset.id)));
+  };
+
+  const replacePolicy = () => run(async () => {
+    if (!pending) {
+      return;
+    }
+    await onApply(completeShutdownPolicyConfig(pending.policy));
+    setPending(null);
+  });
+
+  return (
+    <div className="policy-tool-panel policy-preset-gallery">
+      <div className="policy-editor-title">
+        <LayoutGrid size={16} />
+        <span>{t('settings.policyPresets', 'Presets and policy files')}</span>
+      </div>
+      <p className="form-hint">
+        {t(
+          'settings.policyPresetsHint',
+          'Start from a preset, or export this policy to a file and import it on the other computers. You can review the changes before anything is replaced.',
+        )}
+      </p>
+
+      <div className="policy-preset-grid">
+        {BUILT_IN_SHUTDOWN_POLICY_PRESET_IDS.map((id) => (
+          <button
+            type="button"
+            className="policy-preset-card"
+            key={id}
+            disabled={busy}
+            onClick={() => setPending({
+              source: presetLabel(id),
+              // Built-in presets only cover the rules; hooks and primary mode stay as they are.
+              policy: createBuiltInShutdownPolicyPreset(id, policy),
+            })}
+          >
+            <span className="policy-preset-name">{presetLabel(id)}</span>
+            <span className="policy-preset-description">
+              {t(
+                `settings.policyPresetDescriptions.${id}`,
+                BUILT_IN_PRESET_TEXT[id].description,
+              )}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="policy-preset-saved">
+        <span className="form-label">{t('settings.policyPresetsSaved', 'Saved presets')}</span>
+        {presets.length === 0 ? (
+          <span className="form-hint">
+            {t('settings.policyPresetsEmpty', 'No saved presets yet.')}
+          </span>
+        ) : (
+          <ul className="policy-preset-list">
+            {presets.map((preset) => (
+              <li className="policy-preset-row" key={preset.id}>
+                <button
+                  type="button"
+                  className="policy-rule-main"
+                  disabled={busy}
+                  onClick={() => setPending({ source: preset.name, policy: preset.policy })}
+                >
+                  <span className="policy-rule-name">{preset.name}</span>
+                  <span className="policy-rule-meta">
+                    {new Date(preset.savedAtIso).toLocaleString()}
+                  </span>
+                </button>
+                <UiButton
+                  type="button"
+                  className="policy-icon-btn"
+                  title={t('settings.policyPresetExport', 'Export to a file')}
+                  disabled={busy}
+                  onClick={() => {
+                    void exportPolicy(preset.policy, preset.name);
+                  }}
+                >
+                  <Download size={16} />
+                </UiButton>
+                <UiButton
+                  type="button"
+                  className="policy-icon-btn"
+                  title={t('settings.policyPresetDelete', 'Delete preset')}
+                  disabled={busy}
+                  onClick={() => deletePreset(preset)}
+                >
+                  <Trash2 size={16} />
+                </UiButton>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="policy-actions">
+        <UiInput
+          className="form-input"
+          aria-label={t('settings.policyPresetName', 'Preset name')}
+          placeholder={t('settings.policyPresetName', 'Preset name')}
+          maxLength={MAX_SHUTDOWN_POLICY_PRESET_NAME_LENGTH}
+          value={presetName}
+          onChange={(event) => setPresetName(event.target.value)}
+        />
+        <UiButton
+          type="button"
+          className="btn btn--secondary"
+          disabled={busy || !canSavePreset}
+          onClick={() => {
+            void savePreset();
+          }}
+        >
+          <Save size={16} />
+          <span>{t('settings.policyPresetSave', 'Save current as preset')}</span>
+        </UiButton>
+        <UiButton
+          type="button"
+          className="btn btn--secondary"
+          disabled={busy}
+          onClick={() => {
+            void exportPolicy(policy);
+          }}
+        >
+          <Download size={16} />
+          <span>{t('settings.policyExport', 'Export policy')}</span>
+        </UiButton>
+        <UiButton
+          type="button"
+          className="btn btn--secondary"
+          disabled={busy}
+          onClick={() => {
+            void importPolicy();
+          }}
+        >
+          <Upload size={16} />
+          <span>{t('settings.policyImport', 'Import policy')}</span>
+        </UiButton>
+      </div>
+      {presets.length >= MAX_SHUTDOWN_POLICY_PRESETS && (
+        <span className="form-hint">
+          {t('settings.policyPresetsFull', 'You can keep up to {{max}} presets. Delete one to save another.', {
+            max: MAX_SHUTDOWN_POLICY_PRESETS,
+          })}
+        </span>
+      )}
+
+      {message && <div className="form-hint">{message}</div>}
+      {error && <div className="policy-history-error">{error}</div>}
+
+      {pending && (
+        <div className="policy-diff" role="region" aria-label={t('settings.policyDiff', 'Changes')}>
+          <div className="policy-editor-title">
+            <span>
+              {t('settings.policyDiffTitle', 'Replace the current policy with {{source}}', {
+                source: pending.source,
+              })}
+            </span>
+          </div>
+          {pending.migrated && (
+            <p className="form-hint">
+              {t(
+                'settings.policyDiffMigrated',
+                'This file came from an older version and was converted to the current policy format.',
+              )}
+            </p>
+          )}
+          {pending.policy.mode === 'simple' && (
+            <p className="form-hint">
+              {t(
+                'settings.policyDiffSimple',
+                'This policy uses simple mode, so its rules are generated again from this computer\'s battery and FSD settings whenever those change.',
+              )}
+            </p>
+          )}
+          {diff.length === 0 ? (
+            <p className="form-hint">
+              {t('settings.policyDiffNone', 'It is identical to the current policy.')}
+            </p>
+          ) : (
+            <ul className="policy-diff-list">
+              {diff.map((entry) => (
+                <li
+                  className={`policy-diff-entry policy-diff-entry--${entry.change}`}
+                  key={`${entry.change}:${entry.label}`}
+                >
+                  <span className="policy-diff-change">
+                    {t(`settings.policyDiffChanges.${entry.change}`, entry.change)}
+                  </span>
+                  <span className="policy-diff-label">{entry.label}</span>
+                  {entry.before !== undefined && (
+                    <del className="policy-diff-before">{entry.before}</del>
+                  )}
+                  {entry.after !== undefined && (
+                    <ins className="policy-diff-after">{entry.after}</ins>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="policy-actions">
+            <UiButton
+              type="button"
+              className="btn btn--primary"
+              disabled={busy}
+              onClick={() => {
+                void replacePolicy();
+              }}
+            >
+              <span>{t('settings.policyDiffReplace', 'Replace current policy')}</span>
+            </UiButton>
+            <UiButton
+              type="button"
+              className="btn btn--secondary"
+              disabled={busy}
+              onClick={() => setPending(null)}
+            >
+              <span>{t('settings.policyDiffCancel', 'Cancel')}</span>
+            </UiButton>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
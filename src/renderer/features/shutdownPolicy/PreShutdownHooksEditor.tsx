@@ -0,0 +1,393 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ArrowDown,
+  ArrowUp,
+  FlaskConical,
+  Plus,
+  TerminalSquare,
+  Trash2,
+} from 'lucide-react';
+import { electronApi } from '../../app/electronApi';
+import {
+  DEFAULT_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS,
+  MAX_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS,
+  MAX_PRE_SHUTDOWN_HOOKS,
+  MIN_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS,
+  PRE_SHUTDOWN_HOOK_FAILURE_MODES,
+} from '../../../shared/shutdownPolicy/constants';
+import { formatCommandLine } from '../../../shared/shutdownPolicy/explain';
+import type {
+  PreShutdownHook,
+  PreShutdownHookFailureMode,
+  PreShutdownHookResult,
+} from '../../../shared/shutdownPolicy/types';
+import { UiButton, UiCheckbox, UiInput, UiSelect } from '../../components/ui';
+
+type PreShutdownHooksEditorProps = {
+  hooks: PreShutdownHook[];
+  onSave: (hooks: PreShutdownHook[]) => Promise<void>;
+};
+
+export function PreShutdownHooksEditor({ hooks, onSave }: PreShutdownHooksEditorProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<PreShutdownHook[]>(hooks);
+  const [saving, setSaving] = useState(false);
+  const [dryRunning, setDryRunning] = useState(false);
+  const [dryRunResults, setDryRunResults] = useState<PreShutdownHookResult[] | null>(null);
+  const [dryRunError, setDryRunError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(hooks);
+  }, [hooks]);
+
+  const validationError = useMemo(() => {
+    const invalid = draft.find((hook) =>
+      !hook.name.trim() ||
+      !hook.command.trim() ||
+      !Number.isInteger(hook.timeoutSeconds) ||
+      hook.timeoutSeconds < MIN_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS ||
+      hook.timeoutSeconds > MAX_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS,
+    );
+    return invalid
+      ? t(
+        'settings.preShutdownHooksInvalid',
+        'Each hook needs a name, a command and a timeout between {{min}} and {{max}} seconds.',
+        {
+          min: MIN_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS,
+          max: MAX_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS,
+        },
+      )
+      : null;
+  }, [draft, t]);
+
+  const updateHook = (id: string, patch: Partial<PreShutdownHook>) => {
+    setDraft((previous) =>
+      previous.map((hook) => (hook.id === id ? { ...hook, ...patch } : hook)),
+    );
+  };
+
+  const moveHook = (index: number, offset: -1 | 1) => {
+    setDraft((previous) => {
+      const target = index + offset;
+      if (target < 0 || target >= previous.length) {
+        return previous;
+      }
+
+      const next = [...previous];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addHook = () => {
+    setDraft((previous) => [
+      ...previous,
+      {
+        id: createHookId(previous),
+        name: t('settings.preShutdownHookNewName', 'Hook {{index}}', {
+          index: previous.length + 1,
+        }),
+        enabled: true,
+        command: '',
+        args: [],
+        timeoutSeconds: DEFAULT_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS,
+        onFailure: 'continue',
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (validationError) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(draft.map((hook) => ({
+        ...hook,
+        name: hook.name.trim(),
+        command: hook.command.trim(),
+      })));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDryRun = async () => {
+    setDryRunning(true);
+    setDryRunError(null);
+    try {
+      setDryRunResults(await electronApi.shutdownPolicy.dryRunHooks({ hooks: draft }));
+    } catch (error) {
+      setDryRunResults(null);
+      setDryRunError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setDryRunning(false);
+    }
+  };
+
+  return (
+    <div className="policy-tool-panel">
+      <div className="policy-editor-title">
+        <TerminalSquare size={16} />
+        <span>{t('settings.preShutdownHooks', 'Pre-shutdown hooks')}</span>
+      </div>
+      <p className="form-hint">
+        {t(
+          'settings.preShutdownHooksDescription',
+          'Commands run in order before the computer shuts down or sleeps. A failing hook set to abort cancels the shutdown.',
+        )}
+      </p>
+
+      {draft.length === 0 ? (
+        <div className="policy-history-empty">
+          {t('settings.preShutdownHooksEmpty', 'No pre-shutdown hooks configured.')}
+        </div>
+      ) : (
+        <div className="pre-shutdown-hook-list">
+          {draft.map((hook, index) => (
+            <div className="pre-shutdown-hook" key={hook.id}>
+              <div className="pre-shutdown-hook-header">
+                <UiCheckbox
+                  checked={hook.enabled}
+                  onChange={(event) => updateHook(hook.id, { enabled: event.target.checked })}
+                  title={t('settings.policyEnabled')}
+                />
+                <UiInput
+                  className="form-input"
+                  aria-label={t('settings.preShutdownHookName', 'Hook name')}
+                  value={hook.name}
+                  maxLength={200}
+                  onChange={(event) => updateHook(hook.id, { name: event.target.value })}
+                />
+                <UiButton
+                  type="button"
+                  className="policy-icon-btn"
+                  title={t('settings.preShutdownHookMoveUp', 'Move up')}
+                  disabled={index === 0}
+                  onClick={() => moveHook(index, -1)}
+                >
+                  <ArrowUp size={16} />
+                </UiButton>
+                <UiButton
+                  type="button"
+                  className="policy-icon-btn"
+                  title={t('settings.preShutdownHookMoveDown', 'Move down')}
+                  disabled={index === draft.length - 1}
+                  onClick={() => moveHook(index, 1)}
+                >
+                  <ArrowDown size={16} />
+                </UiButton>
+                <UiButton
+                  type="button"
+                  className="policy-icon-btn"
+                  title={t('settings.policyDelete')}
+                  onClick={() =>
+                    setDraft((previous) => previous.filter((entry) => entry.id !== hook.id))}
+                >
+                  <Trash2 size={16} />
+                </UiButton>
+              </div>
+              <div className="form-group">
+                <label className="form-label" htmlFor={`pre-shutdown-hook-${hook.id}-command`}>
+                  {t('settings.preShutdownHookCommand', 'Command')}
+                </label>
+                <UiInput
+                  id={`pre-shutdown-hook-${hook.id}-command`}
+                  className="form-input"
+                  value={hook.command}
+                  placeholder="/usr/local/bin/stop-vms"
+                  onChange={(event) => updateHook(hook.id, { command: event.target.value })}
+                />
+              </div>
+              <div className="form-group">
+                <label className="form-label" htmlFor={`pre-shutdown-hook-${hook.id}-args`}>
+                  {t('settings.preShutdownHookArgs', 'Arguments (one per line)')}
+                </label>
+                <textarea
+                  id={`pre-shutdown-hook-${hook.id}-args`}
+                  className="form-input pre-shutdown-hook-args"
+                  rows={2}
+                  value={hook.args.join('\n')}
+                  onChange={(event) =>
+                    updateHook(hook.id, {
+                      args: event.target.value === '' ? [] : event.target.value.split('\n'),
+                    })}
+                />
+              </div>
+              <div className="form-row form-row--two">
+                <div className="form-group">
+                  <label className="form-label" htmlFor={`pre-shutdown-hook-${hook.id}-timeout`}>
+                    {t('settings.preShutdownHookTimeout', 'Timeout (seconds)')}
+                  </label>
+                  <UiInput
+                    id={`pre-shutdown-hook-${hook.id}-timeout`}
+                    className="form-input form-input--narrow"
+                    type="number"
+                    min={MIN_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS}
+                    max={MAX_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS}
+                    value={hook.timeoutSeconds}
+                    onChange={(event) =>
+                      updateHook(hook.id, { timeoutSeconds: Number(event.target.value) })}
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label" htmlFor={`pre-shutdown-hook-${hook.id}-failure`}>
+                    {t('settings.preShutdownHookOnFailure', 'If it fails')}
+                  </label>
+                  <UiSelect
+                    id={`pre-shutdown-hook-${hook.id}-failure`}
+                    className="telemetry-select"
+                    value={hook.onFailure}
+                    onChange={(event) =>
+                      updateHook(hook.id, {
+                        onFailure: event.target.value as PreShutdownHookFailureMode,
+                      })}
+                  >
+                    {PRE_SHUTDOWN_HOOK_FAILURE_MODES.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {mode === 'abort'
+                          ? t('settings.preShutdownHookAbort', 'Abort the shutdown')
+                          : t('settings.preShutdownHookContinue', 'Continue with the shutdown')}
+                      </option>
+                    ))}
+                  </UiSelect>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {validationError && <div className="policy-history-error">{validationError}</div>}
+
+      <div className="policy-actions">
+        <UiButton
+          type="button"
+          className="btn btn--secondary"
+          disabled={draft.length >= MAX_PRE_SHUTDOWN_HOOKS}
+          onClick={addHook}
+        >
+          <Plus size={16} />
+          <span>{t('settings.preShutdownHookAdd', 'Add hook')}</span>
+        </UiButton>
+        <UiButton
+          type="button"
+          className="btn btn--secondary"
+          disabled={dryRunning || draft.length === 0 || validationError !== null}
+          onClick={() => {
+            void handleDryRun();
+          }}
+        >
+          <FlaskConical size={16} />
+          <span>{t('settings.preShutdownHooksDryRun', 'Dry-run hooks')}</span>
+        </UiButton>
+        <UiButton
+          type="button"
+          className="btn btn--primary"
+          disabled={saving || validationError !== null}
+          onClick={() => {
+            void handleSave();
+          }}
+        >
+          <span>{t('settings.preShutdownHooksSave', 'Save hooks')}</span>
+        </UiButton>
+      </div>
+
+      {dryRunError && (
+        <div className="policy-history-error">
+          {t('settings.preShutdownHooksDryRunFailed', 'Dry run failed: {{reason}}', {
+            reason: dryRunError,
+          })}
+        </div>
+      )}
+
+      {dryRunResults && (
+        <div className="policy-history-list">
+          <p className="form-hint">
+            {t(
+              'settings.preShutdownHooksDryRunHint',
+              'Dry runs only check that each command can be found; nothing is executed.',
+            )}
+          </p>
+          {dryRunResults.length === 0 && (
+            <div className="policy-history-empty">
+              {t('settings.preShutdownHooksDryRunNone', 'No enabled hooks to check.')}
+            </div>
+          )}
+          {dryRunResults.map((result) => (
+            <div className="policy-simulator-result" key={result.hookId}>
+              <div className="policy-result-summary">{result.name}</div>
+              <code className="pre-shutdown-hook-command-line">
+                {formatCommandLine(result.resolvedPath ?? result.command, result.args)}
+              </code>
+              {result.success ? (
+                <div className="policy-explanation-line--pass">
+                  {t('settings.preShutdownHooksDryRunFound', 'Command found.')}
+                </div>
+              ) : (
+                <div className="policy-explanation-line--fail">{result.errorMessage}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Shows a hook's stdout, stderr and exit code from a decision log entry. */
+export function PreShutdownHookResults({ results }: { results: PreShutdownHookResult[] }) {
+  const { t } = useTranslation();
+
+  return (
+    <details className="policy-history-entry-details">
+      <summary>{t('settings.preShutdownHooks', 'Pre-shutdown hooks')}</summary>
+      <div className="pre-shutdown-hook-results">
+        {results.map((result) => (
+          <div className="pre-shutdown-hook-result" key={result.hookId}>
+            <div
+              className={result.success
+                ? 'policy-explanation-line--pass'
+                : 'policy-explanation-line--fail'}
+            >
+              {t(
+                'settings.preShutdownHookResultSummary',
+                '{{name}}: exit {{exitCode}} in {{seconds}}s',
+                {
+                  name: result.name,
+                  exitCode: result.timedOut
+                    ? t('settings.preShutdownHookTimedOut', 'timed out')
+                    : (result.exitCode ?? result.signal ?? '-'),
+                  seconds: (result.durationMs / 1000).toFixed(1),
+                },
+              )}
+            </div>
+            <code className="pre-shutdown-hook-command-line">
+              {formatCommandLine(result.command, result.args)}
+            </code>
+            {result.errorMessage && (
+              <div className="policy-history-entry-error">{result.errorMessage}</div>
+            )}
+            {result.stdout && <pre className="pre-shutdown-hook-output">{result.stdout}</pre>}
+            {result.stderr && (
+              <pre className="pre-shutdown-hook-output pre-shutdown-hook-output--stderr">
+                {result.stderr}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+function createHookId(hooks: PreShutdownHook[]): string {
+  const ids = new Set(hooks.map((hook) => hook.id));
+  let index = hooks.length + 1;
+  while (ids.has(`hook-${index}`)) {
+    index += 1;
+  }
+  return `hook-${index}`;
+}
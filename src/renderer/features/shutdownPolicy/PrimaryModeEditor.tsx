@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Network } from 'lucide-react';
+import {
+  DEFAULT_PRIMARY_MODE_TIMEOUT_SECONDS,
+  MAX_PRIMARY_MODE_TIMEOUT_SECONDS,
+  MIN_PRIMARY_MODE_TIMEOUT_SECONDS,
+} from '../../../shared/shutdownPolicy/constants';
+import type {
+  ShutdownPolicyPrimaryMode,
+  UpsdCoordinationStep,
+} from '../../../shared/shutdownPolicy/types';
+import { UiButton, UiCheckbox, UiInput } from '../../components/ui';
+
+type PrimaryModeEditorProps = {
+  primaryMode: ShutdownPolicyPrimaryMode | undefined;
+  onSave: (primaryMode: ShutdownPolicyPrimaryMode) => Promise<void>;
+};
+
+export function PrimaryModeEditor({ primaryMode, onSave }: PrimaryModeEditorProps) {
+  const { t } = useTranslation();
+  const [enabled, setEnabled] = useState(false);
+  const [timeoutSeconds, setTimeoutSeconds] = useState(DEFAULT_PRIMARY_MODE_TIMEOUT_SECONDS);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEnabled(primaryMode?.enabled ?? false);
+    setTimeoutSeconds(
+      primaryMode?.secondaryTimeoutSeconds ?? DEFAULT_PRIMARY_MODE_TIMEOUT_SECONDS,
+    );
+  }, [primaryMode]);
+
+  const timeoutValid =
+    Number.isInteger(timeoutSeconds) &&
+    timeoutSeconds >= MIN_PRIMARY_MODE_TIMEOUT_SECONDS &&
+    timeoutSeconds <= MAX_PRIMARY_MODE_TIMEOUT_SECONDS;
+
+  const handleSave = async () => {
+    if (!timeoutValid) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({ enabled, secondaryTimeoutSeconds: timeoutSeconds });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="policy-tool-panel">
+      <div className="policy-editor-title">
+        <Network size={16} />
+        <span>{t('settings.primaryMode', 'Primary mode')}</span>
+      </div>
+      <p className="form-hint">
+        {t(
+          'settings.primaryModeDescription',
+          'Before shutting down, raise FSD on the NUT server and wait for the other machines monitoring it to log out, as upsmon does as the primary. The NUT user needs upsmon primary rights.',
+        )}
+      </p>
+
+      <label className="form-toggle">
+        <UiCheckbox
+          checked={enabled}
+          onChange={(event) => setEnabled(event.target.checked)}
+        />
+        <span className="form-toggle-label">
+          {t('settings.primaryModeEnabled', 'Act as the upsmon primary')}
+        </span>
+      </label>
+
+      <div className="form-group">
+        <label className="form-label" htmlFor="primary-mode-timeout">
+          {t('settings.primaryModeTimeout', 'Wait for secondaries (seconds)')}
+        </label>
+        <UiInput
+          id="primary-mode-timeout"
+          className="form-input"
+          type="number"
+          min={MIN_PRIMARY_MODE_TIMEOUT_SECONDS}
+          max={MAX_PRIMARY_MODE_TIMEOUT_SECONDS}
+          value={timeoutSeconds}
+          onChange={(event) => setTimeoutSeconds(Number(event.target.value))}
+        />
+        <span className="form-hint">
+          {t(
+            'settings.primaryModeTimeoutHint',
+            'The shutdown continues when the time is up, even if secondaries are still logged in.',
+          )}
+        </span>
+      </div>
+
+      {!timeoutValid && (
+        <div className="policy-history-error">
+          {t(
+            'settings.primaryModeTimeoutInvalid',
+            'The wait must be between {{min}} and {{max}} seconds.',
+            {
+              min: MIN_PRIMARY_MODE_TIMEOUT_SECONDS,
+              max: MAX_PRIMARY_MODE_TIMEOUT_SECONDS,
+            },
+          )}
+        </div>
+      )}
+
+      <div className="policy-actions">
+        <UiButton
+          type="button"
+          className="btn btn--primary"
+          disabled={saving || !timeoutValid}
+          onClick={() => {
+            void handleSave();
+          }}
+        >
+          <span>{t('settings.primaryModeSave', 'Save primary mode')}</span>
+        </UiButton>
+      </div>
+    </div>
+  );
+}
+
+export function UpsdCoordinationSteps({ steps }: { steps: UpsdCoordinationStep[] }) {
+  const { t } = useTranslation();
+
+  return (
+    <details className="policy-history-entry-details">
+      <summary>{t('settings.primaryModeSteps', 'NUT primary coordination')}</summary>
+      <ul className="policy-explanation-lines">
+        {steps.map((step) => (
+          <li
+            className={step.success
+              ? 'policy-explanation-line--pass'
+              : 'policy-explanation-line--fail'}
+            key={step.step}
+          >
+            {t('settings.primaryModeStepSummary', '{{step}} ({{seconds}}s): {{message}}', {
+              step: step.step,
+              seconds: (step.durationMs / 1000).toFixed(1),
+              message: step.message,
+            })}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
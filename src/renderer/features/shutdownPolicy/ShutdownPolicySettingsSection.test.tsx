@@ -8,13 +8,31 @@ import {
   type AppConfig,
 } from '../../../main/config/configSchema';
 import type { AppConfigPatch } from '../../../shared/config/types';
+import type {
+  BatteryHealthReport,
+  SettingsUpdateResult,
+  ShutdownPolicyBacktestPayload,
+  ShutdownPolicyDecisionLogPage,
+  ShutdownPolicyDecisionLogQuery,
+  ShutdownPolicyExportPayload,
+  ShutdownPolicyExportResult,
+  ShutdownPolicyImportResult,
+  ShutdownPolicySimulateOutagePayload,
+} from '../../../shared/ipc/contracts';
 import {
+  createBuiltInShutdownPolicyPreset,
   DEFAULT_BATTERY_SHUTDOWN_RULE_ID,
   DEFAULT_BATTERY_WARNING_RULE_ID,
   DEFAULT_COMMUNICATION_LOSS_RULE_ID,
   getNumericConditionValue,
 } from '../../../shared/shutdownPolicy/defaultPolicies';
-import type { ShutdownPolicyDecisionLogEntry } from '../../../shared/shutdownPolicy/types';
+import type {
+  PreShutdownHook,
+  PreShutdownHookResult,
+  ShutdownPolicyBacktestResult,
+  ShutdownPolicyDecisionLogEntry,
+  ShutdownPolicyOutageSimulationResult,
+} from '../../../shared/shutdownPolicy/types';
 import { SettingsPage } from '../../pages/SettingsPage';
 import { ShutdownPolicySettingsSection } from './ShutdownPolicySettingsSection';
 
@@ -22,9 +40,25 @@ const hoisted = vi.hoisted(() => ({
   currentConfig: null as AppConfig | null,
   mockNavigate: vi.fn(),
   mockSettingsGet: vi.fn<() => Promise<AppConfig>>(),
-  mockSettingsUpdate: vi.fn<(patch: AppConfigPatch) => Promise<AppConfig>>(),
+  mockSettingsUpdate: vi.fn<(patch: AppConfigPatch) => Promise<SettingsUpdateResult>>(),
   mockRefreshConfig: vi.fn<() => Promise<void>>(),
-  mockGetDecisionLog: vi.fn<() => Promise<ShutdownPolicyDecisionLogEntry[]>>(),
+  mockGetDecisionLog: vi.fn<
+    (query?: ShutdownPolicyDecisionLogQuery) => Promise<ShutdownPolicyDecisionLogPage>
+  >(),
+  mockDryRunHooks: vi.fn<
+    (payload: { hooks: PreShutdownHook[] }) => Promise<PreShutdownHookResult[]>
+  >(),
+  mockBacktest: vi.fn<
+    (payload: ShutdownPolicyBacktestPayload) => Promise<ShutdownPolicyBacktestResult>
+  >(),
+  mockSimulateOutage: vi.fn<
+    (payload: ShutdownPolicySimulateOutagePayload) => Promise<ShutdownPolicyOutageSimulationResult>
+  >(),
+  mockExportPolicy: vi.fn<
+    (payload: ShutdownPolicyExportPayload) => Promise<ShutdownPolicyExportResult>
+  >(),
+  mockImportPolicy: vi.fn<() => Promise<ShutdownPolicyImportResult>>(),
+  mockGetBatteryHealth: vi.fn<() => Promise<BatteryHealthReport>>(),
 }));
 
 const {
@@ -33,6 +67,12 @@ const {
   mockSettingsUpdate,
   mockRefreshConfig,
   mockGetDecisionLog,
+  mockDryRunHooks,
+  mockBacktest,
+  mockSimulateOutage,
+  mockExportPolicy,
+  mockImportPolicy,
+  mockGetBatteryHealth,
 } = hoisted;
 
 let currentConfig: AppConfig;
@@ -65,6 +105,10 @@ vi.mock('react-i18next', () => ({
   }),
 }));
 
+vi.mock('echarts-for-react', () => ({
+  default: () => <div data-testid="outage-timeline-chart" />,
+}));
+
 vi.mock('react-router-dom', async () => {
   const actual = await vi.importActual<typeof import('react-router-dom')>('react-router-dom');
   return {
@@ -88,10 +132,18 @@ vi.mock('../../app/electronApi', () => ({
     },
     shutdownPolicy: {
       getDecisionLog: hoisted.mockGetDecisionLog,
+      dryRunHooks: hoisted.mockDryRunHooks,
+      backtest: hoisted.mockBacktest,
+      simulateOutage: hoisted.mockSimulateOutage,
+      exportPolicy: hoisted.mockExportPolicy,
+      importPolicy: hoisted.mockImportPolicy,
     },
     wizard: {
       enter: vi.fn(),
     },
+    batteryHealth: {
+      get: hoisted.mockGetBatteryHealth,
+    },
   },
 }));
 
@@ -106,10 +158,31 @@ describe('ShutdownPolicySettingsSection renderer flows', () => {
     mockSettingsUpdate.mockReset().mockImplementation(async (patch) => {
       currentConfig = applyConfigPatch(currentConfig, patch);
       hoisted.currentConfig = currentConfig;
-      return currentConfig;
+      return { config: currentConfig, listenerErrors: [] };
     });
     mockRefreshConfig.mockReset().mockResolvedValue(undefined);
-    mockGetDecisionLog.mockReset().mockImplementation(async () => mockDecisionLog);
+    mockGetDecisionLog.mockReset().mockImplementation(async () => ({
+      entries: mockDecisionLog,
+      total: mockDecisionLog.length,
+    }));
+    mockDryRunHooks.mockReset();
+    mockBacktest.mockReset();
+    mockSimulateOutage.mockReset();
+    mockExportPolicy.mockReset();
+    mockImportPolicy.mockReset();
+    mockGetBatteryHealth.mockReset().mockResolvedValue({
+      upsId: 'primary',
+      generatedAtIso: '2026-05-14T12:00:00.000Z',
+      capacityPercent: null,
+      trend: [],
+      manufacturedAtIso: null,
+      ageYears: null,
+      replaceSoon: false,
+      replaceReasons: [],
+      runtimeModel: [
+        { drainPercentPerMinute: 1, averagePowerWatts: null, averageLoadPercent: 40 },
+      ],
+    });
 
     confirmSpy = vi.spyOn(window, 'confirm').mockReturnValue(true);
   });
@@ -220,6 +293,21 @@ describe('ShutdownPolicySettingsSection renderer flows', () => {
     expect(screen.getAllByText(/^FAIL /).length).toBeGreaterThan(0);
   });
 
+  it('estimates the simulated runtime from the learned discharges', async () => {
+    renderPolicySection();
+
+    expect(screen.queryByLabelText('settings.policySimulatorLoad')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('settings.policySimulatorRuntimeSource'), {
+      target: { value: 'estimated' },
+    });
+
+    expect(
+      await screen.findByText('settings.policySimulatorEstimatedRuntime'),
+    ).toBeInTheDocument();
+    expect(mockGetBatteryHealth).toHaveBeenCalledTimes(1);
+    expect(screen.queryByLabelText('settings.policySimulatorRuntime')).not.toBeInTheDocument();
+  });
+
   it('preserves all trigger leaves when editing the default communication-loss rule', async () => {
     currentConfig = {
       ...currentConfig,
@@ -264,6 +352,77 @@ describe('ShutdownPolicySettingsSection renderer flows', () => {
     });
   });
 
+  it('adds a time window to a rule trigger and keeps it while the condition is edited', async () => {
+    currentConfig = {
+      ...currentConfig,
+      shutdownPolicy: {
+        ...currentConfig.shutdownPolicy,
+        mode: 'advanced',
+      },
+    };
+
+    const onSave = vi.fn();
+    const view = renderPolicySection(onSave);
+    // Feed each save back in, as the settings page does, so the editor shows it.
+    onSave.mockImplementation(async (shutdownPolicy: AppConfig['shutdownPolicy']) => {
+      currentConfig = { ...currentConfig, shutdownPolicy };
+      view.rerender(
+        <ShutdownPolicySettingsSection
+          config={currentConfig}
+          batterySettings={currentConfig.battery}
+          fsdSettings={currentConfig.fsd}
+          onSave={onSave}
+          onSavePresets={vi.fn()}
+        />,
+      );
+    });
+    const savedTrigger = () => (onSave.mock.calls.at(-1)?.[0] as AppConfig['shutdownPolicy'])
+      .rules.find((rule) => rule.id === DEFAULT_COMMUNICATION_LOSS_RULE_ID)?.trigger;
+
+    fireEvent.click(screen.getByRole('button', {
+      name: /Shutdown if communication is lost while previously on battery/i,
+    }));
+    fireEvent.click(await screen.findByLabelText('Only between'));
+    fireEvent.change(await screen.findByLabelText('Window starts'), { target: { value: '09:00' } });
+    fireEvent.change(screen.getByLabelText('Window ends'), { target: { value: '18:00' } });
+    fireEvent.click(screen.getByLabelText('Sun'));
+    fireEvent.click(screen.getByLabelText('Sat'));
+    fireEvent.change(screen.getByLabelText('Time zone'), {
+      target: { value: 'Europe/Berlin' },
+    });
+    fireEvent.change(screen.getByLabelText('settings.policyValue'), {
+      target: { value: '65' },
+    });
+
+    await waitFor(() => {
+      expect(savedTrigger()).toEqual({
+        all: [
+          { field: 'state.secondsOnBattery', op: 'gte', value: 65 },
+          { field: 'connection.secondsSinceLastSuccessfulPoll', op: 'gte', value: 300 },
+          {
+            timeWindow: {
+              start: '09:00',
+              end: '18:00',
+              days: [1, 2, 3, 4, 5],
+              timeZone: 'Europe/Berlin',
+            },
+          },
+        ],
+      });
+    });
+
+    fireEvent.click(screen.getByLabelText('Only between'));
+
+    await waitFor(() => {
+      expect(savedTrigger()).toEqual({
+        all: [
+          { field: 'state.secondsOnBattery', op: 'gte', value: 65 },
+          { field: 'connection.secondsSinceLastSuccessfulPoll', op: 'gte', value: 300 },
+        ],
+      });
+    });
+  });
+
   it('renders decision history entries returned from the mocked IPC bridge', async () => {
     mockDecisionLog = [
       {
@@ -294,10 +453,287 @@ describe('ShutdownPolicySettingsSection renderer flows', () => {
     renderPolicySection();
 
     expect(await screen.findByText('Battery countdown started')).toBeInTheDocument();
-    expect(screen.getByText('decision')).toBeInTheDocument();
+    expect(
+      screen.getByText('decision', { selector: '.policy-history-entry-event' }),
+    ).toBeInTheDocument();
     expect(screen.getAllByText(/default-battery-shutdown/).length).toBeGreaterThan(0);
   });
 
+  it('queries the persisted decision log with the selected filters', async () => {
+    renderPolicySection();
+    await waitFor(() => expect(mockGetDecisionLog).toHaveBeenCalledWith({
+      offset: 0,
+      limit: 50,
+    }));
+
+    fireEvent.change(screen.getByLabelText('Event type'), {
+      target: { value: 'failure' },
+    });
+    fireEvent.change(screen.getByLabelText('Rule'), {
+      target: { value: DEFAULT_BATTERY_SHUTDOWN_RULE_ID },
+    });
+    fireEvent.change(screen.getByLabelText('Search decisions'), {
+      target: { value: ' hook ' },
+    });
+
+    await waitFor(() => expect(mockGetDecisionLog).toHaveBeenLastCalledWith({
+      events: ['failure'],
+      ruleId: DEFAULT_BATTERY_SHUTDOWN_RULE_ID,
+      search: 'hook',
+      offset: 0,
+      limit: 50,
+    }));
+  });
+
+  it('saves pre-shutdown hooks and dry-runs the draft without executing it', async () => {
+    const onSave = vi.fn().mockResolvedValue(undefined);
+    mockDryRunHooks.mockImplementation(async ({ hooks }) =>
+      hooks.map((hook): PreShutdownHookResult => ({
+        hookId: hook.id,
+        name: hook.name,
+        command: hook.command,
+        args: hook.args,
+        success: false,
+        dryRun: true,
+        exitCode: null,
+        timedOut: false,
+        durationMs: 0,
+        stdout: '',
+        stderr: '',
+        errorMessage: `Command not found: ${hook.command}`,
+      })));
+    renderPolicySection(onSave);
+
+    fireEvent.click(screen.getByText('Add hook'));
+    fireEvent.change(screen.getByLabelText('Command'), {
+      target: { value: 'stop-vms' },
+    });
+    fireEvent.change(screen.getByLabelText('Arguments (one per line)'), {
+      target: { value: '--all\n--force' },
+    });
+    fireEvent.click(screen.getByText('Dry-run hooks'));
+
+    expect(await screen.findByText('Command not found: stop-vms')).toBeInTheDocument();
+    expect(mockDryRunHooks).toHaveBeenCalledWith({
+      hooks: [expect.objectContaining({ command: 'stop-vms', args: ['--all', '--force'] })],
+    });
+
+    fireEvent.click(screen.getByText('Save hooks'));
+
+    await waitFor(() => {
+      expect(onSave).toHaveBeenCalledWith(expect.objectContaining({
+        preShutdownHooks: [
+          expect.objectContaining({
+            id: 'hook-1',
+            command: 'stop-vms',
+            timeoutSeconds: 30,
+            onFailure: 'continue',
+          }),
+        ],
+      }));
+    });
+  });
+
+  it('backtests the current policy over the chosen range and lists the timeline', async () => {
+    mockBacktest.mockResolvedValue({
+      startIso: '2026-10-13T08:00:00.000Z',
+      endIso: '2026-10-13T12:00:00.000Z',
+      sampleCount: 1200,
+      shutdownAtIso: '2026-10-13T09:05:00.000Z',
+      events: [
+        {
+          timestampIso: '2026-10-13T09:03:00.000Z',
+          kind: 'countdownStarted',
+          ruleId: DEFAULT_BATTERY_SHUTDOWN_RULE_ID,
+          summary: 'Rule Battery shutdown matched and will start a 120s shutdown countdown.',
+          context: {
+            statusTokens: ['OB'],
+            batteryChargePercent: 19,
+            connectionState: 'connected',
+            secondsSinceLastSuccessfulPoll: 0,
+            secondsOnBattery: 180,
+          },
+        },
+      ],
+    });
+    renderPolicySection();
+
+    fireEvent.change(screen.getByLabelText('From'), {
+      target: { value: '2026-10-13T08:00' },
+    });
+    fireEvent.change(screen.getByLabelText('To'), {
+      target: { value: '2026-10-13T12:00' },
+    });
+    fireEvent.click(screen.getByText('Run backtest'));
+
+    expect(await screen.findByText(/would have shut the computer down/)).toBeInTheDocument();
+    expect(screen.getByText(/will start a 120s shutdown countdown/)).toBeInTheDocument();
+    expect(screen.getByText('OB, 19%, 180s on battery')).toBeInTheDocument();
+    expect(mockBacktest).toHaveBeenCalledWith({
+      policy: currentConfig.shutdownPolicy,
+      startIso: new Date('2026-10-13T08:00').toISOString(),
+      endIso: new Date('2026-10-13T12:00').toISOString(),
+    });
+  });
+
+  it('simulates a synthetic outage with a communication drop and charts the timeline', async () => {
+    mockSimulateOutage.mockResolvedValue({
+      durationSeconds: 394,
+      samples: [
+        { second: 0, chargePercent: 100, onBattery: true, connected: true },
+        { second: 394, chargePercent: 67, onBattery: true, connected: false },
+      ],
+      communicationDrops: [{ startSecond: 60, endSecond: 394 }],
+      lanes: [
+        {
+          ruleId: DEFAULT_COMMUNICATION_LOSS_RULE_ID,
+          ruleName: 'Communication lost',
+          holdForSeconds: 5,
+          matched: [{ startSecond: 359, endSecond: 394 }],
+        },
+      ],
+      events: [
+        {
+          second: 359,
+          kind: 'holdStarted',
+          ruleId: DEFAULT_COMMUNICATION_LOSS_RULE_ID,
+          summary: 'The trigger of Communication lost matched; it has to hold for 5s before the rule acts.',
+        },
+      ],
+      shutdownAtSecond: 394,
+    });
+    renderPolicySection();
+
+    fireEvent.change(screen.getByLabelText('Mains returns after (s)'), {
+      target: { value: '900' },
+    });
+    fireEvent.click(screen.getByText('Add drop'));
+    fireEvent.change(screen.getByLabelText('Lasts (s)'), {
+      target: { value: '600' },
+    });
+    fireEvent.change(screen.getByLabelText('Mains fails at'), {
+      target: { value: '2026-10-19T23:30' },
+    });
+    fireEvent.click(screen.getByText('Simulate outage'));
+
+    expect(await screen.findByText('The policy shuts the computer down 6:34 into the outage.'))
+      .toBeInTheDocument();
+    expect(screen.getByTestId('outage-timeline-chart')).toBeInTheDocument();
+    expect(screen.getByText(/has to hold for 5s before the rule acts/)).toBeInTheDocument();
+    expect(mockSimulateOutage).toHaveBeenCalledWith({
+      policy: currentConfig.shutdownPolicy,
+      scenario: {
+        startChargePercent: 100,
+        loadPercent: 40,
+        dischargePercentPerMinute: 5,
+        runtimeSource: 'reported',
+        restoreAfterSeconds: 900,
+        communicationDrops: [{ startSecond: 60, durationSeconds: 600 }],
+        startAtIso: new Date('2026-10-19T23:30').toISOString(),
+      },
+    });
+  });
+
+  it('shows the changes an imported policy makes before replacing the current one', async () => {
+    const onSave = vi.fn().mockResolvedValue(undefined);
+    const imported = createBuiltInShutdownPolicyPreset('earlyShutdown');
+    mockImportPolicy.mockResolvedValue({
+      cancelled: false,
+      filePath: 'C:\\policies\\office.json',
+      name: 'Office desktops',
+      policy: imported,
+      migrated: false,
+    });
+    renderPolicySection(onSave);
+
+    fireEvent.click(screen.getByText('Import policy'));
+
+    expect(
+      await screen.findByText('Replace the current policy with Office desktops'),
+    ).toBeInTheDocument();
+    expect(screen.getByText('Mode')).toBeInTheDocument();
+    expect(screen.getByText(
+      `Rule Shutdown when battery is critically low while on battery (${DEFAULT_BATTERY_SHUTDOWN_RULE_ID}): trigger`,
+    )).toBeInTheDocument();
+    expect(onSave).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Replace current policy'));
+
+    await waitFor(() => {
+      expect(onSave).toHaveBeenCalledWith({
+        ...imported,
+        preShutdownHooks: [],
+        primaryMode: { enabled: false, secondaryTimeoutSeconds: 60 },
+      });
+    });
+    expect(screen.queryByText('Replace current policy')).not.toBeInTheDocument();
+  });
+
+  it('reports files that cannot be imported without replacing anything', async () => {
+    const onSave = vi.fn().mockResolvedValue(undefined);
+    mockImportPolicy.mockResolvedValue({
+      cancelled: false,
+      filePath: 'policy.json',
+      error: 'The policy file was written by a newer version of the app (policy version 2). Update the app to import it.',
+    });
+    renderPolicySection(onSave);
+
+    fireEvent.click(screen.getByText('Import policy'));
+
+    expect(await screen.findByText(
+      'Could not import policy.json: The policy file was written by a newer version of the app (policy version 2). Update the app to import it.',
+    )).toBeInTheDocument();
+    expect(screen.queryByText('Replace current policy')).not.toBeInTheDocument();
+    expect(onSave).not.toHaveBeenCalled();
+  });
+
+  it('previews built-in presets and saves, applies and exports user presets', async () => {
+    const onSave = vi.fn().mockResolvedValue(undefined);
+    const onSavePresets = vi.fn().mockResolvedValue(undefined);
+    const saved = {
+      id: 'preset-1',
+      name: 'Lab machines',
+      savedAtIso: '2026-10-01T08:00:00.000Z',
+      policy: createBuiltInShutdownPolicyPreset('runtimeBased'),
+    };
+    currentConfig = { ...currentConfig, shutdownPolicyPresets: [saved] };
+    mockExportPolicy.mockResolvedValue({ cancelled: false, filePath: '/tmp/lab.json' });
+    renderPolicySection(onSave, onSavePresets);
+
+    fireEvent.click(screen.getByText('Follow the primary'));
+    expect(screen.getByText(
+      'Replace the current policy with Follow the primary',
+    )).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Cancel'));
+    expect(onSave).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('Preset name'), {
+      target: { value: '  Front desk  ' },
+    });
+    fireEvent.click(screen.getByText('Save current as preset'));
+    await waitFor(() => {
+      expect(onSavePresets).toHaveBeenCalledWith([
+        saved,
+        expect.objectContaining({
+          name: 'Front desk',
+          policy: expect.objectContaining({ mode: currentConfig.shutdownPolicy.mode }),
+        }),
+      ]);
+    });
+
+    fireEvent.click(screen.getByTitle('Export to a file'));
+    expect(await screen.findByText('Saved the policy to /tmp/lab.json.')).toBeInTheDocument();
+    expect(mockExportPolicy).toHaveBeenCalledWith({ policy: saved.policy, name: 'Lab machines' });
+
+    fireEvent.click(screen.getByText('Lab machines'));
+    fireEvent.click(screen.getByText('Replace current policy'));
+    await waitFor(() => {
+      expect(onSave).toHaveBeenCalledWith(expect.objectContaining({
+        rules: saved.policy.rules,
+      }));
+    });
+  });
+
   it('blocks invalid threshold saves at the UI layer with a visible error', async () => {
     render(<SettingsPage />);
 
@@ -312,13 +748,17 @@ describe('ShutdownPolicySettingsSection renderer flows', () => {
   });
 });
 
-function renderPolicySection(onSave = vi.fn().mockResolvedValue(undefined)) {
+function renderPolicySection(
+  onSave = vi.fn().mockResolvedValue(undefined),
+  onSavePresets = vi.fn().mockResolvedValue(undefined),
+) {
   return render(
     <ShutdownPolicySettingsSection
       config={currentConfig}
       batterySettings={currentConfig.battery}
       fsdSettings={currentConfig.fsd}
       onSave={onSave}
+      onSavePresets={onSavePresets}
     />,
   );
 }
\ No newline at end of file
@@ -4,12 +4,12 @@ import {
   ClipboardList,
   Copy,
   Plus,
-  RefreshCw,
   SlidersHorizontal,
   Trash2,
 } from 'lucide-react';
+import { estimateRuntimeSeconds } from '../../../shared/batteryHealth/runtimeEstimate';
+import type { RuntimeModelPoint } from '../../../shared/batteryHealth/types';
 import type { AppConfig } from '../../../shared/config/types';
-import { electronApi } from '../../app/electronApi';
 import {
   DEFAULT_COMMUNICATION_LOSS_RULE_ID,
   createCommunicationLossPolicy,
@@ -17,8 +17,14 @@ import {
   getNumericConditionValue,
   getRuleById,
 } from '../../../shared/shutdownPolicy/defaultPolicies';
-import { POLICY_FIELDS } from '../../../shared/shutdownPolicy/constants';
+import {
+  DEFAULT_POLICY_ACTION_TIMEOUT_SECONDS,
+  MAX_POLICY_ACTION_TIMEOUT_SECONDS,
+  MIN_POLICY_ACTION_TIMEOUT_SECONDS,
+  POLICY_FIELDS,
+} from '../../../shared/shutdownPolicy/constants';
 import { POLICY_FIELD_METADATA } from '../../../shared/shutdownPolicy/fieldMetadata';
+import { isValidTimeZone } from '../../../shared/shutdownPolicy/time';
 import {
   explainDecision,
   flattenConditionExplanation,
@@ -27,24 +33,34 @@ import { simulateShutdownPolicy } from '../../../shared/shutdownPolicy/simulator
 import type {
   PolicyCondition,
   PolicyField,
+  PreShutdownHook,
   PolicyOperator,
+  PolicyTimeWindow,
   ShutdownMethod,
   ShutdownPolicyConnectionState,
   ShutdownPolicyAction,
   ShutdownPolicyConfig,
   ShutdownPolicyContext,
-  ShutdownPolicyDecision,
-  ShutdownPolicyDecisionLogEntry,
+  ShutdownPolicyPreset,
   ShutdownPolicyRule,
   ShutdownPolicySeverity,
 } from '../../../shared/shutdownPolicy/types';
+import { electronApi } from '../../app/electronApi';
 import { UiButton, UiCheckbox, UiInput, UiSelect } from '../../components/ui';
+import { PolicyBacktest } from './PolicyBacktest';
+import { PolicyDecisionHistory } from './PolicyDecisionHistory';
+import { PolicyOutageSimulator } from './PolicyOutageSimulator';
+import { PolicyPresetGallery } from './PolicyPresetGallery';
+import { parseDateTimeLocalValue, toDateTimeLocalValue } from './localDateTime';
+import { PreShutdownHooksEditor } from './PreShutdownHooksEditor';
+import { PrimaryModeEditor } from './PrimaryModeEditor';
 
 type ShutdownPolicySettingsSectionProps = {
   config: AppConfig;
   batterySettings: AppConfig['battery'];
   fsdSettings: AppConfig['fsd'];
   onSave: (shutdownPolicy: ShutdownPolicyConfig) => Promise<void>;
+  onSavePresets: (presets: ShutdownPolicyPreset[]) => Promise<void>;
 };
 
 const severityOptions: ShutdownPolicySeverity[] = [
@@ -60,10 +76,17 @@ const actionOptions: ShutdownPolicyAction['type'][] = [
   'startShutdownCountdown',
   'shutdownNow',
   'cancelShutdownCountdown',
+  'runCommand',
+  'sendWebhook',
+  'notifyOnly',
 ];
 
 type SimulatorStatusToken = 'OL' | 'OB' | 'LB' | 'FSD';
 
+type SimulatorRuntimeSource = 'reported' | 'estimated';
+
+const NO_PRE_SHUTDOWN_HOOKS: PreShutdownHook[] = [];
+
 const simulatorStatusTokenOptions: SimulatorStatusToken[] = [
   'OL',
   'OB',
@@ -76,6 +99,7 @@ export function ShutdownPolicySettingsSection({
   batterySettings,
   fsdSettings,
   onSave,
+  onSavePresets,
 }: ShutdownPolicySettingsSectionProps) {
   const { t } = useTranslation();
   const policy = config.shutdownPolicy as ShutdownPolicyConfig;
@@ -92,41 +116,6 @@ export function ShutdownPolicySettingsSection({
     [policy.rules, selectedRuleId],
   );
   const communicationSettings = getCommunicationLossSettings(communicationRule);
-  const [decisionLog, setDecisionLog] = useState<ShutdownPolicyDecisionLogEntry[]>([]);
-  const [decisionLogError, setDecisionLogError] = useState<string | null>(null);
-
-  const refreshDecisionLog = async () => {
-    try {
-      setDecisionLog(await electronApi.shutdownPolicy.getDecisionLog());
-      setDecisionLogError(null);
-    } catch (error) {
-      setDecisionLogError(
-        error instanceof Error ? error.message : String(error),
-      );
-    }
-  };
-
-  useEffect(() => {
-    let cancelled = false;
-    void electronApi.shutdownPolicy.getDecisionLog()
-      .then((entries) => {
-        if (!cancelled) {
-          setDecisionLog(entries);
-          setDecisionLogError(null);
-        }
-      })
-      .catch((error: unknown) => {
-        if (!cancelled) {
-          setDecisionLogError(
-            error instanceof Error ? error.message : String(error),
-          );
-        }
-      });
-
-    return () => {
-      cancelled = true;
-    };
-  }, []);
 
   const saveSimplePolicy = async (
     overrides: Partial<ReturnType<typeof getCommunicationLossSettings>> = {},
@@ -353,14 +342,23 @@ export function ShutdownPolicySettingsSection({
           </div>
         )}
 
-        <PolicySimulator policy={policy} />
-        <PolicyDecisionHistory
-          entries={decisionLog}
-          error={decisionLogError}
-          onRefresh={() => {
-            void refreshDecisionLog();
-          }}
+        <PolicyPresetGallery
+          policy={policy}
+          presets={config.shutdownPolicyPresets as ShutdownPolicyPreset[]}
+          onApply={savePolicy}
+          onSavePresets={onSavePresets}
+        />
+        <PreShutdownHooksEditor
+          hooks={policy.preShutdownHooks ?? NO_PRE_SHUTDOWN_HOOKS}
+          onSave={(preShutdownHooks) => savePolicy({ ...policy, preShutdownHooks })}
         />
+        <PrimaryModeEditor
+          primaryMode={policy.primaryMode}
+          onSave={(primaryMode) => savePolicy({ ...policy, primaryMode })}
+        />
+        <PolicySimulator policy={policy} />
+        <PolicyBacktest policy={policy} />
+        <PolicyDecisionHistory rules={policy.rules} />
       </div>
     </section>
   );
@@ -435,7 +433,13 @@ function PolicySimulator({ policy }: { policy: ShutdownPolicyConfig }) {
     FSD: false,
   });
   const [batteryChargePercent, setBatteryChargePercent] = useState(18);
+  const [runtimeSource, setRuntimeSource] =
+    useState<SimulatorRuntimeSource>('reported');
   const [runtimeSeconds, setRuntimeSeconds] = useState(240);
+  const [loadPercent, setLoadPercent] = useState(40);
+  const [runtimeModel, setRuntimeModel] = useState<RuntimeModelPoint[] | null>(null);
+  const [batteryHealthPercent, setBatteryHealthPercent] = useState(100);
+  const [batteryReplaceSoon, setBatteryReplaceSoon] = useState(false);
   const [connectionState, setConnectionState] =
     useState<ShutdownPolicyConnectionState>('connected');
   const [
@@ -443,11 +447,51 @@ function PolicySimulator({ policy }: { policy: ShutdownPolicyConfig }) {
     setSecondsSinceLastSuccessfulPoll,
   ] = useState(0);
   const [secondsOnBattery, setSecondsOnBattery] = useState(120);
+  const [localTime, setLocalTime] = useState(() => toDateTimeLocalValue(Date.now()));
+
+  useEffect(() => {
+    if (runtimeSource !== 'estimated') {
+      return undefined;
+    }
+
+    let mounted = true;
+    electronApi.batteryHealth
+      .get()
+      .then((report) => {
+        if (mounted) {
+          setRuntimeModel(report.runtimeModel);
+        }
+      })
+      .catch(() => {
+        if (mounted) {
+          setRuntimeModel([]);
+        }
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, [runtimeSource]);
+
+  // The estimate uses the discharges learned for the primary UPS, the same
+  // model the live policy falls back to when `battery.runtime` is missing.
+  const estimatedRuntimeSeconds = useMemo(
+    () =>
+      runtimeModel
+        ? estimateRuntimeSeconds(runtimeModel, {
+            chargePercent: batteryChargePercent,
+            loadPercent,
+          })
+        : null,
+    [batteryChargePercent, loadPercent, runtimeModel],
+  );
 
   const context = useMemo<ShutdownPolicyContext>(() => {
     const statusTokens = simulatorStatusTokens(status);
+    const estimated = runtimeSource === 'estimated';
     return {
-      now: Date.now(),
+      // Time-of-day conditions read the wall clock from `now`.
+      now: parseDateTimeLocalValue(localTime) ?? Date.now(),
       ups: {
         online: status.OL,
         onBattery: status.OB,
@@ -457,7 +501,12 @@ function PolicySimulator({ policy }: { policy: ShutdownPolicyConfig }) {
       },
       battery: {
         chargePercent: batteryChargePercent,
-        runtimeSeconds,
+        runtimeSeconds: estimated
+          ? estimatedRuntimeSeconds ?? undefined
+          : runtimeSeconds,
+        runtimeEstimated: estimated,
+        healthPercent: batteryHealthPercent,
+        replaceSoon: batteryReplaceSoon,
       },
       connection: {
         state: connectionState,
@@ -472,8 +521,13 @@ function PolicySimulator({ policy }: { policy: ShutdownPolicyConfig }) {
     };
   }, [
     batteryChargePercent,
+    batteryHealthPercent,
+    batteryReplaceSoon,
     connectionState,
+    estimatedRuntimeSeconds,
+    localTime,
     runtimeSeconds,
+    runtimeSource,
     secondsOnBattery,
     secondsSinceLastSuccessfulPoll,
     status,
@@ -534,18 +588,88 @@ function PolicySimulator({ policy }: { policy: ShutdownPolicyConfig }) {
           />
         </div>
         <div className="form-group">
-          <label className="form-label" htmlFor="policy-simulator-runtime">
-            {t('settings.policySimulatorRuntime')}
+          <label className="form-label" htmlFor="policy-simulator-runtime-source">
+            {t('settings.policySimulatorRuntimeSource')}
+          </label>
+          <UiSelect
+            id="policy-simulator-runtime-source"
+            className="telemetry-select"
+            value={runtimeSource}
+            onChange={(event) =>
+              setRuntimeSource(event.target.value as SimulatorRuntimeSource)}
+          >
+            <option value="reported">
+              {t('settings.policySimulatorRuntimeReported')}
+            </option>
+            <option value="estimated">
+              {t('settings.policySimulatorRuntimeEstimated')}
+            </option>
+          </UiSelect>
+        </div>
+        {runtimeSource === 'reported' ? (
+          <div className="form-group">
+            <label className="form-label" htmlFor="policy-simulator-runtime">
+              {t('settings.policySimulatorRuntime')}
+            </label>
+            <UiInput
+              id="policy-simulator-runtime"
+              className="form-input form-input--narrow"
+              type="number"
+              min={0}
+              value={runtimeSeconds}
+              onChange={(event) => setRuntimeSeconds(Number(event.target.value))}
+            />
+          </div>
+        ) : (
+          <div className="form-group">
+            <label className="form-label" htmlFor="policy-simulator-load">
+              {t('settings.policySimulatorLoad')}
+            </label>
+            <UiInput
+              id="policy-simulator-load"
+              className="form-input form-input--narrow"
+              type="number"
+              min={0}
+              max={100}
+              value={loadPercent}
+              onChange={(event) => setLoadPercent(Number(event.target.value))}
+            />
+            <p className="form-hint">
+              {estimatedRuntimeSeconds === null
+                ? t('settings.policySimulatorNoEstimate')
+                : t('settings.policySimulatorEstimatedRuntime', {
+                    seconds: estimatedRuntimeSeconds,
+                  })}
+            </p>
+          </div>
+        )}
+        <div className="form-group">
+          <label className="form-label" htmlFor="policy-simulator-health">
+            {t('settings.policySimulatorHealth')}
           </label>
           <UiInput
-            id="policy-simulator-runtime"
+            id="policy-simulator-health"
             className="form-input form-input--narrow"
             type="number"
             min={0}
-            value={runtimeSeconds}
-            onChange={(event) => setRuntimeSeconds(Number(event.target.value))}
+            max={100}
+            value={batteryHealthPercent}
+            onChange={(event) =>
+              setBatteryHealthPercent(Number(event.target.value))}
           />
         </div>
+        <div className="form-group">
+          <span className="form-label">{t('settings.policySimulatorBatteryHealth')}</span>
+          <label className="form-toggle">
+            <UiCheckbox
+              checked={batteryReplaceSoon}
+              onChange={(event) => setBatteryReplaceSoon(event.target.checked)}
+            />
+            <span className="form-toggle-label">
+              {t('settings.policySimulatorReplaceSoon')}
+            </span>
+          </label>
+        </div>
         <div className="form-group">
           <label className="form-label" htmlFor="policy-simulator-connection">
             {t('settings.policySimulatorConnection')}
@@ -591,6 +715,18 @@ function PolicySimulator({ policy }: { policy: ShutdownPolicyConfig }) {
             onChange={(event) => setSecondsOnBattery(Number(event.target.value))}
           />
         </div>
+        <div className="form-group">
+          <label className="form-label" htmlFor="policy-simulator-local-time">
+            {t('settings.policySimulatorLocalTime', 'Local time')}
+          </label>
+          <UiInput
+            id="policy-simulator-local-time"
+            className="form-input"
+            type="datetime-local"
+            value={localTime}
+            onChange={(event) => setLocalTime(event.target.value)}
+          />
+        </div>
       </div>
 
       <div className="policy-simulator-result">
@@ -646,94 +782,129 @@ function PolicySimulator({ policy }: { policy: ShutdownPolicyConfig }) {
           </details>
         ))}
       </div>
+
+      <PolicyOutageSimulator policy={policy} />
     </div>
   );
 }
 
-function PolicyDecisionHistory({
-  entries,
-  error,
-  onRefresh,
+function RunCommandActionFields({
+  action,
+  onUpdate,
 }: {
-  entries: ShutdownPolicyDecisionLogEntry[];
-  error: string | null;
-  onRefresh: () => void;
+  action: Extract<ShutdownPolicyAction, { type: 'runCommand' }>;
+  onUpdate: (patch: Partial<ShutdownPolicyRule>) => void;
 }) {
   const { t } = useTranslation();
+  const update = (patch: Partial<typeof action>) =>
+    onUpdate({ action: { ...action, ...patch } });
 
   return (
-    <div className="policy-tool-panel">
-      <div className="policy-history-header">
-        <div className="policy-editor-title">
-          <ClipboardList size={16} />
-          <span>{t('settings.policyDecisionHistory')}</span>
-        </div>
-        <UiButton
-          type="button"
-          className="policy-icon-btn"
-          title={t('settings.policyDecisionHistoryRefresh')}
-          onClick={onRefresh}
-        >
-          <RefreshCw size={16} />
-        </UiButton>
+    <>
+      <div className="form-group">
+        <label className="form-label" htmlFor="policy-action-command">
+          {t('settings.policyActionCommand', 'Command')}
+        </label>
+        <UiInput
+          id="policy-action-command"
+          className="form-input"
+          value={action.command}
+          placeholder="/usr/local/bin/on-power-event"
+          onChange={(event) => update({ command: event.target.value })}
+        />
+      </div>
+      <div className="form-group">
+        <label className="form-label" htmlFor="policy-action-args">
+          {t('settings.policyActionArgs', 'Arguments (one per line)')}
+        </label>
+        <textarea
+          id="policy-action-args"
+          className="form-input pre-shutdown-hook-args"
+          rows={2}
+          value={action.args.join('\n')}
+          onChange={(event) =>
+            update({
+              args: event.target.value === '' ? [] : event.target.value.split('\n'),
+            })}
+        />
+        <span className="form-hint">
+          {t(
+            'settings.policyActionCommandHint',
+            'Runs once each time the rule starts matching. UPS_STATUS, UPS_BATTERY_CHARGE, UPS_BATTERY_RUNTIME, UPS_ON_BATTERY, UPS_POLICY_RULE_ID and related variables describe the current state.',
+          )}
+        </span>
       </div>
+      <PolicyActionTimeoutField
+        value={action.timeoutSeconds}
+        onChange={(timeoutSeconds) => update({ timeoutSeconds })}
+      />
+    </>
+  );
+}
 
-      {error && (
-        <div className="policy-history-error">
-          {t('settings.policyDecisionHistoryFailed', { reason: error })}
-        </div>
-      )}
+function SendWebhookActionFields({
+  action,
+  onUpdate,
+}: {
+  action: Extract<ShutdownPolicyAction, { type: 'sendWebhook' }>;
+  onUpdate: (patch: Partial<ShutdownPolicyRule>) => void;
+}) {
+  const { t } = useTranslation();
 
-      {entries.length === 0 ? (
-        <div className="policy-history-empty">
-          {t('settings.policyDecisionHistoryEmpty')}
-        </div>
-      ) : (
-        <div className="policy-history-list">
-          {entries.map((entry) => (
-            <div className="policy-history-entry" key={entry.id}>
-              <div className="policy-history-entry-main">
-                <span className="policy-history-entry-time">
-                  {new Date(entry.timestampIso).toLocaleString()}
-                </span>
-                <span className={`policy-history-entry-event policy-history-entry-event--${entry.event}`}>
-                  {entry.event}
-                </span>
-              </div>
-              <div className="policy-history-entry-summary">
-                {entry.summary}
-              </div>
-              <div className="policy-history-entry-meta">
-                {entry.ruleName ?? entry.ruleId ?? formatPolicyDecision(entry.decision)}
-                {' / '}
-                {formatLogContext(entry)}
-              </div>
-              {entry.execution?.errorMessage && (
-                <div className="policy-history-entry-error">
-                  {entry.execution.errorMessage}
-                </div>
-              )}
-              {entry.conditionExplanation && entry.conditionExplanation.length > 0 && (
-                <details className="policy-history-entry-details">
-                  <summary>{t('settings.policyDecisionHistoryConditions')}</summary>
-                  <ul className="policy-explanation-lines">
-                    {entry.conditionExplanation.map((line, index) => (
-                      <li
-                        className={line.startsWith('PASS')
-                          ? 'policy-explanation-line--pass'
-                          : 'policy-explanation-line--fail'}
-                        key={`${entry.id}-${line}-${index}`}
-                      >
-                        {line}
-                      </li>
-                    ))}
-                  </ul>
-                </details>
-              )}
-            </div>
-          ))}
-        </div>
-      )}
+  return (
+    <>
+      <div className="form-group">
+        <label className="form-label" htmlFor="policy-action-url">
+          {t('settings.policyActionUrl', 'Webhook URL')}
+        </label>
+        <UiInput
+          id="policy-action-url"
+          className="form-input"
+          type="url"
+          value={action.url}
+          placeholder="https://example.com/ups-webhook"
+          onChange={(event) =>
+            onUpdate({ action: { ...action, url: event.target.value } })}
+        />
+        <span className="form-hint">
+          {t(
+            'settings.policyActionUrlHint',
+            'Receives an HTTP POST with the decision and UPS context as JSON each time the rule starts matching.',
+          )}
+        </span>
+      </div>
+      <PolicyActionTimeoutField
+        value={action.timeoutSeconds}
+        onChange={(timeoutSeconds) =>
+          onUpdate({ action: { ...action, timeoutSeconds } })}
+      />
+    </>
+  );
+}
+
+function PolicyActionTimeoutField({
+  value,
+  onChange,
+}: {
+  value: number;
+  onChange: (timeoutSeconds: number) => void;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="form-group">
+      <label className="form-label" htmlFor="policy-action-timeout">
+        {t('settings.policyActionTimeout', 'Timeout (seconds)')}
+      </label>
+      <UiInput
+        id="policy-action-timeout"
+        className="form-input form-input--narrow"
+        type="number"
+        min={MIN_POLICY_ACTION_TIMEOUT_SECONDS}
+        max={MAX_POLICY_ACTION_TIMEOUT_SECONDS}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+      />
     </div>
   );
 }
@@ -884,6 +1055,35 @@ function PolicyRuleEditor({
         </div>
       )}
 
+      {rule.action.type === 'runCommand' && (
+        <RunCommandActionFields action={rule.action} onUpdate={onUpdate} />
+      )}
+
+      {rule.action.type === 'sendWebhook' && (
+        <SendWebhookActionFields action={rule.action} onUpdate={onUpdate} />
+      )}
+
+      {rule.action.type === 'notifyOnly' && (
+        <div className="form-group">
+          <label className="form-label" htmlFor="policy-action-message">
+            {t('settings.policyActionMessage', 'Notification text (optional)')}
+          </label>
+          <UiInput
+            id="policy-action-message"
+            className="form-input"
+            maxLength={500}
+            value={rule.action.message ?? ''}
+            onChange={(event) =>
+              onUpdate({
+                action: {
+                  type: 'notifyOnly',
+                  message: event.target.value.trim() ? event.target.value : undefined,
+                },
+              })}
+          />
+        </div>
+      )}
+
       <div className="policy-condition-builder">
         <div className="policy-editor-title">
           <span>{t('settings.policyCondition')}</span>
@@ -973,6 +1173,14 @@ function PolicyRuleEditor({
             />
           </div>
         )}
+        {editableCondition.field.startsWith('time.') && (
+          <p className="form-hint">
+            {t(
+              'settings.policyTimeFieldHint',
+              'Read from this computer\'s clock when the rule is evaluated. Hours run 0-23 and days 0 (Sunday) to 6 (Saturday).',
+            )}
+          </p>
+        )}
         <label className="form-toggle">
           <UiCheckbox
             checked={editableCondition.requireOnBattery}
@@ -991,11 +1199,159 @@ function PolicyRuleEditor({
             {t('settings.policyRequireOnBattery')}
           </span>
         </label>
+        <PolicyTimeWindowFields
+          trigger={rule.trigger}
+          fallback={createEditableTrigger(
+            editableCondition.field,
+            editableCondition.operator,
+            editableCondition.value,
+            editableCondition.requireOnBattery,
+          )}
+          onChange={(trigger) => onUpdate({ trigger })}
+        />
       </div>
     </div>
   );
 }
 
+const WEEKDAY_TEXT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+const DEFAULT_TIME_WINDOW: PolicyTimeWindow = { start: '22:00', end: '06:00' };
+
+/**
+ * Edits a time window kept beside the editable condition in the trigger's
+ * top-level `all`. Windows nested deeper are left alone.
+ */
+function PolicyTimeWindowFields({
+  trigger,
+  fallback,
+  onChange,
+}: {
+  trigger: PolicyCondition;
+  fallback: PolicyCondition;
+  onChange: (trigger: PolicyCondition) => void;
+}) {
+  const { t } = useTranslation();
+  const timeWindow = getTriggerTimeWindow(trigger);
+  const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const update = (patch: Partial<PolicyTimeWindow>) => {
+    const next: PolicyTimeWindow = { ...timeWindow, ...patch };
+    if (!next.days) {
+      delete next.days;
+    }
+    if (!next.timeZone) {
+      delete next.timeZone;
+    }
+    onChange(setTriggerTimeWindow(trigger, next, fallback));
+  };
+
+  const toggleDay = (day: number, checked: boolean) => {
+    const current = timeWindow?.days ?? ALL_WEEKDAYS;
+    const next = checked
+      ? [...current, day].sort((a, b) => a - b)
+      : current.filter((entry) => entry !== day);
+    update({ days: next.length === ALL_WEEKDAYS.length ? undefined : next });
+  };
+
+  return (
+    <div className="policy-time-window">
+      <label className="form-toggle">
+        <UiCheckbox
+          checked={timeWindow !== null}
+          onChange={(event) =>
+            onChange(setTriggerTimeWindow(
+              trigger,
+              event.target.checked ? DEFAULT_TIME_WINDOW : null,
+              fallback,
+            ))}
+        />
+        <span className="form-toggle-label">
+          {t('settings.policyTimeWindow', 'Only between')}
+        </span>
+      </label>
+      {timeWindow && (
+        <>
+          <div className="form-row form-row--two">
+            <div className="form-group">
+              <label className="form-label" htmlFor="policy-time-window-start">
+                {t('settings.policyTimeWindowStart', 'Window starts')}
+              </label>
+              <UiInput
+                id="policy-time-window-start"
+                className="form-input form-input--narrow"
+                type="time"
+                value={timeWindow.start}
+                onChange={(event) => {
+                  if (event.target.value) {
+                    update({ start: event.target.value.slice(0, 5) });
+                  }
+                }}
+              />
+            </div>
+            <div className="form-group">
+              <label className="form-label" htmlFor="policy-time-window-end">
+                {t('settings.policyTimeWindowEnd', 'Window ends')}
+              </label>
+              <UiInput
+                id="policy-time-window-end"
+                className="form-input form-input--narrow"
+                type="time"
+                value={timeWindow.end}
+                onChange={(event) => {
+                  if (event.target.value) {
+                    update({ end: event.target.value.slice(0, 5) });
+                  }
+                }}
+              />
+            </div>
+          </div>
+          <div className="policy-time-window-days">
+            {ALL_WEEKDAYS.map((day) => {
+              const checked = !timeWindow.days || timeWindow.days.includes(day);
+              return (
+                <label className="form-toggle" key={day}>
+                  <UiCheckbox
+                    checked={checked}
+                    disabled={checked && timeWindow.days?.length === 1}
+                    onChange={(event) => toggleDay(day, event.target.checked)}
+                  />
+                  <span className="form-toggle-label">
+                    {t(`settings.policyWeekdays.${day}`, WEEKDAY_TEXT[day])}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+          <div className="form-group">
+            <label className="form-label" htmlFor="policy-time-window-zone">
+              {t('settings.policyTimeWindowZone', 'Time zone')}
+            </label>
+            <UiInput
+              id="policy-time-window-zone"
+              className="form-input"
+              placeholder={localTimeZone}
+              value={timeWindow.timeZone ?? ''}
+              onChange={(event) => update({ timeZone: event.target.value.trim() || undefined })}
+            />
+            {timeWindow.timeZone && !isValidTimeZone(timeWindow.timeZone) && (
+              <span className="policy-history-error">
+                {t('settings.policyTimeWindowZoneInvalid', 'Unknown time zone. Use a name like Europe/Berlin.')}
+              </span>
+            )}
+          </div>
+          <p className="form-hint">
+            {t(
+              'settings.policyTimeWindowHint',
+              'The window includes its start and ends just before its end. A window that ends before it starts runs past midnight, and the days are the days it starts on. Leave the time zone empty to follow this computer\'s clock.',
+            )}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
 type PolicyTemplate =
   | 'batteryPercent'
   | 'runtime'
@@ -1086,34 +1442,15 @@ function formatPolicyAction(action: ShutdownPolicyAction): string {
     return `${action.type} ${action.countdownSeconds}s`;
   }
 
-  return action.type;
-}
+  if (action.type === 'runCommand') {
+    return `${action.type} ${action.command}`;
+  }
 
-function formatPolicyDecision(decision: ShutdownPolicyDecision): string {
-  switch (decision.type) {
-    case 'none':
-      return 'none';
-    case 'showWarning':
-    case 'showCriticalAlert':
-    case 'cancelShutdownCountdown':
-      return decision.type;
-    case 'startShutdownCountdown':
-      return `${decision.type} ${decision.countdownSeconds}s`;
-    case 'shutdownNow':
-      return `${decision.type} ${decision.method}`;
-    default:
-      return assertNever(decision);
+  if (action.type === 'sendWebhook') {
+    return `${action.type} ${action.url}`;
   }
-}
 
-function formatLogContext(entry: ShutdownPolicyDecisionLogEntry): string {
-  const tokens = entry.context.statusTokens.length > 0
-    ? entry.context.statusTokens.join(' ')
-    : 'no status';
-  const charge = entry.context.batteryChargePercent === undefined
-    ? 'charge unknown'
-    : `${entry.context.batteryChargePercent}%`;
-  return `${tokens}, ${charge}, ${entry.context.connectionState}`;
+  return action.type;
 }
 
 function simulatorStatusTokens(
@@ -1141,6 +1478,21 @@ function createAction(actionType: ShutdownPolicyAction['type']): ShutdownPolicyA
       };
     case 'cancelShutdownCountdown':
       return { type: 'cancelShutdownCountdown' };
+    case 'runCommand':
+      return {
+        type: 'runCommand',
+        command: '',
+        args: [],
+        timeoutSeconds: DEFAULT_POLICY_ACTION_TIMEOUT_SECONDS,
+      };
+    case 'sendWebhook':
+      return {
+        type: 'sendWebhook',
+        url: '',
+        timeoutSeconds: DEFAULT_POLICY_ACTION_TIMEOUT_SECONDS,
+      };
+    case 'notifyOnly':
+      return { type: 'notifyOnly' };
     default:
       return assertNever(actionType);
   }
@@ -1193,7 +1545,9 @@ function updateEditableTrigger(
   const nextLeaf = createEditableLeaf(field, operator, value);
   const baseCondition = stripOnBatteryRequirement(originalCondition) ?? nextLeaf;
   const [updatedCondition, replaced] = replaceFirstEditableLeaf(baseCondition, nextLeaf);
-  const nextCondition = replaced ? updatedCondition : nextLeaf;
+  const nextCondition = replaced
+    ? updatedCondition
+    : setTriggerTimeWindow(nextLeaf, getTriggerTimeWindow(originalCondition), nextLeaf);
 
   return requireOnBattery
     ? ensureOnBatteryRequirement(nextCondition)
@@ -1209,7 +1563,7 @@ function conditionIncludesOnBattery(condition: PolicyCondition): boolean {
     return condition.any.some(conditionIncludesOnBattery);
   }
 
-  if ('not' in condition) {
+  if ('not' in condition || 'timeWindow' in condition) {
     return false;
   }
 
@@ -1241,6 +1595,10 @@ function findFirstEditableLeaf(
     return findFirstEditableLeaf(condition.not);
   }
 
+  if ('timeWindow' in condition) {
+    return null;
+  }
+
   return condition;
 }
 
@@ -1299,6 +1657,10 @@ function replaceFirstEditableLeaf(
     return [{ not: nextCondition }, replaced];
   }
 
+  if ('timeWindow' in condition) {
+    return [condition, false];
+  }
+
   return isOnBatteryRequirementLeaf(condition)
     ? [condition, false]
     : [nextLeaf, true];
@@ -1340,9 +1702,51 @@ function stripOnBatteryRequirement(condition: PolicyCondition): PolicyCondition
     return nextCondition ? { not: nextCondition } : null;
   }
 
+  if ('timeWindow' in condition) {
+    return condition;
+  }
+
   return isOnBatteryRequirementLeaf(condition) ? null : condition;
 }
 
+function getTriggerTimeWindow(condition: PolicyCondition): PolicyTimeWindow | null {
+  if ('timeWindow' in condition) {
+    return condition.timeWindow;
+  }
+
+  if ('all' in condition) {
+    for (const child of condition.all) {
+      if ('timeWindow' in child) {
+        return child.timeWindow;
+      }
+    }
+  }
+
+  return null;
+}
+
+function setTriggerTimeWindow(
+  condition: PolicyCondition,
+  timeWindow: PolicyTimeWindow | null,
+  fallback: PolicyCondition,
+): PolicyCondition {
+  let children: PolicyCondition[];
+  if ('timeWindow' in condition) {
+    children = [];
+  } else if ('all' in condition) {
+    children = condition.all.filter((child) => !('timeWindow' in child));
+  } else {
+    children = [condition];
+  }
+
+  if (timeWindow) {
+    children.push({ timeWindow });
+  }
+
+  // Removing the only window from a trigger leaves the condition the editor shows.
+  return simplifyConditionGroup('all', children) ?? fallback;
+}
+
 function simplifyConditionGroup(
   kind: 'all' | 'any',
   children: PolicyCondition[],
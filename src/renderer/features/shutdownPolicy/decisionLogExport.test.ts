@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { ShutdownPolicyDecisionLogEntry } from '../../../shared/shutdownPolicy/types';
+import { formatDecisionLogExport } from './decisionLogExport';
+
+const entry: ShutdownPolicyDecisionLogEntry = {
+  id: 'failure-1',
+  timestampIso: '2026-05-14T12:00:00.000Z',
+  event: 'failure',
+  decision: { type: 'shutdownNow', ruleId: 'rule-1', method: 'shutdown' },
+  ruleId: 'rule-1',
+  ruleName: '=cmd "quoted", rule',
+  summary: 'Shutdown command failed: exit 1',
+  context: {
+    statusTokens: ['OB', 'LB'],
+    batteryChargePercent: 9,
+    connectionState: 'connected',
+    secondsSinceLastSuccessfulPoll: 0,
+    secondsOnBattery: 600,
+  },
+  execution: {
+    method: 'shutdown',
+    platform: 'linux',
+    supported: true,
+    success: false,
+    errorMessage: 'exit 1',
+  },
+};
+
+describe('formatDecisionLogExport()', () => {
+  it('writes one escaped CSV row per entry', () => {
+    const csv = formatDecisionLogExport([entry], 'csv');
+
+    expect(csv.split('\r\n')).toEqual([
+      'timestamp,event,decision,rule_id,rule_name,summary,ups_status,battery_charge_pct,runtime_seconds,connection_state,seconds_on_battery,error',
+      `2026-05-14T12:00:00.000Z,failure,shutdownNow,rule-1,"'=cmd ""quoted"", rule",Shutdown command failed: exit 1,OB LB,9,,connected,600,exit 1`,
+      '',
+    ]);
+  });
+
+  it('writes the full entries as JSON', () => {
+    expect(JSON.parse(formatDecisionLogExport([entry], 'json'))).toEqual([entry]);
+  });
+});
@@ -0,0 +1,70 @@
+import type { ShutdownPolicyDecisionLogEntry } from '../../../shared/shutdownPolicy/types';
+
+export type DecisionLogExportFormat = 'csv' | 'json';
+
+const CSV_COLUMNS: Array<{
+  header: string;
+  value: (entry: ShutdownPolicyDecisionLogEntry) => string | number | undefined;
+}> = [
+  { header: 'timestamp', value: (entry) => entry.timestampIso },
+  { header: 'event', value: (entry) => entry.event },
+  { header: 'decision', value: (entry) => entry.decision.type },
+  { header: 'rule_id', value: (entry) => entry.ruleId },
+  { header: 'rule_name', value: (entry) => entry.ruleName },
+  { header: 'summary', value: (entry) => entry.summary },
+  { header: 'ups_status', value: (entry) => entry.context.statusTokens.join(' ') },
+  { header: 'battery_charge_pct', value: (entry) => entry.context.batteryChargePercent },
+  { header: 'runtime_seconds', value: (entry) => entry.context.runtimeSeconds },
+  { header: 'connection_state', value: (entry) => entry.context.connectionState },
+  { header: 'seconds_on_battery', value: (entry) => entry.context.secondsOnBattery },
+  {
+    header: 'error',
+    value: (entry) => entry.execution?.errorMessage ?? entry.actionResult?.errorMessage,
+  },
+];
+
+export function formatDecisionLogExport(
+  entries: ShutdownPolicyDecisionLogEntry[],
+  format: DecisionLogExportFormat,
+): string {
+  if (format === 'json') {
+    return `${JSON.stringify(entries, null, 2)}\n`;
+  }
+
+  const lines = [
+    CSV_COLUMNS.map((column) => column.header).join(','),
+    ...entries.map((entry) =>
+      CSV_COLUMNS.map((column) => formatCsvCell(column.value(entry))).join(',')),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+export function downloadDecisionLogExport(
+  entries: ShutdownPolicyDecisionLogEntry[],
+  format: DecisionLogExportFormat,
+  now = new Date(),
+): void {
+  const blob = new Blob([formatDecisionLogExport(entries, format)], {
+    type: format === 'json' ? 'application/json' : 'text/csv',
+  });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `shutdown-policy-decisions-${now.toISOString().slice(0, 10)}.${format}`;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatCsvCell(value: string | number | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+  // Keep spreadsheet apps from evaluating rule names or messages as formulas.
+  if (/^[=+\-@]/u.test(text) && typeof value === 'string') {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/u.test(text) ? `"${text.replace(/"/gu, '""')}"` : text;
+}
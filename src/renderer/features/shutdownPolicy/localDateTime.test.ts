@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { parseDateTimeLocalValue, toDateTimeLocalValue } from './localDateTime';
+
+describe('localDateTime', () => {
+  it('round-trips a local time through the input format', () => {
+    const ms = new Date(2026, 9, 19, 7, 5).getTime();
+
+    expect(toDateTimeLocalValue(ms)).toBe('2026-10-19T07:05');
+    expect(parseDateTimeLocalValue('2026-10-19T07:05')).toBe(ms);
+  });
+
+  it('rejects empty and malformed values', () => {
+    expect(parseDateTimeLocalValue('')).toBeNull();
+    expect(parseDateTimeLocalValue('2026-10-19')).toBeNull();
+    expect(parseDateTimeLocalValue('2026-13-45T99:99')).toBeNull();
+  });
+});
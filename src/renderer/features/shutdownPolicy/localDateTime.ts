@@ -0,0 +1,21 @@
+/** Formats an instant for a `datetime-local` input, in this computer's time zone. */
+export function toDateTimeLocalValue(ms: number): string {
+  const date = new Date(ms);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Reads a `datetime-local` value as local time. Returns null for empty or
+ * malformed values; a time skipped by a DST change resolves the way the
+ * platform's Date does, which is to the instant after the gap.
+ */
+export function parseDateTimeLocalValue(value: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/u.test(value)) {
+    return null;
+  }
+
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? null : ms;
+}
@@ -0,0 +1,81 @@
+import type { TFunction } from 'i18next';
+import { describe, expect, it } from 'vitest';
+import type { ShutdownPolicyOutageSimulationResult } from '../../../shared/shutdownPolicy/types';
+import {
+  buildOutageTimelineOption,
+  formatOutageSecond,
+} from './outageTimelineChart';
+
+const t = ((key: string, fallback?: string) => fallback ?? key) as unknown as TFunction;
+
+const RESULT: ShutdownPolicyOutageSimulationResult = {
+  durationSeconds: 400,
+  samples: [
+    { second: 0, chargePercent: 100, onBattery: true, connected: true },
+    { second: 400, chargePercent: 60, onBattery: true, connected: false },
+  ],
+  communicationDrops: [{ startSecond: 30, endSecond: 400 }],
+  lanes: [
+    {
+      ruleId: 'warn',
+      ruleName: 'Warn',
+      holdForSeconds: 0,
+      matched: [{ startSecond: 0, endSecond: 400 }],
+    },
+    {
+      ruleId: 'comms',
+      ruleName: 'Comms lost',
+      holdForSeconds: 5,
+      matched: [{ startSecond: 329, endSecond: 394 }],
+    },
+  ],
+  events: [
+    { second: 0, kind: 'warning', ruleId: 'warn', summary: 'Warned.' },
+    { second: 329, kind: 'holdStarted', ruleId: 'comms', summary: 'Hold.' },
+    { second: 334, kind: 'countdownStarted', ruleId: 'comms', summary: 'Countdown.' },
+    { second: 394, kind: 'shutdown', ruleId: 'comms', summary: 'Shut down.' },
+  ],
+  shutdownAtSecond: 394,
+};
+
+describe('outageTimelineChart', () => {
+  it('formats seconds since the outage began', () => {
+    expect(formatOutageSecond(0)).toBe('0:00');
+    expect(formatOutageSecond(334)).toBe('5:34');
+    expect(formatOutageSecond(3725)).toBe('1:02:05');
+  });
+
+  it('draws one lane per rule with its matched stretches and markers', () => {
+    const option = buildOutageTimelineOption(RESULT, t);
+    const series = option.series as { type: string; data: unknown[] }[];
+    const yAxes = option.yAxis as { data?: string[] }[];
+
+    expect(yAxes[1].data).toEqual(['Warn', 'Comms lost']);
+    expect(series[1].data).toEqual([
+      [0, 0, 400],
+      [1, 329, 394],
+    ]);
+    expect(series[2].data).toEqual([
+      expect.objectContaining({ value: [0, 0], name: '0:00 warning' }),
+      expect.objectContaining({ value: [329, 1], name: '5:29 holdStarted' }),
+      expect.objectContaining({ value: [334, 1], name: '5:34 countdownStarted' }),
+      expect.objectContaining({ value: [394, 1], name: '6:34 shutdown' }),
+    ]);
+  });
+
+  it('shades the outage and communication drops and marks the shutdown', () => {
+    const option = buildOutageTimelineOption(RESULT, t);
+    const charge = (option.series as {
+      markArea: { data: [{ xAxis: number }, { xAxis: number }][] };
+      markLine: { data: { xAxis: number }[] };
+    }[])[0];
+
+    expect(charge.markArea.data.map(([from, to]) => [from.xAxis, to.xAxis])).toEqual([
+      [0, 400],
+      [30, 400],
+    ]);
+    expect(charge.markLine.data).toEqual([
+      expect.objectContaining({ xAxis: 394 }),
+    ]);
+  });
+});
@@ -0,0 +1,210 @@
+import type {
+  CustomSeriesRenderItemAPI,
+  CustomSeriesRenderItemParams,
+  CustomSeriesRenderItemReturn,
+  EChartsOption,
+} from 'echarts';
+import type { TFunction } from 'i18next';
+import type {
+  ShutdownPolicyOutageEventKind,
+  ShutdownPolicyOutageSimulationResult,
+} from '../../../shared/shutdownPolicy/types';
+
+const CHARGE_GRID_TOP = 28;
+const CHARGE_GRID_HEIGHT = 110;
+const LANE_GRID_TOP = CHARGE_GRID_TOP + CHARGE_GRID_HEIGHT + 36;
+const LANE_HEIGHT = 26;
+const AXIS_LABEL_SPACE = 28;
+
+const CHARGE_COLOR = '#10a37f';
+const MATCHED_COLOR = 'rgba(59, 130, 246, 0.35)';
+const OUTAGE_AREA_COLOR = 'rgba(245, 158, 11, 0.12)';
+const DROP_AREA_COLOR = 'rgba(100, 116, 139, 0.25)';
+
+const EVENT_STYLES: Record<ShutdownPolicyOutageEventKind, { color: string; symbol: string }> = {
+  holdStarted: { color: '#f59e0b', symbol: 'circle' },
+  countdownStarted: { color: '#ef4444', symbol: 'triangle' },
+  countdownCancelled: { color: '#10a37f', symbol: 'diamond' },
+  shutdown: { color: '#991b1b', symbol: 'rect' },
+  batteryDepleted: { color: '#991b1b', symbol: 'rect' },
+  warning: { color: '#3b82f6', symbol: 'pin' },
+  criticalAlert: { color: '#3b82f6', symbol: 'pin' },
+  notification: { color: '#3b82f6', symbol: 'pin' },
+  runCommand: { color: '#3b82f6', symbol: 'pin' },
+  sendWebhook: { color: '#3b82f6', symbol: 'pin' },
+};
+
+/** Seconds since the outage began as m:ss, or h:mm:ss past the hour. */
+export function formatOutageSecond(second: number): string {
+  const hours = Math.floor(second / 3600);
+  const minutes = Math.floor((second % 3600) / 60);
+  const seconds = Math.floor(second % 60);
+  const mmss = `${String(minutes).padStart(hours > 0 ? 2 : 1, '0')}:${String(seconds).padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+export function outageTimelineHeight(laneCount: number): number {
+  return LANE_GRID_TOP + Math.max(laneCount, 1) * LANE_HEIGHT + AXIS_LABEL_SPACE;
+}
+
+/**
+ * Charge on top, one lane per enabled rule below. A lane is filled while the
+ * rule's trigger matches, so the gap between the bar's start and the rule's
+ * first marker is its hold timer.
+ */
+export function buildOutageTimelineOption(
+  result: ShutdownPolicyOutageSimulationResult,
+  t: TFunction,
+): EChartsOption {
+  const end = Math.max(result.durationSeconds, 1);
+  const laneIndexByRuleId = new Map(
+    result.lanes.map((lane, index) => [lane.ruleId, index]),
+  );
+  const onBatteryEnd = result.restoredAtSecond ?? end;
+
+  const eventLabel = (kind: ShutdownPolicyOutageEventKind) =>
+    t(`settings.policyOutageEvents.${kind}`, kind);
+  const xAxis = {
+    type: 'value' as const,
+    min: 0,
+    max: end,
+    axisLabel: { formatter: (value: number) => formatOutageSecond(value) },
+    splitLine: { show: false },
+  };
+
+  return {
+    animation: false,
+    tooltip: {
+      trigger: 'item',
+      backgroundColor: 'var(--color-bg-card)',
+      borderColor: 'var(--color-border)',
+      textStyle: { color: 'var(--color-text)', fontSize: 12 },
+    },
+    grid: [
+      { top: CHARGE_GRID_TOP, height: CHARGE_GRID_HEIGHT, left: 140, right: 24 },
+      {
+        top: LANE_GRID_TOP,
+        height: Math.max(result.lanes.length, 1) * LANE_HEIGHT,
+        left: 140,
+        right: 24,
+      },
+    ],
+    xAxis: [
+      { ...xAxis, gridIndex: 0, axisLabel: { show: false } },
+      { ...xAxis, gridIndex: 1 },
+    ],
+    yAxis: [
+      {
+        type: 'value',
+        gridIndex: 0,
+        min: 0,
+        max: 100,
+        name: t('settings.policyOutageChargeAxis', 'Charge %'),
+        axisLabel: { formatter: '{value}%' },
+      },
+      {
+        type: 'category',
+        gridIndex: 1,
+        inverse: true,
+        data: result.lanes.map((lane) => lane.ruleName),
+        axisLabel: { width: 120, overflow: 'truncate' },
+      },
+    ],
+    series: [
+      {
+        type: 'line',
+        name: t('settings.policyOutageChargeAxis', 'Charge %'),
+        xAxisIndex: 0,
+        yAxisIndex: 0,
+        showSymbol: false,
+        data: result.samples.map((sample) => [sample.second, sample.chargePercent]),
+        lineStyle: { color: CHARGE_COLOR, width: 2 },
+        itemStyle: { color: CHARGE_COLOR },
+        tooltip: { show: false },
+        markArea: {
+          silent: true,
+          data: [
+            [
+              {
+                name: t('settings.policyOutageOnBattery', 'On battery'),
+                xAxis: 0,
+                itemStyle: { color: OUTAGE_AREA_COLOR },
+              },
+              { xAxis: onBatteryEnd },
+            ],
+            ...result.communicationDrops.map((drop) => [
+              {
+                name: t('settings.policyOutageDrop', 'No communication'),
+                xAxis: drop.startSecond,
+                itemStyle: { color: DROP_AREA_COLOR },
+              },
+              { xAxis: drop.endSecond },
+            ] as [{ name: string; xAxis: number; itemStyle: { color: string } }, { xAxis: number }]),
+          ],
+          label: { position: 'insideTop', fontSize: 10 },
+        },
+        markLine: {
+          silent: true,
+          symbol: 'none',
+          data: result.events
+            .filter((event) => event.kind === 'shutdown' || event.kind === 'batteryDepleted')
+            .map((event) => ({
+              xAxis: event.second,
+              name: eventLabel(event.kind),
+              lineStyle: { color: EVENT_STYLES[event.kind].color, type: 'solid' as const },
+            })),
+          label: { formatter: '{b}', fontSize: 10 },
+        },
+      },
+      {
+        type: 'custom',
+        name: 'matched',
+        xAxisIndex: 1,
+        yAxisIndex: 1,
+        encode: { x: [1, 2], y: 0 },
+        data: result.lanes.flatMap((lane, laneIndex) =>
+          lane.matched.map((interval) => [laneIndex, interval.startSecond, interval.endSecond])),
+        renderItem: renderMatchedInterval,
+        tooltip: { show: false },
+      },
+      {
+        type: 'scatter',
+        name: 'events',
+        xAxisIndex: 1,
+        yAxisIndex: 1,
+        symbolSize: 11,
+        data: result.events
+          .filter((event) => event.ruleId !== undefined && laneIndexByRuleId.has(event.ruleId))
+          .map((event) => ({
+            value: [event.second, laneIndexByRuleId.get(event.ruleId!)!],
+            name: `${formatOutageSecond(event.second)} ${eventLabel(event.kind)}`,
+            symbol: EVENT_STYLES[event.kind].symbol,
+            itemStyle: { color: EVENT_STYLES[event.kind].color },
+          })),
+        tooltip: { formatter: '{b}' },
+      },
+    ],
+  };
+}
+
+function renderMatchedInterval(
+  _params: CustomSeriesRenderItemParams,
+  api: CustomSeriesRenderItemAPI,
+): CustomSeriesRenderItemReturn {
+  const lane = api.value(0);
+  const start = api.coord([api.value(1), lane]);
+  const end = api.coord([api.value(2), lane]);
+  const size = api.size?.([0, 1]);
+  const height = (Array.isArray(size) ? size[1] : LANE_HEIGHT) * 0.5;
+
+  return {
+    type: 'rect',
+    shape: {
+      x: start[0],
+      y: start[1] - height / 2,
+      width: Math.max(end[0] - start[0], 2),
+      height,
+    },
+    style: { fill: MATCHED_COLOR },
+  };
+}
@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { electronApi } from '../../app/electronApi';
+import type {
+  TelemetryColumn,
+  TelemetryExportFormat,
+} from '../../../shared/ipc/contracts';
+import { TELEMETRY_EXPORT_FORMATS } from '../../../shared/telemetry/constants';
+import {
+  UiButton,
+  UiCheckbox,
+  UiDialog,
+  UiDialogPanel,
+  UiDialogTitle,
+  UiInput,
+  UiSelect,
+} from '../../components/ui';
+import { parseDateTimeInputValue, toDateTimeInputValue } from './dateTimeInput';
+
+type TelemetryExportDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  upsId: string;
+  columns: Array<{ key: TelemetryColumn; title: string }>;
+  defaultStart: Date;
+  defaultEnd: Date;
+};
+
+type ExportFeedback = { type: 'success' | 'error'; text: string };
+
+/** Picks a range, columns and format, then lets the main process write the file. */
+export function TelemetryExportDialog({
+  open,
+  onClose,
+  upsId,
+  columns,
+  defaultStart,
+  defaultEnd,
+}: TelemetryExportDialogProps) {
+  const { t } = useTranslation();
+  const [format, setFormat] = useState<TelemetryExportFormat>('csv');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [selectedColumns, setSelectedColumns] = useState<TelemetryColumn[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState<ExportFeedback | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    setStart(toDateTimeInputValue(defaultStart));
+    setEnd(toDateTimeInputValue(defaultEnd));
+    setSelectedColumns(columns.map((column) => column.key));
+    setFeedback(null);
+  }, [open]);
+
+  useEffect(
+    () =>
+      electronApi.events.onTelemetryExportProgress(({ percentage }) => {
+        setProgress(percentage);
+      }),
+    [],
+  );
+
+  const startDate = parseDateTimeInputValue(start);
+  const endDate = parseDateTimeInputValue(end);
+  const rangeValid = startDate !== null && endDate !== null && startDate < endDate;
+
+  const toggleColumn = (column: TelemetryColumn, checked: boolean) => {
+    setSelectedColumns((previous) =>
+      checked
+        ? columns.map((item) => item.key).filter((key) => key === column || previous.includes(key))
+        : previous.filter((key) => key !== column),
+    );
+  };
+
+  const handleExport = async () => {
+    if (!startDate || !endDate) {
+      return;
+    }
+
+    setExporting(true);
+    setProgress(null);
+    setFeedback(null);
+    try {
+      const result = await electronApi.telemetry.export({
+        upsId,
+        startIso: startDate.toISOString(),
+        endIso: endDate.toISOString(),
+        columns: selectedColumns,
+        format,
+      });
+      if (!result.cancelled) {
+        const done = t('telemetry.exportDone', {
+          count: result.rowCount ?? 0,
+          path: result.filePath ?? '',
+        });
+        setFeedback({
+          type: 'success',
+          text: result.rolledUpBeforeIso
+            ? `${done} ${t('telemetry.exportRolledUp', {
+              time: new Date(result.rolledUpBeforeIso).toLocaleString(),
+            })}`
+            : done,
+        });
+      }
+    } catch (error) {
+      setFeedback({
+        type: 'error',
+        text: t('telemetry.exportFailed', {
+          reason: error instanceof Error ? error.message : String(error),
+        }),
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <UiDialog
+      as="div"
+      open={open}
+      onClose={exporting ? () => undefined : onClose}
+      className="dashboard-dialog-layer"
+    >
+      <UiDialogPanel className="dashboard-dialog-card telemetry-export-dialog">
+        <UiDialogTitle as="h3" className="dashboard-dialog-title">
+          {t('telemetry.exportTitle')}
+        </UiDialogTitle>
+
+        <div className="form-row--two">
+          <label className="form-group">
+            <span className="form-label">{t('telemetry.exportStart')}</span>
+            <UiInput
+              className="form-input"
+              type="datetime-local"
+              value={start}
+              onChange={(event) => setStart(event.target.value)}
+              disabled={exporting}
+            />
+          </label>
+          <label className="form-group">
+            <span className="form-label">{t('telemetry.exportEnd')}</span>
+            <UiInput
+              className="form-input"
+              type="datetime-local"
+              value={end}
+              onChange={(event) => setEnd(event.target.value)}
+              disabled={exporting}
+            />
+          </label>
+        </div>
+
+        <label className="form-group">
+          <span className="form-label">{t('telemetry.exportFormat')}</span>
+          <UiSelect
+            className="telemetry-select"
+            value={format}
+            onChange={(event) => setFormat(event.target.value as TelemetryExportFormat)}
+            disabled={exporting}
+          >
+            {TELEMETRY_EXPORT_FORMATS.map((option) => (
+              <option key={option} value={option}>
+                {t(`telemetry.exportFormats.${option}`)}
+              </option>
+            ))}
+          </UiSelect>
+        </label>
+
+        <fieldset className="telemetry-export-columns" disabled={exporting}>
+          <legend className="form-label">{t('telemetry.exportColumns')}</legend>
+          {columns.map((column) => (
+            <label key={column.key} className="telemetry-export-column">
+              <UiCheckbox
+                checked={selectedColumns.includes(column.key)}
+                onChange={(event) => toggleColumn(column.key, event.target.checked)}
+              />
+              <span>{column.title}</span>
+            </label>
+          ))}
+        </fieldset>
+
+        {exporting && (
+          <div className="telemetry-export-progress" role="status">
+            <progress max={100} value={progress ?? undefined} />
+            <span>
+              {progress === null
+                ? t('telemetry.exportRunning')
+                : t('telemetry.exportProgress', { percentage: Math.round(progress) })}
+            </span>
+          </div>
+        )}
+
+        {!rangeValid && (
+          <span className="ups-commands-feedback ups-commands-feedback--error">
+            {t('telemetry.exportInvalidRange')}
+          </span>
+        )}
+
+        {feedback && (
+          <span className={`ups-commands-feedback ups-commands-feedback--${feedback.type}`}>
+            {feedback.text}
+          </span>
+        )}
+
+        <div className="dashboard-dialog-actions">
+          <UiButton
+            type="button"
+            className="btn btn--secondary"
+            onClick={onClose}
+            disabled={exporting}
+          >
+            {t('telemetry.exportClose')}
+          </UiButton>
+          <UiButton
+            type="button"
+            className="btn btn--primary"
+            onClick={() => {
+              void handleExport();
+            }}
+            disabled={exporting || !rangeValid || selectedColumns.length === 0}
+          >
+            {exporting ? t('telemetry.exporting') : t('telemetry.exportAction')}
+          </UiButton>
+        </div>
+      </UiDialogPanel>
+    </UiDialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  panTelemetryWindow,
+  zoomOutTelemetryWindow,
+  zoomTelemetryWindow,
+} from './chartWindow';
+
+const range = {
+  upsId: 'rack-2',
+  start: new Date('2026-05-14T10:00:00.000Z'),
+  end: new Date('2026-05-14T12:00:00.000Z'),
+};
+const now = Date.parse('2026-05-15T00:00:00.000Z');
+
+describe('zoomTelemetryWindow()', () => {
+  it('uses the dragged range in either direction', () => {
+    expect(
+      zoomTelemetryWindow(
+        range,
+        Date.parse('2026-05-14T11:30:00.000Z'),
+        Date.parse('2026-05-14T11:00:00.000Z'),
+      ),
+    ).toEqual({
+      upsId: 'rack-2',
+      start: new Date('2026-05-14T11:00:00.000Z'),
+      end: new Date('2026-05-14T11:30:00.000Z'),
+    });
+  });
+
+  it('widens tiny selections to the minimum span', () => {
+    const centre = Date.parse('2026-05-14T11:00:00.000Z');
+
+    expect(zoomTelemetryWindow(range, centre, centre + 10_000)).toMatchObject({
+      start: new Date('2026-05-14T10:59:35.000Z'),
+      end: new Date('2026-05-14T11:00:35.000Z'),
+    });
+  });
+});
+
+describe('zoomOutTelemetryWindow()', () => {
+  it('doubles the span around the centre', () => {
+    expect(zoomOutTelemetryWindow(range, now)).toMatchObject({
+      start: new Date('2026-05-14T09:00:00.000Z'),
+      end: new Date('2026-05-14T13:00:00.000Z'),
+    });
+  });
+
+  it('keeps the span but stops at the current time', () => {
+    expect(zoomOutTelemetryWindow(range, Date.parse('2026-05-14T12:30:00.000Z'))).toMatchObject({
+      start: new Date('2026-05-14T08:30:00.000Z'),
+      end: new Date('2026-05-14T12:30:00.000Z'),
+    });
+  });
+});
+
+describe('panTelemetryWindow()', () => {
+  it('moves by half the span', () => {
+    expect(panTelemetryWindow(range, -1, now)).toMatchObject({
+      start: new Date('2026-05-14T09:00:00.000Z'),
+      end: new Date('2026-05-14T11:00:00.000Z'),
+    });
+    expect(panTelemetryWindow(range, 1, now)).toMatchObject({
+      start: new Date('2026-05-14T11:00:00.000Z'),
+      end: new Date('2026-05-14T13:00:00.000Z'),
+    });
+  });
+
+  it('does not pan past the current time', () => {
+    expect(panTelemetryWindow(range, 1, Date.parse('2026-05-14T12:20:00.000Z'))).toMatchObject({
+      start: new Date('2026-05-14T10:20:00.000Z'),
+      end: new Date('2026-05-14T12:20:00.000Z'),
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import type { TelemetryWindow } from '../powerEvents/telemetryWindow';
+
+/** Narrowest range drag-to-zoom may produce. */
+export const MIN_TELEMETRY_WINDOW_MS = 60 * 1000;
+/** Share of the current span moved by one pan step. */
+const PAN_RATIO = 0.5;
+
+/** Zooms into a dragged selection, widened around its centre to the minimum span. */
+export function zoomTelemetryWindow(
+  range: TelemetryWindow,
+  startMs: number,
+  endMs: number,
+): TelemetryWindow {
+  const from = Math.min(startMs, endMs);
+  const to = Math.max(startMs, endMs);
+  const padding = Math.max(0, (MIN_TELEMETRY_WINDOW_MS - (to - from)) / 2);
+  return {
+    ...range,
+    start: new Date(from - padding),
+    end: new Date(to + padding),
+  };
+}
+
+/** Doubles the span around the current centre without reaching past `now`. */
+export function zoomOutTelemetryWindow(
+  range: TelemetryWindow,
+  now = Date.now(),
+): TelemetryWindow {
+  const span = range.end.getTime() - range.start.getTime();
+  const centre = range.start.getTime() + span / 2;
+  return clampToNow(range, centre - span, centre + span, now);
+}
+
+/** Moves the range by half its span; panning forward stops at `now`. */
+export function panTelemetryWindow(
+  range: TelemetryWindow,
+  direction: -1 | 1,
+  now = Date.now(),
+): TelemetryWindow {
+  const span = range.end.getTime() - range.start.getTime();
+  const offset = span * PAN_RATIO * direction;
+  return clampToNow(
+    range,
+    range.start.getTime() + offset,
+    range.end.getTime() + offset,
+    now,
+  );
+}
+
+function clampToNow(
+  range: TelemetryWindow,
+  startMs: number,
+  endMs: number,
+  now: number,
+): TelemetryWindow {
+  const shift = Math.max(0, endMs - now);
+  return {
+    ...range,
+    start: new Date(startMs - shift),
+    end: new Date(endMs - shift),
+  };
+}
@@ -0,0 +1,17 @@
+/** Formats a date for `<input type="datetime-local">`, which works in local time. */
+export function toDateTimeInputValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours(),
+  )}:${pad(date.getMinutes())}`;
+}
+
+/** Parses a `datetime-local` value as local time; null when empty or invalid. */
+export function parseDateTimeInputValue(value: string): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
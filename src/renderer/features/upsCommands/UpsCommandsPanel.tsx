@@ -0,0 +1,352 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { Disclosure, Transition } from '@headlessui/react';
+import { ChevronDown, TriangleAlert } from 'lucide-react';
+import type { TFunction } from 'i18next';
+import { useTranslation } from 'react-i18next';
+import { electronApi } from '../../app/electronApi';
+import type {
+  ConnectionState,
+  NutInstantCommand,
+  NutRunCommandResult,
+} from '../../../shared/ipc/contracts';
+import {
+  acceptsInstantCommandValue,
+  isDangerousInstantCommand,
+} from '../../../shared/nut/instantCommands';
+import {
+  UiButton,
+  UiDialog,
+  UiDialogPanel,
+  UiDialogTitle,
+  UiInput,
+} from '../../components/ui';
+
+type CommandFeedback = {
+  type: 'success' | 'error' | 'info';
+  text: string;
+};
+
+type UpsCommandsPanelProps = {
+  connectionState: ConnectionState;
+  upsId?: string;
+};
+
+export function UpsCommandsPanel({ connectionState, upsId }: UpsCommandsPanelProps) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState(false);
+  const [commands, setCommands] = useState<NutInstantCommand[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [runningCommand, setRunningCommand] = useState<string | null>(null);
+  const [pendingConfirmation, setPendingConfirmation] =
+    useState<NutInstantCommand | null>(null);
+  const [feedback, setFeedback] = useState<Record<string, CommandFeedback>>({});
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const sessionReady =
+    connectionState === 'ready' || connectionState === 'degraded';
+
+  const loadCommands = useCallback(async () => {
+    setLoading(true);
+    setLoadError(null);
+    try {
+      setCommands(await electronApi.nut.listCommands({ upsId }));
+    } catch (error) {
+      setLoadError(
+        error instanceof Error
+          ? error.message
+          : t('dashboard.commandsLoadFailed', 'Failed to load UPS commands.'),
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [t, upsId]);
+
+  useEffect(() => {
+    if (expanded && sessionReady && commands === null && !loading && !loadError) {
+      void loadCommands();
+    }
+  }, [commands, expanded, loadCommands, loadError, loading, sessionReady]);
+
+  const getCommandValue = (command: NutInstantCommand): string | undefined =>
+    acceptsInstantCommandValue(command.name)
+      ? values[command.name]?.trim() || undefined
+      : undefined;
+
+  const runCommand = async (command: NutInstantCommand) => {
+    setRunningCommand(command.name);
+    setFeedback((previous) => {
+      const next = { ...previous };
+      delete next[command.name];
+      return next;
+    });
+
+    try {
+      const result = await electronApi.nut.runCommand({
+        upsId,
+        command: command.name,
+        value: getCommandValue(command),
+      });
+      setFeedback((previous) => ({
+        ...previous,
+        [command.name]: describeCommandResult(result, t),
+      }));
+    } catch (error) {
+      setFeedback((previous) => ({
+        ...previous,
+        [command.name]: {
+          type: 'error',
+          text: error instanceof Error ? error.message : String(error),
+        },
+      }));
+    } finally {
+      setRunningCommand(null);
+    }
+  };
+
+  const requestRun = (command: NutInstantCommand) => {
+    if (isDangerousInstantCommand(command.name)) {
+      setPendingConfirmation(command);
+      return;
+    }
+
+    void runCommand(command);
+  };
+
+  return (
+    <Disclosure>
+      {({ open }) => (
+        <section className="dashboard-static">
+          <Disclosure.Button
+            className="dashboard-static-toggle"
+            type="button"
+            onClick={() => setExpanded(!open)}
+          >
+            <span className="dashboard-static-title">
+              {t('dashboard.commandsTitle', 'UPS Commands')}
+            </span>
+            <span
+              className={`dashboard-static-chevron ${
+                open ? 'dashboard-static-chevron--open' : ''
+              }`}
+            >
+              <ChevronDown size={16} />
+            </span>
+          </Disclosure.Button>
+
+          <Transition
+            as={Fragment}
+            show={open}
+            enter="disclosure-motion"
+            enterFrom="disclosure-motion--closed"
+            enterTo="disclosure-motion--open"
+            leave="disclosure-motion"
+            leaveFrom="disclosure-motion--open"
+            leaveTo="disclosure-motion--closed"
+          >
+            <Disclosure.Panel className="disclosure-motion-panel ups-commands">
+              <div className="ups-commands-toolbar">
+                <span className="ups-commands-hint">
+                  {t(
+                    'dashboard.commandsHint',
+                    'Instant commands are sent to the UPS through upsd and require a NUT user with instcmds permission.',
+                  )}
+                </span>
+                <UiButton
+                  type="button"
+                  className="btn btn--secondary"
+                  onClick={() => {
+                    void loadCommands();
+                  }}
+                  disabled={!sessionReady || loading}
+                >
+                  {loading
+                    ? t('dashboard.commandsLoading', 'Loading...')
+                    : t('dashboard.commandsRefresh', 'Refresh')}
+                </UiButton>
+              </div>
+
+              {!sessionReady && (
+                <p className="ups-commands-empty">
+                  {t(
+                    'dashboard.commandsUnavailable',
+                    'Commands are available once the UPS connection is ready.',
+                  )}
+                </p>
+              )}
+
+              {loadError && (
+                <p className="ups-commands-feedback ups-commands-feedback--error" role="alert">
+                  {loadError}
+                </p>
+              )}
+
+              {sessionReady && commands?.length === 0 && (
+                <p className="ups-commands-empty">
+                  {t('dashboard.commandsEmpty', 'This UPS does not expose any instant commands.')}
+                </p>
+              )}
+
+              {commands && commands.length > 0 && (
+                <ul className="ups-commands-list">
+                  {commands.map((command) => {
+                    const dangerous = isDangerousInstantCommand(command.name);
+                    const takesValue = acceptsInstantCommandValue(command.name);
+                    const commandFeedback = feedback[command.name];
+                    return (
+                      <li key={command.name} className="ups-command-row">
+                        <div className="ups-command-info">
+                          <span className="ups-command-name">
+                            {command.name}
+                            {dangerous && (
+                              <span className="ups-command-danger-badge">
+                                <TriangleAlert size={12} />
+                                {t('dashboard.commandsDangerous', 'Affects power')}
+                              </span>
+                            )}
+                          </span>
+                          {command.description && (
+                            <span className="ups-command-description">
+                              {command.description}
+                            </span>
+                          )}
+                          {commandFeedback && (
+                            <span
+                              className={`ups-commands-feedback ups-commands-feedback--${commandFeedback.type}`}
+                            >
+                              {commandFeedback.text}
+                            </span>
+                          )}
+                        </div>
+                        <div className="ups-command-actions">
+                          {takesValue && (
+                            <UiInput
+                              className="form-input ups-command-value"
+                              aria-label={t('dashboard.commandsValueLabel', 'Value for {{command}}', {
+                                command: command.name,
+                              })}
+                              placeholder={t('dashboard.commandsValuePlaceholder', 'Value (optional)')}
+                              value={values[command.name] ?? ''}
+                              maxLength={256}
+                              onChange={(event) => {
+                                const { value } = event.target;
+                                setValues((previous) => ({ ...previous, [command.name]: value }));
+                              }}
+                            />
+                          )}
+                          <UiButton
+                            type="button"
+                            className="btn btn--secondary"
+                            onClick={() => requestRun(command)}
+                            disabled={!sessionReady || runningCommand !== null}
+                          >
+                            {runningCommand === command.name
+                              ? t('dashboard.commandsRunning', 'Running...')
+                              : t('dashboard.commandsRun', 'Run')}
+                          </UiButton>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </Disclosure.Panel>
+          </Transition>
+
+          <UiDialog
+            as="div"
+            open={pendingConfirmation !== null}
+            onClose={() => setPendingConfirmation(null)}
+            className="dashboard-dialog-layer"
+          >
+            <UiDialogPanel className="dashboard-dialog-card">
+              <UiDialogTitle as="h3" className="dashboard-dialog-title">
+                {t('dashboard.commandsConfirmTitle', 'Run {{command}}?', {
+                  command: pendingConfirmation
+                    ? [pendingConfirmation.name, getCommandValue(pendingConfirmation)]
+                      .filter(Boolean)
+                      .join(' ')
+                    : '',
+                })}
+              </UiDialogTitle>
+              <p className="dashboard-dialog-body">
+                {t(
+                  'dashboard.commandsConfirmBody',
+                  'This command can switch off the UPS output or drain the battery. Equipment connected to the UPS may lose power.',
+                )}
+              </p>
+              {pendingConfirmation?.description && (
+                <p className="dashboard-dialog-note">
+                  {pendingConfirmation.description}
+                </p>
+              )}
+              <div className="dashboard-dialog-actions">
+                <UiButton
+                  type="button"
+                  className="btn btn--secondary"
+                  onClick={() => setPendingConfirmation(null)}
+                >
+                  {t('dashboard.commandsCancel', 'Cancel')}
+                </UiButton>
+                <UiButton
+                  type="button"
+                  className="btn btn--primary ups-command-confirm-run"
+                  onClick={() => {
+                    const command = pendingConfirmation;
+                    setPendingConfirmation(null);
+                    if (command) {
+                      void runCommand(command);
+                    }
+                  }}
+                >
+                  {t('dashboard.commandsConfirmRun', 'Run command')}
+                </UiButton>
+              </div>
+            </UiDialogPanel>
+          </UiDialog>
+        </section>
+      )}
+    </Disclosure>
+  );
+}
+
+function describeCommandResult(
+  result: NutRunCommandResult,
+  t: TFunction,
+): CommandFeedback {
+  if (!result.success) {
+    return {
+      type: 'error',
+      text: result.error
+        ? t('dashboard.commandsFailedWithReason', 'Command failed: {{reason}}', {
+          reason: result.error,
+        })
+        : t('dashboard.commandsFailed', 'Command failed.'),
+    };
+  }
+
+  if (result.status === 'pending') {
+    return {
+      type: 'info',
+      text: t(
+        'dashboard.commandsPending',
+        'Command accepted; the driver has not reported a result yet.',
+      ),
+    };
+  }
+
+  if (result.status === 'untracked') {
+    return {
+      type: 'info',
+      text: t(
+        'dashboard.commandsUntracked',
+        'Command sent. This upsd does not support result tracking.',
+      ),
+    };
+  }
+
+  return {
+    type: 'success',
+    text: t('dashboard.commandsSucceeded', 'Command completed successfully.'),
+  };
+}
@@ -0,0 +1,37 @@
+import { useTranslation } from 'react-i18next';
+import { useUpsDevices } from '../../app/providers';
+import { UiSelect } from '../../components/ui';
+
+type UpsDeviceSwitcherProps = {
+  disabled?: boolean;
+};
+
+/** Device picker shared by the Dashboard and Telemetry pages. Hidden for single-UPS setups. */
+export function UpsDeviceSwitcher({ disabled = false }: UpsDeviceSwitcherProps) {
+  const { t } = useTranslation();
+  const { devices, selectedUpsId, selectUps } = useUpsDevices();
+
+  if (devices.length < 2) {
+    return null;
+  }
+
+  return (
+    <UiSelect
+      value={selectedUpsId}
+      onChange={(event) => selectUps(event.target.value)}
+      className="telemetry-select ups-device-switcher"
+      aria-label={t('dashboard.deviceSwitcherLabel', 'UPS device')}
+      disabled={disabled}
+    >
+      {devices.map((device) => (
+        <option key={device.id} value={device.id}>
+          {t('dashboard.deviceSwitcherOption', '{{name}} ({{upsName}}@{{host}})', {
+            name: device.name,
+            upsName: device.upsName,
+            host: device.host,
+          })}
+        </option>
+      ))}
+    </UiSelect>
+  );
+}
@@ -0,0 +1,313 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2 } from 'lucide-react';
+import type { AppConfig, AppConfigPatch } from '../../../shared/config/types';
+import type { NutTlsSettings } from '../../../shared/nut/tls';
+import { createUpsTargetId } from '../../../shared/ups/upsTargets';
+import { UiButton, UiInput } from '../../components/ui';
+import { isNutTlsFormValid, NutTlsForm } from '../../pages/setupWizard/NutTlsForm';
+
+type NutTargetDraft = NonNullable<AppConfig['nut']['targets']>[number];
+
+type UpsTargetsSettingsSectionProps = {
+  config: AppConfig;
+  onSave: (nut: NonNullable<AppConfigPatch['nut']>) => Promise<void>;
+};
+
+const MAX_ADDITIONAL_TARGETS = 16;
+const DEFAULT_NUT_PORT = 3493;
+
+export function UpsTargetsSettingsSection({
+  config,
+  onSave,
+}: UpsTargetsSettingsSectionProps) {
+  const { t } = useTranslation();
+  const [primaryName, setPrimaryName] = useState('');
+  const [targets, setTargets] = useState<NutTargetDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setPrimaryName(config.nut.displayName ?? config.nut.upsName);
+    setTargets(config.nut.targets ?? []);
+  }, [config.nut.displayName, config.nut.targets, config.nut.upsName]);
+
+  const validationError = useMemo(() => {
+    if (!primaryName.trim()) {
+      return t('settings.upsTargetsNameRequired', 'Every UPS needs a display name.');
+    }
+
+    for (const target of targets) {
+      if (!target.name.trim()) {
+        return t('settings.upsTargetsNameRequired', 'Every UPS needs a display name.');
+      }
+      if (!target.host.trim() || !target.upsName.trim()) {
+        return t(
+          'settings.upsTargetsConnectionRequired',
+          '{{name}} needs a host and a NUT UPS name.',
+          { name: target.name },
+        );
+      }
+      if (!Number.isInteger(target.port) || target.port < 1 || target.port > 65535) {
+        return t('settings.upsTargetsPortInvalid', '{{name}} has an invalid port.', {
+          name: target.name,
+        });
+      }
+      if (
+        target.tls &&
+        target.tls.mode !== 'off' &&
+        !isNutTlsFormValid(target.tls.caCertificate ?? '', target.tls.pinnedFingerprint ?? '')
+      ) {
+        return t(
+          'settings.upsTargetsTlsInvalid',
+          '{{name}} has an invalid CA certificate or pinned fingerprint.',
+          { name: target.name },
+        );
+      }
+    }
+
+    return null;
+  }, [primaryName, t, targets]);
+
+  const updateTarget = (id: string, patch: Partial<NutTargetDraft>) => {
+    setTargets((previous) =>
+      previous.map((target) => (target.id === id ? { ...target, ...patch } : target)),
+    );
+  };
+
+  const updateTargetTls = (target: NutTargetDraft, patch: Partial<NutTlsSettings>) => {
+    updateTarget(target.id, { tls: { mode: 'off', ...target.tls, ...patch } });
+  };
+
+  const addTarget = () => {
+    setTargets((previous) => {
+      const name = t('settings.upsTargetsNewName', 'UPS {{index}}', {
+        index: previous.length + 2,
+      });
+      return [
+        ...previous,
+        {
+          id: createUpsTargetId(name, previous.map((target) => target.id)),
+          name,
+          host: config.nut.host,
+          port: config.nut.port || DEFAULT_NUT_PORT,
+          username: config.nut.username,
+          password: config.nut.password,
+          upsName: '',
+        },
+      ];
+    });
+  };
+
+  const handleSave = async () => {
+    if (validationError) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        displayName: primaryName.trim(),
+        targets: targets.map((target) => ({
+          ...target,
+          name: target.name.trim(),
+          host: target.host.trim(),
+          upsName: target.upsName.trim(),
+          username: target.username || undefined,
+          password: target.password || undefined,
+          tls: buildTlsSettings(target.tls),
+        })),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="settings-section">
+      <h2 className="settings-section-title">
+        {t('settings.upsTargets', 'UPS Devices')}
+      </h2>
+      <div className="settings-section-body">
+        <p className="form-hint" style={{ marginBottom: '16px' }}>
+          {t(
+            'settings.upsTargetsDescription',
+            'The setup wizard configures the primary UPS, which drives shutdown decisions. Add more UPS units to monitor them alongside it.',
+          )}
+        </p>
+
+        <div className="form-group">
+          <label className="form-label" htmlFor="ups-target-primary-name">
+            {t('settings.upsTargetsPrimaryName', 'Primary UPS name')}
+          </label>
+          <UiInput
+            id="ups-target-primary-name"
+            className="form-input"
+            value={primaryName}
+            maxLength={64}
+            onChange={(event) => setPrimaryName(event.target.value)}
+          />
+          <span className="form-hint">
+            {t('settings.upsTargetsPrimaryHint', '{{upsName}}@{{host}}:{{port}}', {
+              upsName: config.nut.upsName,
+              host: config.nut.host,
+              port: config.nut.port,
+            })}
+          </span>
+        </div>
+
+        <div className="ups-target-list">
+          {targets.map((target) => (
+            <div key={target.id} className="ups-target-card">
+              <div className="form-row--two">
+                <div className="form-group">
+                  <label className="form-label" htmlFor={`ups-target-${target.id}-name`}>
+                    {t('settings.upsTargetsName', 'Display name')}
+                  </label>
+                  <UiInput
+                    id={`ups-target-${target.id}-name`}
+                    className="form-input"
+                    value={target.name}
+                    maxLength={64}
+                    onChange={(event) => updateTarget(target.id, { name: event.target.value })}
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label" htmlFor={`ups-target-${target.id}-ups`}>
+                    {t('settings.upsTargetsUpsName', 'NUT UPS name')}
+                  </label>
+                  <UiInput
+                    id={`ups-target-${target.id}-ups`}
+                    className="form-input"
+                    value={target.upsName}
+                    onChange={(event) => updateTarget(target.id, { upsName: event.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="form-row">
+                <div className="form-group" style={{ flex: 1 }}>
+                  <label className="form-label" htmlFor={`ups-target-${target.id}-host`}>
+                    {t('settings.upsTargetsHost', 'Host')}
+                  </label>
+                  <UiInput
+                    id={`ups-target-${target.id}-host`}
+                    className="form-input"
+                    value={target.host}
+                    onChange={(event) => updateTarget(target.id, { host: event.target.value })}
+                  />
+                </div>
+                <div className="form-group form-group--port">
+                  <label className="form-label" htmlFor={`ups-target-${target.id}-port`}>
+                    {t('settings.upsTargetsPort', 'Port')}
+                  </label>
+                  <UiInput
+                    id={`ups-target-${target.id}-port`}
+                    className="form-input"
+                    type="number"
+                    min={1}
+                    max={65535}
+                    value={target.port}
+                    onChange={(event) =>
+                      updateTarget(target.id, { port: Number(event.target.value) })
+                    }
+                  />
+                </div>
+              </div>
+              <div className="form-row--two">
+                <div className="form-group">
+                  <label className="form-label" htmlFor={`ups-target-${target.id}-username`}>
+                    {t('settings.upsTargetsUsername', 'Username (optional)')}
+                  </label>
+                  <UiInput
+                    id={`ups-target-${target.id}-username`}
+                    className="form-input"
+                    value={target.username ?? ''}
+                    onChange={(event) =>
+                      updateTarget(target.id, { username: event.target.value })
+                    }
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label" htmlFor={`ups-target-${target.id}-password`}>
+                    {t('settings.upsTargetsPassword', 'Password (optional)')}
+                  </label>
+                  <UiInput
+                    id={`ups-target-${target.id}-password`}
+                    className="form-input"
+                    type="password"
+                    value={target.password ?? ''}
+                    onChange={(event) =>
+                      updateTarget(target.id, { password: event.target.value })
+                    }
+                  />
+                </div>
+              </div>
+              <NutTlsForm
+                idPrefix={`ups-target-${target.id}-tls`}
+                mode={target.tls?.mode ?? 'off'}
+                caCertificate={target.tls?.caCertificate ?? ''}
+                pinnedFingerprint={target.tls?.pinnedFingerprint ?? ''}
+                presentedFingerprint={null}
+                onModeChange={(mode) => updateTargetTls(target, { mode })}
+                onCaCertificateChange={(caCertificate) =>
+                  updateTargetTls(target, { caCertificate })
+                }
+                onPinnedFingerprintChange={(pinnedFingerprint) =>
+                  updateTargetTls(target, { pinnedFingerprint })
+                }
+              />
+              <UiButton
+                type="button"
+                className="btn btn--secondary"
+                onClick={() =>
+                  setTargets((previous) =>
+                    previous.filter((entry) => entry.id !== target.id),
+                  )
+                }
+              >
+                <Trash2 size={16} />
+                {t('settings.upsTargetsRemove', 'Remove')}
+              </UiButton>
+            </div>
+          ))}
+        </div>
+
+        {validationError && <p className="ups-target-error">{validationError}</p>}
+
+        <div className="policy-actions">
+          <UiButton
+            type="button"
+            className="btn btn--secondary"
+            onClick={addTarget}
+            disabled={targets.length >= MAX_ADDITIONAL_TARGETS}
+          >
+            <Plus size={16} />
+            {t('settings.upsTargetsAdd', 'Add UPS')}
+          </UiButton>
+          <UiButton
+            type="button"
+            className="btn btn--primary"
+            onClick={() => {
+              void handleSave();
+            }}
+            disabled={saving || validationError !== null}
+          >
+            {t('settings.upsTargetsSave', 'Save devices')}
+          </UiButton>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+/** The CA and fingerprint only apply while TLS is on; blanks are left out. */
+function buildTlsSettings(tls: NutTlsSettings | undefined): NutTlsSettings | undefined {
+  if (!tls || tls.mode === 'off') {
+    return undefined;
+  }
+
+  return {
+    mode: tls.mode,
+    caCertificate: tls.caCertificate?.trim() || undefined,
+    pinnedFingerprint: tls.pinnedFingerprint?.trim() || undefined,
+  };
+}
@@ -4,18 +4,28 @@ import {
   Activity,
   Battery,
   ChevronDown,
+  Clock,
+  Pencil,
   Zap,
 } from 'lucide-react';
 import type { TFunction } from 'i18next';
 import { useTranslation } from 'react-i18next';
 import { electronApi } from '../app/electronApi';
-import { useAppConfig, useConnection } from '../app/providers';
+import { useAppConfig, useUpsDevices } from '../app/providers';
 import type {
+  BatteryHealthReport,
   TelemetryColumn,
   TelemetryDataPoint,
+  TelemetryValues,
 } from '../../shared/ipc/contracts';
 import { SparklineCard } from '../components/SparklineCard';
 import { UpsStatusBanner } from '../components/UpsStatusBanner';
+import { BatteryHealthCard } from '../features/batteryHealth/BatteryHealthCard';
+import { useBatteryHealthReport } from '../features/batteryHealth/useBatteryHealthReport';
+import { NutVariableEditorDialog } from '../features/nutVariables/NutVariableEditorDialog';
+import { UpsCommandsPanel } from '../features/upsCommands/UpsCommandsPanel';
+import { UpsDeviceSwitcher } from '../features/upsTargets/UpsDeviceSwitcher';
+import { estimateRuntimeSeconds } from '../../shared/batteryHealth/runtimeEstimate';
 import {
   deriveUpsBannerState,
   parseUpsStatusTokens,
@@ -60,6 +70,29 @@ const NUT_DETAILS_GROUP_ORDER: NutDetailsGroupKey[] = [
   'other',
 ];
 
+/**
+ * Runtime in minutes as reported by the UPS, or estimated from the learned
+ * discharges when the UPS does not report `battery.runtime`.
+ */
+function resolveRuntimeMinutes(
+  values: TelemetryValues,
+  report: BatteryHealthReport | null,
+): { minutes: number; estimated: boolean } | null {
+  const reported = values.battery_runtime_sec;
+  if (typeof reported === 'number') {
+    return { minutes: reported / 60, estimated: false };
+  }
+
+  const estimated = report
+    ? estimateRuntimeSeconds(report.runtimeModel, {
+        chargePercent: values.battery_charge_pct,
+        realPowerWatts: values.ups_realpower_watts,
+        loadPercent: values.ups_load_pct,
+      })
+    : null;
+  return estimated === null ? null : { minutes: estimated / 60, estimated: true };
+}
+
 function useElapsedSince(timestamp: string | undefined | null): number {
   const [elapsed, setElapsed] = useState<number>(() =>
     timestamp ? Math.max(0, (Date.now() - Date.parse(timestamp)) / 1000) : 0,
@@ -84,14 +117,20 @@ function useElapsedSince(timestamp: string | undefined | null): number {
 export function DashboardPage() {
   const { t } = useTranslation();
   const {
-    state: connectionState,
-    staticData,
-    dynamicData,
-    lastTelemetry,
-    localDriverLaunchIssue,
-  } = useConnection();
+    selected: {
+      upsId,
+      state: connectionState,
+      staticData,
+      dynamicData,
+      writableFields,
+      lastTelemetry,
+      localDriverLaunchIssue,
+    },
+  } = useUpsDevices();
   const { config } = useAppConfig();
   const [history, setHistory] = useState<TelemetryDataPoint[]>([]);
+  const [editingField, setEditingField] = useState<string | null>(null);
+  const writableFieldSet = useMemo(() => new Set(writableFields), [writableFields]);
 
   const bannerTokens = useMemo(
     () => parseUpsStatusTokens(dynamicData?.['ups.status']),
@@ -215,6 +254,7 @@ export function DashboardPage() {
       'battery_charge_pct',
       'battery_voltage',
       'battery_current',
+      'battery_runtime_sec',
       'input_voltage',
       'input_frequency_hz',
       'input_current',
@@ -274,6 +314,7 @@ export function DashboardPage() {
         const end = new Date();
         const start = new Date(end.getTime() - 5 * 60 * 1000);
         const data = await electronApi.telemetry.queryRange({
+          upsId,
           startIso: start.toISOString(),
           endIso: end.toISOString(),
           columns: historyColumns,
@@ -288,11 +329,12 @@ export function DashboardPage() {
       }
     };
 
+    setHistory([]);
     void fetchHistory();
     return () => {
       mounted = false;
     };
-  }, [historyColumns]);
+  }, [historyColumns, upsId]);
 
   useEffect(() => {
     if (!lastTelemetry) {
@@ -320,7 +362,41 @@ export function DashboardPage() {
     });
   }, [lastTelemetry]);
 
-  const renderGroup = (title: string, metrics: MetricKey[]) => (
+  const batteryHealth = useBatteryHealthReport(upsId, bannerTokens.includes('OB'));
+
+  const runtimeCard = useMemo(() => {
+    const current = lastTelemetry
+      ? resolveRuntimeMinutes(lastTelemetry.values, batteryHealth.report)
+      : null;
+    if (!current) {
+      return null;
+    }
+
+    const data = history.flatMap((row) => {
+      const point = resolveRuntimeMinutes(row.values, batteryHealth.report);
+      return point ? [point.minutes] : [];
+    });
+    return (
+      <SparklineCard
+        title={
+          current.estimated
+            ? t('dashboard.runtimeEstimated')
+            : t('metrics.batteryRuntime')
+        }
+        currentValue={Number(current.minutes.toFixed(1))}
+        unit="min"
+        icon={<Clock size={16} />}
+        data={data.map((minutes) => Number(minutes.toFixed(1)))}
+        applyMovingAverage
+      />
+    );
+  }, [batteryHealth.report, history, lastTelemetry, t]);
+
+  const renderGroup = (
+    title: string,
+    metrics: MetricKey[],
+    extraCards?: React.ReactNode,
+  ) => (
     <div className="dashboard-group">
       <h2 className="dashboard-group-title">{title}</h2>
       <div className="metrics-grid">
@@ -380,6 +456,7 @@ export function DashboardPage() {
             />
           );
         })}
+        {extraCards}
       </div>
     </div>
   );
@@ -395,6 +472,7 @@ export function DashboardPage() {
             })}
           </span>
         )}
+        <UpsDeviceSwitcher />
       </header>
 
       <UpsStatusBanner
@@ -412,7 +490,17 @@ export function DashboardPage() {
       )}
 
       <section className="dashboard-metrics">
-        {renderGroup(t('dashboard.groupBattery'), batteryMetrics)}
+        {renderGroup(
+          t('dashboard.groupBattery'),
+          batteryMetrics,
+          <>
+            {runtimeCard}
+            <BatteryHealthCard
+              report={batteryHealth.report}
+              loadError={batteryHealth.loadError}
+            />
+          </>,
+        )}
         {renderGroup(t('dashboard.groupInput'), inputMetrics)}
         {renderGroup(t('dashboard.groupOutput'), outputMetrics)}
       </section>
@@ -477,7 +565,20 @@ export function DashboardPage() {
                               {group.entries.map(([fieldName, value]) => (
                                 <div key={fieldName} className="static-item">
                                   <span className="static-item-label">{fieldName}</span>
-                                  <span className="static-item-value">{value}</span>
+                                  <span className="static-item-value">
+                                    {value}
+                                    {writableFieldSet.has(fieldName) && (
+                                      <button
+                                        type="button"
+                                        className="static-item-edit"
+                                        onClick={() => setEditingField(fieldName)}
+                                        title={t('dashboard.variableEdit', 'Edit value')}
+                                        aria-label={t('dashboard.variableEdit', 'Edit value')}
+                                      >
+                                        <Pencil size={12} />
+                                      </button>
+                                    )}
+                                  </span>
                                 </div>
                               ))}
                             </Disclosure.Panel>
@@ -492,6 +593,14 @@ export function DashboardPage() {
           )}
         </Disclosure>
       )}
+
+      <UpsCommandsPanel key={upsId} connectionState={connectionState} upsId={upsId} />
+
+      <NutVariableEditorDialog
+        fieldName={editingField}
+        upsId={upsId}
+        onClose={() => setEditingField(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,238 @@
+import { useEffect, useMemo, useState } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { useTranslation } from 'react-i18next';
+import { ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react';
+import { electronApi } from '../app/electronApi';
+import { useUpsDevices } from '../app/providers';
+import { ENERGY_GRANULARITIES } from '../../shared/energy/constants';
+import type { EnergyGranularity, EnergyReport } from '../../shared/energy/types';
+import { UiButton, UiSelect } from '../components/ui';
+import {
+  formatEnergyBucketLabel,
+  formatEnergyPeriodLabel,
+  getEnergyPeriodRange,
+  shiftEnergyPeriod,
+} from '../features/energy/energyPeriod';
+import { UpsDeviceSwitcher } from '../features/upsTargets/UpsDeviceSwitcher';
+
+const MAINS_COLOR = '#10a37f';
+const BATTERY_COLOR = '#f59e0b';
+const COST_COLOR = '#6366f1';
+
+const CHART_TOOLTIP = {
+  trigger: 'axis',
+  axisPointer: { type: 'shadow' },
+  backgroundColor: 'var(--color-bg-card)',
+  borderColor: 'var(--color-border)',
+  textStyle: { color: 'var(--color-text)', fontSize: 12 },
+};
+
+export function EnergyPage() {
+  const { t, i18n } = useTranslation();
+  const { selectedUpsId } = useUpsDevices();
+  const [granularity, setGranularity] = useState<EnergyGranularity>('day');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [report, setReport] = useState<EnergyReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const { start, end } = getEnergyPeriodRange(granularity, anchor);
+    void electronApi.energy
+      .getReport({
+        upsId: selectedUpsId,
+        granularity,
+        startIso: start.toISOString(),
+        endIso: end.toISOString(),
+      })
+      .then((nextReport) => {
+        if (!cancelled) {
+          setReport(nextReport);
+          setError(null);
+        }
+      })
+      .catch((loadError: unknown) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : String(loadError));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [anchor, granularity, refreshCount, selectedUpsId]);
+
+  const labels = useMemo(
+    () =>
+      (report?.buckets ?? []).map((bucket) =>
+        formatEnergyBucketLabel(report?.granularity ?? granularity, bucket.startIso, i18n.language),
+      ),
+    [granularity, i18n.language, report],
+  );
+
+  const energyOptions = useMemo(() => {
+    const buckets = report?.buckets ?? [];
+    return {
+      animation: false,
+      tooltip: {
+        ...CHART_TOOLTIP,
+        valueFormatter: (value: number) => `${value.toFixed(3)} kWh`,
+      },
+      legend: { bottom: 0, textStyle: { color: 'var(--color-text-muted)' } },
+      grid: { top: 16, bottom: 48, left: 56, right: 16 },
+      xAxis: { type: 'category', data: labels },
+      yAxis: { type: 'value', name: 'kWh' },
+      series: [
+        {
+          name: t('energy.seriesMains'),
+          type: 'bar',
+          stack: 'energy',
+          itemStyle: { color: MAINS_COLOR },
+          data: buckets.map((bucket) => bucket.energyKwh - bucket.batteryEnergyKwh),
+        },
+        {
+          name: t('energy.seriesBattery'),
+          type: 'bar',
+          stack: 'energy',
+          itemStyle: { color: BATTERY_COLOR },
+          data: buckets.map((bucket) => bucket.batteryEnergyKwh),
+        },
+      ],
+    };
+  }, [labels, report, t]);
+
+  const costOptions = useMemo(() => {
+    const currency = report?.currency ?? '';
+    return {
+      animation: false,
+      tooltip: {
+        ...CHART_TOOLTIP,
+        valueFormatter: (value: number) => formatCost(value, currency),
+      },
+      grid: { top: 16, bottom: 32, left: 56, right: 16 },
+      xAxis: { type: 'category', data: labels },
+      yAxis: { type: 'value', name: currency },
+      series: [
+        {
+          name: t('energy.seriesCost'),
+          type: 'bar',
+          itemStyle: { color: COST_COLOR },
+          data: (report?.buckets ?? []).map((bucket) => bucket.cost),
+        },
+      ],
+    };
+  }, [labels, report, t]);
+
+  const hasEnergy = (report?.totalKwh ?? 0) > 0;
+
+  return (
+    <div className="energy-page">
+      <header className="page-header">
+        <div>
+          <h1 className="page-title">{t('energy.title')}</h1>
+          <span className="page-subtitle">{t('energy.subtitle')}</span>
+        </div>
+
+        <div className="events-controls">
+          <UpsDeviceSwitcher />
+          <UiSelect
+            className="telemetry-select"
+            aria-label={t('energy.granularity')}
+            value={granularity}
+            onChange={(event) => setGranularity(event.target.value as EnergyGranularity)}
+          >
+            {ENERGY_GRANULARITIES.map((option) => (
+              <option key={option} value={option}>
+                {t(`energy.granularities.${option}`)}
+              </option>
+            ))}
+          </UiSelect>
+          <UiButton
+            className="policy-icon-btn"
+            aria-label={t('energy.previousPeriod')}
+            onClick={() => setAnchor((current) => shiftEnergyPeriod(granularity, current, -1))}
+          >
+            <ChevronLeft size={14} />
+          </UiButton>
+          <span className="energy-period-label">
+            {formatEnergyPeriodLabel(granularity, anchor, i18n.language)}
+          </span>
+          <UiButton
+            className="policy-icon-btn"
+            aria-label={t('energy.nextPeriod')}
+            onClick={() => setAnchor((current) => shiftEnergyPeriod(granularity, current, 1))}
+          >
+            <ChevronRight size={14} />
+          </UiButton>
+          <UiButton
+            className="policy-icon-btn"
+            title={t('energy.refresh')}
+            aria-label={t('energy.refresh')}
+            onClick={() => setRefreshCount((count) => count + 1)}
+          >
+            <RefreshCw size={14} />
+          </UiButton>
+        </div>
+      </header>
+
+      <section className="events-summary">
+        <EnergySummaryItem
+          label={t('energy.summaryTotal')}
+          value={report ? `${report.totalKwh.toFixed(2)} kWh` : '—'}
+        />
+        <EnergySummaryItem
+          label={t('energy.summaryBattery')}
+          value={report ? `${report.totalBatteryKwh.toFixed(2)} kWh` : '—'}
+        />
+        <EnergySummaryItem
+          label={t('energy.summaryCost')}
+          value={report ? formatCost(report.totalCost, report.currency) : '—'}
+        />
+      </section>
+
+      {error && (
+        <div className="policy-history-error">
+          {t('energy.loadFailed', { reason: error })}
+        </div>
+      )}
+
+      {report && !hasEnergy ? (
+        <div className="policy-history-empty">{t('energy.empty')}</div>
+      ) : (
+        <>
+          <section className="energy-chart-card">
+            <h2 className="energy-chart-title">{t('energy.chartEnergy')}</h2>
+            <ReactECharts
+              option={energyOptions}
+              style={{ height: 280, width: '100%' }}
+              notMerge
+            />
+          </section>
+          <section className="energy-chart-card">
+            <h2 className="energy-chart-title">{t('energy.chartCost')}</h2>
+            <ReactECharts
+              option={costOptions}
+              style={{ height: 220, width: '100%' }}
+              notMerge
+            />
+          </section>
+        </>
+      )}
+      <p className="form-hint">{t('energy.hint')}</p>
+    </div>
+  );
+}
+
+function EnergySummaryItem({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="events-summary-item">
+      <span className="events-summary-label">{label}</span>
+      <span className="events-summary-value">{value}</span>
+    </div>
+  );
+}
+
+function formatCost(value: number, currency: string): string {
+  return `${value.toFixed(2)} ${currency}`;
+}
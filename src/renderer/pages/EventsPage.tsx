@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, LineChart, RefreshCw } from 'lucide-react';
+import { electronApi } from '../app/electronApi';
+import { useUpsDevices } from '../app/providers';
+import {
+  DEFAULT_POWER_EVENT_PAGE_SIZE,
+  POWER_EVENT_KINDS,
+} from '../../shared/powerEvents/constants';
+import type {
+  PowerEvent,
+  PowerEventKind,
+  PowerEventSummary,
+} from '../../shared/powerEvents/types';
+import { UiButton, UiInput, UiSelect } from '../components/ui';
+import { UpsDeviceSwitcher } from '../features/upsTargets/UpsDeviceSwitcher';
+import {
+  buildTelemetryWindowLink,
+  formatEventDuration,
+  formatMonthInputValue,
+  getMonthRange,
+} from '../features/powerEvents/telemetryWindow';
+
+const EMPTY_SUMMARY: PowerEventSummary = {
+  count: 0,
+  totalDurationSeconds: 0,
+  longestDurationSeconds: 0,
+  totalEnergyWh: null,
+  minBatteryChargePercent: null,
+};
+
+export function EventsPage() {
+  const { t } = useTranslation();
+  const { selectedUpsId } = useUpsDevices();
+  const [month, setMonth] = useState(() => formatMonthInputValue(new Date()));
+  const [kind, setKind] = useState<PowerEventKind | 'all'>('onBattery');
+  const [page, setPage] = useState(0);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [events, setEvents] = useState<PowerEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [summary, setSummary] = useState<PowerEventSummary>(EMPTY_SUMMARY);
+  const [error, setError] = useState<string | null>(null);
+  const pageCount = Math.max(1, Math.ceil(total / DEFAULT_POWER_EVENT_PAGE_SIZE));
+
+  useEffect(() => {
+    let cancelled = false;
+    void electronApi.powerEvents.query({
+      upsId: selectedUpsId,
+      kinds: kind === 'all' ? undefined : [kind],
+      ...getMonthRange(month),
+      offset: page * DEFAULT_POWER_EVENT_PAGE_SIZE,
+      limit: DEFAULT_POWER_EVENT_PAGE_SIZE,
+    })
+      .then((result) => {
+        if (!cancelled) {
+          setEvents(result.events);
+          setTotal(result.total);
+          setSummary(result.summary);
+          setError(null);
+        }
+      })
+      .catch((loadError: unknown) => {
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : String(loadError));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, month, page, refreshCount, selectedUpsId]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [selectedUpsId]);
+
+  return (
+    <div className="events-page">
+      <header className="page-header">
+        <div>
+          <h1 className="page-title">{t('events.title')}</h1>
+          <span className="page-subtitle">{t('events.subtitle')}</span>
+        </div>
+
+        <div className="events-controls">
+          <UpsDeviceSwitcher />
+          <UiInput
+            type="month"
+            className="telemetry-select"
+            aria-label={t('events.month')}
+            value={month}
+            onChange={(event) => {
+              setMonth(event.target.value);
+              setPage(0);
+            }}
+          />
+          <UiSelect
+            className="telemetry-select"
+            aria-label={t('events.kind')}
+            value={kind}
+            onChange={(event) => {
+              setKind(event.target.value as PowerEventKind | 'all');
+              setPage(0);
+            }}
+          >
+            <option value="all">{t('events.allKinds')}</option>
+            {POWER_EVENT_KINDS.map((option) => (
+              <option key={option} value={option}>
+                {t(`events.kinds.${option}`)}
+              </option>
+            ))}
+          </UiSelect>
+          <UiButton
+            className="policy-icon-btn"
+            title={t('events.refresh')}
+            aria-label={t('events.refresh')}
+            onClick={() => setRefreshCount((count) => count + 1)}
+          >
+            <RefreshCw size={14} />
+          </UiButton>
+        </div>
+      </header>
+
+      <section className="events-summary">
+        <EventSummaryItem label={t('events.summaryCount')} value={String(summary.count)} />
+        <EventSummaryItem
+          label={t('events.summaryTotalDuration')}
+          value={formatEventDuration(summary.totalDurationSeconds)}
+        />
+        <EventSummaryItem
+          label={t('events.summaryLongest')}
+          value={formatEventDuration(summary.longestDurationSeconds)}
+        />
+        <EventSummaryItem
+          label={t('events.summaryEnergy')}
+          value={formatEnergy(summary.totalEnergyWh)}
+        />
+        <EventSummaryItem
+          label={t('events.summaryLowestCharge')}
+          value={formatPercent(summary.minBatteryChargePercent)}
+        />
+      </section>
+
+      {error && (
+        <div className="policy-history-error">
+          {t('events.loadFailed', { reason: error })}
+        </div>
+      )}
+
+      {events.length === 0 ? (
+        <div className="policy-history-empty">{t('events.empty')}</div>
+      ) : (
+        <table className="events-table">
+          <thead>
+            <tr>
+              <th>{t('events.columnKind')}</th>
+              <th>{t('events.columnStart')}</th>
+              <th>{t('events.columnEnd')}</th>
+              <th>{t('events.columnDuration')}</th>
+              <th>{t('events.columnLowestCharge')}</th>
+              <th>{t('events.columnEnergy')}</th>
+              <th aria-label={t('events.viewTelemetry')} />
+            </tr>
+          </thead>
+          <tbody>
+            {events.map((event) => (
+              <tr key={event.id}>
+                <td>
+                  <span className={`events-kind events-kind--${event.kind}`}>
+                    {t(`events.kinds.${event.kind}`)}
+                  </span>
+                </td>
+                <td>{new Date(event.startedAtIso).toLocaleString()}</td>
+                <td>
+                  {event.endedAtIso
+                    ? new Date(event.endedAtIso).toLocaleString()
+                    : t('events.ongoing')}
+                </td>
+                <td>{formatEventDuration(event.durationSeconds)}</td>
+                <td>{formatPercent(event.minBatteryChargePercent)}</td>
+                <td>{formatEnergy(event.energyWh)}</td>
+                <td>
+                  <Link
+                    className="events-telemetry-link"
+                    to={buildTelemetryWindowLink(event)}
+                    title={t('events.viewTelemetry')}
+                  >
+                    <LineChart size={14} />
+                    <span>{t('events.viewTelemetry')}</span>
+                  </Link>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {total > DEFAULT_POWER_EVENT_PAGE_SIZE && (
+        <div className="policy-history-pager">
+          <UiButton
+            className="policy-icon-btn"
+            disabled={page === 0}
+            aria-label={t('events.previousPage')}
+            onClick={() => setPage((current) => Math.max(0, current - 1))}
+          >
+            <ChevronLeft size={14} />
+          </UiButton>
+          <span>
+            {t('events.pageStatus', { page: page + 1, pages: pageCount, total })}
+          </span>
+          <UiButton
+            className="policy-icon-btn"
+            disabled={page + 1 >= pageCount}
+            aria-label={t('events.nextPage')}
+            onClick={() => setPage((current) => Math.min(pageCount - 1, current + 1))}
+          >
+            <ChevronRight size={14} />
+          </UiButton>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function EventSummaryItem({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="events-summary-item">
+      <span className="events-summary-label">{label}</span>
+      <span className="events-summary-value">{value}</span>
+    </div>
+  );
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value)}%`;
+}
+
+function formatEnergy(value: number | null): string {
+  if (value === null) {
+    return '—';
+  }
+
+  return value >= 1000 ? `${(value / 1000).toFixed(2)} kWh` : `${value.toFixed(1)} Wh`;
+}
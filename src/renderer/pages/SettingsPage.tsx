@@ -7,7 +7,17 @@ import { useNavigate } from 'react-router-dom';
 import { createPortal } from 'react-dom';
 import { UiButton, UiCheckbox, UiInput, UiSelect } from '../components/ui';
 import { ShutdownPolicySettingsSection } from '../features/shutdownPolicy/ShutdownPolicySettingsSection';
-import type { ShutdownPolicyConfig } from '../../shared/shutdownPolicy/types';
+import { UpsTargetsSettingsSection } from '../features/upsTargets/UpsTargetsSettingsSection';
+import { EnergyTariffSettingsSection } from '../features/energy/EnergyTariffSettingsSection';
+import { MetricsExporterSettingsSection } from '../features/metrics/MetricsExporterSettingsSection';
+import { MqttSettingsSection } from '../features/mqtt/MqttSettingsSection';
+import { LocalApiSettingsSection } from '../features/localApi/LocalApiSettingsSection';
+import { NutServerSettingsSection } from '../features/nutServer/NutServerSettingsSection';
+import type { AppConfigPatch } from '../../shared/config/types';
+import type {
+    ShutdownPolicyConfig,
+    ShutdownPolicyPreset,
+} from '../../shared/shutdownPolicy/types';
 
 type ShutdownMethod = 'sleep' | 'shutdown';
 type ThemeMode = 'light' | 'dark' | 'system';
@@ -20,6 +30,10 @@ type SettingsDraft = {
     upsName: string;
     intervalMs: number;
     retentionDays: number;
+    rawTelemetryRetentionDays: number;
+    minuteRollupRetentionDays: number;
+    hourRollupRetentionDays: number | null;
+    dayRollupRetentionDays: number | null;
     warningPct: number;
     shutdownPct: number;
     warningToastEnabled: boolean;
@@ -66,6 +80,10 @@ export function SettingsPage() {
     const [upsName, setUpsName] = useState('');
     const [intervalMs, setIntervalMs] = useState(6000);
     const [retentionDays, setRetentionDays] = useState(30);
+    const [rawTelemetryRetentionDays, setRawTelemetryRetentionDays] = useState(7);
+    const [minuteRollupRetentionDays, setMinuteRollupRetentionDays] = useState(90);
+    const [hourRollupRetentionDays, setHourRollupRetentionDays] = useState<number | null>(null);
+    const [dayRollupRetentionDays, setDayRollupRetentionDays] = useState<number | null>(null);
     const [warningPct, setWarningPct] = useState(40);
     const [shutdownPct, setShutdownPct] = useState(20);
     const [warningToastEnabled, setWarningToastEnabled] = useState(true);
@@ -101,6 +119,10 @@ export function SettingsPage() {
         setUpsName(config.nut.upsName);
         setIntervalMs(config.polling.intervalMs);
         setRetentionDays(config.data.retentionDays);
+        setRawTelemetryRetentionDays(config.data.rawTelemetryRetentionDays);
+        setMinuteRollupRetentionDays(config.data.minuteRollupRetentionDays);
+        setHourRollupRetentionDays(config.data.hourRollupRetentionDays);
+        setDayRollupRetentionDays(config.data.dayRollupRetentionDays);
         setWarningPct(config.battery.warningPct);
         setShutdownPct(config.battery.shutdownPct);
         setWarningToastEnabled(config.battery.warningToastEnabled);
@@ -145,6 +167,10 @@ export function SettingsPage() {
             upsName,
             intervalMs,
             retentionDays,
+            rawTelemetryRetentionDays,
+            minuteRollupRetentionDays,
+            hourRollupRetentionDays,
+            dayRollupRetentionDays,
             warningPct,
             shutdownPct,
             warningToastEnabled,
@@ -179,6 +205,10 @@ export function SettingsPage() {
             upsName,
             intervalMs,
             retentionDays,
+            rawTelemetryRetentionDays,
+            minuteRollupRetentionDays,
+            hourRollupRetentionDays,
+            dayRollupRetentionDays,
             warningPct,
             shutdownPct,
             warningToastEnabled,
@@ -233,7 +263,13 @@ export function SettingsPage() {
                         upsName: draft.upsName,
                     },
                     polling: { intervalMs: draft.intervalMs },
-                    data: { retentionDays: draft.retentionDays },
+                    data: {
+                        retentionDays: draft.retentionDays,
+                        rawTelemetryRetentionDays: draft.rawTelemetryRetentionDays,
+                        minuteRollupRetentionDays: draft.minuteRollupRetentionDays,
+                        hourRollupRetentionDays: draft.hourRollupRetentionDays,
+                        dayRollupRetentionDays: draft.dayRollupRetentionDays,
+                    },
                     battery: {
                         warningPct: draft.warningPct,
                         shutdownPct: draft.shutdownPct,
@@ -292,8 +328,8 @@ export function SettingsPage() {
         [buildDraft, refreshConfig, t],
     );
 
-    const persistShutdownPolicy = useCallback(
-        async (shutdownPolicy: ShutdownPolicyConfig) => {
+    const persistSectionPatch = useCallback(
+        async (patch: AppConfigPatch) => {
             setSaving(true);
             if (saveMessageTimerRef.current) {
                 clearTimeout(saveMessageTimerRef.current);
@@ -301,8 +337,13 @@ export function SettingsPage() {
             }
 
             try {
-                await electronApi.settings.update({ shutdownPolicy });
+                const { listenerErrors } = await electronApi.settings.update(patch);
                 await refreshConfig();
+                if (listenerErrors.length > 0) {
+                    // Saved, but a server is not reachable until the address is changed.
+                    setSaveMessage({ type: 'error', text: listenerErrors.join(' ') });
+                    return;
+                }
                 setSaveMessage({ type: 'success', text: t('settings.saveSuccess') });
                 saveMessageTimerRef.current = setTimeout(() => {
                     setSaveMessage(null);
@@ -326,6 +367,16 @@ export function SettingsPage() {
         [refreshConfig, t],
     );
 
+    const persistShutdownPolicy = useCallback(
+        (shutdownPolicy: ShutdownPolicyConfig) => persistSectionPatch({ shutdownPolicy }),
+        [persistSectionPatch],
+    );
+
+    const persistShutdownPolicyPresets = useCallback(
+        (shutdownPolicyPresets: ShutdownPolicyPreset[]) => persistSectionPatch({ shutdownPolicyPresets }),
+        [persistSectionPatch],
+    );
+
     const handleEnterWizard = useCallback(async () => {
         setEnteringWizard(true);
 
@@ -399,6 +450,36 @@ export function SettingsPage() {
                     </div>
                 </section>
 
+                <UpsTargetsSettingsSection
+                    config={config}
+                    onSave={(nut) => persistSectionPatch({ nut })}
+                />
+
+                <EnergyTariffSettingsSection
+                    config={config}
+                    onSave={(energy) => persistSectionPatch({ energy })}
+                />
+
+                <MetricsExporterSettingsSection
+                    config={config}
+                    onSave={(metrics) => persistSectionPatch({ metrics })}
+                />
+
+                <MqttSettingsSection
+                    config={config}
+                    onSave={(mqtt) => persistSectionPatch({ mqtt })}
+                />
+
+                <LocalApiSettingsSection
+                    config={config}
+                    onSave={(localApi) => persistSectionPatch({ localApi })}
+                />
+
+                <NutServerSettingsSection
+                    config={config}
+                    onSave={(nutServer) => persistSectionPatch({ nutServer })}
+                />
+
                 {/* Polling */}
                 <section className="settings-section">
                     <h2 className="settings-section-title">{t('settings.polling')}</h2>
@@ -449,6 +530,73 @@ export function SettingsPage() {
                                 max={3650}
                             />
                         </div>
+                        <div className="form-row--two">
+                            <div className="form-group">
+                                <label className="form-label" htmlFor="set-retention-raw">
+                                    {t('settings.rawTelemetryRetentionDays')}
+                                </label>
+                                <UiInput
+                                    id="set-retention-raw"
+                                    className="form-input form-input--narrow"
+                                    type="number"
+                                    value={rawTelemetryRetentionDays}
+                                    onChange={(e) => setRawTelemetryRetentionDays(Number(e.target.value))}
+                                    onBlur={(e) => void persistSettings({ rawTelemetryRetentionDays: Number(e.currentTarget.value) })}
+                                    min={1}
+                                    max={3650}
+                                />
+                            </div>
+                            <div className="form-group">
+                                <label className="form-label" htmlFor="set-retention-minute">
+                                    {t('settings.minuteRollupRetentionDays')}
+                                </label>
+                                <UiInput
+                                    id="set-retention-minute"
+                                    className="form-input form-input--narrow"
+                                    type="number"
+                                    value={minuteRollupRetentionDays}
+                                    onChange={(e) => setMinuteRollupRetentionDays(Number(e.target.value))}
+                                    onBlur={(e) => void persistSettings({ minuteRollupRetentionDays: Number(e.currentTarget.value) })}
+                                    min={1}
+                                    max={3650}
+                                />
+                            </div>
+                        </div>
+                        <div className="form-row--two">
+                            <div className="form-group">
+                                <label className="form-label" htmlFor="set-retention-hour">
+                                    {t('settings.hourRollupRetentionDays')}
+                                </label>
+                                <UiInput
+                                    id="set-retention-hour"
+                                    className="form-input form-input--narrow"
+                                    type="number"
+                                    placeholder={t('settings.keepForever')}
+                                    value={hourRollupRetentionDays ?? ''}
+                                    onChange={(e) => setHourRollupRetentionDays(parseOptionalDays(e.target.value))}
+                                    onBlur={(e) => void persistSettings({ hourRollupRetentionDays: parseOptionalDays(e.currentTarget.value) })}
+                                    min={1}
+                                    max={3650}
+                                />
+                            </div>
+                            <div className="form-group">
+                                <label className="form-label" htmlFor="set-retention-day">
+                                    {t('settings.dayRollupRetentionDays')}
+                                </label>
+                                <UiInput
+                                    id="set-retention-day"
+                                    className="form-input form-input--narrow"
+                                    type="number"
+                                    placeholder={t('settings.keepForever')}
+                                    value={dayRollupRetentionDays ?? ''}
+                                    onChange={(e) => setDayRollupRetentionDays(parseOptionalDays(e.target.value))}
+                                    onBlur={(e) => void persistSettings({ dayRollupRetentionDays: parseOptionalDays(e.currentTarget.value) })}
+                                    min={1}
+                                    max={3650}
+                                />
+                            </div>
+                        </div>
+                        <p className="form-hint">{t('settings.telemetryRollupHint')}</p>
                     </div>
                 </section>
 
@@ -814,6 +962,7 @@ export function SettingsPage() {
                         overlayEnabled: fsdOverlayEnabled,
                     }}
                     onSave={persistShutdownPolicy}
+                    onSavePresets={persistShutdownPolicyPresets}
                 />
 
                 {/* Startup */}
@@ -931,3 +1080,8 @@ export function SettingsPage() {
         </div>
     );
 }
+
+/** Empty means "keep forever". */
+function parseOptionalDays(value: string): number | null {
+    return value.trim() === '' ? null : Number(value);
+}
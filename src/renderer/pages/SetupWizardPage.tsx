@@ -13,9 +13,14 @@ import type {
   NutSetupPrepareUsbHidPayload,
   NutSetupPrepareUsbHidResult,
   NutSetupValidateFolderResult,
+  WizardTestConnectionResult,
 } from '../../shared/ipc/contracts';
+import { DEMO_UPS_NAME, type DemoScenarioId } from '../../shared/demo/constants';
+import type { NutTlsMode, NutTlsSettings } from '../../shared/nut/tls';
 import { ChooseSetupModeStep } from './setupWizard/ChooseSetupModeStep';
+import { DemoSetupStep } from './setupWizard/DemoSetupStep';
 import { NutSetupStep } from './setupWizard/NutSetupStep';
+import { isNutTlsFormValid, NutTlsForm } from './setupWizard/NutTlsForm';
 import { WizardSteps } from './setupWizard/WizardSteps';
 import type {
   AuthProtocol,
@@ -110,6 +115,7 @@ export function SetupWizardPage() {
     listComPorts,
     prepareLocalDriver,
     prepareUsbHid,
+    prepareDemo,
   } = useWizardActions();
 
   const setMode = useCallback((nextMode: SetupMode) => {
@@ -148,6 +154,19 @@ export function SetupWizardPage() {
   const [username, setUsername] = useState(config?.nut?.username || '');
   const [password, setPassword] = useState(config?.nut?.password || '');
   const [upsName, setUpsName] = useState(config?.nut?.upsName || 'snmpups');
+  const [tlsMode, setTlsMode] = useState<NutTlsMode>(config?.nut?.tls?.mode ?? 'off');
+  const [tlsCaCertificate, setTlsCaCertificate] = useState(
+    config?.nut?.tls?.caCertificate ?? '',
+  );
+  const [tlsPinnedFingerprint, setTlsPinnedFingerprint] = useState(
+    config?.nut?.tls?.pinnedFingerprint ?? '',
+  );
+  const [tlsPresentedFingerprint, setTlsPresentedFingerprint] = useState<string | null>(null);
+  const [testEncrypted, setTestEncrypted] = useState(false);
+  const [demoScenario, setDemoScenario] = useState<DemoScenarioId>(
+    config?.demo?.scenario ?? 'mainsFailure',
+  );
+  const [demoSpeed, setDemoSpeed] = useState(config?.demo?.speed ?? 10);
 
   const [availableVariables, setAvailableVariables] = useState<string[]>([]);
   const [mapping, setMapping] = useState<Record<string, string>>(
@@ -313,10 +332,56 @@ export function SetupWizardPage() {
     return fallback;
   }, [t]);
 
+  const resolveTlsFailureMessage = useCallback((
+    result: WizardTestConnectionResult,
+  ): string => {
+    const details = result.error ?? '';
+    switch (result.tlsFailure) {
+      case 'unsupported':
+        return t(
+          'wizard.tlsUnsupported',
+          'upsd does not offer TLS. Enable it in upsd.conf (CERTFILE or CERTPATH) or choose "Use when available". ({{details}})',
+          { details },
+        );
+      case 'handshake':
+        return t('wizard.tlsHandshakeFailed', 'The TLS handshake with upsd failed. ({{details}})', {
+          details,
+        });
+      case 'certificate':
+        return t(
+          'wizard.tlsCertificateRejected',
+          'The upsd certificate is not trusted. Add its CA certificate or pin the certificate below. ({{details}})',
+          { details },
+        );
+      case 'fingerprint':
+        return t(
+          'wizard.tlsFingerprintMismatch',
+          'The upsd certificate does not match the pinned fingerprint. If the certificate was replaced on purpose, pin the new one below.',
+        );
+      default:
+        return result.error ?? t('wizard.connectionTestFailed', 'Connection test failed');
+    }
+  }, [t]);
+
+  // Only direct connections can reach a remote upsd; locally launched
+  // components always listen on loopback.
+  const buildTlsSettings = useCallback((): NutTlsSettings | undefined => {
+    if (mode !== 'directNut' || tlsMode === 'off') {
+      return undefined;
+    }
+
+    return {
+      mode: tlsMode,
+      caCertificate: tlsCaCertificate.trim() || undefined,
+      pinnedFingerprint: tlsPinnedFingerprint.trim() || undefined,
+    };
+  }, [mode, tlsMode, tlsCaCertificate, tlsPinnedFingerprint]);
+
   const handleTestConnection = useCallback(async () => {
     setTestStatus('testing');
     setTestError(null);
     setUpsDescription(null);
+    setTlsPresentedFingerprint(null);
 
     try {
       const result = await testConnection({
@@ -325,11 +390,14 @@ export function SetupWizardPage() {
         username: username || undefined,
         password: password || undefined,
         upsName,
+        tls: buildTlsSettings(),
       });
 
+      setTlsPresentedFingerprint(result.tlsFingerprint ?? null);
       if (result.success) {
         setTestStatus('success');
         setUpsDescription(result.upsDescription ?? null);
+        setTestEncrypted(result.encrypted ?? false);
 
         const vars = result.variables ? Object.keys(result.variables) : [];
         setAvailableVariables(vars);
@@ -343,16 +411,17 @@ export function SetupWizardPage() {
         setMapping(newMapping);
       } else {
         setTestStatus('error');
-        setTestError(result.error ?? t('wizard.connectionTestFailed', 'Connection test failed'));
+        setTestError(resolveTlsFailureMessage(result));
       }
     } catch (err) {
       setTestStatus('error');
       setTestError(err instanceof Error ? err.message : t('wizard.unexpectedError', 'Unexpected error'));
     }
-  }, [host, port, username, password, upsName]);
+  }, [host, port, username, password, upsName, buildTlsSettings, resolveTlsFailureMessage]);
 
   const handleComplete = useCallback(async () => {
     setCompleting(true);
+    const usesLocalNut = mode !== 'directNut' && mode !== 'demo';
 
     try {
       const cleanMapping: Record<string, string> = {};
@@ -371,9 +440,9 @@ export function SetupWizardPage() {
         mapping: cleanMapping,
         line: { nominalVoltage, nominalFrequency },
         setupMode: mode,
-        launchLocalComponents: mode !== 'directNut',
-        localNutFolderPath:
-          mode !== 'directNut' ? nutFolderPath : undefined,
+        launchLocalComponents: usesLocalNut,
+        localNutFolderPath: usesLocalNut ? nutFolderPath : undefined,
+        tls: buildTlsSettings(),
       });
 
       await refreshConfig();
@@ -393,16 +462,17 @@ export function SetupWizardPage() {
     nominalFrequency,
     mode,
     nutFolderPath,
+    buildTlsSettings,
     navigate,
     refreshConfig,
   ]);
 
-  const handlePrepareLocalSuccess = useCallback(() => {
+  const handlePrepareLocalSuccess = useCallback((localPort = 3493) => {
     setInstallStatus('success');
     setInstallError(null);
     setInstallErrorDetails(null);
     setHost('127.0.0.1');
-    setPort(3493);
+    setPort(localPort);
     setTestStatus('idle');
     setTestError(null);
     setUpsDescription(null);
@@ -659,6 +729,29 @@ export function SetupWizardPage() {
     handlePrepareLocalSuccess,
   ]);
 
+  const handlePrepareDemo = useCallback(async () => {
+    setInstallStatus('installing');
+    setInstallError(null);
+    setInstallErrorDetails(null);
+
+    try {
+      const result = await prepareDemo({ scenario: demoScenario, speed: demoSpeed });
+      if (!result.success || result.port === undefined) {
+        setInstallStatus('error');
+        setInstallError(result.error ?? t('wizard.demoStartFailedGeneric', 'Failed to start the simulated UPS'));
+        return;
+      }
+
+      setUpsName(DEMO_UPS_NAME);
+      setUsername('');
+      setPassword('');
+      handlePrepareLocalSuccess(result.port);
+    } catch (err) {
+      setInstallStatus('error');
+      setInstallError(err instanceof Error ? err.message : t('wizard.demoStartFailedGeneric', 'Failed to start the simulated UPS'));
+    }
+  }, [demoScenario, demoSpeed, prepareDemo, handlePrepareLocalSuccess]);
+
   if (step === 'choose') {
     return (
       <ChooseSetupModeStep
@@ -720,6 +813,32 @@ export function SetupWizardPage() {
           setProductId('');
           setStep('nutSetup');
         }}
+        onChooseDemo={() => {
+          setMode('demo');
+          resetInstallUi();
+          setStep('nutSetup');
+        }}
+      />
+    );
+  }
+
+  if (step === 'nutSetup' && mode === 'demo') {
+    return (
+      <DemoSetupStep
+        scenario={demoScenario}
+        speed={demoSpeed}
+        installStatus={installStatus}
+        installError={installError}
+        onScenarioChange={(value) => {
+          setDemoScenario(value);
+          resetInstallUi();
+        }}
+        onSpeedChange={(value) => {
+          setDemoSpeed(value);
+          resetInstallUi();
+        }}
+        onStart={handlePrepareDemo}
+        onBack={() => setStep('choose')}
       />
     );
   }
@@ -1122,6 +1241,27 @@ export function SetupWizardPage() {
               placeholder="snmpups"
             />
           </div>
+
+          {mode === 'directNut' && (
+            <NutTlsForm
+              mode={tlsMode}
+              caCertificate={tlsCaCertificate}
+              pinnedFingerprint={tlsPinnedFingerprint}
+              presentedFingerprint={tlsPresentedFingerprint}
+              onModeChange={(value) => {
+                setTlsMode(value);
+                setTestStatus('idle');
+              }}
+              onCaCertificateChange={(value) => {
+                setTlsCaCertificate(value);
+                setTestStatus('idle');
+              }}
+              onPinnedFingerprintChange={(value) => {
+                setTlsPinnedFingerprint(value);
+                setTestStatus('idle');
+              }}
+            />
+          )}
         </div>
 
         {testStatus === 'success' && (
@@ -1130,6 +1270,11 @@ export function SetupWizardPage() {
             <span>
               {t('wizard.testSuccess')}
               {upsDescription ? ` - ${upsDescription}` : ''}
+              {mode === 'directNut' && tlsMode !== 'off'
+                ? ` (${testEncrypted
+                  ? t('wizard.tlsEncrypted', 'encrypted with TLS')
+                  : t('wizard.tlsNotEncrypted', 'not encrypted: upsd does not offer TLS')})`
+                : ''}
             </span>
           </div>
         )}
@@ -1145,7 +1290,12 @@ export function SetupWizardPage() {
           <UiButton
             className="btn btn--secondary"
             onClick={handleTestConnection}
-            disabled={testStatus === 'testing' || !host || !upsName}
+            disabled={
+              testStatus === 'testing' ||
+              !host ||
+              !upsName ||
+              (mode === 'directNut' && !isNutTlsFormValid(tlsCaCertificate, tlsPinnedFingerprint))
+            }
           >
             {testStatus === 'testing' ? (
               <>
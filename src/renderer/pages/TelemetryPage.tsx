@@ -1,14 +1,34 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useSearchParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, Download, ZoomOut } from 'lucide-react';
 import { electronApi } from '../app/electronApi';
-import { useConnection } from '../app/providers';
+import { useUpsDevices } from '../app/providers';
 import type {
   TelemetryColumn,
   TelemetryDataPoint,
   TelemetryRangeLimits,
 } from '../../shared/ipc/contracts';
+import type { PowerEvent, PowerEventKind } from '../../shared/powerEvents/types';
 import { TelemetryRowCard } from '../components/TelemetryRowCard';
-import { UiSelect } from '../components/ui';
+import { UiButton, UiInput, UiSelect } from '../components/ui';
+import {
+  getPowerEventTelemetryWindow,
+  parseTelemetryWindowSearchParams,
+  toTelemetryWindowSearchParams,
+  type TelemetryWindow,
+} from '../features/powerEvents/telemetryWindow';
+import {
+  panTelemetryWindow,
+  zoomOutTelemetryWindow,
+  zoomTelemetryWindow,
+} from '../features/telemetry/chartWindow';
+import {
+  parseDateTimeInputValue,
+  toDateTimeInputValue,
+} from '../features/telemetry/dateTimeInput';
+import { TelemetryExportDialog } from '../features/telemetry/TelemetryExportDialog';
+import { UpsDeviceSwitcher } from '../features/upsTargets/UpsDeviceSwitcher';
 
 type TimeScale =
   | '10 Minutes'
@@ -40,15 +60,37 @@ type MetricMeta = {
 
 const MAX_CHART_POINTS = 300;
 const LIVE_HISTORY_LIMIT = 350;
+const CUSTOM_TIME_SCALE = 'custom';
+/** Events offered by the jump shortcut; state changes like charging are too frequent to be useful. */
+const JUMP_EVENT_KINDS: PowerEventKind[] = [
+  'onBattery',
+  'lowBattery',
+  'forcedShutdown',
+  'bypass',
+  'overload',
+];
+const JUMP_EVENT_LIMIT = 20;
 
 export function TelemetryPage() {
   const { t } = useTranslation();
-  const { lastTelemetry, staticData } = useConnection();
+  const {
+    selected: { upsId, lastTelemetry, staticData },
+    selectUps,
+  } = useUpsDevices();
+  // Links from the Events page pin the charts to a fixed window around an event.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const fixedWindow = useMemo(
+    () => parseTelemetryWindowSearchParams(searchParams),
+    [searchParams],
+  );
   const [timeScale, setTimeScale] = useState<TimeScale>('1 Hour');
   const [history, setHistory] = useState<TelemetryDataPoint[]>([]);
   const [minMax, setMinMax] = useState<TelemetryRangeLimits>({});
   const [isLoading, setIsLoading] = useState(true);
   const [tick, setTick] = useState(0);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [rangeInputs, setRangeInputs] = useState({ start: '', end: '' });
+  const [recentEvents, setRecentEvents] = useState<PowerEvent[]>([]);
 
   const metricMeta: MetricMeta[] = [
     {
@@ -171,10 +213,77 @@ export function TelemetryPage() {
   );
 
   const telemetryWindow = useMemo(() => {
+    if (fixedWindow) {
+      return { start: fixedWindow.start, end: fixedWindow.end };
+    }
+
     const end = new Date();
     const start = new Date(end.getTime() - TIME_SCALE_MS[timeScale]);
     return { start, end };
-  }, [tick, timeScale]);
+  }, [fixedWindow, tick, timeScale]);
+
+  useEffect(() => {
+    if (fixedWindow?.upsId) {
+      selectUps(fixedWindow.upsId);
+    }
+  }, [fixedWindow?.upsId]);
+
+  useEffect(() => {
+    if (fixedWindow) {
+      setRangeInputs({
+        start: toDateTimeInputValue(fixedWindow.start),
+        end: toDateTimeInputValue(fixedWindow.end),
+      });
+    }
+  }, [fixedWindow]);
+
+  useEffect(() => {
+    let cancelled = false;
+    void electronApi.powerEvents
+      .query({ upsId, kinds: JUMP_EVENT_KINDS, limit: JUMP_EVENT_LIMIT })
+      .then((result) => {
+        if (!cancelled) {
+          setRecentEvents(result.events);
+        }
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load power events for telemetry page:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [upsId]);
+
+  const showWindow = useCallback(
+    (range: TelemetryWindow) => {
+      setSearchParams(toTelemetryWindowSearchParams({ ...range, upsId }));
+    },
+    [setSearchParams, upsId],
+  );
+
+  const handleRangeSelect = useCallback(
+    (startMs: number, endMs: number) => {
+      showWindow(zoomTelemetryWindow(telemetryWindow, startMs, endMs));
+    },
+    [showWindow, telemetryWindow],
+  );
+
+  const handleRangeInputChange = (next: { start: string; end: string }) => {
+    setRangeInputs(next);
+    const start = parseDateTimeInputValue(next.start);
+    const end = parseDateTimeInputValue(next.end);
+    if (start && end && start < end) {
+      showWindow({ start, end });
+    }
+  };
+
+  const handleJumpToEvent = (eventId: string) => {
+    const event = recentEvents.find((candidate) => candidate.id === eventId);
+    if (event) {
+      showWindow(getPowerEventTelemetryWindow(event));
+    }
+  };
 
   useEffect(() => {
     const interval = setInterval(() => setTick((t) => t + 1), 30000);
@@ -188,16 +297,18 @@ export function TelemetryPage() {
       setIsLoading(true);
 
       try {
-        const now = new Date();
-        const start = new Date(now.getTime() - TIME_SCALE_MS[timeScale]);
+        const now = fixedWindow?.end ?? new Date();
+        const start = fixedWindow?.start ?? new Date(now.getTime() - TIME_SCALE_MS[timeScale]);
         const [data, limits] = await Promise.all([
           electronApi.telemetry.queryRange({
+            upsId,
             startIso: start.toISOString(),
             endIso: now.toISOString(),
             columns: selectedColumns,
             maxPoints: MAX_CHART_POINTS,
           }),
           electronApi.telemetry.getMinMaxForRange({
+            upsId,
             startIso: start.toISOString(),
             endIso: now.toISOString(),
             columns: selectedColumns,
@@ -224,10 +335,10 @@ export function TelemetryPage() {
     return () => {
       mounted = false;
     };
-  }, [selectedColumns, timeScale]);
+  }, [fixedWindow, selectedColumns, timeScale, upsId]);
 
   useEffect(() => {
-    if (!lastTelemetry) {
+    if (!lastTelemetry || fixedWindow) {
       return;
     }
 
@@ -290,21 +401,126 @@ export function TelemetryPage() {
         </div>
 
         <div className="telemetry-controls">
+          <UpsDeviceSwitcher disabled={isLoading} />
+          {fixedWindow ? (
+            <UiButton
+              className="btn btn--secondary"
+              onClick={() => setSearchParams({})}
+            >
+              {t('telemetry.backToLive')}
+            </UiButton>
+          ) : (
+            <UiSelect
+              value={timeScale}
+              onChange={(event) => {
+                if (event.target.value === CUSTOM_TIME_SCALE) {
+                  showWindow(telemetryWindow);
+                  return;
+                }
+                setTimeScale(event.target.value as TimeScale);
+              }}
+              className="telemetry-select"
+              disabled={isLoading}
+            >
+              {(Object.keys(TIME_SCALE_MS) as TimeScale[]).map((scale) => (
+                <option key={scale} value={scale}>
+                  {t(`telemetry.timeScale.${scale.replace(' ', '')}`)}
+                </option>
+              ))}
+              <option value={CUSTOM_TIME_SCALE}>{t('telemetry.timeScale.custom')}</option>
+            </UiSelect>
+          )}
           <UiSelect
-            value={timeScale}
-            onChange={(event) => setTimeScale(event.target.value as TimeScale)}
+            value=""
+            onChange={(event) => handleJumpToEvent(event.target.value)}
             className="telemetry-select"
-            disabled={isLoading}
+            aria-label={t('telemetry.jumpToEvent')}
+            disabled={recentEvents.length === 0}
           >
-            {(Object.keys(TIME_SCALE_MS) as TimeScale[]).map((scale) => (
-              <option key={scale} value={scale}>
-                {t(`telemetry.timeScale.${scale.replace(' ', '')}`)}
+            <option value="">
+              {recentEvents.length === 0
+                ? t('telemetry.jumpToEventEmpty')
+                : t('telemetry.jumpToEvent')}
+            </option>
+            {recentEvents.map((event) => (
+              <option key={event.id} value={event.id}>
+                {t('telemetry.jumpToEventOption', {
+                  kind: t(`events.kinds.${event.kind}`),
+                  start: new Date(event.startedAtIso).toLocaleString(),
+                })}
               </option>
             ))}
           </UiSelect>
+          <UiButton
+            className="btn btn--secondary telemetry-export-button"
+            onClick={() => setExportOpen(true)}
+          >
+            <Download size={16} />
+            {t('telemetry.export')}
+          </UiButton>
         </div>
       </header>
 
+      <div className="telemetry-window-bar">
+        {fixedWindow && (
+          <>
+            <UiInput
+              type="datetime-local"
+              className="telemetry-select"
+              aria-label={t('telemetry.windowStart')}
+              value={rangeInputs.start}
+              onChange={(event) =>
+                handleRangeInputChange({ ...rangeInputs, start: event.target.value })
+              }
+            />
+            <span className="telemetry-window-separator">–</span>
+            <UiInput
+              type="datetime-local"
+              className="telemetry-select"
+              aria-label={t('telemetry.windowEnd')}
+              value={rangeInputs.end}
+              onChange={(event) =>
+                handleRangeInputChange({ ...rangeInputs, end: event.target.value })
+              }
+            />
+            <UiButton
+              className="policy-icon-btn"
+              title={t('telemetry.panBackward')}
+              aria-label={t('telemetry.panBackward')}
+              onClick={() => showWindow(panTelemetryWindow(fixedWindow, -1))}
+            >
+              <ChevronLeft size={14} />
+            </UiButton>
+            <UiButton
+              className="policy-icon-btn"
+              title={t('telemetry.zoomOut')}
+              aria-label={t('telemetry.zoomOut')}
+              onClick={() => showWindow(zoomOutTelemetryWindow(fixedWindow))}
+            >
+              <ZoomOut size={14} />
+            </UiButton>
+            <UiButton
+              className="policy-icon-btn"
+              title={t('telemetry.panForward')}
+              aria-label={t('telemetry.panForward')}
+              onClick={() => showWindow(panTelemetryWindow(fixedWindow, 1))}
+            >
+              <ChevronRight size={14} />
+            </UiButton>
+          </>
+        )}
+        <span className="telemetry-window-hint">{t('telemetry.dragToZoomHint')}</span>
+      </div>
+
+      <TelemetryExportDialog
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        upsId={upsId}
+        columns={metricMeta.map(({ key, title }) => ({ key, title }))}
+        defaultStart={telemetryWindow.start}
+        defaultEnd={telemetryWindow.end}
+      />
+
       <section className="telemetry-list">
         {isLoading && history.length === 0 ? (
           <div className="loading-state">{t('telemetry.loading')}</div>
@@ -367,6 +583,7 @@ export function TelemetryPage() {
                   maxAggregate={stats?.max ?? undefined}
                   windowStart={telemetryWindow.start}
                   windowEnd={telemetryWindow.end}
+                  onRangeSelect={handleRangeSelect}
                 />
               );
             })}
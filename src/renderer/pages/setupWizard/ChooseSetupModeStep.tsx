@@ -1,5 +1,5 @@
 import { useTranslation } from 'react-i18next';
-import { Router, MonitorCog, Cable, Usb } from 'lucide-react';
+import { Router, MonitorCog, Cable, Usb, FlaskConical } from 'lucide-react';
 import { UiButton } from '../../components/ui';
 
 type ChooseSetupModeStepProps = {
@@ -7,6 +7,7 @@ type ChooseSetupModeStepProps = {
   onChooseSnmpSetup: () => void;
   onChooseSerialSetup: () => void;
   onChooseUsbHidSetup: () => void;
+  onChooseDemo: () => void;
 };
 
 export function ChooseSetupModeStep({
@@ -14,6 +15,7 @@ export function ChooseSetupModeStep({
   onChooseSnmpSetup,
   onChooseSerialSetup,
   onChooseUsbHidSetup,
+  onChooseDemo,
 }: ChooseSetupModeStepProps) {
   const { t } = useTranslation();
 
@@ -120,6 +122,29 @@ export function ChooseSetupModeStep({
               style={{ flexShrink: 0, marginInlineStart: '12px', transform: 'rotate(45deg)' }}
             />
           </UiButton>
+
+          <UiButton
+            className="btn btn--secondary"
+            onClick={onChooseDemo}
+            style={{
+              width: '100%',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              textAlign: 'left',
+              padding: '16px',
+            }}
+          >
+            <span style={{ display: 'flex', flexDirection: 'column', gap: '2px', flex: 1 }}>
+              <strong>{t('wizard.modeDemo', 'Try Demo Mode')}</strong>
+              <span className="form-hint">
+                {t('wizard.modeDemoDesc', 'Explore the app and test shutdown policies with a simulated UPS')}
+              </span>
+            </span>
+            <FlaskConical
+              size={20}
+              style={{ flexShrink: 0, marginInlineStart: '12px' }}
+            />
+          </UiButton>
         </div>
       </div>
     </div>
@@ -0,0 +1,183 @@
+import { useTranslation } from 'react-i18next';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import {
+  DEMO_SCENARIO_IDS,
+  MAX_DEMO_SPEED,
+  MIN_DEMO_SPEED,
+  type DemoScenarioId,
+} from '../../../shared/demo/constants';
+import type { InstallStatus } from './types';
+import { WizardSteps } from './WizardSteps';
+import { UiButton, UiInput, UiSelect } from '../../components/ui';
+
+type DemoSetupStepProps = {
+  scenario: DemoScenarioId;
+  speed: number;
+  installStatus: InstallStatus;
+  installError: string | null;
+  onScenarioChange: (scenario: DemoScenarioId) => void;
+  onSpeedChange: (speed: number) => void;
+  onStart: () => void;
+  onBack: () => void;
+};
+
+export function isValidDemoSpeed(speed: number): boolean {
+  return Number.isInteger(speed) && speed >= MIN_DEMO_SPEED && speed <= MAX_DEMO_SPEED;
+}
+
+export function DemoSetupStep({
+  scenario,
+  speed,
+  installStatus,
+  installError,
+  onScenarioChange,
+  onSpeedChange,
+  onStart,
+  onBack,
+}: DemoSetupStepProps) {
+  const { t } = useTranslation();
+  const speedValid = isValidDemoSpeed(speed);
+
+  const scenarioLabels: Record<DemoScenarioId, { title: string; description: string }> = {
+    mainsFailure: {
+      title: t('wizard.demoScenarioMainsFailure', 'Mains failure'),
+      description: t(
+        'wizard.demoScenarioMainsFailureDesc',
+        'Power fails after one minute at 45% load; the battery lasts about ten minutes.',
+      ),
+    },
+    flappingInput: {
+      title: t('wizard.demoScenarioFlappingInput', 'Flapping input'),
+      description: t(
+        'wizard.demoScenarioFlappingInputDesc',
+        'Short outages every few seconds, repeating every two minutes.',
+      ),
+    },
+    brownout: {
+      title: t('wizard.demoScenarioBrownout', 'Brownout'),
+      description: t(
+        'wizard.demoScenarioBrownoutDesc',
+        'Input voltage sags until the UPS boosts, then transfers to battery.',
+      ),
+    },
+    overload: {
+      title: t('wizard.demoScenarioOverload', 'Overload'),
+      description: t(
+        'wizard.demoScenarioOverloadDesc',
+        'Load climbs past the rating, followed by a short outage.',
+      ),
+    },
+    steady: {
+      title: t('wizard.demoScenarioSteady', 'Steady'),
+      description: t(
+        'wizard.demoScenarioSteadyDesc',
+        'Healthy mains at 35% load, for exploring the dashboard.',
+      ),
+    },
+  };
+
+  return (
+    <div className="wizard-backdrop">
+      <div className="wizard-card" style={{ maxWidth: '680px' }}>
+        <div className="wizard-header">
+          <WizardSteps currentStep="nutSetup" mode="demo" />
+          <h1 className="wizard-title">{t('wizard.demoSetupTitle', 'Start the Simulated UPS')}</h1>
+          <p className="wizard-subtitle">
+            {t(
+              'wizard.demoSetupDesc',
+              'The app serves a simulated UPS over the NUT protocol on this computer. Shutdown actions are recorded but never run.',
+            )}
+          </p>
+        </div>
+
+        <div className="wizard-form">
+          <div className="form-group">
+            <label className="form-label" htmlFor="wiz-demo-scenario">
+              {t('wizard.demoScenario', 'Scenario')}
+            </label>
+            <UiSelect
+              id="wiz-demo-scenario"
+              className="form-input"
+              value={scenario}
+              onChange={(e) => onScenarioChange(e.target.value as DemoScenarioId)}
+              disabled={installStatus === 'installing'}
+            >
+              {DEMO_SCENARIO_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {scenarioLabels[id].title}
+                </option>
+              ))}
+            </UiSelect>
+            <p className="form-hint">{scenarioLabels[scenario].description}</p>
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor="wiz-demo-speed">
+              {t('wizard.demoSpeed', 'Speed')}
+            </label>
+            <UiInput
+              id="wiz-demo-speed"
+              className="form-input"
+              type="number"
+              value={speed}
+              onChange={(e) => onSpeedChange(Number(e.target.value))}
+              min={MIN_DEMO_SPEED}
+              max={MAX_DEMO_SPEED}
+              disabled={installStatus === 'installing'}
+            />
+            <p className="form-hint">
+              {speedValid
+                ? t(
+                  'wizard.demoSpeedHint',
+                  'Simulated seconds per real second. At 10, a ten-minute outage plays out in one minute.',
+                )
+                : t('wizard.demoSpeedInvalid', 'Enter a whole number from {{min}} to {{max}}.', {
+                  min: MIN_DEMO_SPEED,
+                  max: MAX_DEMO_SPEED,
+                })}
+            </p>
+          </div>
+        </div>
+
+        {installStatus === 'success' && (
+          <div className="wizard-feedback wizard-feedback--success">
+            <span className="feedback-icon"><CheckCircle2 size={20} /></span>
+            <span>{t('wizard.demoStarted', 'The simulated UPS is running')}</span>
+          </div>
+        )}
+
+        {installStatus === 'error' && installError && (
+          <div className="wizard-feedback wizard-feedback--error">
+            <span className="feedback-icon"><XCircle size={20} /></span>
+            <span>{installError}</span>
+          </div>
+        )}
+
+        <div className="wizard-actions">
+          <UiButton
+            className="btn btn--secondary"
+            onClick={onBack}
+            disabled={installStatus === 'installing'}
+          >
+            {t('wizard.back')}
+          </UiButton>
+
+          <UiButton
+            className="btn btn--primary"
+            onClick={onStart}
+            disabled={!speedValid || installStatus === 'installing'}
+          >
+            {installStatus === 'installing' ? (
+              <>
+                <span className="btn-spinner" />
+                {t('wizard.demoStarting', 'Starting...')}
+              </>
+            ) : (
+              t('wizard.demoStart', 'Start Simulated UPS')
+            )}
+          </UiButton>
+        </div>
+      </div>
+    </div>
+  );
+}
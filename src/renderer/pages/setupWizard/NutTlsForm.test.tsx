@@ -0,0 +1,60 @@
+/** @vitest-environment jsdom */
+
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { NutTlsForm } from './NutTlsForm';
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (_key: string, fallback: string, values?: Record<string, string>) => {
+      if (!values) {
+        return fallback;
+      }
+      return Object.entries(values).reduce(
+        (accumulator, [name, value]) => accumulator.replace(`{{${name}}}`, value),
+        fallback,
+      );
+    },
+  }),
+}));
+
+const FINGERPRINT = Array.from({ length: 32 }, () => 'AB').join(':');
+
+describe('NutTlsForm', () => {
+  it('hides the certificate fields while TLS is off', () => {
+    render(
+      <NutTlsForm
+        mode="off"
+        caCertificate=""
+        pinnedFingerprint=""
+        presentedFingerprint={null}
+        onModeChange={() => {}}
+        onCaCertificateChange={() => {}}
+        onPinnedFingerprintChange={() => {}}
+      />,
+    );
+
+    expect(screen.queryByLabelText(/CA certificate/)).not.toBeInTheDocument();
+  });
+
+  it('flags malformed fingerprints and offers to pin the presented certificate', () => {
+    const onPinnedFingerprintChange = vi.fn();
+    render(
+      <NutTlsForm
+        mode="required"
+        caCertificate=""
+        pinnedFingerprint="abcd"
+        presentedFingerprint={FINGERPRINT}
+        onModeChange={() => {}}
+        onCaCertificateChange={() => {}}
+        onPinnedFingerprintChange={onPinnedFingerprintChange}
+      />,
+    );
+
+    expect(
+      screen.getByText('Use the 64 hexadecimal digits of a SHA-256 fingerprint'),
+    ).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Pin this certificate'));
+    expect(onPinnedFingerprintChange).toHaveBeenCalledWith(FINGERPRINT);
+  });
+});
@@ -0,0 +1,152 @@
+import { useTranslation } from 'react-i18next';
+import {
+  isPemCertificate,
+  isValidTlsFingerprint,
+  normalizeTlsFingerprint,
+  type NutTlsMode,
+} from '../../../shared/nut/tls';
+import { UiButton, UiInput, UiSelect } from '../../components/ui';
+
+export type NutTlsFormProps = {
+  mode: NutTlsMode;
+  caCertificate: string;
+  pinnedFingerprint: string;
+  /** Fingerprint reported by the last connection test, offered for pinning. */
+  presentedFingerprint: string | null;
+  onModeChange: (value: NutTlsMode) => void;
+  onCaCertificateChange: (value: string) => void;
+  onPinnedFingerprintChange: (value: string) => void;
+  /** Prefix of the field ids, for pages that show more than one form. */
+  idPrefix?: string;
+};
+
+export function isNutTlsFormValid(caCertificate: string, pinnedFingerprint: string): boolean {
+  return (
+    (caCertificate.trim() === '' || isPemCertificate(caCertificate)) &&
+    (pinnedFingerprint.trim() === '' || isValidTlsFingerprint(pinnedFingerprint))
+  );
+}
+
+export function NutTlsForm({
+  mode,
+  caCertificate,
+  pinnedFingerprint,
+  presentedFingerprint,
+  onModeChange,
+  onCaCertificateChange,
+  onPinnedFingerprintChange,
+  idPrefix = 'wiz-tls',
+}: NutTlsFormProps) {
+  const { t } = useTranslation();
+  const caCertificateValid = caCertificate.trim() === '' || isPemCertificate(caCertificate);
+  const fingerprintValid =
+    pinnedFingerprint.trim() === '' || isValidTlsFingerprint(pinnedFingerprint);
+
+  return (
+    <>
+      <div className="form-group">
+        <label className="form-label" htmlFor={`${idPrefix}-mode`}>
+          {t('wizard.tlsMode', 'Encryption (STARTTLS)')}
+        </label>
+        <UiSelect
+          id={`${idPrefix}-mode`}
+          className="form-input"
+          value={mode}
+          onChange={(event) => onModeChange(event.target.value as NutTlsMode)}
+        >
+          <option value="off">{t('wizard.tlsModeOff', 'Off')}</option>
+          <option value="opportunistic">
+            {t('wizard.tlsModeOpportunistic', 'Use when available')}
+          </option>
+          <option value="required">{t('wizard.tlsModeRequired', 'Required')}</option>
+        </UiSelect>
+        <span className="form-hint">
+          {mode === 'off'
+            ? t(
+              'wizard.tlsModeOffHint',
+              'The username and password are sent in cleartext. Only use this on a trusted network.',
+            )
+            : mode === 'opportunistic'
+              ? t(
+                'wizard.tlsModeOpportunisticHint',
+                'Encrypts when upsd offers TLS and falls back to cleartext otherwise. The certificate is only checked when a CA or fingerprint is set.',
+              )
+              : t(
+                'wizard.tlsModeRequiredHint',
+                'Refuses to log in unless upsd offers TLS with a certificate trusted by the system, the CA below or the pinned fingerprint.',
+              )}
+        </span>
+      </div>
+
+      {mode !== 'off' && (
+        <>
+          <div className="form-group">
+            <label className="form-label" htmlFor={`${idPrefix}-ca`}>
+              {t('wizard.tlsCaCertificate', 'CA certificate (PEM)')}{' '}
+              <span className="form-hint">{t('settings.optional', '(optional)')}</span>
+            </label>
+            <textarea
+              id={`${idPrefix}-ca`}
+              className="form-input"
+              rows={3}
+              spellCheck={false}
+              value={caCertificate}
+              placeholder="-----BEGIN CERTIFICATE-----"
+              onChange={(event) => onCaCertificateChange(event.target.value)}
+            />
+            {!caCertificateValid && (
+              <span style={{ color: 'var(--color-error)', fontSize: '0.82rem' }}>
+                {t('wizard.tlsCaCertificateInvalid', 'Paste a PEM certificate starting with -----BEGIN CERTIFICATE-----')}
+              </span>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label className="form-label" htmlFor={`${idPrefix}-fingerprint`}>
+              {t('wizard.tlsPinnedFingerprint', 'Pinned certificate (SHA-256)')}{' '}
+              <span className="form-hint">{t('settings.optional', '(optional)')}</span>
+            </label>
+            <UiInput
+              id={`${idPrefix}-fingerprint`}
+              className="form-input"
+              type="text"
+              spellCheck={false}
+              value={pinnedFingerprint}
+              placeholder="AB:CD:…"
+              onChange={(event) => onPinnedFingerprintChange(event.target.value)}
+            />
+            <span className="form-hint">
+              {t(
+                'wizard.tlsPinnedFingerprintHint',
+                'When set, only this exact certificate is accepted, even if it is self-signed.',
+              )}
+            </span>
+            {!fingerprintValid && (
+              <span style={{ color: 'var(--color-error)', fontSize: '0.82rem' }}>
+                {t('wizard.tlsPinnedFingerprintInvalid', 'Use the 64 hexadecimal digits of a SHA-256 fingerprint')}
+              </span>
+            )}
+          </div>
+
+          {presentedFingerprint &&
+            presentedFingerprint !== normalizeTlsFingerprint(pinnedFingerprint) && (
+            <div className="form-group">
+              <span className="form-hint">
+                {t('wizard.tlsPresentedFingerprint', 'upsd presented the certificate {{fingerprint}}', {
+                  fingerprint: presentedFingerprint,
+                })}
+              </span>
+              <UiButton
+                type="button"
+                className="btn btn--secondary"
+                onClick={() => onPinnedFingerprintChange(presentedFingerprint)}
+              >
+                {t('wizard.tlsPinPresentedFingerprint', 'Pin this certificate')}
+              </UiButton>
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+}
@@ -17,7 +17,12 @@ export function WizardSteps({ currentStep, mode }: WizardStepsProps) {
         { id: 'line', label: t('wizard.stepLine', 'Line') },
       ]
       : [
-        { id: 'nutSetup', label: t('wizard.stepSetup', 'NUT Setup') },
+        {
+          id: 'nutSetup',
+          label: mode === 'demo'
+            ? t('wizard.stepSimulator', 'Simulator')
+            : t('wizard.stepSetup', 'NUT Setup'),
+        },
         { id: 'connect', label: t('wizard.stepConnect', 'Connect') },
         { id: 'map', label: t('wizard.stepMap', 'Map') },
         { id: 'line', label: t('wizard.stepLine', 'Line') },
@@ -2,6 +2,7 @@ import { useCallback } from 'react';
 import { electronApi } from '../../../app/electronApi';
 import type {
   NutSetupListSerialDriversPayload,
+  NutSetupPrepareDemoPayload,
   NutSetupPrepareLocalDriverPayload,
   NutSetupPrepareLocalNutPayload,
   NutSetupPrepareUsbHidPayload,
@@ -62,6 +63,12 @@ export function useWizardActions() {
     [],
   );
 
+  const prepareDemo = useCallback(
+    (payload: NutSetupPrepareDemoPayload) =>
+      electronApi.nutSetup.prepareDemo(payload),
+    [],
+  );
+
   return {
     testConnection,
     completeWizard,
@@ -72,5 +79,6 @@ export function useWizardActions() {
     listComPorts,
     prepareLocalDriver,
     prepareUsbHid,
+    prepareDemo,
   };
 }
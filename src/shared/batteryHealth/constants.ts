@@ -0,0 +1,4 @@
+/** Capacity below which the pack is flagged; the usual VRLA end-of-life criterion. */
+export const BATTERY_REPLACE_CAPACITY_PERCENT = 80;
+/** Typical service life of a VRLA pack kept at room temperature. */
+export const BATTERY_REPLACE_AGE_YEARS = 4;
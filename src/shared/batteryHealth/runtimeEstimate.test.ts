@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { estimateRuntimeSeconds } from './runtimeEstimate';
+import type { RuntimeModelPoint } from './types';
+
+const model: RuntimeModelPoint[] = [
+  { drainPercentPerMinute: 2, averagePowerWatts: 200, averageLoadPercent: 40 },
+  { drainPercentPerMinute: 2.2, averagePowerWatts: 220, averageLoadPercent: null },
+  { drainPercentPerMinute: 1.8, averagePowerWatts: null, averageLoadPercent: 36 },
+];
+
+describe('estimateRuntimeSeconds()', () => {
+  it('divides the remaining charge by the drain rate learned at the same load', () => {
+    expect(
+      estimateRuntimeSeconds(model.slice(0, 1), { chargePercent: 50, realPowerWatts: 200 }),
+    ).toBe(25 * 60);
+  });
+
+  it('drains more than proportionally faster at higher loads', () => {
+    const light = estimateRuntimeSeconds(model, { chargePercent: 80, realPowerWatts: 100 });
+    const heavy = estimateRuntimeSeconds(model, { chargePercent: 80, realPowerWatts: 400 });
+
+    expect(light).not.toBeNull();
+    expect(heavy).not.toBeNull();
+    expect(light as number).toBeGreaterThan((heavy as number) * 4);
+  });
+
+  it('falls back to the load percentage when real power is unknown', () => {
+    expect(
+      estimateRuntimeSeconds(
+        [model[0], model[2]],
+        { chargePercent: 38, loadPercent: 38 },
+      ),
+    ).toBeGreaterThan(18 * 60);
+    expect(
+      estimateRuntimeSeconds(model, { chargePercent: 50, realPowerWatts: null, loadPercent: null }),
+    ).toBeNull();
+  });
+
+  it('needs a charge reading and comparable discharges', () => {
+    expect(estimateRuntimeSeconds(model, { realPowerWatts: 200 })).toBeNull();
+    expect(estimateRuntimeSeconds([], { chargePercent: 50, realPowerWatts: 200 })).toBeNull();
+    expect(
+      estimateRuntimeSeconds(
+        [{ drainPercentPerMinute: 2, averagePowerWatts: null, averageLoadPercent: null }],
+        { chargePercent: 50, realPowerWatts: 200, loadPercent: 40 },
+      ),
+    ).toBeNull();
+  });
+});
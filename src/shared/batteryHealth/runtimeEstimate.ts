@@ -0,0 +1,63 @@
+import type { RuntimeEstimateInput, RuntimeModelPoint } from './types';
+
+/**
+ * Lead-acid batteries drain faster than linearly with load (Peukert's law);
+ * 1.15 is a typical exponent for the VRLA packs used in small UPSes.
+ */
+const PEUKERT_EXPONENT = 1.15;
+
+/**
+ * Estimates the remaining runtime from how fast earlier discharges drained the
+ * battery, scaled from each discharge's average load to the current one. Real
+ * power is preferred; `ups.load` is used when the UPS or the learned discharges
+ * lack it. Returns null when there is nothing comparable to learn from.
+ */
+export function estimateRuntimeSeconds(
+  model: readonly RuntimeModelPoint[],
+  input: RuntimeEstimateInput,
+): number | null {
+  const chargePercent = toPositiveNumber(input.chargePercent);
+  if (chargePercent === null) {
+    return null;
+  }
+
+  const rates =
+    scaleDrainRates(model, toPositiveNumber(input.realPowerWatts), 'averagePowerWatts') ??
+    scaleDrainRates(model, toPositiveNumber(input.loadPercent), 'averageLoadPercent');
+  if (!rates) {
+    return null;
+  }
+
+  const drainPercentPerMinute = median(rates);
+  return Math.floor((chargePercent / drainPercentPerMinute) * 60);
+}
+
+function scaleDrainRates(
+  model: readonly RuntimeModelPoint[],
+  current: number | null,
+  key: 'averagePowerWatts' | 'averageLoadPercent',
+): number[] | null {
+  if (current === null) {
+    return null;
+  }
+
+  const rates = model.flatMap((point) => {
+    const reference = toPositiveNumber(point[key]);
+    return reference === null || point.drainPercentPerMinute <= 0
+      ? []
+      : [point.drainPercentPerMinute * (current / reference) ** PEUKERT_EXPONENT];
+  });
+  return rates.length > 0 ? rates : null;
+}
+
+function toPositiveNumber(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((left, right) => left - right);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
@@ -0,0 +1,56 @@
+export type BatteryReplaceReason = 'lowCapacity' | 'age';
+
+/** One on-battery period summarized from `ups_telemetry`. */
+export type BatteryDischarge = {
+  upsId: string;
+  startedAtIso: string;
+  endedAtIso: string;
+  startChargePercent: number;
+  endChargePercent: number;
+  /** Energy drawn from the battery, integrated from real power; null without power readings. */
+  energyWattMinutes: number | null;
+  /** Mean `ups.load` over the discharge; null when the UPS does not report it. */
+  averageLoadPercent: number | null;
+  /** Null when the UPS does not report `battery.temperature`. */
+  averageTemperatureC: number | null;
+};
+
+export type BatteryHealthTrendPoint = {
+  startedAtIso: string;
+  chargeDropPerWattMinute: number;
+  averageTemperatureC: number | null;
+  /** Capacity relative to the first recorded discharges, corrected to 25 °C. */
+  capacityPercent: number;
+};
+
+/**
+ * How fast one recorded discharge drained the battery at its average load.
+ * The runtime estimator scales these rates to the current load.
+ */
+export type RuntimeModelPoint = {
+  drainPercentPerMinute: number;
+  averagePowerWatts: number | null;
+  averageLoadPercent: number | null;
+};
+
+export type RuntimeEstimateInput = {
+  chargePercent?: number | null;
+  realPowerWatts?: number | null;
+  loadPercent?: number | null;
+};
+
+export type BatteryHealthReport = {
+  upsId: string;
+  generatedAtIso: string;
+  /** Latest capacity estimate; null until a usable discharge was recorded. */
+  capacityPercent: number | null;
+  /** Usable discharges, oldest first. */
+  trend: BatteryHealthTrendPoint[];
+  /** Parsed from `battery.mfr.date`; null when unknown. */
+  manufacturedAtIso: string | null;
+  ageYears: number | null;
+  replaceSoon: boolean;
+  replaceReasons: BatteryReplaceReason[];
+  /** Latest discharges, used to estimate runtime when the UPS does not report it. */
+  runtimeModel: RuntimeModelPoint[];
+};
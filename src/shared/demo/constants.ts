@@ -0,0 +1,17 @@
+/** Built-in scripts for the simulated UPS; see src/main/demo/demoScenarios.ts. */
+export const DEMO_SCENARIO_IDS = [
+  'mainsFailure',
+  'flappingInput',
+  'brownout',
+  'overload',
+  'steady',
+] as const;
+
+export type DemoScenarioId = (typeof DEMO_SCENARIO_IDS)[number];
+
+/** The name the simulated UPS is served under. */
+export const DEMO_UPS_NAME = 'demo';
+
+/** How many simulated seconds pass per real second. */
+export const MIN_DEMO_SPEED = 1;
+export const MAX_DEMO_SPEED = 60;
@@ -0,0 +1,11 @@
+import type { EnergyGranularity } from './types';
+
+export const ENERGY_GRANULARITIES = [
+  'hour',
+  'day',
+  'month',
+] as const satisfies readonly EnergyGranularity[];
+
+export const ENERGY_TARIFF_MODES = ['flat', 'timeOfUse'] as const;
+
+export const MAX_ENERGY_TARIFF_PERIODS = 12;
@@ -0,0 +1,49 @@
+export type EnergyGranularity = 'hour' | 'day' | 'month';
+
+export type EnergyTariffMode = 'flat' | 'timeOfUse';
+
+/**
+ * One time-of-use rate in local time. `endHour` is exclusive; a period whose
+ * end is before its start runs past midnight (22 to 6 is the night rate).
+ */
+export type EnergyTariffPeriod = {
+  startHour: number;
+  endHour: number;
+  ratePerKwh: number;
+};
+
+export type EnergyReportQuery = {
+  upsId?: string;
+  granularity: EnergyGranularity;
+  startIso: string;
+  endIso: string;
+};
+
+export type EnergyBucket = {
+  /** Local start of the hour, day or month. */
+  startIso: string;
+  energyKwh: number;
+  /** Part of `energyKwh` drawn while the UPS was on battery. */
+  batteryEnergyKwh: number;
+  cost: number;
+};
+
+export type EnergyReport = {
+  upsId: string;
+  granularity: EnergyGranularity;
+  currency: string;
+  /** Every bucket of the range in order, including empty ones. */
+  buckets: EnergyBucket[];
+  totalKwh: number;
+  totalBatteryKwh: number;
+  totalCost: number;
+};
+
+export type EnergyTotals = {
+  upsId: string;
+  currency: string;
+  todayKwh: number;
+  todayCost: number;
+  monthKwh: number;
+  monthCost: number;
+};
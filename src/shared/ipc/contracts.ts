@@ -1,10 +1,61 @@
+import type { BatteryHealthReport } from '../batteryHealth/types';
 import type { AppConfig, AppConfigPatch } from '../config/types';
-import type { ShutdownPolicyDecisionLogEntry } from '../shutdownPolicy/types';
-import type { TelemetryColumn } from '../telemetry/types';
-
+import type { DemoScenarioId } from '../demo/constants';
+import type { EnergyReport, EnergyReportQuery } from '../energy/types';
+import type { NutTlsFailureReason, NutTlsSettings } from '../nut/tls';
+import type { NutWritableVariable } from '../nut/writableVariables';
+import type { PowerEventPage, PowerEventQuery } from '../powerEvents/types';
+import type {
+  PreShutdownHook,
+  PreShutdownHookResult,
+  ShutdownPolicyBacktestResult,
+  ShutdownPolicyConfig,
+  ShutdownPolicyDecisionLogEntry,
+  ShutdownPolicyDecisionLogEvent,
+  ShutdownPolicyOutageScenario,
+  ShutdownPolicyOutageSimulationResult,
+} from '../shutdownPolicy/types';
+import type { TelemetryColumn, TelemetryExportFormat } from '../telemetry/types';
+
+export type {
+  BatteryHealthReport,
+  BatteryHealthTrendPoint,
+  BatteryReplaceReason,
+} from '../batteryHealth/types';
 export type { AppConfig, AppConfigPatch } from '../config/types';
-export type { ShutdownPolicyDecisionLogEntry } from '../shutdownPolicy/types';
-export type { TelemetryColumn } from '../telemetry/types';
+export type {
+  EnergyBucket,
+  EnergyGranularity,
+  EnergyReport,
+  EnergyReportQuery,
+  EnergyTariffMode,
+  EnergyTariffPeriod,
+  EnergyTotals,
+} from '../energy/types';
+export type {
+  NutWritableVariable,
+  NutWritableVariableKind,
+} from '../nut/writableVariables';
+export type {
+  PowerEvent,
+  PowerEventKind,
+  PowerEventPage,
+  PowerEventQuery,
+  PowerEventSummary,
+} from '../powerEvents/types';
+export type {
+  PreShutdownHook,
+  PreShutdownHookResult,
+  ShutdownPolicyBacktestEvent,
+  ShutdownPolicyBacktestEventKind,
+  ShutdownPolicyBacktestResult,
+  ShutdownPolicyDecisionLogEntry,
+  ShutdownPolicyOutageEvent,
+  ShutdownPolicyOutageScenario,
+  ShutdownPolicyOutageSimulationResult,
+  ShutdownPolicyPreset,
+} from '../shutdownPolicy/types';
+export type { TelemetryColumn, TelemetryExportFormat } from '../telemetry/types';
 
 export const IPC_CHANNELS = {
   settingsGet: 'settings:get',
@@ -14,6 +65,7 @@ export const IPC_CHANNELS = {
   telemetryGetLatest: 'telemetry:get-latest',
   telemetryQueryRange: 'telemetry:query-range',
   telemetryGetMinMaxForRange: 'telemetry:get-minmax-for-range',
+  telemetryExport: 'telemetry:export',
   wizardTestConnection: 'wizard:test-connection',
   wizardComplete: 'wizard:complete',
   nutSetupChooseFolder: 'nut-setup:choose-folder',
@@ -23,11 +75,25 @@ export const IPC_CHANNELS = {
   nutSetupListComPorts: 'nutSetup:listComPorts',
   nutSetupPrepareLocalDriver: 'nutSetup:prepareLocalDriver',
   nutSetupPrepareUsbHid: 'nutSetup:prepareUsbHid',
+  nutSetupPrepareDemo: 'nutSetup:prepareDemo',
   systemOpenExternal: 'system:open-external',
   nutGetState: 'nut:get-state',
+  nutListDevices: 'nut:list-devices',
   nutRetryLocalDriverLaunch: 'nut:retry-local-driver-launch',
+  nutListCommands: 'nut:list-commands',
+  nutRunCommand: 'nut:run-command',
+  nutGetWritableVariable: 'nut:get-writable-variable',
+  nutSetVariable: 'nut:set-variable',
   criticalAlertTest: 'critical-alert:test',
   shutdownPolicyGetDecisionLog: 'shutdown-policy:get-decision-log',
+  shutdownPolicyDryRunHooks: 'shutdown-policy:dry-run-hooks',
+  shutdownPolicyBacktest: 'shutdown-policy:backtest',
+  shutdownPolicySimulateOutage: 'shutdown-policy:simulate-outage',
+  shutdownPolicyExport: 'shutdown-policy:export',
+  shutdownPolicyImport: 'shutdown-policy:import',
+  powerEventsQuery: 'power-events:query',
+  batteryHealthGet: 'battery-health:get',
+  energyGetReport: 'energy:get-report',
 } as const;
 
 export const IPC_EVENTS = {
@@ -37,6 +103,7 @@ export const IPC_EVENTS = {
   upsTelemetryUpdated: 'ups:telemetry-updated',
   themeSystemChanged: 'theme:system-changed',
   localDriverLaunchIssueChanged: 'local-driver-launch-issue:changed',
+  telemetryExportProgress: 'telemetry:export-progress',
 } as const;
 
 export type ConnectionState =
@@ -49,24 +116,53 @@ export type ConnectionState =
 
 export type TelemetryValues = Partial<Record<TelemetryColumn, number | null>>;
 
+export type SettingsUpdateResult = {
+  config: AppConfig;
+  /** One message per enabled server that could not listen on its address. */
+  listenerErrors: string[];
+};
+
 export type TelemetryDataPoint = {
   ts: string;
   values: TelemetryValues;
 };
 
+export type UpsSelectorPayload = {
+  upsId?: string;
+};
+
 export type QueryRangePayload = {
+  upsId?: string;
   startIso: string;
   endIso: string;
   columns?: TelemetryColumn[];
+  /** Above this many rows the range is averaged into time buckets (default 300). */
   maxPoints?: number;
 };
 
 export type TelemetryMinMaxRangePayload = {
+  upsId?: string;
   startIso: string;
   endIso: string;
   columns?: TelemetryColumn[];
 };
 
+export type TelemetryExportPayload = {
+  upsId?: string;
+  startIso: string;
+  endIso: string;
+  columns?: TelemetryColumn[];
+  format: TelemetryExportFormat;
+};
+
+export type TelemetryExportResult = {
+  cancelled: boolean;
+  filePath?: string;
+  rowCount?: number;
+  /** Rows before this instant are rollup buckets; raw samples were already pruned. */
+  rolledUpBeforeIso?: string | null;
+};
+
 export type TelemetryRangeLimits = Record<
   string,
   { min: number | null; max: number | null }
@@ -78,6 +174,7 @@ export type WizardTestConnectionPayload = {
   username?: string;
   password?: string;
   upsName: string;
+  tls?: NutTlsSettings;
 };
 
 export type WizardTestConnectionResult = {
@@ -85,13 +182,20 @@ export type WizardTestConnectionResult = {
   error?: string;
   upsDescription?: string;
   variables?: Record<string, string>;
+  /** Whether the test session was upgraded with STARTTLS. */
+  encrypted?: boolean;
+  /** Set when the connection failed while negotiating or verifying TLS. */
+  tlsFailure?: NutTlsFailureReason;
+  /** SHA-256 fingerprint of the certificate upsd presented, for pinning. */
+  tlsFingerprint?: string;
 };
 
 export type WizardSetupMode =
   | 'directNut'
   | 'snmpSetup'
   | 'serialSetup'
-  | 'usbHidSetup';
+  | 'usbHidSetup'
+  | 'demo';
 
 export type WizardCompletePayload = {
   host: string;
@@ -104,6 +208,7 @@ export type WizardCompletePayload = {
   setupMode?: WizardSetupMode;
   launchLocalComponents?: boolean;
   localNutFolderPath?: string;
+  tls?: NutTlsSettings;
 };
 
 export type NutSetupChooseFolderResult = {
@@ -201,11 +306,117 @@ export type NutSetupPrepareUsbHidResult = {
   technicalDetails?: string;
 };
 
+export type NutSetupPrepareDemoPayload = {
+  scenario: DemoScenarioId;
+  speed: number;
+};
+
+export type NutSetupPrepareDemoResult = {
+  success: boolean;
+  /** Loopback port the simulated upsd listens on. */
+  port?: number;
+  error?: string;
+};
+
 export type NutRetryLocalDriverLaunchResult = {
   success: boolean;
   error?: string;
 };
 
+export type NutInstantCommand = {
+  name: string;
+  description?: string;
+};
+
+export type NutRunCommandPayload = {
+  upsId?: string;
+  command: string;
+  value?: string;
+};
+
+export type NutRunCommandStatus = 'success' | 'failed' | 'pending' | 'untracked';
+
+export type NutRunCommandResult = {
+  success: boolean;
+  status?: NutRunCommandStatus;
+  error?: string;
+};
+
+export type NutGetWritableVariablePayload = {
+  upsId?: string;
+  name: string;
+};
+
+export type NutSetVariablePayload = {
+  upsId?: string;
+  name: string;
+  value: string;
+};
+
+export type ShutdownPolicyDryRunHooksPayload = {
+  hooks: PreShutdownHook[];
+};
+
+/** Replays raw telemetry of a range through a policy that need not be saved yet. */
+export type ShutdownPolicyBacktestPayload = {
+  policy: ShutdownPolicyConfig;
+  upsId?: string;
+  startIso: string;
+  endIso: string;
+};
+
+/** Steps a synthetic outage through a policy that need not be saved yet. */
+export type ShutdownPolicySimulateOutagePayload = {
+  policy: ShutdownPolicyConfig;
+  scenario: ShutdownPolicyOutageScenario;
+};
+
+export type ShutdownPolicyExportPayload = {
+  policy: ShutdownPolicyConfig;
+  name?: string;
+};
+
+export type ShutdownPolicyExportResult = {
+  cancelled: boolean;
+  filePath?: string;
+};
+
+export type ShutdownPolicyImportResult = {
+  cancelled: boolean;
+  filePath?: string;
+  policy?: ShutdownPolicyConfig;
+  name?: string;
+  /** True when the file predates the versioned format and was migrated. */
+  migrated?: boolean;
+  /** Why the chosen file could not be imported. */
+  error?: string;
+};
+
+export type ShutdownPolicyDecisionLogQuery = {
+  startIso?: string;
+  endIso?: string;
+  events?: ShutdownPolicyDecisionLogEvent[];
+  ruleId?: string;
+  /** Case-insensitive match against the summary, rule name and rule id. */
+  search?: string;
+  offset?: number;
+  limit?: number;
+};
+
+export type ShutdownPolicyDecisionLogPage = {
+  entries: ShutdownPolicyDecisionLogEntry[];
+  /** Number of entries matching the filters, ignoring offset and limit. */
+  total: number;
+};
+
+export type NutSetVariableResult = {
+  success: boolean;
+  status?: NutRunCommandStatus;
+  error?: string;
+  previousValue?: string;
+  currentValue?: string;
+};
+
 export type SystemOpenExternalPayload = {
   url: string;
 };
@@ -234,25 +445,40 @@ export type NutStateSnapshot = {
   state: ConnectionState;
   staticData: Record<string, string> | null;
   dynamicData: Record<string, string> | null;
+  writableFields: string[];
   localDriverLaunchIssue: LocalDriverLaunchIssue | null;
 };
 
+export type UpsDeviceSummary = {
+  id: string;
+  name: string;
+  upsName: string;
+  host: string;
+  port: number;
+  state: ConnectionState;
+};
+
 export type MainToRendererEventPayloads = {
   [IPC_EVENTS.connectionStateChanged]: {
+    upsId: string;
     state: ConnectionState;
   };
   [IPC_EVENTS.upsStaticData]: {
+    upsId: string;
     values: Record<string, string>;
     fields: {
       available: string[];
       static: string[];
       dynamic: string[];
+      writable: string[];
     };
   };
   [IPC_EVENTS.upsDynamicData]: {
+    upsId: string;
     values: Record<string, string>;
   };
   [IPC_EVENTS.upsTelemetryUpdated]: {
+    upsId: string;
     ts: string;
     values: TelemetryValues;
   };
@@ -262,6 +488,10 @@ export type MainToRendererEventPayloads = {
   [IPC_EVENTS.localDriverLaunchIssueChanged]: {
     issue: LocalDriverLaunchIssue | null;
   };
+  [IPC_EVENTS.telemetryExportProgress]: {
+    /** DuckDB's estimate for the running export, 0-100. */
+    percentage: number;
+  };
 };
 
 export type RendererInvokeMap = {
@@ -271,7 +501,7 @@ export type RendererInvokeMap = {
   };
   [IPC_CHANNELS.settingsUpdate]: {
     request: AppConfigPatch;
-    response: AppConfig;
+    response: SettingsUpdateResult;
   };
   [IPC_CHANNELS.wizardEnter]: {
     request: void;
@@ -282,7 +512,7 @@ export type RendererInvokeMap = {
     response: TelemetryColumn[];
   };
   [IPC_CHANNELS.telemetryGetLatest]: {
-    request: void;
+    request: UpsSelectorPayload | void;
     response: TelemetryDataPoint | null;
   };
   [IPC_CHANNELS.telemetryQueryRange]: {
@@ -293,6 +523,10 @@ export type RendererInvokeMap = {
     request: TelemetryMinMaxRangePayload;
     response: TelemetryRangeLimits;
   };
+  [IPC_CHANNELS.telemetryExport]: {
+    request: TelemetryExportPayload;
+    response: TelemetryExportResult;
+  };
   [IPC_CHANNELS.wizardTestConnection]: {
     request: WizardTestConnectionPayload;
     response: WizardTestConnectionResult;
@@ -329,21 +563,78 @@ export type RendererInvokeMap = {
     request: NutSetupPrepareUsbHidPayload;
     response: NutSetupPrepareUsbHidResult;
   };
+  [IPC_CHANNELS.nutSetupPrepareDemo]: {
+    request: NutSetupPrepareDemoPayload;
+    response: NutSetupPrepareDemoResult;
+  };
   [IPC_CHANNELS.systemOpenExternal]: {
     request: SystemOpenExternalPayload;
     response: void;
   };
   [IPC_CHANNELS.nutGetState]: {
-    request: void;
+    request: UpsSelectorPayload | void;
     response: NutStateSnapshot;
   };
+  [IPC_CHANNELS.nutListDevices]: {
+    request: void;
+    response: UpsDeviceSummary[];
+  };
   [IPC_CHANNELS.nutRetryLocalDriverLaunch]: {
     request: void;
     response: NutRetryLocalDriverLaunchResult;
   };
+  [IPC_CHANNELS.nutListCommands]: {
+    request: UpsSelectorPayload | void;
+    response: NutInstantCommand[];
+  };
+  [IPC_CHANNELS.nutRunCommand]: {
+    request: NutRunCommandPayload;
+    response: NutRunCommandResult;
+  };
+  [IPC_CHANNELS.nutGetWritableVariable]: {
+    request: NutGetWritableVariablePayload;
+    /** Null when upsd does not let the variable be written. */
+    response: NutWritableVariable | null;
+  };
+  [IPC_CHANNELS.nutSetVariable]: {
+    request: NutSetVariablePayload;
+    response: NutSetVariableResult;
+  };
   [IPC_CHANNELS.shutdownPolicyGetDecisionLog]: {
+    request: ShutdownPolicyDecisionLogQuery | void;
+    response: ShutdownPolicyDecisionLogPage;
+  };
+  [IPC_CHANNELS.shutdownPolicyDryRunHooks]: {
+    request: ShutdownPolicyDryRunHooksPayload;
+    response: PreShutdownHookResult[];
+  };
+  [IPC_CHANNELS.shutdownPolicyBacktest]: {
+    request: ShutdownPolicyBacktestPayload;
+    response: ShutdownPolicyBacktestResult;
+  };
+  [IPC_CHANNELS.shutdownPolicySimulateOutage]: {
+    request: ShutdownPolicySimulateOutagePayload;
+    response: ShutdownPolicyOutageSimulationResult;
+  };
+  [IPC_CHANNELS.shutdownPolicyExport]: {
+    request: ShutdownPolicyExportPayload;
+    response: ShutdownPolicyExportResult;
+  };
+  [IPC_CHANNELS.shutdownPolicyImport]: {
     request: void;
-    response: ShutdownPolicyDecisionLogEntry[];
+    response: ShutdownPolicyImportResult;
+  };
+  [IPC_CHANNELS.powerEventsQuery]: {
+    request: PowerEventQuery | void;
+    response: PowerEventPage;
+  };
+  [IPC_CHANNELS.batteryHealthGet]: {
+    request: UpsSelectorPayload | void;
+    response: BatteryHealthReport;
+  };
+  [IPC_CHANNELS.energyGetReport]: {
+    request: EnergyReportQuery;
+    response: EnergyReport;
   };
 };
 
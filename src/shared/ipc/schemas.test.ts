@@ -1,7 +1,12 @@
 import { describe, expect, it } from 'vitest';
+import { defaultShutdownPolicyConfig } from '../../main/shutdown/schema/shutdownPolicySchema';
 import {
+  nutGetWritableVariablePayloadSchema,
+  nutRunCommandPayloadSchema,
   queryRangePayloadSchema,
+  shutdownPolicySimulateOutagePayloadSchema,
   telemetryMinMaxRangePayloadSchema,
+  upsSelectorPayloadSchema,
   wizardCompletePayloadSchema,
 } from './schemas';
 
@@ -46,4 +51,66 @@ describe('shared IPC schemas', () => {
     expect(payload.setupMode).toBe('usbHidSetup');
     expect(payload.line?.nominalVoltage).toBe(230);
   });
+
+  it('accepts only plain NUT tokens as instant command names', () => {
+    expect(
+      nutRunCommandPayloadSchema.parse({ command: 'test.battery.start.quick' })
+        .command,
+    ).toBe('test.battery.start.quick');
+    expect(() =>
+      nutRunCommandPayloadSchema.parse({ command: 'load.off\nLOGOUT' }),
+    ).toThrow();
+  });
+
+  it('accepts only plain NUT tokens as variable names', () => {
+    expect(nutGetWritableVariablePayloadSchema.parse({
+      upsId: 'rack-b',
+      name: 'input.transfer.high',
+    })).toEqual({ upsId: 'rack-b', name: 'input.transfer.high' });
+    expect(() =>
+      nutGetWritableVariablePayloadSchema.parse({ name: 'ups.id LOGOUT' }),
+    ).toThrow();
+  });
+
+  it('accepts configured UPS target ids as device selectors', () => {
+    expect(upsSelectorPayloadSchema.parse({ upsId: 'rack-b' })).toEqual({
+      upsId: 'rack-b',
+    });
+    expect(upsSelectorPayloadSchema.parse({})).toEqual({});
+    expect(() => upsSelectorPayloadSchema.parse({ upsId: '../rack' })).toThrow();
+  });
+
+  it('bounds synthetic outage scenarios', () => {
+    const scenario = {
+      startChargePercent: 100,
+      loadPercent: 40,
+      dischargePercentPerMinute: 2,
+      runtimeSource: 'reported',
+      restoreAfterSeconds: null as number | null,
+      communicationDrops: [{ startSecond: 60, durationSeconds: 300 }],
+    };
+    const drops = Array.from({ length: 11 }, (_, index) => ({
+      startSecond: index * 60,
+      durationSeconds: 30,
+    }));
+
+    expect(
+      shutdownPolicySimulateOutagePayloadSchema.parse({
+        policy: defaultShutdownPolicyConfig,
+        scenario,
+      }).scenario.restoreAfterSeconds,
+    ).toBeNull();
+    expect(() =>
+      shutdownPolicySimulateOutagePayloadSchema.parse({
+        policy: defaultShutdownPolicyConfig,
+        scenario: { ...scenario, communicationDrops: drops },
+      }),
+    ).toThrow();
+    expect(() =>
+      shutdownPolicySimulateOutagePayloadSchema.parse({
+        policy: defaultShutdownPolicyConfig,
+        scenario: { ...scenario, dischargePercentPerMinute: 0 },
+      }),
+    ).toThrow();
+  });
 });
@@ -1,9 +1,44 @@
 import { z } from 'zod';
 
+import {
+  shutdownPolicyPresetNameSchema,
+  shutdownPolicySchema,
+} from '../../main/shutdown/schema/shutdownPolicySchema';
+import {
+  DEMO_SCENARIO_IDS,
+  MAX_DEMO_SPEED,
+  MIN_DEMO_SPEED,
+} from '../demo/constants';
+import { ENERGY_GRANULARITIES } from '../energy/constants';
+import { nutTlsConfigSchema } from '../nut/tlsSchema';
+import {
+  MAX_POWER_EVENT_PAGE_SIZE,
+  POWER_EVENT_KINDS,
+} from '../powerEvents/constants';
+import { preShutdownHookListSchema } from '../shutdownPolicy/preShutdownHookSchema';
+import {
+  MAX_DECISION_LOG_PAGE_SIZE,
+  MAX_OUTAGE_COMMUNICATION_DROPS,
+  MAX_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE,
+  MAX_OUTAGE_SIMULATION_SECONDS,
+  MIN_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE,
+  SHUTDOWN_POLICY_DECISION_LOG_EVENTS,
+} from '../shutdownPolicy/constants';
+import { TELEMETRY_EXPORT_FORMATS } from '../telemetry/constants';
+import { UPS_TARGET_ID_PATTERN } from '../ups/upsTargets';
+
 const nonEmptyString = z.string().trim().min(1);
+const upsIdSchema = nonEmptyString.regex(UPS_TARGET_ID_PATTERN);
+
+export const upsSelectorPayloadSchema = z
+  .object({
+    upsId: upsIdSchema.optional(),
+  })
+  .strict();
 
 export const queryRangePayloadSchema = z
   .object({
+    upsId: upsIdSchema.optional(),
     startIso: nonEmptyString,
     endIso: nonEmptyString,
     columns: z.array(nonEmptyString).optional(),
@@ -13,9 +48,20 @@ export const queryRangePayloadSchema = z
 
 export const telemetryMinMaxRangePayloadSchema = z
   .object({
+    upsId: upsIdSchema.optional(),
+    startIso: nonEmptyString,
+    endIso: nonEmptyString,
+    columns: z.array(nonEmptyString).optional(),
+  })
+  .strict();
+
+export const telemetryExportPayloadSchema = z
+  .object({
+    upsId: upsIdSchema.optional(),
     startIso: nonEmptyString,
     endIso: nonEmptyString,
     columns: z.array(nonEmptyString).optional(),
+    format: z.enum(TELEMETRY_EXPORT_FORMATS),
   })
   .strict();
 
@@ -26,6 +72,7 @@ export const wizardTestConnectionPayloadSchema = z
     username: nonEmptyString.optional(),
     password: nonEmptyString.optional(),
     upsName: nonEmptyString,
+    tls: nutTlsConfigSchema.optional(),
   })
   .strict();
 
@@ -45,10 +92,128 @@ export const wizardCompletePayloadSchema = z
       .strict()
       .optional(),
     setupMode: z
-      .enum(['directNut', 'snmpSetup', 'serialSetup', 'usbHidSetup'])
+      .enum(['directNut', 'snmpSetup', 'serialSetup', 'usbHidSetup', 'demo'])
       .optional(),
     launchLocalComponents: z.boolean().optional(),
     localNutFolderPath: nonEmptyString.optional(),
+    tls: nutTlsConfigSchema.optional(),
+  })
+  .strict();
+
+export const nutSetupPrepareDemoPayloadSchema = z
+  .object({
+    scenario: z.enum(DEMO_SCENARIO_IDS),
+    speed: z.number().int().min(MIN_DEMO_SPEED).max(MAX_DEMO_SPEED),
+  })
+  .strict();
+
+export const nutRunCommandPayloadSchema = z
+  .object({
+    upsId: upsIdSchema.optional(),
+    command: nonEmptyString.regex(/^[A-Za-z0-9_.-]+$/u),
+    value: z.string().trim().min(1).max(256).optional(),
+  })
+  .strict();
+
+export const nutGetWritableVariablePayloadSchema = z
+  .object({
+    upsId: upsIdSchema.optional(),
+    name: nonEmptyString.regex(/^[A-Za-z0-9_.-]+$/u),
+  })
+  .strict();
+
+export const nutSetVariablePayloadSchema = z
+  .object({
+    upsId: upsIdSchema.optional(),
+    name: nonEmptyString.regex(/^[A-Za-z0-9_.-]+$/u),
+    value: z.string().max(256).refine((value) => !/[\r\n]/u.test(value)),
+  })
+  .strict();
+
+export const shutdownPolicyDryRunHooksPayloadSchema = z
+  .object({
+    hooks: preShutdownHookListSchema,
+  })
+  .strict();
+
+export const shutdownPolicyBacktestPayloadSchema = z
+  .object({
+    policy: shutdownPolicySchema,
+    upsId: upsIdSchema.optional(),
+    startIso: nonEmptyString,
+    endIso: nonEmptyString,
+  })
+  .strict();
+
+const outageSecondSchema = z.number().int().min(0).max(MAX_OUTAGE_SIMULATION_SECONDS);
+
+export const shutdownPolicySimulateOutagePayloadSchema = z
+  .object({
+    policy: shutdownPolicySchema,
+    scenario: z
+      .object({
+        startChargePercent: z.number().min(0).max(100),
+        loadPercent: z.number().min(0).max(200),
+        dischargePercentPerMinute: z
+          .number()
+          .min(MIN_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE)
+          .max(MAX_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE),
+        runtimeSource: z.enum(['reported', 'estimated']),
+        restoreAfterSeconds: outageSecondSchema.nullable(),
+        communicationDrops: z
+          .array(
+            z
+              .object({
+                startSecond: outageSecondSchema,
+                durationSeconds: outageSecondSchema.min(1),
+              })
+              .strict(),
+          )
+          .max(MAX_OUTAGE_COMMUNICATION_DROPS),
+        startAtIso: nonEmptyString
+          .refine((value) => !Number.isNaN(Date.parse(value)), 'Expected an ISO timestamp')
+          .optional(),
+      })
+      .strict(),
+  })
+  .strict();
+
+export const shutdownPolicyExportPayloadSchema = z
+  .object({
+    policy: shutdownPolicySchema,
+    name: shutdownPolicyPresetNameSchema.optional(),
+  })
+  .strict();
+
+export const shutdownPolicyDecisionLogQuerySchema = z
+  .object({
+    startIso: nonEmptyString.optional(),
+    endIso: nonEmptyString.optional(),
+    events: z.array(z.enum(SHUTDOWN_POLICY_DECISION_LOG_EVENTS)).optional(),
+    ruleId: nonEmptyString.optional(),
+    search: z.string().trim().max(200).optional(),
+    offset: z.number().int().min(0).optional(),
+    limit: z.number().int().min(1).max(MAX_DECISION_LOG_PAGE_SIZE).optional(),
+  })
+  .strict();
+
+export const powerEventQuerySchema = z
+  .object({
+    upsId: upsIdSchema.optional(),
+    kinds: z.array(z.enum(POWER_EVENT_KINDS)).optional(),
+    startIso: nonEmptyString.optional(),
+    endIso: nonEmptyString.optional(),
+    offset: z.number().int().min(0).optional(),
+    limit: z.number().int().min(1).max(MAX_POWER_EVENT_PAGE_SIZE).optional(),
+  })
+  .strict();
+
+export const energyReportQuerySchema = z
+  .object({
+    upsId: upsIdSchema.optional(),
+    granularity: z.enum(ENERGY_GRANULARITIES),
+    startIso: nonEmptyString,
+    endIso: nonEmptyString,
   })
   .strict();
 
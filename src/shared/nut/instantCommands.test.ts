@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { acceptsInstantCommandValue, isDangerousInstantCommand } from './instantCommands';
+
+describe('instant command helpers', () => {
+  it('flags commands that can drop the protected load', () => {
+    expect(isDangerousInstantCommand('shutdown.return')).toBe(true);
+    expect(isDangerousInstantCommand('shutdown.stayoff')).toBe(true);
+    expect(isDangerousInstantCommand('load.off')).toBe(true);
+    expect(isDangerousInstantCommand('load.off.delay')).toBe(true);
+    expect(isDangerousInstantCommand('outlet.1.load.cycle')).toBe(true);
+    expect(isDangerousInstantCommand('calibrate.start')).toBe(true);
+    expect(isDangerousInstantCommand('test.battery.start.deep')).toBe(true);
+  });
+
+  it('leaves harmless commands unflagged', () => {
+    expect(isDangerousInstantCommand('beeper.mute')).toBe(false);
+    expect(isDangerousInstantCommand('test.battery.start.quick')).toBe(false);
+    expect(isDangerousInstantCommand('load.on')).toBe(false);
+    expect(isDangerousInstantCommand('calibrate.stop')).toBe(false);
+  });
+
+  it('offers a value only for delayed commands', () => {
+    expect(acceptsInstantCommandValue('load.off.delay')).toBe(true);
+    expect(acceptsInstantCommandValue('outlet.2.load.on.delay')).toBe(true);
+    expect(acceptsInstantCommandValue('load.off')).toBe(false);
+    expect(acceptsInstantCommandValue('beeper.mute')).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+const DANGEROUS_COMMAND_PATTERNS: RegExp[] = [
+  /^shutdown\./u,
+  /^load\.off(\.|$)/u,
+  /^load\.cycle$/u,
+  /^outlet\.[^.]+\.load\.(off|cycle)(\.|$)/u,
+  /^outlet\.[^.]+\.shutdown\./u,
+  /^bypass\.start$/u,
+  /^calibrate\.start$/u,
+  /^test\.battery\.start\.deep$/u,
+];
+
+/**
+ * Commands that can cut power to the protected load or deeply discharge the
+ * battery. The UI asks for explicit confirmation before running these.
+ */
+export function isDangerousInstantCommand(commandName: string): boolean {
+  const normalized = commandName.trim().toLowerCase();
+  return DANGEROUS_COMMAND_PATTERNS.some((pattern) => pattern.test(normalized));
+}
+
+/**
+ * Commands that take an optional value, such as the delay in seconds of
+ * `load.off.delay`. The others are sent without one.
+ */
+export function acceptsInstantCommandValue(commandName: string): boolean {
+  return /\.delay$/u.test(commandName.trim().toLowerCase());
+}
@@ -0,0 +1,54 @@
+/**
+ * How a NUT connection uses STARTTLS:
+ * - `off` never asks for TLS;
+ * - `opportunistic` upgrades when upsd offers TLS and falls back to plaintext
+ *   otherwise;
+ * - `required` refuses to send credentials unless the upgrade succeeds.
+ */
+export const NUT_TLS_MODES = ['off', 'opportunistic', 'required'] as const;
+
+export type NutTlsMode = (typeof NUT_TLS_MODES)[number];
+
+export type NutTlsSettings = {
+  mode: NutTlsMode;
+  /** PEM bundle trusted instead of the system roots. */
+  caCertificate?: string;
+  /** SHA-256 fingerprint of the server certificate, replacing chain checks. */
+  pinnedFingerprint?: string;
+};
+
+/**
+ * Why a TLS upgrade failed, so the UI can explain it without parsing
+ * OpenSSL messages.
+ */
+export type NutTlsFailureReason =
+  | 'unsupported'
+  | 'handshake'
+  | 'certificate'
+  | 'fingerprint';
+
+export const MAX_NUT_TLS_CA_CERTIFICATE_LENGTH = 65536;
+
+const PEM_CERTIFICATE_PATTERN =
+  /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/u;
+
+export function isPemCertificate(value: string): boolean {
+  return PEM_CERTIFICATE_PATTERN.test(value);
+}
+
+/**
+ * Accepts the `AB:CD:…` form openssl and browsers print as well as bare hex,
+ * and returns the colon-separated upper-case form Node reports.
+ */
+export function normalizeTlsFingerprint(value: string): string | null {
+  const hex = value.trim().replace(/:/gu, '').toUpperCase();
+  if (!/^[0-9A-F]{64}$/u.test(hex)) {
+    return null;
+  }
+
+  return hex.match(/.{2}/gu)!.join(':');
+}
+
+export function isValidTlsFingerprint(value: string): boolean {
+  return normalizeTlsFingerprint(value) !== null;
+}
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import {
+  isPemCertificate,
+  isValidTlsFingerprint,
+  MAX_NUT_TLS_CA_CERTIFICATE_LENGTH,
+  NUT_TLS_MODES,
+} from './tls';
+
+export const nutTlsConfigSchema = z
+  .object({
+    mode: z.enum(NUT_TLS_MODES),
+    caCertificate: z
+      .string()
+      .trim()
+      .max(MAX_NUT_TLS_CA_CERTIFICATE_LENGTH)
+      .refine(isPemCertificate, { message: 'Expected a PEM encoded certificate' })
+      .optional(),
+    pinnedFingerprint: z
+      .string()
+      .trim()
+      .refine(isValidTlsFingerprint, { message: 'Expected a SHA-256 fingerprint' })
+      .optional(),
+  })
+  .strict();
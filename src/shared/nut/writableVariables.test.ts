@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  validateWritableValue,
+  type NutWritableVariable,
+} from './writableVariables';
+
+function makeVariable(
+  overrides: Partial<NutWritableVariable> = {},
+): NutWritableVariable {
+  return {
+    name: 'battery.charge.low',
+    value: '20',
+    kind: 'string',
+    ...overrides,
+  };
+}
+
+describe('validateWritableValue', () => {
+  it('accepts only values from the reported enum', () => {
+    const variable = makeVariable({
+      name: 'input.transfer.high',
+      kind: 'enum',
+      enumValues: ['253', '257', '261'],
+    });
+
+    expect(validateWritableValue(variable, '257')).toBeNull();
+    expect(validateWritableValue(variable, '259')).toBe('notInEnum');
+    expect(validateWritableValue(variable, '')).toBe('empty');
+  });
+
+  it('accepts numbers inside any of the reported ranges', () => {
+    const variable = makeVariable({
+      kind: 'range',
+      ranges: [
+        { min: 10, max: 40 },
+        { min: 60, max: 80 },
+      ],
+    });
+
+    expect(validateWritableValue(variable, '25')).toBeNull();
+    expect(validateWritableValue(variable, '70')).toBeNull();
+    expect(validateWritableValue(variable, '50')).toBe('outOfRange');
+    expect(validateWritableValue(variable, 'abc')).toBe('notNumeric');
+  });
+
+  it('requires numbers for NUMBER variables without a range', () => {
+    const variable = makeVariable({ name: 'ups.delay.shutdown', kind: 'number' });
+
+    expect(validateWritableValue(variable, '120')).toBeNull();
+    expect(validateWritableValue(variable, '2m')).toBe('notNumeric');
+  });
+
+  it('enforces the STRING length limit', () => {
+    const variable = makeVariable({ name: 'ups.id', kind: 'string', maxLength: 8 });
+
+    expect(validateWritableValue(variable, 'rack-a')).toBeNull();
+    expect(validateWritableValue(variable, 'rack-a-top')).toBe('tooLong');
+  });
+});
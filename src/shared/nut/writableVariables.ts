@@ -0,0 +1,65 @@
+export type NutWritableVariableKind =
+  | 'enum'
+  | 'range'
+  | 'string'
+  | 'number'
+  | 'unknown';
+
+export type NutWritableVariable = {
+  name: string;
+  value: string;
+  kind: NutWritableVariableKind;
+  maxLength?: number;
+  enumValues?: string[];
+  ranges?: Array<{ min: number; max: number }>;
+};
+
+export type NutWritableValueIssue =
+  | 'empty'
+  | 'notInEnum'
+  | 'notNumeric'
+  | 'outOfRange'
+  | 'tooLong';
+
+/**
+ * Checks a candidate value against the constraints upsd reported for a
+ * writable variable. Returns null when the value can be sent with SET VAR.
+ */
+export function validateWritableValue(
+  variable: NutWritableVariable,
+  value: string,
+): NutWritableValueIssue | null {
+  const trimmed = value.trim();
+
+  if (variable.kind === 'enum') {
+    if (!trimmed) {
+      return 'empty';
+    }
+    const allowed = variable.enumValues ?? [];
+    return allowed.length === 0 || allowed.includes(value) ? null : 'notInEnum';
+  }
+
+  if (variable.kind === 'range' || variable.kind === 'number') {
+    if (!trimmed) {
+      return 'empty';
+    }
+    const numericValue = Number(trimmed);
+    if (!Number.isFinite(numericValue)) {
+      return 'notNumeric';
+    }
+    const ranges = variable.ranges ?? [];
+    if (
+      ranges.length > 0 &&
+      !ranges.some((range) => numericValue >= range.min && numericValue <= range.max)
+    ) {
+      return 'outOfRange';
+    }
+    return null;
+  }
+
+  if (variable.maxLength !== undefined && value.length > variable.maxLength) {
+    return 'tooLong';
+  }
+
+  return null;
+}
@@ -0,0 +1,39 @@
+import type { PowerEventKind } from './types';
+
+/**
+ * NUT `ups.status` token that marks each event kind as active. An event lasts
+ * from the first poll reporting the token to the first poll without it; `OL`
+ * is the inverse of `OB` and is therefore not tracked on its own.
+ */
+export const POWER_EVENT_STATUS_TOKENS = {
+  onBattery: 'OB',
+  lowBattery: 'LB',
+  forcedShutdown: 'FSD',
+  charging: 'CHRG',
+  discharging: 'DISCHRG',
+  bypass: 'BYPASS',
+  overload: 'OVER',
+  replaceBattery: 'RB',
+  calibration: 'CAL',
+  boost: 'BOOST',
+  trim: 'TRIM',
+  off: 'OFF',
+} as const satisfies Record<PowerEventKind, string>;
+
+export const POWER_EVENT_KINDS = [
+  'onBattery',
+  'lowBattery',
+  'forcedShutdown',
+  'charging',
+  'discharging',
+  'bypass',
+  'overload',
+  'replaceBattery',
+  'calibration',
+  'boost',
+  'trim',
+  'off',
+] as const satisfies readonly PowerEventKind[];
+
+export const DEFAULT_POWER_EVENT_PAGE_SIZE = 50;
+export const MAX_POWER_EVENT_PAGE_SIZE = 500;
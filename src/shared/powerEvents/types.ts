@@ -0,0 +1,54 @@
+export type PowerEventKind =
+  | 'onBattery'
+  | 'lowBattery'
+  | 'forcedShutdown'
+  | 'charging'
+  | 'discharging'
+  | 'bypass'
+  | 'overload'
+  | 'replaceBattery'
+  | 'calibration'
+  | 'boost'
+  | 'trim'
+  | 'off';
+
+export type PowerEvent = {
+  id: string;
+  upsId: string;
+  kind: PowerEventKind;
+  startedAtIso: string;
+  /** Null while the event is still in progress. */
+  endedAtIso: string | null;
+  /** Time from the start to the end, or to the latest poll for open events. */
+  durationSeconds: number;
+  batteryChargeAtStartPercent: number | null;
+  minBatteryChargePercent: number | null;
+  /** Integrated from `ups.realpower`; null when the UPS does not report it. */
+  energyWh: number | null;
+};
+
+export type PowerEventQuery = {
+  upsId?: string;
+  kinds?: PowerEventKind[];
+  /** Filters on the event start time. */
+  startIso?: string;
+  endIso?: string;
+  offset?: number;
+  limit?: number;
+};
+
+export type PowerEventSummary = {
+  count: number;
+  totalDurationSeconds: number;
+  longestDurationSeconds: number;
+  totalEnergyWh: number | null;
+  minBatteryChargePercent: number | null;
+};
+
+export type PowerEventPage = {
+  events: PowerEvent[];
+  /** Number of events matching the filters, ignoring offset and limit. */
+  total: number;
+  /** Aggregates over every matching event, not just the current page. */
+  summary: PowerEventSummary;
+};
@@ -1,8 +1,12 @@
 import type {
+  BuiltInShutdownPolicyPresetId,
   PolicyField,
   PolicyOperator,
+  PreShutdownHookFailureMode,
   ShutdownPolicyAction,
   ShutdownPolicyConfig,
+  ShutdownPolicyDecisionLogEvent,
+  ShutdownPolicyFile,
   ShutdownPolicyMode,
   ShutdownPolicyRuleCreator,
   ShutdownPolicySafety,
@@ -10,7 +14,22 @@ import type {
   ShutdownPolicyVersion,
 } from './types';
 
-export const SHUTDOWN_POLICY_VERSION = 1 satisfies ShutdownPolicyVersion;
+export const SHUTDOWN_POLICY_VERSION = 2 satisfies ShutdownPolicyVersion;
+
+export const SHUTDOWN_POLICY_FILE_FORMAT =
+  'ups-shutdown-policy' satisfies ShutdownPolicyFile['format'];
+export const SHUTDOWN_POLICY_FILE_EXTENSION = 'json';
+/** Policy files are a few kilobytes; anything far larger is not one. */
+export const MAX_SHUTDOWN_POLICY_FILE_BYTES = 1024 * 1024;
+export const MAX_SHUTDOWN_POLICY_PRESETS = 20;
+export const MAX_SHUTDOWN_POLICY_PRESET_NAME_LENGTH = 80;
+
+export const BUILT_IN_SHUTDOWN_POLICY_PRESET_IDS = [
+  'standard',
+  'earlyShutdown',
+  'runtimeBased',
+  'followPrimary',
+] as const satisfies readonly BuiltInShutdownPolicyPresetId[];
 
 export const SHUTDOWN_POLICY_MODES = [
   'simple',
@@ -58,6 +77,9 @@ export const POLICY_FIELDS = [
   'ups.statusTokens',
   'battery.chargePercent',
   'battery.runtimeSeconds',
+  'battery.runtimeEstimated',
+  'battery.healthPercent',
+  'battery.replaceSoon',
   'connection.state',
   'connection.secondsSinceLastSuccessfulPoll',
   'state.secondsOnBattery',
@@ -65,8 +87,13 @@ export const POLICY_FIELDS = [
   'state.secondsLowBattery',
   'state.secondsInFsd',
   'state.activeCountdownRuleId',
+  'time.hourOfDay',
+  'time.dayOfWeek',
 ] as const satisfies readonly PolicyField[];
 
+/** "HH:MM" on a 24-hour clock, as used by time windows. */
+export const POLICY_TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
 export const MAX_POLICY_CONDITION_DEPTH = 3;
 export const MAX_POLICY_CONDITIONS_PER_GROUP = 10;
 export const MAX_SHUTDOWN_POLICY_RULES = 25;
@@ -76,6 +103,46 @@ export const MIN_POLICY_HOLD_SECONDS = 0;
 export const MAX_POLICY_HOLD_SECONDS = 3600;
 export const MAX_POLICY_COOLDOWN_SECONDS = 86400;
 
+export const PRE_SHUTDOWN_HOOK_FAILURE_MODES = [
+  'continue',
+  'abort',
+] as const satisfies readonly PreShutdownHookFailureMode[];
+
+export const MAX_PRE_SHUTDOWN_HOOKS = 10;
+export const MAX_PRE_SHUTDOWN_HOOK_ARGS = 32;
+export const MIN_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS = 1;
+export const MAX_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS = 600;
+export const DEFAULT_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS = 30;
+
+export const MIN_PRIMARY_MODE_TIMEOUT_SECONDS = 5;
+export const MAX_PRIMARY_MODE_TIMEOUT_SECONDS = 600;
+export const DEFAULT_PRIMARY_MODE_TIMEOUT_SECONDS = 60;
+
+export const MAX_POLICY_ACTION_ARGS = 32;
+export const MIN_POLICY_ACTION_TIMEOUT_SECONDS = 1;
+export const MAX_POLICY_ACTION_TIMEOUT_SECONDS = 120;
+export const DEFAULT_POLICY_ACTION_TIMEOUT_SECONDS = 15;
+
+export const SHUTDOWN_POLICY_DECISION_LOG_EVENTS = [
+  'decision',
+  'execution',
+  'cancellation',
+  'failure',
+] as const satisfies readonly ShutdownPolicyDecisionLogEvent[];
+
+export const DEFAULT_DECISION_LOG_PAGE_SIZE = 50;
+export const MAX_DECISION_LOG_PAGE_SIZE = 500;
+
+/** Longer silences in the recording are flagged on the backtest timeline. */
+export const BACKTEST_DATA_GAP_SECONDS = 120;
+
+export const MAX_OUTAGE_SIMULATION_SECONDS = 4 * 60 * 60;
+export const MAX_OUTAGE_COMMUNICATION_DROPS = 10;
+export const MIN_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE = 0.1;
+export const MAX_OUTAGE_DISCHARGE_PERCENT_PER_MINUTE = 50;
+/** Chart points shipped back to the renderer; the steps themselves stay one second apart. */
+export const MAX_OUTAGE_SIMULATION_SAMPLES = 600;
+
 export const DEFAULT_SHUTDOWN_POLICY_SAFETY: ShutdownPolicySafety = {
   requireHoldForShutdownSeconds: 5,
   maxCountdownSeconds: 300,
@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'vitest';
 import { shutdownPolicySchema } from '../../main/shutdown/schema/shutdownPolicySchema';
+import { BUILT_IN_SHUTDOWN_POLICY_PRESET_IDS } from './constants';
 import {
+  createBuiltInShutdownPolicyPreset,
   createRuntimeRemainingPolicy,
   createSimpleShutdownPolicyConfig,
   DEFAULT_BATTERY_SHUTDOWN_RULE_ID,
@@ -48,4 +50,24 @@ describe('default shutdown policies', () => {
   it('uses a 10-second hold for runtime remaining defaults', () => {
     expect(createRuntimeRemainingPolicy().holdForSeconds).toBe(10);
   });
-});
\ No newline at end of file
+
+  it.each(BUILT_IN_SHUTDOWN_POLICY_PRESET_IDS)('builds a valid %s preset', (id) => {
+    const preset = createBuiltInShutdownPolicyPreset(id);
+
+    expect(shutdownPolicySchema.safeParse(preset).success).toBe(true);
+    expect(preset.mode).toBe('advanced');
+  });
+
+  it('keeps hooks and primary mode when applying a built-in preset', () => {
+    const existing = {
+      ...createSimpleShutdownPolicyConfig({ battery: legacyBattery, fsd: legacyFsd }),
+      primaryMode: { enabled: true, secondaryTimeoutSeconds: 90 },
+    };
+    const preset = createBuiltInShutdownPolicyPreset('followPrimary', existing);
+
+    expect(preset.primaryMode).toEqual(existing.primaryMode);
+    expect(preset.rules.map((rule) => rule.id)).not.toContain(DEFAULT_BATTERY_SHUTDOWN_RULE_ID);
+    expect(preset.rules.find((rule) => rule.id === DEFAULT_FSD_SHUTDOWN_RULE_ID)?.enabled)
+      .toBe(true);
+  });
+});
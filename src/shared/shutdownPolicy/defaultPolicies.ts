@@ -1,10 +1,15 @@
 import type {
+  BuiltInShutdownPolicyPresetId,
   PolicyCondition,
   ShutdownMethod,
   ShutdownPolicyConfig,
   ShutdownPolicyRule,
 } from './types';
-import { DEFAULT_SHUTDOWN_POLICY_SAFETY } from './constants';
+import {
+  DEFAULT_PRIMARY_MODE_TIMEOUT_SECONDS,
+  DEFAULT_SHUTDOWN_POLICY_SAFETY,
+  SHUTDOWN_POLICY_VERSION,
+} from './constants';
 
 export const DEFAULT_BATTERY_WARNING_RULE_ID = 'default-battery-warning';
 export const DEFAULT_BATTERY_SHUTDOWN_RULE_ID = 'default-battery-shutdown';
@@ -274,7 +279,7 @@ export function createSimpleShutdownPolicyConfig(
   const requiresImmediateShutdown = simplePolicyRequiresImmediateShutdown(input);
 
   return {
-    version: 1,
+    version: SHUTDOWN_POLICY_VERSION,
     mode: input.mode ?? existing?.mode ?? 'simple',
     safety: {
       requireHoldForShutdownSeconds:
@@ -291,6 +296,106 @@ export function createSimpleShutdownPolicyConfig(
       createFsdShutdownPolicy(input.fsd),
       createCommunicationLossPolicy(input.communicationLoss),
     ],
+    ...(existing?.preShutdownHooks
+      ? { preShutdownHooks: existing.preShutdownHooks }
+      : {}),
+    ...(existing?.primaryMode
+      ? { primaryMode: existing.primaryMode }
+      : {}),
+  };
+}
+
+/**
+ * Starting points for the preset gallery. They are advanced-mode policies, so
+ * the rules stay as given instead of following this computer's battery and
+ * FSD settings. Pre-shutdown hooks and primary mode are kept from `existing`.
+ */
+export function createBuiltInShutdownPolicyPreset(
+  id: BuiltInShutdownPolicyPresetId,
+  existing?: ShutdownPolicyConfig,
+): ShutdownPolicyConfig {
+  const battery: LegacyBatteryShutdownPolicyInput = {
+    warningPct: 40,
+    shutdownPct: 20,
+    warningToastEnabled: true,
+    shutdownEnabled: true,
+    criticalAlertEnabled: true,
+    criticalShutdownAlertEnabled: true,
+    shutdownCountdownSeconds: 60,
+    shutdownMethod: 'shutdown',
+  };
+  const fsd: LegacyFsdShutdownPolicyInput = {
+    shutdownEnabled: true,
+    shutdownDelaySeconds: 30,
+    shutdownMethod: 'shutdown',
+    overlayEnabled: true,
+  };
+
+  switch (id) {
+    case 'standard':
+      return createSimpleShutdownPolicyConfig(
+        { battery, fsd, mode: 'advanced', communicationLoss: { enabled: true } },
+        existing,
+      );
+    case 'earlyShutdown':
+      return createSimpleShutdownPolicyConfig(
+        {
+          battery: { ...battery, warningPct: 70, shutdownPct: 50, shutdownCountdownSeconds: 30 },
+          fsd,
+          mode: 'advanced',
+          communicationLoss: { enabled: true, secondsSinceLastSuccessfulPoll: 120 },
+        },
+        existing,
+      );
+    case 'runtimeBased': {
+      const policy = createSimpleShutdownPolicyConfig(
+        {
+          battery: { ...battery, shutdownPct: 10 },
+          fsd,
+          mode: 'advanced',
+          communicationLoss: { enabled: true },
+        },
+        existing,
+      );
+      return {
+        ...policy,
+        rules: [...policy.rules, createRuntimeRemainingPolicy({ enabled: true })],
+      };
+    }
+    case 'followPrimary': {
+      // Secondaries leave the decision to the primary and only act on its FSD.
+      const policy = createSimpleShutdownPolicyConfig(
+        {
+          battery: { ...battery, shutdownEnabled: false, criticalShutdownAlertEnabled: false },
+          fsd,
+          mode: 'advanced',
+          communicationLoss: { enabled: true },
+        },
+        existing,
+      );
+      return {
+        ...policy,
+        rules: policy.rules.filter((rule) => rule.id !== DEFAULT_BATTERY_SHUTDOWN_RULE_ID),
+      };
+    }
+  }
+}
+
+/**
+ * Spells out hooks and primary mode so that a policy which replaces the
+ * current one, from a file or a preset, does not keep this computer's values
+ * for either when the config patch is merged.
+ */
+export function completeShutdownPolicyConfig(
+  policy: ShutdownPolicyConfig,
+): ShutdownPolicyConfig {
+  return {
+    ...policy,
+    preShutdownHooks: policy.preShutdownHooks ?? [],
+    primaryMode: policy.primaryMode ?? {
+      enabled: false,
+      secondaryTimeoutSeconds: DEFAULT_PRIMARY_MODE_TIMEOUT_SECONDS,
+    },
   };
 }
 
@@ -326,6 +431,10 @@ export function getNumericConditionValue(
     return getNumericConditionValue(condition.not, field);
   }
 
+  if ('timeWindow' in condition) {
+    return undefined;
+  }
+
   if (condition.field === field && typeof condition.value === 'number') {
     return condition.value;
   }
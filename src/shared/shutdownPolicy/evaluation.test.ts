@@ -6,7 +6,7 @@ function makeContext(
   overrides: Partial<ShutdownPolicyContext> = {},
 ): ShutdownPolicyContext {
   return {
-    now: 1000,
+    now: overrides.now ?? 1000,
     ups: {
       online: false,
       onBattery: false,
@@ -86,3 +86,81 @@ describe('evaluatePolicyCondition — exists / notExists operators', () => {
     expect(notExistsResult.reason).toContain('notExists');
   });
 });
+
+describe('evaluatePolicyCondition — time of day', () => {
+  // Monday 2026-10-19 22:30 UTC, which is 00:30 on Tuesday in Berlin.
+  const MONDAY_NIGHT = Date.parse('2026-10-19T22:30:00.000Z');
+
+  it('reads time fields from the wall clock in the context', () => {
+    const context: ShutdownPolicyContext = {
+      ...makeContext(),
+      time: { hourOfDay: 22, minuteOfDay: 1350, dayOfWeek: 1 },
+    };
+
+    expect(evaluatePolicyCondition(
+      { field: 'time.hourOfDay', op: 'gte', value: 22 },
+      context,
+    ).matched).toBe(true);
+    expect(evaluatePolicyCondition(
+      { field: 'time.dayOfWeek', op: 'eq', value: 1 },
+      context,
+    )).toMatchObject({ matched: true, actualValue: 1, expectedValue: 1 });
+  });
+
+  it('derives time fields from now when the context has no wall clock', () => {
+    const local = new Date(MONDAY_NIGHT);
+    const result = evaluatePolicyCondition(
+      { field: 'time.hourOfDay', op: 'eq', value: local.getHours() },
+      makeContext({ now: MONDAY_NIGHT }),
+    );
+
+    expect(result.matched).toBe(true);
+  });
+
+  it('matches a time window in its own time zone', () => {
+    const context = makeContext({ now: MONDAY_NIGHT });
+
+    expect(evaluatePolicyCondition(
+      { timeWindow: { start: '22:00', end: '06:00', days: [1], timeZone: 'UTC' } },
+      context,
+    )).toEqual({
+      matched: true,
+      reason: 'Time is inside the window',
+      actualValue: '22:30 day 1',
+      expectedValue: '22:00-06:00 on days 1 (UTC)',
+    });
+    // Past midnight in Berlin, the Monday night window has become Tuesday's.
+    expect(evaluatePolicyCondition(
+      { timeWindow: { start: '23:00', end: '01:00', days: [1], timeZone: 'Europe/Berlin' } },
+      context,
+    ).matched).toBe(true);
+    expect(evaluatePolicyCondition(
+      { timeWindow: { start: '09:00', end: '18:00', timeZone: 'Europe/Berlin' } },
+      context,
+    ).matched).toBe(false);
+  });
+
+  it('uses the context wall clock for windows without a time zone', () => {
+    const context: ShutdownPolicyContext = {
+      ...makeContext({ now: MONDAY_NIGHT }),
+      time: { hourOfDay: 10, minuteOfDay: 600, dayOfWeek: 3 },
+    };
+
+    expect(evaluatePolicyCondition(
+      { timeWindow: { start: '09:00', end: '18:00', days: [1, 2, 3, 4, 5] } },
+      context,
+    ).matched).toBe(true);
+  });
+
+  it('does not match a window with an unknown time zone', () => {
+    const result = evaluatePolicyCondition(
+      { timeWindow: { start: '00:00', end: '00:00', timeZone: 'Mars/Olympus_Mons' } },
+      makeContext(),
+    );
+
+    expect(result).toMatchObject({
+      matched: false,
+      reason: 'Unknown time zone Mars/Olympus_Mons',
+    });
+  });
+});
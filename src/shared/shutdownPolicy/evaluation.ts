@@ -3,8 +3,15 @@ import type {
   PolicyCondition,
   PolicyField,
   PolicyOperator,
+  PolicyTimeWindow,
   ShutdownPolicyContext,
+  ShutdownPolicyWallClock,
 } from './types';
+import {
+  formatPolicyTimeWindow,
+  getPolicyWallClock,
+  isWithinPolicyTimeWindow,
+} from './time';
 
 type PolicyConditionLeaf = Extract<
   PolicyCondition,
@@ -54,6 +61,10 @@ export function evaluatePolicyCondition(
     };
   }
 
+  if ('timeWindow' in condition) {
+    return evaluateTimeWindowCondition(condition.timeWindow, context);
+  }
+
   return evaluateLeafCondition(condition, context);
 }
 
@@ -61,6 +72,11 @@ export function getPolicyFieldValue(
   context: ShutdownPolicyContext,
   field: PolicyField,
 ): unknown {
+  if (field === 'time.hourOfDay' || field === 'time.dayOfWeek') {
+    const clock = getContextWallClock(context);
+    return field === 'time.hourOfDay' ? clock.hourOfDay : clock.dayOfWeek;
+  }
+
   const parts = field.split('.');
   let current: unknown = context;
 
@@ -75,6 +91,44 @@ export function getPolicyFieldValue(
   return current;
 }
 
+function getContextWallClock(context: ShutdownPolicyContext): ShutdownPolicyWallClock {
+  return context.time ?? getPolicyWallClock(context.now);
+}
+
+function evaluateTimeWindowCondition(
+  window: PolicyTimeWindow,
+  context: ShutdownPolicyContext,
+): ConditionEvaluationResult {
+  let clock: ShutdownPolicyWallClock;
+  try {
+    clock = window.timeZone
+      ? getPolicyWallClock(context.now, window.timeZone)
+      : getContextWallClock(context);
+  } catch {
+    return {
+      matched: false,
+      reason: `Unknown time zone ${window.timeZone}`,
+      expectedValue: formatPolicyTimeWindow(window),
+    };
+  }
+
+  const matched = isWithinPolicyTimeWindow(window, clock);
+  return {
+    matched,
+    reason: matched
+      ? 'Time is inside the window'
+      : 'Time is outside the window',
+    actualValue: formatWallClock(clock),
+    expectedValue: formatPolicyTimeWindow(window),
+  };
+}
+
+function formatWallClock(clock: ShutdownPolicyWallClock): string {
+  const hours = String(clock.hourOfDay).padStart(2, '0');
+  const minutes = String(clock.minuteOfDay % 60).padStart(2, '0');
+  return `${hours}:${minutes} day ${clock.dayOfWeek}`;
+}
+
 function evaluateLeafCondition(
   condition: PolicyConditionLeaf,
   context: ShutdownPolicyContext,
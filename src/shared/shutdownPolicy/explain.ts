@@ -25,11 +25,23 @@ export function explainDecision(
       return `Rule ${ruleLabel} matched and will run ${decision.method} immediately.`;
     case 'cancelShutdownCountdown':
       return `Rule ${ruleLabel} cancelled the active shutdown countdown: ${decision.reason}.`;
+    case 'runCommand':
+      return `Rule ${ruleLabel} matched and will run ${formatCommandLine(decision.command, decision.args)}.`;
+    case 'sendWebhook':
+      return `Rule ${ruleLabel} matched and will send a webhook to ${decision.url}.`;
+    case 'notifyOnly':
+      return `Rule ${ruleLabel} matched and will show a notification.`;
     default:
       return 'Unknown shutdown policy decision.';
   }
 }
 
+export function formatCommandLine(command: string, args: string[]): string {
+  return [command, ...args]
+    .map((part) => (/[\s"]/u.test(part) ? JSON.stringify(part) : part))
+    .join(' ');
+}
+
 export function flattenConditionExplanation(
   result: ConditionEvaluationResult,
   depth = 0,
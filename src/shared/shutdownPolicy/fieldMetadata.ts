@@ -10,6 +10,8 @@ export type PolicyFieldMetadata = {
   valueType: PolicyFieldValueType;
   label: string;
   supportedOperators: readonly PolicyOperator[];
+  /** Whole numbers within these bounds, for fields that only take those. */
+  integerRange?: { min: number; max: number };
 };
 
 const booleanOperators = [
@@ -80,6 +82,21 @@ export const POLICY_FIELD_METADATA: Record<PolicyField, PolicyFieldMetadata> = {
     label: 'Battery runtime seconds',
     supportedOperators: numberOperators,
   },
+  'battery.runtimeEstimated': {
+    valueType: 'boolean',
+    label: 'Battery runtime is estimated by the app',
+    supportedOperators: booleanOperators,
+  },
+  'battery.healthPercent': {
+    valueType: 'number',
+    label: 'Battery health percent',
+    supportedOperators: numberOperators,
+  },
+  'battery.replaceSoon': {
+    valueType: 'boolean',
+    label: 'Battery should be replaced soon',
+    supportedOperators: booleanOperators,
+  },
   'connection.state': {
     valueType: 'string',
     label: 'Connection state',
@@ -115,4 +132,16 @@ export const POLICY_FIELD_METADATA: Record<PolicyField, PolicyFieldMetadata> = {
     label: 'Active countdown rule',
     supportedOperators: stringOperators,
   },
+  'time.hourOfDay': {
+    valueType: 'number',
+    label: 'Hour of day (local time, 0-23)',
+    supportedOperators: numberOperators,
+    integerRange: { min: 0, max: 23 },
+  },
+  'time.dayOfWeek': {
+    valueType: 'number',
+    label: 'Day of week (0 = Sunday)',
+    supportedOperators: numberOperators,
+    integerRange: { min: 0, max: 6 },
+  },
 };
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createBuiltInShutdownPolicyPreset,
+  DEFAULT_BATTERY_SHUTDOWN_RULE_ID,
+} from './defaultPolicies';
+import { diffShutdownPolicies, formatPolicyCondition } from './policyDiff';
+import type { ShutdownPolicyConfig } from './types';
+
+describe('diffShutdownPolicies', () => {
+  it('reports nothing for identical policies', () => {
+    const policy = createBuiltInShutdownPolicyPreset('standard');
+
+    expect(diffShutdownPolicies(policy, structuredClone(policy))).toEqual([]);
+  });
+
+  it('lists changed settings, changed rule fields and added or removed rules', () => {
+    const current = createBuiltInShutdownPolicyPreset('standard');
+    const next: ShutdownPolicyConfig = {
+      ...createBuiltInShutdownPolicyPreset('runtimeBased'),
+      safety: { ...current.safety, maxCountdownSeconds: 120 },
+      preShutdownHooks: [
+        {
+          id: 'stop-vms',
+          name: 'Stop VMs',
+          enabled: true,
+          command: '/usr/local/bin/stop-vms',
+          args: ['--all'],
+          timeoutSeconds: 30,
+          onFailure: 'continue',
+        },
+      ],
+    };
+    next.rules = next.rules.filter((rule) => rule.id !== 'default-battery-warning');
+
+    expect(diffShutdownPolicies(current, next)).toEqual([
+      {
+        change: 'changed',
+        label: 'Safety: maxCountdownSeconds',
+        before: '300',
+        after: '120',
+      },
+      {
+        change: 'removed',
+        label: 'Rule Warn when battery is low while on battery (default-battery-warning)',
+        before: expect.stringMatching(/^enabled, when \(ups\.onBattery eq true AND /),
+      },
+      {
+        change: 'changed',
+        label: `Rule Shutdown when battery is critically low while on battery (${DEFAULT_BATTERY_SHUTDOWN_RULE_ID}): trigger`,
+        before: expect.stringContaining('battery.chargePercent lte 20'),
+        after: expect.stringContaining('battery.chargePercent lte 10'),
+      },
+      {
+        change: 'added',
+        label: 'Rule Shutdown when runtime remaining is low while on battery (default-runtime-remaining-shutdown)',
+        after: 'enabled, when (ups.onBattery eq true AND battery.runtimeSeconds lte 300) then startShutdownCountdown 60s shutdown',
+      },
+      {
+        change: 'added',
+        label: 'Pre-shutdown hook Stop VMs',
+        after: 'enabled, /usr/local/bin/stop-vms --all, 30s, on failure continue',
+      },
+    ]);
+  });
+
+  it('reports primary mode changes', () => {
+    const current = createBuiltInShutdownPolicyPreset('standard');
+    const next = {
+      ...current,
+      primaryMode: { enabled: true, secondaryTimeoutSeconds: 90 },
+    };
+
+    expect(diffShutdownPolicies(current, next)).toEqual([
+      {
+        change: 'changed',
+        label: 'Primary mode',
+        before: 'off',
+        after: 'on, waits 90s for secondaries',
+      },
+    ]);
+  });
+});
+
+describe('formatPolicyCondition', () => {
+  it('writes nested groups on one line', () => {
+    expect(formatPolicyCondition({
+      any: [
+        { field: 'ups.fsd', op: 'eq', value: true },
+        { not: { field: 'battery.runtimeSeconds', op: 'exists' } },
+      ],
+    })).toBe('(ups.fsd eq true OR NOT battery.runtimeSeconds exists)');
+    expect(formatPolicyCondition(null)).toBe('none');
+  });
+
+  it('writes time windows with their days and time zone', () => {
+    expect(formatPolicyCondition({
+      all: [
+        { field: 'time.hourOfDay', op: 'gte', value: 22 },
+        { timeWindow: { start: '22:00', end: '06:00', days: [5, 6], timeZone: 'Europe/Berlin' } },
+      ],
+    })).toBe('(time.hourOfDay gte 22 AND time between 22:00-06:00 on days 5,6 (Europe/Berlin))');
+  });
+});
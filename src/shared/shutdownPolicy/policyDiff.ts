@@ -0,0 +1,181 @@
+import { formatCommandLine } from './explain';
+import { formatPolicyTimeWindow } from './time';
+import type {
+  PolicyCondition,
+  PreShutdownHook,
+  ShutdownPolicyAction,
+  ShutdownPolicyConfig,
+  ShutdownPolicyDiffEntry,
+  ShutdownPolicyRule,
+  ShutdownPolicySafety,
+} from './types';
+
+const SAFETY_KEYS: (keyof ShutdownPolicySafety)[] = [
+  'requireHoldForShutdownSeconds',
+  'maxCountdownSeconds',
+  'allowImmediateShutdown',
+  'allowFsdAutoCancel',
+];
+
+/**
+ * Lists what replacing `current` with `next` would change, one entry per
+ * setting, rule field or hook. Rules and hooks are matched by id.
+ */
+export function diffShutdownPolicies(
+  current: ShutdownPolicyConfig,
+  next: ShutdownPolicyConfig,
+): ShutdownPolicyDiffEntry[] {
+  const entries: ShutdownPolicyDiffEntry[] = [];
+
+  pushChange(entries, 'Mode', current.mode, next.mode);
+  for (const key of SAFETY_KEYS) {
+    pushChange(entries, `Safety: ${key}`, String(current.safety[key]), String(next.safety[key]));
+  }
+
+  entries.push(...diffById(
+    current.rules,
+    next.rules,
+    (rule) => `Rule ${rule.name} (${rule.id})`,
+    summarizeRule,
+    diffRule,
+  ));
+  entries.push(...diffById(
+    current.preShutdownHooks ?? [],
+    next.preShutdownHooks ?? [],
+    (hook) => `Pre-shutdown hook ${hook.name}`,
+    summarizeHook,
+    (before, after) => {
+      const hookEntries: ShutdownPolicyDiffEntry[] = [];
+      pushChange(hookEntries, `Pre-shutdown hook ${after.name}`, summarizeHook(before), summarizeHook(after));
+      return hookEntries;
+    },
+  ));
+
+  pushChange(
+    entries,
+    'Primary mode',
+    formatPrimaryMode(current.primaryMode),
+    formatPrimaryMode(next.primaryMode),
+  );
+
+  return entries;
+}
+
+export function formatPolicyCondition(condition: PolicyCondition | null | undefined): string {
+  if (!condition) {
+    return 'none';
+  }
+  if ('all' in condition) {
+    return `(${condition.all.map(formatPolicyCondition).join(' AND ')})`;
+  }
+  if ('any' in condition) {
+    return `(${condition.any.map(formatPolicyCondition).join(' OR ')})`;
+  }
+  if ('not' in condition) {
+    return `NOT ${formatPolicyCondition(condition.not)}`;
+  }
+  if ('timeWindow' in condition) {
+    return `time between ${formatPolicyTimeWindow(condition.timeWindow)}`;
+  }
+  return condition.value === undefined
+    ? `${condition.field} ${condition.op}`
+    : `${condition.field} ${condition.op} ${JSON.stringify(condition.value)}`;
+}
+
+function formatPolicyActionDetail(action: ShutdownPolicyAction): string {
+  switch (action.type) {
+    case 'startShutdownCountdown':
+      return `${action.type} ${action.countdownSeconds}s ${action.method}`;
+    case 'shutdownNow':
+      return `${action.type} ${action.method}`;
+    case 'runCommand':
+      return `${action.type} ${formatCommandLine(action.command, action.args)} (${action.timeoutSeconds}s)`;
+    case 'sendWebhook':
+      return `${action.type} ${action.url} (${action.timeoutSeconds}s)`;
+    case 'showWarning':
+    case 'showCriticalAlert':
+    case 'notifyOnly':
+      return action.message ? `${action.type} ${JSON.stringify(action.message)}` : action.type;
+    default:
+      return action.type;
+  }
+}
+
+function diffRule(
+  before: ShutdownPolicyRule,
+  after: ShutdownPolicyRule,
+): ShutdownPolicyDiffEntry[] {
+  const entries: ShutdownPolicyDiffEntry[] = [];
+  const label = `Rule ${after.name} (${after.id})`;
+  const fields: [string, string, string][] = [
+    ['name', before.name, after.name],
+    ['description', before.description ?? '', after.description ?? ''],
+    ['enabled', String(before.enabled), String(after.enabled)],
+    ['priority', String(before.priority), String(after.priority)],
+    ['severity', before.severity, after.severity],
+    ['trigger', formatPolicyCondition(before.trigger), formatPolicyCondition(after.trigger)],
+    ['holdForSeconds', String(before.holdForSeconds ?? 0), String(after.holdForSeconds ?? 0)],
+    ['action', formatPolicyActionDetail(before.action), formatPolicyActionDetail(after.action)],
+    ['cancelWhen', formatPolicyCondition(before.cancelWhen), formatPolicyCondition(after.cancelWhen)],
+    ['cooldownSeconds', String(before.cooldownSeconds ?? 0), String(after.cooldownSeconds ?? 0)],
+  ];
+
+  for (const [field, beforeValue, afterValue] of fields) {
+    pushChange(entries, `${label}: ${field}`, beforeValue, afterValue);
+  }
+  return entries;
+}
+
+function diffById<T extends { id: string }>(
+  current: T[],
+  next: T[],
+  labelOf: (item: T) => string,
+  summarize: (item: T) => string,
+  diffItem: (before: T, after: T) => ShutdownPolicyDiffEntry[],
+): ShutdownPolicyDiffEntry[] {
+  const entries: ShutdownPolicyDiffEntry[] = [];
+  const nextById = new Map(next.map((item) => [item.id, item]));
+  const currentIds = new Set(current.map((item) => item.id));
+
+  for (const item of current) {
+    const replacement = nextById.get(item.id);
+    if (replacement) {
+      entries.push(...diffItem(item, replacement));
+    } else {
+      entries.push({ change: 'removed', label: labelOf(item), before: summarize(item) });
+    }
+  }
+  for (const item of next) {
+    if (!currentIds.has(item.id)) {
+      entries.push({ change: 'added', label: labelOf(item), after: summarize(item) });
+    }
+  }
+  return entries;
+}
+
+function pushChange(
+  entries: ShutdownPolicyDiffEntry[],
+  label: string,
+  before: string,
+  after: string,
+): void {
+  if (before !== after) {
+    entries.push({ change: 'changed', label, before, after });
+  }
+}
+
+function summarizeRule(rule: ShutdownPolicyRule): string {
+  const state = rule.enabled ? 'enabled' : 'disabled';
+  return `${state}, when ${formatPolicyCondition(rule.trigger)} then ${formatPolicyActionDetail(rule.action)}`;
+}
+
+function summarizeHook(hook: PreShutdownHook): string {
+  const state = hook.enabled ? 'enabled' : 'disabled';
+  return `${state}, ${formatCommandLine(hook.command, hook.args)}, ${hook.timeoutSeconds}s, on failure ${hook.onFailure}`;
+}
+
+function formatPrimaryMode(primaryMode: ShutdownPolicyConfig['primaryMode']): string {
+  return primaryMode?.enabled
+    ? `on, waits ${primaryMode.secondaryTimeoutSeconds}s for secondaries`
+    : 'off';
+}
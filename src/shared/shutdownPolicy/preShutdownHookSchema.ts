@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import {
+  MAX_PRE_SHUTDOWN_HOOK_ARGS,
+  MAX_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS,
+  MAX_PRE_SHUTDOWN_HOOKS,
+  MIN_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS,
+  PRE_SHUTDOWN_HOOK_FAILURE_MODES,
+} from './constants';
+
+export const preShutdownHookSchema = z
+  .object({
+    id: z.string().trim().min(1).max(200),
+    name: z.string().trim().min(1).max(200),
+    enabled: z.boolean(),
+    command: z.string().trim().min(1).max(1000),
+    args: z.array(z.string().max(1000)).max(MAX_PRE_SHUTDOWN_HOOK_ARGS),
+    timeoutSeconds: z
+      .number()
+      .int()
+      .min(MIN_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS)
+      .max(MAX_PRE_SHUTDOWN_HOOK_TIMEOUT_SECONDS),
+    onFailure: z.enum(PRE_SHUTDOWN_HOOK_FAILURE_MODES),
+  })
+  .strict();
+
+export const preShutdownHookListSchema = z
+  .array(preShutdownHookSchema)
+  .max(MAX_PRE_SHUTDOWN_HOOKS)
+  .superRefine((hooks, context) => {
+    const seenHookIds = new Set<string>();
+
+    hooks.forEach((hook, index) => {
+      if (seenHookIds.has(hook.id)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'id'],
+          message: `Duplicate pre-shutdown hook id: ${hook.id}`,
+        });
+      }
+      seenHookIds.add(hook.id);
+    });
+  });
@@ -119,6 +119,39 @@ describe('shutdown policy simulator and explanations', () => {
     );
   });
 
+  it('chooses between rules by the wall clock', () => {
+    const config = makeConfig([
+      makeRule({
+        id: 'night',
+        trigger: {
+          all: [
+            { field: 'state.secondsOnBattery', op: 'gte', value: 120 },
+            { timeWindow: { start: '18:00', end: '09:00' } },
+          ],
+        },
+      }),
+      makeRule({
+        id: 'office-hours',
+        trigger: {
+          all: [
+            { field: 'battery.chargePercent', op: 'lte', value: 20 },
+            { timeWindow: { start: '09:00', end: '18:00', days: [1, 2, 3, 4, 5] } },
+          ],
+        },
+      }),
+    ]);
+    const at = (hourOfDay: number, dayOfWeek: number): ShutdownPolicyContext => ({
+      ...makeContext({ battery: { chargePercent: 50, runtimeSeconds: 900 } }),
+      time: { hourOfDay, minuteOfDay: hourOfDay * 60, dayOfWeek },
+    });
+
+    expect(simulateShutdownPolicy(config, at(23, 2)).selectedRule?.id).toBe('night');
+    expect(simulateShutdownPolicy(config, at(11, 2)).selectedRule).toBeUndefined();
+    expect(flattenConditionExplanation(
+      simulateShutdownPolicy(config, at(11, 2)).ruleResults[0].condition,
+    )).toContain('  FAIL Time is outside the window | actual=11:00 day 2 | expected=18:00-09:00');
+  });
+
   it('creates showCriticalAlert, shutdownNow, and explicit cancel decisions from matching rules', () => {
     const alertResult = simulateShutdownPolicy(
       makeConfig([
@@ -165,6 +198,56 @@ describe('shutdown policy simulator and explanations', () => {
     });
   });
 
+  it('creates runCommand, sendWebhook and notifyOnly decisions and explains them', () => {
+    const commandRule = makeRule({
+      id: 'script',
+      name: 'Script',
+      action: {
+        type: 'runCommand',
+        command: '/opt/ups hooks/notify',
+        args: ['--level', 'warn'],
+        timeoutSeconds: 15,
+      },
+    });
+    const webhookRule = makeRule({
+      id: 'webhook',
+      action: { type: 'sendWebhook', url: 'https://hooks.example.com/ups', timeoutSeconds: 5 },
+    });
+    const notifyRule = makeRule({
+      id: 'toast',
+      action: { type: 'notifyOnly', message: 'On battery' },
+    });
+
+    const commandResult = simulateShutdownPolicy(makeConfig([commandRule]), makeContext());
+    const webhookResult = simulateShutdownPolicy(makeConfig([webhookRule]), makeContext());
+    const notifyResult = simulateShutdownPolicy(makeConfig([notifyRule]), makeContext());
+
+    expect(commandResult.decision).toEqual({
+      type: 'runCommand',
+      ruleId: 'script',
+      command: '/opt/ups hooks/notify',
+      args: ['--level', 'warn'],
+      timeoutSeconds: 15,
+    });
+    expect(explainDecision(commandResult.decision, commandRule)).toBe(
+      'Rule Script (script) matched and will run "/opt/ups hooks/notify" --level warn.',
+    );
+    expect(webhookResult.decision).toEqual({
+      type: 'sendWebhook',
+      ruleId: 'webhook',
+      url: 'https://hooks.example.com/ups',
+      timeoutSeconds: 5,
+    });
+    expect(notifyResult.decision).toEqual({
+      type: 'notifyOnly',
+      ruleId: 'toast',
+      message: 'On battery',
+    });
+    expect(explainDecision(notifyResult.decision)).toBe(
+      'Rule toast matched and will show a notification.',
+    );
+  });
+
   it('lets an equal-rank earlier shutdown rule override active countdown cancellation', () => {
     const replacementRule = makeRule({
       id: 'replacement',
@@ -557,7 +640,7 @@ describe('shutdown policy simulator and explanations', () => {
 
 function makeConfig(rules: ShutdownPolicyRule[]): ShutdownPolicyConfig {
   return {
-    version: 1,
+    version: 2,
     mode: 'advanced',
     rules,
     safety: {
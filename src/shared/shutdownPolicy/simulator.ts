@@ -192,6 +192,27 @@ function createDecision(rule: ShutdownPolicyRule): ShutdownPolicyDecision {
         ruleId: rule.id,
         reason: 'Rule action requested countdown cancellation',
       };
+    case 'runCommand':
+      return {
+        type: 'runCommand',
+        ruleId: rule.id,
+        command: action.command,
+        args: [...action.args],
+        timeoutSeconds: action.timeoutSeconds,
+      };
+    case 'sendWebhook':
+      return {
+        type: 'sendWebhook',
+        ruleId: rule.id,
+        url: action.url,
+        timeoutSeconds: action.timeoutSeconds,
+      };
+    case 'notifyOnly':
+      return {
+        type: 'notifyOnly',
+        ruleId: rule.id,
+        message: action.message,
+      };
     default:
       return assertNever(action);
   }
@@ -259,6 +280,10 @@ function conditionMentionsField(
     return conditionMentionsField(condition.not, field);
   }
 
+  if ('timeWindow' in condition) {
+    return false;
+  }
+
   return condition.field === field;
 }
 
@@ -275,7 +300,7 @@ function conditionContains(
     return condition.any.some((child) => conditionContains(child, field, value));
   }
 
-  if ('not' in condition) {
+  if ('not' in condition || 'timeWindow' in condition) {
     return false;
   }
 
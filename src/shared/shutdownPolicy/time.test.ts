@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatPolicyTimeWindow,
+  getPolicyWallClock,
+  isValidTimeZone,
+  isWithinPolicyTimeWindow,
+  parsePolicyTimeOfDay,
+} from './time';
+import type { PolicyTimeWindow, ShutdownPolicyWallClock } from './types';
+
+const MINUTE = 60 * 1000;
+
+function clock(dayOfWeek: number, time: string): ShutdownPolicyWallClock {
+  const minuteOfDay = parsePolicyTimeOfDay(time) ?? 0;
+  return { hourOfDay: Math.floor(minuteOfDay / 60), minuteOfDay, dayOfWeek };
+}
+
+function matchingMinutes(
+  window: PolicyTimeWindow,
+  fromIso: string,
+  toIso: string,
+): string[] {
+  const matches: string[] = [];
+  for (let now = Date.parse(fromIso); now < Date.parse(toIso); now += MINUTE) {
+    if (isWithinPolicyTimeWindow(window, getPolicyWallClock(now, window.timeZone))) {
+      matches.push(new Date(now).toISOString().slice(11, 16));
+    }
+  }
+  return matches;
+}
+
+describe('getPolicyWallClock', () => {
+  it('reads the wall clock in the requested time zone', () => {
+    const now = Date.parse('2026-10-19T22:30:00.000Z');
+
+    expect(getPolicyWallClock(now, 'UTC')).toEqual({
+      hourOfDay: 22,
+      minuteOfDay: 22 * 60 + 30,
+      dayOfWeek: 1,
+    });
+    // Already Tuesday in Berlin.
+    expect(getPolicyWallClock(now, 'Europe/Berlin')).toEqual({
+      hourOfDay: 0,
+      minuteOfDay: 30,
+      dayOfWeek: 2,
+    });
+  });
+
+  it('uses the computer time zone when none is given', () => {
+    const now = Date.parse('2026-10-19T08:15:00.000Z');
+    const local = new Date(now);
+
+    expect(getPolicyWallClock(now)).toEqual({
+      hourOfDay: local.getHours(),
+      minuteOfDay: local.getHours() * 60 + local.getMinutes(),
+      dayOfWeek: local.getDay(),
+    });
+  });
+
+  it('follows the offset change at the start and end of DST', () => {
+    // New York springs forward from 02:00 EST to 03:00 EDT on 2026-03-08.
+    expect(getPolicyWallClock(Date.parse('2026-03-08T06:59:00.000Z'), 'America/New_York'))
+      .toMatchObject({ hourOfDay: 1, minuteOfDay: 119 });
+    expect(getPolicyWallClock(Date.parse('2026-03-08T07:00:00.000Z'), 'America/New_York'))
+      .toMatchObject({ hourOfDay: 3, minuteOfDay: 180 });
+    // And falls back from 02:00 EDT to 01:00 EST on 2026-11-01.
+    expect(getPolicyWallClock(Date.parse('2026-11-01T05:30:00.000Z'), 'America/New_York'))
+      .toMatchObject({ hourOfDay: 1, minuteOfDay: 90 });
+    expect(getPolicyWallClock(Date.parse('2026-11-01T06:30:00.000Z'), 'America/New_York'))
+      .toMatchObject({ hourOfDay: 1, minuteOfDay: 90 });
+  });
+});
+
+describe('isWithinPolicyTimeWindow', () => {
+  it('includes the start and excludes the end', () => {
+    const window: PolicyTimeWindow = { start: '09:00', end: '18:00' };
+
+    expect(isWithinPolicyTimeWindow(window, clock(1, '08:59'))).toBe(false);
+    expect(isWithinPolicyTimeWindow(window, clock(1, '09:00'))).toBe(true);
+    expect(isWithinPolicyTimeWindow(window, clock(1, '17:59'))).toBe(true);
+    expect(isWithinPolicyTimeWindow(window, clock(1, '18:00'))).toBe(false);
+  });
+
+  it('runs overnight windows past midnight and matches days by the start day', () => {
+    const fridayNight: PolicyTimeWindow = { start: '22:00', end: '06:00', days: [5] };
+
+    expect(isWithinPolicyTimeWindow(fridayNight, clock(5, '23:00'))).toBe(true);
+    expect(isWithinPolicyTimeWindow(fridayNight, clock(6, '05:59'))).toBe(true);
+    expect(isWithinPolicyTimeWindow(fridayNight, clock(6, '06:00'))).toBe(false);
+    expect(isWithinPolicyTimeWindow(fridayNight, clock(6, '23:00'))).toBe(false);
+    // Early Friday belongs to Thursday night.
+    expect(isWithinPolicyTimeWindow(fridayNight, clock(5, '05:00'))).toBe(false);
+    // Saturday night runs into Sunday morning.
+    expect(isWithinPolicyTimeWindow(
+      { ...fridayNight, days: [6] },
+      clock(0, '01:00'),
+    )).toBe(true);
+  });
+
+  it('treats an equal start and end as the whole day', () => {
+    const weekends: PolicyTimeWindow = { start: '00:00', end: '00:00', days: [0, 6] };
+
+    expect(isWithinPolicyTimeWindow(weekends, clock(6, '00:00'))).toBe(true);
+    expect(isWithinPolicyTimeWindow(weekends, clock(0, '23:59'))).toBe(true);
+    expect(isWithinPolicyTimeWindow(weekends, clock(1, '12:00'))).toBe(false);
+  });
+
+  it('never matches a window inside the hour skipped by DST', () => {
+    expect(matchingMinutes(
+      { start: '02:00', end: '03:00', timeZone: 'America/New_York' },
+      '2026-03-08T05:00:00.000Z',
+      '2026-03-08T09:00:00.000Z',
+    )).toEqual([]);
+    // A window straddling the gap keeps the part that exists.
+    expect(matchingMinutes(
+      { start: '01:58', end: '03:02', timeZone: 'America/New_York' },
+      '2026-03-08T05:00:00.000Z',
+      '2026-03-08T09:00:00.000Z',
+    )).toEqual(['06:58', '06:59', '07:00', '07:01']);
+  });
+
+  it('matches both passes through the hour repeated by DST', () => {
+    const matches = matchingMinutes(
+      { start: '01:00', end: '02:00', timeZone: 'America/New_York' },
+      '2026-11-01T04:00:00.000Z',
+      '2026-11-01T08:00:00.000Z',
+    );
+
+    expect(matches).toHaveLength(120);
+    expect(matches[0]).toBe('05:00');
+    expect(matches[matches.length - 1]).toBe('06:59');
+  });
+
+  it('never matches a malformed window', () => {
+    expect(isWithinPolicyTimeWindow({ start: '9:00', end: '18:00' }, clock(1, '12:00')))
+      .toBe(false);
+  });
+});
+
+describe('time helpers', () => {
+  it('parses 24-hour times', () => {
+    expect(parsePolicyTimeOfDay('00:00')).toBe(0);
+    expect(parsePolicyTimeOfDay('23:59')).toBe(1439);
+    expect(parsePolicyTimeOfDay('24:00')).toBeUndefined();
+    expect(parsePolicyTimeOfDay('7:30')).toBeUndefined();
+  });
+
+  it('recognises IANA time zone names', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('formats windows for explanations', () => {
+    expect(formatPolicyTimeWindow({ start: '22:00', end: '06:00' })).toBe('22:00-06:00');
+    expect(formatPolicyTimeWindow({
+      start: '22:00',
+      end: '06:00',
+      days: [1, 2],
+      timeZone: 'Europe/Berlin',
+    })).toBe('22:00-06:00 on days 1,2 (Europe/Berlin)');
+  });
+});
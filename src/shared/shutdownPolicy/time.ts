@@ -0,0 +1,124 @@
+import { POLICY_TIME_OF_DAY_PATTERN } from './constants';
+import type { PolicyTimeWindow, ShutdownPolicyWallClock } from './types';
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Reads the wall clock at `now` in `timeZone`, or in this computer's time
+ * zone when it is omitted. The zone's offset is looked up for that instant,
+ * so DST changes are followed without storing any offsets.
+ */
+export function getPolicyWallClock(now: number, timeZone?: string): ShutdownPolicyWallClock {
+  if (!timeZone) {
+    const date = new Date(now);
+    const hourOfDay = date.getHours();
+    return {
+      hourOfDay,
+      minuteOfDay: hourOfDay * 60 + date.getMinutes(),
+      dayOfWeek: date.getDay(),
+    };
+  }
+
+  let hourOfDay = 0;
+  let minute = 0;
+  let dayOfWeek = 0;
+  for (const part of getFormatter(timeZone).formatToParts(new Date(now))) {
+    if (part.type === 'hour') {
+      // Some engines print midnight as "24" even with a 23-hour cycle.
+      hourOfDay = Number(part.value) % 24;
+    } else if (part.type === 'minute') {
+      minute = Number(part.value);
+    } else if (part.type === 'weekday') {
+      dayOfWeek = WEEKDAY_INDEX[part.value] ?? 0;
+    }
+  }
+
+  return { hourOfDay, minuteOfDay: hourOfDay * 60 + minute, dayOfWeek };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Minutes after midnight for an "HH:MM" string, or undefined when malformed. */
+export function parsePolicyTimeOfDay(value: string): number | undefined {
+  if (!POLICY_TIME_OF_DAY_PATTERN.test(value)) {
+    return undefined;
+  }
+
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether `clock` falls inside the window. Windows include `start` and
+ * exclude `end`; an `end` at or before `start` wraps past midnight, and
+ * `days` then refers to the day the window started on. Equal `start` and
+ * `end` cover the whole day.
+ */
+export function isWithinPolicyTimeWindow(
+  window: PolicyTimeWindow,
+  clock: ShutdownPolicyWallClock,
+): boolean {
+  const start = parsePolicyTimeOfDay(window.start);
+  const end = parsePolicyTimeOfDay(window.end);
+  if (start === undefined || end === undefined) {
+    return false;
+  }
+
+  const minute = clock.minuteOfDay;
+  let startedOnDay: number;
+  if (start === end) {
+    startedOnDay = clock.dayOfWeek;
+  } else if (start < end) {
+    if (minute < start || minute >= end) {
+      return false;
+    }
+    startedOnDay = clock.dayOfWeek;
+  } else if (minute >= start) {
+    startedOnDay = clock.dayOfWeek;
+  } else if (minute < end) {
+    startedOnDay = (clock.dayOfWeek + 6) % 7;
+  } else {
+    return false;
+  }
+
+  return !window.days || window.days.length === 0 || window.days.includes(startedOnDay);
+}
+
+/** "22:00-06:00 on days 1,2 (Europe/Berlin)", for explanations and diffs. */
+export function formatPolicyTimeWindow(window: PolicyTimeWindow): string {
+  const days = window.days ? ` on days ${window.days.join(',')}` : '';
+  const zone = window.timeZone ? ` (${window.timeZone})` : '';
+  return `${window.start}-${window.end}${days}${zone}`;
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
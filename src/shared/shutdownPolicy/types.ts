@@ -1,4 +1,5 @@
-export type ShutdownPolicyVersion = 1;
+/** Bumped when a policy uses something older versions cannot evaluate. */
+export type ShutdownPolicyVersion = 2;
 
 export type ShutdownPolicyMode = 'simple' | 'advanced';
 
@@ -32,13 +33,33 @@ export type PolicyField =
   | 'ups.statusTokens'
   | 'battery.chargePercent'
   | 'battery.runtimeSeconds'
+  | 'battery.runtimeEstimated'
+  | 'battery.healthPercent'
+  | 'battery.replaceSoon'
   | 'connection.state'
   | 'connection.secondsSinceLastSuccessfulPoll'
   | 'state.secondsOnBattery'
   | 'state.secondsOnline'
   | 'state.secondsLowBattery'
   | 'state.secondsInFsd'
-  | 'state.activeCountdownRuleId';
+  | 'state.activeCountdownRuleId'
+  | 'time.hourOfDay'
+  | 'time.dayOfWeek';
+
+/**
+ * A daily stretch of wall-clock time. It includes `start` and excludes `end`;
+ * an `end` before `start` runs past midnight, and equal times cover the day.
+ */
+export type PolicyTimeWindow = {
+  /** "HH:MM", 24-hour. */
+  start: string;
+  /** "HH:MM", 24-hour. */
+  end: string;
+  /** Days the window starts on, 0 = Sunday. Every day when omitted. */
+  days?: number[];
+  /** IANA time zone name. This computer's time zone when omitted. */
+  timeZone?: string;
+};
 
 export type PolicyCondition =
   | {
@@ -50,6 +71,9 @@ export type PolicyCondition =
   | {
       not: PolicyCondition;
     }
+  | {
+      timeWindow: PolicyTimeWindow;
+    }
   | {
       field: PolicyField;
       op: PolicyOperator;
@@ -76,6 +100,21 @@ export type ShutdownPolicyAction =
     }
   | {
       type: 'cancelShutdownCountdown';
+    }
+  | {
+      type: 'runCommand';
+      command: string;
+      args: string[];
+      timeoutSeconds: number;
+    }
+  | {
+      type: 'sendWebhook';
+      url: string;
+      timeoutSeconds: number;
+    }
+  | {
+      type: 'notifyOnly';
+      message?: string;
     };
 
 export type ShutdownPolicyRule = {
@@ -100,11 +139,68 @@ export type ShutdownPolicySafety = {
   allowFsdAutoCancel: boolean;
 };
 
+export type PreShutdownHookFailureMode = 'continue' | 'abort';
+
+export type PreShutdownHook = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  command: string;
+  args: string[];
+  timeoutSeconds: number;
+  onFailure: PreShutdownHookFailureMode;
+};
+
+export type PreShutdownHookResult = {
+  hookId: string;
+  name: string;
+  command: string;
+  args: string[];
+  success: boolean;
+  /** True when the hook was only resolved, not executed. */
+  dryRun?: boolean;
+  exitCode: number | null;
+  signal?: string;
+  timedOut: boolean;
+  durationMs: number;
+  stdout: string;
+  stderr: string;
+  resolvedPath?: string;
+  errorMessage?: string;
+};
+
+/**
+ * Acting as the upsmon primary: before the OS command runs, raise FSD on the
+ * upstream upsd and wait for its secondaries to log out.
+ */
+export type ShutdownPolicyPrimaryMode = {
+  enabled: boolean;
+  secondaryTimeoutSeconds: number;
+};
+
+export type UpsdCoordinationStepName =
+  | 'login'
+  | 'primary'
+  | 'fsd'
+  | 'waitForSecondaries'
+  /** Secondaries of the app's own NUT server, which see FSD once the shutdown commits. */
+  | 'waitForServedSecondaries';
+
+export type UpsdCoordinationStep = {
+  step: UpsdCoordinationStepName;
+  success: boolean;
+  durationMs: number;
+  message: string;
+};
+
 export type ShutdownPolicyConfig = {
   version: ShutdownPolicyVersion;
   mode: ShutdownPolicyMode;
   rules: ShutdownPolicyRule[];
   safety: ShutdownPolicySafety;
+  /** Run in order before the OS shutdown or sleep command. */
+  preShutdownHooks?: PreShutdownHook[];
+  primaryMode?: ShutdownPolicyPrimaryMode;
 };
 
 export type ShutdownPolicyConnectionState =
@@ -137,7 +233,12 @@ export type ShutdownPolicyContext = {
   battery: {
     chargePercent?: number;
     runtimeSeconds?: number;
+    /** True when `runtimeSeconds` was estimated by the app rather than reported by the UPS. */
+    runtimeEstimated?: boolean;
     voltage?: number;
+    /** Capacity estimate from the battery health service. */
+    healthPercent?: number;
+    replaceSoon?: boolean;
   };
   connection: {
     state: ShutdownPolicyConnectionState;
@@ -150,6 +251,17 @@ export type ShutdownPolicyContext = {
     secondsInFsd: number;
     activeCountdownRuleId?: string;
   };
+  /** Wall-clock time at `now` in this computer's time zone; derived from `now` when missing. */
+  time?: ShutdownPolicyWallClock;
+};
+
+export type ShutdownPolicyWallClock = {
+  /** 0-23. */
+  hourOfDay: number;
+  /** 0-1439. */
+  minuteOfDay: number;
+  /** 0 = Sunday through 6 = Saturday. */
+  dayOfWeek: number;
 };
 
 export type ConditionEvaluationResult = {
@@ -180,8 +292,40 @@ export type ShutdownPolicyDecision =
       type: 'cancelShutdownCountdown';
       ruleId: string;
       reason: string;
+    }
+  | {
+      type: 'runCommand';
+      ruleId: string;
+      command: string;
+      args: string[];
+      timeoutSeconds: number;
+    }
+  | {
+      type: 'sendWebhook';
+      ruleId: string;
+      url: string;
+      timeoutSeconds: number;
+    }
+  | {
+      type: 'notifyOnly';
+      ruleId: string;
+      message?: string;
     };
 
+export type PolicyActionExecutionResult = {
+  type: 'runCommand' | 'sendWebhook';
+  /** Command line or webhook URL. */
+  target: string;
+  success: boolean;
+  durationMs: number;
+  timedOut: boolean;
+  exitCode?: number | null;
+  statusCode?: number;
+  stdout?: string;
+  stderr?: string;
+  errorMessage?: string;
+};
+
 export type ShutdownPolicyDecisionLogEvent =
   | 'decision'
   | 'execution'
@@ -216,5 +360,166 @@ export type ShutdownPolicyDecisionLogEntry = {
     command?: string;
     message?: string;
     errorMessage?: string;
+    hooks?: PreShutdownHookResult[];
+    coordination?: UpsdCoordinationStep[];
   };
+  actionResult?: PolicyActionExecutionResult;
+};
+
+/** Lifecycle of the shutdown countdown, as published to integrations. */
+export type ShutdownCountdownEvent =
+  | {
+      type: 'started';
+      timestampIso: string;
+      ruleId: string;
+      ruleName?: string;
+      countdownSeconds: number;
+      method: ShutdownMethod;
+      cancellable: boolean;
+    }
+  | {
+      type: 'cancelled';
+      timestampIso: string;
+      ruleId: string;
+      reason: string;
+    }
+  | {
+      type: 'elapsed';
+      timestampIso: string;
+      ruleId: string;
+      method: ShutdownMethod;
+    };
+
+export type ShutdownPolicyBacktestEventKind =
+  | 'warning'
+  | 'criticalAlert'
+  | 'notification'
+  | 'runCommand'
+  | 'sendWebhook'
+  | 'countdownStarted'
+  | 'countdownCancelled'
+  | 'shutdown'
+  | 'dataGap';
+
+/** One step of a policy replayed against recorded telemetry. */
+export type ShutdownPolicyBacktestEvent = {
+  timestampIso: string;
+  kind: ShutdownPolicyBacktestEventKind;
+  ruleId?: string;
+  ruleName?: string;
+  summary: string;
+  conditionExplanation?: string[];
+  /** Absent for data gaps, which have no sample to describe. */
+  context?: ShutdownPolicyDecisionLogContext;
+};
+
+export type ShutdownPolicyBacktestResult = {
+  startIso: string;
+  endIso: string;
+  sampleCount: number;
+  events: ShutdownPolicyBacktestEvent[];
+  /** When the replayed policy would have shut the computer down, if it would have. */
+  shutdownAtIso?: string;
+};
+
+export type ShutdownPolicyRuntimeSource = 'reported' | 'estimated';
+
+export type ShutdownPolicyCommunicationDrop = {
+  /** Seconds after the outage began. */
+  startSecond: number;
+  durationSeconds: number;
+};
+
+/** A synthetic mains failure, stepped through the policy one second at a time. */
+export type ShutdownPolicyOutageScenario = {
+  startChargePercent: number;
+  loadPercent: number;
+  dischargePercentPerMinute: number;
+  /** `estimated` leaves out `battery.runtime` so the learned discharge model fills it in. */
+  runtimeSource: ShutdownPolicyRuntimeSource;
+  /** Seconds until mains returns; null keeps the UPS on battery until it is empty. */
+  restoreAfterSeconds: number | null;
+  communicationDrops: ShutdownPolicyCommunicationDrop[];
+  /** When mains fails, for rules that depend on the time of day. Defaults to the Unix epoch. */
+  startAtIso?: string;
+};
+
+export type ShutdownPolicyOutageEventKind =
+  | Exclude<ShutdownPolicyBacktestEventKind, 'dataGap'>
+  | 'holdStarted'
+  | 'batteryDepleted';
+
+export type ShutdownPolicyOutageEvent = {
+  second: number;
+  kind: ShutdownPolicyOutageEventKind;
+  ruleId?: string;
+  ruleName?: string;
+  summary: string;
+  conditionExplanation?: string[];
+};
+
+export type ShutdownPolicyOutageSample = {
+  second: number;
+  chargePercent: number;
+  runtimeSeconds?: number;
+  onBattery: boolean;
+  connected: boolean;
+};
+
+export type ShutdownPolicyOutageInterval = {
+  startSecond: number;
+  endSecond: number;
+};
+
+/** When one rule's trigger matched, which is when its hold timer runs. */
+export type ShutdownPolicyOutageRuleLane = {
+  ruleId: string;
+  ruleName: string;
+  holdForSeconds: number;
+  matched: ShutdownPolicyOutageInterval[];
+};
+
+export type ShutdownPolicyOutageSimulationResult = {
+  durationSeconds: number;
+  /** Thinned for charting; events and lanes keep whole-second precision. */
+  samples: ShutdownPolicyOutageSample[];
+  /** The scenario's drops, clipped to the simulated duration. */
+  communicationDrops: ShutdownPolicyOutageInterval[];
+  restoredAtSecond?: number;
+  lanes: ShutdownPolicyOutageRuleLane[];
+  events: ShutdownPolicyOutageEvent[];
+  shutdownAtSecond?: number;
+  batteryDepletedAtSecond?: number;
+};
+
+export type BuiltInShutdownPolicyPresetId =
+  | 'standard'
+  | 'earlyShutdown'
+  | 'runtimeBased'
+  | 'followPrimary';
+
+/** A whole policy saved under a name, kept in the app config. */
+export type ShutdownPolicyPreset = {
+  id: string;
+  name: string;
+  savedAtIso: string;
+  policy: ShutdownPolicyConfig;
+};
+
+/** What an exported policy file holds; `version` is the policy format version. */
+export type ShutdownPolicyFile = {
+  format: 'ups-shutdown-policy';
+  version: ShutdownPolicyVersion;
+  exportedAtIso: string;
+  name?: string;
+  policy: ShutdownPolicyConfig;
+};
+
+export type ShutdownPolicyDiffChange = 'added' | 'removed' | 'changed';
+
+export type ShutdownPolicyDiffEntry = {
+  change: ShutdownPolicyDiffChange;
+  label: string;
+  before?: string;
+  after?: string;
 };
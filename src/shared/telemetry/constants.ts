@@ -0,0 +1,26 @@
+import type { TelemetryExportFormat, TelemetryRollupTier } from './types';
+
+export const TELEMETRY_EXPORT_FORMATS = [
+  'csv',
+  'ndjson',
+  'parquet',
+] as const satisfies readonly TelemetryExportFormat[];
+
+export const TELEMETRY_EXPORT_FILE_EXTENSIONS: Record<TelemetryExportFormat, string> = {
+  csv: 'csv',
+  ndjson: 'ndjson',
+  parquet: 'parquet',
+};
+
+/** Finest first; each tier is aggregated from the one before it. */
+export const TELEMETRY_ROLLUP_TIERS = [
+  'minute',
+  'hour',
+  'day',
+] as const satisfies readonly TelemetryRollupTier[];
+
+export const TELEMETRY_ROLLUP_BUCKET_MS: Record<TelemetryRollupTier, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { selectTelemetryBucketMs } from './downsampling';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+describe('selectTelemetryBucketMs()', () => {
+  it('rounds up to the next readable bucket width', () => {
+    expect(selectTelemetryBucketMs(60 * MINUTE_MS, 300)).toBe(15 * 1000);
+    expect(selectTelemetryBucketMs(3 * DAY_MS, 300)).toBe(15 * MINUTE_MS);
+    expect(selectTelemetryBucketMs(365 * DAY_MS, 300)).toBe(2 * DAY_MS);
+  });
+
+  it('never goes below one second', () => {
+    expect(selectTelemetryBucketMs(10 * 1000, 300)).toBe(1000);
+    expect(selectTelemetryBucketMs(0, 300)).toBe(1000);
+  });
+
+  it('falls back to whole days beyond the largest preset', () => {
+    expect(selectTelemetryBucketMs(3650 * DAY_MS, 10)).toBe(365 * DAY_MS);
+  });
+});
@@ -0,0 +1,42 @@
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Bucket widths a downsampled range query may use, smallest first. */
+export const TELEMETRY_BUCKET_SIZES_MS = [
+  SECOND_MS,
+  2 * SECOND_MS,
+  5 * SECOND_MS,
+  10 * SECOND_MS,
+  15 * SECOND_MS,
+  30 * SECOND_MS,
+  MINUTE_MS,
+  2 * MINUTE_MS,
+  5 * MINUTE_MS,
+  10 * MINUTE_MS,
+  15 * MINUTE_MS,
+  30 * MINUTE_MS,
+  HOUR_MS,
+  2 * HOUR_MS,
+  3 * HOUR_MS,
+  6 * HOUR_MS,
+  12 * HOUR_MS,
+  DAY_MS,
+  2 * DAY_MS,
+  7 * DAY_MS,
+  14 * DAY_MS,
+  30 * DAY_MS,
+] as const;
+
+/**
+ * Smallest bucket width that fits `rangeMs` into at most `maxPoints` buckets,
+ * rounded up to a readable step so consecutive queries line up.
+ */
+export function selectTelemetryBucketMs(rangeMs: number, maxPoints: number): number {
+  const minimumMs = Math.max(0, rangeMs) / Math.max(1, maxPoints);
+  return (
+    TELEMETRY_BUCKET_SIZES_MS.find((size) => size >= minimumMs) ??
+    Math.ceil(minimumMs / DAY_MS) * DAY_MS
+  );
+}
@@ -1 +1,8 @@
 export type { TelemetryColumn } from '../../main/nut/nutValueMapper';
+
+export type TelemetryExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+/** Pre-aggregated resolutions kept alongside the raw `ups_telemetry` rows. */
+export type TelemetryRollupTier = 'minute' | 'hour' | 'day';
+
+export type TelemetryResolution = 'raw' | TelemetryRollupTier;
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { defaultAppConfig } from '../../main/config/configSchema';
+import {
+  createUpsTargetId,
+  findUpsTarget,
+  hasUpsTargetConnectionChanged,
+  listUpsTargets,
+  PRIMARY_UPS_ID,
+} from './upsTargets';
+
+const configWithTargets = {
+  ...defaultAppConfig,
+  nut: {
+    ...defaultAppConfig.nut,
+    displayName: 'Rack A',
+    launchLocalComponents: true,
+    targets: [
+      {
+        id: 'rack-b',
+        name: 'Rack B',
+        host: '127.0.0.1',
+        port: 3493,
+        upsName: 'ups2',
+      },
+    ],
+  },
+};
+
+describe('UPS target helpers', () => {
+  it('lists the primary target first and applies fallbacks to extra targets', () => {
+    const targets = listUpsTargets(configWithTargets);
+
+    expect(targets.map((target) => target.id)).toEqual([PRIMARY_UPS_ID, 'rack-b']);
+    expect(targets[0]).toMatchObject({
+      name: 'Rack A',
+      upsName: 'snmpups',
+      launchLocalComponents: true,
+    });
+    expect(targets[1]).toMatchObject({
+      name: 'Rack B',
+      upsName: 'ups2',
+      launchLocalComponents: false,
+      mapping: defaultAppConfig.nut.mapping,
+    });
+  });
+
+  it('connects each extra target with its own STARTTLS settings', () => {
+    const tls = { mode: 'required' as const, caCertificate: 'pem' };
+    const [primary, rackB] = listUpsTargets({
+      ...configWithTargets,
+      nut: {
+        ...configWithTargets.nut,
+        targets: [{ ...configWithTargets.nut.targets[0], tls }],
+      },
+    });
+
+    expect(primary.tls).toBeUndefined();
+    expect(rackB.tls).toEqual(tls);
+  });
+
+  it('names the primary target after its NUT ups name by default', () => {
+    expect(findUpsTarget(defaultAppConfig, PRIMARY_UPS_ID)?.name).toBe('snmpups');
+    expect(findUpsTarget(defaultAppConfig, 'missing')).toBeNull();
+  });
+
+  it('derives unique ids from display names', () => {
+    expect(createUpsTargetId('Rack B (top)', [])).toBe('rack-b-top');
+    expect(createUpsTargetId('Rack B', ['rack-b', 'rack-b-2'])).toBe('rack-b-3');
+    expect(createUpsTargetId('Primary', [])).toBe('primary-2');
+    expect(createUpsTargetId('机柜', [])).toBe('ups');
+  });
+
+  it('detects connection changes but ignores display-only edits', () => {
+    const [primary, rackB] = listUpsTargets(configWithTargets);
+
+    expect(hasUpsTargetConnectionChanged(rackB, { ...rackB, name: 'Renamed' })).toBe(false);
+    expect(hasUpsTargetConnectionChanged(rackB, { ...rackB, port: 3494 })).toBe(true);
+    expect(hasUpsTargetConnectionChanged(primary, null)).toBe(true);
+    expect(hasUpsTargetConnectionChanged(null, null)).toBe(false);
+    expect(
+      hasUpsTargetConnectionChanged(primary, { ...primary, tls: { mode: 'off' } }),
+    ).toBe(false);
+    expect(
+      hasUpsTargetConnectionChanged(primary, { ...primary, tls: { mode: 'required' } }),
+    ).toBe(true);
+  });
+});
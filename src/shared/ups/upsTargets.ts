@@ -0,0 +1,117 @@
+import type { AppConfig } from '../config/types';
+import type { NutTlsSettings } from '../nut/tls';
+
+/**
+ * Identifier of the UPS described by the top-level `nut` connection settings.
+ * That target is configured by the setup wizard and is the only one allowed to
+ * launch local NUT components or drive the shutdown policy.
+ */
+export const PRIMARY_UPS_ID = 'primary';
+
+export const UPS_TARGET_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/u;
+
+export type UpsTarget = {
+  id: string;
+  name: string;
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  upsName: string;
+  mapping?: Record<string, string>;
+  launchLocalComponents: boolean;
+  localNutFolderPath?: string;
+  tls?: NutTlsSettings;
+};
+
+export function listUpsTargets(config: AppConfig): UpsTarget[] {
+  const { nut } = config;
+  const primary: UpsTarget = {
+    id: PRIMARY_UPS_ID,
+    name: nut.displayName ?? nut.upsName,
+    host: nut.host,
+    port: nut.port,
+    username: nut.username,
+    password: nut.password,
+    upsName: nut.upsName,
+    mapping: nut.mapping,
+    launchLocalComponents: nut.launchLocalComponents ?? false,
+    localNutFolderPath: nut.localNutFolderPath,
+    tls: nut.tls,
+  };
+
+  const additional = (nut.targets ?? []).map<UpsTarget>((target) => ({
+    id: target.id,
+    name: target.name,
+    host: target.host,
+    port: target.port,
+    username: target.username,
+    password: target.password,
+    upsName: target.upsName,
+    // Extra targets usually share the primary device's driver family, so the
+    // primary mapping is the most useful fallback.
+    mapping: target.mapping ?? nut.mapping,
+    launchLocalComponents: false,
+    tls: target.tls,
+  }));
+
+  return [primary, ...additional];
+}
+
+export function findUpsTarget(config: AppConfig, upsId: string): UpsTarget | null {
+  return listUpsTargets(config).find((target) => target.id === upsId) ?? null;
+}
+
+/**
+ * Derives a target id from a display name, avoiding ids that are already
+ * taken. Used when the user adds a device without choosing an id explicitly.
+ */
+export function createUpsTargetId(name: string, existingIds: Iterable<string>): string {
+  const taken = new Set(existingIds);
+  taken.add(PRIMARY_UPS_ID);
+
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/gu, '-')
+      .replace(/^-+|-+$/gu, '')
+      .slice(0, 24) || 'ups';
+
+  let candidate = base;
+  for (let suffix = 2; taken.has(candidate); suffix += 1) {
+    candidate = `${base}-${suffix}`;
+  }
+
+  return candidate;
+}
+
+export function hasUpsTargetConnectionChanged(
+  previous: UpsTarget | null,
+  next: UpsTarget | null,
+): boolean {
+  if (!previous || !next) {
+    return previous !== next;
+  }
+
+  return (
+    previous.host !== next.host ||
+    previous.port !== next.port ||
+    previous.upsName !== next.upsName ||
+    previous.username !== next.username ||
+    previous.password !== next.password ||
+    previous.launchLocalComponents !== next.launchLocalComponents ||
+    previous.localNutFolderPath !== next.localNutFolderPath ||
+    !isSameTlsSettings(previous.tls, next.tls)
+  );
+}
+
+function isSameTlsSettings(
+  previous: NutTlsSettings | undefined,
+  next: NutTlsSettings | undefined,
+): boolean {
+  return (
+    (previous?.mode ?? 'off') === (next?.mode ?? 'off') &&
+    previous?.caCertificate === next?.caCertificate &&
+    previous?.pinnedFingerprint === next?.pinnedFingerprint
+  );
+}